@@ -0,0 +1,75 @@
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+
+// Routes
+import authRoutes from './routes/authRoutes.js';
+import customerAuthRoutes from './routes/customerAuthRoutes.js';
+import activityRoutes from './routes/activityRoutes.js';
+import sessionRoutes from './routes/sessionRoutes.js';
+import orderRoutes from './routes/orderRoutes.js';
+import paymentRoutes from './routes/paymentRoutes.js';
+import reservationRoutes from './routes/reservationRoutes.js';
+import queueRoutes from './routes/queueRoutes.js';
+import inventoryRoutes from './routes/inventoryRoutes.js';
+import revenueRoutes from './routes/revenueRoutes.js';
+import pricingRuleRoutes from './routes/pricingRuleRoutes.js';
+import schedulerRoutes from './routes/schedulerRoutes.js';
+import loyaltyRoutes from './routes/loyaltyRoutes.js';
+import packageRoutes from './routes/packageRoutes.js';
+import couponRoutes from './routes/couponRoutes.js';
+import branchRoutes from './routes/branchRoutes.js';
+import groupBookingRoutes from './routes/groupBookingRoutes.js';
+import reservationSeriesRoutes from './routes/reservationSeriesRoutes.js';
+import customerRoutes from './routes/customerRoutes.js';
+import billSplitRoutes from './routes/billSplitRoutes.js';
+import tournamentRoutes from './routes/tournamentRoutes.js';
+import playerRoutes from './routes/playerRoutes.js';
+import lapRoutes from './routes/lapRoutes.js';
+import smokingRoomRoutes from './routes/smokingRoomRoutes.js';
+
+dotenv.config();
+
+const app = express();
+
+app.use(cors({
+  origin: process.env.FRONTEND_URL || 'http://localhost:5173',
+  credentials: true,
+}));
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+app.use('/api/auth', authRoutes);
+app.use('/api/customer-auth', customerAuthRoutes);
+app.use('/api/activities', activityRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/reservations', reservationRoutes);
+app.use('/api/queue', queueRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/revenue', revenueRoutes);
+app.use('/api/pricing-rules', pricingRuleRoutes);
+app.use('/api/scheduler', schedulerRoutes);
+app.use('/api/loyalty', loyaltyRoutes);
+app.use('/api/packages', packageRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/branches', branchRoutes);
+app.use('/api/group-bookings', groupBookingRoutes);
+app.use('/api/reservation-series', reservationSeriesRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/bill-splits', billSplitRoutes);
+app.use('/api/tournaments', tournamentRoutes);
+app.use('/api/players', playerRoutes);
+app.use('/api/laps', lapRoutes);
+app.use('/api/smoking-room', smokingRoomRoutes);
+
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+export default app;
@@ -46,6 +46,13 @@ export const getRedis = (): Redis => {
   return redis;
 };
 
+/**
+ * Use an already-created client instead of connecting (e.g. ioredis-mock in tests).
+ */
+export const setRedisClient = (client: Redis | null): void => {
+  redis = client;
+};
+
 export const redisUtils = {
   acquireLock: async (key: string, value: string, ttlSeconds = 10): Promise<boolean> => {
     const client = getRedis();
@@ -58,6 +65,24 @@ export const redisUtils = {
     await client.del(key);
   },
 
+  // Refresh the TTL only while the lock still belongs to `value`
+  extendLock: async (key: string, value: string, ttlSeconds = 10): Promise<boolean> => {
+    const client = getRedis();
+    const result = await client.eval(
+      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('expire', KEYS[1], ARGV[2]) else return 0 end",
+      1,
+      key,
+      value,
+      ttlSeconds
+    );
+    return result === 1;
+  },
+
+  getLockOwner: async (key: string): Promise<string | null> => {
+    const client = getRedis();
+    return client.get(key);
+  },
+
   setCache: async (key: string, value: any, ttlSeconds = 300): Promise<void> => {
     const client = getRedis();
     await client.setex(key, ttlSeconds, JSON.stringify(value));
@@ -81,6 +106,18 @@ export const redisUtils = {
     return Object.keys(state).length > 0 ? state : null;
   },
 
+  // Count up atomically; the TTL starts with the first increment so the count resets after it
+  increment: async (key: string, ttlSeconds = 300): Promise<number> => {
+    const client = getRedis();
+    const result = await client.eval(
+      "local n = redis.call('incr', KEYS[1]) if n == 1 then redis.call('expire', KEYS[1], ARGV[1]) end return n",
+      1,
+      key,
+      ttlSeconds
+    );
+    return Number(result);
+  },
+
   publish: async (channel: string, message: any): Promise<void> => {
     const client = getRedis();
     await client.publish(channel, JSON.stringify(message));
@@ -1,8 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
-import mongoose from 'mongoose';
 import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
 import { SessionModel } from '../models/Session.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import {
+  MAX_ADVANCE_DAYS,
+  formatBusinessDate,
+  getActivityAvailability as computeAvailability,
+  isWithinBookingWindow,
+  parseBookingDate,
+} from '../lib/availability.js';
+import { MAX_BOOKING_MINUTES, quoteActivityPrice } from '../lib/pricing.js';
+import { signedInMemberPhone } from '../lib/loyalty.js';
+import { branchFilter, findActivity, getBranchForWrite, getBranchScope, inBranchScope } from '../lib/branches.js';
+
+const assertUnitInScope = async (req: Request, unitId: string): Promise<void> => {
+  const unit = await ActivityUnitModel.findById(unitId);
+  if (!unit || !inBranchScope(unit.branchId, await getBranchScope(req))) {
+    throw new AppError('Unit not found', 404);
+  }
+};
 
 export const getAllActivities = async (
   req: Request,
@@ -11,8 +28,9 @@ export const getAllActivities = async (
 ): Promise<void> => {
   try {
     const enabledOnly = req.query.enabled === 'true';
-    const query = enabledOnly ? { enabled: true } : {};
-    
+    const scope = await getBranchScope(req);
+    const query = { ...branchFilter(scope), ...(enabledOnly ? { enabled: true } : {}) };
+
     const activities = await ActivityModel.find(query).sort({ name: 1 });
     const activitiesWithUnits = await Promise.all(
       activities.map(async (activity) => {
@@ -20,6 +38,7 @@ export const getAllActivities = async (
         return {
           id: activity.type, 
           _id: activity._id.toString(),
+          branchId: activity.branchId.toString(),
           type: activity.type,
           name: activity.name,
           description: activity.description,
@@ -28,7 +47,11 @@ export const getAllActivities = async (
           duration: activity.duration,
           minimumDuration: activity.minimumDuration,
           peakMultiplier: activity.peakMultiplier,
+          loyaltyPointsPerRupee: activity.loyaltyPointsPerRupee,
           bufferTime: activity.bufferTime,
+          claimWindowMinutes: activity.claimWindowMinutes,
+          noShowGraceMinutes: activity.noShowGraceMinutes,
+          capacity: activity.capacity,
           enabled: activity.enabled,
           units: units.map(unit => ({
             id: unit._id.toString(),
@@ -54,12 +77,7 @@ export const getActivityById = async (
   try {
     const { id } = req.params;
     
-    let activity;
-    if (mongoose.Types.ObjectId.isValid(id)) {
-      activity = await ActivityModel.findById(id);
-    } else {
-      activity = await ActivityModel.findOne({ type: id });
-    }
+    const activity = await findActivity(id, await getBranchScope(req));
 
     if (!activity) {
       throw new AppError('Activity not found', 404);
@@ -70,6 +88,7 @@ export const getActivityById = async (
     res.json({
       id: activity.type,
       _id: activity._id.toString(),
+      branchId: activity.branchId.toString(),
       type: activity.type,
       name: activity.name,
       description: activity.description,
@@ -78,7 +97,11 @@ export const getActivityById = async (
       duration: activity.duration,
       minimumDuration: activity.minimumDuration,
       peakMultiplier: activity.peakMultiplier,
+      loyaltyPointsPerRupee: activity.loyaltyPointsPerRupee,
       bufferTime: activity.bufferTime,
+      claimWindowMinutes: activity.claimWindowMinutes,
+      noShowGraceMinutes: activity.noShowGraceMinutes,
+      capacity: activity.capacity,
       enabled: activity.enabled,
       units: units.map(unit => ({
         id: unit._id.toString(),
@@ -92,13 +115,111 @@ export const getActivityById = async (
   }
 };
 
+export const getActivityAvailability = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { date, duration: durationParam } = req.query;
+
+    const activity = await findActivity(id, await getBranchScope(req));
+
+    if (!activity || !activity.enabled) {
+      throw new AppError('Activity not found or disabled', 404);
+    }
+
+    const day = parseBookingDate(date as string | undefined);
+    if (!day) {
+      throw new AppError('Date must be in YYYY-MM-DD format', 400);
+    }
+    if (!isWithinBookingWindow(day)) {
+      throw new AppError(`Slots can be booked up to ${MAX_ADVANCE_DAYS} days ahead`, 400);
+    }
+
+    const duration = durationParam
+      ? parseInt(durationParam as string, 10)
+      : activity.duration || activity.minimumDuration;
+
+    if (!duration || isNaN(duration)) {
+      throw new AppError('Invalid duration', 400);
+    }
+    if (duration < activity.minimumDuration) {
+      throw new AppError(`Minimum duration is ${activity.minimumDuration} minutes`, 400);
+    }
+
+    const availability = await computeAvailability(activity, day, duration);
+
+    res.json({
+      activityId: activity.type,
+      date: formatBusinessDate(day),
+      duration,
+      bufferTime: activity.bufferTime,
+      ...availability,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getActivityPriceQuote = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { duration: durationParam, startTime: startParam, phone } = req.query;
+
+    const activity = await findActivity(id, await getBranchScope(req));
+
+    if (!activity || !activity.enabled) {
+      throw new AppError('Activity not found or disabled', 404);
+    }
+
+    const duration = parseInt(durationParam as string, 10);
+    if (!duration || isNaN(duration) || duration < 1) {
+      throw new AppError('Invalid duration', 400);
+    }
+    if (duration > MAX_BOOKING_MINUTES) {
+      throw new AppError(`Bookings can be at most ${MAX_BOOKING_MINUTES} minutes`, 400);
+    }
+
+    const start = startParam ? new Date(startParam as string) : new Date();
+    if (isNaN(start.getTime())) {
+      throw new AppError('Invalid start time', 400);
+    }
+
+    const quote = await quoteActivityPrice(
+      activity,
+      duration,
+      start,
+      signedInMemberPhone(phone as string | undefined, req.customer?.phone)
+    );
+
+    res.json({
+      activityId: activity.type,
+      duration,
+      startTime: start,
+      amount: quote.total,
+      priceBreakdown: quote.lineItems,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const createActivity = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const activity = await ActivityModel.create(req.body);
+    const activity = await ActivityModel.create({
+      ...req.body,
+      branchId: await getBranchForWrite(req),
+    });
     res.status(201).json({
       id: activity._id.toString(),
       ...activity.toObject(),
@@ -115,9 +236,16 @@ export const updateActivity = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
+    const { branchId, ...update } = req.body;
+
+    const existing = await ActivityModel.findById(id);
+    if (!existing || !inBranchScope(existing.branchId, await getBranchScope(req))) {
+      throw new AppError('Activity not found', 404);
+    }
+
     const activity = await ActivityModel.findByIdAndUpdate(
       id,
-      { $set: req.body },
+      { $set: update },
       { new: true, runValidators: true }
     );
 
@@ -141,12 +269,14 @@ export const deleteActivity = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const activity = await ActivityModel.findByIdAndDelete(id);
 
-    if (!activity) {
+    const activity = await ActivityModel.findById(id);
+    if (!activity || !inBranchScope(activity.branchId, await getBranchScope(req))) {
       throw new AppError('Activity not found', 404);
     }
 
+    await activity.deleteOne();
+
     res.json({ message: 'Activity deleted successfully' });
   } catch (error) {
     next(error);
@@ -166,8 +296,14 @@ export const createUnit = async (
       throw new AppError('Unit name is required', 400);
     }
 
+    const activity = await ActivityModel.findById(activityId);
+    if (!activity || !inBranchScope(activity.branchId, await getBranchScope(req))) {
+      throw new AppError('Activity not found', 404);
+    }
+
     const unit = await ActivityUnitModel.create({
       activityId,
+      branchId: activity.branchId,
       name,
     });
     
@@ -195,6 +331,8 @@ export const updateUnitStatus = async (
       throw new AppError('Invalid status', 400);
     }
 
+    await assertUnitInScope(req, unitId);
+
     const unit = await ActivityUnitModel.findByIdAndUpdate(
       unitId,
       { $set: { status } },
@@ -238,6 +376,8 @@ export const updateUnit = async (
     if (location !== undefined) updateData.location = location;
     if (notes !== undefined) updateData.notes = notes;
 
+    await assertUnitInScope(req, unitId);
+
     const unit = await ActivityUnitModel.findByIdAndUpdate(
       unitId,
       { $set: updateData },
@@ -269,6 +409,8 @@ export const deleteUnit = async (
   try {
     const { unitId } = req.params;
 
+    await assertUnitInScope(req, unitId);
+
     const activeSessions = await SessionModel.countDocuments({
       unitId,
       status: { $in: ['active', 'paused', 'scheduled'] },
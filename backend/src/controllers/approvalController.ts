@@ -1,13 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { ReservationModel } from '../models/Reservation.js';
 import { WaitingQueueModel } from '../models/WaitingQueue.js';
 import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
 import { SessionModel } from '../models/Session.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { branchFilter, findActivity, getBranchScope, inBranchScope } from '../lib/branches.js';
 import { redisUtils } from '../config/redis.js';
-import { findAvailableUnit, processWaitingQueue, getQueueStatus } from '../lib/queueManager.js';
+import { findAvailableUnit, processWaitingQueue, getQueueStatus, broadcastQueueEstimates } from '../lib/queueManager.js';
+import { isAdvanceBooking, isUnitFreeFor, scheduleReservedSession } from '../lib/availability.js';
+import { applySessionExtension } from '../lib/sessionExtensions.js';
+import { restoreRedeemedPoints } from '../lib/loyalty.js';
+import { releaseCoupon } from '../lib/coupons.js';
 import { broadcastSessionEvent, broadcastAvailabilityChange } from '../websocket/server.js';
 
+// Activities staff can see, for records that only know their activity
+const activityIdsInScope = async (scope: string | null) =>
+  ActivityModel.find(branchFilter(scope)).distinct('_id');
+
+/**
+ * An extension, unless it belongs to a session at another branch
+ */
+const findExtensionInScope = async (extensionId: string, scope: string | null) => {
+  const extension = await SessionExtensionModel.findById(extensionId);
+  if (!extension) {
+    return null;
+  }
+  const session = await SessionModel.findById(extension.sessionId).select('branchId');
+  return inBranchScope(session?.branchId, scope) ? extension : null;
+};
+
 export const getPendingApprovals = async (
   req: Request,
   res: Response,
@@ -15,6 +38,7 @@ export const getPendingApprovals = async (
 ): Promise<void> => {
   try {
     const reservations = await ReservationModel.find({
+      ...branchFilter(await getBranchScope(req)),
       status: 'pending_approval',
     })
       .populate('activityId', 'name type')
@@ -51,11 +75,12 @@ export const approveCashPayment = async (
       throw new AppError('Reservation ID is required', 400);
     }
 
+    const scope = await getBranchScope(req);
     const reservation = await ReservationModel.findById(reservationId)
       .populate('activityId')
       .populate('unitId');
 
-    if (!reservation) {
+    if (!reservation || !inBranchScope(reservation.branchId, scope)) {
       throw new AppError('Reservation not found', 404);
     }
 
@@ -78,19 +103,63 @@ export const approveCashPayment = async (
       throw new AppError('Reservation is not pending approval', 400);
     }
 
+    if (reservation.unitId && isAdvanceBooking(reservation.startTime)) {
+      const activityIdForLookup = (reservation.activityId as any)?._id || reservation.activityId;
+      const activity = await ActivityModel.findById(activityIdForLookup);
+      if (!activity) {
+        throw new AppError('Activity not found', 404);
+      }
+
+      reservation.activityId = activity._id;
+      reservation.unitId = (reservation.unitId as any)?._id || reservation.unitId;
+      const session = await scheduleReservedSession(reservation, activity, 'offline', 'offline');
+
+      const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
+      const io = getIO();
+      if (io) {
+        notifyCustomerByPhone(reservation.customerPhone, 'booking_approved', {
+          reservationId: reservation._id.toString(),
+          sessionId: session._id.toString(),
+          status: 'payment_confirmed',
+          message: 'Your booking has been approved. See you at your slot!',
+          timestamp: new Date().toISOString(),
+        });
+
+        io.of('/admin').emit('approval_processed', {
+          reservationId: reservation._id.toString(),
+          sessionId: session._id.toString(),
+          status: 'payment_confirmed',
+          action: 'approved',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Payment approved and slot scheduled',
+        reservationId: reservation._id.toString(),
+        sessionId: session._id.toString(),
+        scheduled: true,
+      });
+      return;
+    }
+
     let assignedUnitId = unitId || reservation.unitId;
     
     if (unitId) {
       const unit = await ActivityUnitModel.findById(unitId);
-      if (!unit) {
+      if (!unit || !inBranchScope(unit.branchId, scope)) {
         throw new AppError('Unit not found', 404);
       }
       if (unit.status !== 'available') {
         throw new AppError('Unit is not available', 400);
       }
+      const unitActivity = await ActivityModel.findById(unit.activityId);
+      if (!await isUnitFreeFor(unit._id, reservation.durationMinutes, unitActivity?.bufferTime || 0, reservation._id.toString())) {
+        throw new AppError('Unit is booked during this time. Choose another unit.', 409);
+      }
     } else {
       const activityIdForSearch = (reservation.activityId as any)?._id?.toString() || reservation.activityId?.toString();
-      const availableUnit = await findAvailableUnit(activityIdForSearch);
+      const availableUnit = await findAvailableUnit(activityIdForSearch, reservation.durationMinutes, reservation._id.toString());
       if (!availableUnit) {
         throw new AppError('No units available for this activity', 400);
       }
@@ -144,6 +213,7 @@ export const approveCashPayment = async (
     const session = await SessionModel.create({
       reservationId: reservation._id,
       activityId: activityId,
+      branchId: reservation.branchId,
       activityType: activityType,
       unitId: assignedUnitId,
       startTime,
@@ -152,6 +222,7 @@ export const approveCashPayment = async (
       duration: reservation.durationMinutes,
       baseAmount: reservation.amount,
       amount: reservation.amount,
+      memberPricing: reservation.memberPricing,
       status: 'active',
       actualStartTime: startTime,
       customerName: reservation.customerName,
@@ -175,6 +246,7 @@ export const approveCashPayment = async (
       queueEntry.sessionId = session._id;
       await queueEntry.save();
     }
+    await broadcastQueueEstimates(activityId.toString());
 
     await redisUtils.setSessionState(session._id.toString(), {
       status: 'active',
@@ -254,7 +326,7 @@ export const rejectCashPayment = async (
 
     const reservation = await ReservationModel.findById(reservationId);
 
-    if (!reservation) {
+    if (!reservation || !inBranchScope(reservation.branchId, await getBranchScope(req))) {
       throw new AppError('Reservation not found', 404);
     }
 
@@ -264,6 +336,8 @@ export const rejectCashPayment = async (
 
     reservation.status = 'cancelled';
     await reservation.save();
+    await restoreRedeemedPoints('reservation', reservation);
+    await releaseCoupon('reservation', reservation);
 
     await redisUtils.delete(`reservation:${reservation._id}`);
 
@@ -293,6 +367,133 @@ export const rejectCashPayment = async (
   }
 };
 
+export const getPendingExtensionApprovals = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const extensions = await SessionExtensionModel.find({
+      activityId: { $in: await activityIdsInScope(await getBranchScope(req)) },
+      status: 'pending_approval',
+    })
+      .populate('activityId', 'name type')
+      .populate('unitId', 'name status')
+      .sort({ createdAt: -1 });
+
+    res.json(extensions.map(e => ({
+      id: e._id.toString(),
+      sessionId: e.sessionId.toString(),
+      activityId: e.activityId,
+      unitId: e.unitId,
+      customerName: e.customerName,
+      customerPhone: e.customerPhone,
+      amount: e.amount,
+      additionalMinutes: e.additionalMinutes,
+      startTime: e.startTime,
+      endTime: e.endTime,
+      createdAt: e.createdAt,
+    })));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveExtensionPayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { extensionId } = req.body;
+
+    if (!extensionId) {
+      throw new AppError('Extension ID is required', 400);
+    }
+
+    const extension = await findExtensionInScope(extensionId, await getBranchScope(req));
+    if (!extension) {
+      throw new AppError('Extension not found', 404);
+    }
+
+    if (extension.status !== 'pending_approval') {
+      throw new AppError('Extension is not pending approval', 400);
+    }
+
+    const session = await applySessionExtension(extension, 'offline');
+
+    const { getIO } = await import('../websocket/server.js');
+    const io = getIO();
+    if (io) {
+      io.of('/admin').emit('approval_processed', {
+        extensionId: extension._id.toString(),
+        sessionId: session._id.toString(),
+        action: 'approved',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Payment approved and session extended',
+      extensionId: extension._id.toString(),
+      sessionId: session._id.toString(),
+      endTime: session.endTime,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rejectExtensionPayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { extensionId } = req.body;
+
+    if (!extensionId) {
+      throw new AppError('Extension ID is required', 400);
+    }
+
+    const extension = await findExtensionInScope(extensionId, await getBranchScope(req));
+    if (!extension) {
+      throw new AppError('Extension not found', 404);
+    }
+
+    if (extension.status !== 'pending_approval') {
+      throw new AppError('Extension is not pending approval', 400);
+    }
+
+    extension.status = 'cancelled';
+    await extension.save();
+
+    const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+    notifyCustomerById(extension.sessionId.toString(), 'session', 'extension_rejected', {
+      session_id: extension.sessionId.toString(),
+      extension_id: extension._id.toString(),
+      message: 'Your extension request was not approved. Please contact staff.',
+      timestamp: new Date().toISOString(),
+    });
+
+    const io = getIO();
+    if (io) {
+      io.of('/admin').emit('approval_processed', {
+        extensionId: extension._id.toString(),
+        action: 'rejected',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Extension payment rejected',
+      extensionId: extension._id.toString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getWaitingQueue = async (
   req: Request,
   res: Response,
@@ -301,18 +502,17 @@ export const getWaitingQueue = async (
   try {
     const { activityId } = req.query;
 
+    const activityIds = await activityIdsInScope(await getBranchScope(req));
+    // Entries that expired after paying stay listed until they're refunded
     const query: any = {
-      status: 'waiting',
+      $or: [{ status: 'waiting' }, { status: 'expired', refundDue: true }],
+      activityId: { $in: activityId ? activityIds.filter(id => id.toString() === activityId) : activityIds },
     };
 
-    if (activityId) {
-      query.activityId = activityId;
-    }
-
     const queue = await WaitingQueueModel.find(query)
       .populate('activityId', 'name type')
       .populate('reservationId')
-      .sort({ position: 1 });
+      .sort({ refundDue: -1, position: 1 });
 
     res.json(queue.map(q => ({
       id: q._id.toString(),
@@ -325,6 +525,9 @@ export const getWaitingQueue = async (
       paymentStatus: q.paymentStatus,
       position: q.position,
       status: q.status,
+      claimDeadline: q.claimDeadline,
+      missedClaims: q.missedClaims,
+      refundDue: q.refundDue,
       createdAt: q.createdAt,
       qrContext: q.qrContext,
     })));
@@ -333,6 +536,53 @@ export const getWaitingQueue = async (
   }
 };
 
+/**
+ * Record that an expired queue entry's payment has been handed back
+ */
+export const markQueueEntryRefunded = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      throw new AppError('No refund is due for this queue entry', 404);
+    }
+
+    const activityIds = await activityIdsInScope(await getBranchScope(req));
+    const entry = await WaitingQueueModel.findOneAndUpdate(
+      { _id: req.params.id, activityId: { $in: activityIds }, refundDue: true },
+      { $set: { refundDue: false } },
+      { new: true }
+    );
+
+    if (!entry) {
+      throw new AppError('No refund is due for this queue entry', 404);
+    }
+
+    const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
+    notifyCustomerByPhone(entry.customerPhone, 'refund_issued', {
+      reservationId: entry.reservationId.toString(),
+      amount: entry.amount,
+      message: `A refund of ₹${entry.amount} has been issued.`,
+      timestamp: new Date().toISOString(),
+    });
+
+    const io = getIO();
+    if (io) {
+      io.of('/admin').emit('queue_updated', {
+        action: 'refunded',
+        reservationId: entry.reservationId.toString(),
+        customerPhone: entry.customerPhone,
+      });
+    }
+
+    res.json({ success: true, message: 'Refund recorded', id: entry._id.toString() });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const processQueue = async (
   req: Request,
   res: Response,
@@ -345,7 +595,12 @@ export const processQueue = async (
       throw new AppError('Activity ID is required', 400);
     }
 
-    await processWaitingQueue(activityId);
+    const activity = await findActivity(activityId, await getBranchScope(req));
+    if (!activity) {
+      throw new AppError('Activity not found', 404);
+    }
+
+    await processWaitingQueue(activity._id.toString());
 
     res.json({
       success: true,
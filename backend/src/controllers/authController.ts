@@ -4,6 +4,7 @@ import bcrypt from 'bcryptjs';
 import { UserModel } from '../models/User.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { findBranch } from '../lib/branches.js';
 
 export const login = async (
   req: Request,
@@ -33,7 +34,7 @@ export const login = async (
     }
 
     const token = jwt.sign(
-      { userId: user._id.toString(), username: user.username, role: user.role },
+      { userId: user._id.toString(), username: user.username, role: user.role, branchId: user.branchId || null },
       secret,
       { expiresIn: '7d' }
     );
@@ -60,7 +61,7 @@ export const register = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { username, email, password, name, role } = req.body;
+    const { username, email, password, name, role, branchId } = req.body;
 
     const existingUser = await UserModel.findOne({
       $or: [{ username }, { email }],
@@ -78,6 +79,8 @@ export const register = async (
       password: hashedPassword,
       name: name || username,
       role: role || 'staff',
+      // Users without a branch are owners who can see every branch
+      branchId: branchId ? (await findBranch(branchId))._id.toString() : undefined,
     });
     const secret = process.env.JWT_SECRET;
     if (!secret) {
@@ -85,7 +88,7 @@ export const register = async (
     }
 
     const token = jwt.sign(
-      { userId: user._id.toString(), username: user.username, role: user.role },
+      { userId: user._id.toString(), username: user.username, role: user.role, branchId: user.branchId || null },
       secret,
       { expiresIn: '7d' }
     );
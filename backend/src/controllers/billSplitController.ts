@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { BillSplitModel, IBillSplit } from '../models/BillSplit.js';
+import { SessionModel } from '../models/Session.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest, CustomerRequest } from '../middleware/auth.js';
+import { createBillSplit as splitSessionBill, getShareLink } from '../lib/billSplits.js';
+import { assertSessionActor, sessionActorFrom } from '../lib/sessionAccess.js';
+
+// Split links are shared around, so players' phone numbers are left out
+const formatBillSplit = (split: IBillSplit) => ({
+  id: split._id.toString(),
+  sessionId: split.sessionId.toString(),
+  orderIds: split.orderIds.map(id => id.toString()),
+  mode: split.mode,
+  sessionAmount: split.sessionAmount,
+  ordersAmount: split.ordersAmount,
+  totalAmount: split.totalAmount,
+  status: split.status,
+  settledAt: split.settledAt,
+  createdAt: split.createdAt,
+  shares: split.shares.map(share => ({
+    id: share._id.toString(),
+    playerName: share.playerName,
+    amount: share.amount,
+    status: share.status,
+    paidAt: share.paidAt,
+    paymentLink: getShareLink(split, share),
+  })),
+});
+
+export const createBillSplit = async (
+  req: AuthRequest & CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { sessionId, mode, amounts } = req.body;
+
+    const session = mongoose.Types.ObjectId.isValid(sessionId)
+      ? await SessionModel.findById(sessionId)
+      : null;
+    if (!session) {
+      throw new AppError('Session not found', 404);
+    }
+    assertSessionActor(session, sessionActorFrom(req), 'split this bill');
+
+    const split = await splitSessionBill(session, mode, amounts);
+
+    res.status(201).json(formatBillSplit(split));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBillSplit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const split = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await BillSplitModel.findById(req.params.id)
+      : null;
+
+    if (!split) {
+      throw new AppError('Bill split not found', 404);
+    }
+
+    res.json(formatBillSplit(split));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * The split a session's bill is being paid through: the open one, or the
+ * last settled one once everyone has paid
+ */
+export const getSessionBillSplit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const split = mongoose.Types.ObjectId.isValid(req.params.sessionId)
+      ? await BillSplitModel.findOne({
+          sessionId: req.params.sessionId,
+          status: { $in: ['open', 'settled'] },
+        }).sort({ createdAt: -1 })
+      : null;
+
+    if (!split) {
+      throw new AppError('This session bill has not been split', 404);
+    }
+
+    res.json(formatBillSplit(split));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { BranchModel } from '../models/Branch.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { getDefaultBranch } from '../lib/branches.js';
+
+const formatBranch = (branch: any) => ({
+  id: branch._id.toString(),
+  code: branch.code,
+  name: branch.name,
+  address: branch.address,
+  phone: branch.phone,
+  enabled: branch.enabled,
+});
+
+/**
+ * Branches the signed-in user can switch between: all of them for owners,
+ * just their own for staff tied to a branch
+ */
+export const getBranches = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await getDefaultBranch();
+
+    const query = req.user?.branchId ? { _id: req.branchScope } : {};
+    const branches = await BranchModel.find(query).sort({ name: 1 });
+
+    res.json(branches.map(formatBranch));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, name, address, phone, enabled } = req.body;
+
+    if (!code || !name) {
+      throw new AppError('Branch code and name are required', 400);
+    }
+    if (await BranchModel.exists({ code: code.trim().toLowerCase() })) {
+      throw new AppError('A branch with this code already exists', 400);
+    }
+
+    const branch = await BranchModel.create({ code, name, address, phone, enabled });
+
+    res.status(201).json(formatBranch(branch));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateBranch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // The code is printed on QR codes, so it can't change
+    const { code, ...update } = req.body;
+    const branch = await BranchModel.findByIdAndUpdate(
+      id,
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+
+    if (!branch) {
+      throw new AppError('Branch not found', 404);
+    }
+
+    res.json(formatBranch(branch));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,248 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { CouponModel } from '../models/Coupon.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { FoodOrderModel } from '../models/Order.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { findOrderableMenuItem } from '../lib/menu.js';
+import { getBranchForWrite } from '../lib/branches.js';
+import {
+  applyCoupon,
+  findCoupon,
+  getOrderCouponTarget,
+  normalizeCouponCode,
+  quoteCoupon,
+  CouponTarget,
+} from '../lib/coupons.js';
+
+const validateCouponBody = (body: any): void => {
+  if (!['percent', 'flat'].includes(body.discountType)) {
+    throw new AppError('Invalid discount type', 400);
+  }
+
+  if (typeof body.value !== 'number' || body.value <= 0) {
+    throw new AppError('Discount value must be greater than 0', 400);
+  }
+
+  if (body.discountType === 'percent' && body.value > 100) {
+    throw new AppError('A percent discount cannot be more than 100', 400);
+  }
+
+  if (body.validFrom && body.validUntil && new Date(body.validFrom) > new Date(body.validUntil)) {
+    throw new AppError('The coupon must start before it ends', 400);
+  }
+};
+
+const formatCoupon = (coupon: any) => ({
+  id: coupon._id.toString(),
+  code: coupon.code,
+  description: coupon.description,
+  discountType: coupon.discountType,
+  value: coupon.value,
+  maxDiscount: coupon.maxDiscount,
+  activityIds: (coupon.activityIds || []).map((a: any) => ({
+    _id: (a._id || a).toString(),
+    name: a.name,
+    type: a.type,
+  })),
+  menuCategories: coupon.menuCategories || [],
+  minSpend: coupon.minSpend,
+  usageLimit: coupon.usageLimit,
+  perPhoneLimit: coupon.perPhoneLimit,
+  usedCount: coupon.usedCount,
+  validFrom: coupon.validFrom,
+  validUntil: coupon.validUntil,
+  enabled: coupon.enabled,
+  createdAt: coupon.createdAt,
+  updatedAt: coupon.updatedAt,
+});
+
+const loadEntity = async (type: 'reservation' | 'order', entityId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(entityId)) {
+    throw new AppError('Invalid booking ID', 400);
+  }
+
+  const entity = type === 'reservation'
+    ? await ReservationModel.findById(entityId)
+    : await FoodOrderModel.findById(entityId);
+
+  if (!entity) {
+    throw new AppError(type === 'reservation' ? 'Reservation not found' : 'Order not found', 404);
+  }
+
+  const unpaid = type === 'reservation'
+    ? entity.get('status') === 'pending_payment'
+    : entity.get('paymentStatus') === 'pending' && entity.get('status') !== 'cancelled';
+  if (!unpaid) {
+    throw new AppError('Coupons can only be applied before paying', 400);
+  }
+
+  return entity;
+};
+
+export const getCoupons = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const coupons = await CouponModel.find()
+      .populate('activityIds', 'name type')
+      .sort({ createdAt: -1 });
+
+    res.json(coupons.map(formatCoupon));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createCoupon = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    validateCouponBody(req.body);
+
+    const code = normalizeCouponCode(req.body.code);
+    if (!code) {
+      throw new AppError('Coupon code is required', 400);
+    }
+    if (await CouponModel.exists({ code })) {
+      throw new AppError('A coupon with this code already exists', 400);
+    }
+
+    const { usedCount, ...body } = req.body;
+    const coupon = await CouponModel.create({ ...body, code });
+    await coupon.populate('activityIds', 'name type');
+
+    res.status(201).json(formatCoupon(coupon));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateCoupon = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await CouponModel.findById(id);
+    if (!existing) {
+      throw new AppError('Coupon not found', 404);
+    }
+
+    validateCouponBody({ ...existing.toObject(), ...req.body });
+
+    // The code and redemption count can't be edited once customers may have the coupon
+    const { code, usedCount, ...update } = req.body;
+    const coupon = await CouponModel.findByIdAndUpdate(
+      id,
+      { $set: update },
+      { new: true, runValidators: true }
+    ).populate('activityIds', 'name type');
+
+    res.json(formatCoupon(coupon));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteCoupon = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await CouponModel.findById(id);
+    if (!coupon) {
+      throw new AppError('Coupon not found', 404);
+    }
+
+    if (coupon.usedCount > 0) {
+      throw new AppError('This coupon has been used. Disable it instead of deleting it.', 400);
+    }
+
+    await coupon.deleteOne();
+
+    res.json({ message: 'Coupon deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check a code and preview its discount, either on an existing unpaid booking or
+ * order, or on a cart that hasn't been ordered yet
+ */
+export const validateCoupon = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, type, entityId, customerPhone, items } = req.body;
+    const coupon = await findCoupon(code);
+
+    let target: CouponTarget;
+    if (entityId) {
+      const entity = await loadEntity(type, entityId);
+      if (entity.get('couponCode')) {
+        throw new AppError('A coupon has already been applied to this booking', 400);
+      }
+      target = type === 'reservation'
+        ? { type, phone: entity.customerPhone, activityId: entity.get('activityId'), amount: entity.get('amount') }
+        : await getOrderCouponTarget(entity.get('items'), entity.customerPhone);
+    } else if (type === 'order' && items && customerPhone) {
+      const branchId = await getBranchForWrite(req);
+      const cart = await Promise.all(
+        items.map(async (item: { menuItemId: string; quantity: number }) => {
+          const menuItem = await findOrderableMenuItem(item.menuItemId, branchId);
+          return { menuItemId: menuItem._id, price: menuItem.price, quantity: item.quantity };
+        })
+      );
+      target = await getOrderCouponTarget(cart, customerPhone);
+    } else {
+      throw new AppError('Provide a booking, or the items and phone number for an order', 400);
+    }
+
+    const quote = await quoteCoupon(coupon, target);
+    const total = type === 'reservation'
+      ? target.amount || 0
+      : (target.items || []).reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+    res.json({
+      valid: true,
+      ...quote,
+      amount: total - quote.discount,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const applyCouponToBooking = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, type, entityId } = req.body;
+    const entity = await loadEntity(type, entityId);
+
+    const result = await applyCoupon(type, entity, code);
+
+    res.json({
+      success: true,
+      message: `Coupon ${result.code} applied`,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
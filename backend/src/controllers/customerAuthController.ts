@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { CustomerModel } from '../models/Customer.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { sendOtp, verifyOtp, normalizePhone, OTP_TTL_SECONDS, OTP_RESEND_SECONDS } from '../lib/otp.js';
+
+const formatCustomer = (customer: any) => ({
+  id: customer._id.toString(),
+  phone: customer.phone,
+  name: customer.name,
+});
+
+export const requestOtp = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const phone = normalizePhone(req.body.phone);
+
+    await sendOtp(phone);
+
+    res.json({
+      message: 'Code sent',
+      expiresIn: OTP_TTL_SECONDS,
+      retryAfter: OTP_RESEND_SECONDS,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyOtpCode = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const phone = normalizePhone(req.body.phone);
+    const { code, name } = req.body;
+
+    await verifyOtp(phone, code);
+
+    const customer = await CustomerModel.findOneAndUpdate(
+      { phone },
+      {
+        $set: { lastLoginAt: new Date(), ...(name?.trim() && { name: name.trim() }) },
+        $setOnInsert: { phone },
+      },
+      { new: true, upsert: true }
+    );
+
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new AppError('JWT secret not configured', 500);
+    }
+
+    const token = jwt.sign(
+      { customerId: customer._id.toString(), phone: customer.phone, role: 'customer' },
+      secret,
+      { expiresIn: '30d' }
+    );
+
+    res.json({
+      token,
+      customer: formatCustomer(customer),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCurrentCustomer = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const customer = await CustomerModel.findById(req.customer!.id);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    res.json(formatCustomer(customer));
+  } catch (error) {
+    next(error);
+  }
+};
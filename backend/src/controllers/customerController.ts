@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import { CustomerModel, ICustomer } from '../models/Customer.js';
+import { SessionModel } from '../models/Session.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { branchFilter, getBranchScope } from '../lib/branches.js';
+import { normalizePhone } from '../lib/otp.js';
+
+const formatNoShowRecord = (customer: ICustomer) => ({
+  phone: customer.phone,
+  name: customer.name,
+  noShowCount: customer.noShowCount || 0,
+  lastNoShowAt: customer.lastNoShowAt,
+  prepaymentRequired: customer.prepaymentRequired,
+});
+
+/**
+ * Customers who have missed bookings, most no-shows first
+ */
+export const getNoShows = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const search = normalizePhone((req.query.search as string) || '');
+    const query = search
+      ? { phone: { $regex: search } }
+      : { $or: [{ noShowCount: { $gt: 0 } }, { prepaymentRequired: true }] };
+
+    const customers = await CustomerModel.find(query)
+      .sort({ noShowCount: -1, lastNoShowAt: -1 })
+      .limit(Math.min(parseInt(req.query.limit as string, 10) || 50, 200));
+
+    res.json(customers.map(formatNoShowRecord));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCustomerNoShows = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const phone = normalizePhone(req.params.phone);
+    const customer = await CustomerModel.findOne({ phone });
+    if (!customer) {
+      throw new AppError('No customer with this phone number', 404);
+    }
+
+    const sessions = await SessionModel.find({
+      ...branchFilter(await getBranchScope(req)),
+      customerPhone: phone,
+      status: 'no_show',
+    })
+      .populate('activityId', 'name')
+      .sort({ startTime: -1 })
+      .limit(20);
+
+    res.json({
+      ...formatNoShowRecord(customer),
+      sessions: sessions.map(s => ({
+        id: s._id.toString(),
+        activityName: (s.activityId as any)?.name,
+        startTime: s.startTime,
+        amount: s.amount,
+        paymentStatus: s.paymentStatus,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turn pay-at-counter bookings off or back on for a phone number
+ */
+export const setPrepaymentRequired = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { required } = req.body;
+    if (typeof required !== 'boolean') {
+      throw new AppError('required must be true or false', 400);
+    }
+
+    const phone = normalizePhone(req.params.phone);
+    if (!/^\d{10}$/.test(phone)) {
+      throw new AppError('Phone must be 10 digits', 400);
+    }
+
+    const customer = await CustomerModel.findOneAndUpdate(
+      { phone },
+      { $set: { prepaymentRequired: required } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    res.json(formatNoShowRecord(customer));
+  } catch (error) {
+    next(error);
+  }
+};
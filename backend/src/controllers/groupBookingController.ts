@@ -0,0 +1,227 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { GroupBookingModel, IGroupBooking } from '../models/GroupBooking.js';
+import { ReservationModel, IReservation } from '../models/Reservation.js';
+import { SessionModel } from '../models/Session.js';
+import { ActivityUnitModel, IActivity, IActivityUnit } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { redisUtils } from '../config/redis.js';
+import { quoteActivityPrice, PriceBreakdown } from '../lib/pricing.js';
+import { signedInMemberPhone } from '../lib/loyalty.js';
+import { broadcastAvailabilityChange } from '../websocket/server.js';
+import {
+  ADVANCE_BOOKING_THRESHOLD_MINUTES,
+  MAX_ADVANCE_DAYS,
+  findUnitConflicts,
+  isAdvanceBooking,
+  isWithinBookingWindow,
+} from '../lib/availability.js';
+import { findActivity, getBranchScope } from '../lib/branches.js';
+import { isUnitHeldForOther } from '../lib/queueManager.js';
+
+const HOLD_MINUTES = 15;
+
+interface GroupPick {
+  activity: IActivity;
+  unit: IActivityUnit;
+  quote: PriceBreakdown;
+}
+
+const formatGroupBooking = async (group: IGroupBooking) => {
+  const reservations = await ReservationModel.find({ _id: { $in: group.reservationIds } })
+    .populate('activityId', 'type name')
+    .populate('unitId', 'name');
+  const sessions = await SessionModel.find({ groupBookingId: group._id });
+  const sessionByReservation = new Map(sessions.map(s => [s.reservationId?.toString(), s]));
+
+  return {
+    id: group._id.toString(),
+    status: group.status,
+    customerName: group.customerName,
+    customerPhone: group.customerPhone,
+    startTime: group.startTime,
+    endTime: group.endTime,
+    durationMinutes: group.durationMinutes,
+    amount: group.amount,
+    expiresAt: group.expiresAt,
+    isAdvanceBooking: isAdvanceBooking(group.startTime),
+    units: reservations.map((reservation: IReservation) => {
+      const activity = reservation.activityId as any;
+      const unit = reservation.unitId as any;
+      const session = sessionByReservation.get(reservation._id.toString());
+      return {
+        reservationId: reservation._id.toString(),
+        activityId: activity?.type,
+        activityName: activity?.name,
+        unitId: unit?._id?.toString(),
+        unitName: unit?.name,
+        amount: reservation.amount,
+        sessionId: session?._id.toString(),
+        sessionStatus: session?.status,
+      };
+    }),
+  };
+};
+
+/**
+ * Hold several units (of one activity or a mix) for the same window. Every
+ * unit is checked and locked before anything is written, so the group is
+ * either booked whole or not at all.
+ */
+export const createGroupBooking = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { units, startTime, duration, customerName, customerPhone, qrContext } = req.body;
+    const scope = await getBranchScope(req);
+    const phone = customerPhone.replace(/\D/g, '');
+    const memberPhone = signedInMemberPhone(phone, req.customer?.phone);
+
+    const start = new Date(startTime || new Date());
+    if (isNaN(start.getTime())) {
+      throw new AppError('Invalid start time', 400);
+    }
+    if (start.getTime() < Date.now() - ADVANCE_BOOKING_THRESHOLD_MINUTES * 60000) {
+      throw new AppError('Start time is in the past', 400);
+    }
+    if (!isWithinBookingWindow(start)) {
+      throw new AppError(`Slots can be booked up to ${MAX_ADVANCE_DAYS} days ahead`, 400);
+    }
+    const end = new Date(start.getTime() + duration * 60000);
+    const advance = isAdvanceBooking(start);
+
+    const picks: GroupPick[] = [];
+    for (const { activityId, unitId } of units as Array<{ activityId: string; unitId: string }>) {
+      const activity = await findActivity(activityId, scope);
+      if (!activity || !activity.enabled) {
+        throw new AppError('Activity not found or disabled', 404);
+      }
+
+      const unit = await ActivityUnitModel.findOne(
+        mongoose.Types.ObjectId.isValid(unitId)
+          ? { _id: unitId, activityId: activity._id }
+          : { name: unitId, activityId: activity._id }
+      );
+      if (!unit || unit.status === 'maintenance' || (!advance && unit.status !== 'available')) {
+        throw new AppError(`${unit?.name || unitId} is not available`, 400);
+      }
+      if (!advance && await isUnitHeldForOther(activity._id.toString(), unit._id.toString(), '')) {
+        throw new AppError(`${unit.name} is being held for a customer from the waiting queue`, 409);
+      }
+      if (picks.some(pick => pick.unit._id.equals(unit._id))) {
+        throw new AppError(`${unit.name} was picked more than once`, 400);
+      }
+      if (picks.length > 0 && picks[0].activity.branchId?.toString() !== activity.branchId?.toString()) {
+        throw new AppError('All units in a group booking must be at the same branch', 400);
+      }
+      if (duration < activity.minimumDuration) {
+        throw new AppError(`Minimum duration for ${activity.name} is ${activity.minimumDuration} minutes`, 400);
+      }
+
+      const quote = await quoteActivityPrice(activity, duration, start, memberPhone);
+      picks.push({ activity, unit, quote });
+    }
+
+    const lockKeys: string[] = [];
+    try {
+      for (const { activity, unit } of picks) {
+        const lockKey = `lock:${activity._id}:${unit._id}:${start.toISOString()}`;
+        if (!await redisUtils.acquireLock(lockKey, uuidv4(), 10)) {
+          throw new AppError('One of these units is being booked by another customer. Please try again.', 409);
+        }
+        lockKeys.push(lockKey);
+      }
+
+      for (const { activity, unit } of picks) {
+        const conflicts = await findUnitConflicts(unit._id, start, end, activity.bufferTime || 0);
+        if (conflicts.length > 0) {
+          throw new AppError(`${unit.name} is already booked for this time`, 409);
+        }
+      }
+
+      const expiresAt = new Date(Date.now() + HOLD_MINUTES * 60000);
+      const group = new GroupBookingModel({
+        branchId: picks[0].activity.branchId,
+        customerName: customerName.trim(),
+        customerPhone: phone,
+        startTime: start,
+        endTime: end,
+        durationMinutes: duration,
+        amount: picks.reduce((sum, pick) => sum + pick.quote.total, 0),
+        qrContext: qrContext || {},
+        expiresAt,
+      });
+
+      const reservations = await ReservationModel.insertMany(picks.map(({ activity, unit, quote }) => ({
+        activityId: activity._id,
+        branchId: activity.branchId,
+        unitId: unit._id,
+        groupBookingId: group._id,
+        startTime: start,
+        endTime: end,
+        durationMinutes: duration,
+        amount: quote.total,
+        priceBreakdown: quote.lineItems,
+        status: 'pending_payment',
+        customerName: group.customerName,
+        customerPhone: phone,
+        qrContext: group.qrContext,
+        expiresAt,
+        memberPricing: !!memberPhone,
+      })));
+
+      group.reservationIds = reservations.map(r => r._id);
+      await group.save();
+
+      for (const activityId of new Set(picks.map(pick => pick.activity._id.toString()))) {
+        broadcastAvailabilityChange(activityId, 'pending');
+      }
+
+      const { getIO } = await import('../websocket/server.js');
+      const io = getIO();
+      if (io) {
+        io.of('/admin').emit('group_booking_created', {
+          groupBookingId: group._id.toString(),
+          customerName: group.customerName,
+          customerPhone: group.customerPhone,
+          unitCount: reservations.length,
+          amount: group.amount,
+          duration,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.status(201).json(await formatGroupBooking(group));
+    } finally {
+      for (const lockKey of lockKeys) {
+        await redisUtils.releaseLock(lockKey);
+      }
+    }
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getGroupBooking = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const group = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await GroupBookingModel.findById(req.params.id)
+      : null;
+
+    if (!group) {
+      throw new AppError('Group booking not found', 404);
+    }
+
+    res.json(await formatGroupBooking(group));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -10,6 +10,7 @@ import {
 } from '../models/Inventory.js';
 import { ActivityUnitModel } from '../models/Activity.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { branchFilter, getBranchForWrite, getBranchScope } from '../lib/branches.js';
 import { parse } from 'csv-parse/sync';
 import { stringify } from 'csv-stringify/sync';
 
@@ -103,7 +104,7 @@ export const getInventoryStats = async (
       search,
     } = req.query;
 
-    const query: any = {};
+    const query: any = branchFilter(await getBranchScope(req));
 
     if (categoryId) query.categoryId = categoryId;
     if (type) query.type = type;
@@ -156,7 +157,7 @@ export const getAllInventoryItems = async (
       limit = '50',
     } = req.query;
 
-    const query: any = {};
+    const query: any = branchFilter(await getBranchScope(req));
 
     if (categoryId) query.categoryId = categoryId;
     if (type) query.type = type;
@@ -184,6 +185,7 @@ export const getAllInventoryItems = async (
     let lowStockItems: any[] = [];
     if (lowStock === 'true') {
       lowStockItems = await InventoryItemModel.find({
+        ...branchFilter(await getBranchScope(req)),
         stockTracking: 'quantity',
         $expr: {
           $lte: ['$currentStock', '$minStockLevel'],
@@ -215,7 +217,8 @@ export const getInventoryItemById = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const item = await InventoryItemModel.findById(id).populate('categoryId', 'name type');
+    const item = await InventoryItemModel.findOne({ _id: id, ...branchFilter(await getBranchScope(req)) })
+      .populate('categoryId', 'name type');
 
     if (!item) {
       throw new AppError('Inventory item not found', 404);
@@ -263,7 +266,10 @@ export const createInventoryItem = async (
       req.body.sku = `${prefix}-${random}`;
     }
 
-    const item = await InventoryItemModel.create(req.body);
+    const item = await InventoryItemModel.create({
+      ...req.body,
+      branchId: await getBranchForWrite(req),
+    });
     const populated = await InventoryItemModel.findById(item._id).populate('categoryId', 'name type');
     
     res.status(201).json(populated);
@@ -290,9 +296,10 @@ export const updateInventoryItem = async (
       updateData = { currentStock: req.body.currentStock };
     }
 
-    const item = await InventoryItemModel.findByIdAndUpdate(
-      id,
-      { $set: updateData },
+    const { branchId, ...update } = updateData;
+    const item = await InventoryItemModel.findOneAndUpdate(
+      { _id: id, ...branchFilter(await getBranchScope(req)) },
+      { $set: update },
       { new: true, runValidators: true }
     ).populate('categoryId', 'name type');
 
@@ -327,7 +334,7 @@ export const deleteInventoryItem = async (
       );
     }
 
-    const item = await InventoryItemModel.findByIdAndDelete(id);
+    const item = await InventoryItemModel.findOneAndDelete({ _id: id, ...branchFilter(await getBranchScope(req)) });
     if (!item) {
       throw new AppError('Inventory item not found', 404);
     }
@@ -368,6 +375,7 @@ export const bulkDeleteItems = async (
     }
 
     const result = await InventoryItemModel.deleteMany({
+      ...branchFilter(await getBranchScope(req)),
       _id: { $in: validIds },
     });
 
@@ -418,7 +426,7 @@ export const assignEquipment = async (
       throw new AppError('inventoryItemId and serviceInstanceId are required', 400);
     }
 
-    const item = await InventoryItemModel.findById(inventoryItemId);
+    const item = await InventoryItemModel.findOne({ _id: inventoryItemId, ...branchFilter(await getBranchScope(req)) });
     if (!item) {
       throw new AppError('Inventory item not found', 404);
     }
@@ -432,6 +440,10 @@ export const assignEquipment = async (
       throw new AppError('Service instance not found', 404);
     }
 
+    if (!serviceInstance.branchId.equals(item.branchId)) {
+      throw new AppError('Equipment can only be assigned to a unit in its own branch', 400);
+    }
+
     const existingAssignment = await EquipmentAssignmentModel.findOne({
       inventoryItemId,
       isActive: true,
@@ -660,7 +672,7 @@ export const createStockTransaction = async (
       throw new AppError('inventoryItemId, quantity, type, and reason are required', 400);
     }
 
-    const item = await InventoryItemModel.findById(inventoryItemId);
+    const item = await InventoryItemModel.findOne({ _id: inventoryItemId, ...branchFilter(await getBranchScope(req)) });
     if (!item) {
       throw new AppError('Inventory item not found', 404);
     }
@@ -772,7 +784,7 @@ export const exportInventoryItems = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const items = await InventoryItemModel.find()
+    const items = await InventoryItemModel.find(branchFilter(await getBranchScope(req)))
       .populate('categoryId', 'name')
       .sort({ name: 1 });
 
@@ -835,6 +847,7 @@ export const importInventoryItems = async (
       trim: true,
     }) as any[];
 
+    const branchId = await getBranchForWrite(req);
     const results = {
       success: 0,
       failed: 0,
@@ -877,6 +890,7 @@ export const importInventoryItems = async (
           location: record.location || '',
           unit: record.unit || 'pieces',
           notes: record.notes || '',
+          branchId,
         };
 
         if (record.currentStock) itemData.currentStock = parseFloat(record.currentStock);
@@ -889,7 +903,7 @@ export const importInventoryItems = async (
         if (record.serialNumber) itemData.serialNumber = record.serialNumber.toUpperCase();
         if (record.barcode) itemData.barcode = record.barcode;
 
-        const existingItem = await InventoryItemModel.findOne({ sku: itemData.sku });
+        const existingItem = await InventoryItemModel.findOne({ sku: itemData.sku, branchId });
         if (existingItem) {
           await InventoryItemModel.findByIdAndUpdate(existingItem._id, { $set: itemData });
         } else {
@@ -0,0 +1,140 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { getBranchScope } from '../lib/branches.js';
+import { LeaderboardPeriod } from '../lib/ratings.js';
+import {
+  LapDefaults,
+  deleteLap as removeLap,
+  getLapLeaderboard,
+  getSessionLaps as buildSessionLaps,
+  getTrackRecords as buildTrackRecords,
+  parseLapTime,
+  parseTelemetry,
+  recordLaps,
+} from '../lib/lapTimes.js';
+
+const PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'all'];
+
+// Only the fields staff actually sent, so they don't blank out a file's own
+const pickDefaults = (body: LapDefaults): LapDefaults => {
+  return Object.fromEntries(
+    Object.entries({ track: body.track, car: body.car, driverName: body.driverName }).filter(([, value]) => value)
+  );
+};
+
+export const addLaps = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const laps = (req.body.laps as Array<{ time: string | number; lapNumber?: number; driverName?: string; valid?: boolean }>)
+      .map(lap => {
+        const lapTimeMs = parseLapTime(lap.time);
+        if (lapTimeMs === null) {
+          throw new AppError(`"${lap.time}" is not a lap time; use seconds or m:ss.sss`, 400);
+        }
+        return { lapTimeMs, lapNumber: lap.lapNumber, driverName: lap.driverName, valid: lap.valid };
+      });
+
+    const result = await recordLaps(
+      req.params.sessionId,
+      await getBranchScope(req),
+      laps,
+      pickDefaults(req.body),
+      'manual',
+      req.user?.id
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const importLaps = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { laps, defaults } = parseTelemetry(req.body.format, req.body.content);
+    const result = await recordLaps(
+      req.params.sessionId,
+      await getBranchScope(req),
+      laps,
+      { ...defaults, ...pickDefaults(req.body) },
+      'import',
+      req.user?.id
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSessionLaps = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.json(await buildSessionLaps(req.params.sessionId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getLeaderboard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const track = req.query.track as string | undefined;
+    const car = (req.query.car as string | undefined) || undefined;
+    const period = (req.query.period as LeaderboardPeriod | undefined) || 'all';
+
+    if (!track) {
+      throw new AppError('track is required', 400);
+    }
+    if (!PERIODS.includes(period)) {
+      throw new AppError(`period must be one of ${PERIODS.join(', ')}`, 400);
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+    res.json({
+      track,
+      car,
+      period,
+      entries: await getLapLeaderboard(track, car, period, limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTrackRecords = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.json(await buildTrackRecords());
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteLap = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await removeLap(req.params.id, await getBranchScope(req));
+    res.json({ message: 'Lap deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
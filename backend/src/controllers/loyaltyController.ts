@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { CustomerModel, ICustomer } from '../models/Customer.js';
+import { LoyaltyTransactionModel } from '../models/LoyaltyTransaction.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { FoodOrderModel } from '../models/Order.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { normalizePhone } from '../lib/otp.js';
+import {
+  LOYALTY_TIERS,
+  MAX_REDEEM_FRACTION,
+  POINT_VALUE_RUPEES,
+  getLoyaltyTier,
+  redeemLoyaltyPoints,
+} from '../lib/loyalty.js';
+
+const formatTier = (lifetimePoints: number) => {
+  const tier = getLoyaltyTier(lifetimePoints);
+  const next = [...LOYALTY_TIERS]
+    .reverse()
+    .find(t => t.minLifetimePoints > lifetimePoints);
+
+  return {
+    tier: tier.tier,
+    tierName: tier.name,
+    discountPercent: tier.discountPercent,
+    nextTier: next
+      ? { tier: next.tier, name: next.name, pointsNeeded: next.minLifetimePoints - lifetimePoints }
+      : null,
+  };
+};
+
+const buildSummary = async (phone: string, customer: ICustomer | null, limit: number) => {
+  const transactions = await LoyaltyTransactionModel.find({ phone })
+    .sort({ createdAt: -1 })
+    .limit(limit);
+
+  const lifetimePoints = customer?.lifetimePoints || 0;
+
+  return {
+    phone,
+    name: customer?.name,
+    balance: customer?.loyaltyPoints || 0,
+    lifetimePoints,
+    ...formatTier(lifetimePoints),
+    pointValue: POINT_VALUE_RUPEES,
+    maxRedeemFraction: MAX_REDEEM_FRACTION,
+    transactions: transactions.map(t => ({
+      id: t._id.toString(),
+      type: t.type,
+      points: t.points,
+      entityType: t.entityType,
+      entityId: t.entityId.toString(),
+      description: t.description,
+      balanceAfter: t.balanceAfter,
+      createdAt: t.createdAt,
+    })),
+  };
+};
+
+const parseLimit = (value: unknown, fallback: number) => {
+  return Math.min(Math.max(parseInt(value as string, 10) || fallback, 1), 200);
+};
+
+export const getMyLoyalty = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const phone = req.customer!.phone;
+    const customer = await CustomerModel.findOne({ phone });
+
+    res.json(await buildSummary(phone, customer, parseLimit(req.query.limit, 20)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMemberLoyalty = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const phone = normalizePhone(req.params.phone);
+    const customer = await CustomerModel.findOne({ phone });
+
+    if (!customer) {
+      throw new AppError('No loyalty member with this phone number', 404);
+    }
+
+    res.json(await buildSummary(phone, customer, parseLimit(req.query.limit, 100)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMembers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const search = normalizePhone((req.query.search as string) || '');
+    const query = search ? { phone: { $regex: search } } : { lifetimePoints: { $gt: 0 } };
+
+    const customers = await CustomerModel.find(query)
+      .sort({ lifetimePoints: -1 })
+      .limit(parseLimit(req.query.limit, 50));
+
+    res.json(customers.map(customer => ({
+      phone: customer.phone,
+      name: customer.name,
+      balance: customer.loyaltyPoints || 0,
+      lifetimePoints: customer.lifetimePoints || 0,
+      ...formatTier(customer.lifetimePoints || 0),
+    })));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const redeemPoints = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { type, entityId, points } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(entityId)) {
+      throw new AppError('Invalid booking ID', 400);
+    }
+
+    const entity = type === 'reservation'
+      ? await ReservationModel.findById(entityId)
+      : await FoodOrderModel.findById(entityId);
+
+    if (!entity) {
+      throw new AppError(type === 'reservation' ? 'Reservation not found' : 'Order not found', 404);
+    }
+
+    if (normalizePhone(entity.customerPhone) !== req.customer!.phone) {
+      throw new AppError('You can only redeem points on your own bookings', 403);
+    }
+
+    const unpaid = type === 'reservation'
+      ? entity.get('status') === 'pending_payment'
+      : entity.get('paymentStatus') === 'pending' && entity.get('status') !== 'cancelled';
+    if (!unpaid) {
+      throw new AppError('Points can only be redeemed before paying', 400);
+    }
+
+    const result = await redeemLoyaltyPoints(type, entity, points);
+
+    res.json({
+      success: true,
+      message: `${result.pointsRedeemed} points redeemed`,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import mongoose from 'mongoose';
 import { MenuItemModel, FoodOrderModel } from '../models/Order.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { restoreRedeemedPoints, syncLoyaltyPoints } from '../lib/loyalty.js';
+import { applyCoupon, releaseCoupon } from '../lib/coupons.js';
+import { findOrderableMenuItem } from '../lib/menu.js';
+import { branchFilter, getBranchForWrite, getBranchScope, inBranchScope } from '../lib/branches.js';
 
 export const getAllMenuItems = async (
   req: Request,
@@ -10,7 +14,8 @@ export const getAllMenuItems = async (
 ): Promise<void> => {
   try {
     const availableOnly = req.query.available === 'true';
-    const query = availableOnly ? { available: true } : {};
+    const scope = await getBranchScope(req);
+    const query = { ...branchFilter(scope), ...(availableOnly ? { available: true } : {}) };
     
     const items = await MenuItemModel.find(query).sort({ category: 1, name: 1 });
     
@@ -38,7 +43,7 @@ export const getMenuItem = async (
     const { id } = req.params;
     const item = await MenuItemModel.findById(id);
 
-    if (!item) {
+    if (!item || !inBranchScope(item.branchId, await getBranchScope(req))) {
       throw new AppError('Menu item not found', 404);
     }
 
@@ -62,7 +67,10 @@ export const createMenuItem = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const item = await MenuItemModel.create(req.body);
+    const item = await MenuItemModel.create({
+      ...req.body,
+      branchId: await getBranchForWrite(req),
+    });
     res.status(201).json({
       id: item._id.toString(),
       ...item.toObject(),
@@ -78,34 +86,12 @@ export const createOrder = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { items, customerName, customerPhone, qrContext, sessionId } = req.body;
+    const { items, customerName, customerPhone, qrContext, sessionId, couponCode } = req.body;
+    const branchId = await getBranchForWrite(req);
 
     const orderItems = await Promise.all(
       items.map(async (item: any) => {
-        let menuItem;
-        if (mongoose.Types.ObjectId.isValid(item.menuItemId)) {
-          menuItem = await MenuItemModel.findById(item.menuItemId);
-        } else {
-          const searchName = item.menuItemId
-            .split('-')
-            .map((word: string) => word.charAt(0).toUpperCase() + word.slice(1))
-            .join(' ');
-          
-          menuItem = await MenuItemModel.findOne({ 
-            $or: [
-              { name: { $regex: new RegExp(`^${searchName}$`, 'i') } },
-              { name: { $regex: new RegExp(item.menuItemId.replace(/-/g, ' '), 'i') } },
-              { name: item.menuItemId }
-            ]
-          });
-        }
-        
-        if (!menuItem) {
-          throw new AppError(`Menu item ${item.menuItemId} not found`, 404);
-        }
-        if (!menuItem.available) {
-          throw new AppError(`Menu item ${menuItem.name} is not available`, 400);
-        }
+        const menuItem = await findOrderableMenuItem(item.menuItemId, branchId);
 
         return {
           menuItemId: menuItem._id,
@@ -122,6 +108,7 @@ export const createOrder = async (
     );
 
     const order = await FoodOrderModel.create({
+      branchId,
       items: orderItems,
       totalAmount,
       customerName,
@@ -130,11 +117,21 @@ export const createOrder = async (
       sessionId: sessionId || undefined,
     });
 
+    if (couponCode) {
+      try {
+        await applyCoupon('order', order, couponCode);
+      } catch (error) {
+        await FoodOrderModel.deleteOne({ _id: order._id });
+        throw error;
+      }
+    }
+
     const { getIO, broadcastQueueUpdate } = await import('../websocket/server.js');
     const io = getIO();
     if (io) {
-      io.of('/admin').emit('order_created', {
+      io.of('/admin').to([`branch:${branchId}`, 'branch:all']).emit('order_created', {
         orderId: order._id.toString(),
+        branchId: branchId.toString(),
         customerName: order.customerName,
         customerPhone: order.customerPhone,
         amount: order.totalAmount,
@@ -154,6 +151,8 @@ export const createOrder = async (
         notes: item.notes,
       })),
       totalAmount: order.totalAmount,
+      couponCode: order.couponCode,
+      couponDiscount: order.couponDiscount,
       customerName: order.customerName,
       customerPhone: order.customerPhone,
       qrContext: order.qrContext,
@@ -189,6 +188,9 @@ export const getOrder = async (
         notes: item.notes,
       })),
       totalAmount: order.totalAmount,
+      loyaltyDiscount: order.loyaltyDiscount,
+      couponCode: order.couponCode,
+      couponDiscount: order.couponDiscount,
       customerName: order.customerName,
       customerPhone: order.customerPhone,
       qrContext: order.qrContext,
@@ -214,7 +216,7 @@ export const getAllOrders = async (
     const limit = parseInt(req.query.limit as string) || 100;
     const offset = parseInt(req.query.offset as string) || 0;
     
-    const orders = await FoodOrderModel.find()
+    const orders = await FoodOrderModel.find(branchFilter(await getBranchScope(req)))
       .sort({ createdAt: -1 })
       .limit(limit)
       .skip(offset);
@@ -227,6 +229,7 @@ export const getAllOrders = async (
       customerPhone: order.customerPhone,
       status: order.status,
       paymentStatus: order.paymentStatus,
+      refundedAmount: order.refundedAmount || 0,
       createdAt: order.createdAt,
     })));
   } catch (error) {
@@ -241,6 +244,7 @@ export const getPendingOrders = async (
 ): Promise<void> => {
   try {
     const orders = await FoodOrderModel.find({
+      ...branchFilter(await getBranchScope(req)),
       status: { $in: ['pending', 'preparing', 'ready'] },
     }).sort({ createdAt: 1 });
 
@@ -287,6 +291,12 @@ export const updateOrderStatus = async (
       throw new AppError('Order not found', 404);
     }
 
+    if (updateData.status === 'cancelled') {
+      await restoreRedeemedPoints('order', order);
+      await releaseCoupon('order', order);
+      await syncLoyaltyPoints('order', order);
+    }
+
     if (updateData.status) {
       const { getIO, notifyCustomerByPhone, notifyCustomerById } = await import('../websocket/server.js');
       const io = getIO();
@@ -335,15 +345,20 @@ export const updateOrderStatus = async (
 };
 
 export const getOrdersByPhone = async (
-  req: Request,
+  req: CustomerRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { phone } = req.params;
+    const phone = req.params.phone.replace(/\D/g, '');
+    if (phone !== req.customer!.phone) {
+      throw new AppError('You can only view your own orders', 403);
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
     const orders = await FoodOrderModel.find({ customerPhone: phone })
       .sort({ createdAt: -1 })
-      .limit(10);
+      .limit(limit);
 
     res.json(orders.map(order => ({
       id: order._id.toString(),
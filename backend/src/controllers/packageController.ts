@@ -0,0 +1,231 @@
+import { Request, Response, NextFunction } from 'express';
+import { PackageModel } from '../models/Package.js';
+import { PackagePurchaseModel } from '../models/PackagePurchase.js';
+import { ActivityModel } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { normalizePhone } from '../lib/otp.js';
+import { formatPackagePurchase } from '../lib/packages.js';
+import { branchFilter, findActivity, getBranchScope } from '../lib/branches.js';
+
+const validatePackageBody = (body: any): void => {
+  if (body.kind === 'hours') {
+    if (typeof body.minutes !== 'number' || body.minutes < 1) {
+      throw new AppError('Hours packs need the number of minutes they include', 400);
+    }
+  } else if (body.kind === 'credit') {
+    if (typeof body.credit !== 'number' || body.credit < 1) {
+      throw new AppError('Credit packs need the rupee credit they include', 400);
+    }
+  } else {
+    throw new AppError('Invalid pack kind', 400);
+  }
+
+  if (typeof body.price !== 'number' || body.price < 1) {
+    throw new AppError('Price must be at least 1', 400);
+  }
+};
+
+const resolveActivityId = async (activityId: string, scope: string | null) => {
+  const activity = await findActivity(activityId, scope);
+
+  if (!activity) {
+    throw new AppError('Activity not found', 404);
+  }
+
+  return activity._id;
+};
+
+const formatPackage = (pack: any) => ({
+  id: pack._id.toString(),
+  name: pack.name,
+  description: pack.description,
+  activityId: pack.activityId?.type || pack.activityId?.toString(),
+  activityName: pack.activityId?.name,
+  kind: pack.kind,
+  minutes: pack.minutes,
+  credit: pack.credit,
+  price: pack.price,
+  validityDays: pack.validityDays,
+  enabled: pack.enabled,
+  createdAt: pack.createdAt,
+  updatedAt: pack.updatedAt,
+});
+
+export const getPackages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const scope = await getBranchScope(req);
+    const query: any = {};
+    if (req.query.enabled === 'true') {
+      query.enabled = true;
+    }
+    if (req.query.activityId) {
+      query.activityId = await resolveActivityId(req.query.activityId as string, scope);
+    } else if (scope) {
+      query.activityId = { $in: await ActivityModel.find(branchFilter(scope)).distinct('_id') };
+    }
+
+    const packs = await PackageModel.find(query)
+      .populate('activityId', 'name type')
+      .sort({ price: 1 });
+
+    res.json(packs.map(formatPackage));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createPackage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    validatePackageBody(req.body);
+
+    const pack = await PackageModel.create({
+      ...req.body,
+      activityId: await resolveActivityId(req.body.activityId, await getBranchScope(req)),
+    });
+    await pack.populate('activityId', 'name type');
+
+    res.status(201).json(formatPackage(pack));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updatePackage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await PackageModel.findById(id);
+    if (!existing) {
+      throw new AppError('Pack not found', 404);
+    }
+
+    validatePackageBody({ ...existing.toObject(), ...req.body });
+
+    const update = { ...req.body };
+    if (req.body.activityId) {
+      update.activityId = await resolveActivityId(req.body.activityId, await getBranchScope(req));
+    }
+
+    // Packs already sold keep the terms they were bought on
+    const pack = await PackageModel.findByIdAndUpdate(
+      id,
+      { $set: update },
+      { new: true, runValidators: true }
+    ).populate('activityId', 'name type');
+
+    res.json(formatPackage(pack));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deletePackage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const sold = await PackagePurchaseModel.exists({ packageId: id, status: 'active' });
+    if (sold) {
+      throw new AppError('This pack has been sold. Disable it instead of deleting it.', 400);
+    }
+
+    const pack = await PackageModel.findByIdAndDelete(id);
+    if (!pack) {
+      throw new AppError('Pack not found', 404);
+    }
+
+    res.json({ message: 'Pack deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const purchasePackage = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const pack = await PackageModel.findById(id);
+    if (!pack || !pack.enabled) {
+      throw new AppError('Pack not found or no longer on sale', 404);
+    }
+
+    const purchase = await PackagePurchaseModel.create({
+      packageId: pack._id,
+      activityId: pack.activityId,
+      name: pack.name,
+      kind: pack.kind,
+      customerName: req.body.customerName || req.customer!.name || 'Customer',
+      customerPhone: req.customer!.phone,
+      price: pack.price,
+      totalMinutes: pack.kind === 'hours' ? pack.minutes : 0,
+      totalCredit: pack.kind === 'credit' ? pack.credit : 0,
+      remainingMinutes: pack.kind === 'hours' ? pack.minutes : 0,
+      remainingCredit: pack.kind === 'credit' ? pack.credit : 0,
+      validityDays: pack.validityDays,
+    });
+    await purchase.populate('activityId', 'type name');
+
+    res.status(201).json(formatPackagePurchase(purchase));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyWallet = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const purchases = await PackagePurchaseModel.find({
+      customerPhone: req.customer!.phone,
+      status: 'active',
+    })
+      .populate('activityId', 'type name')
+      .sort({ expiresAt: -1 })
+      .limit(20);
+
+    res.json(purchases.map(formatPackagePurchase));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCustomerWallet = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const purchases = await PackagePurchaseModel.find({
+      customerPhone: normalizePhone(req.params.phone),
+      status: 'active',
+    })
+      .populate('activityId', 'type name')
+      .sort({ expiresAt: -1 });
+
+    res.json(purchases.map(formatPackagePurchase));
+  } catch (error) {
+    next(error);
+  }
+};
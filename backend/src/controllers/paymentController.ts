@@ -1,30 +1,38 @@
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
-import Razorpay from 'razorpay';
 import crypto from 'crypto';
 import { SessionModel } from '../models/Session.js';
 import { FoodOrderModel } from '../models/Order.js';
+import { RefundModel } from '../models/Refund.js';
 import { ReservationModel } from '../models/Reservation.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
+import { PackagePurchaseModel } from '../models/PackagePurchase.js';
+import { GroupBookingModel } from '../models/GroupBooking.js';
+import { ReservationSeriesModel } from '../models/ReservationSeries.js';
+import { BillSplitModel } from '../models/BillSplit.js';
+import { TournamentModel } from '../models/Tournament.js';
 import { WaitingQueueModel } from '../models/WaitingQueue.js';
 import { ActivityUnitModel, ActivityModel } from '../models/Activity.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { branchFilter, getBranchScope, inBranchScope } from '../lib/branches.js';
 import { redisUtils } from '../config/redis.js';
 import { broadcastSessionEvent, broadcastAvailabilityChange } from '../websocket/server.js';
-import { findAvailableUnit, addToWaitingQueue, processWaitingQueue } from '../lib/queueManager.js';
-
-const getRazorpay = (): Razorpay => {
-  const keyId = process.env.RAZORPAY_KEY_ID;
-  const keySecret = process.env.RAZORPAY_KEY_SECRET;
-
-  if (!keyId || !keySecret) {
-    throw new AppError('Razorpay credentials not configured', 500);
-  }
-
-  return new Razorpay({
-    key_id: keyId,
-    key_secret: keySecret,
-  });
-};
+import { findAvailableUnit, addToWaitingQueue, processWaitingQueue, isUnitHeldForOther } from '../lib/queueManager.js';
+import { isAdvanceBooking, isUnitFreeFor, scheduleReservedSession } from '../lib/availability.js';
+import { applySessionExtension, refundUnappliedExtension } from '../lib/sessionExtensions.js';
+import { getRazorpay } from '../lib/razorpay.js';
+import { syncLoyaltyPoints } from '../lib/loyalty.js';
+import { activatePackagePurchase } from '../lib/packages.js';
+import { confirmGroupBooking } from '../lib/groupBookings.js';
+import { confirmReservationSeries } from '../lib/reservationSeries.js';
+import { isPrepaymentRequired } from '../lib/noShows.js';
+import { settleOpenSession } from '../lib/postpaidSessions.js';
+import { findOpenSplitFor, settleBillShare } from '../lib/billSplits.js';
+import { confirmTournamentEntry } from '../lib/tournaments.js';
+import { refundEntity, reconcileRefunds } from '../lib/refunds.js';
+
+const REFUND_REASON_CODES = ['session_cancelled', 'unit_failure', 'order_cancelled', 'customer_request', 'duplicate_payment', 'other'];
 
 export const createPaymentOrder = async (
   req: Request,
@@ -38,7 +46,7 @@ export const createPaymentOrder = async (
       throw new AppError('Invalid amount', 400);
     }
 
-    if (!['reservation', 'session', 'order'].includes(type)) {
+    if (!['reservation', 'session', 'order', 'extension', 'package', 'group', 'series', 'split_share', 'tournament_entry'].includes(type)) {
       throw new AppError('Invalid payment type', 400);
     }
 
@@ -52,6 +60,9 @@ export const createPaymentOrder = async (
       if (reservation.status !== 'pending_payment') {
         throw new AppError('Reservation is not in pending payment status', 400);
       }
+      if (amount !== reservation.amount) {
+        throw new AppError('Amount does not match the booking price', 400);
+      }
     } else if (type === 'session') {
       const session = mongoose.Types.ObjectId.isValid(entityId)
         ? await SessionModel.findById(entityId)
@@ -59,6 +70,12 @@ export const createPaymentOrder = async (
       if (!session) {
         throw new AppError('Session not found', 404);
       }
+      if (session.billingMode === 'postpaid' && session.status !== 'awaiting_payment') {
+        throw new AppError('Open-ended sessions are paid once they end', 400);
+      }
+      if (await findOpenSplitFor('session', session._id.toString())) {
+        throw new AppError('This bill is being split. Each player pays their own share.', 400);
+      }
     } else if (type === 'order') {
       const order = mongoose.Types.ObjectId.isValid(entityId)
         ? await FoodOrderModel.findById(entityId)
@@ -66,6 +83,90 @@ export const createPaymentOrder = async (
       if (!order) {
         throw new AppError('Order not found', 404);
       }
+      if (await findOpenSplitFor('order', order._id.toString())) {
+        throw new AppError('This order is part of a split bill. Each player pays their own share.', 400);
+      }
+      if (amount !== order.totalAmount) {
+        throw new AppError('Amount does not match the order total', 400);
+      }
+    } else if (type === 'extension') {
+      const extension = await SessionExtensionModel.findById(entityId);
+      if (!extension) {
+        throw new AppError('Extension not found', 404);
+      }
+      if (extension.status !== 'pending_payment') {
+        throw new AppError('Extension is not in pending payment status', 400);
+      }
+      if (amount !== extension.amount) {
+        throw new AppError('Amount does not match the extension price', 400);
+      }
+    } else if (type === 'package') {
+      const purchase = mongoose.Types.ObjectId.isValid(entityId)
+        ? await PackagePurchaseModel.findById(entityId)
+        : null;
+      if (!purchase) {
+        throw new AppError('Pack purchase not found', 404);
+      }
+      if (purchase.status !== 'pending_payment') {
+        throw new AppError('This pack has already been paid for', 400);
+      }
+      if (amount !== purchase.price) {
+        throw new AppError('Amount does not match the pack price', 400);
+      }
+    } else if (type === 'group') {
+      const group = mongoose.Types.ObjectId.isValid(entityId)
+        ? await GroupBookingModel.findById(entityId)
+        : null;
+      if (!group) {
+        throw new AppError('Group booking not found', 404);
+      }
+      if (group.status !== 'pending_payment') {
+        throw new AppError('Group booking is not in pending payment status', 400);
+      }
+      if (amount !== group.amount) {
+        throw new AppError('Amount does not match the group booking total', 400);
+      }
+    } else if (type === 'series') {
+      const series = mongoose.Types.ObjectId.isValid(entityId)
+        ? await ReservationSeriesModel.findById(entityId)
+        : null;
+      if (!series) {
+        throw new AppError('Recurring booking not found', 404);
+      }
+      if (series.status !== 'pending_payment') {
+        throw new AppError('Recurring booking is not in pending payment status', 400);
+      }
+      if (amount !== series.amount) {
+        throw new AppError('Amount does not match the recurring booking total', 400);
+      }
+    } else if (type === 'split_share') {
+      const split = mongoose.Types.ObjectId.isValid(entityId)
+        ? await BillSplitModel.findOne({ 'shares._id': entityId })
+        : null;
+      const share = split?.shares.find(s => s._id.toString() === entityId);
+      if (!split || !share) {
+        throw new AppError('Share not found', 404);
+      }
+      if (split.status !== 'open' || share.status !== 'pending') {
+        throw new AppError('This share is not awaiting payment', 400);
+      }
+      if (amount !== share.amount) {
+        throw new AppError('Amount does not match the share', 400);
+      }
+    } else if (type === 'tournament_entry') {
+      const tournament = mongoose.Types.ObjectId.isValid(entityId)
+        ? await TournamentModel.findOne({ 'players._id': entityId })
+        : null;
+      const player = tournament?.players.find(p => p._id.toString() === entityId);
+      if (!tournament || !player) {
+        throw new AppError('Registration not found', 404);
+      }
+      if (tournament.status !== 'registration' || player.paymentStatus !== 'pending') {
+        throw new AppError('This registration is not awaiting payment', 400);
+      }
+      if (amount !== tournament.entryFee) {
+        throw new AppError('Amount does not match the entry fee', 400);
+      }
     }
 
     const razorpay = getRazorpay();
@@ -92,6 +193,32 @@ export const createPaymentOrder = async (
       await FoodOrderModel.findByIdAndUpdate(entityId, {
         razorpayOrderId: order.id,
       });
+    } else if (type === 'extension') {
+      await SessionExtensionModel.findByIdAndUpdate(entityId, {
+        razorpayOrderId: order.id,
+      });
+    } else if (type === 'package') {
+      await PackagePurchaseModel.findByIdAndUpdate(entityId, {
+        razorpayOrderId: order.id,
+      });
+    } else if (type === 'group') {
+      await GroupBookingModel.findByIdAndUpdate(entityId, {
+        razorpayOrderId: order.id,
+      });
+    } else if (type === 'series') {
+      await ReservationSeriesModel.findByIdAndUpdate(entityId, {
+        razorpayOrderId: order.id,
+      });
+    } else if (type === 'split_share') {
+      await BillSplitModel.updateOne(
+        { 'shares._id': entityId },
+        { $set: { 'shares.$.razorpayOrderId': order.id } }
+      );
+    } else if (type === 'tournament_entry') {
+      await TournamentModel.updateOne(
+        { 'players._id': entityId },
+        { $set: { 'players.$.razorpayOrderId': order.id } }
+      );
     }
 
     res.json({
@@ -138,8 +265,31 @@ export const verifyPayment = async (
         throw new AppError('Reservation is not in pending payment status', 400);
       }
 
+      if (reservation.unitId && isAdvanceBooking(reservation.startTime)) {
+        const activityIdForLookup = (reservation.activityId as any)?._id || reservation.activityId;
+        const activity = await ActivityModel.findById(activityIdForLookup);
+        if (!activity) {
+          throw new AppError('Activity not found', 404);
+        }
+
+        const session = await scheduleReservedSession(reservation, activity, razorpay_payment_id, 'paid');
+
+        res.json({
+          success: true,
+          message: 'Payment verified. Your slot is booked.',
+          sessionId: session._id.toString(),
+          reservationId: reservation._id.toString(),
+          queued: false,
+          scheduled: true,
+          startTime: session.startTime,
+        });
+        return;
+      }
+
       const unit = await ActivityUnitModel.findById(reservation.unitId);
-      const isUnitAvailable = unit && unit.status === 'available';
+      const isUnitAvailable = unit && unit.status === 'available'
+        && !(await isUnitHeldForOther(unit.activityId.toString(), unit._id.toString(), reservation._id.toString()))
+        && await isUnitFreeFor(unit._id, reservation.durationMinutes, (reservation.activityId as any)?.bufferTime || 0, reservation._id.toString());
 
       if (isUnitAvailable) {
         reservation.status = 'payment_confirmed';
@@ -158,6 +308,7 @@ export const verifyPayment = async (
         const session = await SessionModel.create({
           reservationId: reservation._id,
           activityId: activity._id,
+          branchId: activity.branchId,
           activityType: activity.type,
           unitId: reservation.unitId,
           startTime: reservation.startTime,
@@ -166,6 +317,7 @@ export const verifyPayment = async (
           duration: reservation.durationMinutes,
           baseAmount: reservation.amount,
           amount: reservation.amount,
+          memberPricing: reservation.memberPricing,
           status: 'scheduled',
           customerName: reservation.customerName,
           customerPhone: reservation.customerPhone,
@@ -264,10 +416,16 @@ export const verifyPayment = async (
         throw new AppError('Session not found', 404);
       }
 
-      await SessionModel.findByIdAndUpdate(updateId, {
+      const paidSession = await SessionModel.findByIdAndUpdate(updateId, {
         paymentStatus: 'paid',
         paymentId: razorpay_payment_id,
-      });
+      }, { new: true });
+      await syncLoyaltyPoints('session', paidSession!);
+
+      // An open-ended session keeps its unit until the bill is paid
+      if (paidSession!.status === 'awaiting_payment') {
+        await settleOpenSession(paidSession!);
+      }
 
       res.json({ success: true, message: 'Session payment verified' });
     } else if (type === 'order') {
@@ -280,12 +438,160 @@ export const verifyPayment = async (
         throw new AppError('Order not found', 404);
       }
 
-      await FoodOrderModel.findByIdAndUpdate(updateId, {
+      const paidOrder = await FoodOrderModel.findByIdAndUpdate(updateId, {
         paymentStatus: 'paid',
         paymentId: razorpay_payment_id,
-      });
+      }, { new: true });
+      await syncLoyaltyPoints('order', paidOrder!);
 
       res.json({ success: true, message: 'Order payment verified' });
+    } else if (type === 'extension') {
+      const extension = await SessionExtensionModel.findById(entityId);
+      if (!extension) {
+        throw new AppError('Extension not found', 404);
+      }
+
+      if (extension.razorpayOrderId !== razorpay_order_id) {
+        throw new AppError('Payment does not belong to this extension', 400);
+      }
+
+      // The hold ran out while the customer was paying, so there's nothing to apply the money to
+      if (extension.status === 'expired' && !extension.paymentId) {
+        const refunded = await refundUnappliedExtension(extension, razorpay_payment_id, 'The extension hold expired');
+        throw new AppError(
+          `This extension expired before the payment came through. ${refunded ? 'Your payment has been refunded.' : 'Please collect a refund at the counter.'}`,
+          409
+        );
+      }
+
+      if (extension.status !== 'pending_payment') {
+        throw new AppError('Extension is not in pending payment status', 400);
+      }
+
+      // Keep the payment on record before anything can refuse it
+      extension.paymentId = razorpay_payment_id;
+      await extension.save();
+
+      let session;
+      try {
+        session = await applySessionExtension(extension, razorpay_payment_id);
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+        const refunded = await refundUnappliedExtension(extension, razorpay_payment_id, error.message);
+        throw new AppError(
+          `${error.message}. ${refunded ? 'Your payment has been refunded.' : 'Please collect a refund at the counter.'}`,
+          error.statusCode
+        );
+      }
+
+      res.json({
+        success: true,
+        message: 'Payment verified. Session extended.',
+        sessionId: session._id.toString(),
+        extensionId: extension._id.toString(),
+        endTime: session.endTime,
+        duration: session.duration,
+      });
+    } else if (type === 'package') {
+      const purchase = await PackagePurchaseModel.findById(entityId);
+      if (!purchase) {
+        throw new AppError('Pack purchase not found', 404);
+      }
+
+      if (purchase.razorpayOrderId !== razorpay_order_id) {
+        throw new AppError('Payment does not belong to this pack', 400);
+      }
+
+      const activated = await activatePackagePurchase(purchase, razorpay_payment_id);
+
+      res.json({
+        success: true,
+        message: 'Payment verified. Your pack is ready to use.',
+        packagePurchaseId: activated._id.toString(),
+        expiresAt: activated.expiresAt,
+      });
+    } else if (type === 'group') {
+      const group = await GroupBookingModel.findById(entityId);
+      if (!group) {
+        throw new AppError('Group booking not found', 404);
+      }
+
+      if (group.razorpayOrderId !== razorpay_order_id) {
+        throw new AppError('Payment does not belong to this group booking', 400);
+      }
+
+      const sessions = await confirmGroupBooking(group, razorpay_payment_id);
+      const started = sessions.every(s => s.status === 'active');
+
+      res.json({
+        success: true,
+        message: started ? 'Payment verified. Your group session has started.' : 'Payment verified. Your group slot is booked.',
+        groupBookingId: group._id.toString(),
+        sessionIds: sessions.map(s => s._id.toString()),
+        scheduled: !started,
+        startTime: sessions[0]?.startTime,
+      });
+    } else if (type === 'series') {
+      const series = await ReservationSeriesModel.findById(entityId);
+      if (!series) {
+        throw new AppError('Recurring booking not found', 404);
+      }
+
+      if (series.razorpayOrderId !== razorpay_order_id) {
+        throw new AppError('Payment does not belong to this recurring booking', 400);
+      }
+
+      const confirmed = await confirmReservationSeries(series, razorpay_payment_id, 'paid');
+
+      res.json({
+        success: true,
+        message: 'Payment verified. Every occurrence is booked.',
+        seriesId: confirmed._id.toString(),
+      });
+    } else if (type === 'split_share') {
+      const split = mongoose.Types.ObjectId.isValid(entityId)
+        ? await BillSplitModel.findOne({ 'shares._id': entityId })
+        : null;
+      const share = split?.shares.find(s => s._id.toString() === entityId);
+      if (!split || !share) {
+        throw new AppError('Share not found', 404);
+      }
+
+      if (share.razorpayOrderId !== razorpay_order_id) {
+        throw new AppError('Payment does not belong to this share', 400);
+      }
+
+      const updated = await settleBillShare(entityId, razorpay_payment_id, 'paid');
+
+      res.json({
+        success: true,
+        message: updated.status === 'settled' ? 'Payment verified. The whole bill is paid.' : 'Payment verified. Your share is paid.',
+        splitId: updated._id.toString(),
+        sessionId: updated.sessionId.toString(),
+        settled: updated.status === 'settled',
+      });
+    } else if (type === 'tournament_entry') {
+      const tournament = mongoose.Types.ObjectId.isValid(entityId)
+        ? await TournamentModel.findOne({ 'players._id': entityId })
+        : null;
+      const player = tournament?.players.find(p => p._id.toString() === entityId);
+      if (!tournament || !player) {
+        throw new AppError('Registration not found', 404);
+      }
+
+      if (player.razorpayOrderId !== razorpay_order_id) {
+        throw new AppError('Payment does not belong to this registration', 400);
+      }
+
+      const confirmed = await confirmTournamentEntry(entityId, razorpay_payment_id, 'paid');
+
+      res.json({
+        success: true,
+        message: `Payment verified. You're in ${confirmed.name}.`,
+        tournamentId: confirmed._id.toString(),
+      });
     } else {
       throw new AppError('Invalid payment type', 400);
     }
@@ -294,8 +600,19 @@ export const verifyPayment = async (
   }
 };
 
+/**
+ * Tell staff a player is paying at the counter for something only staff can mark paid
+ */
+const requestCounterPayment = async (details: Record<string, unknown>): Promise<void> => {
+  const { getIO } = await import('../websocket/server.js');
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('pending_approval', { ...details, timestamp: new Date().toISOString() });
+  }
+};
+
 export const markOfflinePayment = async (
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
@@ -316,6 +633,10 @@ export const markOfflinePayment = async (
         throw new AppError('Reservation is not in pending payment status', 400);
       }
 
+      if (await isPrepaymentRequired(reservation.customerPhone)) {
+        throw new AppError('Please pay online. Pay at counter is not available for this number.', 403);
+      }
+
       reservation.status = 'pending_approval';
       reservation.paymentId = 'offline';
       await reservation.save();
@@ -353,14 +674,46 @@ export const markOfflinePayment = async (
       if (!session) {
         throw new AppError('Session not found', 404);
       }
+      if (session.billingMode === 'postpaid' && session.status !== 'awaiting_payment') {
+        throw new AppError('Open-ended sessions are paid once they end', 400);
+      }
+      if (await findOpenSplitFor('session', session._id.toString())) {
+        throw new AppError('This bill is being split. Each player pays their own share.', 400);
+      }
+
+      // Closing an open-ended bill frees the unit, so only staff who took the cash can do it
+      if (session.status === 'awaiting_payment' && !req.user) {
+        await requestCounterPayment({
+          type: 'session',
+          sessionId: session._id.toString(),
+          customerName: session.customerName,
+          customerPhone: session.customerPhone,
+          amount: session.finalAmount ?? session.amount,
+          activityId: session.activityId.toString(),
+          message: 'Cash payment for an open-ended session needs staff to collect it',
+        });
+
+        res.json({
+          success: true,
+          message: 'Please pay at the counter. Staff will close your session once you have paid.',
+          requiresApproval: true,
+          sessionId: session._id.toString(),
+        });
+        return;
+      }
 
       const updateId = mongoose.Types.ObjectId.isValid(entityId)
         ? entityId
         : new mongoose.Types.ObjectId(entityId);
 
-      await SessionModel.findByIdAndUpdate(updateId, {
+      const paidSession = await SessionModel.findByIdAndUpdate(updateId, {
         paymentStatus: 'offline',
-      });
+      }, { new: true });
+      await syncLoyaltyPoints('session', paidSession!);
+
+      if (paidSession!.status === 'awaiting_payment') {
+        await settleOpenSession(paidSession!);
+      }
 
       res.json({ success: true, message: 'Session marked as paid offline' });
     } else if (type === 'order') {
@@ -371,16 +724,141 @@ export const markOfflinePayment = async (
       if (!order) {
         throw new AppError('Order not found', 404);
       }
+      if (await findOpenSplitFor('order', order._id.toString())) {
+        throw new AppError('This order is part of a split bill. Each player pays their own share.', 400);
+      }
 
       const updateId = mongoose.Types.ObjectId.isValid(entityId)
         ? entityId
         : new mongoose.Types.ObjectId(entityId);
 
-      await FoodOrderModel.findByIdAndUpdate(updateId, {
+      const paidOrder = await FoodOrderModel.findByIdAndUpdate(updateId, {
         paymentStatus: 'offline',
-      });
+      }, { new: true });
+      await syncLoyaltyPoints('order', paidOrder!);
 
       res.json({ success: true, message: 'Order marked as paid offline' });
+    } else if (type === 'extension') {
+      const extension = await SessionExtensionModel.findById(entityId);
+      if (!extension) {
+        throw new AppError('Extension not found', 404);
+      }
+
+      if (extension.status !== 'pending_payment') {
+        throw new AppError('Extension is not in pending payment status', 400);
+      }
+
+      extension.status = 'pending_approval';
+      extension.paymentId = 'offline';
+      await extension.save();
+
+      const { getIO } = await import('../websocket/server.js');
+      const io = getIO();
+      if (io) {
+        io.of('/admin').emit('pending_approval', {
+          type: 'extension',
+          extensionId: extension._id.toString(),
+          sessionId: extension.sessionId.toString(),
+          customerName: extension.customerName,
+          customerPhone: extension.customerPhone,
+          amount: extension.amount,
+          durationMinutes: extension.additionalMinutes,
+          activityId: extension.activityId.toString(),
+          message: 'Cash payment for session extension requires admin approval',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Payment recorded. Your session will be extended once staff approve it.',
+        requiresApproval: true,
+        extensionId: extension._id.toString(),
+      });
+      return;
+    } else if (type === 'split_share') {
+      const split = mongoose.Types.ObjectId.isValid(entityId)
+        ? await BillSplitModel.findOne({ 'shares._id': entityId })
+        : null;
+      const share = split?.shares.find(s => s._id.toString() === entityId);
+      if (!split || !share) {
+        throw new AppError('Share not found', 404);
+      }
+      if (split.status !== 'open' || share.status !== 'pending') {
+        throw new AppError('This share is not awaiting payment', 400);
+      }
+
+      // The last share settles the whole bill, so staff mark it once they have the cash
+      if (!req.user) {
+        await requestCounterPayment({
+          type: 'split_share',
+          shareId: entityId,
+          splitId: split._id.toString(),
+          sessionId: split.sessionId.toString(),
+          customerName: share.playerName,
+          amount: share.amount,
+          message: 'Cash payment for a bill share needs staff to collect it',
+        });
+
+        res.json({
+          success: true,
+          message: 'Please pay your share at the counter. Staff will mark it paid.',
+          requiresApproval: true,
+          splitId: split._id.toString(),
+          sessionId: split.sessionId.toString(),
+          settled: false,
+        });
+        return;
+      }
+
+      const updated = await settleBillShare(entityId, 'offline', 'offline');
+
+      res.json({
+        success: true,
+        message: updated.status === 'settled' ? 'Share marked as paid offline. The whole bill is paid.' : 'Share marked as paid offline',
+        splitId: updated._id.toString(),
+        sessionId: updated.sessionId.toString(),
+        settled: updated.status === 'settled',
+      });
+    } else if (type === 'tournament_entry') {
+      const tournament = mongoose.Types.ObjectId.isValid(entityId)
+        ? await TournamentModel.findOne({ 'players._id': entityId })
+        : null;
+      const player = tournament?.players.find(p => p._id.toString() === entityId);
+      if (!tournament || !player) {
+        throw new AppError('Registration not found', 404);
+      }
+      if (tournament.status !== 'registration' || player.paymentStatus !== 'pending') {
+        throw new AppError('This registration is not awaiting payment', 400);
+      }
+
+      // Only staff who took the fee can confirm a place in the draw
+      if (!req.user) {
+        await requestCounterPayment({
+          type: 'tournament_entry',
+          playerId: entityId,
+          tournamentId: tournament._id.toString(),
+          customerName: player.name,
+          amount: tournament.entryFee,
+          message: `Entry fee for ${tournament.name} needs staff to collect it`,
+        });
+
+        res.json({
+          success: true,
+          message: 'Please pay the entry fee at the counter. Staff will confirm your place.',
+          requiresApproval: true,
+          tournamentId: tournament._id.toString(),
+        });
+        return;
+      }
+
+      const confirmed = await confirmTournamentEntry(entityId, 'offline', 'offline');
+
+      res.json({
+        success: true,
+        message: 'Entry fee marked as paid offline',
+        tournamentId: confirmed._id.toString(),
+      });
     } else {
       throw new AppError('Invalid payment type', 400);
     }
@@ -389,6 +867,108 @@ export const markOfflinePayment = async (
   }
 };
 
+export const refundPayment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { type, amount, reasonCode, notes } = req.body;
+
+    if (!['session', 'order'].includes(type)) {
+      throw new AppError('Refunds are supported for sessions and orders', 400);
+    }
+
+    if (!REFUND_REASON_CODES.includes(reasonCode)) {
+      throw new AppError('A valid reason code is required', 400);
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+      throw new AppError('Refund amount must be greater than 0', 400);
+    }
+
+    const entity = type === 'session'
+      ? await SessionModel.findById(id).populate('activityId', 'type')
+      : await FoodOrderModel.findById(id);
+
+    if (!entity || !inBranchScope(entity.branchId, await getBranchScope(req))) {
+      throw new AppError(type === 'session' ? 'Session not found' : 'Order not found', 404);
+    }
+
+    const { refunds: created, requested, refundedNow, totalRefunded, paymentStatus, failure } = await refundEntity(type, entity, {
+      amount,
+      reasonCode,
+      notes,
+      refundedBy: { id: req.user!.id, name: req.user!.name },
+    });
+
+    if (failure) {
+      throw new AppError(
+        refundedNow > 0
+          ? `Refunded ${refundedNow} of ${requested}; Razorpay refused the rest: ${failure}`
+          : `Razorpay refund failed: ${failure}`,
+        502
+      );
+    }
+
+    res.json({
+      success: true,
+      message: created.some(r => r.status === 'pending')
+        ? 'Refund initiated. Razorpay will settle it shortly.'
+        : 'Refund recorded',
+      type,
+      entityId: entity._id.toString(),
+      refundedAmount: refundedNow,
+      totalRefunded,
+      paymentStatus,
+      refunds: created.map(r => ({
+        id: r._id.toString(),
+        amount: r.amount,
+        method: r.method,
+        status: r.status,
+        razorpayRefundId: r.razorpayRefundId,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getRefunds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { type } = req.query;
+
+    const query: any = { entityId: id, ...branchFilter(await getBranchScope(req)) };
+    if (type) {
+      query.entityType = type;
+    }
+
+    const refunds = await RefundModel.find(query).sort({ createdAt: -1 });
+
+    res.json(refunds.map(r => ({
+      id: r._id.toString(),
+      entityType: r.entityType,
+      entityId: r.entityId.toString(),
+      amount: r.amount,
+      method: r.method,
+      status: r.status,
+      reasonCode: r.reasonCode,
+      notes: r.notes,
+      razorpayRefundId: r.razorpayRefundId,
+      refundedByName: r.refundedByName,
+      createdAt: r.createdAt,
+    })));
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const handleWebhook = async (
   req: Request,
   res: Response,
@@ -418,6 +998,20 @@ export const handleWebhook = async (
     if (event === 'payment.captured') {
     }
 
+    if (event === 'refund.processed' || event === 'refund.failed') {
+      const refund = req.body.payload.refund?.entity;
+      if (refund) {
+        const updated = await RefundModel.findOneAndUpdate(
+          { razorpayRefundId: refund.id },
+          { status: event === 'refund.processed' ? 'processed' : 'failed' },
+          { new: true }
+        );
+        if (updated) {
+          await reconcileRefunds(updated);
+        }
+      }
+    }
+
     res.json({ received: true });
   } catch (error) {
     next(error);
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { PlayerProfileModel, IPlayerProfile } from '../models/PlayerProfile.js';
+import { ActivityType } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { normalizePhone } from '../lib/otp.js';
+import { LeaderboardPeriod, formatPlayerProfile, getLeaderboard as buildLeaderboard } from '../lib/ratings.js';
+
+const PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'all'];
+
+const parseLimit = (value: unknown, fallback: number) => {
+  return Math.min(Math.max(parseInt(value as string, 10) || fallback, 1), 100);
+};
+
+const sendProfile = async (res: Response, profile: IPlayerProfile | null) => {
+  if (!profile) {
+    throw new AppError('No challenge results for this player yet', 404);
+  }
+  res.json(await formatPlayerProfile(profile));
+};
+
+export const getLeaderboard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const activityType = req.query.activityType as ActivityType | undefined;
+    const period = (req.query.period as LeaderboardPeriod | undefined) || 'all';
+
+    if (!activityType) {
+      throw new AppError('activityType is required', 400);
+    }
+    if (!PERIODS.includes(period)) {
+      throw new AppError(`period must be one of ${PERIODS.join(', ')}`, 400);
+    }
+
+    res.json({
+      activityType,
+      period,
+      entries: await buildLeaderboard(activityType, period, parseLimit(req.query.limit, 20)),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyProfile = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await sendProfile(res, await PlayerProfileModel.findOne({ phone: req.customer!.phone }));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPlayerByPhone = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await sendProfile(res, await PlayerProfileModel.findOne({ phone: normalizePhone(req.params.phone) }));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPlayer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const profile = mongoose.Types.ObjectId.isValid(id) ? await PlayerProfileModel.findById(id) : null;
+    await sendProfile(res, profile);
+  } catch (error) {
+    next(error);
+  }
+};
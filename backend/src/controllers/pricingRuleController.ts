@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express';
+import { PricingRuleModel } from '../models/PricingRule.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const validateRuleBody = (body: any): void => {
+  if (body.adjustmentType === 'flat_rate') {
+    if (typeof body.flatRate !== 'number' || body.flatRate < 0) {
+      throw new AppError('Flat rate rules need a non-negative flatRate', 400);
+    }
+  } else if (body.adjustmentType === 'multiplier' || body.adjustmentType === undefined) {
+    if (typeof body.multiplier !== 'number' || body.multiplier <= 0) {
+      throw new AppError('Multiplier rules need a multiplier greater than 0', 400);
+    }
+  } else {
+    throw new AppError('Invalid adjustment type', 400);
+  }
+
+  for (const range of body.dateRanges || []) {
+    const start = new Date(range.start);
+    const end = new Date(range.end);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new AppError('Each date range needs a start on or before its end', 400);
+    }
+  }
+};
+
+const formatRule = (rule: any) => ({
+  id: rule._id.toString(),
+  name: rule.name,
+  activityIds: rule.activityIds,
+  daysOfWeek: rule.daysOfWeek,
+  startTime: rule.startTime,
+  endTime: rule.endTime,
+  dateRanges: rule.dateRanges,
+  adjustmentType: rule.adjustmentType,
+  multiplier: rule.multiplier,
+  flatRate: rule.flatRate,
+  priority: rule.priority,
+  enabled: rule.enabled,
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+});
+
+export const getPricingRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rules = await PricingRuleModel.find()
+      .populate('activityIds', 'name type')
+      .sort({ priority: -1, createdAt: 1 });
+
+    res.json(rules.map(formatRule));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createPricingRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    validateRuleBody(req.body);
+
+    const rule = await PricingRuleModel.create(req.body);
+    res.status(201).json(formatRule(rule));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updatePricingRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await PricingRuleModel.findById(id);
+    if (!existing) {
+      throw new AppError('Pricing rule not found', 404);
+    }
+
+    validateRuleBody({ ...existing.toObject(), ...req.body });
+
+    const rule = await PricingRuleModel.findByIdAndUpdate(
+      id,
+      { $set: req.body },
+      { new: true, runValidators: true }
+    );
+
+    res.json(formatRule(rule));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deletePricingRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const rule = await PricingRuleModel.findByIdAndDelete(id);
+    if (!rule) {
+      throw new AppError('Pricing rule not found', 404);
+    }
+
+    res.json({ message: 'Pricing rule deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
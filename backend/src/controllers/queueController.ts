@@ -6,6 +6,11 @@ import { WaitingQueueModel } from '../models/WaitingQueue.js';
 import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { redisUtils } from '../config/redis.js';
+import { restoreRedeemedPoints, syncLoyaltyPoints } from '../lib/loyalty.js';
+import { releaseCoupon } from '../lib/coupons.js';
+import { branchFilter, getBranchScope } from '../lib/branches.js';
+import { broadcastQueueEstimates } from '../lib/queueManager.js';
+import { isUnitFreeFor } from '../lib/availability.js';
 
 export const getQueue = async (
   req: Request,
@@ -14,8 +19,10 @@ export const getQueue = async (
 ): Promise<void> => {
   try {
     const { service } = req.query;
+    const branch = branchFilter(await getBranchScope(req));
 
     const pendingReservations = await ReservationModel.find({
+      ...branch,
       status: { $in: ['pending_payment', 'pending_approval', 'payment_confirmed'] },
     })
       .populate('activityId')
@@ -44,6 +51,7 @@ export const getQueue = async (
 
 
     const pendingOrders = await FoodOrderModel.find({
+      ...branch,
       status: { $in: ['pending', 'preparing', 'ready'] },
       paymentStatus: { $in: ['pending', 'paid', 'offline'] },
     })
@@ -168,12 +176,14 @@ export const getStations = async (
 ): Promise<void> => {
   try {
     const { type } = req.query;
+    const branch = branchFilter(await getBranchScope(req));
 
-    const units = await ActivityUnitModel.find()
+    const units = await ActivityUnitModel.find(branch)
       .populate('activityId')
       .sort({ name: 1 });
 
     const activeSessions = await SessionModel.find({
+      ...branch,
       status: 'active',
     })
       .populate('activityId')
@@ -229,20 +239,25 @@ export const getQueueStats = async (
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
+    const branch = branchFilter(await getBranchScope(req));
 
     const activeSessions = await SessionModel.countDocuments({
+      ...branch,
       status: 'active',
     });
 
     const pendingReservations = await ReservationModel.countDocuments({
+      ...branch,
       status: 'pending_payment',
     });
 
     const pendingOrders = await FoodOrderModel.countDocuments({
+      ...branch,
       status: { $in: ['pending', 'preparing', 'ready'] },
     });
 
     const todaySessions = await SessionModel.find({
+      ...branch,
       createdAt: { $gte: today },
       paymentStatus: { $in: ['paid', 'offline'] },
     });
@@ -252,6 +267,7 @@ export const getQueueStats = async (
     );
 
     const servedToday = await SessionModel.countDocuments({
+      ...branch,
       status: 'ended',
       actualEndTime: { $gte: today },
     });
@@ -348,6 +364,9 @@ export const assignQueueEntry = async (
       
       const unit = reservation.unitId as any;
       const unitId = unit._id || unit;
+      if (!await isUnitFreeFor(unitId, reservation.durationMinutes, activity.bufferTime || 0, reservation._id.toString())) {
+        throw new AppError('Unit is booked during this time. Choose another unit.', 409);
+      }
 
       reservation.activityId = activityId;
       reservation.unitId = unitId;
@@ -359,6 +378,7 @@ export const assignQueueEntry = async (
       const session = await SessionModel.create({
         reservationId: reservation._id,
         activityId: activityId,
+        branchId: reservation.branchId,
         activityType: activityType,
         unitId: unitId,
         startTime: new Date(),
@@ -367,6 +387,7 @@ export const assignQueueEntry = async (
         duration: reservation.durationMinutes,
         baseAmount: reservation.amount,
         amount: reservation.amount,
+        memberPricing: reservation.memberPricing,
         status: 'active',
         actualStartTime: new Date(),
         customerName: reservation.customerName,
@@ -390,6 +411,7 @@ export const assignQueueEntry = async (
         queueEntry.sessionId = session._id;
         await queueEntry.save();
       }
+      await broadcastQueueEstimates(activityId.toString());
 
       result = {
         type: 'reservation',
@@ -595,6 +617,8 @@ export const removeQueueEntry = async (
 
       reservation.status = 'cancelled';
       await reservation.save();
+      await restoreRedeemedPoints('reservation', reservation);
+      await releaseCoupon('reservation', reservation);
 
       await redisUtils.delete(`reservation:${reservation._id}`);
 
@@ -645,6 +669,9 @@ export const removeQueueEntry = async (
 
       order.status = 'cancelled';
       await order.save();
+      await restoreRedeemedPoints('order', order);
+      await releaseCoupon('order', order);
+      await syncLoyaltyPoints('order', order);
 
       result = {
         type: 'order',
@@ -688,6 +715,7 @@ export const removeQueueEntry = async (
       session.endTime = actualEndTime;
       session.actualEndTime = actualEndTime;
       await session.save();
+      await syncLoyaltyPoints('session', session);
 
       const { redisUtils } = await import('../config/redis.js');
       await redisUtils.delete(`session:${session._id}`);
@@ -7,23 +7,39 @@ import { WaitingQueueModel } from '../models/WaitingQueue.js';
 import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { redisUtils } from '../config/redis.js';
-import { calculateActivityPrice, isPeakHour } from '../lib/pricing.js';
+import { quoteActivityPrice } from '../lib/pricing.js';
 import { broadcastAvailabilityChange } from '../websocket/server.js';
+import {
+  ADVANCE_BOOKING_THRESHOLD_MINUTES,
+  MAX_ADVANCE_DAYS,
+  findUnitConflicts,
+  isAdvanceBooking,
+  isUnitFreeFor,
+  isWithinBookingWindow,
+  scheduleReservedSession,
+} from '../lib/availability.js';
+import { isPrepaymentRequired } from '../lib/noShows.js';
+import { restoreRedeemedPoints, signedInMemberPhone } from '../lib/loyalty.js';
+import { releaseCoupon } from '../lib/coupons.js';
+import { debitPackage } from '../lib/packages.js';
+import { normalizePhone } from '../lib/otp.js';
+import { CustomerRequest } from '../middleware/auth.js';
+import { findActivity, getBranchScope } from '../lib/branches.js';
+import { findAvailableUnit, isUnitHeldForOther, processWaitingQueue, reorderQueuePositions } from '../lib/queueManager.js';
 
 export const createReservation = async (
-  req: Request,
+  req: CustomerRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { activityId, unitId, startTime, duration, customerName, customerPhone, qrContext } = req.body;
+    const { activityId, unitId, startTime, duration, customerName, customerPhone, qrContext, packagePurchaseId } = req.body;
 
-    let activity;
-    if (mongoose.Types.ObjectId.isValid(activityId)) {
-      activity = await ActivityModel.findById(activityId);
-    } else {
-      activity = await ActivityModel.findOne({ type: activityId });
+    if (packagePurchaseId && req.customer?.phone !== normalizePhone(customerPhone)) {
+      throw new AppError('Sign in with this phone number to pay from a pack', 403);
     }
+
+    const activity = await findActivity(activityId, await getBranchScope(req));
     
     if (!activity || !activity.enabled) {
       throw new AppError('Activity not found or disabled', 404);
@@ -39,19 +55,37 @@ export const createReservation = async (
       });
     }
     
-    if (!unit || unit.status !== 'available') {
-      throw new AppError('Unit not available', 400);
-    }
-
     const start = new Date(startTime || new Date());
     const end = new Date(start.getTime() + duration * 60000);
 
+    if (isNaN(start.getTime())) {
+      throw new AppError('Invalid start time', 400);
+    }
+
+    const advance = isAdvanceBooking(start);
+
+    if (start.getTime() < Date.now() - ADVANCE_BOOKING_THRESHOLD_MINUTES * 60000) {
+      throw new AppError('Start time is in the past', 400);
+    }
+    if (!isWithinBookingWindow(start)) {
+      throw new AppError(`Slots can be booked up to ${MAX_ADVANCE_DAYS} days ahead`, 400);
+    }
+
+    // Advance bookings only need the slot to be free, not the unit to be idle right now
+    if (!unit || unit.status === 'maintenance' || (!advance && unit.status !== 'available')) {
+      throw new AppError('Unit not available', 400);
+    }
+    if (!advance && await isUnitHeldForOther(activity._id.toString(), unit._id.toString(), '')) {
+      throw new AppError('This unit is being held for a customer from the waiting queue', 409);
+    }
+
     if (duration < activity.minimumDuration) {
       throw new AppError(`Minimum duration is ${activity.minimumDuration} minutes`, 400);
     }
 
-    const peak = isPeakHour(start);
-    const price = calculateActivityPrice(activity, duration, peak);
+    const memberPhone = signedInMemberPhone(customerPhone, req.customer?.phone);
+    const quote = await quoteActivityPrice(activity, duration, start, memberPhone);
+    const price = quote.total;
 
     const lockKey = `lock:${activity._id}:${unit._id}:${start.toISOString()}`;
     const lockValue = uuidv4();
@@ -62,29 +96,9 @@ export const createReservation = async (
     }
 
     try {
-      const conflicts = await SessionModel.find({
-        unitId: unit._id,
-        status: { $in: ['scheduled', 'active', 'paused'] },
-        $or: [
-          {
-            startTime: { $lt: end },
-            endTime: { $gt: start },
-          },
-        ],
-      });
+      const conflicts = await findUnitConflicts(unit._id, start, end, activity.bufferTime || 0);
 
-      const pendingReservations = await ReservationModel.find({
-        unitId: unit._id,
-        status: { $in: ['pending_payment', 'payment_confirmed'] },
-        $or: [
-          {
-            startTime: { $lt: end },
-            endTime: { $gt: start },
-          },
-        ],
-      });
-
-      if (conflicts.length > 0 || pendingReservations.length > 0) {
+      if (conflicts.length > 0) {
         await redisUtils.releaseLock(lockKey);
         throw new AppError('This time slot is already booked', 409);
       }
@@ -92,23 +106,45 @@ export const createReservation = async (
       const expiresAt = new Date(Date.now() + 15 * 60000);
       const reservation = await ReservationModel.create({
         activityId: activity._id,
+        branchId: activity.branchId,
         unitId: unit._id,
         startTime: start,
         endTime: end,
         durationMinutes: duration,
         amount: price,
+        priceBreakdown: quote.lineItems,
         status: 'pending_payment',
         customerName: customerName.trim(),
         customerPhone: customerPhone.replace(/\D/g, ''),
         qrContext: qrContext || {},
         expiresAt,
+        memberPricing: !!memberPhone,
+        packagePurchaseId: packagePurchaseId || undefined,
       });
 
-      await redisUtils.setCache(`reservation:${reservation._id}`, reservation.toObject(), 900);
+      if (packagePurchaseId) {
+        try {
+          await debitPackage(packagePurchaseId, reservation.customerPhone, activity, 'reservation', reservation._id, duration, price);
+        } catch (error) {
+          await ReservationModel.deleteOne({ _id: reservation._id });
+          throw error;
+        }
+      } else {
+        await redisUtils.setCache(`reservation:${reservation._id}`, reservation.toObject(), 900);
+      }
 
       await redisUtils.releaseLock(lockKey);
 
-      broadcastAvailabilityChange(activity._id.toString(), 'pending');
+      // A pack pays for the booking up front, so it is confirmed straight away
+      const session = reservation.packagePurchaseId
+        ? await scheduleReservedSession(reservation, activity, 'package', 'paid')
+        : null;
+      if (session && !advance) {
+        await ActivityUnitModel.findByIdAndUpdate(unit._id, { status: 'occupied' });
+        broadcastAvailabilityChange(activity._id.toString(), 'occupied');
+      } else if (!session) {
+        broadcastAvailabilityChange(activity._id.toString(), 'pending');
+      }
 
       const { getIO } = await import('../websocket/server.js');
       const io = getIO();
@@ -134,8 +170,13 @@ export const createReservation = async (
         endTime: reservation.endTime,
         durationMinutes: reservation.durationMinutes,
         amount: reservation.amount,
+        priceBreakdown: reservation.priceBreakdown,
         status: reservation.status,
         expiresAt: reservation.expiresAt,
+        isAdvanceBooking: advance,
+        sessionId: session?._id.toString(),
+        packagePurchaseId: reservation.packagePurchaseId?.toString(),
+        prepaymentRequired: await isPrepaymentRequired(reservation.customerPhone),
       });
     } catch (error) {
       await redisUtils.releaseLock(lockKey);
@@ -169,11 +210,26 @@ export const confirmReservation = async (
       throw new AppError('Activity not found', 404);
     }
 
+    if (reservation.unitId && isAdvanceBooking(reservation.startTime)) {
+      const session = await scheduleReservedSession(
+        reservation,
+        activity,
+        paymentId,
+        paymentId === 'offline' ? 'offline' : 'paid'
+      );
+
+      res.json({
+        reservationId: reservation._id.toString(),
+        sessionId: session._id.toString(),
+        status: 'scheduled',
+      });
+      return;
+    }
+
     let assignedUnitId = unitId || reservation.unitId;
 
     if (!assignedUnitId) {
-      const { findAvailableUnit } = await import('../lib/queueManager.js');
-      const availableUnit = await findAvailableUnit(activityIdForLookup.toString());
+      const availableUnit = await findAvailableUnit(activityIdForLookup.toString(), reservation.durationMinutes, reservation._id.toString());
       if (!availableUnit) {
         throw new AppError('No units available. Please wait for a unit to become available.', 400);
       }
@@ -187,6 +243,12 @@ export const confirmReservation = async (
     if (unit.status !== 'available') {
       throw new AppError('Unit is not available', 400);
     }
+    if (await isUnitHeldForOther(activity._id.toString(), unit._id.toString(), reservation._id.toString())) {
+      throw new AppError('This unit is being held for a customer from the waiting queue', 409);
+    }
+    if (!await isUnitFreeFor(unit._id, reservation.durationMinutes, activity.bufferTime || 0, reservation._id.toString())) {
+      throw new AppError('Unit is booked during this time. Choose another unit.', 409);
+    }
 
     reservation.status = 'payment_confirmed';
     reservation.paymentId = paymentId;
@@ -202,6 +264,7 @@ export const confirmReservation = async (
     const session = await SessionModel.create({
       reservationId: reservation._id,
       activityId: activity._id,
+      branchId: activity.branchId,
       activityType: activity.type,
       unitId: assignedUnitId,
       startTime,
@@ -210,6 +273,7 @@ export const confirmReservation = async (
       duration: reservation.durationMinutes,
       baseAmount: reservation.amount,
       amount: reservation.amount,
+      memberPricing: reservation.memberPricing,
       status: 'active',
       actualStartTime: startTime,
       customerName: reservation.customerName,
@@ -233,8 +297,10 @@ export const confirmReservation = async (
       queueEntry.sessionId = session._id;
       await queueEntry.save();
 
-      const { reorderQueuePositions } = await import('../lib/queueManager.js');
       await reorderQueuePositions(activityIdForLookup.toString());
+    } else {
+      const { broadcastQueueEstimates } = await import('../lib/queueManager.js');
+      await broadcastQueueEstimates(activityIdForLookup.toString());
     }
 
     const { broadcastSessionEvent, getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
@@ -266,19 +332,14 @@ export const confirmReservation = async (
 };
 
 export const joinWaitingQueue = async (
-  req: Request,
+  req: CustomerRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const { activityId, duration, customerName, customerPhone, qrContext, paymentId, paymentStatus } = req.body;
 
-    let activity;
-    if (mongoose.Types.ObjectId.isValid(activityId)) {
-      activity = await ActivityModel.findById(activityId);
-    } else {
-      activity = await ActivityModel.findOne({ type: activityId });
-    }
+    const activity = await findActivity(activityId, await getBranchScope(req));
     
     if (!activity || !activity.enabled) {
       throw new AppError('Activity not found or disabled', 404);
@@ -297,22 +358,30 @@ export const joinWaitingQueue = async (
       throw new AppError(`Minimum duration is ${activity.minimumDuration} minutes`, 400);
     }
 
-    const peak = isPeakHour();
-    const price = calculateActivityPrice(activity, duration, peak);
+    if (paymentStatus !== 'paid' && await isPrepaymentRequired(customerPhone)) {
+      throw new AppError('Please pay online to join the queue. Pay at counter is not available for this number.', 403);
+    }
+
+    const memberPhone = signedInMemberPhone(customerPhone, req.customer?.phone);
+    const quote = await quoteActivityPrice(activity, duration, new Date(), memberPhone);
+    const price = quote.total;
 
     const reservation = await ReservationModel.create({
       activityId: activity._id,
+      branchId: activity.branchId,
       unitId: null,
       startTime: new Date(),
       endTime: new Date(Date.now() + duration * 60000),
       durationMinutes: duration,
       amount: price,
+      priceBreakdown: quote.lineItems,
       status: paymentStatus === 'offline' ? 'pending_approval' : 'payment_confirmed',
       customerName: customerName.trim(),
       customerPhone: customerPhone.replace(/\D/g, ''),
       qrContext: qrContext || {},
       paymentId: paymentId || 'queue',
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      memberPricing: !!memberPhone,
     });
 
     const { addToWaitingQueue } = await import('../lib/queueManager.js');
@@ -381,10 +450,16 @@ export const exitWaitingQueue = async (
     if (queueEntry) {
       queueEntry.status = 'cancelled';
       await queueEntry.save();
+
+      // Pass on a unit that was being held for them
+      await reorderQueuePositions(queueEntry.activityId.toString());
+      await processWaitingQueue(queueEntry.activityId.toString());
     }
 
     reservation.status = 'cancelled';
     await reservation.save();
+    await restoreRedeemedPoints('reservation', reservation);
+    await releaseCoupon('reservation', reservation);
 
     const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
     const io = getIO();
@@ -432,6 +507,10 @@ export const getReservation = async (
       endTime: reservation.endTime,
       durationMinutes: reservation.durationMinutes,
       amount: reservation.amount,
+      priceBreakdown: reservation.priceBreakdown,
+      loyaltyDiscount: reservation.loyaltyDiscount,
+      couponCode: reservation.couponCode,
+      couponDiscount: reservation.couponDiscount,
       status: reservation.status,
       expiresAt: reservation.expiresAt,
       customerName: reservation.customerName,
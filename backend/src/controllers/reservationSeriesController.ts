@@ -0,0 +1,375 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { ReservationSeriesModel, IReservationSeries } from '../models/ReservationSeries.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { SessionModel } from '../models/Session.js';
+import { ActivityUnitModel, IActivity, IActivityUnit } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { redisUtils } from '../config/redis.js';
+import { quoteActivityPrice } from '../lib/pricing.js';
+import { branchFilter, findActivity, getBranchScope, inBranchScope } from '../lib/branches.js';
+import {
+  MAX_SERIES_OCCURRENCES,
+  OccurrenceCheck,
+  cancelOccurrence,
+  checkOccurrences,
+  confirmReservationSeries,
+  getOccurrenceStarts,
+} from '../lib/reservationSeries.js';
+
+const UPFRONT_HOLD_MINUTES = 15;
+const CANCELLABLE_STATUSES = ['pending_payment', 'pending_approval', 'payment_confirmed'];
+
+interface SeriesPlan {
+  activity: IActivity;
+  units: IActivityUnit[];
+  checks: OccurrenceCheck[];
+}
+
+/**
+ * Resolve the activity and units of a series request and check every
+ * occurrence against existing bookings
+ */
+const planSeries = async (req: Request): Promise<SeriesPlan> => {
+  const { activityId, unitIds, startTime, duration, frequency, endDate, occurrences } = req.body;
+
+  const activity = await findActivity(activityId, await getBranchScope(req));
+  if (!activity || !activity.enabled) {
+    throw new AppError('Activity not found or disabled', 404);
+  }
+  if (duration < activity.minimumDuration) {
+    throw new AppError(`Minimum duration is ${activity.minimumDuration} minutes`, 400);
+  }
+
+  const units = await ActivityUnitModel.find({
+    _id: { $in: unitIds.filter((id: string) => mongoose.Types.ObjectId.isValid(id)) },
+    activityId: activity._id,
+  });
+  if (units.length !== new Set(unitIds).size) {
+    throw new AppError('Units not found for this activity', 404);
+  }
+
+  const first = new Date(startTime);
+  const until = endDate ? new Date(endDate) : undefined;
+  if (isNaN(first.getTime()) || (until && isNaN(until.getTime()))) {
+    throw new AppError('Invalid start time or end date', 400);
+  }
+  if (first.getTime() <= Date.now()) {
+    throw new AppError('The first occurrence must be in the future', 400);
+  }
+  if (!until && !occurrences) {
+    throw new AppError('Give either an end date or a number of occurrences', 400);
+  }
+
+  const starts = getOccurrenceStarts(first, frequency, until, occurrences);
+  if (starts.length === 0) {
+    throw new AppError('The end date is before the first occurrence', 400);
+  }
+
+  return { activity, units, checks: await checkOccurrences(activity, units, starts, duration) };
+};
+
+const formatCheck = (check: OccurrenceCheck) => ({
+  startTime: check.startTime,
+  endTime: check.endTime,
+  available: check.conflicts.length === 0,
+  conflicts: check.conflicts,
+});
+
+const formatSeries = async (series: IReservationSeries, withOccurrences = false) => {
+  const occurrences = withOccurrences
+    ? await ReservationModel.find({ seriesId: series._id }).populate('unitId', 'name').sort({ startTime: 1 })
+    : [];
+  const sessions = withOccurrences
+    ? await SessionModel.find({ reservationId: { $in: occurrences.map(o => o._id) } })
+    : [];
+  const sessionByReservation = new Map(sessions.map(s => [s.reservationId?.toString(), s]));
+
+  return {
+    id: series._id.toString(),
+    activityId: series.activityId.toString(),
+    unitIds: series.unitIds.map(id => id.toString()),
+    customerName: series.customerName,
+    customerPhone: series.customerPhone,
+    frequency: series.frequency,
+    startTime: series.startTime,
+    durationMinutes: series.durationMinutes,
+    endDate: series.endDate,
+    occurrenceCount: series.occurrenceCount,
+    billing: series.billing,
+    amount: series.amount,
+    status: series.status,
+    skippedOccurrences: series.skippedOccurrences,
+    expiresAt: series.expiresAt,
+    createdAt: series.createdAt,
+    ...(withOccurrences && {
+      occurrences: occurrences.map(o => {
+        const unit = o.unitId as any;
+        const session = sessionByReservation.get(o._id.toString());
+        return {
+          reservationId: o._id.toString(),
+          unitId: unit?._id?.toString(),
+          unitName: unit?.name,
+          startTime: o.startTime,
+          endTime: o.endTime,
+          amount: o.amount,
+          status: o.status,
+          sessionId: session?._id.toString(),
+        };
+      }),
+    }),
+  };
+};
+
+const findSeries = async (req: Request): Promise<IReservationSeries> => {
+  const series = mongoose.Types.ObjectId.isValid(req.params.id)
+    ? await ReservationSeriesModel.findById(req.params.id)
+    : null;
+
+  if (!series || !inBranchScope(series.branchId, await getBranchScope(req))) {
+    throw new AppError('Series not found', 404);
+  }
+
+  return series;
+};
+
+/**
+ * Dry run of a series: every occurrence with the units that are already taken
+ */
+export const previewSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { checks } = await planSeries(req);
+
+    res.json({
+      occurrences: checks.map(formatCheck),
+      availableCount: checks.filter(c => c.conflicts.length === 0).length,
+      maxOccurrences: MAX_SERIES_OCCURRENCES,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Book every free occurrence of a series. Dates where any of the units is
+ * taken are skipped and reported rather than failing the whole series.
+ */
+export const createSeries = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { frequency, duration, endDate, occurrences, customerName, customerPhone, billing, qrContext } = req.body;
+    const { activity, units, checks } = await planSeries(req);
+    const phone = customerPhone.replace(/\D/g, '');
+
+    const lockKeys: string[] = [];
+    try {
+      const open = checks.filter(c => c.conflicts.length === 0);
+      if (open.length === 0) {
+        throw new AppError('Every occurrence clashes with an existing booking', 409);
+      }
+
+      for (const check of open) {
+        for (const unit of units) {
+          const lockKey = `lock:${activity._id}:${unit._id}:${check.startTime.toISOString()}`;
+          if (!await redisUtils.acquireLock(lockKey, uuidv4(), 10)) {
+            throw new AppError('Some of these slots are being booked right now. Please try again.', 409);
+          }
+          lockKeys.push(lockKey);
+        }
+      }
+
+      // Slots can be booked between the first check and taking the locks, so check again
+      const rechecked = await checkOccurrences(activity, units, open.map(c => c.startTime), duration);
+      const free = rechecked.filter(c => c.conflicts.length === 0);
+      if (free.length === 0) {
+        throw new AppError('Every occurrence clashes with an existing booking', 409);
+      }
+      const skipped = [...checks, ...rechecked]
+        .filter(c => c.conflicts.length > 0)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+      const upfront = billing === 'upfront';
+      const expiresAt = upfront ? new Date(Date.now() + UPFRONT_HOLD_MINUTES * 60000) : undefined;
+      const series = new ReservationSeriesModel({
+        branchId: activity.branchId,
+        activityId: activity._id,
+        unitIds: units.map(u => u._id),
+        customerName: customerName.trim(),
+        customerPhone: phone,
+        frequency,
+        startTime: checks[0].startTime,
+        durationMinutes: duration,
+        endDate: endDate ? new Date(endDate) : undefined,
+        occurrenceCount: occurrences,
+        billing,
+        status: upfront ? 'pending_payment' : 'active',
+        skippedOccurrences: skipped
+          .map(c => ({ startTime: c.startTime, reason: `${c.conflicts.join(', ')} already booked` })),
+        expiresAt,
+        createdBy: req.user?.id,
+      });
+
+      const rows = [];
+      for (const check of free) {
+        // Staff set series up, so there's no signed-in customer to give a member discount to
+        const quote = await quoteActivityPrice(activity, duration, check.startTime);
+        for (const unit of units) {
+          rows.push({
+            activityId: activity._id,
+            branchId: activity.branchId,
+            unitId: unit._id,
+            seriesId: series._id,
+            startTime: check.startTime,
+            endTime: check.endTime,
+            durationMinutes: duration,
+            amount: quote.total,
+            priceBreakdown: quote.lineItems,
+            status: 'pending_payment',
+            customerName: series.customerName,
+            customerPhone: phone,
+            qrContext: qrContext || {},
+            // Pay-as-you-go occurrences hold their slot until it starts
+            expiresAt: expiresAt || check.startTime,
+          });
+        }
+      }
+
+      await ReservationModel.insertMany(rows);
+      series.amount = rows.reduce((sum, row) => sum + row.amount, 0);
+      await series.save();
+
+      const { broadcastAvailabilityChange } = await import('../websocket/server.js');
+      broadcastAvailabilityChange(activity._id.toString(), 'pending');
+
+      res.status(201).json(await formatSeries(series, true));
+    } finally {
+      for (const lockKey of lockKeys) {
+        await redisUtils.releaseLock(lockKey);
+      }
+    }
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAllSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const query: Record<string, unknown> = branchFilter(await getBranchScope(req));
+    if (req.query.status) {
+      query.status = req.query.status;
+    }
+    if (req.query.phone) {
+      query.customerPhone = (req.query.phone as string).replace(/\D/g, '');
+    }
+
+    const series = await ReservationSeriesModel.find(query).sort({ startTime: 1 });
+
+    res.json(await Promise.all(series.map(s => formatSeries(s))));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.json(await formatSeries(await findSeries(req), true));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record an up-front series as paid at the counter
+ */
+export const markSeriesPaid = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const series = await confirmReservationSeries(await findSeries(req), 'offline', 'offline');
+
+    res.json(await formatSeries(series, true));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelSeriesOccurrence = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+    const reservation = mongoose.Types.ObjectId.isValid(req.params.reservationId)
+      ? await ReservationModel.findOne({ _id: req.params.reservationId, seriesId: series._id })
+      : null;
+
+    if (!reservation) {
+      throw new AppError('Occurrence not found in this series', 404);
+    }
+    if (!CANCELLABLE_STATUSES.includes(reservation.status) || reservation.startTime.getTime() <= Date.now()) {
+      throw new AppError('Only upcoming occurrences can be cancelled', 400);
+    }
+
+    const refund = await cancelOccurrence(reservation, { id: req.user!.id, name: req.user!.name });
+
+    res.json({ ...(await formatSeries(series, true)), ...refund });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a series and every occurrence that hasn't started yet
+ */
+export const cancelSeries = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const series = await findSeries(req);
+    if (series.status === 'cancelled') {
+      throw new AppError('Series is already cancelled', 400);
+    }
+
+    const upcoming = await ReservationModel.find({
+      seriesId: series._id,
+      status: { $in: CANCELLABLE_STATUSES },
+      startTime: { $gt: new Date() },
+    });
+    let refundedAmount = 0;
+    let refundFailures = 0;
+    for (const reservation of upcoming) {
+      const refund = await cancelOccurrence(reservation, { id: req.user!.id, name: req.user!.name });
+      refundedAmount += refund.refundedAmount;
+      if (refund.refundFailure) refundFailures++;
+    }
+
+    series.status = 'cancelled';
+    await series.save();
+
+    res.json({ ...(await formatSeries(series, true)), cancelledCount: upcoming.length, refundedAmount, refundFailures });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -2,8 +2,127 @@ import { Request, Response, NextFunction } from 'express';
 import { SessionModel } from '../models/Session.js';
 import { FoodOrderModel } from '../models/Order.js';
 import { ActivityModel } from '../models/Activity.js';
+import { RefundModel } from '../models/Refund.js';
+import { PackagePurchaseModel } from '../models/PackagePurchase.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { BranchModel } from '../models/Branch.js';
+import { branchFilter, getBranchScope } from '../lib/branches.js';
 import { stringify } from 'csv-stringify/sync';
 
+// Refunded payments stay in revenue at their original amount; refunds are reported as negative rows.
+// Prepaid packs count when they are bought, so sessions paid from a pack (and refunds back onto one) are left out.
+// Session and order amounts are net of coupon discounts; the summary adds them back for gross revenue.
+const REVENUE_PAYMENT_STATUSES = ['paid', 'offline', 'refunded', 'partially_refunded'];
+
+interface RevenueQueries {
+  session: any;
+  order: any;
+  refund: any;
+  package: any;
+  couponReservation: any;
+}
+
+/**
+ * Limit revenue queries to one branch (null leaves them across all branches).
+ * Prepaid packs belong to the branch of their activity.
+ */
+const scopeRevenueQueries = async (queries: RevenueQueries, scope: string | null): Promise<RevenueQueries> => {
+  if (!scope) {
+    return queries;
+  }
+
+  const branch = branchFilter(scope);
+  const activityIds = await ActivityModel.find(branch).distinct('_id');
+
+  return {
+    session: { ...queries.session, ...branch },
+    order: { ...queries.order, ...branch },
+    refund: { ...queries.refund, ...branch },
+    package: { ...queries.package, activityId: { $in: activityIds } },
+    couponReservation: { ...queries.couponReservation, ...branch },
+  };
+};
+
+const sumRevenue = async (queries: RevenueQueries) => {
+  const sessionRevenue = await SessionModel.aggregate([
+    { $match: queries.session },
+    { $group: { 
+      _id: null, 
+      total: { 
+        $sum: { 
+          $ifNull: ['$finalAmount', { $ifNull: ['$amount', 0] }]
+        }
+      } 
+    } },
+  ]);
+
+  const orderRevenue = await FoodOrderModel.aggregate([
+    { $match: queries.order },
+    { $group: { 
+      _id: null, 
+      total: { 
+        $sum: { $ifNull: ['$totalAmount', 0] } 
+      } 
+    } },
+  ]);
+
+  const packageRevenue = await PackagePurchaseModel.aggregate([
+    { $match: queries.package },
+    { $group: {
+      _id: null,
+      total: { $sum: '$price' },
+    } },
+  ]);
+
+  const reservationCoupons = await ReservationModel.aggregate([
+    { $match: queries.couponReservation },
+    { $group: {
+      _id: null,
+      total: { $sum: '$couponDiscount' },
+    } },
+  ]);
+
+  const orderCoupons = await FoodOrderModel.aggregate([
+    { $match: { ...queries.order, couponDiscount: { $gt: 0 } } },
+    { $group: {
+      _id: null,
+      total: { $sum: '$couponDiscount' },
+    } },
+  ]);
+
+  const refundTotals = await RefundModel.aggregate([
+    { $match: queries.refund },
+    { $group: {
+      _id: '$entityType',
+      total: { $sum: '$amount' },
+    } },
+  ]);
+
+  const sessionRefunds = refundTotals.find(r => r._id === 'session')?.total || 0;
+  const orderRefunds = refundTotals.find(r => r._id === 'order')?.total || 0;
+
+  const sessionNet = (sessionRevenue[0]?.total || 0) - sessionRefunds;
+  const orderNet = (orderRevenue[0]?.total || 0) - orderRefunds;
+  const packageNet = packageRevenue[0]?.total || 0;
+  const totalRevenue = sessionNet + orderNet + packageNet;
+  const couponDiscountTotal = (reservationCoupons[0]?.total || 0) + (orderCoupons[0]?.total || 0);
+
+  return {
+    totalRevenue,
+    grossRevenue: totalRevenue + couponDiscountTotal,
+    couponDiscountTotal,
+    sessionRevenue: sessionNet,
+    orderRevenue: orderNet,
+    packageRevenue: packageNet,
+    refundTotal: sessionRefunds + orderRefunds,
+  };
+};
+
+const getPaymentMethod = (record: any): string => {
+  const method = record.paymentMethod || (record.paymentStatus === 'offline' ? 'offline' : 'online');
+  return method === 'offline' ? 'Offline' : 'Online';
+};
+
 export const exportRevenueData = async (
   req: Request,
   res: Response,
@@ -13,11 +132,21 @@ export const exportRevenueData = async (
     const { startDate: startDateParam, endDate: endDateParam } = req.query;
     
     const sessionQuery: any = {
-      paymentStatus: { $in: ['paid', 'offline'] },
+      paymentStatus: { $in: REVENUE_PAYMENT_STATUSES },
+      paymentMethod: { $ne: 'package' },
     };
 
     const orderQuery: any = {
-      paymentStatus: { $in: ['paid', 'offline'] },
+      paymentStatus: { $in: REVENUE_PAYMENT_STATUSES },
+    };
+
+    const refundQuery: any = {
+      status: { $ne: 'failed' },
+      method: { $ne: 'package' },
+    };
+
+    const packageQuery: any = {
+      status: 'active',
     };
 
     let start = startDateParam ? new Date(startDateParam as string) : new Date(0);
@@ -29,20 +158,27 @@ export const exportRevenueData = async (
       
       sessionQuery.createdAt = { $gte: start, $lte: end };
       orderQuery.createdAt = { $gte: start, $lte: end };
+      refundQuery.createdAt = { $gte: start, $lte: end };
+      packageQuery.activatedAt = { $gte: start, $lte: end };
     }
 
+    const scoped = await scopeRevenueQueries(
+      { session: sessionQuery, order: orderQuery, refund: refundQuery, package: packageQuery, couponReservation: {} },
+      await getBranchScope(req)
+    );
+
     const pageSize = 100;
     let allSessions: any[] = [];
     let allOrders: any[] = [];
 
-    const sessionCount = await SessionModel.countDocuments(sessionQuery);
-    const orderCount = await FoodOrderModel.countDocuments(orderQuery);
+    const sessionCount = await SessionModel.countDocuments(scoped.session);
+    const orderCount = await FoodOrderModel.countDocuments(scoped.order);
     
     const sessionPages = Math.ceil(sessionCount / pageSize);
     const orderPages = Math.ceil(orderCount / pageSize);
 
     for (let page = 0; page < sessionPages; page++) {
-      const sessions = await SessionModel.find(sessionQuery)
+      const sessions = await SessionModel.find(scoped.session)
         .populate('activityId', 'type name')
         .sort({ createdAt: 1 })
         .skip(page * pageSize)
@@ -52,7 +188,7 @@ export const exportRevenueData = async (
     }
 
     for (let page = 0; page < orderPages; page++) {
-      const orders = await FoodOrderModel.find(orderQuery)
+      const orders = await FoodOrderModel.find(scoped.order)
         .sort({ createdAt: 1 })
         .skip(page * pageSize)
         .limit(pageSize);
@@ -60,6 +196,11 @@ export const exportRevenueData = async (
       allOrders = allOrders.concat(orders);
     }
 
+    const refunds = await RefundModel.find(scoped.refund).sort({ createdAt: 1 });
+    const packagePurchases = await PackagePurchaseModel.find(scoped.package)
+      .populate('activityId', 'type name')
+      .sort({ activatedAt: 1 });
+
     const activityMap = new Map();
     const activityIds = [...new Set(allSessions.map(s => s.activityId?.toString()))];
     const activities = await ActivityModel.find({
@@ -77,7 +218,7 @@ export const exportRevenueData = async (
         customerName: session.customerName || '',
         customerPhone: session.customerPhone || '',
         description: `${session.duration || 0} minutes`,
-        paymentMethod: session.paymentStatus === 'offline' ? 'Offline' : 'Online',
+        paymentMethod: getPaymentMethod(session),
         amount: session.finalAmount || session.amount || 0,
         paymentStatus: session.paymentStatus || '',
       });
@@ -94,13 +235,41 @@ export const exportRevenueData = async (
         category: 'Food & Beverages',
         customerName: order.customerName || '',
         customerPhone: order.customerPhone || '',
-        description: itemsList,
-        paymentMethod: order.paymentStatus === 'offline' ? 'Offline' : 'Online',
+        description: order.couponCode ? `${itemsList} (coupon ${order.couponCode}: -${order.couponDiscount})` : itemsList,
+        paymentMethod: getPaymentMethod(order),
         amount: order.totalAmount || 0,
         paymentStatus: order.paymentStatus || '',
       });
     });
 
+    packagePurchases.forEach((purchase: any) => {
+      csvData.push({
+        date: new Date(purchase.activatedAt).toISOString().split('T')[0],
+        type: 'Prepaid Pack',
+        category: purchase.activityId?.type || 'Unknown',
+        customerName: purchase.customerName || '',
+        customerPhone: purchase.customerPhone || '',
+        description: purchase.name,
+        paymentMethod: 'Online',
+        amount: purchase.price,
+        paymentStatus: 'paid',
+      });
+    });
+
+    refunds.forEach(refund => {
+      csvData.push({
+        date: new Date(refund.createdAt).toISOString().split('T')[0],
+        type: 'Refund',
+        category: refund.category,
+        customerName: refund.customerName || '',
+        customerPhone: refund.customerPhone || '',
+        description: `${refund.entityType === 'session' ? 'Session' : 'Order'} refund (${refund.reasonCode})${refund.notes ? ` - ${refund.notes}` : ''}`,
+        paymentMethod: refund.method === 'cash' ? 'Cash' : 'Online',
+        amount: -refund.amount,
+        paymentStatus: refund.status,
+      });
+    });
+
     csvData.sort((a, b) => {
       const dateA = new Date(a.date);
       const dateB = new Date(b.date);
@@ -131,11 +300,26 @@ export const getRevenueData = async (
     const { startDate, endDate, page = '1', limit = '50' } = req.query;
     
     const sessionQuery: any = {
-      paymentStatus: { $in: ['paid', 'offline'] },
+      paymentStatus: { $in: REVENUE_PAYMENT_STATUSES },
+      paymentMethod: { $ne: 'package' },
     };
 
     const orderQuery: any = {
-      paymentStatus: { $in: ['paid', 'offline'] },
+      paymentStatus: { $in: REVENUE_PAYMENT_STATUSES },
+    };
+
+    const refundQuery: any = {
+      status: { $ne: 'failed' },
+      method: { $ne: 'package' },
+    };
+
+    const packageQuery: any = {
+      status: 'active',
+    };
+
+    const couponReservationQuery: any = {
+      status: 'payment_confirmed',
+      couponDiscount: { $gt: 0 },
     };
 
     // Only apply date filters if both dates are provided
@@ -148,27 +332,53 @@ export const getRevenueData = async (
       
       sessionQuery.createdAt = { $gte: start, $lte: end };
       orderQuery.createdAt = { $gte: start, $lte: end };
+      refundQuery.createdAt = { $gte: start, $lte: end };
+      packageQuery.activatedAt = { $gte: start, $lte: end };
+      couponReservationQuery.createdAt = { $gte: start, $lte: end };
     }
 
     const pageNum = parseInt(page as string, 10);
     const limitNum = parseInt(limit as string, 10);
     const skip = (pageNum - 1) * limitNum;
 
-    const sessionTotal = await SessionModel.countDocuments(sessionQuery);
-    const orderTotal = await FoodOrderModel.countDocuments(orderQuery);
-    const totalRecords = sessionTotal + orderTotal;
+    const scope = await getBranchScope(req);
+    const queries: RevenueQueries = {
+      session: sessionQuery,
+      order: orderQuery,
+      refund: refundQuery,
+      package: packageQuery,
+      couponReservation: couponReservationQuery,
+    };
+    const scoped = await scopeRevenueQueries(queries, scope);
 
-    const sessions = await SessionModel.find(sessionQuery)
+    const sessionTotal = await SessionModel.countDocuments(scoped.session);
+    const orderTotal = await FoodOrderModel.countDocuments(scoped.order);
+    const refundTotal = await RefundModel.countDocuments(scoped.refund);
+    const packageTotal = await PackagePurchaseModel.countDocuments(scoped.package);
+    const totalRecords = sessionTotal + orderTotal + refundTotal + packageTotal;
+
+    const sessions = await SessionModel.find(scoped.session)
       .populate('activityId', 'type name')
       .sort({ createdAt: -1 })
       .limit(limitNum)
       .skip(skip);
 
-    const orders = await FoodOrderModel.find(orderQuery)
+    const orders = await FoodOrderModel.find(scoped.order)
       .sort({ createdAt: -1 })
       .limit(limitNum)
       .skip(skip);
 
+    const refunds = await RefundModel.find(scoped.refund)
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const packagePurchases = await PackagePurchaseModel.find(scoped.package)
+      .populate('activityId', 'type name')
+      .sort({ activatedAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
     const allData = [
       ...sessions.map((s: any) => ({
         id: s._id.toString(),
@@ -180,7 +390,7 @@ export const getRevenueData = async (
         description: `${s.duration || 0} minutes`,
         amount: s.finalAmount || s.amount || 0,
         paymentStatus: s.paymentStatus,
-        paymentMethod: s.paymentStatus === 'offline' ? 'Offline' : 'Online',
+        paymentMethod: getPaymentMethod(s),
       })),
       ...orders.map((o: any) => ({
         id: o._id.toString(),
@@ -192,34 +402,47 @@ export const getRevenueData = async (
         description: `${o.items?.length || 0} items`,
         amount: o.totalAmount || 0,
         paymentStatus: o.paymentStatus,
-        paymentMethod: o.paymentStatus === 'offline' ? 'Offline' : 'Online',
+        paymentMethod: getPaymentMethod(o),
+      })),
+      ...refunds.map(r => ({
+        id: r._id.toString(),
+        date: r.createdAt,
+        type: 'refund',
+        category: r.category,
+        customerName: r.customerName,
+        customerPhone: r.customerPhone,
+        description: `${r.entityType === 'session' ? 'Session' : 'Order'} refund (${r.reasonCode})`,
+        amount: -r.amount,
+        paymentStatus: r.status,
+        paymentMethod: r.method === 'cash' ? 'Cash' : 'Online',
+      })),
+      ...packagePurchases.map((p: any) => ({
+        id: p._id.toString(),
+        date: p.activatedAt,
+        type: 'package',
+        category: p.activityId?.type || 'Unknown',
+        customerName: p.customerName,
+        customerPhone: p.customerPhone,
+        description: p.name,
+        amount: p.price,
+        paymentStatus: 'paid',
+        paymentMethod: 'Online',
       })),
     ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, limitNum);
 
-    const sessionRevenue = await SessionModel.aggregate([
-      { $match: sessionQuery },
-      { $group: { 
-        _id: null, 
-        total: { 
-          $sum: { 
-            $ifNull: ['$finalAmount', { $ifNull: ['$amount', 0] }]
-          }
-        } 
-      } },
-    ]);
-
-    const orderRevenue = await FoodOrderModel.aggregate([
-      { $match: orderQuery },
-      { $group: { 
-        _id: null, 
-        total: { 
-          $sum: { $ifNull: ['$totalAmount', 0] } 
-        } 
-      } },
-    ]);
-
-    const totalRevenue = (sessionRevenue[0]?.total || 0) + (orderRevenue[0]?.total || 0);
+    const totals = await sumRevenue(scoped);
+
+    // Owners looking at every branch also get each branch's own totals
+    let byBranch;
+    if (!scope) {
+      const branches = await BranchModel.find().sort({ name: 1 });
+      byBranch = await Promise.all(branches.map(async (branch) => ({
+        branchId: branch._id.toString(),
+        name: branch.name,
+        ...(await sumRevenue(await scopeRevenueQueries(queries, branch._id.toString()))),
+      })));
+    }
 
     res.json({
       data: allData,
@@ -230,12 +453,13 @@ export const getRevenueData = async (
         pages: Math.ceil(totalRecords / limitNum),
       },
       summary: {
-        totalRevenue,
-        sessionRevenue: sessionRevenue[0]?.total || 0,
-        orderRevenue: orderRevenue[0]?.total || 0,
+        ...totals,
         sessionCount: sessionTotal,
         orderCount: orderTotal,
+        refundCount: refundTotal,
+        packageCount: packageTotal,
       },
+      byBranch,
     });
   } catch (error) {
     next(error);
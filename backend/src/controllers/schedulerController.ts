@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import { getSchedulerStatus } from '../jobs/scheduler.js';
+
+export const getJobStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = await getSchedulerStatus();
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,25 +1,54 @@
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
-import { SessionModel } from '../models/Session.js';
+import { SessionModel, ISession } from '../models/Session.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
 import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
+import { PackagePurchaseModel } from '../models/PackagePurchase.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { calculateActivityPrice, isPeakHour } from '../lib/pricing.js';
-import { processWaitingQueue } from '../lib/queueManager.js';
+import { AuthRequest, CustomerRequest } from '../middleware/auth.js';
+import { branchFilter, findActivity, getBranchScope, inBranchScope } from '../lib/branches.js';
+import { MAX_BOOKING_MINUTES, quoteActivityPrice } from '../lib/pricing.js';
+import { broadcastQueueEstimates, isUnitHeldForOther } from '../lib/queueManager.js';
+import { findUnitConflicts } from '../lib/availability.js';
+import { EXTENSION_HOLD_MINUTES } from '../lib/sessionExtensions.js';
+import { bookedMemberPhone, signedInMemberPhone, syncLoyaltyPoints } from '../lib/loyalty.js';
+import { debitPackage, formatPackagePurchase } from '../lib/packages.js';
+import { normalizePhone } from '../lib/otp.js';
+import { CHECK_IN_OPENS_MINUTES, checkInSession } from '../lib/noShows.js';
+import { moveSessionToUnit } from '../lib/sessionTransfers.js';
+import { POSTPAID_PAYMENT_GRACE_MINUTES, quoteOpenSession, releaseSessionUnit } from '../lib/postpaidSessions.js';
+import { recordMatchResult, releaseMatch } from '../lib/tournaments.js';
+import { recordChallengeResult } from '../lib/ratings.js';
+import { castVote, formatChallengeData, issueVoteLinks } from '../lib/challengeVotes.js';
+import { getLapSummaries } from '../lib/lapTimes.js';
+import { assertSessionActor, sessionActorFrom } from '../lib/sessionAccess.js';
+import {
+  addScoreEvent,
+  assertCanKeepScore,
+  endFrame,
+  formatScoreboard,
+  settleScoreboardOnEnd,
+  startScoreboard,
+  undoScoreEvent,
+} from '../lib/scoreboards.js';
 
 export const createSession = async (
-  req: Request,
+  req: CustomerRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { activityId, unitId, customerName, customerPhone, duration, qrContext } = req.body;
+    const { activityId, unitId, customerName, customerPhone, qrContext, packagePurchaseId } = req.body;
+    const isOpenEnded = req.body.billingMode === 'postpaid';
 
-    let activity;
-    if (mongoose.Types.ObjectId.isValid(activityId)) {
-      activity = await ActivityModel.findById(activityId);
-    } else {
-      activity = await ActivityModel.findOne({ type: activityId });
+    if (packagePurchaseId && req.customer?.phone !== normalizePhone(customerPhone)) {
+      throw new AppError('Sign in with this phone number to pay from a pack', 403);
+    }
+    if (isOpenEnded && packagePurchaseId) {
+      throw new AppError('Open-ended sessions are paid when they finish and cannot use a pack', 400);
     }
+
+    const activity = await findActivity(activityId, await getBranchScope(req));
     
     if (!activity) {
       throw new AppError('Activity not found', 404);
@@ -44,34 +73,71 @@ export const createSession = async (
     if (unit.status !== 'available') {
       throw new AppError('Unit is not available', 400);
     }
+    if (await isUnitHeldForOther(activity._id.toString(), unit._id.toString(), '')) {
+      throw new AppError('This unit is being held for a customer from the waiting queue', 409);
+    }
 
-    if (duration < activity.minimumDuration) {
+    // Open-ended sessions hold the minimum up front and are billed on actual play time when they finish
+    const duration: number = isOpenEnded ? activity.minimumDuration || 1 : req.body.duration;
+    if (!duration || duration < activity.minimumDuration) {
       throw new AppError(
         `Minimum duration is ${activity.minimumDuration} minutes`,
         400
       );
     }
 
-    const peak = isPeakHour();
-    const amount = calculateActivityPrice(activity, duration, peak);
+    // Open-ended sessions are priced when they finish, at the rates this decides
+    const memberPhone = signedInMemberPhone(customerPhone, req.customer?.phone);
+    const amount = isOpenEnded
+      ? 0
+      : (await quoteActivityPrice(activity, duration, new Date(), memberPhone)).total;
 
     const startTime = new Date();
     const endTime = new Date(startTime.getTime() + duration * 60 * 1000);
 
+    const conflicts = await findUnitConflicts(unit._id, startTime, endTime, activity.bufferTime || 0);
+    if (conflicts.length > 0) {
+      throw new AppError(
+        isOpenEnded
+          ? 'Unit is booked soon. Choose another unit.'
+          : 'Unit is booked during this time. Choose a shorter duration or another unit.',
+        409
+      );
+    }
+
     const session = await SessionModel.create({
       activityId: activity._id,
+      branchId: activity.branchId,
       activityType: activity.type,
       unitId: unit._id,
       customerName,
       customerPhone,
       startTime,
-      endTime,
+      ...(!isOpenEnded && { endTime }),
       duration,
+      baseAmount: amount,
       amount,
+      billingMode: isOpenEnded ? 'postpaid' : 'prepaid',
+      memberPricing: !!memberPhone,
       qrContext: qrContext || {},
+      ...(packagePurchaseId && {
+        paymentStatus: 'paid',
+        paymentMethod: 'package',
+        packagePurchaseId,
+      }),
     });
 
+    if (packagePurchaseId) {
+      try {
+        await debitPackage(packagePurchaseId, customerPhone, activity, 'session', session._id, duration, amount);
+      } catch (error) {
+        await SessionModel.deleteOne({ _id: session._id });
+        throw error;
+      }
+    }
+
     await ActivityUnitModel.findByIdAndUpdate(unit._id, { status: 'occupied' });
+    await broadcastQueueEstimates(activity._id.toString());
 
     res.status(201).json({
       id: session._id.toString(),
@@ -88,9 +154,11 @@ export const createSession = async (
       paymentStatus: session.paymentStatus,
       paymentId: session.paymentId,
       razorpayOrderId: session.razorpayOrderId,
+      packagePurchaseId: session.packagePurchaseId?.toString(),
       qrContext: session.qrContext,
       status: session.status,
       extended: session.extended,
+      billingMode: session.billingMode,
     });
   } catch (error) {
     next(error);
@@ -111,6 +179,9 @@ export const getSession = async (
     }
 
     const activity = await ActivityModel.findById(session.activityId);
+    const packagePurchase = session.packagePurchaseId
+      ? await PackagePurchaseModel.findById(session.packagePurchaseId).populate('activityId', 'type name')
+      : null;
     
     res.json({
       id: session._id.toString(),
@@ -130,9 +201,17 @@ export const getSession = async (
       qrContext: session.qrContext,
       status: session.status,
       extended: session.extended,
+      billingMode: session.billingMode || 'prepaid',
       pauseHistory: session.pauseHistory || [],
       totalPausedDuration: session.totalPausedDuration || 0,
       currentPauseStart: session.currentPauseStart,
+      checkInDeadline: session.checkInDeadline,
+      checkedInAt: session.checkedInAt,
+      transferHistory: session.transferHistory || [],
+      isChallengeSession: session.isChallengeSession || false,
+      challengeData: formatChallengeData(session.challengeData),
+      packagePurchase: packagePurchase ? formatPackagePurchase(packagePurchase) : undefined,
+      scoreboard: session.scoreboard ? formatScoreboard(session.scoreboard) : undefined,
     });
   } catch (error) {
     next(error);
@@ -146,7 +225,14 @@ export const getActiveSessions = async (
 ): Promise<void> => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
-    const sessions = await SessionModel.find({ status: { $in: ['active', 'paused', 'scheduled'] } })
+    const sessions = await SessionModel.find({
+      ...branchFilter(await getBranchScope(req)),
+      $or: [
+        { status: { $in: ['active', 'paused', 'scheduled', 'awaiting_payment'] } },
+        // Finished challenges stay on the board until their winner is picked
+        { isChallengeSession: true, status: 'ended', 'challengeData.winner': { $exists: false } },
+      ],
+    })
       .populate('activityId')
       .populate('unitId')
       .sort({ startTime: -1 })
@@ -177,10 +263,19 @@ export const getActiveSessions = async (
         qrContext: s.qrContext,
         status: s.status,
         extended: s.extended,
+        billingMode: s.billingMode || 'prepaid',
         pauseHistory: s.pauseHistory || [],
         totalPausedDuration: s.totalPausedDuration || 0,
         currentPauseStart: s.currentPauseStart,
         reservationId: s.reservationId?.toString(),
+        groupBookingId: s.groupBookingId?.toString(),
+        checkInDeadline: s.checkInDeadline,
+        checkedInAt: s.checkedInAt,
+        paymentDueBy: s.paymentDueBy,
+        paymentOverdueAt: s.paymentOverdueAt,
+        transferHistory: s.transferHistory || [],
+        isChallengeSession: s.isChallengeSession || false,
+        challengeData: formatChallengeData(s.challengeData),
       };
     }));
   } catch (error) {
@@ -198,7 +293,7 @@ export const getAllSessions = async (
     const offset = parseInt(req.query.offset as string) || 0;
     const status = req.query.status as string;
     
-    const query: any = {};
+    const query: any = branchFilter(await getBranchScope(req));
     if (status) {
       query.status = status;
     } else {
@@ -235,14 +330,23 @@ export const getAllSessions = async (
         amount: s.amount || 0,
         finalAmount: s.finalAmount,
         paymentStatus: s.paymentStatus,
+        refundedAmount: s.refundedAmount || 0,
         paymentId: s.paymentId,
         razorpayOrderId: s.razorpayOrderId,
         qrContext: s.qrContext,
         status: s.status,
         extended: s.extended,
+        billingMode: s.billingMode || 'prepaid',
         pauseHistory: s.pauseHistory || [],
         totalPausedDuration: s.totalPausedDuration || 0,
         currentPauseStart: s.currentPauseStart,
+        groupBookingId: s.groupBookingId?.toString(),
+        checkedInAt: s.checkedInAt,
+        paymentDueBy: s.paymentDueBy,
+        paymentOverdueAt: s.paymentOverdueAt,
+        transferHistory: s.transferHistory || [],
+        isChallengeSession: s.isChallengeSession || false,
+        challengeData: formatChallengeData(s.challengeData),
         createdAt: s.createdAt,
         updatedAt: s.updatedAt,
       })),
@@ -256,7 +360,7 @@ export const getAllSessions = async (
 };
 
 export const extendSession = async (
-  req: Request,
+  req: AuthRequest & CustomerRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
@@ -267,51 +371,230 @@ export const extendSession = async (
     if (!additionalMinutes || additionalMinutes < 1) {
       throw new AppError('Additional minutes must be at least 1', 400);
     }
+    if (additionalMinutes > MAX_BOOKING_MINUTES) {
+      throw new AppError(`A session can be extended by at most ${MAX_BOOKING_MINUTES} minutes`, 400);
+    }
 
     const session = await SessionModel.findById(id);
     if (!session) {
       throw new AppError('Session not found', 404);
     }
+    assertSessionActor(session, sessionActorFrom(req), 'extend this session');
 
     if (session.status !== 'active') {
       throw new AppError('Session is not active', 400);
     }
 
+    if (session.groupBookingId) {
+      throw new AppError('Group booking sessions run on a shared clock and cannot be extended', 400);
+    }
+
+    if (!session.endTime) {
+      throw new AppError('Open-ended sessions run until they are ended and cannot be extended', 400);
+    }
+
     const activity = await ActivityModel.findById(session.activityId);
     if (!activity) {
       throw new AppError('Activity not found', 404);
     }
 
-    const peak = isPeakHour();
-    const additionalAmount = calculateActivityPrice(activity, additionalMinutes, peak);
+    // Replace any unpaid request the customer abandoned; one awaiting cash approval must be settled first
+    const awaitingApproval = await SessionExtensionModel.findOne({
+      sessionId: session._id,
+      status: 'pending_approval',
+    });
+    if (awaitingApproval) {
+      throw new AppError('An extension for this session is already awaiting approval', 409);
+    }
+
+    await SessionExtensionModel.updateMany(
+      { sessionId: session._id, status: 'pending_payment' },
+      { status: 'cancelled' }
+    );
+
+    const extensionStart = session.endTime;
+    const extensionEnd = new Date(extensionStart.getTime() + additionalMinutes * 60 * 1000);
+
+    const conflicts = (await findUnitConflicts(
+      session.unitId,
+      extensionStart,
+      extensionEnd,
+      activity.bufferTime || 0,
+      session.reservationId?.toString()
+    )).filter(conflict => conflict.id !== session._id.toString());
+
+    if (conflicts.length > 0) {
+      throw new AppError('The unit is booked right after this session. Choose a shorter extension.', 409);
+    }
+
+    const quote = await quoteActivityPrice(activity, additionalMinutes, extensionStart, bookedMemberPhone(session));
+    const additionalAmount = quote.total;
 
-    const newEndTime = new Date(session.endTime.getTime() + additionalMinutes * 60 * 1000);
-    const newDuration = session.duration + additionalMinutes;
+    const extension = await SessionExtensionModel.create({
+      sessionId: session._id,
+      activityId: activity._id,
+      unitId: session.unitId,
+      customerName: session.customerName,
+      customerPhone: session.customerPhone,
+      additionalMinutes,
+      amount: additionalAmount,
+      priceBreakdown: quote.lineItems,
+      startTime: extensionStart,
+      endTime: extensionEnd,
+      status: 'pending_payment',
+      expiresAt: new Date(Date.now() + EXTENSION_HOLD_MINUTES * 60000),
+    });
 
-    const extendedSession = await SessionModel.findByIdAndUpdate(
+    res.status(201).json({
+      extension: {
+        id: extension._id.toString(),
+        sessionId: session._id.toString(),
+        additionalMinutes: extension.additionalMinutes,
+        amount: extension.amount,
+        priceBreakdown: extension.priceBreakdown,
+        status: extension.status,
+        expiresAt: extension.expiresAt,
+      },
+      additionalAmount,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Close out a running or paused session: bill the time actually used, free
+ * the unit and hand it to the waiting queue. Open-ended sessions keep the
+ * unit until their bill is paid.
+ */
+const finishSession = async (
+  session: ISession
+): Promise<{ endedSession: ISession; actualUsageMinutes: number }> => {
+  const id = session._id.toString();
+
+  let finalTotalPausedDuration = session.totalPausedDuration || 0;
+  if (session.currentPauseStart && session.status === 'paused') {
+    const pauseEnd = new Date();
+    const pauseDuration = Math.round(
+      (pauseEnd.getTime() - session.currentPauseStart.getTime()) / (1000 * 60)
+    );
+    finalTotalPausedDuration += pauseDuration;
+
+    if (session.pauseHistory && session.pauseHistory.length > 0) {
+      const lastPause = session.pauseHistory[session.pauseHistory.length - 1];
+      lastPause.endTime = pauseEnd;
+      lastPause.duration = pauseDuration;
+    }
+  }
+
+  const actualEndTime = new Date();
+  const actualStartTime = session.actualStartTime || session.startTime;
+  const totalElapsedMinutes = Math.round(
+    (actualEndTime.getTime() - actualStartTime.getTime()) / (1000 * 60)
+  );
+  const actualUsageMinutes = totalElapsedMinutes - finalTotalPausedDuration;
+
+  if (session.billingMode === 'postpaid') {
+    const activity = await ActivityModel.findById(session.activityId);
+    if (!activity) {
+      throw new AppError('Activity not found', 404);
+    }
+    const { billedMinutes, quote } = await quoteOpenSession(session, activity, actualUsageMinutes);
+
+    const billedSession = await SessionModel.findByIdAndUpdate(
       id,
       {
         $set: {
-          endTime: newEndTime,
-          duration: newDuration,
-          extended: true,
+          status: 'awaiting_payment',
+          endTime: actualEndTime,
+          actualEndTime: actualEndTime,
+          paymentDueBy: new Date(actualEndTime.getTime() + POSTPAID_PAYMENT_GRACE_MINUTES * 60000),
+          duration: billedMinutes,
+          durationMinutes: billedMinutes,
+          baseAmount: quote.total,
+          amount: quote.total,
+          finalAmount: quote.total,
+          totalPausedDuration: finalTotalPausedDuration,
+          currentPauseStart: undefined,
         },
       },
       { new: true }
     );
 
-    res.json({
-      session: {
-        id: extendedSession!._id.toString(),
-        endTime: extendedSession!.endTime,
-        duration: extendedSession!.duration,
-        extended: extendedSession!.extended,
+    const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+    const billData = {
+      session_id: id,
+      status: billedSession!.status,
+      finalAmount: billedSession!.finalAmount,
+      priceBreakdown: quote.lineItems,
+      totalPausedDuration: billedSession!.totalPausedDuration,
+      actualUsageMinutes,
+      billedMinutes,
+      actualEndTime: billedSession!.actualEndTime,
+      paymentDueBy: billedSession!.paymentDueBy,
+      message: `Time's up. Please pay ₹${quote.total} to finish.`,
+    };
+    notifyCustomerById(id, 'session', 'session_payment_due', billData);
+
+    const io = getIO();
+    if (io) {
+      io.of('/admin').emit('session_payment_due', billData);
+    }
+
+    return { endedSession: billedSession!, actualUsageMinutes };
+  }
+
+  let finalAmount = session.amount || 0;
+
+  if (!session.isChallengeSession) {
+    const activity = await ActivityModel.findById(session.activityId);
+    
+    if (activity && actualUsageMinutes < session.duration) {
+      const quote = await quoteActivityPrice(activity, actualUsageMinutes, actualStartTime, bookedMemberPhone(session));
+      finalAmount = quote.total;
+    } else {
+      finalAmount = session.amount || 0;
+    }
+  }
+
+  const endedSession = await SessionModel.findByIdAndUpdate(
+    id,
+    {
+      $set: {
+        status: 'ended',
+        endTime: actualEndTime,
+        actualEndTime: actualEndTime,
+        finalAmount: finalAmount,
+        totalPausedDuration: finalTotalPausedDuration,
+        currentPauseStart: undefined,
       },
-      additionalAmount,
-    });
-  } catch (error) {
-    next(error);
+    },
+    { new: true }
+  );
+
+  await syncLoyaltyPoints('session', endedSession!);
+  await releaseSessionUnit(session);
+
+  const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+  const io = getIO();
+  if (io) {
+    const sessionData = {
+      session_id: id,
+      status: endedSession!.status,
+      finalAmount: endedSession!.finalAmount,
+      totalAmount: session.amount,
+      totalPausedDuration: endedSession!.totalPausedDuration,
+      actualUsageMinutes,
+      actualEndTime: endedSession!.actualEndTime,
+      message: 'Session ended successfully',
+    };
+
+    notifyCustomerById(id, 'session', 'session_ended', sessionData);
+
+    io.of('/admin').emit('session_ended', sessionData);
   }
+
+  return { endedSession: endedSession!, actualUsageMinutes };
 };
 
 export const endSession = async (
@@ -322,14 +605,27 @@ export const endSession = async (
   try {
     const { id } = req.params;
     const session = await SessionModel.findById(id);
+    // Customers end their own session from anywhere; staff only within their branch
+    const scope = (req as AuthRequest).user ? await getBranchScope(req) : null;
 
-    if (!session) {
+    if (!session || !inBranchScope(session.branchId, scope)) {
       throw new AppError('Session not found', 404);
     }
 
+    if (session.status === 'awaiting_payment') {
+      throw new AppError('This session has ended and is waiting for payment', 400);
+    }
+    if (session.billingMode === 'postpaid' && !['active', 'paused'].includes(session.status)) {
+      throw new AppError('Session has already ended', 400);
+    }
+
+    // A scored match decides the challenge winner by frames won
+    await settleScoreboardOnEnd(session);
+
     if (session.isChallengeSession && session.challengeData && !session.challengeData.winner) {
       session.status = 'ended';
       await session.save();
+      await releaseMatch(session);
       
       const { getIO } = await import('../websocket/server.js');
       const io = getIO();
@@ -353,92 +649,30 @@ export const endSession = async (
       return;
     }
 
-    let finalTotalPausedDuration = session.totalPausedDuration || 0;
-    if (session.currentPauseStart && session.status === 'paused') {
-      const pauseEnd = new Date();
-      const pauseDuration = Math.round(
-        (pauseEnd.getTime() - session.currentPauseStart.getTime()) / (1000 * 60)
-      );
-      finalTotalPausedDuration += pauseDuration;
-
-      if (session.pauseHistory && session.pauseHistory.length > 0) {
-        const lastPause = session.pauseHistory[session.pauseHistory.length - 1];
-        lastPause.endTime = pauseEnd;
-        lastPause.duration = pauseDuration;
-      }
-    }
-
-    const actualEndTime = new Date();
-    const actualStartTime = session.actualStartTime || session.startTime;
-    const totalElapsedMinutes = Math.round(
-      (actualEndTime.getTime() - actualStartTime.getTime()) / (1000 * 60)
-    );
-    const actualUsageMinutes = totalElapsedMinutes - finalTotalPausedDuration;
-
-    let finalAmount = session.amount || 0;
+    const { endedSession, actualUsageMinutes } = await finishSession(session);
 
-    if (!session.isChallengeSession) {
-      const activity = await ActivityModel.findById(session.activityId);
-      
-      if (activity && actualUsageMinutes < session.duration) {
-        const peak = isPeakHour(actualStartTime);
-        finalAmount = calculateActivityPrice(activity, actualUsageMinutes, peak);
-      } else {
-        finalAmount = session.amount || 0;
+    // Group bookings share one window, so the rest of the group ends too
+    if (session.groupBookingId) {
+      const groupSessions = await SessionModel.find({
+        groupBookingId: session.groupBookingId,
+        _id: { $ne: session._id },
+        status: { $in: ['active', 'paused'] },
+      });
+      for (const groupSession of groupSessions) {
+        await finishSession(groupSession);
       }
     }
 
-    const endedSession = await SessionModel.findByIdAndUpdate(
-      id,
-      {
-        $set: {
-          status: 'ended',
-          endTime: actualEndTime,
-          actualEndTime: actualEndTime,
-          finalAmount: finalAmount,
-          totalPausedDuration: finalTotalPausedDuration,
-          currentPauseStart: undefined,
-        },
-      },
-      { new: true }
-    );
-
-    await ActivityUnitModel.findByIdAndUpdate(session.unitId, { status: 'available' });
-
-    const { redisUtils } = await import('../config/redis.js');
-    await redisUtils.delete(`session:${id}`);
-
-    try {
-      await processWaitingQueue(session.activityId.toString());
-    } catch (error) {
-      console.error('Error processing waiting queue:', error);
-    }
-
-    const { getIO, notifyCustomerById } = await import('../websocket/server.js');
-    const io = getIO();
-    if (io) {
-      const sessionData = {
-        session_id: id,
-        status: endedSession!.status,
-        finalAmount: endedSession!.finalAmount,
-        totalAmount: session.amount,
-        totalPausedDuration: endedSession!.totalPausedDuration,
-        actualUsageMinutes,
-        actualEndTime: endedSession!.actualEndTime,
-        message: 'Session ended successfully',
-      };
-
-      notifyCustomerById(id, 'session', 'session_ended', sessionData);
-
-      io.of('/admin').emit('session_ended', sessionData);
-    }
-
     res.json({
-      id: endedSession!._id.toString(),
-      status: endedSession!.status,
-      finalAmount: endedSession!.finalAmount,
-      totalPausedDuration: endedSession!.totalPausedDuration,
+      id: endedSession._id.toString(),
+      status: endedSession.status,
+      finalAmount: endedSession.finalAmount,
+      totalPausedDuration: endedSession.totalPausedDuration,
       actualUsageMinutes,
+      ...(endedSession.status === 'awaiting_payment' && {
+        billedMinutes: endedSession.duration,
+        amountDue: endedSession.finalAmount,
+      }),
     });
   } catch (error) {
     next(error);
@@ -446,21 +680,30 @@ export const endSession = async (
 };
 
 export const getSessionsByPhone = async (
-  req: Request,
+  req: CustomerRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { phone } = req.params;
+    const phone = req.params.phone.replace(/\D/g, '');
+    if (phone !== req.customer!.phone) {
+      throw new AppError('You can only view your own bookings', 403);
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
     const sessions = await SessionModel.find({ customerPhone: phone })
+      .populate('activityId', 'name')
       .sort({ createdAt: -1 })
-      .limit(10);
+      .limit(limit);
+    const laps = await getLapSummaries(sessions.filter(s => s.activityType === 'racing').map(s => s._id));
 
     res.json(sessions.map(s => ({
       id: s._id.toString(),
-      activityId: s.activityId.toString(),
+      activityId: (s.activityId as any)?._id?.toString() || s.activityId?.toString(),
+      activityName: (s.activityId as any)?.name,
       activityType: s.activityType,
       unitId: s.unitId.toString(),
+      reservationId: s.reservationId?.toString(),
       customerName: s.customerName,
       customerPhone: s.customerPhone,
       startTime: s.startTime,
@@ -468,13 +711,139 @@ export const getSessionsByPhone = async (
       duration: s.duration,
       amount: s.amount,
       paymentStatus: s.paymentStatus,
+      paymentMethod: s.paymentMethod,
+      billingMode: s.billingMode || 'prepaid',
       status: s.status,
+      checkInDeadline: s.checkInDeadline,
+      checkedInAt: s.checkedInAt,
+      laps: laps.get(s._id.toString()),
+      createdAt: s.createdAt,
     })));
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Staff tap to mark a booked customer as arrived
+ */
+export const checkIn = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await SessionModel.findById(req.params.id)
+      : null;
+    if (!session || !inBranchScope(session.branchId, await getBranchScope(req))) {
+      throw new AppError('Session not found', 404);
+    }
+
+    const checkedIn = await checkInSession(session, 'staff');
+
+    res.json({
+      id: checkedIn._id.toString(),
+      status: checkedIn.status,
+      startTime: checkedIn.startTime,
+      checkedInAt: checkedIn.checkedInAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Customer check-in by scanning the QR code on a unit
+ */
+export const checkInAtUnit = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { unitId } = req.body;
+    if (!mongoose.Types.ObjectId.isValid(unitId)) {
+      throw new AppError('Unit not found', 404);
+    }
+
+    const opensBy = new Date(Date.now() + CHECK_IN_OPENS_MINUTES * 60000);
+    const session = await SessionModel.findOne({
+      unitId,
+      customerPhone: req.customer!.phone,
+      status: { $in: ['scheduled', 'active'] },
+      checkedInAt: { $exists: false },
+      checkInDeadline: { $gt: new Date() },
+      startTime: { $lte: opensBy },
+    }).sort({ startTime: 1 });
+
+    if (!session) {
+      throw new AppError('No booking to check in for on this unit right now', 404);
+    }
+
+    const checkedIn = await checkInSession(session, 'customer');
+
+    res.json({
+      id: checkedIn._id.toString(),
+      status: checkedIn.status,
+      startTime: checkedIn.startTime,
+      endTime: checkedIn.endTime,
+      checkedInAt: checkedIn.checkedInAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Move a running session to another unit when its table or console breaks
+ */
+export const transferSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { unitId, reason, waiveDifference } = req.body;
+
+    const session = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await SessionModel.findById(req.params.id)
+      : null;
+    if (!session || !inBranchScope(session.branchId, await getBranchScope(req))) {
+      throw new AppError('Session not found', 404);
+    }
+    if (!unitId) {
+      throw new AppError('unitId is required', 400);
+    }
+
+    const { session: moved, priceDifference, remainingMinutes } = await moveSessionToUnit(session, unitId, {
+      reason,
+      waiveDifference: !!waiveDifference,
+      transferredBy: req.user?.id,
+    });
+
+    const alreadyPaid = ['paid', 'offline'].includes(moved.paymentStatus);
+
+    res.json({
+      id: moved._id.toString(),
+      activityId: moved.activityId.toString(),
+      activityType: moved.activityType,
+      unitId: moved.unitId.toString(),
+      status: moved.status,
+      endTime: moved.endTime,
+      amount: moved.amount,
+      remainingMinutes,
+      priceDifference,
+      // What to collect or hand back at the counter for a session that was already paid
+      amountDue: alreadyPaid && priceDifference > 0 ? priceDifference : 0,
+      amountToRefund: alreadyPaid && priceDifference < 0 ? -priceDifference : 0,
+      transferHistory: moved.transferHistory,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const createChallengeSession = async (
   req: Request,
   res: Response,
@@ -495,12 +864,7 @@ export const createChallengeSession = async (
       throw new AppError('Duration must be between 15 minutes and 8 hours', 400);
     }
 
-    let activity;
-    if (mongoose.Types.ObjectId.isValid(activityId)) {
-      activity = await ActivityModel.findById(activityId);
-    } else {
-      activity = await ActivityModel.findOne({ type: activityId });
-    }
+    const activity = await findActivity(activityId, await getBranchScope(req));
     
     if (!activity) {
       throw new AppError('Activity not found', 404);
@@ -515,8 +879,7 @@ export const createChallengeSession = async (
       throw new AppError('No available units for this activity', 400);
     }
 
-    const peak = isPeakHour();
-    const amountPerPlayer = calculateActivityPrice(activity, duration, peak);
+    const { total: amountPerPlayer } = await quoteActivityPrice(activity, duration);
     const totalAmount = amountPerPlayer * players.length;
 
     const startTime = new Date();
@@ -524,6 +887,7 @@ export const createChallengeSession = async (
 
     const session = new SessionModel({
       activityId: activity._id,
+      branchId: activity.branchId,
       activityType: activityType,
       unitId: availableUnit._id,
       customerName: customerName || players[0].name,
@@ -554,6 +918,7 @@ export const createChallengeSession = async (
     });
 
     await session.save();
+    const voteLinks = await issueVoteLinks(session);
 
     await ActivityUnitModel.findByIdAndUpdate(availableUnit._id, { status: 'occupied' });
 
@@ -578,6 +943,8 @@ export const createChallengeSession = async (
     res.status(201).json({
       id: session._id.toString(),
       ...session.toObject(),
+      challengeData: formatChallengeData(session.challengeData),
+      voteLinks,
     });
   } catch (error) {
     next(error);
@@ -591,88 +958,47 @@ export const voteWinner = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { winnerName, voterName } = req.body;
-
-    const session = await SessionModel.findById(id);
-    if (!session) {
-      throw new AppError('Session not found', 404);
-    }
-
-    if (!session.isChallengeSession || !session.challengeData) {
-      throw new AppError('This is not a challenge session', 400);
-    }
-
-    if (session.status !== 'ended' && session.status !== 'completed') {
-      throw new AppError('Session must be ended before voting', 400);
-    }
-
-    const challengeData = session.challengeData;
-    const playerIndex = challengeData.players.findIndex((p: any) => p.name === voterName);
-    
-    if (playerIndex === -1) {
-      throw new AppError('Voter not found in players list', 400);
-    }
+    const { token, winnerName } = req.body;
 
-    challengeData.players[playerIndex].hasVoted = true;
-    challengeData.players[playerIndex].voteFor = winnerName;
-
-    const allVoted = challengeData.players.every((p: any) => p.hasVoted);
-    
-    if (allVoted) {
-      const voteCounts: Record<string, number> = {};
-      challengeData.players.forEach((p: any) => {
-        if (p.voteFor) {
-          voteCounts[p.voteFor] = (voteCounts[p.voteFor] || 0) + 1;
-        }
-      });
-
-      let maxVotes = 0;
-      let winner = '';
-      Object.entries(voteCounts).forEach(([name, votes]) => {
-        if (votes > maxVotes) {
-          maxVotes = votes;
-          winner = name;
-        }
-      });
-
-      if (winner) {
-        challengeData.winner = winner;
-        challengeData.winnerSelectedBy = 'players';
-        challengeData.winnerSelectedAt = new Date();
-
-        challengeData.players.forEach((p: any) => {
-          p.isWinner = p.name === winner;
-        });
-      }
+    const { session, voter, allVoted, disputed, decided } = await castVote(id, token, winnerName);
+    const challengeData = session.challengeData!;
+    if (decided) {
+      await recordMatchResult(session);
+      await recordChallengeResult(session);
     }
 
-    session.challengeData = challengeData;
-    await session.save();
-
     const { getIO } = await import('../websocket/server.js');
     const io = getIO();
     if (io) {
-      io.of('/customer').to(`session:${id}`).emit('winner_voted', {
-        session_id: id,
-        voter: voterName,
-        winner: winnerName,
-        allVoted,
-        selectedWinner: challengeData.winner,
-      });
-      
-      io.of('/admin').emit('winner_voted', {
+      const payload = {
         session_id: id,
-        voter: voterName,
+        voter,
         winner: winnerName,
         allVoted,
         selectedWinner: challengeData.winner,
-      });
+        disputed: challengeData.disputed || false,
+      };
+      io.of('/customer').to(`session:${id}`).emit('winner_voted', payload);
+      io.of('/admin').emit('winner_voted', payload);
+
+      if (disputed) {
+        const disputePayload = { session_id: id, message: "The players' votes don't agree. Staff will pick the winner." };
+        io.of('/customer').to(`session:${id}`).emit('challenge_disputed', disputePayload);
+        io.of('/admin').emit('challenge_disputed', disputePayload);
+      }
+      if (decided) {
+        const winnerPayload = { session_id: id, winner: challengeData.winner, selectedBy: 'players' };
+        io.of('/customer').to(`session:${id}`).emit('winner_selected', winnerPayload);
+        io.of('/admin').emit('winner_selected', winnerPayload);
+      }
     }
 
     res.json({
       id: session._id.toString(),
-      challengeData: session.challengeData,
+      challengeData: formatChallengeData(challengeData),
+      voter,
       allVoted,
+      disputed: challengeData.disputed || false,
       winner: challengeData.winner,
     });
   } catch (error) {
@@ -690,7 +1016,7 @@ export const selectWinner = async (
     const { winnerName, selectedBy = 'admin' } = req.body;
 
     const session = await SessionModel.findById(id);
-    if (!session) {
+    if (!session || !inBranchScope(session.branchId, await getBranchScope(req))) {
       throw new AppError('Session not found', 404);
     }
 
@@ -712,6 +1038,9 @@ export const selectWinner = async (
     challengeData.winner = winnerName;
     challengeData.winnerSelectedBy = selectedBy;
     challengeData.winnerSelectedAt = new Date();
+    if (challengeData.disputed && !challengeData.disputeResolvedAt) {
+      challengeData.disputeResolvedAt = new Date();
+    }
 
     challengeData.players.forEach((p: any) => {
       p.isWinner = p.name === winnerName;
@@ -719,6 +1048,8 @@ export const selectWinner = async (
 
     session.challengeData = challengeData;
     await session.save();
+    await recordMatchResult(session);
+    await recordChallengeResult(session);
 
     const { getIO } = await import('../websocket/server.js');
     const io = getIO();
@@ -738,7 +1069,7 @@ export const selectWinner = async (
 
     res.json({
       id: session._id.toString(),
-      challengeData: session.challengeData,
+      challengeData: formatChallengeData(session.challengeData),
       winner: winnerName,
     });
   } catch (error) {
@@ -746,6 +1077,68 @@ export const selectWinner = async (
   }
 };
 
+type ScorerRequest = AuthRequest & CustomerRequest;
+
+export const startScoring = async (
+  req: ScorerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await assertCanKeepScore(req.params.id, sessionActorFrom(req));
+    const session = await startScoreboard(req.params.id, req.body.players, req.body.bestOf);
+    res.status(201).json(formatScoreboard(session.scoreboard!));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const recordScore = async (
+  req: ScorerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await assertCanKeepScore(req.params.id, sessionActorFrom(req));
+    const { type, player, points } = req.body;
+    const session = await addScoreEvent(req.params.id, type, player, points);
+    res.json(formatScoreboard(session.scoreboard!));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const undoScore = async (
+  req: ScorerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await assertCanKeepScore(req.params.id, sessionActorFrom(req));
+    const session = await undoScoreEvent(req.params.id);
+    res.json(formatScoreboard(session.scoreboard!));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const endScoreFrame = async (
+  req: ScorerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await assertCanKeepScore(req.params.id, sessionActorFrom(req));
+    const session = await endFrame(req.params.id, req.body.winner);
+    res.json({
+      ...formatScoreboard(session.scoreboard!),
+      challengeWinner: session.challengeData?.winner,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const pauseSession = async (
   req: Request,
   res: Response,
@@ -768,6 +1161,10 @@ export const pauseSession = async (
       throw new AppError('Session is already paused', 400);
     }
 
+    if (session.groupBookingId) {
+      throw new AppError('Group booking sessions run on a shared clock and cannot be paused', 400);
+    }
+
     const pauseStart = new Date();
     session.currentPauseStart = pauseStart;
     session.status = 'paused';
@@ -782,6 +1179,7 @@ export const pauseSession = async (
     });
 
     const updatedSession = await session.save();
+    await broadcastQueueEstimates(session.activityId.toString());
 
     const { getIO, notifyCustomerById } = await import('../websocket/server.js');
     notifyCustomerById(id, 'session', 'session_paused', {
@@ -856,13 +1254,35 @@ export const resumeSession = async (
 
     session.totalPausedDuration = (session.totalPausedDuration || 0) + pauseDuration;
 
-    const newEndTime = new Date(session.endTime.getTime() + pauseDuration * 60 * 1000);
-    
     session.status = 'active';
     session.currentPauseStart = undefined;
-    session.endTime = newEndTime;
+    let cutShortMinutes = 0;
+    if (session.endTime) {
+      const pausedEnd = new Date(session.endTime.getTime() + pauseDuration * 60 * 1000);
+
+      // The break can't push the session into the next booking on the unit, so it ends in time for it
+      const activity = await ActivityModel.findById(session.activityId);
+      const bufferMinutes = activity?.bufferTime || 0;
+      const ownExtensionIds = (await SessionExtensionModel.find({ sessionId: session._id }).select('_id'))
+        .map(extension => extension._id.toString());
+      const nextBookingStart = (await findUnitConflicts(
+        session.unitId,
+        session.endTime,
+        pausedEnd,
+        bufferMinutes,
+        session.reservationId?.toString()
+      ))
+        .filter(conflict => conflict.id !== session._id.toString() && !ownExtensionIds.includes(conflict.id))
+        .reduce((earliest, conflict) => Math.min(earliest, conflict.start.getTime()), Infinity);
+
+      const latestEnd = Math.max(session.endTime.getTime(), nextBookingStart - bufferMinutes * 60000);
+      const endTime = Math.min(pausedEnd.getTime(), latestEnd);
+      cutShortMinutes = Math.round((pausedEnd.getTime() - endTime) / 60000);
+      session.endTime = new Date(endTime);
+    }
 
     const updatedSession = await session.save();
+    await broadcastQueueEstimates(session.activityId.toString());
 
     const { getIO, notifyCustomerById } = await import('../websocket/server.js');
     notifyCustomerById(id, 'session', 'session_resumed', {
@@ -873,6 +1293,10 @@ export const resumeSession = async (
       pauseHistory: updatedSession.pauseHistory,
       resumedBy: resumedBy,
       pauseDuration: pauseDuration,
+      cutShortMinutes,
+      ...(cutShortMinutes > 0 && {
+        message: `The unit is booked after you, so the break could only add ${pauseDuration - cutShortMinutes} of its ${pauseDuration} min back.`,
+      }),
       timestamp: new Date().toISOString(),
     });
 
@@ -889,13 +1313,15 @@ export const resumeSession = async (
         timestamp: new Date().toISOString(),
       });
 
-      const remaining = Math.max(0, Math.floor((updatedSession.endTime.getTime() - Date.now()) / 1000));
+      const remaining = updatedSession.endTime
+        ? Math.max(0, Math.floor((updatedSession.endTime.getTime() - Date.now()) / 1000))
+        : null;
       const elapsed = Math.floor((Date.now() - new Date(updatedSession.startTime).getTime()) / 1000) - (updatedSession.totalPausedDuration * 60);
       io.of('/customer').to(`session:${id}`).emit('timer_update', {
         session_id: id,
         elapsed_seconds: elapsed,
         remaining_seconds: remaining,
-        new_end_time: updatedSession.endTime.toISOString(),
+        new_end_time: updatedSession.endTime?.toISOString(),
         timestamp: Date.now(),
       });
     }
@@ -906,6 +1332,7 @@ export const resumeSession = async (
       endTime: updatedSession.endTime,
       totalPausedDuration: updatedSession.totalPausedDuration,
       pauseHistory: updatedSession.pauseHistory,
+      cutShortMinutes,
     });
   } catch (error) {
     next(error);
@@ -921,11 +1348,12 @@ export const deleteSession = async (
     const { id } = req.params;
     const session = await SessionModel.findById(id);
 
-    if (!session) {
+    if (!session || !inBranchScope(session.branchId, await getBranchScope(req))) {
       throw new AppError('Session not found', 404);
     }
 
     await SessionModel.findByIdAndDelete(id);
+    await releaseMatch(session);
 
     const { redisUtils } = await import('../config/redis.js');
     await redisUtils.delete(`session:${id}`);
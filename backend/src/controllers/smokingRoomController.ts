@@ -0,0 +1,135 @@
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest, CustomerRequest } from '../middleware/auth.js';
+import { getBranchScope } from '../lib/branches.js';
+import { parseBookingDate } from '../lib/availability.js';
+import { ISmokingRoomVisit, SmokingRoomVisitModel } from '../models/SmokingRoomVisit.js';
+import {
+  announceRoomStatus,
+  checkOutVisit,
+  describeVisit,
+  enterRoom,
+  exitRoom,
+  getAgeConfirmations as listAgeConfirmations,
+  getOpenVisit,
+  getRoomStatus,
+  getSmokingRoom,
+  ownsVisit,
+  VisitActor,
+} from '../lib/smokingRoom.js';
+
+const OCCUPANT_ORDER: Record<string, number> = { inside: 0, called: 1, waiting: 2 };
+
+// The customer behind a request that went through identifyCustomer, and the visit token their phone holds
+const visitActorFrom = (req: CustomerRequest): VisitActor => ({
+  phone: req.customer?.phone,
+  visitToken: req.get('X-Visit-Token'),
+});
+
+export const getRoom = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const activity = await getSmokingRoom(await getBranchScope(req));
+    const phone = req.query.phone as string | undefined;
+    const visit = phone ? await getOpenVisit(activity, phone) : null;
+
+    res.json({
+      ...await getRoomStatus(activity),
+      // Only the visit's own phone or customer gets to see it
+      visit: visit && ownsVisit(visit, visitActorFrom(req)) ? await describeVisit(visit) : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const enter = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const activity = await getSmokingRoom(await getBranchScope(req));
+    const { visit, visitToken } = await enterRoom(activity, req.body.phone, visitActorFrom(req), req.body.name);
+    const status = await announceRoomStatus(activity);
+
+    res.status(201).json({ ...status, visit: await describeVisit(visit), visitToken });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const exit = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const activity = await getSmokingRoom(await getBranchScope(req));
+    const visit = await exitRoom(activity, req.body.phone, visitActorFrom(req));
+    const status = await announceRoomStatus(activity);
+
+    res.json({ ...status, visit: await describeVisit(visit) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getOccupants = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const activity = await getSmokingRoom(await getBranchScope(req));
+    const visits = await SmokingRoomVisitModel.find({
+      activityId: activity._id,
+      status: { $in: Object.keys(OCCUPANT_ORDER) },
+    });
+    // Who's inside first, then who's on their way, then the queue in order
+    const since = (visit: ISmokingRoomVisit) => (visit.enteredAt || visit.calledAt || visit.queuedAt)?.getTime() || 0;
+    visits.sort((a, b) => OCCUPANT_ORDER[a.status] - OCCUPANT_ORDER[b.status] || since(a) - since(b));
+
+    res.json({
+      ...await getRoomStatus(activity),
+      visits: await Promise.all(visits.map(describeVisit)),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const checkOut = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { visit, activity } = await checkOutVisit(req.params.id, await getBranchScope(req));
+    const status = await announceRoomStatus(activity);
+
+    res.json({ ...status, visit: await describeVisit(visit) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAgeConfirmations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const day = parseBookingDate(req.query.date as string | undefined);
+    if (!day) {
+      throw new AppError('Date must be in YYYY-MM-DD format', 400);
+    }
+
+    res.json(await listAgeConfirmations(await getBranchScope(req), day));
+  } catch (error) {
+    next(error);
+  }
+};
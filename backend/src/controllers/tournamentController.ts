@@ -0,0 +1,218 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { TournamentModel, ITournament } from '../models/Tournament.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { branchFilter, findActivity, getBranchScope, inBranchScope } from '../lib/branches.js';
+import {
+  broadcastTournament,
+  drawBracket,
+  formatTournament,
+  scheduleMatch as scheduleTournamentMatch,
+} from '../lib/tournaments.js';
+
+const findTournament = async (req: Request): Promise<ITournament> => {
+  const tournament = mongoose.Types.ObjectId.isValid(req.params.id)
+    ? await TournamentModel.findById(req.params.id)
+    : null;
+
+  if (!tournament || !inBranchScope(tournament.branchId, await getBranchScope(req))) {
+    throw new AppError('Tournament not found', 404);
+  }
+  return tournament;
+};
+
+export const createTournament = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, activityId, format, entryFee, maxPlayers, matchDuration, startsAt } = req.body;
+
+    const activity = await findActivity(activityId, await getBranchScope(req));
+    if (!activity || !activity.enabled) {
+      throw new AppError('Activity not found or disabled', 404);
+    }
+
+    const start = new Date(startsAt);
+    if (isNaN(start.getTime())) {
+      throw new AppError('Invalid start time', 400);
+    }
+
+    const tournament = await TournamentModel.create({
+      branchId: activity.branchId,
+      name: name.trim(),
+      activityId: activity._id,
+      activityType: activity.type,
+      format,
+      entryFee: entryFee ?? 0,
+      maxPlayers,
+      matchDuration: matchDuration ?? activity.minimumDuration,
+      startsAt: start,
+      createdBy: req.user?.id,
+    });
+
+    res.status(201).json(formatTournament(tournament));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTournaments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const query: Record<string, unknown> = branchFilter(await getBranchScope(req));
+    if (req.query.status) {
+      query.status = req.query.status;
+    } else {
+      query.status = { $ne: 'cancelled' };
+    }
+
+    const tournaments = await TournamentModel.find(query).sort({ startsAt: -1 });
+
+    res.json(tournaments.map(formatTournament));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTournament = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.json(formatTournament(await findTournament(req)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign a player up. Free tournaments confirm them straight away; otherwise
+ * the entry fee is paid with type 'tournament_entry' and the returned player id.
+ */
+export const registerForTournament = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tournament = await findTournament(req);
+    const name = req.body.name.trim();
+    const phone = req.body.phone.replace(/\D/g, '');
+
+    if (tournament.status !== 'registration') {
+      throw new AppError('Registration for this tournament has closed', 400);
+    }
+    if (tournament.players.length >= tournament.maxPlayers) {
+      throw new AppError('This tournament is full', 400);
+    }
+    if (tournament.players.some(p => p.phone === phone)) {
+      throw new AppError('This phone number is already registered', 409);
+    }
+    if (tournament.players.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+      throw new AppError('Another player already uses that name. Add an initial to tell you apart.', 409);
+    }
+
+    const free = tournament.entryFee <= 0;
+    const updated = await TournamentModel.findOneAndUpdate(
+      {
+        _id: tournament._id,
+        status: 'registration',
+        [`players.${tournament.maxPlayers - 1}`]: { $exists: false },
+        'players.phone': { $ne: phone },
+      },
+      { $push: { players: { name, phone, paymentStatus: free ? 'paid' : 'pending' } } },
+      { new: true }
+    );
+    if (!updated) {
+      throw new AppError('This tournament just filled up', 409);
+    }
+
+    const player = updated.players.find(p => p.phone === phone)!;
+    await broadcastTournament(updated);
+
+    res.status(201).json({
+      tournamentId: updated._id.toString(),
+      playerId: player._id.toString(),
+      name: player.name,
+      entryFee: updated.entryFee,
+      paymentStatus: player.paymentStatus,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const startTournament = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tournament = await drawBracket(await findTournament(req));
+
+    res.json(formatTournament(tournament));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const scheduleMatch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tournament = await findTournament(req);
+    const match = tournament.matches.find(m => m._id.toString() === req.params.matchId);
+    if (!match) {
+      throw new AppError('Match not found', 404);
+    }
+
+    const { unitId, startTime } = req.body;
+    const start = startTime ? new Date(startTime) : undefined;
+    if (start && isNaN(start.getTime())) {
+      throw new AppError('Invalid start time', 400);
+    }
+
+    const session = await scheduleTournamentMatch(tournament, match, unitId, start);
+
+    res.json({
+      ...formatTournament(tournament),
+      sessionId: session._id.toString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Call off a tournament that hasn't started. Entry fees are handed back at
+ * the counter.
+ */
+export const cancelTournament = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tournament = await findTournament(req);
+    if (tournament.status !== 'registration') {
+      throw new AppError('Only tournaments still taking registrations can be cancelled', 400);
+    }
+
+    tournament.status = 'cancelled';
+    await tournament.save();
+    await broadcastTournament(tournament);
+
+    res.json(formatTournament(tournament));
+  } catch (error) {
+    next(error);
+  }
+};
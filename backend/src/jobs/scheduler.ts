@@ -0,0 +1,181 @@
+import cron from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
+import { redisUtils } from '../config/redis.js';
+import {
+  autoStartScheduledSessions,
+  autoEndExpiredSessions,
+  broadcastSessionTimers,
+  expireUnpaidHolds,
+  releaseNoShows,
+  expireQueueClaims,
+  escalateUnpaidSessions,
+  sweepSmokingRooms,
+  sendEndingSoonWarnings,
+  cleanupOrphanedRedisKeys,
+} from './sessionManager.js';
+
+export interface JobStatus {
+  name: string;
+  schedule: string;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastRunBy: string | null;
+  running: boolean;
+}
+
+interface ScheduledJob {
+  name: string;
+  schedule: string;
+  run: () => Promise<void>;
+}
+
+const LEADER_LOCK_KEY = 'scheduler:leader';
+// Comfortably longer than the gap between ticks of the most frequent job, so the leader keeps renewing it
+const LEADER_LOCK_TTL_SECONDS = 30;
+const JOB_STATUS_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const instanceId = process.env.INSTANCE_ID || uuidv4();
+
+export const jobs: ScheduledJob[] = [
+  { name: 'auto-start', schedule: '* * * * *', run: autoStartScheduledSessions },
+  { name: 'auto-end', schedule: '*/30 * * * * *', run: autoEndExpiredSessions },
+  { name: 'timer-broadcast', schedule: '*/10 * * * * *', run: broadcastSessionTimers },
+  { name: 'reservation-expiry', schedule: '* * * * *', run: expireUnpaidHolds },
+  { name: 'no-show-release', schedule: '* * * * *', run: releaseNoShows },
+  { name: 'queue-claim-expiry', schedule: '*/15 * * * * *', run: expireQueueClaims },
+  { name: 'postpaid-payment-escalation', schedule: '* * * * *', run: escalateUnpaidSessions },
+  { name: 'smoking-room-sweep', schedule: '*/15 * * * * *', run: sweepSmokingRooms },
+  { name: 'ending-soon-warning', schedule: '* * * * *', run: sendEndingSoonWarnings },
+  { name: 'redis-cleanup', schedule: '*/5 * * * *', run: cleanupOrphanedRedisKeys },
+];
+
+const tasks: cron.ScheduledTask[] = [];
+const runningJobs = new Set<string>();
+
+const statusKey = (name: string) => `scheduler:job:${name}`;
+
+/**
+ * Take or renew the scheduler leader lock. Only the leader runs jobs, so several
+ * backend instances never double-start sessions or double-broadcast timers.
+ */
+export const ensureLeadership = async (): Promise<boolean> => {
+  if (await redisUtils.acquireLock(LEADER_LOCK_KEY, instanceId, LEADER_LOCK_TTL_SECONDS)) {
+    return true;
+  }
+  return redisUtils.extendLock(LEADER_LOCK_KEY, instanceId, LEADER_LOCK_TTL_SECONDS);
+};
+
+/**
+ * Run a job immediately on this instance and record its outcome. Errors are rethrown.
+ */
+export const runJob = async (name: string): Promise<void> => {
+  const job = jobs.find(j => j.name === name);
+  if (!job) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  const previous = await redisUtils.getCache<JobStatus>(statusKey(name));
+  const startedAt = new Date();
+  const status: JobStatus = {
+    name,
+    schedule: job.schedule,
+    lastRunAt: startedAt.toISOString(),
+    lastSuccessAt: previous?.lastSuccessAt || null,
+    lastDurationMs: null,
+    lastError: previous?.lastError || null,
+    lastErrorAt: previous?.lastErrorAt || null,
+    lastRunBy: instanceId,
+    running: true,
+  };
+
+  runningJobs.add(name);
+  try {
+    await job.run();
+    status.lastSuccessAt = new Date().toISOString();
+  } catch (error) {
+    status.lastError = error instanceof Error ? error.message : String(error);
+    status.lastErrorAt = new Date().toISOString();
+    throw error;
+  } finally {
+    runningJobs.delete(name);
+    status.running = false;
+    status.lastDurationMs = Date.now() - startedAt.getTime();
+    await redisUtils.setCache(statusKey(name), status, JOB_STATUS_TTL_SECONDS).catch(err => {
+      console.error(`Error saving status for job ${name}:`, err);
+    });
+  }
+};
+
+/**
+ * Cron tick: run the job if this instance is the leader and the previous run has finished.
+ * Returns whether the job ran.
+ */
+export const runJobIfLeader = async (name: string): Promise<boolean> => {
+  if (runningJobs.has(name)) {
+    return false;
+  }
+
+  try {
+    if (!(await ensureLeadership())) {
+      return false;
+    }
+    await runJob(name);
+    return true;
+  } catch (error) {
+    console.error(`Error running job ${name}:`, error);
+    return false;
+  }
+};
+
+export const startScheduler = (): void => {
+  if (tasks.length > 0) {
+    return;
+  }
+
+  for (const job of jobs) {
+    tasks.push(cron.schedule(job.schedule, () => {
+      void runJobIfLeader(job.name);
+    }));
+  }
+
+  console.log(`✅ Scheduler started (${jobs.length} jobs, instance ${instanceId})`);
+};
+
+export const stopScheduler = async (): Promise<void> => {
+  tasks.forEach(task => task.stop());
+  tasks.length = 0;
+
+  if ((await redisUtils.getLockOwner(LEADER_LOCK_KEY)) === instanceId) {
+    await redisUtils.releaseLock(LEADER_LOCK_KEY);
+  }
+};
+
+export const getSchedulerStatus = async () => {
+  const leaderId = await redisUtils.getLockOwner(LEADER_LOCK_KEY);
+
+  const jobStatuses = await Promise.all(jobs.map(async (job): Promise<JobStatus> => {
+    const status = await redisUtils.getCache<JobStatus>(statusKey(job.name));
+    return status || {
+      name: job.name,
+      schedule: job.schedule,
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastDurationMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      lastRunBy: null,
+      running: false,
+    };
+  }));
+
+  return {
+    instanceId,
+    leaderId,
+    isLeader: leaderId === instanceId,
+    scheduled: tasks.length > 0,
+    jobs: jobStatuses,
+  };
+};
@@ -1,234 +1,394 @@
-import cron from 'node-cron';
 import { SessionModel } from '../models/Session.js';
 import { ReservationModel } from '../models/Reservation.js';
+import { GroupBookingModel } from '../models/GroupBooking.js';
+import { ReservationSeriesModel } from '../models/ReservationSeries.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
 import { WaitingQueueModel } from '../models/WaitingQueue.js';
-import { ActivityUnitModel } from '../models/Activity.js';
+import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
 import { redisUtils } from '../config/redis.js';
-import { broadcastTimerUpdate, broadcastSessionEvent } from '../websocket/server.js';
-import { processWaitingQueue } from '../lib/queueManager.js';
+import { broadcastTimerUpdate, broadcastSessionEvent, broadcastAvailabilityChange } from '../websocket/server.js';
+import { processWaitingQueue, broadcastQueueEstimates, lapseQueueClaim, reorderQueuePositions } from '../lib/queueManager.js';
+import { restoreRedeemedPoints, syncLoyaltyPoints } from '../lib/loyalty.js';
+import { releaseCoupon } from '../lib/coupons.js';
+import { markNoShow } from '../lib/noShows.js';
+import { settleScoreboardOnEnd } from '../lib/scoreboards.js';
+import { admitFromQueue, announceRoomStatus, sweepSmokingRoom } from '../lib/smokingRoom.js';
+import { escalateUnpaidSession } from '../lib/postpaidSessions.js';
+
+/**
+ * Start scheduled sessions whose start time has arrived. Late pickups still
+ * start as long as the slot hasn't run out or been given up as a no-show,
+ * and a session waits while the one before it is still on the unit.
+ */
+export const autoStartScheduledSessions = async (): Promise<void> => {
+  const now = new Date();
+
+  const sessionsToStart = await SessionModel.find({
+    status: 'scheduled',
+    startTime: { $lte: now },
+    $and: [
+      { $or: [{ endTime: { $gt: now } }, { billingMode: 'postpaid' }] },
+      {
+        $or: [
+          { checkedInAt: { $exists: true } },
+          { checkInDeadline: { $exists: false } },
+          { checkInDeadline: { $gt: now } },
+        ],
+      },
+    ],
+  });
+
+  for (const session of sessionsToStart) {
+    // The unit's last session may still be running; this one starts once it's free
+    const unitInUse = await SessionModel.exists({
+      _id: { $ne: session._id },
+      unitId: session.unitId,
+      $or: [
+        { status: { $in: ['active', 'paused'] } },
+        { status: 'awaiting_payment', paymentOverdueAt: { $exists: false } },
+      ],
+    });
+    if (unitInUse) {
+      continue;
+    }
 
-cron.schedule('* * * * *', async () => {
-  try {
-    const now = new Date();
-    const fiveMinutesAgo = new Date(now.getTime() - 5 * 60000);
+    session.status = 'active';
+    session.actualStartTime = now;
+    await session.save();
 
-    const sessionsToStart = await SessionModel.find({
-      status: 'scheduled',
-      startTime: { $lte: now, $gte: fiveMinutesAgo },
+    await ActivityUnitModel.findByIdAndUpdate(session.unitId, {
+      status: 'occupied',
     });
+    broadcastAvailabilityChange(session.activityId.toString(), 'occupied');
 
-    for (const session of sessionsToStart) {
-      session.status = 'active';
-      session.actualStartTime = now;
-      await session.save();
-
-      if (session.reservationId) {
-        const queueEntry = await WaitingQueueModel.findOne({
-          reservationId: session.reservationId,
-          status: 'waiting',
-        });
-
-        if (queueEntry) {
-          queueEntry.status = 'assigned';
-          queueEntry.assignedAt = now;
-          queueEntry.sessionId = session._id;
-          await queueEntry.save();
-        }
-      }
-
-      await redisUtils.setSessionState(session._id.toString(), {
-        status: 'active',
-        started_at: now.getTime().toString(),
-        elapsed_seconds: '0',
+    if (session.reservationId) {
+      const queueEntry = await WaitingQueueModel.findOne({
+        reservationId: session.reservationId,
+        status: 'waiting',
       });
 
-      const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
-      const io = getIO();
-      if (io) {
-        notifyCustomerByPhone(session.customerPhone, 'session_started', {
-          session_id: session._id.toString(),
-          reservation_id: session.reservationId?.toString(),
-          activity_id: session.activityId.toString(),
-          start_time: now.toISOString(),
-        });
+      if (queueEntry) {
+        queueEntry.status = 'assigned';
+        queueEntry.assignedAt = now;
+        queueEntry.sessionId = session._id;
+        await queueEntry.save();
       }
+    }
+
+    await redisUtils.setSessionState(session._id.toString(), {
+      status: 'active',
+      started_at: now.getTime().toString(),
+      elapsed_seconds: '0',
+    });
 
-      broadcastSessionEvent('session_started', {
+    const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
+    const io = getIO();
+    if (io) {
+      notifyCustomerByPhone(session.customerPhone, 'session_started', {
         session_id: session._id.toString(),
+        reservation_id: session.reservationId?.toString(),
         activity_id: session.activityId.toString(),
         start_time: now.toISOString(),
       });
-
-      console.log('✅ Auto-started session:', session._id);
     }
-  } catch (error) {
-    console.error('Error auto-starting sessions:', error);
-  }
-});
 
-cron.schedule('*/30 * * * * *', async () => {
-  try {
-    const now = new Date();
-    const sessionsToEnd = await SessionModel.find({
-      status: 'active',
-      endTime: { $lte: now },
+    broadcastSessionEvent('session_started', {
+      session_id: session._id.toString(),
+      activity_id: session.activityId.toString(),
+      start_time: now.toISOString(),
     });
+    await broadcastQueueEstimates(session.activityId.toString());
 
-    for (const session of sessionsToEnd) {
-      session.status = 'completed';
-      session.endTime = now;
-      session.actualEndTime = now;
-      await session.save();
-
-      await redisUtils.delete(`session:${session._id}`);
-
-      await ActivityUnitModel.findByIdAndUpdate(session.unitId, {
-        status: 'available',
-      });
-
-      try {
-        await processWaitingQueue(session.activityId.toString());
-      } catch (error) {
-        console.error('Error processing waiting queue:', error);
-      }
-
-      broadcastSessionEvent('session_ended', {
-        session_id: session._id.toString(),
-        final_amount: session.finalAmount || session.baseAmount,
-        actual_duration: session.durationMinutes,
-      });
+    console.log('✅ Auto-started session:', session._id);
+  }
+};
+
+/**
+ * Complete active sessions that have run past their end time and free the unit
+ */
+export const autoEndExpiredSessions = async (): Promise<void> => {
+  const now = new Date();
+  const sessionsToEnd = await SessionModel.find({
+    status: 'active',
+    endTime: { $lte: now },
+  });
+
+  for (const session of sessionsToEnd) {
+    session.status = 'completed';
+    session.endTime = now;
+    session.actualEndTime = now;
+    await session.save();
+    await settleScoreboardOnEnd(session);
+    await syncLoyaltyPoints('session', session);
+
+    await redisUtils.delete(`session:${session._id}`);
+
+    await ActivityUnitModel.findByIdAndUpdate(session.unitId, {
+      status: 'available',
+    });
 
-      console.log('✅ Auto-ended session:', session._id);
+    try {
+      await processWaitingQueue(session.activityId.toString());
+      await broadcastQueueEstimates(session.activityId.toString());
+    } catch (error) {
+      console.error('Error processing waiting queue:', error);
     }
-  } catch (error) {
-    console.error('Error auto-ending sessions:', error);
-  }
-});
 
-cron.schedule('*/10 * * * * *', async () => {
-  try {
-    const activeSessions = await SessionModel.find({
-      status: { $in: ['active', 'paused'] },
-      actualStartTime: { $exists: true },
+    broadcastSessionEvent('session_ended', {
+      session_id: session._id.toString(),
+      final_amount: session.finalAmount || session.baseAmount,
+      actual_duration: session.durationMinutes,
     });
 
-    for (const session of activeSessions) {
-      const startTime = new Date(session.actualStartTime!).getTime();
-      const now = Date.now();
-      const endTime = new Date(session.endTime).getTime();
-      const isPaused = session.status === 'paused';
-
-      let elapsed: number;
-      let remaining: number;
-
-      if (isPaused && session.currentPauseStart) {
-        const pauseStart = new Date(session.currentPauseStart).getTime();
-        elapsed = Math.floor((pauseStart - startTime) / 1000);
-        remaining = Math.max(0, Math.floor((endTime - pauseStart) / 1000));
-      } else {
-        const totalPausedSeconds = (session.totalPausedDuration || 0) * 60;
-        const totalElapsed = Math.floor((now - startTime) / 1000);
-        elapsed = Math.max(0, totalElapsed - totalPausedSeconds);
-        remaining = Math.max(0, Math.floor((endTime - now) / 1000));
-      }
+    console.log('✅ Auto-ended session:', session._id);
+  }
+};
+
+/**
+ * Release booked slots nobody checked in for within the activity's grace
+ * period, whether or not the session had already been auto-started
+ */
+export const releaseNoShows = async (): Promise<void> => {
+  const noShows = await SessionModel.find({
+    status: { $in: ['scheduled', 'active'] },
+    checkInDeadline: { $lte: new Date() },
+    checkedInAt: { $exists: false },
+  });
+
+  for (const session of noShows) {
+    await markNoShow(session);
+    console.log('✅ Released no-show session:', session._id);
+  }
+};
+
+/**
+ * Push elapsed/remaining time for running sessions to clients. Open-ended
+ * sessions have no remaining time and only count up.
+ */
+export const broadcastSessionTimers = async (): Promise<void> => {
+  const activeSessions = await SessionModel.find({
+    status: { $in: ['active', 'paused'] },
+    actualStartTime: { $exists: true },
+  });
+
+  for (const session of activeSessions) {
+    const startTime = new Date(session.actualStartTime!).getTime();
+    const now = Date.now();
+    const endTime = session.endTime ? new Date(session.endTime).getTime() : null;
+    const isPaused = session.status === 'paused';
+
+    let elapsed: number;
+    let remaining: number | null;
+
+    if (isPaused && session.currentPauseStart) {
+      const pauseStart = new Date(session.currentPauseStart).getTime();
+      elapsed = Math.floor((pauseStart - startTime) / 1000);
+      remaining = endTime === null ? null : Math.max(0, Math.floor((endTime - pauseStart) / 1000));
+    } else {
+      const totalPausedSeconds = (session.totalPausedDuration || 0) * 60;
+      const totalElapsed = Math.floor((now - startTime) / 1000);
+      elapsed = Math.max(0, totalElapsed - totalPausedSeconds);
+      remaining = endTime === null ? null : Math.max(0, Math.floor((endTime - now) / 1000));
+    }
 
-      await redisUtils.setSessionState(session._id.toString(), {
-        status: session.status,
-        started_at: startTime.toString(),
-        elapsed_seconds: elapsed.toString(),
-        is_paused: isPaused.toString(),
-      });
+    await redisUtils.setSessionState(session._id.toString(), {
+      status: session.status,
+      started_at: startTime.toString(),
+      elapsed_seconds: elapsed.toString(),
+      is_paused: isPaused.toString(),
+    });
 
-      broadcastTimerUpdate(session._id.toString(), elapsed, remaining);
-    }
-  } catch (error) {
-    console.error('Error broadcasting timers:', error);
+    broadcastTimerUpdate(session._id.toString(), elapsed, remaining);
   }
-});
+};
+
+/**
+ * Release reservations and extensions whose payment window has lapsed
+ */
+export const expireUnpaidHolds = async (): Promise<void> => {
+  const now = new Date();
+  const expired = await ReservationModel.updateMany(
+    {
+      status: 'pending_payment',
+      expiresAt: { $lte: now },
+    },
+    {
+      status: 'expired',
+    }
+  );
 
-cron.schedule('* * * * *', async () => {
-  try {
-    const now = new Date();
-    const expired = await ReservationModel.updateMany(
-      {
-        status: 'pending_payment',
-        expiresAt: { $lte: now },
-      },
-      {
-        status: 'expired',
-      }
-    );
+  if (expired.modifiedCount > 0) {
+    console.log(`✅ Expired ${expired.modifiedCount} reservations`);
+    
+    const expiredReservations = await ReservationModel.find({
+      status: 'expired',
+      expiresAt: { $lte: now },
+    });
 
-    if (expired.modifiedCount > 0) {
-      console.log(`✅ Expired ${expired.modifiedCount} reservations`);
+    for (const reservation of expiredReservations) {
+      await redisUtils.delete(`reservation:${reservation._id}`);
+      await restoreRedeemedPoints('reservation', reservation);
+      await releaseCoupon('reservation', reservation);
       
-      const expiredReservations = await ReservationModel.find({
-        status: 'expired',
-        expiresAt: { $lte: now },
-      });
-
-      for (const reservation of expiredReservations) {
-        await redisUtils.delete(`reservation:${reservation._id}`);
-        
-        const { broadcastAvailabilityChange } = await import('../websocket/server.js');
-        broadcastAvailabilityChange(reservation.activityId.toString(), 'available');
-      }
+      const { broadcastAvailabilityChange } = await import('../websocket/server.js');
+      broadcastAvailabilityChange(reservation.activityId.toString(), 'available');
     }
-  } catch (error) {
-    console.error('Error expiring reservations:', error);
   }
-});
 
-cron.schedule('* * * * *', async () => {
-  try {
-    const now = new Date();
-    const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60000);
+  const expiredExtensions = await SessionExtensionModel.updateMany(
+    {
+      status: 'pending_payment',
+      expiresAt: { $lte: now },
+    },
+    {
+      status: 'expired',
+    }
+  );
 
-    const sessions = await SessionModel.find({
-      status: 'active',
-      endTime: { $gte: now, $lte: fiveMinutesFromNow },
-    });
+  if (expiredExtensions.modifiedCount > 0) {
+    console.log(`✅ Expired ${expiredExtensions.modifiedCount} unpaid session extensions`);
+  }
 
-    for (const session of sessions) {
-      broadcastSessionEvent('session_ending_soon', {
-        session_id: session._id.toString(),
-        remaining_seconds: Math.floor((new Date(session.endTime).getTime() - now.getTime()) / 1000),
-      });
+  // Each reservation in a group lapses on its own above; this just closes the group out
+  const expiredGroups = await GroupBookingModel.updateMany(
+    {
+      status: 'pending_payment',
+      expiresAt: { $lte: now },
+    },
+    {
+      status: 'expired',
     }
-  } catch (error) {
-    console.error('Error sending warnings:', error);
-  }
-});
+  );
 
-cron.schedule('*/5 * * * *', async () => {
-  try {
-    const now = new Date();
-    
-    const expiredReservations = await ReservationModel.find({
-      status: { $in: ['expired', 'cancelled', 'payment_confirmed'] },
-      updatedAt: { $lt: new Date(now.getTime() - 60 * 60000) },
-    }).limit(100);
+  if (expiredGroups.modifiedCount > 0) {
+    console.log(`✅ Expired ${expiredGroups.modifiedCount} unpaid group bookings`);
+  }
 
-    for (const reservation of expiredReservations) {
-      await redisUtils.delete(`reservation:${reservation._id}`);
+  // Same for recurring bookings that were to be paid for up front
+  const expiredSeries = await ReservationSeriesModel.updateMany(
+    {
+      status: 'pending_payment',
+      expiresAt: { $lte: now },
+    },
+    {
+      status: 'expired',
     }
+  );
 
-    const endedSessions = await SessionModel.find({
-      status: { $in: ['ended', 'completed', 'cancelled'] },
-      updatedAt: { $lt: new Date(now.getTime() - 60 * 60000) },
-    }).limit(100);
+  if (expiredSeries.modifiedCount > 0) {
+    console.log(`✅ Expired ${expiredSeries.modifiedCount} unpaid recurring bookings`);
+  }
+};
+
+/**
+ * Take back units that called queue customers didn't claim in time and offer
+ * them to the next person
+ */
+export const expireQueueClaims = async (): Promise<void> => {
+  const lapsed = await WaitingQueueModel.find({
+    status: 'waiting',
+    claimDeadline: { $lte: new Date() },
+  });
+
+  const activityIds = new Set<string>();
+  for (const entry of lapsed) {
+    await lapseQueueClaim(entry);
+    activityIds.add(entry.activityId.toString());
+  }
+
+  for (const activityId of activityIds) {
+    await reorderQueuePositions(activityId);
+    await processWaitingQueue(activityId);
+  }
 
-    for (const session of endedSessions) {
-      await redisUtils.delete(`session:${session._id}`);
+  if (lapsed.length > 0) {
+    console.log(`✅ Released ${lapsed.length} unclaimed queue offers`);
+  }
+};
+
+/**
+ * Hand back units whose open-ended session is still unpaid after the payment
+ * grace period, and ask staff to collect the bill
+ */
+export const escalateUnpaidSessions = async (): Promise<void> => {
+  const overdue = await SessionModel.find({
+    status: 'awaiting_payment',
+    paymentDueBy: { $lte: new Date() },
+    paymentOverdueAt: { $exists: false },
+  });
+
+  let escalated = 0;
+  for (const session of overdue) {
+    if (await escalateUnpaidSession(session)) {
+      escalated++;
     }
+  }
 
-    if (expiredReservations.length > 0 || endedSessions.length > 0) {
-      console.log(`✅ Cleaned up ${expiredReservations.length} reservation caches and ${endedSessions.length} session states`);
+  if (escalated > 0) {
+    console.log(`✅ Flagged ${escalated} unpaid open-ended sessions for staff`);
+  }
+};
+
+/**
+ * Free smoking room spots held for no-shows or taken by people who never
+ * scanned out, and call the next people in the queue
+ */
+export const sweepSmokingRooms = async (): Promise<void> => {
+  const rooms = await ActivityModel.find({ type: 'smoking-room', enabled: true });
+
+  for (const room of rooms) {
+    if (await sweepSmokingRoom(room)) {
+      await admitFromQueue(room);
+      await announceRoomStatus(room);
     }
-  } catch (error) {
-    console.error('Error cleaning up orphaned Redis keys:', error);
   }
-});
+};
+
+/**
+ * Warn about sessions ending in the next five minutes
+ */
+export const sendEndingSoonWarnings = async (): Promise<void> => {
+  const now = new Date();
+  const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60000);
+
+  const sessions = await SessionModel.find({
+    status: 'active',
+    endTime: { $gte: now, $lte: fiveMinutesFromNow },
+  });
+
+  for (const session of sessions) {
+    broadcastSessionEvent('session_ending_soon', {
+      session_id: session._id.toString(),
+      remaining_seconds: Math.floor((session.endTime!.getTime() - now.getTime()) / 1000),
+    });
+  }
+};
+
+/**
+ * Drop cached state for reservations and sessions that finished over an hour ago
+ */
+export const cleanupOrphanedRedisKeys = async (): Promise<void> => {
+  const now = new Date();
+  
+  const expiredReservations = await ReservationModel.find({
+    status: { $in: ['expired', 'cancelled', 'payment_confirmed'] },
+    updatedAt: { $lt: new Date(now.getTime() - 60 * 60000) },
+  }).limit(100);
+
+  for (const reservation of expiredReservations) {
+    await redisUtils.delete(`reservation:${reservation._id}`);
+  }
+
+  const endedSessions = await SessionModel.find({
+    status: { $in: ['ended', 'completed', 'cancelled'] },
+    updatedAt: { $lt: new Date(now.getTime() - 60 * 60000) },
+  }).limit(100);
 
-console.log('✅ Cron jobs initialized');
+  for (const session of endedSessions) {
+    await redisUtils.delete(`session:${session._id}`);
+  }
 
+  if (expiredReservations.length > 0 || endedSessions.length > 0) {
+    console.log(`✅ Cleaned up ${expiredReservations.length} reservation caches and ${endedSessions.length} session states`);
+  }
+};
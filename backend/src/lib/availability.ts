@@ -0,0 +1,399 @@
+import mongoose from 'mongoose';
+import { IActivity, ActivityUnitModel } from '../models/Activity.js';
+import { SessionModel, ISession } from '../models/Session.js';
+import { ReservationModel, IReservation } from '../models/Reservation.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
+import { redisUtils } from '../config/redis.js';
+import { getCheckInDeadline } from './noShows.js';
+
+// Bookings starting further out than this are treated as advance bookings.
+export const ADVANCE_BOOKING_THRESHOLD_MINUTES = 5;
+
+// Opening hours and booking dates are read in the business's own timezone, whatever the server runs in
+export const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || 'Asia/Kolkata';
+const OPENING_HOUR = parseInt(process.env.OPENING_HOUR || '10', 10);
+const CLOSING_HOUR = parseInt(process.env.CLOSING_HOUR || '23', 10);
+const DEFAULT_SLOT_MINUTES = 30;
+// Customers can book today and up to this many days ahead
+export const MAX_ADVANCE_DAYS = parseInt(process.env.MAX_ADVANCE_DAYS || '30', 10);
+
+export const BLOCKING_SESSION_STATUSES = ['scheduled', 'active', 'paused', 'awaiting_payment'];
+export const BLOCKING_RESERVATION_STATUSES = ['pending_payment', 'pending_approval', 'payment_confirmed'];
+export const BLOCKING_EXTENSION_STATUSES = ['pending_payment', 'pending_approval'];
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  source: 'session' | 'reservation' | 'extension';
+  id: string;
+}
+
+export interface AvailabilitySlot {
+  startTime: Date;
+  endTime: Date;
+  available: boolean;
+}
+
+export const isAdvanceBooking = (start: Date, now: Date = new Date()): boolean => {
+  return start.getTime() - now.getTime() > ADVANCE_BOOKING_THRESHOLD_MINUTES * 60000;
+};
+
+const businessDateFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: BUSINESS_TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+/**
+ * The business's wall-clock date and time at an instant, with its day of the week (0 = Sunday)
+ */
+export const businessClock = (at: Date) => {
+  const parts = Object.fromEntries(
+    businessDateFormat.formatToParts(at).map(part => [part.type, part.value])
+  );
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  return {
+    year,
+    month,
+    day,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+};
+
+/**
+ * The instant a wall-clock time in the business's timezone falls on. Days
+ * past the end of the month roll over, so `day + n` counts days ahead.
+ */
+const businessTime = (year: number, month: number, day: number, hour = 0, minute = 0): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const local = businessClock(new Date(instant));
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) -
+      Math.floor(instant / 1000) * 1000;
+  };
+  // Check the offset again at the first guess, in case it crossed a clock change
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+/**
+ * The given hour on the business day an instant falls in, `daysAhead` days on
+ */
+export const atBusinessHour = (at: Date, hour: number, daysAhead = 0): Date => {
+  const { year, month, day } = businessClock(at);
+  return businessTime(year, month, day + daysAhead, hour);
+};
+
+/**
+ * The given minute past midnight on the business day an instant falls in, `daysAhead` days on
+ */
+export const atBusinessMinute = (at: Date, minuteOfDay: number, daysAhead = 0): Date => {
+  const { year, month, day } = businessClock(at);
+  return businessTime(year, month, day + daysAhead, 0, minuteOfDay);
+};
+
+/**
+ * The business day an instant falls in, as YYYY-MM-DD
+ */
+export const formatBusinessDate = (at: Date): string => {
+  const { year, month, day } = businessClock(at);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a YYYY-MM-DD string into midnight at the business, today when none is given
+ */
+export const parseBookingDate = (date?: string): Date | null => {
+  if (!date) {
+    return atBusinessHour(new Date(), 0);
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const parsed = businessTime(year, month, day);
+  // Reject dates like 2026-02-31 instead of rolling them over
+  return isNaN(parsed.getTime()) || formatBusinessDate(parsed) !== date ? null : parsed;
+};
+
+/**
+ * Whether a booking starting then is no further ahead than MAX_ADVANCE_DAYS
+ */
+export const isWithinBookingWindow = (start: Date, now: Date = new Date()): boolean => {
+  return start.getTime() < atBusinessHour(now, 0, MAX_ADVANCE_DAYS + 1).getTime();
+};
+
+/**
+ * Open-ended sessions have no end time, so they hold their unit until
+ * closing on the day they started (or until now if they run past it).
+ * Once billed they hold it until their payment is due, unless it has
+ * already been handed back for staff to collect the bill.
+ */
+const getSessionBusyUntil = (session: ISession, now: Date = new Date()): Date => {
+  if (session.status === 'awaiting_payment' && !session.paymentOverdueAt) {
+    return session.paymentDueBy && session.paymentDueBy > now ? session.paymentDueBy : now;
+  }
+  if (session.endTime) {
+    return session.endTime;
+  }
+  const closing = atBusinessHour(session.startTime, CLOSING_HOUR);
+  return closing > now ? closing : now;
+};
+
+/**
+ * Load sessions, reservations and unpaid extensions that hold a unit between two instants
+ */
+export const getBusyIntervals = async (
+  unitIds: Array<string | mongoose.Types.ObjectId>,
+  from: Date,
+  to: Date,
+  bufferMinutes: number = 0,
+  excludeReservationId?: string
+): Promise<Map<string, BusyInterval[]>> => {
+  const bufferMs = bufferMinutes * 60000;
+  const windowStart = new Date(from.getTime() - bufferMs);
+  const windowEnd = new Date(to.getTime() + bufferMs);
+
+  const sessions = await SessionModel.find({
+    unitId: { $in: unitIds },
+    status: { $in: BLOCKING_SESSION_STATUSES },
+    startTime: { $lt: windowEnd },
+    $or: [{ endTime: { $gt: windowStart } }, { billingMode: 'postpaid' }],
+  });
+
+  const reservationQuery: any = {
+    unitId: { $in: unitIds },
+    status: { $in: BLOCKING_RESERVATION_STATUSES },
+    startTime: { $lt: windowEnd },
+    endTime: { $gt: windowStart },
+  };
+  if (excludeReservationId) {
+    reservationQuery._id = { $ne: excludeReservationId };
+  }
+  const reservations = await ReservationModel.find(reservationQuery);
+
+  // Once a reservation has produced a session, the session is the source of truth
+  const sessionReservationIds = new Set(
+    (await SessionModel.distinct('reservationId', {
+      reservationId: { $in: reservations.map(r => r._id) },
+    })).map(id => id.toString())
+  );
+
+  const extensions = await SessionExtensionModel.find({
+    unitId: { $in: unitIds },
+    status: { $in: BLOCKING_EXTENSION_STATUSES },
+    startTime: { $lt: windowEnd },
+    endTime: { $gt: windowStart },
+  });
+
+  const busy = new Map<string, BusyInterval[]>();
+  const push = (unitId: string, interval: BusyInterval) => {
+    if (!busy.has(unitId)) {
+      busy.set(unitId, []);
+    }
+    busy.get(unitId)!.push(interval);
+  };
+
+  sessions.forEach(session => {
+    push(session.unitId.toString(), {
+      start: session.startTime,
+      end: getSessionBusyUntil(session),
+      source: 'session',
+      id: session._id.toString(),
+    });
+  });
+
+  reservations
+    .filter(r => r.unitId && !sessionReservationIds.has(r._id.toString()))
+    .forEach(reservation => {
+      push(reservation.unitId!.toString(), {
+        start: reservation.startTime,
+        end: reservation.endTime,
+        source: 'reservation',
+        id: reservation._id.toString(),
+      });
+    });
+
+  extensions.forEach(extension => {
+    push(extension.unitId.toString(), {
+      start: extension.startTime,
+      end: extension.endTime,
+      source: 'extension',
+      id: extension._id.toString(),
+    });
+  });
+
+  return busy;
+};
+
+const overlaps = (interval: BusyInterval, start: Date, end: Date, bufferMs: number): boolean => {
+  return interval.start.getTime() < end.getTime() + bufferMs &&
+    interval.end.getTime() + bufferMs > start.getTime();
+};
+
+/**
+ * Find bookings on a unit that clash with [start, end), honouring the activity buffer
+ */
+export const findUnitConflicts = async (
+  unitId: string | mongoose.Types.ObjectId,
+  start: Date,
+  end: Date,
+  bufferMinutes: number = 0,
+  excludeReservationId?: string
+): Promise<BusyInterval[]> => {
+  const busy = await getBusyIntervals([unitId], start, end, bufferMinutes, excludeReservationId);
+  const intervals = busy.get(unitId.toString()) || [];
+  return intervals.filter(interval => overlaps(interval, start, end, bufferMinutes * 60000));
+};
+
+/**
+ * Whether a unit can take a session from `start` for `durationMinutes`.
+ * A unit with an advance booking coming up still reads `available` until
+ * that booking starts, so its status alone isn't enough.
+ */
+export const isUnitFreeFor = async (
+  unitId: string | mongoose.Types.ObjectId,
+  durationMinutes: number,
+  bufferMinutes: number = 0,
+  excludeReservationId?: string,
+  start: Date = new Date()
+): Promise<boolean> => {
+  const end = new Date(start.getTime() + durationMinutes * 60000);
+  return (await findUnitConflicts(unitId, start, end, bufferMinutes, excludeReservationId)).length === 0;
+};
+
+/**
+ * Compute bookable slots for every unit of an activity on a given day
+ */
+export const getActivityAvailability = async (
+  activity: IActivity,
+  day: Date,
+  duration: number,
+  now: Date = new Date()
+) => {
+  const units = await ActivityUnitModel.find({ activityId: activity._id }).sort({ name: 1 });
+
+  const slotMinutes = activity.pricingType === 'fixed-duration' && activity.duration
+    ? activity.duration
+    : DEFAULT_SLOT_MINUTES;
+  const bufferMs = (activity.bufferTime || 0) * 60000;
+
+  const dayStart = atBusinessHour(day, OPENING_HOUR);
+  const dayEnd = atBusinessHour(day, CLOSING_HOUR);
+
+  const busy = await getBusyIntervals(
+    units.map(u => u._id),
+    dayStart,
+    dayEnd,
+    activity.bufferTime || 0
+  );
+
+  const unitAvailability = units.map(unit => {
+    const intervals = busy.get(unit._id.toString()) || [];
+    const slots: AvailabilitySlot[] = [];
+
+    for (
+      let cursor = dayStart.getTime();
+      cursor + duration * 60000 <= dayEnd.getTime();
+      cursor += slotMinutes * 60000
+    ) {
+      const slotStart = new Date(cursor);
+      const slotEnd = new Date(cursor + duration * 60000);
+      const available = unit.status !== 'maintenance' &&
+        slotStart.getTime() > now.getTime() &&
+        !intervals.some(interval => overlaps(interval, slotStart, slotEnd, bufferMs));
+
+      slots.push({ startTime: slotStart, endTime: slotEnd, available });
+    }
+
+    return {
+      id: unit._id.toString(),
+      name: unit.name,
+      status: unit.status,
+      slots,
+    };
+  });
+
+  return {
+    slotMinutes,
+    openingTime: dayStart,
+    closingTime: dayEnd,
+    units: unitAvailability,
+  };
+};
+
+/**
+ * Create the scheduled session for a paid or approved advance booking.
+ * The unit is left untouched; the auto-start job occupies it at start time.
+ */
+export const scheduleReservedSession = async (
+  reservation: IReservation,
+  activity: IActivity,
+  paymentId: string,
+  paymentStatus: 'paid' | 'offline'
+): Promise<ISession> => {
+  reservation.status = 'payment_confirmed';
+  reservation.paymentId = paymentId;
+  reservation.confirmedAt = new Date();
+  await reservation.save();
+
+  await redisUtils.delete(`reservation:${reservation._id}`);
+
+  const session = await SessionModel.create({
+    reservationId: reservation._id,
+    activityId: activity._id,
+    branchId: activity.branchId,
+    activityType: activity.type,
+    unitId: reservation.unitId,
+    startTime: reservation.startTime,
+    endTime: reservation.endTime,
+    durationMinutes: reservation.durationMinutes,
+    duration: reservation.durationMinutes,
+    baseAmount: reservation.amount,
+    amount: reservation.amount,
+    memberPricing: reservation.memberPricing,
+    status: 'scheduled',
+    checkInDeadline: getCheckInDeadline(reservation.startTime, activity),
+    customerName: reservation.customerName,
+    customerPhone: reservation.customerPhone,
+    qrContext: reservation.qrContext,
+    paymentStatus,
+    groupBookingId: reservation.groupBookingId,
+    ...(reservation.packagePurchaseId && {
+      paymentMethod: 'package',
+      packagePurchaseId: reservation.packagePurchaseId,
+    }),
+  });
+
+  const { broadcastSessionEvent, notifyCustomerByPhone } = await import('../websocket/server.js');
+  notifyCustomerByPhone(reservation.customerPhone, 'booking_scheduled', {
+    reservationId: reservation._id.toString(),
+    sessionId: session._id.toString(),
+    startTime: session.startTime.toISOString(),
+    endTime: session.endTime!.toISOString(),
+    message: `Your ${activity.name} slot is booked for ${session.startTime.toLocaleString('en-IN')}.`,
+    timestamp: new Date().toISOString(),
+  });
+
+  broadcastSessionEvent('booking_confirmed', {
+    reservation_id: reservation._id.toString(),
+    session_id: session._id.toString(),
+    scheduled: true,
+    start_time: session.startTime.toISOString(),
+  });
+
+  return session;
+};
@@ -0,0 +1,289 @@
+import mongoose from 'mongoose';
+import { BillSplitModel, BillSplitMode, IBillSplit, IBillShare } from '../models/BillSplit.js';
+import { SessionModel, ISession } from '../models/Session.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
+import { FoodOrderModel } from '../models/Order.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { syncLoyaltyPoints } from './loyalty.js';
+import { getSmsSender } from './sms.js';
+
+// Splits of one session that text the players, per window
+const MAX_SPLIT_TEXT_ROUNDS = 3;
+const SPLIT_TEXT_WINDOW_SECONDS = 60 * 60;
+
+export interface CustomShareInput {
+  playerName: string;
+  amount: number;
+}
+
+interface ShareDraft {
+  playerName: string;
+  phone?: string;
+  amount: number;
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Share an amount evenly, in paise, handing any leftover paise to the first
+ * players so the shares always add up to the total
+ */
+const splitEvenly = (totalAmount: number, players: Array<{ name: string; phone?: string }>): ShareDraft[] => {
+  const total = toPaise(totalAmount);
+  const each = Math.floor(total / players.length);
+  const leftover = total - each * players.length;
+  return players.map((player, index) => ({
+    playerName: player.name,
+    phone: player.phone,
+    amount: (each + (index < leftover ? 1 : 0)) / 100,
+  }));
+};
+
+const buildShares = (
+  session: ISession,
+  mode: BillSplitMode,
+  totalAmount: number,
+  amounts?: CustomShareInput[]
+): ShareDraft[] => {
+  const players = session.challengeData!.players;
+
+  if (mode === 'even') {
+    return splitEvenly(totalAmount, players);
+  }
+
+  if (mode === 'loser_pays') {
+    const winner = session.challengeData!.winner;
+    if (!winner) {
+      throw new AppError('Pick a winner before the loser pays', 400);
+    }
+    const losers = players.filter(player => player.name !== winner);
+    if (losers.length === 0) {
+      throw new AppError('Nobody lost this challenge', 400);
+    }
+    return splitEvenly(totalAmount, losers);
+  }
+
+  if (!amounts || amounts.length === 0) {
+    throw new AppError('Custom splits need an amount for each player', 400);
+  }
+  const shares = amounts.map(({ playerName, amount }) => {
+    const player = players.find(p => p.name === playerName);
+    if (!player) {
+      throw new AppError(`${playerName} is not playing in this challenge`, 400);
+    }
+    if (!(amount >= 0)) {
+      throw new AppError('Share amounts cannot be negative', 400);
+    }
+    return { playerName: player.name, phone: player.phone, amount };
+  });
+  if (new Set(shares.map(share => share.playerName)).size !== shares.length) {
+    throw new AppError('Each player can only have one share', 400);
+  }
+  const assigned = shares.reduce((sum, share) => sum + toPaise(share.amount), 0);
+  if (assigned !== toPaise(totalAmount)) {
+    throw new AppError(`Shares add up to ${assigned / 100} but the bill is ${totalAmount}`, 400);
+  }
+  return shares;
+};
+
+export const getShareLink = (split: IBillSplit, share: IBillShare): string => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/split/${split._id}?share=${share._id}`;
+};
+
+/**
+ * Split what is still owed for a challenge session, plus its unpaid food
+ * orders, between the players. A split nobody has paid into yet is replaced;
+ * one with a settled share has to be finished.
+ */
+export const createBillSplit = async (
+  session: ISession,
+  mode: BillSplitMode,
+  amounts?: CustomShareInput[]
+): Promise<IBillSplit> => {
+  if (!session.isChallengeSession || !session.challengeData) {
+    throw new AppError('Only challenge sessions can be split between players', 400);
+  }
+  if (session.paymentStatus !== 'pending') {
+    throw new AppError('This session has already been paid for', 400);
+  }
+  if (['cancelled', 'no_show'].includes(session.status)) {
+    throw new AppError('This session was cancelled', 400);
+  }
+
+  const existing = await BillSplitModel.findOne({ sessionId: session._id, status: 'open' });
+  if (existing?.shares.some(share => share.status !== 'pending')) {
+    throw new AppError('A player has already paid their share of the current split', 409);
+  }
+
+  // Extensions are paid for on their own as they're bought
+  const extensions = await SessionExtensionModel.find({ sessionId: session._id, status: 'applied' });
+  const sessionAmount = Math.max(0, (session.amount || 0) - extensions.reduce((sum, e) => sum + e.amount, 0));
+
+  const orders = await FoodOrderModel.find({
+    sessionId: session._id,
+    paymentStatus: 'pending',
+    status: { $ne: 'cancelled' },
+  });
+  const ordersAmount = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+  const totalAmount = (toPaise(sessionAmount) + toPaise(ordersAmount)) / 100;
+  if (totalAmount <= 0) {
+    throw new AppError('There is nothing left to pay', 400);
+  }
+
+  const shares = buildShares(session, mode, totalAmount, amounts).filter(share => share.amount > 0);
+
+  if (existing) {
+    existing.status = 'cancelled';
+    await existing.save();
+  }
+
+  const split = await BillSplitModel.create({
+    branchId: session.branchId,
+    sessionId: session._id,
+    orderIds: orders.map(order => order._id),
+    mode,
+    sessionAmount,
+    ordersAmount,
+    totalAmount,
+    shares,
+  });
+
+  // Re-splitting texts everyone again, so only the first few rounds go out by SMS;
+  // after that the links are only on the screen of whoever split the bill
+  const textRound = await redisUtils.increment(`bill-split:texts:${session._id}`, SPLIT_TEXT_WINDOW_SECONDS);
+  for (const share of split.shares) {
+    if (share.phone && textRound <= MAX_SPLIT_TEXT_ROUNDS) {
+      await getSmsSender().send(
+        share.phone,
+        `${share.playerName}, your share of the game is Rs ${share.amount}. Pay here: ${getShareLink(split, share)}`
+      );
+    }
+  }
+
+  const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+  const payload = {
+    session_id: session._id.toString(),
+    split_id: split._id.toString(),
+    mode,
+    totalAmount,
+    shares: split.shares.map(share => ({ playerName: share.playerName, amount: share.amount })),
+  };
+  notifyCustomerById(session._id.toString(), 'session', 'bill_split_created', payload);
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('bill_split_created', payload);
+  }
+
+  return split;
+};
+
+/**
+ * Record one player's share as paid. Once every share is in, the session and
+ * the orders folded into the split are marked paid.
+ */
+export const settleBillShare = async (
+  shareId: string,
+  paymentId: string,
+  paymentStatus: 'paid' | 'offline'
+): Promise<IBillSplit> => {
+  if (!mongoose.Types.ObjectId.isValid(shareId)) {
+    throw new AppError('Share not found', 404);
+  }
+
+  const split = await BillSplitModel.findOneAndUpdate(
+    { status: 'open', shares: { $elemMatch: { _id: shareId, status: 'pending' } } },
+    {
+      $set: {
+        'shares.$.status': paymentStatus,
+        'shares.$.paymentId': paymentId,
+        'shares.$.paidAt': new Date(),
+      },
+    },
+    { new: true }
+  );
+  if (!split) {
+    throw new AppError('This share is not awaiting payment', 400);
+  }
+
+  const share = split.shares.find(s => s._id.toString() === shareId)!;
+  const sessionId = split.sessionId.toString();
+  const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+  const io = getIO();
+
+  const sharePayload = {
+    session_id: sessionId,
+    split_id: split._id.toString(),
+    share_id: shareId,
+    playerName: share.playerName,
+    amount: share.amount,
+    remaining: split.shares.filter(s => s.status === 'pending').length,
+  };
+  notifyCustomerById(sessionId, 'session', 'bill_share_paid', sharePayload);
+  if (io) {
+    io.of('/admin').emit('bill_share_paid', sharePayload);
+  }
+
+  if (split.shares.some(s => s.status === 'pending')) {
+    return split;
+  }
+
+  const settled = await BillSplitModel.findOneAndUpdate(
+    { _id: split._id, status: 'open' },
+    { status: 'settled', settledAt: new Date() },
+    { new: true }
+  );
+  if (!settled) {
+    return split;
+  }
+
+  // Cash-only splits count as collected at the counter
+  const sessionPaymentStatus = settled.shares.every(s => s.status === 'offline') ? 'offline' : 'paid';
+  const paidSession = await SessionModel.findByIdAndUpdate(
+    settled.sessionId,
+    { paymentStatus: sessionPaymentStatus },
+    { new: true }
+  );
+  if (paidSession) {
+    await syncLoyaltyPoints('session', paidSession);
+  }
+
+  await FoodOrderModel.updateMany(
+    { _id: { $in: settled.orderIds }, paymentStatus: 'pending' },
+    { paymentStatus: sessionPaymentStatus }
+  );
+  for (const order of await FoodOrderModel.find({ _id: { $in: settled.orderIds } })) {
+    await syncLoyaltyPoints('order', order);
+  }
+
+  const settledPayload = {
+    session_id: sessionId,
+    split_id: settled._id.toString(),
+    totalAmount: settled.totalAmount,
+  };
+  notifyCustomerById(sessionId, 'session', 'bill_split_settled', settledPayload);
+  if (io) {
+    io.of('/admin').emit('bill_split_settled', settledPayload);
+  }
+
+  return settled;
+};
+
+/**
+ * The open split covering a session or one of its food orders, if any. While
+ * one exists the bill can only be paid share by share.
+ */
+export const findOpenSplitFor = async (
+  type: 'session' | 'order',
+  entityId: string
+): Promise<IBillSplit | null> => {
+  if (!mongoose.Types.ObjectId.isValid(entityId)) {
+    return null;
+  }
+  return BillSplitModel.findOne(
+    type === 'session'
+      ? { sessionId: entityId, status: 'open' }
+      : { orderIds: entityId, status: 'open' }
+  );
+};
@@ -0,0 +1,157 @@
+import mongoose from 'mongoose';
+import { Request } from 'express';
+import { BranchModel, IBranch } from '../models/Branch.js';
+import { ActivityModel, ActivityUnitModel, IActivity } from '../models/Activity.js';
+import { MenuItemModel, FoodOrderModel } from '../models/Order.js';
+import { InventoryItemModel } from '../models/Inventory.js';
+import { SessionModel } from '../models/Session.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { RefundModel } from '../models/Refund.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { AuthRequest } from '../middleware/auth.js';
+
+export const DEFAULT_BRANCH_CODE = 'main';
+export const ALL_BRANCHES = 'all';
+
+/**
+ * The branch customers land on when their QR code doesn't name one.
+ * Created on first use so a single-venue install needs no setup.
+ */
+export const getDefaultBranch = async (): Promise<IBranch> => {
+  const branch = await BranchModel.findOneAndUpdate(
+    { code: DEFAULT_BRANCH_CODE },
+    { $setOnInsert: { name: 'Main Branch', enabled: true } },
+    { upsert: true, new: true }
+  );
+  return branch!;
+};
+
+/**
+ * Find a branch by its id or its QR code
+ */
+export const findBranch = async (ref: string): Promise<IBranch> => {
+  const branch = mongoose.Types.ObjectId.isValid(ref)
+    ? await BranchModel.findById(ref)
+    : await BranchModel.findOne({ code: ref.trim().toLowerCase() });
+
+  if (!branch) {
+    throw new AppError('Branch not found', 404);
+  }
+
+  return branch;
+};
+
+/**
+ * The branch a client asked for, from the X-Branch-Id header, a branchId
+ * query parameter or the QR context of a booking or order
+ */
+export const getRequestedBranch = (req: Request): string | undefined => {
+  const query = typeof req.query.branchId === 'string' ? req.query.branchId : undefined;
+  return req.header('x-branch-id') || query || req.body?.qrContext?.branchId || undefined;
+};
+
+/**
+ * Work out which branch a staff request is limited to. Staff tied to a branch
+ * only ever see their own; owners (no branch) see the one they ask for, or
+ * all of them. Returns null for all branches.
+ */
+export const resolveStaffBranchScope = async (
+  homeBranch: string | null,
+  requested?: string
+): Promise<string | null> => {
+  if (homeBranch) {
+    const home = (await findBranch(homeBranch))._id.toString();
+    if (requested && (requested === ALL_BRANCHES || (await findBranch(requested))._id.toString() !== home)) {
+      throw new AppError('You can only access your own branch', 403);
+    }
+    return home;
+  }
+
+  if (!requested || requested === ALL_BRANCHES) {
+    return null;
+  }
+  return (await findBranch(requested))._id.toString();
+};
+
+/**
+ * Branch scope of any request: the one authenticate worked out for staff,
+ * otherwise the branch the customer's QR code points at, falling back to the
+ * default branch. Returns null when all branches were asked for.
+ */
+export const getBranchScope = async (req: Request): Promise<string | null> => {
+  const scope = (req as AuthRequest).branchScope;
+  if (scope !== undefined) {
+    return scope;
+  }
+
+  const requested = getRequestedBranch(req);
+  if (requested === ALL_BRANCHES) {
+    return null;
+  }
+
+  const branch = requested ? await findBranch(requested) : await getDefaultBranch();
+  return branch._id.toString();
+};
+
+/**
+ * Branch to create new records in: the request's scope, or the default
+ * branch when an owner is looking at all of them
+ */
+export const getBranchForWrite = async (req: Request): Promise<mongoose.Types.ObjectId> => {
+  const scope = await getBranchScope(req);
+  if (scope) {
+    return new mongoose.Types.ObjectId(scope);
+  }
+  return (await getDefaultBranch())._id as mongoose.Types.ObjectId;
+};
+
+export const branchFilter = (scope: string | null): { branchId?: mongoose.Types.ObjectId } => {
+  return scope ? { branchId: new mongoose.Types.ObjectId(scope) } : {};
+};
+
+/**
+ * Whether a record belongs to the branch scope (always true for all branches)
+ */
+export const inBranchScope = (
+  branchId: mongoose.Types.ObjectId | undefined | null,
+  scope: string | null
+): boolean => {
+  return !scope || branchId?.toString() === scope;
+};
+
+/**
+ * Look up an activity by id or by type. Types repeat across branches, so a
+ * type is looked up in the request's branch (or the default branch).
+ */
+export const findActivity = async (ref: string, scope: string | null): Promise<IActivity | null> => {
+  if (mongoose.Types.ObjectId.isValid(ref)) {
+    const activity = await ActivityModel.findById(ref);
+    return activity && inBranchScope(activity.branchId, scope) ? activity : null;
+  }
+
+  const branchId = scope || (await getDefaultBranch())._id;
+  return ActivityModel.findOne({ type: ref, branchId });
+};
+
+/**
+ * Create the default branch and move everything recorded before branches
+ * existed into it. Safe to run on every start.
+ */
+export const assignUnbranchedRecords = async (): Promise<void> => {
+  const branch = await getDefaultBranch();
+  const unbranched = { branchId: { $exists: false } };
+  const update = { $set: { branchId: branch._id } };
+
+  await ActivityModel.updateMany(unbranched, update);
+  await ActivityUnitModel.updateMany(unbranched, update);
+  await MenuItemModel.updateMany(unbranched, update);
+  await InventoryItemModel.updateMany(unbranched, update);
+  await SessionModel.updateMany(unbranched, update);
+  await ReservationModel.updateMany(unbranched, update);
+  await FoodOrderModel.updateMany(unbranched, update);
+  await RefundModel.updateMany(unbranched, update);
+
+  // Activity types and SKUs used to be unique across the whole business
+  await ActivityModel.collection.dropIndex('type_1').catch(() => undefined);
+  await InventoryItemModel.collection.dropIndex('sku_1').catch(() => undefined);
+};
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { SessionModel, ISession, ChallengeSession } from '../models/Session.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getSmsSender } from './sms.js';
+
+export interface VoteLink {
+  playerName: string;
+  token: string;
+  link: string;
+}
+
+export interface VoteOutcome {
+  session: ISession;
+  voter: string;
+  allVoted: boolean;
+  disputed: boolean; // this vote is the one that disagreed
+  decided: boolean; // this vote settled the winner
+}
+
+const hashVoteToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export const getVoteLink = (sessionId: string, token: string): string => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/challenge/${sessionId}/vote?token=${token}`;
+};
+
+/**
+ * The player whose voting link carries the token, if any
+ */
+export const findVoteTokenHolder = (challengeData: ChallengeSession, token: string) => {
+  const tokenHash = hashVoteToken(token);
+  return challengeData.players.find(p => p.voteTokenHash === tokenHash);
+};
+
+/**
+ * Challenge data as shown to customers and staff, without the players'
+ * voting token hashes
+ */
+export const formatChallengeData = (challengeData?: ChallengeSession) => {
+  if (!challengeData) {
+    return undefined;
+  }
+  return {
+    sessionType: challengeData.sessionType,
+    players: challengeData.players.map(player => ({
+      name: player.name,
+      phone: player.phone,
+      isWinner: player.isWinner,
+      hasVoted: player.hasVoted,
+      voteFor: player.voteFor,
+    })),
+    winner: challengeData.winner,
+    winnerSelectedBy: challengeData.winnerSelectedBy,
+    winnerSelectedAt: challengeData.winnerSelectedAt,
+    totalPlayers: challengeData.totalPlayers,
+    challengeStartedBy: challengeData.challengeStartedBy,
+    challengeStartedByPhone: challengeData.challengeStartedByPhone,
+    disputed: challengeData.disputed || false,
+    disputedAt: challengeData.disputedAt,
+    disputeResolvedAt: challengeData.disputeResolvedAt,
+  };
+};
+
+/**
+ * Give each player of a challenge their own voting link. Players with a
+ * phone number are texted theirs; the links returned are the ones for the
+ * starter's screen: their own and those of players without a phone.
+ */
+export const issueVoteLinks = async (session: ISession): Promise<VoteLink[]> => {
+  const challengeData = session.challengeData;
+  if (!challengeData) {
+    return [];
+  }
+
+  const sessionId = session._id.toString();
+  const links = challengeData.players.map(player => {
+    const token = crypto.randomBytes(24).toString('base64url');
+    return { playerName: player.name, token, link: getVoteLink(sessionId, token) };
+  });
+
+  const hashes: Record<string, string> = {};
+  links.forEach(({ token }, index) => {
+    hashes[`challengeData.players.${index}.voteTokenHash`] = hashVoteToken(token);
+    challengeData.players[index].voteTokenHash = hashVoteToken(token);
+  });
+  await SessionModel.updateOne({ _id: session._id }, { $set: hashes });
+
+  const onScreen: VoteLink[] = [];
+  for (const [index, player] of challengeData.players.entries()) {
+    if (player.phone) {
+      await getSmsSender().send(
+        player.phone,
+        `${player.name}, vote for the winner of your A3 House of Friends challenge here: ${links[index].link}`
+      );
+    }
+    if (!player.phone || player.name === challengeData.challengeStartedBy) {
+      onScreen.push(links[index]);
+    }
+  }
+  return onScreen;
+};
+
+/**
+ * Record the vote of the player holding the token. Votes that disagree put
+ * the challenge into dispute for staff to settle; once everyone has voted
+ * for the same player, they win.
+ */
+export const castVote = async (sessionId: string, token: string, winnerName: string): Promise<VoteOutcome> => {
+  const session = await SessionModel.findById(sessionId);
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+  if (!session.isChallengeSession || !session.challengeData) {
+    throw new AppError('This is not a challenge session', 400);
+  }
+  if (session.status !== 'ended' && session.status !== 'completed') {
+    throw new AppError('Session must be ended before voting', 400);
+  }
+  if (session.challengeData.winner) {
+    throw new AppError(`The winner has already been decided: ${session.challengeData.winner}`, 400);
+  }
+  if (!session.challengeData.players.some(p => p.name === winnerName)) {
+    throw new AppError('Winner not found in players list', 400);
+  }
+
+  const tokenHash = hashVoteToken(token);
+  const voter = findVoteTokenHolder(session.challengeData, token);
+  if (!voter) {
+    throw new AppError('This voting link is not valid for this challenge', 403);
+  }
+  if (voter.hasVoted) {
+    throw new AppError('You have already voted', 409);
+  }
+
+  const voted = await SessionModel.findOneAndUpdate(
+    {
+      _id: session._id,
+      'challengeData.winner': { $exists: false },
+      'challengeData.players': { $elemMatch: { voteTokenHash: tokenHash, hasVoted: { $ne: true } } },
+    },
+    {
+      $set: {
+        'challengeData.players.$.hasVoted': true,
+        'challengeData.players.$.voteFor': winnerName,
+      },
+    },
+    { new: true }
+  );
+  if (!voted) {
+    throw new AppError('You have already voted', 409);
+  }
+
+  const challengeData = voted.challengeData!;
+  const votes = challengeData.players.filter(p => p.hasVoted).map(p => p.voteFor);
+  const allVoted = votes.length === challengeData.players.length;
+  const agreed = new Set(votes).size === 1;
+  const outcome: VoteOutcome = { session: voted, voter: voter.name, allVoted, disputed: false, decided: false };
+
+  if (!agreed && !challengeData.disputed) {
+    const disputed = await SessionModel.findOneAndUpdate(
+      { _id: session._id, 'challengeData.disputed': { $ne: true } },
+      { $set: { 'challengeData.disputed': true, 'challengeData.disputedAt': new Date() } },
+      { new: true }
+    );
+    return disputed ? { ...outcome, session: disputed, disputed: true } : outcome;
+  }
+
+  if (agreed && allVoted) {
+    const decided = await SessionModel.findOneAndUpdate(
+      { _id: session._id, 'challengeData.winner': { $exists: false }, 'challengeData.disputed': { $ne: true } },
+      {
+        $set: {
+          'challengeData.winner': winnerName,
+          'challengeData.winnerSelectedBy': 'players',
+          'challengeData.winnerSelectedAt': new Date(),
+          ...Object.fromEntries(
+            challengeData.players.map((p, index) => [`challengeData.players.${index}.isWinner`, p.name === winnerName])
+          ),
+        },
+      },
+      { new: true }
+    );
+    if (decided) {
+      return { ...outcome, session: decided, decided: true };
+    }
+  }
+
+  return outcome;
+};
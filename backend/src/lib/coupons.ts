@@ -0,0 +1,260 @@
+import mongoose from 'mongoose';
+import { CouponModel, ICoupon } from '../models/Coupon.js';
+import { CouponRedemptionModel, ICouponRedemption } from '../models/CouponRedemption.js';
+import { MenuCategory, MenuItemModel, FoodOrderModel, IFoodOrder, OrderItem } from '../models/Order.js';
+import { ReservationModel, IReservation } from '../models/Reservation.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { normalizePhone } from './otp.js';
+
+export interface CouponTarget {
+  type: 'reservation' | 'order';
+  phone: string;
+  activityId?: mongoose.Types.ObjectId; // reservations
+  amount?: number; // reservations
+  items?: { category: MenuCategory; price: number; quantity: number }[]; // orders
+}
+
+export interface CouponQuote {
+  code: string;
+  description?: string;
+  eligibleAmount: number;
+  discount: number;
+}
+
+export const normalizeCouponCode = (code: string): string => {
+  return (code || '').trim().toUpperCase();
+};
+
+export const findCoupon = async (code: string): Promise<ICoupon> => {
+  const coupon = await CouponModel.findOne({ code: normalizeCouponCode(code) });
+  if (!coupon) {
+    throw new AppError('Coupon not found', 404);
+  }
+  return coupon;
+};
+
+/**
+ * Describe an order's items by menu category so coupons limited to some
+ * categories only discount those items
+ */
+export const getOrderCouponTarget = async (
+  items: Pick<OrderItem, 'menuItemId' | 'price' | 'quantity'>[],
+  phone: string
+): Promise<CouponTarget> => {
+  const menuItems = await MenuItemModel.find({ _id: { $in: items.map(i => i.menuItemId) } });
+  const categories = new Map(menuItems.map(m => [m._id.toString(), m.category]));
+
+  return {
+    type: 'order',
+    phone,
+    items: items.map(item => ({
+      category: categories.get(item.menuItemId.toString())!,
+      price: item.price,
+      quantity: item.quantity,
+    })),
+  };
+};
+
+const getEligibleAmount = (coupon: ICoupon, target: CouponTarget): number => {
+  const unrestricted = coupon.activityIds.length === 0 && coupon.menuCategories.length === 0;
+
+  if (target.type === 'reservation') {
+    const matches = unrestricted || coupon.activityIds.some(id => id.toString() === target.activityId?.toString());
+    return matches ? target.amount || 0 : 0;
+  }
+
+  return (target.items || [])
+    .filter(item => unrestricted || coupon.menuCategories.includes(item.category))
+    .reduce((sum, item) => sum + item.price * item.quantity, 0);
+};
+
+/**
+ * Check a coupon against a booking or order and work out its discount.
+ * Throws with the reason when the coupon can't be used.
+ */
+export const quoteCoupon = async (coupon: ICoupon, target: CouponTarget): Promise<CouponQuote> => {
+  const now = new Date();
+
+  if (!coupon.enabled) {
+    throw new AppError('This coupon is no longer active', 400);
+  }
+  if (coupon.validFrom && coupon.validFrom > now) {
+    throw new AppError('This coupon is not valid yet', 400);
+  }
+  if (coupon.validUntil && coupon.validUntil < now) {
+    throw new AppError('This coupon has expired', 400);
+  }
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    throw new AppError('This coupon has been fully redeemed', 400);
+  }
+
+  const eligibleAmount = getEligibleAmount(coupon, target);
+  if (eligibleAmount <= 0) {
+    throw new AppError(
+      target.type === 'reservation' ? "This coupon can't be used for this activity" : "This coupon doesn't apply to these items",
+      400
+    );
+  }
+  if (eligibleAmount < coupon.minSpend) {
+    throw new AppError(`Spend at least ₹${coupon.minSpend} to use this coupon`, 400);
+  }
+
+  if (coupon.perPhoneLimit) {
+    const used = await CouponRedemptionModel.countDocuments({
+      couponId: coupon._id,
+      phone: normalizePhone(target.phone),
+      status: 'applied',
+    });
+    if (used >= coupon.perPhoneLimit) {
+      throw new AppError("You've already used this coupon", 400);
+    }
+  }
+
+  const discount = coupon.discountType === 'percent'
+    ? Math.round((eligibleAmount * coupon.value) / 100)
+    : coupon.value;
+  const capped = Math.min(discount, coupon.maxDiscount || Infinity, eligibleAmount);
+
+  return {
+    code: coupon.code,
+    description: coupon.description,
+    eligibleAmount,
+    discount: capped,
+  };
+};
+
+/**
+ * Record a coupon use against the customer's phone. With a per-phone limit the
+ * use takes the first of the phone's numbered slots still free, which the
+ * unique index hands out once, so simultaneous checkouts can't pass the limit.
+ */
+const recordRedemption = async (
+  coupon: ICoupon,
+  entityType: 'reservation' | 'order',
+  entity: IReservation | IFoodOrder,
+  discount: number
+): Promise<ICouponRedemption> => {
+  const redemption = {
+    couponId: coupon._id,
+    code: coupon.code,
+    phone: normalizePhone(entity.customerPhone),
+    entityType,
+    entityId: entity._id,
+    discount,
+  };
+  if (!coupon.perPhoneLimit) {
+    return CouponRedemptionModel.create(redemption);
+  }
+
+  for (let slot = 1; slot <= coupon.perPhoneLimit; slot++) {
+    try {
+      return await CouponRedemptionModel.create({ ...redemption, slot });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+  }
+  throw new AppError("You've already used this coupon", 400);
+};
+
+/**
+ * Take a coupon's discount off an unpaid reservation or food order and count
+ * it against the coupon's limits
+ */
+export const applyCoupon = async (
+  entityType: 'reservation' | 'order',
+  entity: IReservation | IFoodOrder,
+  code: string
+): Promise<CouponQuote & { amount: number }> => {
+  if (entity.couponCode) {
+    throw new AppError('A coupon has already been applied to this booking', 400);
+  }
+  if (entity.loyaltyPointsRedeemed > 0) {
+    throw new AppError('Apply coupons before redeeming loyalty points', 400);
+  }
+
+  const coupon = await findCoupon(code);
+  const target = entityType === 'reservation'
+    ? {
+      type: entityType,
+      phone: entity.customerPhone,
+      activityId: (entity as IReservation).activityId,
+      amount: (entity as IReservation).amount,
+    }
+    : await getOrderCouponTarget((entity as IFoodOrder).items, entity.customerPhone);
+  const quote = await quoteCoupon(coupon, target);
+
+  // Claim the phone's use and count it up front so a coupon can't be redeemed
+  // past either limit by simultaneous checkouts
+  const redemption = await recordRedemption(coupon, entityType, entity, quote.discount);
+  const counted = await CouponModel.updateOne(
+    {
+      _id: coupon._id,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }],
+    },
+    { $inc: { usedCount: 1 } }
+  );
+  if (counted.modifiedCount === 0) {
+    await CouponRedemptionModel.deleteOne({ _id: redemption._id });
+    throw new AppError('This coupon has been fully redeemed', 400);
+  }
+
+  const field = entityType === 'reservation' ? 'amount' : 'totalAmount';
+  const claim = {
+    $set: { couponCode: coupon.code, couponDiscount: quote.discount },
+    $inc: { [field]: -quote.discount },
+  };
+  const unclaimed = { _id: entity._id, couponCode: null, loyaltyPointsRedeemed: { $in: [0, null] } };
+  const claimed = entityType === 'reservation'
+    ? await ReservationModel.updateOne(unclaimed, claim)
+    : await FoodOrderModel.updateOne(unclaimed, claim);
+
+  if (claimed.modifiedCount === 0) {
+    await CouponModel.updateOne({ _id: coupon._id }, { $inc: { usedCount: -1 } });
+    await CouponRedemptionModel.deleteOne({ _id: redemption._id });
+    throw new AppError('A coupon has already been applied to this booking', 409);
+  }
+
+  const amount = (entityType === 'reservation'
+    ? (entity as IReservation).amount
+    : (entity as IFoodOrder).totalAmount) - quote.discount;
+
+  entity.couponCode = coupon.code;
+  entity.couponDiscount = quote.discount;
+  if (entityType === 'reservation') {
+    (entity as IReservation).amount = amount;
+  } else {
+    (entity as IFoodOrder).totalAmount = amount;
+  }
+
+  return { ...quote, amount };
+};
+
+/**
+ * Free up the coupon use of a reservation or order that was never fulfilled.
+ * Never throws, like restoreRedeemedPoints.
+ */
+export const releaseCoupon = async (
+  entityType: 'reservation' | 'order',
+  entity: IReservation | IFoodOrder
+): Promise<void> => {
+  if (!entity.couponCode) {
+    return;
+  }
+
+  try {
+    const redemption = await CouponRedemptionModel.findOneAndUpdate(
+      { entityType, entityId: entity._id, status: 'applied' },
+      { $set: { status: 'released' } }
+    );
+    if (redemption) {
+      await CouponModel.updateOne(
+        { _id: redemption.couponId, usedCount: { $gt: 0 } },
+        { $inc: { usedCount: -1 } }
+      );
+    }
+  } catch (error) {
+    console.error(`Error releasing coupon for ${entityType} ${entity._id}:`, error);
+  }
+};
@@ -0,0 +1,102 @@
+import { GroupBookingModel, IGroupBooking } from '../models/GroupBooking.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { ISession } from '../models/Session.js';
+import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { isAdvanceBooking, scheduleReservedSession } from './availability.js';
+import { broadcastQueueEstimates } from './queueManager.js';
+
+/**
+ * Confirm every reservation in a paid group and create their linked sessions.
+ * A group booked for "now" starts all of its sessions at once, with the
+ * window measured from when the payment cleared.
+ */
+export const confirmGroupBooking = async (
+  group: IGroupBooking,
+  paymentId: string
+): Promise<ISession[]> => {
+  const now = new Date();
+  const startNow = !isAdvanceBooking(group.startTime, now);
+  const startTime = startNow ? now : group.startTime;
+  const endTime = new Date(startTime.getTime() + group.durationMinutes * 60000);
+
+  const confirmed = await GroupBookingModel.findOneAndUpdate(
+    { _id: group._id, status: 'pending_payment' },
+    { $set: { status: 'confirmed', paymentId, confirmedAt: now, startTime, endTime } },
+    { new: true }
+  );
+
+  if (!confirmed) {
+    throw new AppError('This group booking is not awaiting payment', 400);
+  }
+
+  const reservations = await ReservationModel.find({ _id: { $in: confirmed.reservationIds } });
+  const sessions: ISession[] = [];
+
+  for (const reservation of reservations) {
+    const activity = await ActivityModel.findById(reservation.activityId);
+    if (!activity) {
+      throw new AppError('Activity not found', 404);
+    }
+
+    reservation.startTime = startTime;
+    reservation.endTime = endTime;
+    sessions.push(await scheduleReservedSession(reservation, activity, paymentId, 'paid'));
+  }
+
+  if (startNow) {
+    const { broadcastAvailabilityChange, broadcastSessionEvent, notifyCustomerByPhone } = await import('../websocket/server.js');
+
+    for (const session of sessions) {
+      session.status = 'active';
+      session.actualStartTime = now;
+      session.checkedInAt = now; // paid on the spot, so they're here
+      await session.save();
+
+      await ActivityUnitModel.findByIdAndUpdate(session.unitId, { status: 'occupied' });
+      await redisUtils.setSessionState(session._id.toString(), {
+        status: 'active',
+        started_at: now.getTime().toString(),
+        elapsed_seconds: '0',
+      });
+
+      broadcastAvailabilityChange(session.activityId.toString(), 'occupied');
+      broadcastSessionEvent('session_started', {
+        session_id: session._id.toString(),
+        activity_id: session.activityId.toString(),
+        group_booking_id: confirmed._id.toString(),
+        start_time: now.toISOString(),
+      });
+    }
+
+    notifyCustomerByPhone(confirmed.customerPhone, 'group_booking_started', {
+      groupBookingId: confirmed._id.toString(),
+      sessionIds: sessions.map(s => s._id.toString()),
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+    });
+
+    for (const activityId of new Set(sessions.map(s => s.activityId.toString()))) {
+      await broadcastQueueEstimates(activityId);
+    }
+  }
+
+  const { getIO } = await import('../websocket/server.js');
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('group_booking_confirmed', {
+      groupBookingId: confirmed._id.toString(),
+      branchId: confirmed.branchId?.toString(),
+      customerName: confirmed.customerName,
+      customerPhone: confirmed.customerPhone,
+      unitCount: sessions.length,
+      amount: confirmed.amount,
+      startTime: startTime.toISOString(),
+      started: startNow,
+      timestamp: now.toISOString(),
+    });
+  }
+
+  return sessions;
+};
@@ -0,0 +1,427 @@
+import mongoose from 'mongoose';
+import { LapTimeModel, ILapTime, LapSource } from '../models/LapTime.js';
+import { SessionModel } from '../models/Session.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { LeaderboardPeriod, getPeriodStart } from './ratings.js';
+import { normalizePhone } from './otp.js';
+import { inBranchScope } from './branches.js';
+
+export type TelemetryFormat = 'csv' | 'json';
+
+export interface LapInput {
+  lapTimeMs: number;
+  lapNumber?: number; // numbered on from the session's last lap when left out
+  driverName?: string;
+  track?: string;
+  car?: string;
+  valid?: boolean;
+}
+
+export interface LapDefaults {
+  track?: string;
+  car?: string;
+  driverName?: string;
+}
+
+export interface LapLeaderboardEntry {
+  rank: number;
+  driverName: string;
+  car: string;
+  lapTimeMs: number;
+  setAt: Date;
+  sessionId: string;
+}
+
+// Anything outside this is a sensor glitch or a parked car, not a lap
+const MIN_LAP_MS = 5 * 1000;
+const MAX_LAP_MS = 60 * 60 * 1000;
+
+const UNLAPPED_STATUSES = ['scheduled', 'cancelled', 'no_show'];
+
+export const formatLap = (lap: ILapTime) => ({
+  id: lap._id.toString(),
+  sessionId: lap.sessionId.toString(),
+  driverName: lap.driverName,
+  track: lap.track,
+  car: lap.car,
+  lapNumber: lap.lapNumber,
+  lapTimeMs: lap.lapTimeMs,
+  valid: lap.valid,
+  source: lap.source,
+  setAt: lap.setAt,
+});
+
+/**
+ * A lap time as "1:23.456", "83.456" or a number, all in seconds, to
+ * milliseconds. Returns null for anything else.
+ */
+export const parseLapTime = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? Math.round(value * 1000) : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const minutes = match[1] ? parseInt(match[1], 10) : 0;
+  return Math.round((minutes * 60 + parseFloat(match[2])) * 1000);
+};
+
+// Telemetry column names vary between sims, so match them loosely
+const FIELD_ALIASES: Record<string, string[]> = {
+  lapTimeMs: ['laptimems', 'timems', 'lapms'],
+  lapTime: ['laptime', 'time', 'laptimes'],
+  lapNumber: ['lap', 'lapnumber', 'lapno'],
+  driverName: ['driver', 'drivername', 'name', 'player'],
+  track: ['track', 'trackname', 'circuit'],
+  car: ['car', 'carname', 'carmodel', 'vehicle'],
+  valid: ['valid', 'isvalid'],
+  invalid: ['invalid', 'isinvalid', 'cut'],
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const pickField = (row: Record<string, unknown>, field: string): unknown => {
+  for (const [key, value] of Object.entries(row)) {
+    if (FIELD_ALIASES[field].includes(normalizeKey(key)) && value !== '' && value !== null && value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+const parseFlag = (value: unknown): boolean | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'boolean') return value;
+  return ['1', 'true', 'yes', 'y'].includes(String(value).trim().toLowerCase());
+};
+
+const rowToLap = (row: Record<string, unknown>, rowNumber: number): LapInput => {
+  const ms = pickField(row, 'lapTimeMs');
+  const lapTimeMs = ms !== undefined ? Math.round(Number(ms)) : parseLapTime(pickField(row, 'lapTime'));
+  if (lapTimeMs === null || !Number.isFinite(lapTimeMs)) {
+    throw new AppError(`Row ${rowNumber} has no readable lap time`, 400);
+  }
+
+  const lapNumber = pickField(row, 'lapNumber');
+  const valid = parseFlag(pickField(row, 'valid'));
+  const invalid = parseFlag(pickField(row, 'invalid'));
+  const text = (field: string) => {
+    const value = pickField(row, field);
+    return value === undefined ? undefined : String(value).trim();
+  };
+
+  return {
+    lapTimeMs,
+    lapNumber: lapNumber === undefined ? undefined : Number(lapNumber),
+    driverName: text('driverName'),
+    track: text('track'),
+    car: text('car'),
+    valid: invalid !== undefined ? !invalid : valid,
+  };
+};
+
+const rowToDefaults = (root: Record<string, unknown>): LapDefaults => {
+  const text = (field: string) => {
+    const value = pickField(root, field);
+    return typeof value === 'string' ? value.trim() : undefined;
+  };
+  return { track: text('track'), car: text('car'), driverName: text('driverName') };
+};
+
+// Splits one CSV line, honouring double-quoted values
+const splitCsvLine = (line: string): string[] => {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+};
+
+/**
+ * Read laps from a sim's telemetry export: a CSV with a header row, or JSON
+ * as an array of laps or an object with a `laps` array. Track, car and
+ * driver set at the top of a JSON export apply to every lap in it.
+ */
+export const parseTelemetry = (format: TelemetryFormat, content: string): { laps: LapInput[]; defaults: LapDefaults } => {
+  if (format === 'csv') {
+    const lines = content.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) {
+      throw new AppError('The CSV needs a header row and at least one lap', 400);
+    }
+    const headers = splitCsvLine(lines[0]);
+    const laps = lines.slice(1).map((line, index) => {
+      const values = splitCsvLine(line);
+      const row = Object.fromEntries(headers.map((header, column) => [header, values[column]]));
+      return rowToLap(row, index + 1);
+    });
+    return { laps, defaults: {} };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new AppError('The telemetry file is not valid JSON', 400);
+  }
+  const root = (Array.isArray(data) ? { laps: data } : data) as Record<string, unknown> | null;
+  if (!root || !Array.isArray(root.laps)) {
+    throw new AppError('The JSON needs a list of laps', 400);
+  }
+  const defaults = rowToDefaults(root);
+  const laps = (root.laps as Array<Record<string, unknown>>).map((row, index) => rowToLap(row || {}, index + 1));
+  return { laps, defaults };
+};
+
+const getTrackRecord = (track: string, car: string) =>
+  LapTimeModel.findOne({ track, car, valid: true }).sort({ lapTimeMs: 1, setAt: 1 });
+
+/**
+ * Add laps to a racing session, entered by staff or imported from the sim.
+ * Returns the laps and any track records they set.
+ */
+export const recordLaps = async (
+  sessionId: string,
+  scope: string | null,
+  laps: LapInput[],
+  defaults: LapDefaults,
+  source: LapSource,
+  recordedBy?: string
+) => {
+  const session = mongoose.Types.ObjectId.isValid(sessionId) ? await SessionModel.findById(sessionId) : null;
+  if (!session || !inBranchScope(session.branchId, scope)) {
+    throw new AppError('Session not found', 404);
+  }
+  if (session.activityType !== 'racing') {
+    throw new AppError('Lap times are only kept for racing sessions', 400);
+  }
+  if (UNLAPPED_STATUSES.includes(session.status)) {
+    throw new AppError('Laps can only be added to a session that has started', 400);
+  }
+  if (laps.length === 0) {
+    throw new AppError('There are no laps to add', 400);
+  }
+
+  const last = await LapTimeModel.findOne({ sessionId: session._id }).sort({ lapNumber: -1 });
+  let nextNumber = (last?.lapNumber || 0) + 1;
+  const setAt = new Date();
+
+  const drafts = laps.map(lap => {
+    const track = lap.track || defaults.track;
+    const car = lap.car || defaults.car;
+    if (!track || !car) {
+      throw new AppError('Every lap needs a track and a car', 400);
+    }
+    if (lap.lapTimeMs < MIN_LAP_MS || lap.lapTimeMs > MAX_LAP_MS) {
+      throw new AppError(`${lap.lapTimeMs}ms is not a believable lap time`, 400);
+    }
+    if (lap.lapNumber !== undefined && !(Number.isInteger(lap.lapNumber) && lap.lapNumber >= 1)) {
+      throw new AppError('Lap numbers start at 1', 400);
+    }
+    const lapNumber = lap.lapNumber ?? nextNumber;
+    nextNumber = Math.max(nextNumber, lapNumber + 1);
+    return {
+      branchId: session.branchId,
+      sessionId: session._id,
+      unitId: session.unitId,
+      customerPhone: normalizePhone(session.customerPhone),
+      driverName: lap.driverName || defaults.driverName || session.customerName,
+      track,
+      car,
+      lapNumber,
+      lapTimeMs: lap.lapTimeMs,
+      valid: lap.valid ?? true,
+      source,
+      recordedBy,
+      setAt,
+    };
+  });
+
+  const numbers = drafts.map(draft => draft.lapNumber);
+  if (new Set(numbers).size !== numbers.length) {
+    throw new AppError('The same lap number appears twice', 400);
+  }
+  const taken = await LapTimeModel.findOne({ sessionId: session._id, lapNumber: { $in: numbers } });
+  if (taken) {
+    throw new AppError(`Lap ${taken.lapNumber} is already recorded for this session`, 409);
+  }
+
+  // Records as they stood, to tell which of these laps beat them
+  const combos = [...new Map(drafts.map(d => [`${d.track}\u0000${d.car}`, { track: d.track, car: d.car }])).values()];
+  const previous = await Promise.all(combos.map(({ track, car }) => getTrackRecord(track, car)));
+
+  let saved: ILapTime[];
+  try {
+    saved = await LapTimeModel.insertMany(drafts) as unknown as ILapTime[];
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new AppError('Those lap numbers were just recorded for this session', 409);
+    }
+    throw error;
+  }
+
+  const newRecords = combos.flatMap(({ track, car }, index) => {
+    const best = saved
+      .filter(lap => lap.valid && lap.track === track && lap.car === car)
+      .sort((a, b) => a.lapTimeMs - b.lapTimeMs)[0];
+    const record = previous[index];
+    return best && (!record || best.lapTimeMs < record.lapTimeMs) ? [formatLap(best)] : [];
+  });
+
+  return { laps: saved.map(formatLap), newRecords };
+};
+
+/**
+ * A session's laps with the best valid lap for each track and car driven,
+ * and whether it stands as the track record
+ */
+export const getSessionLaps = async (sessionId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    throw new AppError('Session not found', 404);
+  }
+  const laps = await LapTimeModel.find({ sessionId }).sort({ lapNumber: 1 });
+
+  const bestByCombo = new Map<string, ILapTime>();
+  for (const lap of laps) {
+    const key = `${lap.track}\u0000${lap.car}`;
+    const best = bestByCombo.get(key);
+    if (lap.valid && (!best || lap.lapTimeMs < best.lapTimeMs)) {
+      bestByCombo.set(key, lap);
+    }
+  }
+
+  const bestLaps = await Promise.all([...bestByCombo.values()].map(async lap => {
+    const record = await getTrackRecord(lap.track, lap.car);
+    return { ...formatLap(lap), isTrackRecord: record?._id.toString() === lap._id.toString() };
+  }));
+
+  return {
+    sessionId,
+    laps: laps.map(formatLap),
+    bestLaps,
+  };
+};
+
+/**
+ * Each driver's fastest valid lap on a track, optionally in one car and
+ * within the week or month. Drivers are told apart by phone and name.
+ */
+export const getLapLeaderboard = async (
+  track: string,
+  car: string | undefined,
+  period: LeaderboardPeriod,
+  limit: number
+): Promise<LapLeaderboardEntry[]> => {
+  const since = getPeriodStart(period);
+  const rows = await LapTimeModel.aggregate([
+    {
+      $match: {
+        track,
+        valid: true,
+        ...(car && { car }),
+        ...(since && { setAt: { $gte: since } }),
+      },
+    },
+    { $sort: { lapTimeMs: 1, setAt: 1 } },
+    {
+      $group: {
+        _id: { phone: '$customerPhone', driver: { $toLower: '$driverName' } },
+        driverName: { $first: '$driverName' },
+        car: { $first: '$car' },
+        lapTimeMs: { $first: '$lapTimeMs' },
+        setAt: { $first: '$setAt' },
+        sessionId: { $first: '$sessionId' },
+      },
+    },
+    { $sort: { lapTimeMs: 1, setAt: 1 } },
+    { $limit: limit },
+  ]);
+
+  return rows.map((row, index) => ({
+    rank: index + 1,
+    driverName: row.driverName,
+    car: row.car,
+    lapTimeMs: row.lapTimeMs,
+    setAt: row.setAt,
+    sessionId: row.sessionId.toString(),
+  }));
+};
+
+/**
+ * The fastest valid lap for every track and car that has been driven
+ */
+export const getTrackRecords = async () => {
+  const rows = await LapTimeModel.aggregate([
+    { $match: { valid: true } },
+    { $sort: { lapTimeMs: 1, setAt: 1 } },
+    {
+      $group: {
+        _id: { track: '$track', car: '$car' },
+        driverName: { $first: '$driverName' },
+        lapTimeMs: { $first: '$lapTimeMs' },
+        setAt: { $first: '$setAt' },
+        laps: { $sum: 1 },
+      },
+    },
+    { $sort: { '_id.track': 1, '_id.car': 1 } },
+  ]);
+
+  return rows.map(row => ({
+    track: row._id.track,
+    car: row._id.car,
+    driverName: row.driverName,
+    lapTimeMs: row.lapTimeMs,
+    setAt: row.setAt,
+    laps: row.laps,
+  }));
+};
+
+/**
+ * Lap counts and best lap for each of these sessions, for booking history
+ */
+export const getLapSummaries = async (sessionIds: mongoose.Types.ObjectId[]) => {
+  const rows = await LapTimeModel.aggregate([
+    { $match: { sessionId: { $in: sessionIds } } },
+    { $sort: { valid: -1, lapTimeMs: 1 } },
+    {
+      $group: {
+        _id: '$sessionId',
+        count: { $sum: 1 },
+        bestLapMs: { $first: { $cond: ['$valid', '$lapTimeMs', null] } },
+        track: { $first: '$track' },
+        car: { $first: '$car' },
+      },
+    },
+  ]);
+  return new Map(rows.map(row => [
+    row._id.toString(),
+    { count: row.count, bestLapMs: row.bestLapMs ?? undefined, track: row.track, car: row.car },
+  ]));
+};
+
+export const deleteLap = async (lapId: string, scope: string | null): Promise<void> => {
+  const lap = mongoose.Types.ObjectId.isValid(lapId) ? await LapTimeModel.findById(lapId) : null;
+  if (!lap || !inBranchScope(lap.branchId, scope)) {
+    throw new AppError('Lap not found', 404);
+  }
+  await lap.deleteOne();
+};
@@ -0,0 +1,322 @@
+import mongoose from 'mongoose';
+import { CustomerModel, ICustomer } from '../models/Customer.js';
+import { LoyaltyTransactionModel } from '../models/LoyaltyTransaction.js';
+import { ActivityModel } from '../models/Activity.js';
+import { SessionModel, ISession } from '../models/Session.js';
+import { FoodOrderModel, IFoodOrder } from '../models/Order.js';
+import { ReservationModel, IReservation } from '../models/Reservation.js';
+import { redisUtils } from '../config/redis.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { normalizePhone } from './otp.js';
+
+export type LoyaltyTier = 'member' | 'silver' | 'gold';
+
+export interface LoyaltyTierConfig {
+  tier: LoyaltyTier;
+  name: string;
+  minLifetimePoints: number;
+  discountPercent: number;
+}
+
+export interface MemberDiscount {
+  tier: LoyaltyTier;
+  label: string;
+  percent: number;
+}
+
+// Highest tier first
+export const LOYALTY_TIERS: LoyaltyTierConfig[] = [
+  { tier: 'gold', name: 'Gold', minLifetimePoints: 2000, discountPercent: 10 },
+  { tier: 'silver', name: 'Silver', minLifetimePoints: 500, discountPercent: 5 },
+  { tier: 'member', name: 'Member', minLifetimePoints: 0, discountPercent: 0 },
+];
+
+// Food isn't an activity, so its earn rate comes from the environment
+const FOOD_POINTS_PER_RUPEE = parseFloat(process.env.LOYALTY_FOOD_POINTS_PER_RUPEE || '0.05');
+
+// Each point is worth ₹1, and points can cover at most half of a bill
+export const POINT_VALUE_RUPEES = 1;
+export const MAX_REDEEM_FRACTION = 0.5;
+
+const PAID_STATUSES = ['paid', 'offline', 'partially_refunded', 'refunded'];
+
+// A sync only takes a few queries, so another one for the same bill is waited out rather than skipped
+const SYNC_LOCK_RETRIES = 50;
+const SYNC_LOCK_RETRY_MS = 100;
+const COMPLETED_SESSION_STATUSES = ['ended', 'completed'];
+
+export const getLoyaltyTier = (lifetimePoints: number): LoyaltyTierConfig => {
+  return LOYALTY_TIERS.find(t => lifetimePoints >= t.minLifetimePoints) || LOYALTY_TIERS[LOYALTY_TIERS.length - 1];
+};
+
+/**
+ * Tier discount for a phone, or null for unknown customers and plain members
+ */
+export const getMemberDiscount = async (phone: string): Promise<MemberDiscount | null> => {
+  const customer = await CustomerModel.findOne({ phone: normalizePhone(phone) });
+  if (!customer) {
+    return null;
+  }
+
+  const tier = getLoyaltyTier(customer.lifetimePoints || 0);
+  if (tier.discountPercent <= 0) {
+    return null;
+  }
+
+  return {
+    tier: tier.tier,
+    label: `${tier.name} member discount`,
+    percent: tier.discountPercent,
+  };
+};
+
+/**
+ * The phone to price a new booking's member discount on: the booking's own
+ * phone, but only when the customer is signed in with it, so a typed-in
+ * number never reveals or borrows someone else's tier
+ */
+export const signedInMemberPhone = (
+  customerPhone: string | undefined,
+  signedInPhone: string | undefined
+): string | undefined => {
+  if (!customerPhone || !signedInPhone || normalizePhone(customerPhone) !== normalizePhone(signedInPhone)) {
+    return undefined;
+  }
+  return normalizePhone(signedInPhone);
+};
+
+/**
+ * The phone to keep pricing a booking's extensions, early finishes and moves
+ * on: set only when the booking itself was made at member prices
+ */
+export const bookedMemberPhone = (booking: { customerPhone: string; memberPricing?: boolean }): string | undefined => {
+  return booking.memberPricing ? booking.customerPhone : undefined;
+};
+
+/**
+ * Most points that can go towards a bill of the given amount
+ */
+export const getMaxRedeemablePoints = (amount: number): number => {
+  return Math.floor((amount * MAX_REDEEM_FRACTION) / POINT_VALUE_RUPEES);
+};
+
+const recordTransaction = async (
+  phone: string,
+  type: 'earn' | 'redeem',
+  points: number,
+  entityType: 'session' | 'order' | 'reservation',
+  entityId: mongoose.Types.ObjectId,
+  description: string,
+  customerName?: string
+): Promise<ICustomer> => {
+  const customer = await CustomerModel.findOneAndUpdate(
+    { phone },
+    {
+      $inc: {
+        loyaltyPoints: points,
+        ...(type === 'earn' && { lifetimePoints: points }),
+      },
+      $setOnInsert: { name: customerName },
+    },
+    { new: true, upsert: true }
+  );
+
+  await LoyaltyTransactionModel.create({
+    phone,
+    type,
+    points,
+    entityType,
+    entityId,
+    description,
+    balanceAfter: customer!.loyaltyPoints,
+  });
+
+  return customer!;
+};
+
+const getTargetPoints = async (entityType: 'session' | 'order', entity: ISession | IFoodOrder): Promise<number> => {
+  if (!PAID_STATUSES.includes(entity.paymentStatus)) {
+    return 0;
+  }
+
+  if (entityType === 'session') {
+    const session = entity as ISession;
+    // Time paid from a prepaid pack was already sold at a discount
+    if (!COMPLETED_SESSION_STATUSES.includes(session.status) || session.isChallengeSession || session.paymentMethod === 'package') {
+      return 0;
+    }
+    const activity = await ActivityModel.findById((session.activityId as any)?._id || session.activityId);
+    const rate = activity?.loyaltyPointsPerRupee ?? 0;
+    return Math.floor(Math.max(0, (session.amount || 0) - (session.refundedAmount || 0)) * rate);
+  }
+
+  const order = entity as IFoodOrder;
+  if (order.status === 'cancelled') {
+    return 0;
+  }
+  return Math.floor(Math.max(0, order.totalAmount - (order.refundedAmount || 0)) * FOOD_POINTS_PER_RUPEE);
+};
+
+/**
+ * Bring the points earned from a session or food order in line with what was
+ * actually paid for it. Safe to call after any payment, refund or status change;
+ * only the difference is written to the ledger. Calls for the same bill take
+ * turns, each working from the bill as saved at the time. Never throws, so
+ * loyalty bookkeeping can't fail a payment.
+ */
+export const syncLoyaltyPoints = async (
+  entityType: 'session' | 'order',
+  entity: ISession | IFoodOrder
+): Promise<void> => {
+  const phone = normalizePhone(entity.customerPhone);
+  if (!phone) {
+    return;
+  }
+
+  const lockKey = `loyalty:${entityType}:${entity._id}`;
+  let acquired = false;
+  for (let attempt = 0; attempt <= SYNC_LOCK_RETRIES; attempt++) {
+    acquired = await redisUtils.acquireLock(lockKey, '1', 10).catch(() => false);
+    if (acquired) break;
+    await new Promise(resolve => setTimeout(resolve, SYNC_LOCK_RETRY_MS));
+  }
+  if (!acquired) {
+    console.error(`Gave up waiting to sync loyalty points for ${entityType} ${entity._id}`);
+    return;
+  }
+
+  try {
+    // Whoever held the lock before may have synced a newer state than the caller loaded
+    const fresh = entityType === 'session'
+      ? await SessionModel.findById(entity._id)
+      : await FoodOrderModel.findById(entity._id);
+    const target = await getTargetPoints(entityType, fresh || entity);
+    const [earned] = await LoyaltyTransactionModel.aggregate<{ total: number }>([
+      { $match: { entityType, entityId: entity._id, type: 'earn' } },
+      { $group: { _id: null, total: { $sum: '$points' } } },
+    ]);
+    const difference = target - (earned?.total || 0);
+    if (difference === 0) {
+      return;
+    }
+
+    const label = entityType === 'session' ? 'session' : 'food order';
+    const description = difference > 0
+      ? `Earned for ${label}`
+      : `Reversed for ${label} refund or cancellation`;
+
+    await recordTransaction(phone, 'earn', difference, entityType, entity._id as mongoose.Types.ObjectId, description, entity.customerName);
+  } catch (error) {
+    console.error(`Error syncing loyalty points for ${entityType} ${entity._id}:`, error);
+  } finally {
+    await redisUtils.releaseLock(lockKey).catch(() => undefined);
+  }
+};
+
+/**
+ * Spend points against an unpaid reservation or food order, lowering the amount due
+ */
+export const redeemLoyaltyPoints = async (
+  entityType: 'reservation' | 'order',
+  entity: IReservation | IFoodOrder,
+  requestedPoints: number
+): Promise<{ pointsRedeemed: number; discount: number; amount: number; balance: number }> => {
+  const phone = normalizePhone(entity.customerPhone);
+  const amount = entityType === 'reservation'
+    ? (entity as IReservation).amount
+    : (entity as IFoodOrder).totalAmount;
+
+  if (entity.loyaltyPointsRedeemed > 0) {
+    throw new AppError('Points have already been redeemed on this booking', 400);
+  }
+
+  const points = Math.min(Math.floor(requestedPoints), getMaxRedeemablePoints(amount));
+  if (points <= 0) {
+    throw new AppError('This bill is too small to redeem points on', 400);
+  }
+
+  const customer = await CustomerModel.findOneAndUpdate(
+    { phone, loyaltyPoints: { $gte: points } },
+    { $inc: { loyaltyPoints: -points } },
+    { new: true }
+  );
+  if (!customer) {
+    throw new AppError('Not enough loyalty points', 400);
+  }
+
+  const discount = points * POINT_VALUE_RUPEES;
+  const claim = {
+    $set: { loyaltyPointsRedeemed: points, loyaltyDiscount: discount },
+    $inc: { [entityType === 'reservation' ? 'amount' : 'totalAmount']: -discount },
+  };
+  const unredeemed = { _id: entity._id, loyaltyPointsRedeemed: { $in: [0, null] } };
+  const claimed = entityType === 'reservation'
+    ? await ReservationModel.updateOne(unredeemed, claim)
+    : await FoodOrderModel.updateOne(unredeemed, claim);
+
+  if (claimed.modifiedCount === 0) {
+    await CustomerModel.updateOne({ phone }, { $inc: { loyaltyPoints: points } });
+    throw new AppError('Points have already been redeemed on this booking', 409);
+  }
+
+  entity.loyaltyPointsRedeemed = points;
+  entity.loyaltyDiscount = discount;
+  if (entityType === 'reservation') {
+    (entity as IReservation).amount = amount - discount;
+  } else {
+    (entity as IFoodOrder).totalAmount = amount - discount;
+  }
+
+  await LoyaltyTransactionModel.create({
+    phone,
+    type: 'redeem',
+    points: -points,
+    entityType,
+    entityId: entity._id,
+    description: `Redeemed on ${entityType === 'reservation' ? 'booking' : 'food order'}`,
+    balanceAfter: customer.loyaltyPoints,
+  });
+
+  return {
+    pointsRedeemed: points,
+    discount,
+    amount: amount - discount,
+    balance: customer.loyaltyPoints,
+  };
+};
+
+/**
+ * Give back points spent on a reservation or order that was never fulfilled.
+ * Never throws, like syncLoyaltyPoints.
+ */
+export const restoreRedeemedPoints = async (
+  entityType: 'reservation' | 'order',
+  entity: IReservation | IFoodOrder
+): Promise<void> => {
+  const points = entity.loyaltyPointsRedeemed || 0;
+  if (points <= 0) {
+    return;
+  }
+
+  try {
+    const redeemed = { _id: entity._id, loyaltyPointsRedeemed: points };
+    const released = entityType === 'reservation'
+      ? await ReservationModel.updateOne(redeemed, { $set: { loyaltyPointsRedeemed: 0 } })
+      : await FoodOrderModel.updateOne(redeemed, { $set: { loyaltyPointsRedeemed: 0 } });
+    if (released.modifiedCount === 0) {
+      return;
+    }
+    entity.loyaltyPointsRedeemed = 0;
+
+    await recordTransaction(
+      normalizePhone(entity.customerPhone),
+      'redeem',
+      points,
+      entityType,
+      entity._id as mongoose.Types.ObjectId,
+      `Returned from cancelled ${entityType === 'reservation' ? 'booking' : 'food order'}`
+    );
+  } catch (error) {
+    console.error(`Error restoring loyalty points for ${entityType} ${entity._id}:`, error);
+  }
+};
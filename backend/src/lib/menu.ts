@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+import { IMenuItem, MenuItemModel } from '../models/Order.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+/**
+ * Look up a menu item by its ObjectId or by the name slug the menu API hands out,
+ * making sure it can still be ordered at the branch
+ */
+export const findOrderableMenuItem = async (
+  menuItemId: string,
+  branchId: mongoose.Types.ObjectId
+): Promise<IMenuItem> => {
+  let menuItem;
+  if (mongoose.Types.ObjectId.isValid(menuItemId)) {
+    menuItem = await MenuItemModel.findOne({ _id: menuItemId, branchId });
+  } else {
+    const searchName = menuItemId
+      .split('-')
+      .map((word: string) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+    
+    menuItem = await MenuItemModel.findOne({ 
+      branchId,
+      $or: [
+        { name: { $regex: new RegExp(`^${searchName}$`, 'i') } },
+        { name: { $regex: new RegExp(menuItemId.replace(/-/g, ' '), 'i') } },
+        { name: menuItemId }
+      ]
+    });
+  }
+  
+  if (!menuItem) {
+    throw new AppError(`Menu item ${menuItemId} not found`, 404);
+  }
+  if (!menuItem.available) {
+    throw new AppError(`Menu item ${menuItem.name} is not available`, 400);
+  }
+
+  return menuItem;
+};
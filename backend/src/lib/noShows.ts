@@ -0,0 +1,121 @@
+import { SessionModel, ISession } from '../models/Session.js';
+import { IActivity, ActivityUnitModel } from '../models/Activity.js';
+import { CustomerModel } from '../models/Customer.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { normalizePhone } from './otp.js';
+import { processWaitingQueue, broadcastQueueEstimates } from './queueManager.js';
+
+export const CHECK_IN_OPENS_MINUTES = 30; // how early before the start a customer can check in
+
+/**
+ * When a booked slot is given up on if nobody has checked in
+ */
+export const getCheckInDeadline = (startTime: Date, activity: IActivity): Date => {
+  return new Date(startTime.getTime() + (activity.noShowGraceMinutes || 15) * 60000);
+};
+
+/**
+ * Record that the customer has arrived for a booked session. The session
+ * itself still starts at its start time.
+ */
+export const checkInSession = async (session: ISession, by: 'staff' | 'customer'): Promise<ISession> => {
+  if (!['scheduled', 'active'].includes(session.status)) {
+    throw new AppError('Only upcoming or running sessions can be checked in', 400);
+  }
+  if (session.checkedInAt) {
+    throw new AppError('This session is already checked in', 400);
+  }
+
+  const now = new Date();
+  if (session.startTime.getTime() - now.getTime() > CHECK_IN_OPENS_MINUTES * 60000) {
+    throw new AppError(`Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the start time`, 400);
+  }
+
+  session.checkedInAt = now;
+  await session.save();
+
+  // A group arrives together, so one check-in covers every unit
+  if (session.groupBookingId) {
+    await SessionModel.updateMany(
+      {
+        groupBookingId: session.groupBookingId,
+        status: { $in: ['scheduled', 'active'] },
+        checkedInAt: { $exists: false },
+      },
+      { checkedInAt: now }
+    );
+  }
+
+  const { broadcastSessionEvent, notifyCustomerByPhone } = await import('../websocket/server.js');
+  broadcastSessionEvent('session_checked_in', {
+    session_id: session._id.toString(),
+    activity_id: session.activityId.toString(),
+    checked_in_by: by,
+    checked_in_at: now.toISOString(),
+  });
+  notifyCustomerByPhone(session.customerPhone, 'session_checked_in', {
+    sessionId: session._id.toString(),
+    startTime: session.startTime.toISOString(),
+    message: 'You are checked in. Enjoy your game!',
+    timestamp: now.toISOString(),
+  });
+
+  return session;
+};
+
+/**
+ * Give up on a booked session nobody checked in for: free the unit, offer
+ * it to the queue and count the no-show against the phone number
+ */
+export const markNoShow = async (session: ISession): Promise<void> => {
+  const wasRunning = session.status === 'active';
+  const now = new Date();
+
+  session.status = 'no_show';
+  session.actualEndTime = now;
+  await session.save();
+
+  // Imported lazily: tournaments reaches this module through availability
+  const { releaseMatch } = await import('./tournaments.js');
+  await releaseMatch(session);
+
+  await redisUtils.delete(`session:${session._id}`);
+  if (wasRunning) {
+    await ActivityUnitModel.findByIdAndUpdate(session.unitId, { status: 'available' });
+  }
+
+  await CustomerModel.findOneAndUpdate(
+    { phone: normalizePhone(session.customerPhone) },
+    { $inc: { noShowCount: 1 }, $set: { lastNoShowAt: now } },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+
+  const { broadcastSessionEvent, broadcastAvailabilityChange, notifyCustomerByPhone } = await import('../websocket/server.js');
+  broadcastSessionEvent('session_no_show', {
+    session_id: session._id.toString(),
+    activity_id: session.activityId.toString(),
+    unit_id: session.unitId.toString(),
+  });
+  notifyCustomerByPhone(session.customerPhone, 'session_no_show', {
+    sessionId: session._id.toString(),
+    message: 'You did not check in for your booking, so the slot has been released.',
+    timestamp: now.toISOString(),
+  });
+  broadcastAvailabilityChange(session.activityId.toString(), 'available');
+
+  try {
+    await processWaitingQueue(session.activityId.toString());
+    await broadcastQueueEstimates(session.activityId.toString());
+  } catch (error) {
+    console.error('Error processing waiting queue:', error);
+  }
+};
+
+/**
+ * Whether a phone number has been barred from paying at the counter
+ */
+export const isPrepaymentRequired = async (phone: string): Promise<boolean> => {
+  const customer = await CustomerModel.findOne({ phone: normalizePhone(phone) });
+  return !!customer?.prepaymentRequired;
+};
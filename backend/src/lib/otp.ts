@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { redisUtils } from '../config/redis.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getSmsSender } from './sms.js';
+
+export const OTP_TTL_SECONDS = 5 * 60;
+export const OTP_RESEND_SECONDS = 30;
+const OTP_MAX_ATTEMPTS = 5;
+// Codes a single phone can be sent per hour, whichever IP asks
+const OTP_MAX_SENDS = 5;
+const OTP_SEND_WINDOW_SECONDS = 60 * 60;
+
+interface StoredOtp {
+  hash: string;
+}
+
+const otpKey = (phone: string) => `otp:${phone}`;
+const attemptsKey = (phone: string) => `otp:attempts:${phone}`;
+const sendsKey = (phone: string) => `otp:sends:${phone}`;
+
+const hashCode = (phone: string, code: string): string => {
+  return crypto
+    .createHmac('sha256', process.env.JWT_SECRET || 'otp')
+    .update(`${phone}:${code}`)
+    .digest('hex');
+};
+
+export const normalizePhone = (phone: string): string => (phone || '').replace(/\D/g, '');
+
+/**
+ * Generate a 6-digit code for the phone, store its hash and text it to the customer.
+ */
+export const sendOtp = async (phone: string): Promise<void> => {
+  const cooldownAcquired = await redisUtils.acquireLock(`otp:cooldown:${phone}`, '1', OTP_RESEND_SECONDS);
+  if (!cooldownAcquired) {
+    throw new AppError(`Please wait ${OTP_RESEND_SECONDS} seconds before requesting another code`, 429);
+  }
+  const sends = await redisUtils.increment(sendsKey(phone), OTP_SEND_WINDOW_SECONDS);
+  if (sends > OTP_MAX_SENDS) {
+    throw new AppError('Too many codes requested for this number. Please try again in an hour.', 429);
+  }
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  await redisUtils.setCache(otpKey(phone), { hash: hashCode(phone, code) }, OTP_TTL_SECONDS);
+  await redisUtils.delete(attemptsKey(phone));
+
+  await getSmsSender().send(
+    phone,
+    `${code} is your A3 House of Friends login code. It expires in ${OTP_TTL_SECONDS / 60} minutes.`
+  );
+};
+
+const discardOtp = async (phone: string): Promise<void> => {
+  await redisUtils.delete(otpKey(phone));
+  await redisUtils.delete(attemptsKey(phone));
+};
+
+/**
+ * Check a code. Each code can be used once and is discarded after too many wrong guesses.
+ * Every guess is counted before it is compared, so parallel guesses can't
+ * get past the limit between reading and writing the count.
+ */
+export const verifyOtp = async (phone: string, code: string): Promise<void> => {
+  const stored = await redisUtils.getCache<StoredOtp>(otpKey(phone));
+  if (!stored) {
+    throw new AppError('Code expired or not requested. Please request a new one.', 400);
+  }
+
+  const attempts = await redisUtils.increment(attemptsKey(phone), OTP_TTL_SECONDS);
+  if (attempts > OTP_MAX_ATTEMPTS) {
+    await discardOtp(phone);
+    throw new AppError('Too many incorrect attempts. Please request a new code.', 400);
+  }
+
+  const expected = Buffer.from(stored.hash, 'hex');
+  const actual = Buffer.from(hashCode(phone, String(code)), 'hex');
+
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    if (attempts === OTP_MAX_ATTEMPTS) {
+      await discardOtp(phone);
+      throw new AppError('Too many incorrect attempts. Please request a new code.', 400);
+    }
+    throw new AppError('Incorrect code', 400);
+  }
+
+  await discardOtp(phone);
+};
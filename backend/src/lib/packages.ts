@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import { IActivity } from '../models/Activity.js';
+import { ISession } from '../models/Session.js';
+import { PackagePurchaseModel, IPackagePurchase } from '../models/PackagePurchase.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { normalizePhone } from './otp.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isExpired = (purchase: IPackagePurchase, now = new Date()): boolean => {
+  return !!purchase.expiresAt && purchase.expiresAt <= now;
+};
+
+export const formatPackagePurchase = (purchase: IPackagePurchase) => {
+  const activity = purchase.activityId as any;
+
+  return {
+    id: purchase._id.toString(),
+    packageId: purchase.packageId.toString(),
+    activityId: activity?.type || (activity?._id || purchase.activityId).toString(),
+    activityName: activity?.name,
+    name: purchase.name,
+    kind: purchase.kind,
+    price: purchase.price,
+    totalMinutes: purchase.totalMinutes,
+    totalCredit: purchase.totalCredit,
+    remainingMinutes: purchase.remainingMinutes,
+    remainingCredit: purchase.remainingCredit,
+    status: purchase.status === 'active' && isExpired(purchase) ? 'expired' : purchase.status,
+    activatedAt: purchase.activatedAt,
+    expiresAt: purchase.expiresAt,
+    createdAt: purchase.createdAt,
+  };
+};
+
+/**
+ * Start a pack's validity period once it has been paid for
+ */
+export const activatePackagePurchase = async (
+  purchase: IPackagePurchase,
+  paymentId: string
+): Promise<IPackagePurchase> => {
+  const activatedAt = new Date();
+  const activated = await PackagePurchaseModel.findOneAndUpdate(
+    { _id: purchase._id, status: 'pending_payment' },
+    {
+      $set: {
+        status: 'active',
+        paymentId,
+        activatedAt,
+        expiresAt: new Date(activatedAt.getTime() + purchase.validityDays * DAY_MS),
+      },
+    },
+    { new: true }
+  );
+
+  if (!activated) {
+    throw new AppError('This pack is not awaiting payment', 400);
+  }
+
+  return activated;
+};
+
+/**
+ * Pay for a booking from a customer's pack. Hours packs are charged the booked
+ * minutes and credit packs the booking's price; both are recorded in the pack's
+ * usage so the booking can be given back later.
+ */
+export const debitPackage = async (
+  purchaseId: string,
+  customerPhone: string,
+  activity: IActivity,
+  entityType: 'reservation' | 'session',
+  entityId: mongoose.Types.ObjectId,
+  minutes: number,
+  amount: number
+): Promise<IPackagePurchase> => {
+  if (!mongoose.Types.ObjectId.isValid(purchaseId)) {
+    throw new AppError('Invalid pack ID', 400);
+  }
+
+  const purchase = await PackagePurchaseModel.findById(purchaseId);
+  if (!purchase || purchase.customerPhone !== normalizePhone(customerPhone)) {
+    throw new AppError('Pack not found', 404);
+  }
+
+  if (purchase.status !== 'active' || isExpired(purchase)) {
+    throw new AppError('This pack has expired or has not been paid for', 400);
+  }
+
+  if (purchase.activityId.toString() !== activity._id.toString()) {
+    throw new AppError(`This pack can't be used for ${activity.name}`, 400);
+  }
+
+  const field = purchase.kind === 'hours' ? 'remainingMinutes' : 'remainingCredit';
+  const cost = purchase.kind === 'hours' ? minutes : amount;
+
+  const debited = await PackagePurchaseModel.findOneAndUpdate(
+    {
+      _id: purchase._id,
+      status: 'active',
+      expiresAt: { $gt: new Date() },
+      [field]: { $gte: cost },
+    },
+    {
+      $inc: { [field]: -cost },
+      $push: { usage: { entityType, entityId, minutes: -minutes, amount: -amount } },
+    },
+    { new: true }
+  );
+
+  if (!debited) {
+    throw new AppError(
+      purchase.kind === 'hours' ? 'Not enough hours left on this pack' : 'Not enough credit left on this pack',
+      400
+    );
+  }
+
+  return debited;
+};
+
+/**
+ * Give back part of what a session took from its pack, e.g. when staff refund it.
+ * Hours packs get back the same share of the minutes that the amount is of the price.
+ */
+export const creditPackage = async (
+  session: ISession,
+  amount: number,
+  note?: string
+): Promise<IPackagePurchase> => {
+  const purchase = await PackagePurchaseModel.findById(session.packagePurchaseId);
+  if (!purchase) {
+    throw new AppError('Pack not found', 404);
+  }
+
+  const entityIds = [session._id, session.reservationId]
+    .filter(Boolean)
+    .map(id => id!.toString());
+  const used = purchase.usage.filter(u => entityIds.includes(u.entityId.toString()) && u.amount < 0);
+  const usedAmount = -used.reduce((sum, u) => sum + u.amount, 0);
+  const usedMinutes = -used.reduce((sum, u) => sum + u.minutes, 0);
+  const minutes = usedAmount > 0 ? Math.round((usedMinutes * amount) / usedAmount) : 0;
+
+  const credited = await PackagePurchaseModel.findByIdAndUpdate(
+    purchase._id,
+    {
+      $inc: purchase.kind === 'hours' ? { remainingMinutes: minutes } : { remainingCredit: amount },
+      $push: { usage: { entityType: 'session', entityId: session._id, minutes, amount, note } },
+    },
+    { new: true }
+  );
+
+  return credited!;
+};
+
+/**
+ * Paid, unexpired packs for a customer, optionally only those for one activity
+ */
+export const getUsablePackages = async (
+  customerPhone: string,
+  activityId?: mongoose.Types.ObjectId
+): Promise<IPackagePurchase[]> => {
+  const purchases = await PackagePurchaseModel.find({
+    customerPhone: normalizePhone(customerPhone),
+    status: 'active',
+    expiresAt: { $gt: new Date() },
+    ...(activityId && { activityId }),
+  })
+    .populate('activityId', 'type name')
+    .sort({ expiresAt: 1 });
+
+  return purchases.filter(p => (p.kind === 'hours' ? p.remainingMinutes : p.remainingCredit) > 0);
+};
@@ -0,0 +1,129 @@
+import { SessionModel, ISession } from '../models/Session.js';
+import { IActivity, ActivityUnitModel } from '../models/Activity.js';
+import { redisUtils } from '../config/redis.js';
+import { quoteActivityPrice, PriceBreakdown } from './pricing.js';
+import { bookedMemberPhone, syncLoyaltyPoints } from './loyalty.js';
+import { processWaitingQueue, broadcastQueueEstimates } from './queueManager.js';
+
+// How long a billed open-ended session keeps its unit waiting for payment before staff are asked to collect it
+export const POSTPAID_PAYMENT_GRACE_MINUTES = parseInt(process.env.POSTPAID_PAYMENT_GRACE_MINUTES || '15', 10);
+
+/**
+ * Price an open-ended session on the minutes actually played, never less
+ * than the activity's minimum
+ */
+export const quoteOpenSession = async (
+  session: ISession,
+  activity: IActivity,
+  playedMinutes: number
+): Promise<{ billedMinutes: number; quote: PriceBreakdown }> => {
+  const billedMinutes = Math.max(playedMinutes, activity.minimumDuration || 1, 1);
+  const quote = await quoteActivityPrice(
+    activity,
+    billedMinutes,
+    session.actualStartTime || session.startTime,
+    bookedMemberPhone(session)
+  );
+  return { billedMinutes, quote };
+};
+
+/**
+ * Hand a finished session's unit back: mark it available, drop the cached
+ * timer and offer it to the waiting queue
+ */
+export const releaseSessionUnit = async (session: ISession): Promise<void> => {
+  await ActivityUnitModel.findByIdAndUpdate(session.unitId, { status: 'available' });
+  await redisUtils.delete(`session:${session._id}`);
+
+  try {
+    await processWaitingQueue(session.activityId.toString());
+    await broadcastQueueEstimates(session.activityId.toString());
+  } catch (error) {
+    console.error('Error processing waiting queue:', error);
+  }
+};
+
+/**
+ * Close out an open-ended session once its bill is paid
+ */
+export const settleOpenSession = async (session: ISession): Promise<ISession> => {
+  const settled = await SessionModel.findOneAndUpdate(
+    { _id: session._id, status: 'awaiting_payment' },
+    { status: 'ended' },
+    { new: true }
+  );
+  if (!settled) {
+    return session;
+  }
+
+  await syncLoyaltyPoints('session', settled);
+  // An overdue bill has already handed its unit back, and someone else may be on it now
+  if (!settled.paymentOverdueAt) {
+    await releaseSessionUnit(settled);
+  }
+
+  const { getIO, notifyCustomerById, broadcastAvailabilityChange } = await import('../websocket/server.js');
+  const sessionData = {
+    session_id: settled._id.toString(),
+    status: settled.status,
+    finalAmount: settled.finalAmount,
+    totalAmount: settled.amount,
+    totalPausedDuration: settled.totalPausedDuration,
+    actualUsageMinutes: settled.duration,
+    actualEndTime: settled.actualEndTime,
+    message: 'Payment received. Session closed.',
+  };
+  notifyCustomerById(settled._id.toString(), 'session', 'session_ended', sessionData);
+
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('session_ended', sessionData);
+  }
+  if (!settled.paymentOverdueAt) {
+    broadcastAvailabilityChange(settled.activityId.toString(), 'available');
+  }
+
+  return settled;
+};
+
+/**
+ * Hand back the unit of a bill that wasn't paid in time and ask staff to
+ * collect it at the counter. The session keeps waiting for payment until
+ * they do. Returns whether this call escalated it.
+ */
+export const escalateUnpaidSession = async (session: ISession): Promise<boolean> => {
+  const overdue = await SessionModel.findOneAndUpdate(
+    { _id: session._id, status: 'awaiting_payment', paymentOverdueAt: { $exists: false } },
+    { $set: { paymentOverdueAt: new Date() } },
+    { new: true }
+  );
+  if (!overdue) {
+    return false;
+  }
+
+  await releaseSessionUnit(overdue);
+
+  const { getIO, notifyCustomerById, broadcastAvailabilityChange } = await import('../websocket/server.js');
+  const overdueData = {
+    session_id: overdue._id.toString(),
+    status: overdue.status,
+    finalAmount: overdue.finalAmount,
+    paymentDueBy: overdue.paymentDueBy,
+    paymentOverdueAt: overdue.paymentOverdueAt,
+    message: `₹${overdue.finalAmount} for your session is still unpaid. Please pay at the counter.`,
+  };
+  notifyCustomerById(overdue._id.toString(), 'session', 'session_payment_overdue', overdueData);
+
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('session_payment_overdue', {
+      ...overdueData,
+      customerName: overdue.customerName,
+      customerPhone: overdue.customerPhone,
+      unitId: overdue.unitId.toString(),
+    });
+  }
+  broadcastAvailabilityChange(overdue.activityId.toString(), 'available');
+
+  return true;
+};
@@ -1,38 +1,261 @@
 import { IActivity } from '../models/Activity.js';
+import { PricingRuleModel, PricingDateRange } from '../models/PricingRule.js';
+import { getMemberDiscount, MemberDiscount } from './loyalty.js';
+import { businessClock, atBusinessMinute, formatBusinessDate } from './availability.js';
 
+export interface PricingRuleInput {
+  id?: string;
+  name: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  dateRanges: PricingDateRange[];
+  adjustmentType: 'multiplier' | 'flat_rate';
+  multiplier?: number;
+  flatRate?: number;
+  priority: number;
+}
+
+export interface PriceLineItem {
+  label: string;
+  ruleId?: string;
+  startTime: Date;
+  endTime: Date;
+  minutes: number;
+  rate: number;
+  multiplier: number;
+  amount: number;
+  discountPercent?: number; // only on the membership discount line, whose amount is negative
+}
+
+export interface PriceBreakdown {
+  total: number;
+  lineItems: PriceLineItem[];
+}
+
+const MINUTE_MS = 60000;
+// Longest booking or extension a customer can ask a price for. Open-ended
+// sessions are billed on what was played and aren't held to it.
+export const MAX_BOOKING_MINUTES = 8 * 60;
+
+const toMinuteOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Rules are set in the business's wall-clock time, so days, windows and date
+// ranges are all read in BUSINESS_TIMEZONE rather than the server's
+const matchesDateRanges = (rule: PricingRuleInput, at: Date): boolean => {
+  if (!rule.dateRanges || rule.dateRanges.length === 0) {
+    return true;
+  }
+
+  const date = formatBusinessDate(at);
+  return rule.dateRanges.some(range =>
+    formatBusinessDate(new Date(range.start)) <= date && date <= formatBusinessDate(new Date(range.end))
+  );
+};
+
+/**
+ * Check whether a rule is in force at a given instant.
+ * A window that wraps past midnight belongs to the day it started on.
+ */
+export const ruleAppliesAt = (rule: PricingRuleInput, at: Date): boolean => {
+  if (!matchesDateRanges(rule, at)) {
+    return false;
+  }
+
+  const clock = businessClock(at);
+  const minute = clock.hour * 60 + clock.minute;
+  const start = toMinuteOfDay(rule.startTime);
+  const end = toMinuteOfDay(rule.endTime);
+
+  let day = clock.weekday;
+  if (start < end) {
+    if (minute < start || minute >= end) {
+      return false;
+    }
+  } else if (start > end) {
+    if (minute < end) {
+      day = (day + 6) % 7;
+    } else if (minute < start) {
+      return false;
+    }
+  }
+
+  return !rule.daysOfWeek || rule.daysOfWeek.length === 0 || rule.daysOfWeek.includes(day);
+};
+
+/**
+ * The next instant after `at` when a rule could start or stop applying: a
+ * rule's start or end time, or midnight, when days and date ranges turn over
+ */
+const nextRuleChange = (rules: PricingRuleInput[], at: Date): number => {
+  const minutes = new Set([0, ...rules.flatMap(rule => [toMinuteOfDay(rule.startTime), toMinuteOfDay(rule.endTime)])]);
+  let next = Infinity;
+  for (const minute of minutes) {
+    let candidate = atBusinessMinute(at, minute);
+    if (candidate <= at) {
+      candidate = atBusinessMinute(at, minute, 1);
+    }
+    next = Math.min(next, candidate.getTime());
+  }
+  return next;
+};
+
+const pickRule = (rules: PricingRuleInput[], at: Date): PricingRuleInput | null => {
+  let selected: PricingRuleInput | null = null;
+  for (const rule of rules) {
+    if (ruleAppliesAt(rule, at) && (!selected || rule.priority > selected.priority)) {
+      selected = rule;
+    }
+  }
+  return selected;
+};
+
+/**
+ * Price a booking, splitting it wherever a different pricing rule takes over.
+ * Fixed-duration activities are priced per block using the rule in force when the block starts.
+ * A member discount is taken off the whole booking as a final, negative line.
+ */
 export const calculateActivityPrice = (
   activity: IActivity,
   duration: number,
-  isPeakHour: boolean = false
-): number => {
-  let basePrice = 0;
+  startTime: Date = new Date(),
+  rules: PricingRuleInput[] = [],
+  memberDiscount: MemberDiscount | null = null
+): PriceBreakdown => {
+  const isFixed = activity.pricingType === 'fixed-duration';
+  const stepMinutes = isFixed ? (activity.duration || 20) : 1;
+  const steps = Math.ceil(duration / stepMinutes);
+
+  const stepMs = stepMinutes * MINUTE_MS;
+
+  // Rules only change at their start and end times, so jump from one to the
+  // next rather than looking the rule up for every step
+  const segments: Array<{ rule: PricingRuleInput | null; firstStep: number; stepCount: number }> = [];
+  let step = 0;
+  while (step < steps) {
+    const at = new Date(startTime.getTime() + step * stepMs);
+    const rule = pickRule(rules, at);
+    const changeStep = Math.ceil((nextRuleChange(rules, at) - startTime.getTime()) / stepMs);
+    const stepCount = Math.min(Math.max(changeStep, step + 1), steps) - step;
 
-  if (activity.pricingType === 'per-minute') {
-    basePrice = activity.baseRate * duration;
-  } else if (activity.pricingType === 'per-hour') {
-    const hours = duration / 60;
-    basePrice = activity.baseRate * hours;
-  } else if (activity.pricingType === 'fixed-duration') {
-    const sessions = Math.ceil(duration / (activity.duration || 20));
-    basePrice = activity.baseRate * sessions;
+    const current = segments[segments.length - 1];
+    if (current && current.rule === rule) {
+      current.stepCount += stepCount;
+    } else {
+      segments.push({ rule, firstStep: step, stepCount });
+    }
+    step += stepCount;
   }
 
-  if (isPeakHour && activity.peakMultiplier) {
-    basePrice = basePrice * activity.peakMultiplier;
+  const lineItems: PriceLineItem[] = segments.map(({ rule, firstStep, stepCount }) => {
+    const offset = firstStep * stepMinutes;
+    const minutes = Math.min(duration, (firstStep + stepCount) * stepMinutes) - offset;
+    const rate = rule?.adjustmentType === 'flat_rate' && typeof rule.flatRate === 'number'
+      ? rule.flatRate
+      : activity.baseRate;
+    const multiplier = rule?.adjustmentType === 'multiplier' && typeof rule.multiplier === 'number'
+      ? rule.multiplier
+      : 1;
+
+    let amount = 0;
+    if (activity.pricingType === 'per-minute') {
+      amount = rate * minutes;
+    } else if (activity.pricingType === 'per-hour') {
+      amount = rate * (minutes / 60);
+    } else if (isFixed) {
+      amount = rate * stepCount;
+    }
+
+    return {
+      label: rule ? rule.name : 'Standard rate',
+      ruleId: rule?.id,
+      startTime: new Date(startTime.getTime() + offset * MINUTE_MS),
+      endTime: new Date(startTime.getTime() + (offset + minutes) * MINUTE_MS),
+      minutes,
+      rate,
+      multiplier,
+      amount: Math.round(amount * multiplier),
+    };
+  });
+
+  const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  if (memberDiscount && memberDiscount.percent > 0 && subtotal > 0) {
+    lineItems.push({
+      label: memberDiscount.label,
+      startTime,
+      endTime: new Date(startTime.getTime() + duration * MINUTE_MS),
+      minutes: duration,
+      rate: 0,
+      multiplier: 1,
+      amount: -Math.round((subtotal * memberDiscount.percent) / 100),
+      discountPercent: memberDiscount.percent,
+    });
   }
 
-  return Math.round(basePrice);
+  return {
+    total: lineItems.reduce((sum, item) => sum + item.amount, 0),
+    lineItems,
+  };
 };
 
-export const isPeakHour = (date: Date = new Date()): boolean => {
-  const hour = date.getHours();
-  const day = date.getDay();
-  const isWeekend = day === 5 || day === 6 || day === 0; // Fri, Sat, Sun
+/**
+ * Enabled rules for an activity. Activities without any configured rule keep the
+ * original Fri–Sun 18:00–22:00 peak window driven by their peakMultiplier.
+ */
+export const getPricingRules = async (activity: IActivity): Promise<PricingRuleInput[]> => {
+  const rules = await PricingRuleModel.find({
+    enabled: true,
+    $or: [
+      { activityIds: { $size: 0 } },
+      { activityIds: activity._id },
+    ],
+  }).sort({ priority: -1, createdAt: 1 });
+
+  if (rules.length > 0) {
+    return rules.map(rule => ({
+      id: rule._id.toString(),
+      name: rule.name,
+      daysOfWeek: rule.daysOfWeek,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      dateRanges: rule.dateRanges,
+      adjustmentType: rule.adjustmentType,
+      multiplier: rule.multiplier,
+      flatRate: rule.flatRate,
+      priority: rule.priority,
+    }));
+  }
 
-  if (isWeekend) {
-    return hour >= 18 && hour < 22;
+  if (!activity.peakMultiplier) {
+    return [];
   }
 
-  return false;
+  return [{
+    name: 'Peak hours',
+    daysOfWeek: [5, 6, 0],
+    startTime: '18:00',
+    endTime: '22:00',
+    dateRanges: [],
+    adjustmentType: 'multiplier',
+    multiplier: activity.peakMultiplier,
+    priority: 0,
+  }];
 };
 
+/**
+ * Load the activity's rules and price a booking starting at startTime,
+ * with the customer's membership discount when a phone is given
+ */
+export const quoteActivityPrice = async (
+  activity: IActivity,
+  duration: number,
+  startTime: Date = new Date(),
+  customerPhone?: string
+): Promise<PriceBreakdown> => {
+  const rules = await getPricingRules(activity);
+  const memberDiscount = customerPhone ? await getMemberDiscount(customerPhone) : null;
+  return calculateActivityPrice(activity, duration, startTime, rules, memberDiscount);
+};
@@ -1,23 +1,181 @@
-import { WaitingQueueModel } from '../models/WaitingQueue.js';
+import { WaitingQueueModel, IWaitingQueue } from '../models/WaitingQueue.js';
 import { ReservationModel } from '../models/Reservation.js';
 import { SessionModel } from '../models/Session.js';
-import { ActivityUnitModel, ActivityModel } from '../models/Activity.js';
+import { ActivityUnitModel, ActivityModel, IActivity } from '../models/Activity.js';
 import { broadcastSessionEvent, broadcastAvailabilityChange } from '../websocket/server.js';
+import { restoreRedeemedPoints } from './loyalty.js';
+import { releaseCoupon } from './coupons.js';
+import { isUnitFreeFor } from './availability.js';
+
+// A customer who lets their turn lapse this many times is taken out of the queue
+export const MAX_MISSED_CLAIMS = 2;
+
+/**
+ * Units being held for called queue customers, keyed by unit id with the
+ * reservation each is held for
+ */
+const getHeldUnits = async (activityId: string): Promise<Map<string, string>> => {
+  const offers = await WaitingQueueModel.find({
+    activityId,
+    status: 'waiting',
+    offeredUnitId: { $exists: true, $ne: null },
+  });
+  return new Map(offers.map((entry) => [entry.offeredUnitId!.toString(), entry.reservationId.toString()]));
+};
 
 /**
- * Find an available unit for an activity
+ * Whether a unit is being held for a called queue customer other than this reservation
  */
-export const findAvailableUnit = async (activityId: string): Promise<any | null> => {
+export const isUnitHeldForOther = async (
+  activityId: string,
+  unitId: string,
+  reservationId: string
+): Promise<boolean> => {
+  const holder = (await getHeldUnits(activityId)).get(unitId);
+  return !!holder && holder !== reservationId;
+};
+
+/**
+ * Find an available unit for an activity that is free for the next
+ * `durationMinutes`, skipping units held for someone else's queue claim
+ */
+export const findAvailableUnit = async (
+  activityId: string,
+  durationMinutes: number,
+  reservationId?: string
+): Promise<any | null> => {
+  const activity = await ActivityModel.findById(activityId);
   const units = await ActivityUnitModel.find({
     activityId,
     status: 'available',
   });
+  const held = await getHeldUnits(activityId);
 
-  if (units.length === 0) {
-    return null;
+  for (const unit of units) {
+    const holder = held.get(unit._id.toString());
+    if (holder && holder !== reservationId) {
+      continue;
+    }
+    if (await isUnitFreeFor(unit._id, durationMinutes, activity?.bufferTime || 0, reservationId)) {
+      return unit;
+    }
+  }
+  return null;
+};
+
+export interface QueueEstimate {
+  estimatedWaitMinutes: number;
+  estimatedStartTime: Date;
+}
+
+/**
+ * When each working unit of an activity is next free: now for idle units,
+ * otherwise the end of its running session plus the activity's buffer. A
+ * paused session's clock is stopped, so its remaining time starts from now.
+ */
+const getUnitFreeTimes = async (activity: IActivity, now: number): Promise<number[]> => {
+  const units = await ActivityUnitModel.find({
+    activityId: activity._id,
+    status: { $ne: 'maintenance' },
+  });
+  const sessions = await SessionModel.find({
+    unitId: { $in: units.map((unit) => unit._id) },
+    status: { $in: ['active', 'paused'] },
+  });
+  const bufferMs = (activity.bufferTime || 0) * 60000;
+
+  return units.map((unit) => {
+    const session = sessions.find((s) => s.unitId.toString() === unit._id.toString());
+    if (!session) {
+      return now;
+    }
+
+    // Open-ended sessions could finish any time, so only their minimum is counted
+    const endTime = session.endTime?.getTime()
+      ?? (session.actualStartTime || session.startTime).getTime() + session.duration * 60000;
+    const endsAt = session.status === 'paused' && session.currentPauseStart
+      ? now + (endTime - session.currentPauseStart.getTime())
+      : endTime;
+    return Math.max(endsAt, now) + bufferMs;
+  });
+};
+
+/**
+ * Estimate when everyone waiting for an activity gets a unit. Entries take
+ * the first unit to come free in queue order and hold it for their booked
+ * duration. Keyed by queue entry id; empty when the activity has no units.
+ */
+export const estimateQueueWaits = async (activityId: string): Promise<Map<string, QueueEstimate>> => {
+  const estimates = new Map<string, QueueEstimate>();
+  const activity = await ActivityModel.findById(activityId);
+  if (!activity) {
+    return estimates;
+  }
+
+  const now = Date.now();
+  const freeTimes = await getUnitFreeTimes(activity, now);
+  if (freeTimes.length === 0) {
+    return estimates;
+  }
+
+  const bufferMs = (activity.bufferTime || 0) * 60000;
+  const waitingEntries = await WaitingQueueModel.find({
+    activityId,
+    status: 'waiting',
+  }).sort({ position: 1 });
+
+  for (const entry of waitingEntries) {
+    freeTimes.sort((a, b) => a - b);
+    const startsAt = freeTimes[0];
+    estimates.set(entry._id.toString(), {
+      estimatedWaitMinutes: Math.ceil((startsAt - now) / 60000),
+      estimatedStartTime: new Date(startsAt),
+    });
+    freeTimes[0] = startsAt + entry.durationMinutes * 60000 + bufferMs;
+  }
+
+  return estimates;
+};
+
+const describeWait = (position: number, estimate?: QueueEstimate): string => {
+  if (!estimate) {
+    return `You are #${position} in the waiting queue`;
+  }
+  if (estimate.estimatedWaitMinutes <= 0) {
+    return `You are #${position} in the waiting queue - a unit should be free any moment`;
+  }
+  return `You are #${position} in the waiting queue - about ${estimate.estimatedWaitMinutes} min to go`;
+};
+
+/**
+ * Send everyone waiting for an activity their position and ETA. Called
+ * whenever a session on the activity starts, is extended, paused, resumed or
+ * ends, since each of those moves the ETAs.
+ */
+export const broadcastQueueEstimates = async (activityId: string): Promise<void> => {
+  const { getIO } = await import('../websocket/server.js');
+  const io = getIO();
+  if (!io) {
+    return;
   }
 
-  return units[0];
+  const estimates = await estimateQueueWaits(activityId);
+  const waitingEntries = await WaitingQueueModel.find({
+    activityId,
+    status: 'waiting',
+  }).sort({ position: 1 });
+
+  for (const entry of waitingEntries) {
+    const estimate = estimates.get(entry._id.toString());
+    io.to(`customer:${entry.customerPhone}`).emit('queue_status', {
+      reservationId: entry.reservationId.toString(),
+      position: entry.position,
+      status: 'waiting',
+      estimatedWaitMinutes: estimate?.estimatedWaitMinutes,
+      estimatedStartTime: estimate?.estimatedStartTime.toISOString(),
+      message: describeWait(entry.position, estimate),
+    });
+  }
 };
 
 /**
@@ -63,11 +221,14 @@ export const addToWaitingQueue = async (
       queueEntry: queueEntry.toObject(),
     });
 
+    const estimate = (await estimateQueueWaits(activityId)).get(queueEntry._id.toString());
     io.to(`customer:${customerPhone}`).emit('queue_status', {
       reservationId,
       position: nextPosition,
       status: 'waiting',
-      message: `You are #${nextPosition} in the waiting queue`,
+      estimatedWaitMinutes: estimate?.estimatedWaitMinutes,
+      estimatedStartTime: estimate?.estimatedStartTime.toISOString(),
+      message: describeWait(nextPosition, estimate),
     });
   }
 
@@ -75,42 +236,146 @@ export const addToWaitingQueue = async (
 };
 
 /**
- * Process waiting queue - assign next customer when a unit becomes available
+ * Process waiting queue - offer each free unit to the next customer who
+ * hasn't been called yet, and hold it for them for the activity's claim window
  */
 export const processWaitingQueue = async (activityId: string): Promise<void> => {
-  const nextInQueue = await WaitingQueueModel.findOne({
+  const activity = await ActivityModel.findById(activityId);
+  if (!activity) {
+    return;
+  }
+
+  const waitingEntries = await WaitingQueueModel.find({
     activityId,
     status: 'waiting',
   }).sort({ position: 1 });
+  const uncalled = waitingEntries.filter((entry) => !entry.offeredUnitId);
 
-  if (!nextInQueue) {
+  if (uncalled.length === 0) {
     return;
   }
 
-  const availableUnit = await findAvailableUnit(activityId.toString());
+  const held = await getHeldUnits(activityId);
+  const freeUnits = (await ActivityUnitModel.find({ activityId, status: 'available' }))
+    .filter((unit) => !held.has(unit._id.toString()));
 
-  if (!availableUnit) {
-    return;
+  const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
+  const io = getIO();
+
+  for (const entry of uncalled) {
+    if (freeUnits.length === 0) {
+      break;
+    }
+
+    // Only offer a unit that stays free for the whole game; a shorter game
+    // further back can still fit in before an advance booking
+    let unit = null;
+    for (const candidate of freeUnits) {
+      if (await isUnitFreeFor(candidate._id, entry.durationMinutes, activity.bufferTime || 0, entry.reservationId.toString())) {
+        unit = candidate;
+        break;
+      }
+    }
+    if (!unit) {
+      continue;
+    }
+    freeUnits.splice(freeUnits.indexOf(unit), 1);
+
+    entry.offeredUnitId = unit._id;
+    entry.claimDeadline = new Date(Date.now() + activity.claimWindowMinutes * 60000);
+    await entry.save();
+
+    if (io) {
+      notifyCustomerByPhone(entry.customerPhone, 'queue_resource_available', {
+        reservationId: entry.reservationId.toString(),
+        activityId: activityId.toString(),
+        activityName: activity.name,
+        unitId: unit._id.toString(),
+        unitName: unit.name,
+        amount: entry.amount,
+        duration: entry.durationMinutes,
+        claimDeadline: entry.claimDeadline.toISOString(),
+        message: `A system is now available! Claim it within ${activity.claimWindowMinutes} min or exit the queue.`,
+        timestamp: new Date().toISOString(),
+      });
+
+      io.of('/admin').emit('queue_updated', {
+        action: 'called',
+        reservationId: entry.reservationId.toString(),
+        unitId: unit._id.toString(),
+        claimDeadline: entry.claimDeadline.toISOString(),
+      });
+    }
+  }
+};
+
+/**
+ * Release a unit whose claim window ran out. The first time, the customer
+ * swaps places with the person behind them; after MAX_MISSED_CLAIMS they
+ * leave the queue and their reservation expires. Positions, ETAs and the
+ * freed unit are handled by the caller through reorderQueuePositions and
+ * processWaitingQueue.
+ */
+export const lapseQueueClaim = async (entry: IWaitingQueue): Promise<void> => {
+  const unitId = entry.offeredUnitId?.toString();
+  entry.offeredUnitId = undefined;
+  entry.claimDeadline = undefined;
+  entry.missedClaims = (entry.missedClaims || 0) + 1;
+
+  const expired = entry.missedClaims >= MAX_MISSED_CLAIMS;
+  if (expired) {
+    const reservation = await ReservationModel.findById(entry.reservationId);
+
+    // Paid online, or cash staff already took. There's no session to refund
+    // through, so staff settle it from the waiting queue.
+    const paid = entry.paymentStatus === 'paid' || reservation?.status === 'payment_confirmed';
+    entry.status = 'expired';
+    entry.refundDue = paid && entry.amount > 0;
+    await entry.save();
+
+    if (reservation && !['expired', 'cancelled'].includes(reservation.status)) {
+      reservation.status = 'expired';
+      await reservation.save();
+      await restoreRedeemedPoints('reservation', reservation);
+      await releaseCoupon('reservation', reservation);
+    }
+  } else {
+    const behind = await WaitingQueueModel.findOne({
+      activityId: entry.activityId,
+      status: 'waiting',
+      position: { $gt: entry.position },
+    }).sort({ position: 1 });
+
+    if (behind) {
+      const position = entry.position;
+      entry.position = behind.position;
+      behind.position = position;
+      await behind.save();
+    }
+    await entry.save();
   }
 
   const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
   const io = getIO();
-
   if (io) {
-    notifyCustomerByPhone(nextInQueue.customerPhone, 'queue_resource_available', {
-      reservationId: nextInQueue.reservationId.toString(),
-      activityId: activityId.toString(),
-      activityName: (await ActivityModel.findById(activityId))?.name || 'Activity',
-      unitId: availableUnit._id.toString(),
-      unitName: availableUnit.name,
-      amount: nextInQueue.amount,
-      duration: nextInQueue.durationMinutes,
-      message: 'A system is now available! Please proceed to payment or exit the queue.',
+    notifyCustomerByPhone(entry.customerPhone, expired ? 'queue_claim_expired' : 'queue_claim_missed', {
+      reservationId: entry.reservationId.toString(),
+      message: expired
+        ? `You missed your turn again and have been removed from the waiting queue.${entry.refundDue ? ` Our staff will refund the ₹${entry.amount} you paid.` : ''}`
+        : 'You missed your turn, so the system went to the next person. You have moved back one place.',
+      refundDue: entry.refundDue,
       timestamp: new Date().toISOString(),
     });
-  }
 
-  return;
+    io.of('/admin').emit('queue_updated', {
+      action: expired ? 'expired' : 'skipped',
+      reservationId: entry.reservationId.toString(),
+      customerPhone: entry.customerPhone,
+      paymentStatus: entry.paymentStatus,
+      refundDue: entry.refundDue,
+      unitId,
+    });
+  }
 };
 
 export const reorderQueuePositions = async (activityId: string): Promise<void> => {
@@ -122,18 +387,9 @@ export const reorderQueuePositions = async (activityId: string): Promise<void> =
   for (let i = 0; i < waitingEntries.length; i++) {
     waitingEntries[i].position = i + 1;
     await waitingEntries[i].save();
-
-    const { getIO } = await import('../websocket/server.js');
-    const io = getIO();
-    if (io) {
-      io.to(`customer:${waitingEntries[i].customerPhone}`).emit('queue_status', {
-        reservationId: waitingEntries[i].reservationId.toString(),
-        position: i + 1,
-        status: 'waiting',
-        message: `You are now #${i + 1} in the waiting queue`,
-      });
-    }
   }
+
+  await broadcastQueueEstimates(activityId);
 };
 
 /**
@@ -155,10 +411,14 @@ export const getQueueStatus = async (reservationId: string): Promise<any | null>
     position: { $lt: queueEntry.position },
   });
 
+  const activityId = (queueEntry.activityId as unknown as IActivity)._id.toString();
+  const estimate = (await estimateQueueWaits(activityId)).get(queueEntry._id.toString());
+
   return {
     position: queueEntry.position,
     aheadCount,
     status: queueEntry.status,
-    estimatedWaitTime: aheadCount * 30,
+    estimatedWaitTime: estimate?.estimatedWaitMinutes ?? null,
+    estimatedStartTime: estimate?.estimatedStartTime ?? null,
   };
 };
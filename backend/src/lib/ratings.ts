@@ -0,0 +1,287 @@
+import mongoose from 'mongoose';
+import { PlayerProfileModel, IPlayerProfile } from '../models/PlayerProfile.js';
+import { ChallengeResultModel, IChallengeResult, IChallengeResultPlayer } from '../models/ChallengeResult.js';
+import { ActivityType } from '../models/Activity.js';
+import { ISession } from '../models/Session.js';
+import { normalizePhone } from './otp.js';
+
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'all';
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  name: string;
+  rating: number;
+  played: number;
+  wins: number;
+  losses: number;
+  ratingChange?: number; // gained in the period; weekly and monthly boards only
+}
+
+export const STARTING_RATING = 1200;
+const K_FACTOR = 32;
+
+const expectedScore = (rating: number, opponentRating: number) =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+/**
+ * Elo changes for one challenge. The winner beat each loser; losers didn't
+ * play each other. Points move from the losers to the winner, so the
+ * changes always sum to zero.
+ */
+export const getRatingChanges = (winnerRating: number, loserRatings: number[]): { winner: number; losers: number[] } => {
+  const losers = loserRatings.map(rating => Math.round(-K_FACTOR * expectedScore(rating, winnerRating)));
+  return { winner: -losers.reduce((sum, change) => sum + change, 0), losers };
+};
+
+const applyToProfile = async (
+  playerId: mongoose.Types.ObjectId,
+  activityType: string,
+  change: number,
+  isWinner: boolean,
+  games: 1 | -1,
+  playedAt?: Date
+) => {
+  await PlayerProfileModel.updateOne(
+    { _id: playerId, 'ratings.activityType': activityType },
+    {
+      $inc: {
+        'ratings.$.rating': change,
+        'ratings.$.played': games,
+        [isWinner ? 'ratings.$.wins' : 'ratings.$.losses']: games,
+      },
+      ...(playedAt ? { $set: { 'ratings.$.lastPlayedAt': playedAt } } : {}),
+    }
+  );
+};
+
+/**
+ * Take a result back off the players' ratings, for when staff pick a
+ * different winner after the fact
+ */
+const undoResult = async (result: IChallengeResult) => {
+  for (const player of result.players) {
+    await applyToProfile(player.playerId, result.activityType, player.ratingBefore - player.ratingAfter, player.isWinner, -1);
+  }
+  await ChallengeResultModel.deleteOne({ _id: result._id });
+};
+
+const loadProfile = async (phone: string, name: string, activityType: string): Promise<IPlayerProfile> => {
+  await PlayerProfileModel.updateOne(
+    { phone },
+    { $set: { name }, $setOnInsert: { ratings: [] } },
+    { upsert: true }
+  );
+  await PlayerProfileModel.updateOne(
+    { phone, 'ratings.activityType': { $ne: activityType } },
+    { $push: { ratings: { activityType, rating: STARTING_RATING } } }
+  );
+  return (await PlayerProfileModel.findOne({ phone }))!;
+};
+
+/**
+ * Rate a challenge once its winner is known. Only players who gave a phone
+ * are rated, and it takes at least two of them including the winner.
+ * Picking a different winner later replaces the earlier result.
+ */
+export const recordChallengeResult = async (session: ISession): Promise<void> => {
+  const winnerName = session.challengeData?.winner;
+  if (!session.isChallengeSession || !winnerName) {
+    return;
+  }
+
+  const existing = await ChallengeResultModel.findOne({ sessionId: session._id });
+  if (existing) {
+    if (existing.players.find(p => p.isWinner)?.name === winnerName) {
+      return;
+    }
+    await undoResult(existing);
+  }
+
+  const seen = new Set<string>();
+  const rated = session.challengeData!.players
+    .map(player => ({ name: player.name, phone: normalizePhone(player.phone || '') }))
+    .filter(player => {
+      if (!player.phone || seen.has(player.phone)) return false;
+      seen.add(player.phone);
+      return true;
+    });
+  if (rated.length < 2 || !rated.some(player => player.name === winnerName)) {
+    return;
+  }
+
+  const activityType = session.activityType;
+  const profiles = [];
+  for (const player of rated) {
+    profiles.push({ ...player, profile: await loadProfile(player.phone, player.name, activityType) });
+  }
+  const ratingOf = (profile: IPlayerProfile) =>
+    profile.ratings.find(r => r.activityType === activityType)!.rating;
+
+  const winner = profiles.find(p => p.name === winnerName)!;
+  const losers = profiles.filter(p => p !== winner);
+  const changes = getRatingChanges(ratingOf(winner.profile), losers.map(p => ratingOf(p.profile)));
+
+  const players: IChallengeResultPlayer[] = [winner, ...losers].map((p, index) => {
+    const before = ratingOf(p.profile);
+    const change = index === 0 ? changes.winner : changes.losers[index - 1];
+    return {
+      playerId: p.profile._id as mongoose.Types.ObjectId,
+      name: p.name,
+      isWinner: index === 0,
+      ratingBefore: before,
+      ratingAfter: before + change,
+    };
+  });
+
+  const playedAt = new Date();
+  try {
+    await ChallengeResultModel.create({
+      branchId: session.branchId,
+      sessionId: session._id,
+      activityType,
+      players,
+      playedAt,
+    });
+  } catch (error) {
+    // A concurrent call already rated this session
+    if ((error as { code?: number }).code === 11000) {
+      return;
+    }
+    throw error;
+  }
+
+  for (const player of players) {
+    await applyToProfile(player.playerId, activityType, player.ratingAfter - player.ratingBefore, player.isWinner, 1, playedAt);
+  }
+};
+
+/**
+ * Start of the current calendar week (from Monday) or month
+ */
+export const getPeriodStart = (period: LeaderboardPeriod, now = new Date()): Date | null => {
+  if (period === 'all') {
+    return null;
+  }
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else {
+    start.setDate(1);
+  }
+  return start;
+};
+
+/**
+ * All-time boards rank by rating. Weekly and monthly boards rank by wins in
+ * the period, then by rating gained in it.
+ */
+export const getLeaderboard = async (
+  activityType: ActivityType,
+  period: LeaderboardPeriod,
+  limit: number
+): Promise<LeaderboardEntry[]> => {
+  const since = getPeriodStart(period);
+
+  if (!since) {
+    const rows = await PlayerProfileModel.aggregate([
+      { $unwind: '$ratings' },
+      { $match: { 'ratings.activityType': activityType, 'ratings.played': { $gt: 0 } } },
+      { $sort: { 'ratings.rating': -1, 'ratings.wins': -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+    return rows.map((row, index) => ({
+      rank: index + 1,
+      playerId: row._id.toString(),
+      name: row.name,
+      rating: row.ratings.rating,
+      played: row.ratings.played,
+      wins: row.ratings.wins,
+      losses: row.ratings.losses,
+    }));
+  }
+
+  const rows = await ChallengeResultModel.aggregate([
+    { $match: { activityType, playedAt: { $gte: since } } },
+    { $unwind: '$players' },
+    {
+      $group: {
+        _id: '$players.playerId',
+        played: { $sum: 1 },
+        wins: { $sum: { $cond: ['$players.isWinner', 1, 0] } },
+        ratingChange: { $sum: { $subtract: ['$players.ratingAfter', '$players.ratingBefore'] } },
+      },
+    },
+    { $sort: { wins: -1, ratingChange: -1, _id: 1 } },
+    { $limit: limit },
+  ]);
+
+  const profiles = await PlayerProfileModel.find({ _id: { $in: rows.map(row => row._id) } });
+  const byId = new Map(profiles.map(profile => [profile._id.toString(), profile]));
+
+  return rows.map((row, index) => {
+    const profile = byId.get(row._id.toString());
+    return {
+      rank: index + 1,
+      playerId: row._id.toString(),
+      name: profile?.name || '',
+      rating: profile?.ratings.find(r => r.activityType === activityType)?.rating ?? STARTING_RATING,
+      played: row.played,
+      wins: row.wins,
+      losses: row.played - row.wins,
+      ratingChange: row.ratingChange,
+    };
+  });
+};
+
+/**
+ * Ratings, head-to-head records and recent results for a player. Opponents
+ * are shown by name only.
+ */
+export const formatPlayerProfile = async (profile: IPlayerProfile, recentLimit = 10) => {
+  const results = await ChallengeResultModel.find({ 'players.playerId': profile._id }).sort({ playedAt: -1 });
+  const me = profile._id.toString();
+
+  const headToHead = new Map<string, { playerId: string; name: string; activityType: string; wins: number; losses: number }>();
+  for (const result of results) {
+    const mine = result.players.find(p => p.playerId.toString() === me)!;
+    const opponents = result.players.filter(p => p.playerId.toString() !== me);
+    // The winner beat everyone; losers didn't play each other
+    for (const opponent of mine.isWinner ? opponents : opponents.filter(p => p.isWinner)) {
+      const key = `${opponent.playerId}:${result.activityType}`;
+      const record = headToHead.get(key)
+        || { playerId: opponent.playerId.toString(), name: opponent.name, activityType: result.activityType, wins: 0, losses: 0 };
+      if (mine.isWinner) {
+        record.wins++;
+      } else {
+        record.losses++;
+      }
+      headToHead.set(key, record);
+    }
+  }
+
+  return {
+    id: me,
+    name: profile.name,
+    ratings: profile.ratings.map(r => ({
+      activityType: r.activityType,
+      rating: r.rating,
+      played: r.played,
+      wins: r.wins,
+      losses: r.losses,
+      lastPlayedAt: r.lastPlayedAt,
+    })),
+    headToHead: [...headToHead.values()].sort((a, b) => b.wins + b.losses - (a.wins + a.losses)),
+    recentResults: results.slice(0, recentLimit).map(result => {
+      const mine = result.players.find(p => p.playerId.toString() === me)!;
+      return {
+        activityType: result.activityType,
+        playedAt: result.playedAt,
+        won: mine.isWinner,
+        ratingChange: mine.ratingAfter - mine.ratingBefore,
+        opponents: result.players.filter(p => p.playerId.toString() !== me).map(p => p.name),
+      };
+    }),
+  };
+};
@@ -0,0 +1,29 @@
+import Razorpay from 'razorpay';
+import { AppError } from '../middleware/errorHandler.js';
+
+let overrideClient: Razorpay | null = null;
+
+export const getRazorpay = (): Razorpay => {
+  if (overrideClient) {
+    return overrideClient;
+  }
+
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+
+  if (!keyId || !keySecret) {
+    throw new AppError('Razorpay credentials not configured', 500);
+  }
+
+  return new Razorpay({
+    key_id: keyId,
+    key_secret: keySecret,
+  });
+};
+
+/**
+ * Replace the Razorpay client (used by the test harness). Pass null to go back to the real client.
+ */
+export const setRazorpayClient = (client: Razorpay | null): void => {
+  overrideClient = client;
+};
@@ -0,0 +1,295 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionModel, ISession } from '../models/Session.js';
+import { FoodOrderModel, IFoodOrder } from '../models/Order.js';
+import { RefundModel, IRefund, RefundReasonCode } from '../models/Refund.js';
+import { ReservationModel } from '../models/Reservation.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { getRazorpay } from './razorpay.js';
+import { syncLoyaltyPoints } from './loyalty.js';
+import { creditPackage } from './packages.js';
+
+export const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'offline', 'partially_refunded'];
+
+// Long enough to cover the Razorpay round trips of one refund
+const REFUND_LOCK_SECONDS = 30;
+
+interface RefundableCharge {
+  key: string; // Razorpay payment ID, 'offline' for everything collected at the counter, or 'package'
+  amount: number;
+}
+
+export interface RefundOptions {
+  amount?: number; // defaults to everything still refundable
+  reasonCode: RefundReasonCode;
+  notes?: string;
+  refundedBy: { id: string; name?: string };
+}
+
+export interface RefundResult {
+  refunds: IRefund[];
+  requested: number;
+  refundedNow: number;
+  totalRefunded: number;
+  paymentStatus: string;
+  failure?: string; // Razorpay's reason when it refused part or all of the refund
+}
+
+const isOnlinePaymentId = (paymentId?: string): paymentId is string => {
+  return !!paymentId && !['offline', 'queue', 'package'].includes(paymentId);
+};
+
+/**
+ * Money collected for a session: the booking itself plus any paid extensions,
+ * each of which may have been settled through a different Razorpay payment.
+ * Bookings paid from a prepaid pack are refunded back onto the pack.
+ */
+const getSessionCharges = async (session: ISession): Promise<RefundableCharge[]> => {
+  const extensions = await SessionExtensionModel.find({
+    sessionId: session._id,
+    status: 'applied',
+  }).sort({ appliedAt: 1 });
+
+  let basePaymentId = session.paymentId;
+  if (!basePaymentId && session.reservationId) {
+    const reservation = await ReservationModel.findById(session.reservationId);
+    basePaymentId = reservation?.paymentId;
+  }
+
+  const paymentMethod = session.paymentMethod || (session.paymentStatus === 'offline' ? 'offline' : 'online');
+  const extensionTotal = extensions.reduce((sum, e) => sum + e.amount, 0);
+
+  let baseKey = 'offline';
+  if (paymentMethod === 'package') {
+    baseKey = 'package';
+  } else if (paymentMethod === 'online' && isOnlinePaymentId(basePaymentId)) {
+    baseKey = basePaymentId;
+  }
+
+  return [
+    {
+      key: baseKey,
+      amount: Math.max(0, (session.amount || 0) - extensionTotal),
+    },
+    ...extensions.map(e => ({
+      key: isOnlinePaymentId(e.paymentId) ? e.paymentId : 'offline',
+      amount: e.amount,
+    })),
+  ];
+};
+
+/**
+ * Run `fn` while holding the refund lock for one session or order, so two
+ * refunds (or a refund and a webhook) never work from the same refund history
+ */
+const withRefundLock = async <T>(type: 'session' | 'order', entityId: string, fn: () => Promise<T>): Promise<T> => {
+  const lockKey = `lock:refund:${type}:${entityId}`;
+  if (!await redisUtils.acquireLock(lockKey, uuidv4(), REFUND_LOCK_SECONDS)) {
+    throw new AppError('Another refund for this payment is in progress. Please try again.', 409);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await redisUtils.releaseLock(lockKey);
+  }
+};
+
+const getCharges = async (type: 'session' | 'order', entity: ISession | IFoodOrder): Promise<RefundableCharge[]> => {
+  if (type === 'session') {
+    return getSessionCharges(entity as ISession);
+  }
+
+  const order = entity as IFoodOrder;
+  const paidOffline = (order.paymentMethod || (order.paymentStatus === 'offline' ? 'offline' : 'online')) === 'offline';
+  return [{
+    key: !paidOffline && isOnlinePaymentId(order.paymentId) ? order.paymentId : 'offline',
+    amount: order.totalAmount || 0,
+  }];
+};
+
+/**
+ * Refund a paid session or food order through whichever way each part of it
+ * was paid: Razorpay, cash at the counter, or back onto a prepaid pack.
+ * The session's activity should be populated so the refund is filed under it.
+ */
+export const refundEntity = async (
+  type: 'session' | 'order',
+  entity: ISession | IFoodOrder,
+  options: RefundOptions
+): Promise<RefundResult> => withRefundLock(type, entity._id.toString(), async () => {
+  const { amount, reasonCode, notes, refundedBy } = options;
+
+  // Re-read under the lock: another refund may have finished since the caller loaded it
+  const fresh = type === 'session'
+    ? await SessionModel.findById(entity._id).populate('activityId', 'type')
+    : await FoodOrderModel.findById(entity._id);
+  if (fresh) {
+    entity = fresh;
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(entity.paymentStatus)) {
+    throw new AppError(`Cannot refund a payment in ${entity.paymentStatus} status`, 400);
+  }
+
+  const charges = await getCharges(type, entity);
+  const category = type === 'session'
+    ? ((entity as ISession).activityId as any)?.type || (entity as ISession).activityType
+    : 'Food & Beverages';
+
+  const previousRefunds = await RefundModel.find({
+    entityType: type,
+    entityId: entity._id,
+    status: { $ne: 'failed' },
+  });
+
+  const refundedByKey = new Map<string, number>();
+  previousRefunds.forEach(r => {
+    const key = r.method === 'cash' ? 'offline' : r.method === 'package' ? 'package' : r.paymentId || 'offline';
+    refundedByKey.set(key, (refundedByKey.get(key) || 0) + r.amount);
+  });
+
+  // Pool charges by payment so each Razorpay payment is never refunded beyond what it captured
+  const pooled = new Map<string, number>();
+  charges.forEach(c => pooled.set(c.key, (pooled.get(c.key) || 0) + c.amount));
+
+  const paidTotal = charges.reduce((sum, c) => sum + c.amount, 0);
+  const alreadyRefunded = previousRefunds.reduce((sum, r) => sum + r.amount, 0);
+  const refundable = Math.max(0, paidTotal - alreadyRefunded);
+  const requested = amount ?? refundable;
+
+  if (refundable <= 0) {
+    throw new AppError('This payment has already been fully refunded', 400);
+  }
+
+  if (requested > refundable) {
+    throw new AppError(`Only ${refundable} can be refunded`, 400);
+  }
+
+  // Refund the most recent charges (extensions) first
+  const allocations: RefundableCharge[] = [];
+  let remaining = requested;
+  for (const key of [...pooled.keys()].reverse()) {
+    if (remaining <= 0) break;
+    const available = (pooled.get(key) || 0) - (refundedByKey.get(key) || 0);
+    const portion = Math.min(available, remaining);
+    if (portion > 0) {
+      allocations.push({ key, amount: portion });
+      remaining -= portion;
+    }
+  }
+
+  const created: IRefund[] = [];
+  let failure: string | undefined;
+  for (const allocation of allocations) {
+    const base = {
+      entityType: type,
+      entityId: entity._id,
+      branchId: entity.branchId,
+      amount: allocation.amount,
+      reasonCode,
+      notes,
+      category,
+      customerName: entity.customerName,
+      customerPhone: entity.customerPhone,
+      refundedBy: refundedBy.id,
+      refundedByName: refundedBy.name,
+    };
+
+    if (allocation.key === 'offline') {
+      created.push(await RefundModel.create({ ...base, method: 'cash', status: 'processed' }));
+      continue;
+    }
+
+    if (allocation.key === 'package') {
+      await creditPackage(entity as ISession, allocation.amount, `Refund (${reasonCode})`);
+      created.push(await RefundModel.create({ ...base, method: 'package', status: 'processed' }));
+      continue;
+    }
+
+    try {
+      const razorpay = getRazorpay();
+      const razorpayRefund = await razorpay.payments.refund(allocation.key, {
+        amount: Math.round(allocation.amount * 100),
+        notes: { type, entityId: entity._id.toString(), reasonCode },
+      });
+
+      created.push(await RefundModel.create({
+        ...base,
+        method: 'razorpay',
+        paymentId: allocation.key,
+        razorpayRefundId: razorpayRefund.id,
+        status: razorpayRefund.status === 'failed' ? 'failed' : razorpayRefund.status === 'processed' ? 'processed' : 'pending',
+      }));
+    } catch (error) {
+      failure = (error as any)?.error?.description || (error as Error).message || 'Unknown error';
+      break;
+    }
+  }
+
+  const refundedNow = created
+    .filter(r => r.status !== 'failed')
+    .reduce((sum, r) => sum + r.amount, 0);
+  const totalRefunded = alreadyRefunded + refundedNow;
+
+  if (refundedNow > 0) {
+    if (!entity.paymentMethod) {
+      entity.paymentMethod = entity.paymentStatus === 'offline' ? 'offline' : 'online';
+    }
+    entity.refundedAmount = totalRefunded;
+    entity.paymentStatus = totalRefunded >= paidTotal ? 'refunded' : 'partially_refunded';
+    await entity.save();
+    await syncLoyaltyPoints(type, entity);
+
+    const { getIO, notifyCustomerByPhone } = await import('../websocket/server.js');
+    notifyCustomerByPhone(entity.customerPhone, 'refund_issued', {
+      type,
+      entityId: entity._id.toString(),
+      amount: refundedNow,
+      paymentStatus: entity.paymentStatus,
+      message: `A refund of ₹${refundedNow} has been issued.`,
+      timestamp: new Date().toISOString(),
+    });
+
+    const io = getIO();
+    if (io) {
+      io.of('/admin').emit('refund_issued', {
+        type,
+        entityId: entity._id.toString(),
+        amount: refundedNow,
+        totalRefunded,
+        paymentStatus: entity.paymentStatus,
+      });
+    }
+  }
+
+  return { refunds: created, requested, refundedNow, totalRefunded, paymentStatus: entity.paymentStatus, failure };
+});
+
+/**
+ * Bring a session's or order's refunded total and payment status back in line
+ * with its refunds, after Razorpay reports how a pending one turned out
+ */
+export const reconcileRefunds = async (refund: IRefund): Promise<void> => {
+  const type = refund.entityType;
+  await withRefundLock(type, refund.entityId.toString(), async () => {
+    const entity = type === 'session'
+      ? await SessionModel.findById(refund.entityId)
+      : await FoodOrderModel.findById(refund.entityId);
+    if (!entity) return;
+
+    const valid = await RefundModel.find({ entityType: type, entityId: entity._id, status: { $ne: 'failed' } });
+    const totalRefunded = valid.reduce((sum, r) => sum + r.amount, 0);
+    const paidTotal = (await getCharges(type, entity)).reduce((sum, c) => sum + c.amount, 0);
+
+    entity.refundedAmount = totalRefunded;
+    if (totalRefunded <= 0) {
+      entity.paymentStatus = entity.paymentMethod === 'offline' ? 'offline' : 'paid';
+    } else {
+      entity.paymentStatus = totalRefunded >= paidTotal ? 'refunded' : 'partially_refunded';
+    }
+    await entity.save();
+    await syncLoyaltyPoints(type, entity);
+  });
+};
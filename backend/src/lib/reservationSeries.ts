@@ -0,0 +1,145 @@
+import { IReservationSeries, ReservationSeriesModel, SeriesFrequency } from '../models/ReservationSeries.js';
+import { ReservationModel, IReservation } from '../models/Reservation.js';
+import { SessionModel } from '../models/Session.js';
+import { ActivityModel, IActivity, IActivityUnit } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { findUnitConflicts, scheduleReservedSession } from './availability.js';
+import { restoreRedeemedPoints } from './loyalty.js';
+import { releaseCoupon } from './coupons.js';
+import { refundEntity, RefundOptions, REFUNDABLE_PAYMENT_STATUSES } from './refunds.js';
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const FREQUENCY_DAYS: Record<SeriesFrequency, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+export interface OccurrenceCheck {
+  startTime: Date;
+  endTime: Date;
+  conflicts: string[]; // names of the units already taken at this time
+}
+
+/**
+ * Start times for a series: every week or fortnight from the first
+ * occurrence, until the end date or for a number of occurrences
+ */
+export const getOccurrenceStarts = (
+  first: Date,
+  frequency: SeriesFrequency,
+  endDate?: Date,
+  count?: number
+): Date[] => {
+  const starts: Date[] = [];
+  const limit = Math.min(count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  for (let i = 0; starts.length < limit; i++) {
+    // Step by calendar days so the wall-clock time holds across DST changes
+    const start = new Date(first);
+    start.setDate(first.getDate() + i * FREQUENCY_DAYS[frequency]);
+    if (endDate && start.getTime() > endDate.getTime()) {
+      break;
+    }
+    starts.push(start);
+  }
+
+  return starts;
+};
+
+/**
+ * Run the booking conflict check for every unit at every occurrence
+ */
+export const checkOccurrences = async (
+  activity: IActivity,
+  units: IActivityUnit[],
+  starts: Date[],
+  durationMinutes: number
+): Promise<OccurrenceCheck[]> => {
+  const checks: OccurrenceCheck[] = [];
+
+  for (const startTime of starts) {
+    const endTime = new Date(startTime.getTime() + durationMinutes * 60000);
+    const conflicts: string[] = [];
+    for (const unit of units) {
+      const clashes = await findUnitConflicts(unit._id, startTime, endTime, activity.bufferTime || 0);
+      if (clashes.length > 0 || unit.status === 'maintenance') {
+        conflicts.push(unit.name);
+      }
+    }
+    checks.push({ startTime, endTime, conflicts });
+  }
+
+  return checks;
+};
+
+/**
+ * Schedule sessions for every occurrence of a series paid for up front
+ */
+export const confirmReservationSeries = async (
+  series: IReservationSeries,
+  paymentId: string,
+  paymentStatus: 'paid' | 'offline'
+): Promise<IReservationSeries> => {
+  const confirmed = await ReservationSeriesModel.findOneAndUpdate(
+    { _id: series._id, status: 'pending_payment' },
+    { $set: { status: 'active', paymentId } },
+    { new: true }
+  );
+
+  if (!confirmed) {
+    throw new AppError('This series is not awaiting payment', 400);
+  }
+
+  const activity = await ActivityModel.findById(confirmed.activityId);
+  if (!activity) {
+    throw new AppError('Activity not found', 404);
+  }
+
+  const occurrences = await ReservationModel.find({ seriesId: confirmed._id, status: 'pending_payment' });
+  for (const reservation of occurrences) {
+    await scheduleReservedSession(reservation, activity, paymentId, paymentStatus);
+  }
+
+  return confirmed;
+};
+
+export interface OccurrenceRefund {
+  refundedAmount: number;
+  refundFailure?: string; // staff can retry from the session's refund dialog
+}
+
+/**
+ * Cancel a single occurrence that hasn't started yet, along with its
+ * scheduled session. Whatever was paid for that session is refunded.
+ */
+export const cancelOccurrence = async (
+  reservation: IReservation,
+  cancelledBy: RefundOptions['refundedBy']
+): Promise<OccurrenceRefund> => {
+  reservation.status = 'cancelled';
+  await reservation.save();
+  await restoreRedeemedPoints('reservation', reservation);
+  await releaseCoupon('reservation', reservation);
+  await redisUtils.delete(`reservation:${reservation._id}`);
+
+  const sessions = await SessionModel.find({ reservationId: reservation._id, status: 'scheduled' })
+    .populate('activityId', 'type');
+  const refund: OccurrenceRefund = { refundedAmount: 0 };
+  for (const session of sessions) {
+    session.status = 'cancelled';
+    await session.save();
+
+    if (REFUNDABLE_PAYMENT_STATUSES.includes(session.paymentStatus)) {
+      const result = await refundEntity('session', session, { reasonCode: 'session_cancelled', refundedBy: cancelledBy });
+      refund.refundedAmount += result.refundedNow;
+      refund.refundFailure = refund.refundFailure || result.failure;
+    }
+  }
+
+  const { broadcastAvailabilityChange } = await import('../websocket/server.js');
+  broadcastAvailabilityChange(reservation.activityId.toString(), 'available');
+
+  return refund;
+};
@@ -0,0 +1,337 @@
+import { SessionModel, ISession, ScoreFrame, SnookerScoreboard } from '../models/Session.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { recordMatchResult } from './tournaments.js';
+import { recordChallengeResult } from './ratings.js';
+import { assertSessionActor, SessionActor } from './sessionAccess.js';
+
+export type ScoreEventType = 'points' | 'break' | 'foul';
+
+const PLAYING_STATUSES = ['active', 'paused'];
+
+export const isSnooker = (activityType: string) => activityType.startsWith('snooker');
+
+/**
+ * Points, highest break and fouls for each side in a frame, in the order of
+ * the scoreboard's players. Foul points go to the other side.
+ */
+export const getFrameTotals = (frame: ScoreFrame, players: string[]) => {
+  const points = players.map(() => 0);
+  const highestBreaks = players.map(() => 0);
+  const fouls = players.map(() => 0);
+
+  for (const event of frame.events) {
+    const index = players.indexOf(event.player);
+    if (index === -1) continue;
+    if (event.type === 'foul') {
+      fouls[index]++;
+      points[1 - index] += event.points;
+    } else {
+      points[index] += event.points;
+      if (event.type === 'break') {
+        highestBreaks[index] = Math.max(highestBreaks[index], event.points);
+      }
+    }
+  }
+
+  return { points, highestBreaks, fouls };
+};
+
+const getFramesWon = (scoreboard: SnookerScoreboard) =>
+  scoreboard.players.map(player => scoreboard.frames.filter(frame => frame.winner === player).length);
+
+export const formatScoreboard = (scoreboard: SnookerScoreboard) => {
+  const frames = scoreboard.frames.map(frame => ({
+    number: frame.number,
+    ...getFrameTotals(frame, scoreboard.players),
+    events: frame.events.map(event => ({
+      id: event._id.toString(),
+      type: event.type,
+      player: event.player,
+      points: event.points,
+      createdAt: event.createdAt,
+    })),
+    winner: frame.winner,
+    startedAt: frame.startedAt,
+    completedAt: frame.completedAt,
+  }));
+
+  return {
+    players: scoreboard.players,
+    bestOf: scoreboard.bestOf,
+    framesWon: getFramesWon(scoreboard),
+    highestBreaks: scoreboard.players.map((_, index) =>
+      frames.reduce((max, frame) => Math.max(max, frame.highestBreaks[index]), 0)
+    ),
+    frames,
+    winner: scoreboard.winner,
+    startedAt: scoreboard.startedAt,
+    completedAt: scoreboard.completedAt,
+  };
+};
+
+const broadcastScoreboard = async (session: ISession) => {
+  const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+  const payload = {
+    session_id: session._id.toString(),
+    scoreboard: formatScoreboard(session.scoreboard!),
+  };
+  notifyCustomerById(session._id.toString(), 'session', 'scoreboard_updated', payload);
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('scoreboard_updated', payload);
+  }
+};
+
+/**
+ * Make the scoreboard's winner the challenge winner, moving on any
+ * tournament match and the players' ratings. A winner already picked by
+ * staff or votes is left alone.
+ */
+const settleChallengeWinner = async (session: ISession): Promise<void> => {
+  const winner = session.scoreboard?.winner;
+  const challengeData = session.challengeData;
+  if (!winner || !session.isChallengeSession || !challengeData || challengeData.winner) {
+    return;
+  }
+  if (!challengeData.players.some(p => p.name === winner)) {
+    return;
+  }
+
+  challengeData.winner = winner;
+  challengeData.winnerSelectedBy = 'players';
+  challengeData.winnerSelectedAt = new Date();
+  challengeData.players.forEach(p => {
+    p.isWinner = p.name === winner;
+  });
+  session.challengeData = challengeData;
+  await session.save();
+
+  await recordMatchResult(session);
+  await recordChallengeResult(session);
+
+  const { getIO } = await import('../websocket/server.js');
+  const io = getIO();
+  if (io) {
+    const payload = { session_id: session._id.toString(), winner, selectedBy: 'players' };
+    io.of('/customer').to(`session:${session._id}`).emit('winner_selected', payload);
+    io.of('/admin').emit('winner_selected', payload);
+  }
+};
+
+/**
+ * Only staff and the session's own players may keep score, since a finished
+ * match decides the challenge
+ */
+export const assertCanKeepScore = async (sessionId: string, actor: SessionActor): Promise<void> => {
+  const session = await SessionModel.findById(sessionId);
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+  assertSessionActor(session, actor, 'keep score for this session');
+};
+
+const loadScoreboard = async (sessionId: string) => {
+  const session = await SessionModel.findById(sessionId);
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+  const scoreboard = session.scoreboard;
+  if (!scoreboard) {
+    throw new AppError('Scoring has not been started for this session', 400);
+  }
+  if (scoreboard.winner) {
+    throw new AppError(`The match is over; ${scoreboard.winner} won`, 400);
+  }
+  if (!PLAYING_STATUSES.includes(session.status)) {
+    throw new AppError('Scores can only be kept while the session is running', 400);
+  }
+  return { session, scoreboard, frameIndex: scoreboard.frames.length - 1 };
+};
+
+// Matches only while the frame being scored is still the one in play
+const currentFrameFilter = (sessionId: string, frameIndex: number) => ({
+  _id: sessionId,
+  'scoreboard.winner': { $exists: false },
+  'scoreboard.frames': { $size: frameIndex + 1 },
+});
+
+const frameChanged = () => new AppError('The frame has just changed; refresh and try again', 409);
+
+/**
+ * Turn on frame scoring for a running snooker session. Challenges score
+ * their two players; other sessions name the two sides.
+ */
+export const startScoreboard = async (
+  sessionId: string,
+  players?: string[],
+  bestOf?: number
+): Promise<ISession> => {
+  const session = await SessionModel.findById(sessionId);
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+  if (!isSnooker(session.activityType)) {
+    throw new AppError('Frame scoring is only available for snooker', 400);
+  }
+  if (!PLAYING_STATUSES.includes(session.status)) {
+    throw new AppError('Scoring can only start while the session is running', 400);
+  }
+  if (session.scoreboard) {
+    throw new AppError('Scoring has already started for this session', 409);
+  }
+
+  const sides = session.isChallengeSession && session.challengeData
+    ? session.challengeData.players.map(p => p.name)
+    : (players || []).map(name => name.trim());
+  if (sides.length !== 2 || sides[0] === sides[1] || sides.some(name => !name)) {
+    throw new AppError('Snooker scoring needs two players with different names', 400);
+  }
+  if (bestOf !== undefined && bestOf % 2 === 0) {
+    throw new AppError('Matches are played over an odd number of frames', 400);
+  }
+
+  const now = new Date();
+  const started = await SessionModel.findOneAndUpdate(
+    { _id: sessionId, scoreboard: { $exists: false } },
+    {
+      $set: {
+        scoreboard: {
+          players: sides,
+          bestOf,
+          frames: [{ number: 1, events: [], startedAt: now }],
+          startedAt: now,
+        },
+      },
+    },
+    { new: true }
+  );
+  if (!started) {
+    throw new AppError('Scoring has already started for this session', 409);
+  }
+
+  await broadcastScoreboard(started);
+  return started;
+};
+
+export const addScoreEvent = async (
+  sessionId: string,
+  type: ScoreEventType,
+  player: string,
+  points: number
+): Promise<ISession> => {
+  const { scoreboard, frameIndex } = await loadScoreboard(sessionId);
+  if (!scoreboard.players.includes(player)) {
+    throw new AppError(`${player} is not playing in this match`, 400);
+  }
+
+  const updated = await SessionModel.findOneAndUpdate(
+    currentFrameFilter(sessionId, frameIndex),
+    { $push: { [`scoreboard.frames.${frameIndex}.events`]: { type, player, points, createdAt: new Date() } } },
+    { new: true }
+  );
+  if (!updated) {
+    throw frameChanged();
+  }
+
+  await broadcastScoreboard(updated);
+  return updated;
+};
+
+/**
+ * Take back the last entry in the frame being played
+ */
+export const undoScoreEvent = async (sessionId: string): Promise<ISession> => {
+  const { scoreboard, frameIndex } = await loadScoreboard(sessionId);
+  if (scoreboard.frames[frameIndex].events.length === 0) {
+    throw new AppError('Nothing to undo in this frame', 400);
+  }
+
+  const updated = await SessionModel.findOneAndUpdate(
+    currentFrameFilter(sessionId, frameIndex),
+    { $pop: { [`scoreboard.frames.${frameIndex}.events`]: 1 } },
+    { new: true }
+  );
+  if (!updated) {
+    throw frameChanged();
+  }
+
+  await broadcastScoreboard(updated);
+  return updated;
+};
+
+/**
+ * Close the frame in play, won by the given player or otherwise by whoever
+ * is ahead. Winning a majority of a best-of match ends it and makes that
+ * player the challenge winner; otherwise the next frame starts.
+ */
+export const endFrame = async (sessionId: string, winner?: string): Promise<ISession> => {
+  const { scoreboard, frameIndex } = await loadScoreboard(sessionId);
+  const frame = scoreboard.frames[frameIndex];
+
+  let frameWinner = winner;
+  if (!frameWinner) {
+    const { points } = getFrameTotals(frame, scoreboard.players);
+    if (points[0] === points[1]) {
+      throw new AppError('The frame is level; say who won it', 400);
+    }
+    frameWinner = scoreboard.players[points[0] > points[1] ? 0 : 1];
+  }
+  if (!scoreboard.players.includes(frameWinner)) {
+    throw new AppError(`${frameWinner} is not playing in this match`, 400);
+  }
+
+  const now = new Date();
+  const framesWon = getFramesWon(scoreboard)[scoreboard.players.indexOf(frameWinner)] + 1;
+  const matchWon = !!scoreboard.bestOf && framesWon > scoreboard.bestOf / 2;
+
+  const updated = await SessionModel.findOneAndUpdate(
+    currentFrameFilter(sessionId, frameIndex),
+    {
+      $set: {
+        [`scoreboard.frames.${frameIndex}.winner`]: frameWinner,
+        [`scoreboard.frames.${frameIndex}.completedAt`]: now,
+        ...(matchWon && { 'scoreboard.winner': frameWinner, 'scoreboard.completedAt': now }),
+      },
+      ...(!matchWon && {
+        $push: { 'scoreboard.frames': { number: frameIndex + 2, events: [], startedAt: now } },
+      }),
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw frameChanged();
+  }
+
+  await broadcastScoreboard(updated);
+  await settleChallengeWinner(updated);
+  return updated;
+};
+
+/**
+ * When a scored session ends without a decided match, whoever won more
+ * frames takes it. Frames still in play don't count, and a level match
+ * leaves the winner to be picked as usual.
+ */
+export const settleScoreboardOnEnd = async (session: ISession): Promise<void> => {
+  const scoreboard = session.scoreboard;
+  if (!scoreboard) {
+    return;
+  }
+
+  if (!scoreboard.completedAt) {
+    const [first, second] = getFramesWon(scoreboard);
+    const last = scoreboard.frames[scoreboard.frames.length - 1];
+    if (last && !last.winner && last.events.length === 0) {
+      scoreboard.frames.pop();
+    }
+    if (first !== second) {
+      scoreboard.winner = scoreboard.players[first > second ? 0 : 1];
+    }
+    scoreboard.completedAt = new Date();
+    session.scoreboard = scoreboard;
+    await session.save();
+    await broadcastScoreboard(session);
+  }
+
+  await settleChallengeWinner(session);
+};
@@ -0,0 +1,50 @@
+import { AuthRequest, CustomerRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { ISession } from '../models/Session.js';
+import { findVoteTokenHolder } from './challengeVotes.js';
+import { inBranchScope } from './branches.js';
+import { normalizePhone } from './otp.js';
+
+// Who is asking to act on a session from a customer-facing route
+export interface SessionActor {
+  staffScope?: string | null; // set for staff, null when they see every branch
+  phone?: string; // signed-in customer
+  voteToken?: string; // a challenge player's voting link token
+}
+
+/**
+ * The actor behind a request that went through identifyStaff and identifyCustomer
+ */
+export const sessionActorFrom = (req: AuthRequest & CustomerRequest): SessionActor => ({
+  staffScope: req.user && ['admin', 'staff'].includes(req.user.role) ? req.branchScope ?? null : undefined,
+  phone: req.customer?.phone,
+  voteToken: req.get('X-Vote-Token'),
+});
+
+/**
+ * Let through staff at the session's branch and the session's own players:
+ * a customer signed in with the booking's phone or a challenge player's
+ * phone, or a challenge player holding their voting link. Staff at other
+ * branches get a 404, everyone else a 403 saying what they tried to do.
+ */
+export const assertSessionActor = (session: ISession, actor: SessionActor, action: string): void => {
+  if (actor.staffScope !== undefined) {
+    if (!inBranchScope(session.branchId, actor.staffScope)) {
+      throw new AppError('Session not found', 404);
+    }
+    return;
+  }
+
+  const players = session.challengeData?.players || [];
+  const phones = [session.customerPhone, ...players.map(p => p.phone)]
+    .filter((phone): phone is string => !!phone)
+    .map(normalizePhone);
+  if (actor.phone && phones.includes(normalizePhone(actor.phone))) {
+    return;
+  }
+  if (actor.voteToken && session.challengeData && findVoteTokenHolder(session.challengeData, actor.voteToken)) {
+    return;
+  }
+
+  throw new AppError(`Only the players or staff can ${action}`, 403);
+};
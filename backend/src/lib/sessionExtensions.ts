@@ -0,0 +1,146 @@
+import { SessionModel, ISession } from '../models/Session.js';
+import { ActivityModel } from '../models/Activity.js';
+import { ISessionExtension } from '../models/SessionExtension.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { broadcastQueueEstimates } from './queueManager.js';
+import { findUnitConflicts } from './availability.js';
+import { getRazorpay } from './razorpay.js';
+
+// How long an unpaid extension keeps its window on the unit
+export const EXTENSION_HOLD_MINUTES = 10;
+
+/**
+ * Move the session end time once an extension has been paid or approved
+ */
+export const applySessionExtension = async (
+  extension: ISessionExtension,
+  paymentId: string
+): Promise<ISession> => {
+  const session = await SessionModel.findById(extension.sessionId);
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+
+  if (!['active', 'paused'].includes(session.status)) {
+    throw new AppError('Session has already ended', 400);
+  }
+  if (!session.endTime) {
+    throw new AppError('Open-ended sessions cannot be extended', 400);
+  }
+
+  const endTime = new Date(session.endTime.getTime() + extension.additionalMinutes * 60 * 1000);
+
+  // The hold may have lapsed (or the session moved) while the customer was paying
+  const activity = await ActivityModel.findById(session.activityId);
+  const conflicts = (await findUnitConflicts(
+    session.unitId,
+    session.endTime,
+    endTime,
+    activity?.bufferTime || 0,
+    session.reservationId?.toString()
+  )).filter(conflict => ![session._id.toString(), extension._id.toString()].includes(conflict.id));
+  if (conflicts.length > 0) {
+    throw new AppError('The unit has been booked since this extension was requested', 409);
+  }
+  session.endTime = endTime;
+  session.duration = session.duration + extension.additionalMinutes;
+  session.durationMinutes = session.duration;
+  session.baseAmount = (session.baseAmount || 0) + extension.amount;
+  session.amount = (session.amount || 0) + extension.amount;
+  session.extended = true;
+  const updatedSession = await session.save();
+
+  extension.status = 'applied';
+  extension.paymentId = paymentId;
+  extension.appliedAt = new Date();
+  await extension.save();
+  await broadcastQueueEstimates(updatedSession.activityId.toString());
+
+  const sessionId = updatedSession._id.toString();
+  const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+  notifyCustomerById(sessionId, 'session', 'session_extended', {
+    session_id: sessionId,
+    extension_id: extension._id.toString(),
+    additional_minutes: extension.additionalMinutes,
+    endTime: updatedSession.endTime,
+    duration: updatedSession.duration,
+    timestamp: new Date().toISOString(),
+  });
+
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('session_extended', {
+      session_id: sessionId,
+      extension_id: extension._id.toString(),
+      additional_minutes: extension.additionalMinutes,
+      amount: extension.amount,
+      endTime: updatedSession.endTime,
+    });
+
+    const remaining = Math.max(0, Math.floor((endTime.getTime() - Date.now()) / 1000));
+    const elapsed = Math.floor((Date.now() - new Date(updatedSession.startTime).getTime()) / 1000) - (updatedSession.totalPausedDuration * 60);
+    io.of('/customer').to(`session:${sessionId}`).emit('timer_update', {
+      session_id: sessionId,
+      elapsed_seconds: elapsed,
+      remaining_seconds: remaining,
+      new_end_time: endTime.toISOString(),
+      timestamp: Date.now(),
+    });
+  }
+
+  return updatedSession;
+};
+
+/**
+ * Give back an online payment for an extension that could no longer be
+ * applied. If Razorpay won't take the refund, staff are asked to return it
+ * at the counter. Returns whether the money went back.
+ */
+export const refundUnappliedExtension = async (
+  extension: ISessionExtension,
+  paymentId: string,
+  reason: string
+): Promise<boolean> => {
+  extension.paymentId = paymentId;
+  try {
+    const refund = await getRazorpay().payments.refund(paymentId, {
+      amount: Math.round(extension.amount * 100),
+      notes: { type: 'extension', entityId: extension._id.toString(), reason },
+    });
+    extension.status = refund.status === 'failed' ? 'refund_due' : 'refunded';
+    extension.razorpayRefundId = refund.id;
+  } catch (error) {
+    console.error(`Error refunding extension ${extension._id}:`, error);
+    extension.status = 'refund_due';
+  }
+  await extension.save();
+
+  const refunded = extension.status === 'refunded';
+  const payload = {
+    session_id: extension.sessionId.toString(),
+    extension_id: extension._id.toString(),
+    amount: extension.amount,
+    refunded,
+    reason,
+    timestamp: new Date().toISOString(),
+  };
+  const { getIO, notifyCustomerById } = await import('../websocket/server.js');
+  notifyCustomerById(extension.sessionId.toString(), 'session', 'extension_refunded', {
+    ...payload,
+    message: refunded
+      ? `Your extension couldn't be added, so ₹${extension.amount} has been refunded.`
+      : `Your extension couldn't be added. Please collect ₹${extension.amount} at the counter.`,
+  });
+
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit(refunded ? 'extension_refunded' : 'extension_refund_due', {
+      ...payload,
+      customerName: extension.customerName,
+      customerPhone: extension.customerPhone,
+      paymentId,
+    });
+  }
+
+  return refunded;
+};
@@ -0,0 +1,186 @@
+import mongoose from 'mongoose';
+import { ISession } from '../models/Session.js';
+import { SessionExtensionModel } from '../models/SessionExtension.js';
+import { ActivityModel, ActivityUnitModel, ActivityType, IActivity } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { quoteActivityPrice } from './pricing.js';
+import { bookedMemberPhone } from './loyalty.js';
+import { findUnitConflicts } from './availability.js';
+import { isUnitHeldForOther, broadcastQueueEstimates } from './queueManager.js';
+
+// Activity types a running session can move between; anything else only moves within its own type
+const COMPATIBLE_TYPES: ActivityType[][] = [
+  ['snooker-standard', 'snooker-premium'],
+];
+
+export const areActivitiesCompatible = (from: IActivity, to: IActivity): boolean => {
+  if (from._id.equals(to._id)) return true;
+  if (from.branchId.toString() !== to.branchId.toString()) return false;
+  if (from.type === to.type) return true;
+  return COMPATIBLE_TYPES.some(types => types.includes(from.type) && types.includes(to.type));
+};
+
+export interface TransferOptions {
+  reason?: string;
+  waiveDifference?: boolean; // don't charge or credit the price difference, e.g. when our equipment broke
+  transferredBy?: string;
+}
+
+/**
+ * Move a running or paused session onto another unit, keeping its clock,
+ * pause history and payment. The old unit goes into maintenance.
+ */
+export const moveSessionToUnit = async (
+  session: ISession,
+  toUnitId: string,
+  options: TransferOptions = {}
+): Promise<{ session: ISession; priceDifference: number; remainingMinutes: number }> => {
+  if (!['active', 'paused'].includes(session.status)) {
+    throw new AppError('Only running or paused sessions can be moved', 400);
+  }
+  if (session.groupBookingId) {
+    throw new AppError('Group booking sessions run on a shared clock and cannot be moved', 400);
+  }
+  if (!mongoose.Types.ObjectId.isValid(toUnitId)) {
+    throw new AppError('Unit not found', 404);
+  }
+  if (session.unitId.toString() === toUnitId) {
+    throw new AppError('The session is already on this unit', 400);
+  }
+
+  const [fromActivity, toUnit] = await Promise.all([
+    ActivityModel.findById(session.activityId),
+    ActivityUnitModel.findById(toUnitId),
+  ]);
+  if (!fromActivity) {
+    throw new AppError('Activity not found', 404);
+  }
+  if (!toUnit) {
+    throw new AppError('Unit not found', 404);
+  }
+
+  const toActivity = toUnit.activityId.equals(fromActivity._id)
+    ? fromActivity
+    : await ActivityModel.findById(toUnit.activityId);
+  if (!toActivity || !areActivitiesCompatible(fromActivity, toActivity)) {
+    throw new AppError('The session can only move to a unit of the same or a compatible activity', 400);
+  }
+  if (!toActivity.enabled) {
+    throw new AppError('Activity is currently disabled', 400);
+  }
+  if (toUnit.status !== 'available') {
+    throw new AppError('Unit is not available', 400);
+  }
+  if (await isUnitHeldForOther(toActivity._id.toString(), toUnit._id.toString(), '')) {
+    throw new AppError('This unit is being held for a customer from the waiting queue', 409);
+  }
+
+  // A paused clock isn't counting down, so the time left is measured from the pause.
+  // Open-ended sessions have no time left to reprice; they're billed at the end.
+  const now = new Date();
+  const clockTime = session.status === 'paused' && session.currentPauseStart ? session.currentPauseStart : now;
+  const remainingMinutes = session.endTime
+    ? Math.max(0, Math.ceil((session.endTime.getTime() - clockTime.getTime()) / 60000))
+    : 0;
+
+  const conflicts = await findUnitConflicts(
+    toUnit._id,
+    now,
+    new Date(now.getTime() + (session.endTime ? remainingMinutes : toActivity.minimumDuration || 1) * 60000),
+    toActivity.bufferTime || 0
+  );
+  if (conflicts.length > 0) {
+    throw new AppError('That unit is booked before this session would finish. Choose another unit.', 409);
+  }
+
+  let priceDifference = 0;
+  if (!toActivity._id.equals(fromActivity._id) && !options.waiveDifference && remainingMinutes > 0) {
+    const [fromQuote, toQuote] = await Promise.all([
+      quoteActivityPrice(fromActivity, remainingMinutes, now, bookedMemberPhone(session)),
+      quoteActivityPrice(toActivity, remainingMinutes, now, bookedMemberPhone(session)),
+    ]);
+    priceDifference = toQuote.total - fromQuote.total;
+  }
+
+  // Claim the new unit atomically so two staff can't move sessions onto it at once
+  const claimed = await ActivityUnitModel.findOneAndUpdate(
+    { _id: toUnit._id, status: 'available' },
+    { status: 'occupied' },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new AppError('Unit is not available', 400);
+  }
+
+  const fromUnitId = session.unitId;
+  if (!session.transferHistory) {
+    session.transferHistory = [];
+  }
+  session.transferHistory.push({
+    fromUnitId,
+    toUnitId: toUnit._id,
+    fromActivityId: fromActivity._id,
+    toActivityId: toActivity._id,
+    transferredAt: now,
+    remainingMinutes,
+    priceDifference,
+    reason: options.reason,
+    transferredBy: options.transferredBy,
+  });
+
+  session.unitId = toUnit._id;
+  session.activityId = toActivity._id;
+  session.activityType = toActivity.type;
+  if (priceDifference !== 0) {
+    session.amount = Math.max(0, (session.amount || 0) + priceDifference);
+    session.baseAmount = Math.max(0, (session.baseAmount || 0) + priceDifference);
+  }
+  await session.save();
+
+  await ActivityUnitModel.findByIdAndUpdate(fromUnitId, { status: 'maintenance' });
+
+  // Unpaid extension requests follow the session to its new unit
+  await SessionExtensionModel.updateMany(
+    { sessionId: session._id, status: { $in: ['pending_payment', 'pending_approval'] } },
+    { unitId: toUnit._id, activityId: toActivity._id }
+  );
+
+  const { getIO, notifyCustomerById, broadcastAvailabilityChange } = await import('../websocket/server.js');
+  const sessionId = session._id.toString();
+  const transferData = {
+    session_id: sessionId,
+    from_unit_id: fromUnitId.toString(),
+    to_unit_id: toUnit._id.toString(),
+    to_unit_name: toUnit.name,
+    activity_id: toActivity._id.toString(),
+    activity_type: toActivity.type,
+    price_difference: priceDifference,
+    amount: session.amount,
+    reason: options.reason,
+    timestamp: now.toISOString(),
+  };
+
+  notifyCustomerById(sessionId, 'session', 'session_transferred', {
+    ...transferData,
+    message: `Your session has moved to ${toUnit.name}.`,
+  });
+
+  const io = getIO();
+  if (io) {
+    io.of('/admin').emit('session_transferred', transferData);
+  }
+
+  broadcastAvailabilityChange(fromActivity._id.toString(), 'maintenance');
+  broadcastAvailabilityChange(toActivity._id.toString(), 'occupied');
+
+  try {
+    await broadcastQueueEstimates(fromActivity._id.toString());
+    if (!toActivity._id.equals(fromActivity._id)) {
+      await broadcastQueueEstimates(toActivity._id.toString());
+    }
+  } catch (error) {
+    console.error('Error broadcasting queue estimates:', error);
+  }
+
+  return { session, priceDifference, remainingMinutes };
+};
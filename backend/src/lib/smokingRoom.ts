@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { ActivityModel, IActivity } from '../models/Activity.js';
+import { ISmokingRoomVisit, SmokingRoomVisitModel } from '../models/SmokingRoomVisit.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { branchFilter, findActivity, inBranchScope } from './branches.js';
+import { normalizePhone } from './otp.js';
+import { getSmsSender } from './sms.js';
+
+export const DEFAULT_SMOKING_ROOM_CAPACITY = 6;
+// Past this, people are better off coming back later than standing in line
+export const MAX_SMOKING_ROOM_QUEUE = 10;
+// Anyone who forgets to scan out is let out after this, unless the activity sets its own duration
+const DEFAULT_MAX_STAY_MINUTES = 30;
+
+const OPEN_STATUSES = ['waiting', 'called', 'inside'];
+
+// Scans and call-ins wait this long in total for another one on the same room to finish
+const ROOM_LOCK_SECONDS = 10;
+const ROOM_LOCK_RETRIES = 20;
+const ROOM_LOCK_RETRY_MS = 50;
+
+// Who is asking about a visit from the customer-facing routes
+export interface VisitActor {
+  phone?: string; // signed-in customer
+  visitToken?: string; // handed to the phone that scanned in
+}
+
+export interface SmokingRoomStatus {
+  activityId: string;
+  branchId: string;
+  name: string;
+  capacity: number;
+  occupancy: number; // inside right now
+  held: number; // spots kept for called customers on their way in
+  available: number;
+  queueLength: number;
+}
+
+/**
+ * The branch's smoking room, or a 404 when it has none
+ */
+export const getSmokingRoom = async (scope: string | null): Promise<IActivity> => {
+  const activity = await findActivity('smoking-room', scope);
+  if (!activity || !activity.enabled) {
+    throw new AppError('Smoking room not found', 404);
+  }
+  return activity;
+};
+
+export const getRoomStatus = async (activity: IActivity): Promise<SmokingRoomStatus> => {
+  const [occupancy, held, queueLength] = await Promise.all(
+    ['inside', 'called', 'waiting'].map(status =>
+      SmokingRoomVisitModel.countDocuments({ activityId: activity._id, status })
+    )
+  );
+  const capacity = activity.capacity || DEFAULT_SMOKING_ROOM_CAPACITY;
+
+  return {
+    activityId: activity._id.toString(),
+    branchId: activity.branchId.toString(),
+    name: activity.name,
+    capacity,
+    occupancy,
+    held,
+    available: Math.max(capacity - occupancy - held, 0),
+    queueLength,
+  };
+};
+
+export const formatVisit = (visit: ISmokingRoomVisit, position?: number) => ({
+  id: visit._id.toString(),
+  customerName: visit.customerName,
+  customerPhone: visit.customerPhone,
+  status: visit.status,
+  position,
+  ageConfirmedAt: visit.ageConfirmedAt,
+  queuedAt: visit.queuedAt,
+  calledAt: visit.calledAt,
+  claimDeadline: visit.claimDeadline,
+  enteredAt: visit.enteredAt,
+  exitedAt: visit.exitedAt,
+  exitedBy: visit.exitedBy,
+});
+
+const queuePosition = async (visit: ISmokingRoomVisit): Promise<number | undefined> => {
+  if (visit.status !== 'waiting') {
+    return undefined;
+  }
+  return 1 + await SmokingRoomVisitModel.countDocuments({
+    activityId: visit.activityId,
+    status: 'waiting',
+    queuedAt: { $lt: visit.queuedAt },
+  });
+};
+
+export const describeVisit = async (visit: ISmokingRoomVisit) => formatVisit(visit, await queuePosition(visit));
+
+const hashVisitToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Whether the visit belongs to whoever is asking: a customer signed in with
+ * its phone, or the phone that scanned in, holding the visit's token
+ */
+export const ownsVisit = (visit: ISmokingRoomVisit, actor: VisitActor): boolean => {
+  if (actor.phone && normalizePhone(actor.phone) === visit.customerPhone) {
+    return true;
+  }
+  return !!actor.visitToken && !!visit.visitTokenHash && hashVisitToken(actor.visitToken) === visit.visitTokenHash;
+};
+
+/**
+ * Run `fn` while holding the room's lock, so two scans or call-ins never
+ * hand out the same free spot
+ */
+const withRoomLock = async <T>(activity: IActivity, fn: () => Promise<T>): Promise<T> => {
+  const lockKey = `lock:smoking-room:${activity._id}`;
+  const lockValue = uuidv4();
+  for (let attempt = 0; !await redisUtils.acquireLock(lockKey, lockValue, ROOM_LOCK_SECONDS); attempt++) {
+    if (attempt >= ROOM_LOCK_RETRIES) {
+      throw new AppError('The smoking room is busy. Please scan again.', 409);
+    }
+    await new Promise(resolve => setTimeout(resolve, ROOM_LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await redisUtils.releaseLock(lockKey);
+  }
+};
+
+/**
+ * The customer's visit that is still under way, if any
+ */
+export const getOpenVisit = async (activity: IActivity, phone: string): Promise<ISmokingRoomVisit | null> => {
+  return SmokingRoomVisitModel.findOne({
+    activityId: activity._id,
+    customerPhone: normalizePhone(phone),
+    status: { $in: OPEN_STATUSES },
+  });
+};
+
+/**
+ * Tell staff and anyone watching the room how full it is
+ */
+export const announceRoomStatus = async (activity: IActivity): Promise<SmokingRoomStatus> => {
+  const status = await getRoomStatus(activity);
+  const { broadcastSmokingRoomUpdate } = await import('../websocket/server.js');
+  broadcastSmokingRoomUpdate(status);
+  return status;
+};
+
+/**
+ * Give each free spot to the next person in the queue. They are texted and
+ * have the activity's claim window to scan in before the spot moves on.
+ */
+export const admitFromQueue = async (activity: IActivity): Promise<ISmokingRoomVisit[]> => withRoomLock(activity, async () => {
+  const { available } = await getRoomStatus(activity);
+  if (available === 0) {
+    return [];
+  }
+
+  const next = await SmokingRoomVisitModel.find({ activityId: activity._id, status: 'waiting' })
+    .sort({ queuedAt: 1 })
+    .limit(available);
+  const now = new Date();
+  const { notifyCustomerByPhone } = await import('../websocket/server.js');
+
+  for (const visit of next) {
+    visit.status = 'called';
+    visit.calledAt = now;
+    visit.claimDeadline = new Date(now.getTime() + activity.claimWindowMinutes * 60000);
+    await visit.save();
+
+    const message = `A spot is free in the ${activity.name}. Scan in within ${activity.claimWindowMinutes} min to keep it.`;
+    await getSmsSender().send(visit.customerPhone, message);
+    notifyCustomerByPhone(visit.customerPhone, 'smoking_room_called', {
+      visitId: visit._id.toString(),
+      claimDeadline: visit.claimDeadline.toISOString(),
+      message,
+    });
+  }
+
+  return next;
+});
+
+/**
+ * Scan a customer in. They go straight in while there's room and nobody is
+ * queueing, otherwise they join the queue; a called customer scanning in
+ * takes the spot kept for them. Scanning again while in or queued changes nothing.
+ * A new visit comes with the token that lets this phone follow and end it.
+ */
+export const enterRoom = async (
+  activity: IActivity,
+  phone: string,
+  actor: VisitActor,
+  customerName?: string
+): Promise<{ visit: ISmokingRoomVisit; visitToken?: string }> => withRoomLock(activity, async () => {
+  const now = new Date();
+  const current = await getOpenVisit(activity, phone);
+  if (current && !ownsVisit(current, actor)) {
+    throw new AppError('This number is already in the smoking room or its queue. Sign in with it to carry on.', 403);
+  }
+  if (current?.status === 'called') {
+    current.status = 'inside';
+    current.enteredAt = now;
+    current.claimDeadline = undefined;
+    await current.save();
+    return { visit: current };
+  }
+  if (current) {
+    return { visit: current };
+  }
+
+  const { available, queueLength } = await getRoomStatus(activity);
+  const admitted = available > 0 && queueLength === 0;
+  if (!admitted && queueLength >= MAX_SMOKING_ROOM_QUEUE) {
+    throw new AppError('The smoking room and its queue are full. Please try again in a few minutes.', 409);
+  }
+
+  const visitToken = crypto.randomBytes(24).toString('base64url');
+  const visit = await SmokingRoomVisitModel.create({
+    branchId: activity.branchId,
+    activityId: activity._id,
+    customerPhone: normalizePhone(phone),
+    customerName,
+    visitTokenHash: hashVisitToken(visitToken),
+    status: admitted ? 'inside' : 'waiting',
+    ageConfirmedAt: now,
+    ...(admitted ? { enteredAt: now } : { queuedAt: now }),
+  });
+  return { visit, visitToken };
+});
+
+const closeVisit = async (visit: ISmokingRoomVisit, by: 'customer' | 'staff' | 'auto'): Promise<void> => {
+  visit.status = 'left';
+  visit.exitedAt = new Date();
+  visit.exitedBy = by;
+  visit.claimDeadline = undefined;
+  await visit.save();
+};
+
+/**
+ * Scan a customer out, or take them off the queue, and pass the spot on
+ */
+export const exitRoom = async (activity: IActivity, phone: string, actor: VisitActor): Promise<ISmokingRoomVisit> => {
+  const visit = await getOpenVisit(activity, phone);
+  if (!visit) {
+    throw new AppError('You are not in the smoking room or its queue', 404);
+  }
+  if (!ownsVisit(visit, actor)) {
+    throw new AppError('Scan out from the phone you scanned in with, or sign in with your number', 403);
+  }
+
+  await closeVisit(visit, 'customer');
+  await admitFromQueue(activity);
+  return visit;
+};
+
+/**
+ * Staff checking someone out from the dashboard. Returns the room as well,
+ * since staff looking at every branch don't name one.
+ */
+export const checkOutVisit = async (
+  visitId: string,
+  scope: string | null
+): Promise<{ visit: ISmokingRoomVisit; activity: IActivity }> => {
+  const visit = mongoose.Types.ObjectId.isValid(visitId) ? await SmokingRoomVisitModel.findById(visitId) : null;
+  if (!visit || !inBranchScope(visit.branchId, scope)) {
+    throw new AppError('Visit not found', 404);
+  }
+  if (!OPEN_STATUSES.includes(visit.status)) {
+    throw new AppError('This visit has already ended', 400);
+  }
+
+  await closeVisit(visit, 'staff');
+  const activity = await ActivityModel.findById(visit.activityId);
+  if (!activity) {
+    throw new AppError('Smoking room not found', 404);
+  }
+  await admitFromQueue(activity);
+  return { visit, activity };
+};
+
+/**
+ * Let go of spots whose called customer never scanned in, and let out anyone
+ * who has been inside longer than a visit lasts. Returns whether anything changed.
+ */
+export const sweepSmokingRoom = async (activity: IActivity): Promise<boolean> => {
+  const now = new Date();
+  const maxStayMinutes = activity.duration || DEFAULT_MAX_STAY_MINUTES;
+
+  const lapsed = await SmokingRoomVisitModel.updateMany(
+    { activityId: activity._id, status: 'called', claimDeadline: { $lte: now } },
+    { $set: { status: 'expired' }, $unset: { claimDeadline: 1 } }
+  );
+  const overstayed = await SmokingRoomVisitModel.find({
+    activityId: activity._id,
+    status: 'inside',
+    enteredAt: { $lte: new Date(now.getTime() - maxStayMinutes * 60000) },
+  });
+  for (const visit of overstayed) {
+    await closeVisit(visit, 'auto');
+  }
+
+  return lapsed.modifiedCount > 0 || overstayed.length > 0;
+};
+
+/**
+ * Everyone who confirmed they were 18+ on the given day, newest first
+ */
+export const getAgeConfirmations = async (scope: string | null, day: Date) => {
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60000);
+  const visits = await SmokingRoomVisitModel.find({
+    ...branchFilter(scope),
+    ageConfirmedAt: { $gte: day, $lt: nextDay },
+  }).sort({ ageConfirmedAt: -1 });
+
+  return visits.map(visit => ({
+    visitId: visit._id.toString(),
+    customerPhone: visit.customerPhone,
+    customerName: visit.customerName,
+    confirmedAt: visit.ageConfirmedAt,
+    status: visit.status,
+  }));
+};
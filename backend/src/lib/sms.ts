@@ -0,0 +1,21 @@
+export interface SmsSender {
+  send: (phone: string, message: string) => Promise<void>;
+}
+
+/**
+ * Local stand-in: prints the message instead of sending it. Used unless a real
+ * provider is plugged in with setSmsSender().
+ */
+export const consoleSmsSender: SmsSender = {
+  send: async (phone, message) => {
+    console.log(`📱 SMS to ${phone}: ${message}`);
+  },
+};
+
+let sender: SmsSender = consoleSmsSender;
+
+export const getSmsSender = (): SmsSender => sender;
+
+export const setSmsSender = (smsSender: SmsSender | null): void => {
+  sender = smsSender || consoleSmsSender;
+};
@@ -0,0 +1,446 @@
+import mongoose from 'mongoose';
+import { TournamentModel, ITournament, ITournamentMatch, ITournamentPlayer } from '../models/Tournament.js';
+import { SessionModel, ISession } from '../models/Session.js';
+import { ActivityModel, ActivityUnitModel } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { redisUtils } from '../config/redis.js';
+import { findUnitConflicts, isAdvanceBooking } from './availability.js';
+import { isUnitHeldForOther } from './queueManager.js';
+import { issueVoteLinks } from './challengeVotes.js';
+
+type Pairing = [ITournamentPlayer | null, ITournamentPlayer | null];
+
+const isConfirmed = (player: ITournamentPlayer) => player.paymentStatus !== 'pending';
+
+const sameId = (a?: mongoose.Types.ObjectId, b?: mongoose.Types.ObjectId) =>
+  !!a && !!b && a.toString() === b.toString();
+
+export const getRoundCount = (tournament: ITournament): number =>
+  tournament.matches.reduce((max, match) => Math.max(max, match.round), 0);
+
+/**
+ * Standard knockout seeding: 1 plays the lowest seed, and 1 and 2 can only
+ * meet in the final. The field is padded to a power of two; top seeds get
+ * the byes.
+ */
+const pairSingleElimination = (players: ITournamentPlayer[]): Pairing[] => {
+  let order = [1, 2];
+  while (order.length < players.length) {
+    const size = order.length * 2;
+    order = order.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  const bySeed = (seed: number) => players[seed - 1] || null;
+  return Array.from({ length: order.length / 2 }, (_, i) => [bySeed(order[i * 2]), bySeed(order[i * 2 + 1])] as Pairing);
+};
+
+/**
+ * Circle method: one player stays put while the rest rotate, so everyone
+ * meets everyone once. An odd field gives one player a rest each round.
+ */
+const pairRoundRobin = (players: ITournamentPlayer[]): Pairing[][] => {
+  const slots: Array<ITournamentPlayer | null> = players.length % 2 ? [...players, null] : [...players];
+  const rounds: Pairing[][] = [];
+
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairings: Pairing[] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      pairings.push([slots[i], slots[slots.length - 1 - i]]);
+    }
+    rounds.push(pairings.filter(([a, b]) => a && b));
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return rounds;
+};
+
+/**
+ * Close registration and draw the bracket from the players who have paid,
+ * seeded in the order they registered. Unpaid sign-ups are dropped.
+ */
+export const drawBracket = async (tournament: ITournament): Promise<ITournament> => {
+  if (tournament.status !== 'registration') {
+    throw new AppError('This tournament has already started', 400);
+  }
+
+  const players = tournament.players
+    .filter(isConfirmed)
+    .sort((a, b) => a.registeredAt.getTime() - b.registeredAt.getTime());
+  if (players.length < 2) {
+    throw new AppError('At least 2 paid players are needed to start', 400);
+  }
+  players.forEach((player, index) => {
+    player.seed = index + 1;
+  });
+
+  const matches: Array<Partial<ITournamentMatch>> = [];
+  if (tournament.format === 'single_elimination') {
+    const firstRound = pairSingleElimination(players);
+    firstRound.forEach(([a, b], position) => {
+      const bye = !a || !b;
+      matches.push({
+        round: 1,
+        position,
+        player1Id: a?._id,
+        player2Id: b?._id,
+        winnerId: bye ? (a || b)?._id : undefined,
+        status: bye ? 'bye' : 'pending',
+      });
+    });
+    for (let round = 2, count = firstRound.length / 2; count >= 1; round++, count /= 2) {
+      for (let position = 0; position < count; position++) {
+        matches.push({ round, position, status: 'pending' });
+      }
+    }
+  } else {
+    pairRoundRobin(players).forEach((pairings, index) => {
+      pairings.forEach(([a, b], position) => {
+        matches.push({ round: index + 1, position, player1Id: a!._id, player2Id: b!._id, status: 'pending' });
+      });
+    });
+  }
+
+  const started = await TournamentModel.findOneAndUpdate(
+    { _id: tournament._id, status: 'registration' },
+    {
+      $set: {
+        status: 'in_progress',
+        startedAt: new Date(),
+        players,
+        matches,
+      },
+    },
+    { new: true }
+  );
+  if (!started) {
+    throw new AppError('This tournament has already started', 400);
+  }
+
+  // Byes go straight through to round 2
+  if (started.format === 'single_elimination') {
+    for (const match of started.matches.filter(m => m.status === 'bye')) {
+      advanceIntoNextRound(started, match);
+    }
+    await started.save();
+  }
+
+  await broadcastTournament(started);
+  return started;
+};
+
+const advanceIntoNextRound = (tournament: ITournament, match: ITournamentMatch): void => {
+  const next = tournament.matches.find(m => m.round === match.round + 1 && m.position === Math.floor(match.position / 2));
+  if (!next) {
+    return;
+  }
+  if (match.position % 2 === 0) {
+    next.player1Id = match.winnerId;
+  } else {
+    next.player2Id = match.winnerId;
+  }
+};
+
+/**
+ * Round-robin standings: most wins first, then the seed order
+ */
+export const getStandings = (tournament: ITournament) => {
+  const wins = new Map<string, number>();
+  const played = new Map<string, number>();
+  for (const match of tournament.matches) {
+    if (match.status !== 'completed') continue;
+    for (const id of [match.player1Id, match.player2Id]) {
+      played.set(id!.toString(), (played.get(id!.toString()) || 0) + 1);
+    }
+    wins.set(match.winnerId!.toString(), (wins.get(match.winnerId!.toString()) || 0) + 1);
+  }
+
+  return tournament.players
+    .filter(player => player.seed !== undefined)
+    .map(player => ({
+      playerId: player._id.toString(),
+      name: player.name,
+      played: played.get(player._id.toString()) || 0,
+      wins: wins.get(player._id.toString()) || 0,
+      seed: player.seed!,
+    }))
+    .sort((a, b) => b.wins - a.wins || a.seed - b.seed);
+};
+
+/**
+ * Record the winner of a match and move the tournament on: the next round in
+ * a knockout, and the champion once the final or the last round-robin game
+ * is decided
+ */
+export const completeMatch = async (
+  tournament: ITournament,
+  match: ITournamentMatch,
+  winnerId: mongoose.Types.ObjectId
+): Promise<ITournament> => {
+  if (match.status === 'completed' || match.status === 'bye') {
+    return tournament;
+  }
+
+  match.winnerId = winnerId;
+  match.status = 'completed';
+  match.completedAt = new Date();
+
+  if (tournament.format === 'single_elimination') {
+    if (match.round === getRoundCount(tournament)) {
+      tournament.winnerId = winnerId;
+    } else {
+      advanceIntoNextRound(tournament, match);
+    }
+  } else if (tournament.matches.every(m => m.status === 'completed')) {
+    tournament.winnerId = new mongoose.Types.ObjectId(getStandings(tournament)[0].playerId);
+  }
+
+  if (tournament.winnerId) {
+    tournament.status = 'completed';
+    tournament.completedAt = new Date();
+  }
+
+  await tournament.save();
+  await broadcastTournament(tournament);
+  return tournament;
+};
+
+/**
+ * Carry a challenge session's winner over to its tournament match. Called
+ * whenever a winner is picked, by staff or by the players' votes.
+ */
+export const recordMatchResult = async (session: ISession): Promise<void> => {
+  const winnerName = session.challengeData?.winner;
+  if (!session.tournamentId || !session.tournamentMatchId || !winnerName) {
+    return;
+  }
+
+  const tournament = await TournamentModel.findById(session.tournamentId);
+  const match = tournament?.matches.find(m => sameId(m._id, session.tournamentMatchId));
+  if (!tournament || !match || tournament.status !== 'in_progress') {
+    return;
+  }
+  // The match has been rescheduled onto another session since
+  if (match.sessionId && !sameId(match.sessionId, session._id)) {
+    return;
+  }
+
+  const winner = tournament.players.find(p =>
+    (sameId(p._id, match.player1Id) || sameId(p._id, match.player2Id)) && p.name === winnerName
+  );
+  if (!winner) {
+    throw new AppError('The winner is not playing in this match', 400);
+  }
+
+  await completeMatch(tournament, match, winner._id);
+};
+
+/**
+ * Put a match back to pending when its session can no longer be relied on to
+ * decide it (deleted, a no-show, or over without a winner) so it can be
+ * rescheduled. A winner picked later for an ended session still counts as
+ * long as the match hasn't been put on another session.
+ */
+export const releaseMatch = async (session: ISession): Promise<void> => {
+  if (!session.tournamentId || !session.tournamentMatchId) {
+    return;
+  }
+
+  const tournament = await TournamentModel.findById(session.tournamentId);
+  const match = tournament?.matches.find(m => sameId(m._id, session.tournamentMatchId));
+  if (!tournament || !match || tournament.status !== 'in_progress') {
+    return;
+  }
+  if (!['scheduled', 'in_progress'].includes(match.status) || !sameId(match.sessionId, session._id)) {
+    return;
+  }
+
+  match.status = 'pending';
+  match.sessionId = undefined;
+  match.unitId = undefined;
+  match.scheduledAt = undefined;
+  await tournament.save();
+  await broadcastTournament(tournament);
+};
+
+/**
+ * Put a match on a unit as a challenge session, now or at a later time. The
+ * entry fee covers the table, so the session itself costs nothing.
+ */
+export const scheduleMatch = async (
+  tournament: ITournament,
+  match: ITournamentMatch,
+  unitId: string,
+  startTime?: Date
+): Promise<ISession> => {
+  if (tournament.status !== 'in_progress') {
+    throw new AppError('This tournament is not running', 400);
+  }
+  if (match.status !== 'pending') {
+    throw new AppError('This match has already been scheduled or played', 400);
+  }
+  const player1 = tournament.players.find(p => sameId(p._id, match.player1Id));
+  const player2 = tournament.players.find(p => sameId(p._id, match.player2Id));
+  if (!player1 || !player2) {
+    throw new AppError('Both players need to be known before the match can be scheduled', 400);
+  }
+
+  const activity = await ActivityModel.findById(tournament.activityId);
+  if (!activity) {
+    throw new AppError('Activity not found', 404);
+  }
+  const unit = mongoose.Types.ObjectId.isValid(unitId)
+    ? await ActivityUnitModel.findOne({ _id: unitId, activityId: activity._id })
+    : null;
+  if (!unit || unit.status === 'maintenance') {
+    throw new AppError('Unit not found or under maintenance', 400);
+  }
+
+  const now = new Date();
+  const startNow = !startTime || !isAdvanceBooking(startTime, now);
+  const start = startNow ? now : startTime;
+  const end = new Date(start.getTime() + tournament.matchDuration * 60000);
+
+  if (startNow) {
+    if (unit.status !== 'available') {
+      throw new AppError(`${unit.name} is not free right now`, 400);
+    }
+    if (await isUnitHeldForOther(activity._id.toString(), unit._id.toString(), '')) {
+      throw new AppError(`${unit.name} is being held for a customer from the waiting queue`, 409);
+    }
+  }
+  const conflicts = await findUnitConflicts(unit._id, start, end, activity.bufferTime || 0);
+  if (conflicts.length > 0) {
+    throw new AppError(`${unit.name} is already booked for this time`, 409);
+  }
+
+  const session = await SessionModel.create({
+    activityId: activity._id,
+    branchId: activity.branchId,
+    activityType: activity.type,
+    unitId: unit._id,
+    customerName: player1.name,
+    customerPhone: player1.phone,
+    startTime: start,
+    endTime: end,
+    actualStartTime: startNow ? now : undefined,
+    duration: tournament.matchDuration,
+    durationMinutes: tournament.matchDuration,
+    baseAmount: 0,
+    amount: 0,
+    paymentStatus: 'paid',
+    status: startNow ? 'active' : 'scheduled',
+    extended: false,
+    isChallengeSession: true,
+    tournamentId: tournament._id,
+    tournamentMatchId: match._id,
+    challengeData: {
+      sessionType: 'challenge',
+      players: [player1, player2].map(p => ({ name: p.name, phone: p.phone, isWinner: false, hasVoted: false })),
+      totalPlayers: 2,
+      challengeStartedBy: player1.name,
+      challengeStartedByPhone: player1.phone,
+    },
+  });
+  await issueVoteLinks(session);
+
+  match.status = startNow ? 'in_progress' : 'scheduled';
+  match.sessionId = session._id;
+  match.unitId = unit._id;
+  match.scheduledAt = start;
+  await tournament.save();
+
+  const { broadcastAvailabilityChange, notifyCustomerByPhone } = await import('../websocket/server.js');
+  if (startNow) {
+    await ActivityUnitModel.findByIdAndUpdate(unit._id, { status: 'occupied' });
+    await redisUtils.setSessionState(session._id.toString(), {
+      status: 'active',
+      started_at: now.getTime().toString(),
+      elapsed_seconds: '0',
+    });
+    broadcastAvailabilityChange(activity._id.toString(), 'occupied');
+  }
+
+  for (const player of [player1, player2]) {
+    notifyCustomerByPhone(player.phone, 'tournament_match_scheduled', {
+      tournamentId: tournament._id.toString(),
+      matchId: match._id.toString(),
+      sessionId: session._id.toString(),
+      unitName: unit.name,
+      startTime: start.toISOString(),
+    });
+  }
+  await broadcastTournament(tournament);
+
+  return session;
+};
+
+/**
+ * Confirm a player's entry once their fee is paid
+ */
+export const confirmTournamentEntry = async (
+  playerId: string,
+  paymentId: string,
+  paymentStatus: 'paid' | 'offline'
+): Promise<ITournament> => {
+  if (!mongoose.Types.ObjectId.isValid(playerId)) {
+    throw new AppError('Registration not found', 404);
+  }
+
+  const tournament = await TournamentModel.findOneAndUpdate(
+    { status: 'registration', players: { $elemMatch: { _id: playerId, paymentStatus: 'pending' } } },
+    { $set: { 'players.$.paymentStatus': paymentStatus, 'players.$.paymentId': paymentId } },
+    { new: true }
+  );
+  if (!tournament) {
+    throw new AppError('This registration is not awaiting payment', 400);
+  }
+
+  await broadcastTournament(tournament);
+  return tournament;
+};
+
+export const formatTournament = (tournament: ITournament) => {
+  const names = new Map(tournament.players.map(p => [p._id.toString(), p.name]));
+  const nameOf = (id?: mongoose.Types.ObjectId) => (id ? names.get(id.toString()) : undefined);
+
+  return {
+    id: tournament._id.toString(),
+    name: tournament.name,
+    activityId: tournament.activityType,
+    format: tournament.format,
+    entryFee: tournament.entryFee,
+    maxPlayers: tournament.maxPlayers,
+    matchDuration: tournament.matchDuration,
+    startsAt: tournament.startsAt,
+    status: tournament.status,
+    playerCount: tournament.players.filter(isConfirmed).length,
+    players: tournament.players.map(player => ({
+      id: player._id.toString(),
+      name: player.name,
+      paid: isConfirmed(player),
+      seed: player.seed,
+    })),
+    rounds: getRoundCount(tournament),
+    matches: [...tournament.matches]
+      .sort((a, b) => a.round - b.round || a.position - b.position)
+      .map(match => ({
+        id: match._id.toString(),
+        round: match.round,
+        position: match.position,
+        player1: nameOf(match.player1Id),
+        player2: nameOf(match.player2Id),
+        winner: nameOf(match.winnerId),
+        status: match.status,
+        sessionId: match.sessionId?.toString(),
+        unitId: match.unitId?.toString(),
+        scheduledAt: match.scheduledAt,
+      })),
+    standings: tournament.format === 'round_robin' ? getStandings(tournament) : undefined,
+    winner: nameOf(tournament.winnerId),
+    startedAt: tournament.startedAt,
+    completedAt: tournament.completedAt,
+  };
+};
+
+export const broadcastTournament = async (tournament: ITournament): Promise<void> => {
+  const { broadcastTournamentUpdate } = await import('../websocket/server.js');
+  broadcastTournamentUpdate(tournament._id.toString(), formatTournament(tournament));
+};
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { UserModel } from '../models/User.js';
+import { CustomerModel } from '../models/Customer.js';
+import { AppError } from './errorHandler.js';
+import { getRequestedBranch, resolveStaffBranchScope } from '../lib/branches.js';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -10,6 +13,15 @@ export interface AuthRequest extends Request {
     name: string;
     branchId: string | null;
   };
+  branchScope?: string | null; // branch the request is limited to, null for all branches
+}
+
+export interface CustomerRequest extends Request {
+  customer?: {
+    id: string;
+    phone: string;
+    name?: string;
+  };
 }
 
 export const authenticate = async (
@@ -49,12 +61,139 @@ export const authenticate = async (
       branchId: user.branchId || null,
     };
 
+    // Staff tied to a branch are held to it whatever branch the client asks for
+    req.branchScope = await resolveStaffBranchScope(req.user.branchId, getRequestedBranch(req));
+
+    next();
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+export const authenticateCustomer = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Please sign in with your phone number' });
+      return;
+    }
+
+    const token = authHeader.substring(7);
+    const secret = process.env.JWT_SECRET;
+
+    if (!secret) {
+      res.status(500).json({ error: 'JWT secret not configured' });
+      return;
+    }
+
+    const decoded = jwt.verify(token, secret) as { customerId?: string; role?: string };
+    if (decoded.role !== 'customer' || !decoded.customerId) {
+      res.status(401).json({ error: 'Invalid token' });
+      return;
+    }
+
+    const customer = await CustomerModel.findById(decoded.customerId);
+    if (!customer) {
+      res.status(401).json({ error: 'Customer not found' });
+      return;
+    }
+
+    req.customer = {
+      id: customer._id.toString(),
+      phone: customer.phone,
+      name: customer.name,
+    };
+
     next();
   } catch (error) {
     res.status(401).json({ error: 'Invalid token' });
   }
 };
 
+/**
+ * Attach the signed-in customer when a valid customer token is sent, without
+ * requiring one. Lets public booking routes offer sign-in-only options.
+ */
+export const identifyCustomer = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const secret = process.env.JWT_SECRET;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ') || !secret) {
+    next();
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(authHeader.substring(7), secret) as { customerId?: string; role?: string };
+    if (decoded.role === 'customer' && decoded.customerId) {
+      const customer = await CustomerModel.findById(decoded.customerId);
+      if (customer) {
+        req.customer = {
+          id: customer._id.toString(),
+          phone: customer.phone,
+          name: customer.name,
+        };
+      }
+    }
+  } catch (error) {
+    // An expired or foreign token just means the request is anonymous
+  }
+
+  next();
+};
+
+/**
+ * Attach the staff member when a valid staff token is sent, without requiring
+ * one. Lets routes that players use from their phones also take staff.
+ */
+export const identifyStaff = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const secret = process.env.JWT_SECRET;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ') || !secret) {
+    next();
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(authHeader.substring(7), secret) as { userId?: string };
+    const user = decoded.userId ? await UserModel.findById(decoded.userId) : null;
+    if (user) {
+      // Resolved first so staff asking for another branch stay anonymous
+      const branchScope = await resolveStaffBranchScope(user.branchId || null, getRequestedBranch(req));
+      req.user = {
+        id: user._id.toString(),
+        username: user.username,
+        role: user.role,
+        name: user.name,
+        branchId: user.branchId || null,
+      };
+      req.branchScope = branchScope;
+    }
+  } catch (error) {
+    // Customer and foreign tokens are left to the other checks
+  }
+
+  next();
+};
+
 export const requireRole = (...roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -71,6 +210,21 @@ export const requireRole = (...roles: string[]) => {
   };
 };
 
+// Owners are admins who aren't tied to a branch
+export const requireOwner = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  if (req.user.role !== 'admin' || req.user.branchId) {
+    res.status(403).json({ error: 'Only owners can manage branches' });
+    return;
+  }
+
+  next();
+};
+
 export const requireAdmin = requireRole('admin');
 export const requireStaff = requireRole('admin', 'staff');
 export const requireChef = requireRole('admin', 'chef');
\ No newline at end of file
@@ -0,0 +1,18 @@
+import rateLimit from 'express-rate-limit';
+
+// The suites all share one IP, so limits are left to the per-phone checks there
+const skip = () => process.env.NODE_ENV === 'test';
+
+const limiter = (windowMinutes: number, limit: number, message: string) =>
+  rateLimit({
+    windowMs: windowMinutes * 60000,
+    limit,
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip,
+    message: { error: message },
+  });
+
+export const otpRequestLimiter = limiter(15, 10, 'Too many code requests. Please try again later.');
+
+export const otpVerifyLimiter = limiter(15, 30, 'Too many sign-in attempts. Please try again later.');
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError } from 'zod';
 import { AppError } from './errorHandler.js';
+import { MAX_BOOKING_MINUTES } from '../lib/pricing.js';
 
 export const validate = (schema: z.ZodSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -40,6 +41,7 @@ export const registerSchema = z.object({
     password: z.string().min(6, 'Password must be at least 6 characters'),
     name: z.string().min(1, 'Name is required'),
     role: z.enum(['admin', 'staff', 'chef']).optional(),
+    branchId: z.string().min(1).optional(),
   }),
 });
 
@@ -49,12 +51,17 @@ export const createSessionSchema = z.object({
     unitId: z.string().min(1, 'Unit ID is required'), // Accepts both UUID and ObjectId
     customerName: z.string().min(1, 'Customer name is required'),
     customerPhone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
-    duration: z.number().int().min(1, 'Duration must be at least 1 minute'),
+    duration: z.number().int().min(1, 'Duration must be at least 1 minute').max(MAX_BOOKING_MINUTES, `Duration can be at most ${MAX_BOOKING_MINUTES} minutes`).optional(), // required unless postpaid
+    billingMode: z.enum(['prepaid', 'postpaid']).optional(), // postpaid starts an open-ended session billed when it ends
     qrContext: z.object({
       branchId: z.string().optional(),
       zoneId: z.string().optional(),
       tableId: z.string().optional(),
     }).optional(),
+    packagePurchaseId: z.string().min(1).optional(), // pay from a prepaid pack; needs a customer token
+  }).refine(body => body.billingMode === 'postpaid' || body.duration !== undefined, {
+    message: 'Duration is required',
+    path: ['duration'],
   }),
 });
 
@@ -73,13 +80,14 @@ export const createOrderSchema = z.object({
       tableId: z.string().optional(),
     }).optional(),
     sessionId: z.string().min(1).optional(), // Accepts both UUID and ObjectId
+    couponCode: z.string().min(1).optional(),
   }),
 });
 
 export const joinQueueSchema = z.object({
   body: z.object({
     activityId: z.string().min(1, 'Activity ID is required'),
-    duration: z.number().int().min(1, 'Duration must be at least 1 minute'),
+    duration: z.number().int().min(1, 'Duration must be at least 1 minute').max(MAX_BOOKING_MINUTES, `Duration can be at most ${MAX_BOOKING_MINUTES} minutes`),
     customerName: z.string().min(1, 'Customer name is required'),
     customerPhone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
     qrContext: z.object({
@@ -106,3 +114,198 @@ export const confirmReservationSchema = z.object({
   }),
 });
 
+export const createGroupBookingSchema = z.object({
+  body: z.object({
+    units: z.array(z.object({
+      activityId: z.string().min(1, 'Activity ID is required'),
+      unitId: z.string().min(1, 'Unit ID is required'),
+    })).min(2, 'A group booking needs at least two units').max(10, 'A group booking can hold at most 10 units'),
+    startTime: z.string().optional(), // omitted to start as soon as payment clears
+    duration: z.number().int().min(1, 'Duration must be at least 1 minute').max(MAX_BOOKING_MINUTES, `Duration can be at most ${MAX_BOOKING_MINUTES} minutes`),
+    customerName: z.string().min(1, 'Customer name is required'),
+    customerPhone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+    qrContext: z.object({
+      branchId: z.string().optional(),
+      zoneId: z.string().optional(),
+      tableId: z.string().optional(),
+    }).optional(),
+  }),
+});
+
+
+export const createSeriesSchema = z.object({
+  body: z.object({
+    activityId: z.string().min(1, 'Activity ID is required'),
+    unitIds: z.array(z.string().min(1)).min(1, 'Pick at least one unit').max(10, 'A series can hold at most 10 units'),
+    startTime: z.string().min(1, 'Start time is required'), // first occurrence
+    duration: z.number().int().min(1, 'Duration must be at least 1 minute').max(MAX_BOOKING_MINUTES, `Duration can be at most ${MAX_BOOKING_MINUTES} minutes`),
+    frequency: z.enum(['weekly', 'biweekly']),
+    endDate: z.string().optional(),
+    occurrences: z.number().int().min(1).max(52, 'A series can have at most 52 occurrences').optional(),
+    customerName: z.string().min(1, 'Customer name is required'),
+    customerPhone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+    billing: z.enum(['per_occurrence', 'upfront']).optional(),
+    qrContext: z.object({
+      branchId: z.string().optional(),
+      zoneId: z.string().optional(),
+      tableId: z.string().optional(),
+    }).optional(),
+  }),
+});
+
+export const createBillSplitSchema = z.object({
+  body: z.object({
+    sessionId: z.string().min(1, 'Session ID is required'),
+    mode: z.enum(['even', 'custom', 'loser_pays']),
+    amounts: z.array(z.object({
+      playerName: z.string().min(1, 'Player name is required'),
+      amount: z.number().min(0, 'Share amounts cannot be negative'),
+    })).min(1).optional(), // required for custom splits
+  }).refine(body => body.mode !== 'custom' || !!body.amounts, {
+    message: 'Custom splits need an amount for each player',
+    path: ['amounts'],
+  }),
+});
+
+export const createTournamentSchema = z.object({
+  body: z.object({
+    name: z.string().min(1, 'Name is required'),
+    activityId: z.string().min(1, 'Activity ID is required'),
+    format: z.enum(['single_elimination', 'round_robin']),
+    entryFee: z.number().min(0, 'Entry fee cannot be negative').optional(),
+    maxPlayers: z.number().int().min(2, 'A tournament needs at least 2 players').max(64, 'A tournament can have at most 64 players'),
+    matchDuration: z.number().int().min(1, 'Match duration must be at least 1 minute').optional(), // defaults to the activity minimum
+    startsAt: z.string().min(1, 'Start time is required'),
+  }),
+});
+
+export const registerTournamentSchema = z.object({
+  body: z.object({
+    name: z.string().min(1, 'Name is required'),
+    phone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+  }),
+});
+
+export const scheduleMatchSchema = z.object({
+  body: z.object({
+    unitId: z.string().min(1, 'Unit ID is required'),
+    startTime: z.string().optional(), // omitted to start the match now
+  }),
+});
+
+export const voteWinnerSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Voting token is required'), // from the player's own voting link
+    winnerName: z.string().min(1, 'Winner is required'),
+  }),
+});
+
+export const startScoreboardSchema = z.object({
+  body: z.object({
+    players: z.array(z.string().min(1)).length(2).optional(), // challenges use their own players
+    bestOf: z.number().int().min(1).max(35).optional(),
+  }),
+});
+
+// A single pot is worth at most 7, a break at most 155 (147 plus a free ball), a foul 4 to 7
+const SCORE_LIMITS = { points: [1, 7], break: [1, 155], foul: [4, 7] } as const;
+
+export const scoreEventSchema = z.object({
+  body: z.object({
+    type: z.enum(['points', 'break', 'foul']),
+    player: z.string().min(1, 'Player is required'),
+    points: z.number().int(),
+  }).refine(body => body.points >= SCORE_LIMITS[body.type][0] && body.points <= SCORE_LIMITS[body.type][1], {
+    message: 'Points are out of range for this kind of entry',
+    path: ['points'],
+  }),
+});
+
+export const endFrameSchema = z.object({
+  body: z.object({
+    winner: z.string().min(1).optional(), // defaults to whoever is ahead
+  }),
+});
+
+const lapDefaultsShape = {
+  track: z.string().trim().min(1).optional(),
+  car: z.string().trim().min(1).optional(),
+  driverName: z.string().trim().min(1).optional(),
+};
+
+export const addLapsSchema = z.object({
+  body: z.object({
+    ...lapDefaultsShape,
+    laps: z.array(z.object({
+      time: z.union([z.string().min(1), z.number().positive()]), // seconds or m:ss.sss
+      lapNumber: z.number().int().min(1).optional(),
+      driverName: z.string().trim().min(1).optional(),
+      valid: z.boolean().optional(),
+    })).min(1, 'Add at least one lap').max(500),
+  }),
+});
+
+export const importLapsSchema = z.object({
+  body: z.object({
+    ...lapDefaultsShape,
+    format: z.enum(['csv', 'json']),
+    content: z.string().min(1, 'The telemetry export is empty').max(100_000), // within the JSON body limit
+  }),
+});
+
+export const enterSmokingRoomSchema = z.object({
+  body: z.object({
+    phone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+    name: z.string().trim().min(1).optional(),
+    ageConfirmed: z.literal(true, { errorMap: () => ({ message: 'Entry is only for customers aged 18 and above' }) }),
+  }),
+});
+
+export const exitSmokingRoomSchema = z.object({
+  body: z.object({
+    phone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+  }),
+});
+
+export const requestOtpSchema = z.object({
+  body: z.object({
+    phone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+  }),
+});
+
+export const verifyOtpSchema = z.object({
+  body: z.object({
+    phone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits'),
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+    name: z.string().optional(),
+  }),
+});
+
+export const redeemLoyaltySchema = z.object({
+  body: z.object({
+    type: z.enum(['reservation', 'order']),
+    entityId: z.string().min(1, 'Booking ID is required'),
+    points: z.number().int().positive('Points must be greater than 0'),
+  }),
+});
+
+export const validateCouponSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Coupon code is required'),
+    type: z.enum(['reservation', 'order']),
+    entityId: z.string().min(1).optional(), // an existing booking or order
+    customerPhone: z.string().regex(/^\d{10}$/, 'Phone must be 10 digits').optional(), // with items, before ordering
+    items: z.array(z.object({
+      menuItemId: z.string().min(1, 'Menu item ID is required'),
+      quantity: z.number().int().min(1),
+    })).min(1).optional(),
+  }),
+});
+
+export const applyCouponSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Coupon code is required'),
+    type: z.enum(['reservation', 'order']),
+    entityId: z.string().min(1, 'Booking ID is required'),
+  }),
+});
@@ -4,6 +4,7 @@ export type ActivityType = 'snooker-standard' | 'snooker-premium' | 'playstation
 export type PricingType = 'per-minute' | 'per-hour' | 'fixed-duration';
 
 export interface IActivity extends Document {
+  branchId: mongoose.Types.ObjectId;
   type: ActivityType;
   name: string;
   description?: string;
@@ -12,7 +13,11 @@ export interface IActivity extends Document {
   duration?: number; // For fixed-duration activities
   minimumDuration: number;
   peakMultiplier?: number;
+  loyaltyPointsPerRupee: number;
   bufferTime: number;
+  claimWindowMinutes: number; // how long a called queue customer has to claim a free unit
+  noShowGraceMinutes: number; // how long after the start a booked slot waits for check-in
+  capacity?: number; // smoking room: how many people may be inside at once
   enabled: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -20,6 +25,7 @@ export interface IActivity extends Document {
 
 export interface IActivityUnit extends Document {
   activityId: mongoose.Types.ObjectId;
+  branchId: mongoose.Types.ObjectId; // same as the activity's
   name: string;
   status: 'available' | 'occupied' | 'maintenance';
   location?: string;
@@ -30,10 +36,14 @@ export interface IActivityUnit extends Document {
 
 const ActivitySchema = new Schema<IActivity>(
   {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+      required: true,
+    },
     type: {
       type: String,
       required: true,
-      unique: true,
       enum: ['snooker-standard', 'snooker-premium', 'playstation', 'racing', 'smoking-room'],
     },
     name: {
@@ -69,12 +79,31 @@ const ActivitySchema = new Schema<IActivity>(
       type: Number,
       min: 1,
     },
+    loyaltyPointsPerRupee: {
+      type: Number,
+      min: 0,
+      default: 0.05,
+    },
     bufferTime: {
       type: Number,
       required: true,
       min: 0,
       default: 5,
     },
+    claimWindowMinutes: {
+      type: Number,
+      min: 1,
+      default: 5,
+    },
+    noShowGraceMinutes: {
+      type: Number,
+      min: 1,
+      default: 15,
+    },
+    capacity: {
+      type: Number,
+      min: 1,
+    },
     enabled: {
       type: Boolean,
       default: true,
@@ -92,6 +121,11 @@ const ActivityUnitSchema = new Schema<IActivityUnit>(
       ref: 'Activity',
       required: true,
     },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+      required: true,
+    },
     name: {
       type: String,
       required: true,
@@ -117,7 +151,9 @@ const ActivityUnitSchema = new Schema<IActivityUnit>(
 );
 
 ActivitySchema.index({ enabled: 1 });
+ActivitySchema.index({ branchId: 1, type: 1 }, { unique: true });
 ActivityUnitSchema.index({ activityId: 1 });
+ActivityUnitSchema.index({ branchId: 1 });
 ActivityUnitSchema.index({ status: 1 });
 ActivityUnitSchema.index({ activityId: 1, name: 1 }, { unique: true });
 
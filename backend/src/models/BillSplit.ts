@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type BillSplitMode = 'even' | 'custom' | 'loser_pays';
+
+export interface IBillShare {
+  _id: mongoose.Types.ObjectId;
+  playerName: string;
+  phone?: string;
+  amount: number;
+  status: 'pending' | 'paid' | 'offline';
+  paymentId?: string;
+  razorpayOrderId?: string;
+  paidAt?: Date;
+}
+
+export interface IBillSplit extends Document {
+  branchId?: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  orderIds: mongoose.Types.ObjectId[]; // unpaid food orders linked to the session when the split was made
+  mode: BillSplitMode;
+  sessionAmount: number;
+  ordersAmount: number;
+  totalAmount: number; // sessionAmount + ordersAmount, shared out across the players
+  shares: IBillShare[]; // only players who owe something
+  status: 'open' | 'settled' | 'cancelled';
+  settledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BillShareSchema = new Schema<IBillShare>({
+  playerName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  phone: {
+    type: String,
+    trim: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'paid', 'offline'],
+    default: 'pending',
+  },
+  paymentId: String,
+  razorpayOrderId: String,
+  paidAt: Date,
+});
+
+const BillSplitSchema = new Schema<IBillSplit>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true,
+    },
+    orderIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'FoodOrder',
+    }],
+    mode: {
+      type: String,
+      enum: ['even', 'custom', 'loser_pays'],
+      required: true,
+    },
+    sessionAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    ordersAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    shares: [BillShareSchema],
+    status: {
+      type: String,
+      enum: ['open', 'settled', 'cancelled'],
+      default: 'open',
+    },
+    settledAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+BillSplitSchema.index({ sessionId: 1, status: 1 });
+BillSplitSchema.index({ 'shares._id': 1 });
+
+export const BillSplitModel = mongoose.model<IBillSplit>('BillSplit', BillSplitSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBranch extends Document {
+  code: string; // used in QR codes as ?branch=<code>
+  name: string;
+  address?: string;
+  phone?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BranchSchema = new Schema<IBranch>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true,
+      match: /^[a-z0-9-]+$/,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    address: {
+      type: String,
+      trim: true,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const BranchModel = mongoose.model<IBranch>('Branch', BranchSchema);
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ActivityType } from './Activity.js';
+
+export interface IChallengeResultPlayer {
+  playerId: mongoose.Types.ObjectId;
+  name: string;
+  isWinner: boolean;
+  ratingBefore: number;
+  ratingAfter: number;
+}
+
+export interface IChallengeResult extends Document {
+  branchId?: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  activityType: ActivityType;
+  players: IChallengeResultPlayer[]; // only players who gave a phone are rated
+  playedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChallengeResultPlayerSchema = new Schema<IChallengeResultPlayer>(
+  {
+    playerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlayerProfile',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    isWinner: {
+      type: Boolean,
+      default: false,
+    },
+    ratingBefore: {
+      type: Number,
+      required: true,
+    },
+    ratingAfter: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const ChallengeResultSchema = new Schema<IChallengeResult>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true,
+      unique: true,
+    },
+    activityType: {
+      type: String,
+      required: true,
+    },
+    players: [ChallengeResultPlayerSchema],
+    playedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+ChallengeResultSchema.index({ activityType: 1, playedAt: -1 });
+ChallengeResultSchema.index({ 'players.playerId': 1, playedAt: -1 });
+
+export const ChallengeResultModel = mongoose.model<IChallengeResult>('ChallengeResult', ChallengeResultSchema);
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MenuCategory } from './Order.js';
+
+export interface ICoupon extends Document {
+  code: string;
+  description?: string;
+  discountType: 'percent' | 'flat';
+  value: number; // percent off, or rupees off for flat coupons
+  maxDiscount?: number; // cap on a percent coupon's discount
+  activityIds: mongoose.Types.ObjectId[];
+  menuCategories: MenuCategory[];
+  minSpend: number;
+  usageLimit?: number; // total redemptions across all customers
+  perPhoneLimit?: number;
+  usedCount: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    discountType: {
+      type: String,
+      required: true,
+      enum: ['percent', 'flat'],
+    },
+    value: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    maxDiscount: {
+      type: Number,
+      min: 1,
+    },
+    activityIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+    }],
+    menuCategories: [{
+      type: String,
+      enum: ['chinese', 'sandwiches', 'pasta', 'beverages'],
+    }],
+    minSpend: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    usageLimit: {
+      type: Number,
+      min: 1,
+    },
+    perPhoneLimit: {
+      type: Number,
+      min: 1,
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    validFrom: {
+      type: Date,
+    },
+    validUntil: {
+      type: Date,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const CouponModel = mongoose.model<ICoupon>('Coupon', CouponSchema);
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICouponRedemption extends Document {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  phone: string;
+  entityType: 'reservation' | 'order';
+  entityId: mongoose.Types.ObjectId;
+  discount: number;
+  slot?: number; // which of the phone's perPhoneLimit uses this takes
+  status: 'applied' | 'released'; // released when the booking is cancelled or expires unpaid
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: true,
+    },
+    code: {
+      type: String,
+      required: true,
+    },
+    phone: {
+      type: String,
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: ['reservation', 'order'],
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    discount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    slot: {
+      type: Number,
+      min: 1,
+    },
+    status: {
+      type: String,
+      enum: ['applied', 'released'],
+      default: 'applied',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+CouponRedemptionSchema.index({ couponId: 1, phone: 1, status: 1 });
+CouponRedemptionSchema.index({ entityType: 1, entityId: 1 });
+// Each of a phone's uses can only be held by one applied redemption at a time
+CouponRedemptionSchema.index(
+  { couponId: 1, phone: 1, slot: 1 },
+  { unique: true, partialFilterExpression: { status: 'applied', slot: { $exists: true } } }
+);
+
+export const CouponRedemptionModel = mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
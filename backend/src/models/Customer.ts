@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICustomer extends Document {
+  phone: string; // digits only, as stored on sessions and orders
+  name?: string;
+  lastLoginAt?: Date;
+  loyaltyPoints: number; // current balance
+  lifetimePoints: number; // earned over all time, drives the membership tier
+  noShowCount: number;
+  lastNoShowAt?: Date;
+  prepaymentRequired: boolean; // set by admins; turns off pay-at-counter bookings
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomerSchema = new Schema<ICustomer>(
+  {
+    phone: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      trim: true,
+    },
+    lastLoginAt: {
+      type: Date,
+    },
+    loyaltyPoints: {
+      type: Number,
+      default: 0,
+    },
+    lifetimePoints: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    noShowCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastNoShowAt: {
+      type: Date,
+    },
+    prepaymentRequired: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const CustomerModel = mongoose.model<ICustomer>('Customer', CustomerSchema);
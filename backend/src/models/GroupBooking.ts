@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IGroupBooking extends Document {
+  branchId?: mongoose.Types.ObjectId;
+  reservationIds: mongoose.Types.ObjectId[]; // one per unit, all for the same window
+  customerName: string;
+  customerPhone: string;
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: number;
+  amount: number; // sum of the reservation prices, charged as one order
+  status: 'pending_payment' | 'confirmed' | 'expired' | 'cancelled';
+  paymentId?: string;
+  razorpayOrderId?: string;
+  qrContext: {
+    branchId?: string;
+    zoneId?: string;
+    tableId?: string;
+  };
+  expiresAt: Date;
+  confirmedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupBookingSchema = new Schema<IGroupBooking>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    reservationIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Reservation',
+    }],
+    customerName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    startTime: {
+      type: Date,
+      required: true,
+    },
+    endTime: {
+      type: Date,
+      required: true,
+    },
+    durationMinutes: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ['pending_payment', 'confirmed', 'expired', 'cancelled'],
+      default: 'pending_payment',
+    },
+    paymentId: {
+      type: String,
+    },
+    razorpayOrderId: {
+      type: String,
+    },
+    qrContext: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+GroupBookingSchema.index({ status: 1, expiresAt: 1 });
+GroupBookingSchema.index({ customerPhone: 1 });
+
+export const GroupBookingModel = mongoose.model<IGroupBooking>('GroupBooking', GroupBookingSchema);
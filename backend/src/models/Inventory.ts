@@ -24,6 +24,7 @@ export type InventoryItemStatus = 'active' | 'inactive' | 'maintenance' | 'retir
 export type StockTrackingType = 'none' | 'quantity' | 'serialized';
 
 export interface IInventoryItem extends Document {
+  branchId: mongoose.Types.ObjectId;
   name: string;
   sku: string;
   categoryId: mongoose.Types.ObjectId;
@@ -138,6 +139,11 @@ const InventoryCategorySchema = new Schema<IInventoryCategory>(
 
 const InventoryItemSchema = new Schema<IInventoryItem>(
   {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+      required: true,
+    },
     name: {
       type: String,
       required: true,
@@ -146,7 +152,6 @@ const InventoryItemSchema = new Schema<IInventoryItem>(
     sku: {
       type: String,
       required: true,
-      unique: true,
       trim: true,
       uppercase: true,
     },
@@ -388,6 +393,7 @@ const StockTransactionSchema = new Schema<IStockTransaction>(
   }
 );
 
+InventoryItemSchema.index({ branchId: 1, sku: 1 }, { unique: true });
 InventoryItemSchema.index({ categoryId: 1 });
 InventoryItemSchema.index({ status: 1 });
 InventoryItemSchema.index({ location: 1 });
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type LapSource = 'manual' | 'import';
+
+export interface ILapTime extends Document {
+  branchId?: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  unitId: mongoose.Types.ObjectId;
+  customerPhone: string; // digits only, from the session
+  driverName: string;
+  track: string;
+  car: string;
+  lapNumber: number; // from 1 within the session
+  lapTimeMs: number;
+  valid: boolean; // invalidated laps (track limits, resets) never count towards records
+  source: LapSource;
+  recordedBy?: string; // staff user id
+  setAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LapTimeSchema = new Schema<ILapTime>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true,
+    },
+    unitId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ActivityUnit',
+      required: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+    },
+    driverName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    track: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    car: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    lapNumber: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    lapTimeMs: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    valid: {
+      type: Boolean,
+      default: true,
+    },
+    source: {
+      type: String,
+      enum: ['manual', 'import'],
+      required: true,
+    },
+    recordedBy: String,
+    setAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+LapTimeSchema.index({ sessionId: 1, lapNumber: 1 }, { unique: true });
+LapTimeSchema.index({ track: 1, car: 1, valid: 1, lapTimeMs: 1 });
+LapTimeSchema.index({ customerPhone: 1, setAt: -1 });
+
+export const LapTimeModel = mongoose.model<ILapTime>('LapTime', LapTimeSchema);
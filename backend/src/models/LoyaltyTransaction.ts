@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILoyaltyTransaction extends Document {
+  phone: string;
+  type: 'earn' | 'redeem';
+  points: number; // negative when points are taken back or spent
+  entityType: 'session' | 'order' | 'reservation';
+  entityId: mongoose.Types.ObjectId;
+  description: string;
+  balanceAfter: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LoyaltyTransactionSchema = new Schema<ILoyaltyTransaction>(
+  {
+    phone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: ['earn', 'redeem'],
+    },
+    points: {
+      type: Number,
+      required: true,
+    },
+    entityType: {
+      type: String,
+      required: true,
+      enum: ['session', 'order', 'reservation'],
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+LoyaltyTransactionSchema.index({ phone: 1, createdAt: -1 });
+LoyaltyTransactionSchema.index({ entityType: 1, entityId: 1, type: 1 });
+
+export const LoyaltyTransactionModel = mongoose.model<ILoyaltyTransaction>('LoyaltyTransaction', LoyaltyTransactionSchema);
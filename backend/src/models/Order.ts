@@ -3,6 +3,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 export type MenuCategory = 'chinese' | 'sandwiches' | 'pasta' | 'beverages';
 
 export interface IMenuItem extends Document {
+  branchId: mongoose.Types.ObjectId;
   name: string;
   category: MenuCategory;
   description?: string;
@@ -27,14 +28,21 @@ export interface QRContext {
 }
 
 export interface IFoodOrder extends Document {
+  branchId?: mongoose.Types.ObjectId; // branch the order was placed at
   items: OrderItem[];
   totalAmount: number;
+  loyaltyPointsRedeemed: number;
+  loyaltyDiscount: number; // already taken off the amount due
+  couponCode?: string;
+  couponDiscount: number; // already taken off the amount due
   customerName: string;
   customerPhone: string;
   qrContext: QRContext;
   sessionId?: mongoose.Types.ObjectId;
   status: 'pending' | 'preparing' | 'ready' | 'served' | 'cancelled';
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'offline';
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'offline' | 'refunded' | 'partially_refunded';
+  paymentMethod?: 'online' | 'offline'; // kept once paymentStatus moves to a refund state
+  refundedAmount: number;
   paymentId?: string;
   razorpayOrderId?: string;
   estimatedReadyTime?: Date;
@@ -44,6 +52,11 @@ export interface IFoodOrder extends Document {
 
 const MenuItemSchema = new Schema<IMenuItem>(
   {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+      required: true,
+    },
     name: {
       type: String,
       required: true,
@@ -100,6 +113,10 @@ const OrderItemSchema = new Schema({
 
 const FoodOrderSchema = new Schema<IFoodOrder>(
   {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
     items: {
       type: [OrderItemSchema],
       required: true,
@@ -113,6 +130,24 @@ const FoodOrderSchema = new Schema<IFoodOrder>(
       required: true,
       min: 0,
     },
+    loyaltyPointsRedeemed: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    loyaltyDiscount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    couponCode: {
+      type: String,
+    },
+    couponDiscount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     customerName: {
       type: String,
       required: true,
@@ -138,9 +173,18 @@ const FoodOrderSchema = new Schema<IFoodOrder>(
     },
     paymentStatus: {
       type: String,
-      enum: ['pending', 'paid', 'failed', 'offline'],
+      enum: ['pending', 'paid', 'failed', 'offline', 'refunded', 'partially_refunded'],
       default: 'pending',
     },
+    paymentMethod: {
+      type: String,
+      enum: ['online', 'offline'],
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     paymentId: {
       type: String,
     },
@@ -157,13 +201,14 @@ const FoodOrderSchema = new Schema<IFoodOrder>(
 );
 
 // Indexes
-MenuItemSchema.index({ category: 1 });
+MenuItemSchema.index({ branchId: 1, category: 1 });
 MenuItemSchema.index({ available: 1 });
 FoodOrderSchema.index({ status: 1 });
 FoodOrderSchema.index({ paymentStatus: 1 });
 FoodOrderSchema.index({ customerPhone: 1 });
 FoodOrderSchema.index({ sessionId: 1 });
 FoodOrderSchema.index({ createdAt: -1 });
+FoodOrderSchema.index({ branchId: 1, createdAt: -1 });
 
 export const MenuItemModel = mongoose.model<IMenuItem>('MenuItem', MenuItemSchema);
 export const FoodOrderModel = mongoose.model<IFoodOrder>('FoodOrder', FoodOrderSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPackage extends Document {
+  name: string;
+  description?: string;
+  activityId: mongoose.Types.ObjectId;
+  kind: 'hours' | 'credit';
+  minutes?: number; // play time included in an hours pack
+  credit?: number; // rupee value of a credit pack
+  price: number;
+  validityDays: number;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PackageSchema = new Schema<IPackage>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    activityId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+      required: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      enum: ['hours', 'credit'],
+    },
+    minutes: {
+      type: Number,
+      min: 1,
+    },
+    credit: {
+      type: Number,
+      min: 1,
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    validityDays: {
+      type: Number,
+      required: true,
+      min: 1,
+      default: 90,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+PackageSchema.index({ activityId: 1, enabled: 1 });
+
+export const PackageModel = mongoose.model<IPackage>('Package', PackageSchema);
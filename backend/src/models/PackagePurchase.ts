@@ -0,0 +1,150 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface PackageUsage {
+  entityType: 'reservation' | 'session';
+  entityId: mongoose.Types.ObjectId;
+  minutes: number; // play time booked; negative when used, positive when given back
+  amount: number; // price of that time in rupees, same sign
+  note?: string;
+  createdAt: Date;
+}
+
+export interface IPackagePurchase extends Document {
+  packageId: mongoose.Types.ObjectId;
+  activityId: mongoose.Types.ObjectId;
+  name: string;
+  kind: 'hours' | 'credit';
+  customerName: string;
+  customerPhone: string;
+  price: number;
+  totalMinutes: number;
+  totalCredit: number;
+  remainingMinutes: number;
+  remainingCredit: number;
+  status: 'pending_payment' | 'active' | 'cancelled';
+  paymentId?: string;
+  razorpayOrderId?: string;
+  activatedAt?: Date;
+  expiresAt?: Date;
+  validityDays: number;
+  usage: PackageUsage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PackagePurchaseSchema = new Schema<IPackagePurchase>(
+  {
+    packageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Package',
+      required: true,
+    },
+    activityId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      enum: ['hours', 'credit'],
+    },
+    customerName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    totalMinutes: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    totalCredit: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    remainingMinutes: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    remainingCredit: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ['pending_payment', 'active', 'cancelled'],
+      default: 'pending_payment',
+    },
+    paymentId: {
+      type: String,
+    },
+    razorpayOrderId: {
+      type: String,
+    },
+    activatedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    validityDays: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    usage: [{
+      entityType: {
+        type: String,
+        enum: ['reservation', 'session'],
+        required: true,
+      },
+      entityId: {
+        type: Schema.Types.ObjectId,
+        required: true,
+      },
+      minutes: {
+        type: Number,
+        default: 0,
+      },
+      amount: {
+        type: Number,
+        default: 0,
+      },
+      note: {
+        type: String,
+      },
+      createdAt: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+PackagePurchaseSchema.index({ customerPhone: 1, status: 1, expiresAt: 1 });
+PackagePurchaseSchema.index({ activatedAt: 1 });
+
+export const PackagePurchaseModel = mongoose.model<IPackagePurchase>('PackagePurchase', PackagePurchaseSchema);
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ActivityType } from './Activity.js';
+
+export interface IPlayerRating {
+  activityType: ActivityType;
+  rating: number;
+  played: number;
+  wins: number;
+  losses: number;
+  lastPlayedAt?: Date;
+}
+
+export interface IPlayerProfile extends Document {
+  phone: string; // digits only
+  name: string; // the name used in their latest challenge
+  ratings: IPlayerRating[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PlayerRatingSchema = new Schema<IPlayerRating>(
+  {
+    activityType: {
+      type: String,
+      required: true,
+    },
+    rating: {
+      type: Number,
+      required: true,
+    },
+    played: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    wins: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    losses: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastPlayedAt: Date,
+  },
+  { _id: false }
+);
+
+const PlayerProfileSchema = new Schema<IPlayerProfile>(
+  {
+    phone: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    ratings: [PlayerRatingSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+PlayerProfileSchema.index({ 'ratings.activityType': 1, 'ratings.rating': -1 });
+
+export const PlayerProfileModel = mongoose.model<IPlayerProfile>('PlayerProfile', PlayerProfileSchema);
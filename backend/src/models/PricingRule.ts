@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface PricingDateRange {
+  start: Date;
+  end: Date;
+  label?: string;
+}
+
+export interface IPricingRule extends Document {
+  name: string;
+  activityIds: mongoose.Types.ObjectId[]; // empty = all activities
+  daysOfWeek: number[]; // 0 = Sunday ... 6 = Saturday, empty = every day
+  startTime: string; // HH:mm, inclusive
+  endTime: string; // HH:mm, exclusive; earlier than startTime wraps past midnight
+  dateRanges: PricingDateRange[]; // e.g. holidays, empty = any date
+  adjustmentType: 'multiplier' | 'flat_rate';
+  multiplier?: number;
+  flatRate?: number; // replaces the activity baseRate while the rule applies
+  priority: number;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+const PricingRuleSchema = new Schema<IPricingRule>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    activityIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+    }],
+    daysOfWeek: [{
+      type: Number,
+      min: 0,
+      max: 6,
+    }],
+    startTime: {
+      type: String,
+      required: true,
+      default: '00:00',
+      match: TIME_PATTERN,
+    },
+    endTime: {
+      type: String,
+      required: true,
+      default: '24:00',
+      match: TIME_PATTERN,
+    },
+    dateRanges: [{
+      start: { type: Date, required: true },
+      end: { type: Date, required: true },
+      label: { type: String, trim: true },
+    }],
+    adjustmentType: {
+      type: String,
+      required: true,
+      enum: ['multiplier', 'flat_rate'],
+      default: 'multiplier',
+    },
+    multiplier: {
+      type: Number,
+      min: 0,
+    },
+    flatRate: {
+      type: Number,
+      min: 0,
+    },
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+PricingRuleSchema.index({ enabled: 1, priority: -1 });
+PricingRuleSchema.index({ activityIds: 1 });
+
+export const PricingRuleModel = mongoose.model<IPricingRule>('PricingRule', PricingRuleSchema);
@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type RefundReasonCode =
+  | 'session_cancelled'
+  | 'unit_failure'
+  | 'order_cancelled'
+  | 'customer_request'
+  | 'duplicate_payment'
+  | 'other';
+
+export interface IRefund extends Document {
+  entityType: 'session' | 'order';
+  entityId: mongoose.Types.ObjectId;
+  branchId?: mongoose.Types.ObjectId; // copied from the session or order
+  amount: number;
+  method: 'razorpay' | 'cash' | 'package'; // 'package' puts the time or credit back on a prepaid pack
+  paymentId?: string; // Razorpay payment the refund was issued against
+  razorpayRefundId?: string;
+  status: 'processed' | 'pending' | 'failed';
+  reasonCode: RefundReasonCode;
+  notes?: string;
+  category: string; // activity type or 'Food & Beverages', for revenue reports
+  customerName: string;
+  customerPhone: string;
+  refundedBy: mongoose.Types.ObjectId;
+  refundedByName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundSchema = new Schema<IRefund>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    entityType: {
+      type: String,
+      required: true,
+      enum: ['session', 'order'],
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    method: {
+      type: String,
+      required: true,
+      enum: ['razorpay', 'cash', 'package'],
+    },
+    paymentId: {
+      type: String,
+    },
+    razorpayRefundId: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['processed', 'pending', 'failed'],
+      default: 'processed',
+    },
+    reasonCode: {
+      type: String,
+      required: true,
+      enum: ['session_cancelled', 'unit_failure', 'order_cancelled', 'customer_request', 'duplicate_payment', 'other'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+    category: {
+      type: String,
+      required: true,
+    },
+    customerName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    refundedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    refundedByName: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+RefundSchema.index({ entityType: 1, entityId: 1 });
+RefundSchema.index({ createdAt: -1 });
+RefundSchema.index({ branchId: 1, createdAt: -1 });
+RefundSchema.index({ status: 1 });
+
+export const RefundModel = mongoose.model<IRefund>('Refund', RefundSchema);
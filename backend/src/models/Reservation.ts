@@ -1,12 +1,23 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PriceLineItem } from '../lib/pricing.js';
 
 export interface IReservation extends Document {
   activityId: mongoose.Types.ObjectId;
+  branchId?: mongoose.Types.ObjectId; // copied from the activity
   unitId?: mongoose.Types.ObjectId | null;
   startTime: Date;
   endTime: Date;
   durationMinutes: number;
   amount: number;
+  priceBreakdown?: PriceLineItem[];
+  loyaltyPointsRedeemed: number;
+  loyaltyDiscount: number; // already taken off the amount due
+  memberPricing?: boolean; // priced with the tier discount of the customer signed in with its phone
+  couponCode?: string;
+  couponDiscount: number; // already taken off the amount due
+  packagePurchaseId?: mongoose.Types.ObjectId; // prepaid pack the booking was paid from
+  groupBookingId?: mongoose.Types.ObjectId; // set when booked as part of a group
+  seriesId?: mongoose.Types.ObjectId; // set for occurrences of a recurring booking
   status: 'pending_payment' | 'pending_approval' | 'payment_confirmed' | 'expired' | 'cancelled' | 'payment_failed';
   paymentIntentId?: string;
   paymentId?: string;
@@ -25,6 +36,10 @@ export interface IReservation extends Document {
 
 const ReservationSchema = new Schema<IReservation>(
   {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
     activityId: {
       type: Schema.Types.ObjectId,
       ref: 'Activity',
@@ -54,6 +69,41 @@ const ReservationSchema = new Schema<IReservation>(
       required: true,
       min: 0,
     },
+    priceBreakdown: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
+    loyaltyPointsRedeemed: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    loyaltyDiscount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    memberPricing: Boolean,
+    couponCode: {
+      type: String,
+    },
+    couponDiscount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    packagePurchaseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PackagePurchase',
+    },
+    groupBookingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'GroupBooking',
+    },
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReservationSeries',
+    },
     status: {
       type: String,
       enum: ['pending_payment', 'pending_approval', 'payment_confirmed', 'expired', 'cancelled', 'payment_failed'],
@@ -97,6 +147,8 @@ ReservationSchema.index({ activityId: 1, startTime: 1, endTime: 1 });
 ReservationSchema.index({ status: 1 });
 ReservationSchema.index({ expiresAt: 1 });
 ReservationSchema.index({ paymentIntentId: 1 });
+ReservationSchema.index({ groupBookingId: 1 }, { sparse: true });
+ReservationSchema.index({ seriesId: 1, startTime: 1 }, { sparse: true });
 
 export const ReservationModel = mongoose.model<IReservation>('Reservation', ReservationSchema);
 
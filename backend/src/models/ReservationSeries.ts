@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SeriesFrequency = 'weekly' | 'biweekly';
+export type SeriesBilling = 'per_occurrence' | 'upfront';
+
+export interface SkippedOccurrence {
+  startTime: Date;
+  reason: string; // which units clashed, for the staff report
+}
+
+export interface IReservationSeries extends Document {
+  branchId?: mongoose.Types.ObjectId;
+  activityId: mongoose.Types.ObjectId;
+  unitIds: mongoose.Types.ObjectId[]; // every occurrence books all of these
+  customerName: string;
+  customerPhone: string;
+  frequency: SeriesFrequency;
+  startTime: Date; // first occurrence
+  durationMinutes: number;
+  endDate?: Date;
+  occurrenceCount?: number;
+  billing: SeriesBilling;
+  amount: number; // sum of the booked occurrences
+  status: 'pending_payment' | 'active' | 'cancelled' | 'expired';
+  skippedOccurrences: SkippedOccurrence[];
+  paymentId?: string;
+  razorpayOrderId?: string;
+  expiresAt?: Date; // upfront series lapse if unpaid by then
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReservationSeriesSchema = new Schema<IReservationSeries>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    activityId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+      required: true,
+    },
+    unitIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'ActivityUnit',
+    }],
+    customerName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    frequency: {
+      type: String,
+      enum: ['weekly', 'biweekly'],
+      required: true,
+    },
+    startTime: {
+      type: Date,
+      required: true,
+    },
+    durationMinutes: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    endDate: {
+      type: Date,
+    },
+    occurrenceCount: {
+      type: Number,
+      min: 1,
+    },
+    billing: {
+      type: String,
+      enum: ['per_occurrence', 'upfront'],
+      default: 'per_occurrence',
+    },
+    amount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ['pending_payment', 'active', 'cancelled', 'expired'],
+      default: 'active',
+    },
+    skippedOccurrences: [{
+      startTime: {
+        type: Date,
+        required: true,
+      },
+      reason: {
+        type: String,
+      },
+    }],
+    paymentId: {
+      type: String,
+    },
+    razorpayOrderId: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+ReservationSeriesSchema.index({ branchId: 1, status: 1 });
+ReservationSeriesSchema.index({ customerPhone: 1 });
+ReservationSeriesSchema.index({ status: 1, expiresAt: 1 });
+
+export const ReservationSeriesModel = mongoose.model<IReservationSeries>('ReservationSeries', ReservationSeriesSchema);
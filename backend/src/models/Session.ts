@@ -15,12 +15,25 @@ export interface PauseEntry {
   pausedBy?: 'customer' | 'admin';
 }
 
+export interface TransferEntry {
+  fromUnitId: mongoose.Types.ObjectId;
+  toUnitId: mongoose.Types.ObjectId;
+  fromActivityId: mongoose.Types.ObjectId;
+  toActivityId: mongoose.Types.ObjectId;
+  transferredAt: Date;
+  remainingMinutes: number;
+  priceDifference: number; // added to the session amount; negative when moved to a cheaper activity
+  reason?: string;
+  transferredBy?: string; // staff user id
+}
+
 export interface ChallengePlayer {
   name: string;
   phone?: string;
   isWinner?: boolean;
   hasVoted?: boolean;
   voteFor?: string; // player name they voted for
+  voteTokenHash?: string; // sha256 of their voting link's token; the token itself isn't kept
 }
 
 export interface ChallengeSession {
@@ -32,43 +45,92 @@ export interface ChallengeSession {
   totalPlayers: number;
   challengeStartedBy: string; // player name who started
   challengeStartedByPhone: string;
+  disputed?: boolean; // the players' votes disagreed, so staff pick the winner
+  disputedAt?: Date;
+  disputeResolvedAt?: Date;
+}
+
+export interface ScoreEvent {
+  _id: mongoose.Types.ObjectId;
+  type: 'points' | 'break' | 'foul';
+  player: string; // who potted, made the break or committed the foul
+  points: number; // a foul's points go to the opponent
+  createdAt: Date;
+}
+
+export interface ScoreFrame {
+  number: number; // from 1
+  events: ScoreEvent[];
+  winner?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export interface SnookerScoreboard {
+  players: string[]; // the two sides, by name
+  bestOf?: number; // unset plays frames until the session ends
+  frames: ScoreFrame[]; // the last one is in play until the match is won
+  winner?: string;
+  startedAt: Date;
+  completedAt?: Date;
 }
 
 export interface ISession extends Document {
   reservationId?: mongoose.Types.ObjectId;
   activityId: mongoose.Types.ObjectId;
+  branchId?: mongoose.Types.ObjectId; // copied from the activity
   activityType: ActivityType;
   unitId: mongoose.Types.ObjectId;
   customerName: string;
   customerPhone: string;
   startTime: Date;
-  endTime: Date;
+  endTime?: Date; // unset for open-ended sessions until they finish
   actualStartTime?: Date;
   actualEndTime?: Date;
-  duration: number; // in minutes
+  checkInDeadline?: Date; // set for booked slots; nobody checking in by then makes it a no-show
+  checkedInAt?: Date;
+  paymentDueBy?: Date; // postpaid bills; the unit is held for payment until then
+  paymentOverdueAt?: Date; // when the bill went unpaid past paymentDueBy and the unit was handed back
+  duration: number; // in minutes; for open-ended sessions the minimum billed until they finish
   durationMinutes?: number; // alias for duration
+  billingMode: 'prepaid' | 'postpaid'; // postpaid sessions are open-ended and billed on actual play time
   baseAmount: number;
   amount?: number; // alias for baseAmount
   finalAmount?: number;
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'offline';
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'offline' | 'refunded' | 'partially_refunded';
+  paymentMethod?: 'online' | 'offline' | 'package'; // kept once paymentStatus moves to a refund state
+  packagePurchaseId?: mongoose.Types.ObjectId; // set when paymentMethod is 'package'
+  groupBookingId?: mongoose.Types.ObjectId; // set when booked as part of a group
+  tournamentId?: mongoose.Types.ObjectId; // set for tournament matches
+  tournamentMatchId?: mongoose.Types.ObjectId;
+  refundedAmount: number;
   paymentId?: string;
   razorpayOrderId?: string;
   qrContext: QRContext;
-  status: 'scheduled' | 'active' | 'completed' | 'ended' | 'paused' | 'cancelled';
+  status: 'scheduled' | 'active' | 'completed' | 'ended' | 'paused' | 'cancelled' | 'no_show' | 'awaiting_payment';
   extended: boolean;
+  memberPricing?: boolean; // priced with the tier discount of the customer signed in with its phone
   // Pause tracking
   pauseHistory: PauseEntry[];
   totalPausedDuration: number; // in minutes
   currentPauseStart?: Date;
+  // Unit moves while running
+  transferHistory: TransferEntry[];
   // Challenge/Friends session
   isChallengeSession?: boolean;
   challengeData?: ChallengeSession;
+  // Snooker frame scoring, kept by the players
+  scoreboard?: SnookerScoreboard;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const SessionSchema = new Schema<ISession>(
   {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
     activityId: {
       type: Schema.Types.ObjectId,
       ref: 'Activity',
@@ -104,7 +166,9 @@ const SessionSchema = new Schema<ISession>(
     },
     endTime: {
       type: Date,
-      required: true,
+      required: function (this: ISession) {
+        return this.billingMode !== 'postpaid';
+      },
     },
     actualStartTime: {
       type: Date,
@@ -112,6 +176,18 @@ const SessionSchema = new Schema<ISession>(
     actualEndTime: {
       type: Date,
     },
+    checkInDeadline: {
+      type: Date,
+    },
+    checkedInAt: {
+      type: Date,
+    },
+    paymentDueBy: {
+      type: Date,
+    },
+    paymentOverdueAt: {
+      type: Date,
+    },
     duration: {
       type: Number,
       required: true,
@@ -121,6 +197,11 @@ const SessionSchema = new Schema<ISession>(
       type: Number,
       min: 1,
     },
+    billingMode: {
+      type: String,
+      enum: ['prepaid', 'postpaid'],
+      default: 'prepaid',
+    },
     baseAmount: {
       type: Number,
       required: true,
@@ -136,9 +217,33 @@ const SessionSchema = new Schema<ISession>(
     },
     paymentStatus: {
       type: String,
-      enum: ['pending', 'paid', 'failed', 'offline'],
+      enum: ['pending', 'paid', 'failed', 'offline', 'refunded', 'partially_refunded'],
       default: 'pending',
     },
+    paymentMethod: {
+      type: String,
+      enum: ['online', 'offline', 'package'],
+    },
+    packagePurchaseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PackagePurchase',
+    },
+    groupBookingId: {
+      type: Schema.Types.ObjectId,
+      ref: 'GroupBooking',
+    },
+    tournamentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tournament',
+    },
+    tournamentMatchId: {
+      type: Schema.Types.ObjectId,
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     paymentId: {
       type: String,
     },
@@ -151,13 +256,14 @@ const SessionSchema = new Schema<ISession>(
     },
     status: {
       type: String,
-      enum: ['scheduled', 'active', 'completed', 'ended', 'paused', 'cancelled'],
+      enum: ['scheduled', 'active', 'completed', 'ended', 'paused', 'cancelled', 'no_show', 'awaiting_payment'],
       default: 'scheduled',
     },
     extended: {
       type: Boolean,
       default: false,
     },
+    memberPricing: Boolean,
     // Pause tracking
     pauseHistory: [{
       startTime: {
@@ -178,6 +284,40 @@ const SessionSchema = new Schema<ISession>(
       min: 0,
     },
     currentPauseStart: Date,
+    // Unit moves while running
+    transferHistory: [{
+      fromUnitId: {
+        type: Schema.Types.ObjectId,
+        ref: 'ActivityUnit',
+        required: true,
+      },
+      toUnitId: {
+        type: Schema.Types.ObjectId,
+        ref: 'ActivityUnit',
+        required: true,
+      },
+      fromActivityId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Activity',
+        required: true,
+      },
+      toActivityId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Activity',
+        required: true,
+      },
+      transferredAt: {
+        type: Date,
+        required: true,
+      },
+      remainingMinutes: Number,
+      priceDifference: {
+        type: Number,
+        default: 0,
+      },
+      reason: String,
+      transferredBy: String,
+    }],
     // Challenge/Friends session
     isChallengeSession: {
       type: Boolean,
@@ -198,6 +338,7 @@ const SessionSchema = new Schema<ISession>(
         isWinner: Boolean,
         hasVoted: Boolean,
         voteFor: String,
+        voteTokenHash: String,
       }],
       winner: String,
       winnerSelectedBy: {
@@ -208,6 +349,52 @@ const SessionSchema = new Schema<ISession>(
       totalPlayers: Number,
       challengeStartedBy: String,
       challengeStartedByPhone: String,
+      disputed: Boolean,
+      disputedAt: Date,
+      disputeResolvedAt: Date,
+    },
+    // Snooker frame scoring, kept by the players
+    scoreboard: {
+      type: {
+        players: [String],
+        bestOf: Number,
+        frames: [{
+          number: {
+            type: Number,
+            required: true,
+          },
+          events: [{
+            type: {
+              type: String,
+              enum: ['points', 'break', 'foul'],
+              required: true,
+            },
+            player: {
+              type: String,
+              required: true,
+            },
+            points: {
+              type: Number,
+              required: true,
+              min: 1,
+            },
+            createdAt: {
+              type: Date,
+              default: Date.now,
+            },
+          }],
+          winner: String,
+          startedAt: {
+            type: Date,
+            required: true,
+          },
+          completedAt: Date,
+        }],
+        winner: String,
+        startedAt: Date,
+        completedAt: Date,
+      },
+      default: undefined,
     },
   },
   {
@@ -217,11 +404,16 @@ const SessionSchema = new Schema<ISession>(
 
 // Indexes
 SessionSchema.index({ activityId: 1 });
+SessionSchema.index({ branchId: 1, createdAt: -1 });
 SessionSchema.index({ unitId: 1 });
 SessionSchema.index({ status: 1 });
 SessionSchema.index({ customerPhone: 1 });
 SessionSchema.index({ paymentStatus: 1 });
 SessionSchema.index({ startTime: 1 });
 SessionSchema.index({ createdAt: -1 });
+SessionSchema.index({ groupBookingId: 1 }, { sparse: true });
+SessionSchema.index({ tournamentId: 1 }, { sparse: true });
+SessionSchema.index({ status: 1, checkInDeadline: 1 });
+SessionSchema.index({ status: 1, paymentDueBy: 1 });
 
 export const SessionModel = mongoose.model<ISession>('Session', SessionSchema);
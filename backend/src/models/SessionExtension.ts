@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PriceLineItem } from '../lib/pricing.js';
+
+export interface ISessionExtension extends Document {
+  sessionId: mongoose.Types.ObjectId;
+  activityId: mongoose.Types.ObjectId;
+  unitId: mongoose.Types.ObjectId;
+  customerName: string;
+  customerPhone: string;
+  additionalMinutes: number;
+  amount: number;
+  priceBreakdown?: PriceLineItem[];
+  // Window held on the unit while payment is pending
+  startTime: Date;
+  endTime: Date;
+  // refunded: paid but couldn't be applied, so the payment went back; refund_due: staff still owe it
+  status: 'pending_payment' | 'pending_approval' | 'applied' | 'expired' | 'cancelled' | 'refunded' | 'refund_due';
+  paymentId?: string;
+  razorpayOrderId?: string;
+  razorpayRefundId?: string;
+  expiresAt: Date;
+  appliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionExtensionSchema = new Schema<ISessionExtension>(
+  {
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true,
+    },
+    activityId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+      required: true,
+    },
+    unitId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ActivityUnit',
+      required: true,
+    },
+    customerName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    additionalMinutes: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    priceBreakdown: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
+    startTime: {
+      type: Date,
+      required: true,
+    },
+    endTime: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending_payment', 'pending_approval', 'applied', 'expired', 'cancelled', 'refunded', 'refund_due'],
+      default: 'pending_payment',
+    },
+    paymentId: {
+      type: String,
+    },
+    razorpayOrderId: {
+      type: String,
+    },
+    razorpayRefundId: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    appliedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+SessionExtensionSchema.index({ sessionId: 1, status: 1 });
+SessionExtensionSchema.index({ unitId: 1, status: 1 });
+SessionExtensionSchema.index({ status: 1, expiresAt: 1 });
+
+export const SessionExtensionModel = mongoose.model<ISessionExtension>('SessionExtension', SessionExtensionSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SmokingRoomVisitStatus = 'waiting' | 'called' | 'inside' | 'left' | 'expired';
+
+export interface ISmokingRoomVisit extends Document {
+  branchId: mongoose.Types.ObjectId;
+  activityId: mongoose.Types.ObjectId; // the branch's smoking-room activity
+  customerPhone: string; // digits only
+  customerName?: string;
+  visitTokenHash?: string; // sha256 of the token handed to the phone that scanned in; the token itself isn't kept
+  status: SmokingRoomVisitStatus;
+  ageConfirmedAt: Date; // when the customer confirmed they are 18+, kept for compliance
+  queuedAt?: Date;
+  calledAt?: Date;
+  claimDeadline?: Date; // a called customer must scan in before this
+  enteredAt?: Date;
+  exitedAt?: Date;
+  exitedBy?: 'customer' | 'staff' | 'auto';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SmokingRoomVisitSchema = new Schema<ISmokingRoomVisit>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+      required: true,
+    },
+    activityId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+      required: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+    },
+    customerName: {
+      type: String,
+      trim: true,
+    },
+    visitTokenHash: String,
+    status: {
+      type: String,
+      enum: ['waiting', 'called', 'inside', 'left', 'expired'],
+      required: true,
+    },
+    ageConfirmedAt: {
+      type: Date,
+      required: true,
+    },
+    queuedAt: Date,
+    calledAt: Date,
+    claimDeadline: Date,
+    enteredAt: Date,
+    exitedAt: Date,
+    exitedBy: {
+      type: String,
+      enum: ['customer', 'staff', 'auto'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+SmokingRoomVisitSchema.index({ activityId: 1, status: 1, queuedAt: 1 });
+SmokingRoomVisitSchema.index({ activityId: 1, customerPhone: 1, status: 1 });
+SmokingRoomVisitSchema.index({ branchId: 1, ageConfirmedAt: -1 });
+
+export const SmokingRoomVisitModel = mongoose.model<ISmokingRoomVisit>('SmokingRoomVisit', SmokingRoomVisitSchema);
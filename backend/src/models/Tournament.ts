@@ -0,0 +1,182 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ActivityType } from './Activity.js';
+
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+
+export interface ITournamentPlayer {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  phone: string;
+  paymentStatus: 'pending' | 'paid' | 'offline';
+  paymentId?: string;
+  razorpayOrderId?: string;
+  registeredAt: Date;
+  seed?: number; // set when the bracket is drawn
+}
+
+export interface ITournamentMatch {
+  _id: mongoose.Types.ObjectId;
+  round: number; // from 1
+  position: number; // order within the round, from 0
+  player1Id?: mongoose.Types.ObjectId; // empty until the feeder match is decided
+  player2Id?: mongoose.Types.ObjectId;
+  winnerId?: mongoose.Types.ObjectId;
+  status: 'pending' | 'scheduled' | 'in_progress' | 'completed' | 'bye';
+  sessionId?: mongoose.Types.ObjectId; // the challenge session the match is played in
+  unitId?: mongoose.Types.ObjectId;
+  scheduledAt?: Date;
+  completedAt?: Date;
+}
+
+export interface ITournament extends Document {
+  branchId?: mongoose.Types.ObjectId;
+  name: string;
+  activityId: mongoose.Types.ObjectId;
+  activityType: ActivityType;
+  format: TournamentFormat;
+  entryFee: number;
+  maxPlayers: number;
+  matchDuration: number; // minutes booked for each match
+  startsAt: Date;
+  status: 'registration' | 'in_progress' | 'completed' | 'cancelled';
+  players: ITournamentPlayer[];
+  matches: ITournamentMatch[];
+  winnerId?: mongoose.Types.ObjectId;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdBy?: string; // staff user id
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TournamentPlayerSchema = new Schema<ITournamentPlayer>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  phone: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  paymentStatus: {
+    type: String,
+    enum: ['pending', 'paid', 'offline'],
+    default: 'pending',
+  },
+  paymentId: String,
+  razorpayOrderId: String,
+  registeredAt: {
+    type: Date,
+    default: Date.now,
+  },
+  seed: Number,
+});
+
+const TournamentMatchSchema = new Schema<ITournamentMatch>({
+  round: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  position: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  player1Id: Schema.Types.ObjectId,
+  player2Id: Schema.Types.ObjectId,
+  winnerId: Schema.Types.ObjectId,
+  status: {
+    type: String,
+    enum: ['pending', 'scheduled', 'in_progress', 'completed', 'bye'],
+    default: 'pending',
+  },
+  sessionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Session',
+  },
+  unitId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ActivityUnit',
+  },
+  scheduledAt: Date,
+  completedAt: Date,
+});
+
+const TournamentSchema = new Schema<ITournament>(
+  {
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Branch',
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    activityId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Activity',
+      required: true,
+    },
+    activityType: {
+      type: String,
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ['single_elimination', 'round_robin'],
+      required: true,
+    },
+    entryFee: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxPlayers: {
+      type: Number,
+      required: true,
+      min: 2,
+    },
+    matchDuration: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['registration', 'in_progress', 'completed', 'cancelled'],
+      default: 'registration',
+    },
+    players: [TournamentPlayerSchema],
+    matches: [TournamentMatchSchema],
+    winnerId: {
+      type: Schema.Types.ObjectId,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+TournamentSchema.index({ branchId: 1, startsAt: -1 });
+TournamentSchema.index({ status: 1 });
+TournamentSchema.index({ 'players._id': 1 });
+
+export const TournamentModel = mongoose.model<ITournament>('Tournament', TournamentSchema);
@@ -20,6 +20,10 @@ export interface IWaitingQueue extends Document {
   updatedAt: Date;
   assignedAt?: Date;
   sessionId?: mongoose.Types.ObjectId; // Session created when assigned
+  offeredUnitId?: mongoose.Types.ObjectId; // Unit held for this entry while it's their turn
+  claimDeadline?: Date; // When the hold on offeredUnitId lapses
+  missedClaims: number;
+  refundDue: boolean; // Paid but expired before getting a unit, until staff refund it
 }
 
 const WaitingQueueSchema = new Schema<IWaitingQueue>(
@@ -84,6 +88,22 @@ const WaitingQueueSchema = new Schema<IWaitingQueue>(
       type: Schema.Types.ObjectId,
       ref: 'Session',
     },
+    offeredUnitId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ActivityUnit',
+    },
+    claimDeadline: {
+      type: Date,
+    },
+    missedClaims: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    refundDue: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
@@ -95,5 +115,6 @@ WaitingQueueSchema.index({ activityId: 1, status: 1, position: 1 });
 WaitingQueueSchema.index({ reservationId: 1 });
 WaitingQueueSchema.index({ customerPhone: 1 });
 WaitingQueueSchema.index({ status: 1, position: 1 }); // For efficient queue processing
+WaitingQueueSchema.index({ status: 1, claimDeadline: 1 });
 
 export const WaitingQueueModel = mongoose.model<IWaitingQueue>('WaitingQueue', WaitingQueueSchema);
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import {
   getAllActivities,
   getActivityById,
+  getActivityAvailability,
+  getActivityPriceQuote,
   createActivity,
   updateActivity,
   deleteActivity,
@@ -10,11 +12,13 @@ import {
   updateUnit,
   deleteUnit,
 } from '../controllers/activityController.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, requireAdmin, identifyCustomer } from '../middleware/auth.js';
 
 const router = Router();
 
 router.get('/', getAllActivities);
+router.get('/:id/availability', getActivityAvailability);
+router.get('/:id/quote', identifyCustomer, getActivityPriceQuote);
 router.get('/:id', getActivityById);
 
 router.post('/', authenticate, requireAdmin, createActivity);
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { createBillSplit, getBillSplit, getSessionBillSplit } from '../controllers/billSplitController.js';
+import { identifyCustomer, identifyStaff } from '../middleware/auth.js';
+import { validate, createBillSplitSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.post('/', identifyStaff, identifyCustomer, validate(createBillSplitSchema), createBillSplit);
+router.get('/session/:sessionId', getSessionBillSplit);
+router.get('/:id', getBillSplit);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getBranches, createBranch, updateBranch } from '../controllers/branchController.js';
+import { authenticate, requireOwner, requireStaff } from '../middleware/auth.js';
+
+const router = Router();
+
+router.get('/', authenticate, requireStaff, getBranches);
+router.post('/', authenticate, requireOwner, createBranch);
+router.put('/:id', authenticate, requireOwner, updateBranch);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  validateCoupon,
+  applyCouponToBooking,
+} from '../controllers/couponController.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { validate, validateCouponSchema, applyCouponSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.post('/validate', validate(validateCouponSchema), validateCoupon);
+router.post('/apply', validate(applyCouponSchema), applyCouponToBooking);
+
+router.get('/', authenticate, requireAdmin, getCoupons);
+router.post('/', authenticate, requireAdmin, createCoupon);
+router.put('/:id', authenticate, requireAdmin, updateCoupon);
+router.delete('/:id', authenticate, requireAdmin, deleteCoupon);
+
+export default router;
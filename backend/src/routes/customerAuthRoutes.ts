@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { requestOtp, verifyOtpCode, getCurrentCustomer } from '../controllers/customerAuthController.js';
+import { authenticateCustomer } from '../middleware/auth.js';
+import { otpRequestLimiter, otpVerifyLimiter } from '../middleware/rateLimit.js';
+import { validate, requestOtpSchema, verifyOtpSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.post('/otp', otpRequestLimiter, validate(requestOtpSchema), requestOtp);
+router.post('/verify', otpVerifyLimiter, validate(verifyOtpSchema), verifyOtpCode);
+router.get('/me', authenticateCustomer, getCurrentCustomer);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getNoShows, getCustomerNoShows, setPrepaymentRequired } from '../controllers/customerController.js';
+import { authenticate, requireAdmin, requireStaff } from '../middleware/auth.js';
+
+const router = Router();
+
+router.get('/no-shows', authenticate, requireStaff, getNoShows);
+router.get('/:phone/no-shows', authenticate, requireStaff, getCustomerNoShows);
+router.put('/:phone/prepayment', authenticate, requireAdmin, setPrepaymentRequired);
+
+export default router;
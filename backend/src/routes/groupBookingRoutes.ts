@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { createGroupBooking, getGroupBooking } from '../controllers/groupBookingController.js';
+import { identifyCustomer } from '../middleware/auth.js';
+import { validate, createGroupBookingSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.post('/', identifyCustomer, validate(createGroupBookingSchema), createGroupBooking);
+router.get('/:id', getGroupBooking);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  addLaps,
+  importLaps,
+  getSessionLaps,
+  getLeaderboard,
+  getTrackRecords,
+  deleteLap,
+} from '../controllers/lapController.js';
+import { authenticate, requireStaff } from '../middleware/auth.js';
+import { validate, addLapsSchema, importLapsSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.get('/leaderboard', getLeaderboard);
+router.get('/records', getTrackRecords);
+router.get('/sessions/:sessionId', getSessionLaps);
+
+router.post('/sessions/:sessionId', authenticate, requireStaff, validate(addLapsSchema), addLaps);
+router.post('/sessions/:sessionId/import', authenticate, requireStaff, validate(importLapsSchema), importLaps);
+router.delete('/:id', authenticate, requireStaff, deleteLap);
+
+export default router;
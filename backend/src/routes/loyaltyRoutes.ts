@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getMyLoyalty, getMemberLoyalty, getMembers, redeemPoints } from '../controllers/loyaltyController.js';
+import { authenticate, authenticateCustomer, requireStaff } from '../middleware/auth.js';
+import { validate, redeemLoyaltySchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.get('/me', authenticateCustomer, getMyLoyalty);
+router.post('/redeem', authenticateCustomer, validate(redeemLoyaltySchema), redeemPoints);
+
+router.get('/members', authenticate, requireStaff, getMembers);
+router.get('/members/:phone', authenticate, requireStaff, getMemberLoyalty);
+
+export default router;
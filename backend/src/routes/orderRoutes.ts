@@ -10,7 +10,7 @@ import {
   updateOrderStatus,
   getOrdersByPhone,
 } from '../controllers/orderController.js';
-import { authenticate, requireAdmin, requireStaff, requireChef } from '../middleware/auth.js';
+import { authenticate, authenticateCustomer, requireAdmin, requireStaff, requireChef } from '../middleware/auth.js';
 import { validate, createOrderSchema } from '../middleware/validator.js';
 
 const router = Router();
@@ -18,7 +18,7 @@ const router = Router();
 router.get('/menu', getAllMenuItems);
 router.get('/menu/:id', getMenuItem);
 router.post('/', validate(createOrderSchema), createOrder);
-router.get('/phone/:phone', getOrdersByPhone);
+router.get('/phone/:phone', authenticateCustomer, getOrdersByPhone);
 
 router.get('/', authenticate, requireStaff, getAllOrders);
 router.get('/pending', authenticate, requireChef, getPendingOrders);
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  getPackages,
+  createPackage,
+  updatePackage,
+  deletePackage,
+  purchasePackage,
+  getMyWallet,
+  getCustomerWallet,
+} from '../controllers/packageController.js';
+import { authenticate, authenticateCustomer, requireAdmin, requireStaff } from '../middleware/auth.js';
+
+const router = Router();
+
+router.get('/', getPackages);
+router.get('/wallet', authenticateCustomer, getMyWallet);
+router.post('/:id/purchase', authenticateCustomer, purchasePackage);
+
+router.get('/wallet/:phone', authenticate, requireStaff, getCustomerWallet);
+router.post('/', authenticate, requireAdmin, createPackage);
+router.put('/:id', authenticate, requireAdmin, updatePackage);
+router.delete('/:id', authenticate, requireAdmin, deletePackage);
+
+export default router;
@@ -4,15 +4,19 @@ import {
   verifyPayment,
   markOfflinePayment,
   handleWebhook,
+  refundPayment,
+  getRefunds,
 } from '../controllers/paymentController.js';
-import { authenticate, requireStaff } from '../middleware/auth.js';
+import { authenticate, identifyStaff, requireStaff } from '../middleware/auth.js';
 
 const router = Router();
 
 router.post('/create-order', createPaymentOrder);
 router.post('/verify', verifyPayment);
-router.post('/offline', markOfflinePayment);
+router.post('/offline', identifyStaff, markOfflinePayment);
 router.post('/webhook', handleWebhook);
+router.post('/:id/refund', authenticate, requireStaff, refundPayment);
+router.get('/:id/refunds', authenticate, requireStaff, getRefunds);
 
 export default router;
 
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getLeaderboard, getMyProfile, getPlayerByPhone, getPlayer } from '../controllers/playerController.js';
+import { authenticate, authenticateCustomer, requireStaff } from '../middleware/auth.js';
+
+const router = Router();
+
+router.get('/leaderboard', getLeaderboard);
+router.get('/me', authenticateCustomer, getMyProfile);
+router.get('/phone/:phone', authenticate, requireStaff, getPlayerByPhone);
+router.get('/:id', getPlayer);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import {
+  getPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+} from '../controllers/pricingRuleController.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+
+const router = Router();
+
+router.get('/', authenticate, requireAdmin, getPricingRules);
+router.post('/', authenticate, requireAdmin, createPricingRule);
+router.put('/:id', authenticate, requireAdmin, updatePricingRule);
+router.delete('/:id', authenticate, requireAdmin, deletePricingRule);
+
+export default router;
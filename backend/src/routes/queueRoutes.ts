@@ -4,7 +4,11 @@ import {
   getPendingApprovals,
   approveCashPayment,
   rejectCashPayment,
+  getPendingExtensionApprovals,
+  approveExtensionPayment,
+  rejectExtensionPayment,
   getWaitingQueue,
+  markQueueEntryRefunded,
   processQueue,
   getQueueStatusByReservation,
 } from '../controllers/approvalController.js';
@@ -21,8 +25,12 @@ router.post('/remove', authenticate, requireStaff, removeQueueEntry);
 router.get('/approvals', authenticate, requireStaff, getPendingApprovals);
 router.post('/approve', authenticate, requireStaff, approveCashPayment);
 router.post('/reject', authenticate, requireStaff, rejectCashPayment);
+router.get('/approvals/extensions', authenticate, requireStaff, getPendingExtensionApprovals);
+router.post('/approve-extension', authenticate, requireStaff, approveExtensionPayment);
+router.post('/reject-extension', authenticate, requireStaff, rejectExtensionPayment);
 
 router.get('/waiting', authenticate, requireStaff, getWaitingQueue);
+router.post('/waiting/:id/refunded', authenticate, requireStaff, markQueueEntryRefunded);
 router.post('/process', authenticate, requireStaff, processQueue);
 router.get('/status/:reservationId', getQueueStatusByReservation);
 
@@ -6,12 +6,13 @@ import {
   joinWaitingQueue,
   exitWaitingQueue,
 } from '../controllers/reservationController.js';
+import { identifyCustomer } from '../middleware/auth.js';
 import { validate, createSessionSchema, joinQueueSchema, exitQueueSchema, confirmReservationSchema } from '../middleware/validator.js';
 
 const router = Router();
 
-router.post('/', validate(createSessionSchema), createReservation);
-router.post('/join-queue', validate(joinQueueSchema), joinWaitingQueue);
+router.post('/', identifyCustomer, validate(createSessionSchema), createReservation);
+router.post('/join-queue', identifyCustomer, validate(joinQueueSchema), joinWaitingQueue);
 router.post('/exit-queue', validate(exitQueueSchema), exitWaitingQueue);
 router.get('/:id', getReservation);
 
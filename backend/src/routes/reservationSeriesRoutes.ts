@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  previewSeries,
+  createSeries,
+  getAllSeries,
+  getSeries,
+  markSeriesPaid,
+  cancelSeriesOccurrence,
+  cancelSeries,
+} from '../controllers/reservationSeriesController.js';
+import { authenticate, requireStaff } from '../middleware/auth.js';
+import { validate, createSeriesSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.use(authenticate, requireStaff);
+
+router.get('/', getAllSeries);
+router.post('/preview', validate(createSeriesSchema), previewSeries);
+router.post('/', validate(createSeriesSchema), createSeries);
+router.get('/:id', getSeries);
+router.post('/:id/mark-paid', markSeriesPaid);
+router.post('/:id/occurrences/:reservationId/cancel', cancelSeriesOccurrence);
+router.post('/:id/cancel', cancelSeries);
+
+export default router;
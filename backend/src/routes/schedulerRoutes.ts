@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getJobStatus } from '../controllers/schedulerController.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+
+const router = Router();
+
+router.get('/status', authenticate, requireAdmin, getJobStatus);
+
+export default router;
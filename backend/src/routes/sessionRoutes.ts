@@ -13,25 +13,47 @@ import {
   voteWinner,
   selectWinner,
   deleteSession,
+  checkIn,
+  checkInAtUnit,
+  transferSession,
+  startScoring,
+  recordScore,
+  undoScore,
+  endScoreFrame,
 } from '../controllers/sessionController.js';
-import { authenticate, requireStaff } from '../middleware/auth.js';
-import { validate, createSessionSchema } from '../middleware/validator.js';
+import { authenticate, authenticateCustomer, identifyCustomer, identifyStaff, requireStaff } from '../middleware/auth.js';
+import {
+  validate,
+  createSessionSchema,
+  voteWinnerSchema,
+  startScoreboardSchema,
+  scoreEventSchema,
+  endFrameSchema,
+} from '../middleware/validator.js';
 
 const router = Router();
 
-router.post('/', validate(createSessionSchema), createSession);
+router.post('/', identifyCustomer, validate(createSessionSchema), createSession);
 router.post('/challenge', createChallengeSession);
-router.get('/phone/:phone', getSessionsByPhone);
+router.get('/phone/:phone', authenticateCustomer, getSessionsByPhone);
+router.post('/check-in', authenticateCustomer, checkInAtUnit);
 
 router.post('/:id/pause', pauseSession);
 router.post('/:id/resume', resumeSession);
-router.post('/:id/vote-winner', voteWinner);
-router.post('/:id/end', endSession);
+router.post('/:id/extend', identifyStaff, identifyCustomer, extendSession);
+router.post('/:id/vote-winner', validate(voteWinnerSchema), voteWinner);
+router.post('/:id/end', identifyStaff, endSession);
+// Players score from their phones; staff can step in from the desk
+router.post('/:id/scoreboard', identifyStaff, identifyCustomer, validate(startScoreboardSchema), startScoring);
+router.post('/:id/scoreboard/events', identifyStaff, identifyCustomer, validate(scoreEventSchema), recordScore);
+router.post('/:id/scoreboard/undo', identifyStaff, identifyCustomer, undoScore);
+router.post('/:id/scoreboard/frames/end', identifyStaff, identifyCustomer, validate(endFrameSchema), endScoreFrame);
 
 router.get('/history', authenticate, requireStaff, getAllSessions);
 router.get('/', authenticate, requireStaff, getActiveSessions);
-router.post('/:id/extend', authenticate, requireStaff, extendSession);
 router.post('/:id/select-winner', authenticate, requireStaff, selectWinner);
+router.post('/:id/check-in', authenticate, requireStaff, checkIn);
+router.post('/:id/transfer', authenticate, requireStaff, transferSession);
 router.delete('/:id', authenticate, requireStaff, deleteSession);
 
 router.get('/:id', getSession);
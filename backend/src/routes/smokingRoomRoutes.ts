@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  getRoom,
+  enter,
+  exit,
+  getOccupants,
+  checkOut,
+  getAgeConfirmations,
+} from '../controllers/smokingRoomController.js';
+import { authenticate, requireStaff, identifyCustomer } from '../middleware/auth.js';
+import { validate, enterSmokingRoomSchema, exitSmokingRoomSchema } from '../middleware/validator.js';
+
+const router = Router();
+
+router.get('/', identifyCustomer, getRoom);
+router.post('/enter', identifyCustomer, validate(enterSmokingRoomSchema), enter);
+router.post('/exit', identifyCustomer, validate(exitSmokingRoomSchema), exit);
+
+router.get('/occupants', authenticate, requireStaff, getOccupants);
+router.get('/age-confirmations', authenticate, requireStaff, getAgeConfirmations);
+router.post('/visits/:id/check-out', authenticate, requireStaff, checkOut);
+
+export default router;
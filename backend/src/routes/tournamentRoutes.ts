@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import {
+  createTournament,
+  getTournaments,
+  getTournament,
+  registerForTournament,
+  startTournament,
+  scheduleMatch,
+  cancelTournament,
+} from '../controllers/tournamentController.js';
+import { authenticate, requireStaff } from '../middleware/auth.js';
+import {
+  validate,
+  createTournamentSchema,
+  registerTournamentSchema,
+  scheduleMatchSchema,
+} from '../middleware/validator.js';
+
+const router = Router();
+
+router.get('/', getTournaments);
+router.get('/:id', getTournament);
+router.post('/:id/register', validate(registerTournamentSchema), registerForTournament);
+
+router.post('/', authenticate, requireStaff, validate(createTournamentSchema), createTournament);
+router.post('/:id/start', authenticate, requireStaff, startTournament);
+router.post('/:id/matches/:matchId/schedule', authenticate, requireStaff, validate(scheduleMatchSchema), scheduleMatch);
+router.post('/:id/cancel', authenticate, requireStaff, cancelTournament);
+
+export default router;
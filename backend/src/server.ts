@@ -1,61 +1,22 @@
-import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
 import { createServer } from 'http';
+import app from './app.js';
 import { connectDB } from './config/database.js';
 import { connectRedis } from './config/redis.js';
 import { initializeWebSocket } from './websocket/server.js';
-import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
-
-// Routes
-import authRoutes from './routes/authRoutes.js';
-import activityRoutes from './routes/activityRoutes.js';
-import sessionRoutes from './routes/sessionRoutes.js';
-import orderRoutes from './routes/orderRoutes.js';
-import paymentRoutes from './routes/paymentRoutes.js';
-import reservationRoutes from './routes/reservationRoutes.js';
-import queueRoutes from './routes/queueRoutes.js';
-import inventoryRoutes from './routes/inventoryRoutes.js';
-import revenueRoutes from './routes/revenueRoutes.js';
-
-import './jobs/sessionManager.js';
+import { startScheduler } from './jobs/scheduler.js';
 import { startKeepAlive } from './jobs/keepAlive.js';
+import { assignUnbranchedRecords } from './lib/branches.js';
 
-dotenv.config();
-
-const app = express();
 const server = createServer(app);
 const PORT = process.env.PORT || 3000;
 
-connectDB().catch(console.error);
+connectDB().then(assignUnbranchedRecords).catch(console.error);
 
 connectRedis().catch(console.error);
 
 initializeWebSocket(server);
 
-app.use(cors({
-  origin: process.env.FRONTEND_URL || 'http://localhost:5173',
-  credentials: true,
-}));
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-app.use('/api/auth', authRoutes);
-app.use('/api/activities', activityRoutes);
-app.use('/api/sessions', sessionRoutes);
-app.use('/api/orders', orderRoutes);
-app.use('/api/payments', paymentRoutes);
-app.use('/api/reservations', reservationRoutes);
-app.use('/api/queue', queueRoutes);
-app.use('/api/inventory', inventoryRoutes);
-app.use('/api/revenue', revenueRoutes);
-
-app.use(notFoundHandler);
-app.use(errorHandler);
+startScheduler();
 
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
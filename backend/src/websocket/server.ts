@@ -91,6 +91,11 @@ function setupCustomerNamespace(namespace: Namespace) {
       console.log(`Customer ${socket.id} joined reservation:${reservation_id}`);
     });
 
+    socket.on('join_tournament', ({ tournament_id }) => {
+      socket.join(`tournament:${tournament_id}`);
+      console.log(`Customer ${socket.id} joined tournament:${tournament_id}`);
+    });
+
     socket.on('visitor_connected', (data) => {
       if (io) {
         io.of('/admin').emit('visitor_connected', {
@@ -244,6 +249,8 @@ function setupStaffNamespace(namespace: Namespace) {
 
     if (socket.data.staff?.branchId) {
       socket.join(`branch:${socket.data.staff.branchId}`);
+    } else {
+      socket.join('branch:all');
     }
 
     socket.on('disconnect', () => {
@@ -261,7 +268,7 @@ export function broadcastAvailabilityChange(activityId: string, status: string)
   });
 }
 
-export function broadcastTimerUpdate(sessionId: string, elapsed: number, remaining: number) {
+export function broadcastTimerUpdate(sessionId: string, elapsed: number, remaining: number | null) {
   if (!io) return;
   
   const data = {
@@ -283,14 +290,22 @@ export function broadcastSessionEvent(event: string, data: any) {
   io.of('/admin').emit(event, data);
 }
 
+export function broadcastTournamentUpdate(tournamentId: string, tournament: any) {
+  if (!io) return;
+
+  io.of('/customer').to(`tournament:${tournamentId}`).emit('tournament_updated', tournament);
+  io.of('/admin').emit('tournament_updated', tournament);
+}
+
 export function broadcastFoodOrder(order: any) {
   if (!io) return;
   
-  const branchId = order.qrContext?.branchId || 'all';
+  // Owners not tied to a branch sit in branch:all and hear every branch's orders
+  const rooms = order.branchId ? [`branch:${order.branchId}`, 'branch:all'] : ['branch:all'];
   
-  io.of('/staff').to(`branch:${branchId}`).emit('food_order_received', order);
+  io.of('/staff').to(rooms).emit('food_order_received', order);
   
-  io.of('/admin').to(`branch:${branchId}`).emit('food_order_received', order);
+  io.of('/admin').to(rooms).emit('food_order_received', order);
 }
 
 export function broadcastQueueUpdate() {
@@ -300,6 +315,12 @@ export function broadcastQueueUpdate() {
   });
 }
 
+export function broadcastSmokingRoomUpdate(status: { activityId: string; branchId: string }) {
+  if (!io) return;
+  io.of('/customer').to(`activity:${status.activityId}`).emit('smoking_room_updated', status);
+  io.of('/admin').to([`branch:${status.branchId}`, 'branch:all']).emit('smoking_room_updated', status);
+}
+
 export function getIO(): SocketIOServer | null {
   return io;
 }
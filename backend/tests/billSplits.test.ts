@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import mongoose from 'mongoose';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { clock } from './helpers/clock.js';
+import { SessionModel } from '../src/models/Session.js';
+import { FoodOrderModel } from '../src/models/Order.js';
+import { setSmsSender } from '../src/lib/sms.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+const PLAYERS = [
+  { name: 'Asha', phone: '9000000001' },
+  { name: 'Ravi', phone: '9000000002' },
+  { name: 'Meera', phone: '9000000003' },
+];
+
+let voteToken = '';
+
+const startChallenge = async () => {
+  const { activity } = await createActivityWithUnits({}, 1);
+  const response = await api()
+    .post('/api/sessions/challenge')
+    .send({
+      players: PLAYERS,
+      activityId: activity._id.toString(),
+      activityType: activity.type,
+      duration: 60,
+    })
+    .expect(201);
+  voteToken = response.body.voteLinks[0].token;
+  return response.body.id as string;
+};
+
+// Splitting is for the players, who prove it with the starter's voting link
+const splitBill = () => api().post('/api/bill-splits').set('X-Vote-Token', voteToken);
+
+const payShare = async (shareId: string, amount: number) => {
+  const order = await api()
+    .post('/api/payments/create-order')
+    .send({ amount, type: 'split_share', entityId: shareId })
+    .expect(200);
+
+  return api()
+    .post('/api/payments/verify')
+    .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'split_share', entityId: shareId })
+    .expect(200);
+};
+
+describe('split bills', () => {
+  it('splits the session and its food evenly and marks both paid once every share is in', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const sessionId = await startChallenge();
+    const order = await FoodOrderModel.create({
+      items: [{ menuItemId: new mongoose.Types.ObjectId(), quantity: 1, price: 150 }],
+      totalAmount: 150,
+      customerName: 'Asha',
+      customerPhone: PLAYERS[0].phone,
+      sessionId,
+    });
+
+    const split = await splitBill()
+      .send({ sessionId, mode: 'even' })
+      .expect(201);
+
+    expect(split.body).toMatchObject({ sessionAmount: 900, ordersAmount: 150, totalAmount: 1050, status: 'open' });
+    expect(split.body.shares.map((s: { amount: number }) => s.amount)).toEqual([350, 350, 350]);
+    expect(split.body.shares[0].paymentLink).toContain(`/split/${split.body.id}`);
+    expect(split.body.shares[0].phone).toBeUndefined();
+
+    await api()
+      .post('/api/payments/offline')
+      .send({ type: 'session', entityId: sessionId })
+      .expect(400);
+
+    const [first, second, third] = split.body.shares;
+    await api().post('/api/payments/create-order').send({ amount: 300, type: 'split_share', entityId: first.id }).expect(400);
+    await payShare(first.id, 350);
+
+    // A payment taken for one share can't settle another that never opened an order
+    const secondOrder = await api()
+      .post('/api/payments/create-order')
+      .send({ amount: 350, type: 'split_share', entityId: second.id })
+      .expect(200);
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay(secondOrder.body.orderId), type: 'split_share', entityId: third.id })
+      .expect(400);
+
+    // A player choosing cash only tells staff, who mark the share once they have the money
+    const counter = await api().post('/api/payments/offline').send({ type: 'split_share', entityId: second.id }).expect(200);
+    expect(counter.body.requiresApproval).toBe(true);
+    const staffOffline = () => api()
+      .post('/api/payments/offline')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ type: 'split_share', entityId: second.id });
+    await staffOffline().expect(200);
+    await staffOffline().expect(400);
+
+    expect((await SessionModel.findById(sessionId))?.paymentStatus).toBe('pending');
+    expect((await FoodOrderModel.findById(order._id))?.paymentStatus).toBe('pending');
+
+    const last = await payShare(third.id, 350);
+    expect(last.body.settled).toBe(true);
+
+    expect((await SessionModel.findById(sessionId))?.paymentStatus).toBe('paid');
+    expect((await FoodOrderModel.findById(order._id))?.paymentStatus).toBe('paid');
+
+    const settled = await api().get(`/api/bill-splits/session/${sessionId}`).expect(200);
+    expect(settled.body.status).toBe('settled');
+    expect(settled.body.shares.map((s: { status: string }) => s.status)).toEqual(['paid', 'offline', 'paid']);
+  });
+
+  it('charges only the losers once a winner is picked and checks custom amounts add up', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const sessionId = await startChallenge();
+
+    await splitBill().send({ sessionId, mode: 'loser_pays' }).expect(400);
+    await splitBill()
+      .send({ sessionId, mode: 'custom', amounts: [{ playerName: 'Asha', amount: 500 }, { playerName: 'Ravi', amount: 300 }] })
+      .expect(400);
+
+    const custom = await splitBill()
+      .send({ sessionId, mode: 'custom', amounts: [{ playerName: 'Asha', amount: 600 }, { playerName: 'Ravi', amount: 300 }] })
+      .expect(201);
+    expect(custom.body.shares).toHaveLength(2);
+
+    clock.advance(60);
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    await api()
+      .post(`/api/sessions/${sessionId}/select-winner`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ winnerName: 'Asha' })
+      .expect(200);
+
+    const loserPays = await splitBill()
+      .send({ sessionId, mode: 'loser_pays' })
+      .expect(201);
+    expect(loserPays.body.shares.map((s: { playerName: string; amount: number }) => [s.playerName, s.amount]))
+      .toEqual([['Ravi', 450], ['Meera', 450]]);
+
+    await payShare(loserPays.body.shares[0].id, 450);
+    await splitBill().send({ sessionId, mode: 'even' }).expect(409);
+    await api().post('/api/payments/offline').send({ type: 'split_share', entityId: custom.body.shares[0].id }).expect(400);
+  });
+
+  it('only lets the players or staff split a bill and stops re-splits from texting again and again', async () => {
+    clock.set(WEEKDAY_NOON);
+    const sessionId = await startChallenge();
+    const sent: string[] = [];
+    setSmsSender({
+      send: async (phone) => {
+        sent.push(phone);
+      },
+    });
+
+    try {
+      await api().post('/api/bill-splits').send({ sessionId, mode: 'even' }).expect(403);
+
+      for (let round = 0; round < 5; round++) {
+        await splitBill().send({ sessionId, mode: 'even' }).expect(201);
+      }
+      expect(sent).toHaveLength(3 * PLAYERS.length);
+
+      const staffToken = await createAuthToken('staff');
+      await api()
+        .post('/api/bill-splits')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ sessionId, mode: 'even' })
+        .expect(201);
+    } finally {
+      setSmsSender(null);
+    }
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { autoStartScheduledSessions, autoEndExpiredSessions, expireUnpaidHolds } from '../src/jobs/sessionManager.js';
+import { SessionModel } from '../src/models/Session.js';
+import { ReservationModel } from '../src/models/Reservation.js';
+import { WaitingQueueModel } from '../src/models/WaitingQueue.js';
+import { ActivityUnitModel } from '../src/models/Activity.js';
+
+// A Wednesday afternoon, clear of the default weekend peak window
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const reserve = (activityId: string, unitId: string, body: Record<string, unknown> = {}) => {
+  return api()
+    .post('/api/reservations')
+    .send({
+      activityId,
+      unitId,
+      duration: 60,
+      customerName: 'Test Customer',
+      customerPhone: '9876543210',
+      ...body,
+    });
+};
+
+describe('booking path', () => {
+  it('books, pays, auto-starts and auto-ends a walk-in session', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+
+    const reservation = await reserve(activity._id.toString(), units[0]._id.toString()).expect(201);
+    expect(reservation.body.amount).toBe(300);
+    expect(reservation.body.isAdvanceBooking).toBe(false);
+
+    const verify = await payForReservation(reservation.body);
+    expect(verify.body.queued).toBe(false);
+    expect(fakeRazorpay.orders).toHaveLength(1);
+    expect(fakeRazorpay.orders[0].amount).toBe(30000);
+
+    const session = await SessionModel.findById(verify.body.sessionId);
+    expect(session?.status).toBe('scheduled');
+    expect(session?.paymentStatus).toBe('paid');
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('occupied');
+
+    clock.advance(1);
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(session!._id))?.status).toBe('active');
+
+    clock.advance(60);
+    await autoEndExpiredSessions();
+    expect((await SessionModel.findById(session!._id))?.status).toBe('completed');
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('available');
+  });
+
+  it('queues the customer when the unit is taken before payment completes', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+
+    const reservation = await reserve(activity._id.toString(), units[0]._id.toString()).expect(201);
+    await ActivityUnitModel.findByIdAndUpdate(units[0]._id, { status: 'occupied' });
+
+    const verify = await payForReservation(reservation.body);
+    expect(verify.body.queued).toBe(true);
+
+    const entry = await WaitingQueueModel.findOne({ reservationId: reservation.body.id });
+    expect(entry?.status).toBe('waiting');
+    expect(entry?.position).toBe(1);
+    expect((await ReservationModel.findById(reservation.body.id))?.status).toBe('payment_confirmed');
+  });
+
+  it('rejects a second booking for a slot that is already held', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const start = new Date(Date.now() + 2 * 60 * 60000).toISOString();
+
+    await reserve(activity._id.toString(), units[0]._id.toString(), { startTime: start }).expect(201);
+    await reserve(activity._id.toString(), units[0]._id.toString(), {
+      startTime: start,
+      customerPhone: '9123456780',
+    }).expect(409);
+  });
+
+  it('releases unpaid reservations once the payment window lapses', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+
+    const reservation = await reserve(activity._id.toString(), units[0]._id.toString()).expect(201);
+
+    clock.advance(14);
+    await expireUnpaidHolds();
+    expect((await ReservationModel.findById(reservation.body.id))?.status).toBe('pending_payment');
+
+    clock.advance(2);
+    await expireUnpaidHolds();
+    expect((await ReservationModel.findById(reservation.body.id))?.status).toBe('expired');
+  });
+
+  it("only takes payment for a booking's own price", async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const reservation = await reserve(activity._id.toString(), units[0]._id.toString()).expect(201);
+
+    const response = await api()
+      .post('/api/payments/create-order')
+      .send({ amount: 1, type: 'reservation', entityId: reservation.body.id })
+      .expect(400);
+    expect(response.body.error).toMatch(/does not match/);
+
+    await payForReservation(reservation.body);
+  });
+
+  it('keeps advance bookings scheduled until their start time', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const start = new Date(Date.now() + 3 * 60 * 60000);
+
+    const reservation = await reserve(activity._id.toString(), units[0]._id.toString(), {
+      startTime: start.toISOString(),
+    }).expect(201);
+    expect(reservation.body.isAdvanceBooking).toBe(true);
+
+    const verify = await payForReservation(reservation.body);
+    expect(verify.body.scheduled).toBe(true);
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('available');
+
+    clock.advance(60);
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(verify.body.sessionId))?.status).toBe('scheduled');
+
+    clock.set(start);
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(verify.body.sessionId))?.status).toBe('active');
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('occupied');
+  });
+
+  it('waits for the unit to be handed back before starting the next booking', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const walkIn = await reserve(activity._id.toString(), units[0]._id.toString(), { duration: 30 }).expect(201);
+    const current = await payForReservation(walkIn.body);
+    await autoStartScheduledSessions();
+
+    const next = await reserve(activity._id.toString(), units[0]._id.toString(), {
+      startTime: '2026-03-04T12:30:00',
+      customerPhone: '9000000001',
+    }).expect(201);
+    const upcoming = await payForReservation(next.body);
+
+    clock.set('2026-03-04T12:30:00');
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(upcoming.body.sessionId))?.status).toBe('scheduled');
+
+    await api().post(`/api/sessions/${current.body.sessionId}/end`).send({}).expect(200);
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(upcoming.body.sessionId))?.status).toBe('active');
+  });
+
+  it('ends a resumed session in time for the next booking on the unit', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const walkIn = await reserve(activity._id.toString(), units[0]._id.toString(), { duration: 30 }).expect(201);
+    const verify = await payForReservation(walkIn.body);
+    const sessionId = verify.body.sessionId as string;
+    await autoStartScheduledSessions();
+
+    const next = await reserve(activity._id.toString(), units[0]._id.toString(), {
+      startTime: '2026-03-04T12:45:00',
+      customerPhone: '9000000001',
+    }).expect(201);
+    await payForReservation(next.body);
+
+    clock.advance(10);
+    await api().post(`/api/sessions/${sessionId}/pause`).send({}).expect(200);
+    clock.advance(30);
+    const resumed = await api().post(`/api/sessions/${sessionId}/resume`).send({}).expect(200);
+
+    // The half-hour break would run to 13:00, past the 12:45 booking
+    expect(new Date(resumed.body.endTime)).toEqual(new Date('2026-03-04T12:45:00'));
+    expect(resumed.body.cutShortMinutes).toBe(15);
+  });
+
+  it('caps how long a booking can be priced and booked for', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const id = activity._id.toString();
+
+    const longest = await api().get(`/api/activities/${id}/quote?duration=480`).expect(200);
+    expect(longest.body.amount).toBe(2400);
+    await api().get(`/api/activities/${id}/quote?duration=100000000`).expect(400);
+    await reserve(id, units[0]._id.toString(), { duration: 481 }).expect(400);
+  });
+
+  it('lays out slots in the business timezone and only books up to 30 days ahead', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+
+    const day = await api().get(`/api/activities/${activity._id}/availability?date=2026-03-05&duration=60`).expect(200);
+    expect(day.body.date).toBe('2026-03-05');
+    // 10am to 11pm in India, whatever timezone the server runs in
+    expect(day.body.openingTime).toBe('2026-03-05T04:30:00.000Z');
+    expect(day.body.closingTime).toBe('2026-03-05T17:30:00.000Z');
+
+    await api().get(`/api/activities/${activity._id}/availability?date=2026-02-30`).expect(400);
+    await api().get(`/api/activities/${activity._id}/availability?date=2026-04-03`).expect(200);
+    await api().get(`/api/activities/${activity._id}/availability?date=2026-04-04`).expect(400);
+
+    await reserve(activity._id.toString(), units[0]._id.toString(), { startTime: '2026-04-03T20:00:00' }).expect(201);
+    await reserve(activity._id.toString(), units[0]._id.toString(), { startTime: '2026-04-04T12:00:00' }).expect(400);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { BranchModel } from '../src/models/Branch.js';
+import { getDefaultBranch } from '../src/lib/branches.js';
+import { SessionModel } from '../src/models/Session.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const bookAndPay = async (activityId: string, unitId: string) => {
+  const reservation = await api()
+    .post('/api/reservations')
+    .send({
+      activityId,
+      unitId,
+      duration: 60,
+      customerName: 'Test Customer',
+      customerPhone: '9876543210',
+    })
+    .expect(201);
+  await payForReservation(reservation.body);
+};
+
+describe('branches', () => {
+  it('keeps activities with the same type apart per branch', async () => {
+    const main = await getDefaultBranch();
+    const mall = await BranchModel.create({ code: 'mall', name: 'Mall Branch' });
+    await createActivityWithUnits({ name: 'PS5 Main' });
+    await createActivityWithUnits({ name: 'PS5 Mall', branchId: mall._id });
+
+    const fromQr = await api().get('/api/activities?branchId=mall').expect(200);
+    expect(fromQr.body.map((a: { name: string }) => a.name)).toEqual(['PS5 Mall']);
+
+    const byDefault = await api().get('/api/activities').expect(200);
+    expect(byDefault.body.map((a: { branchId: string }) => a.branchId)).toEqual([main._id.toString()]);
+  });
+
+  it('limits branch staff to their own branch', async () => {
+    const mall = await BranchModel.create({ code: 'mall', name: 'Mall Branch' });
+    const main = await getDefaultBranch();
+    const staffToken = await createAuthToken('staff', mall._id.toString());
+
+    await api()
+      .get('/api/sessions')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .set('X-Branch-Id', main._id.toString())
+      .expect(403);
+
+    await api()
+      .get('/api/sessions')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .set('X-Branch-Id', 'all')
+      .expect(403);
+
+    const branches = await api()
+      .get('/api/branches')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(branches.body.map((b: { code: string }) => b.code)).toEqual(['mall']);
+  });
+
+  it('keeps branch staff away from records at other branches', async () => {
+    clock.set(WEEKDAY_NOON);
+    const mall = await BranchModel.create({ code: 'mall', name: 'Mall Branch' });
+    const main = await createActivityWithUnits();
+    await bookAndPay(main.activity._id.toString(), main.units[0]._id.toString());
+    const session = await SessionModel.findOne({ activityId: main.activity._id });
+    const sessionId = session!._id.toString();
+
+    const mallToken = await createAuthToken('staff', mall._id.toString());
+    const asMall = (test: ReturnType<ReturnType<typeof api>['get']>) =>
+      test.set('Authorization', `Bearer ${mallToken}`);
+
+    await asMall(api().post(`/api/payments/${sessionId}/refund`))
+      .send({ type: 'session', reasonCode: 'customer_request' })
+      .expect(404);
+    const refunds = await asMall(api().get(`/api/payments/${sessionId}/refunds?type=session`)).expect(200);
+    expect(refunds.body).toEqual([]);
+    await asMall(api().post(`/api/sessions/${sessionId}/end`)).send({}).expect(404);
+    await asMall(api().delete(`/api/sessions/${sessionId}`)).expect(404);
+    const waiting = await asMall(api().get('/api/queue/waiting')).expect(200);
+    expect(waiting.body).toEqual([]);
+
+    expect((await SessionModel.findById(sessionId))?.status).toBe(session!.status);
+  });
+
+  it('rolls revenue up across branches for owners', async () => {
+    clock.set(WEEKDAY_NOON);
+    const mall = await BranchModel.create({ code: 'mall', name: 'Mall Branch' });
+    const main = await createActivityWithUnits();
+    const mallActivity = await createActivityWithUnits({ baseRate: 400, branchId: mall._id });
+
+    await bookAndPay(main.activity._id.toString(), main.units[0]._id.toString());
+    await bookAndPay(mallActivity.activity._id.toString(), mallActivity.units[0]._id.toString());
+
+    const ownerToken = await createAuthToken('admin');
+    const all = await api()
+      .get('/api/revenue')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(all.body.summary.totalRevenue).toBe(700);
+    expect(all.body.byBranch).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'Main Branch', totalRevenue: 300 }),
+        expect.objectContaining({ name: 'Mall Branch', totalRevenue: 400 }),
+      ])
+    );
+
+    const managerToken = await createAuthToken('admin', mall._id.toString());
+    const mallOnly = await api()
+      .get('/api/revenue')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .expect(200);
+    expect(mallOnly.body.summary.totalRevenue).toBe(400);
+    expect(mallOnly.body.byBranch).toBeUndefined();
+  });
+});
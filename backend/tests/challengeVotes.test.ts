@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { setSmsSender } from '../src/lib/sms.js';
+
+const ASHA = { name: 'Asha', phone: '9000000001' };
+const RAVI = { name: 'Ravi', phone: '9000000002' };
+const MEERA = { name: 'Meera' };
+
+let texted: Array<{ phone: string; message: string }> = [];
+
+const tokenFrom = (link: string) => link.match(/token=([\w-]+)/)![1];
+
+const startAndEndChallenge = async (players: Array<{ name: string; phone?: string }>) => {
+  const { activity } = await createActivityWithUnits({}, 1);
+  const created = await api()
+    .post('/api/sessions/challenge')
+    .send({ players, activityId: activity._id.toString(), activityType: activity.type, duration: 60 })
+    .expect(201);
+
+  clock.advance(60);
+  await api().post(`/api/sessions/${created.body.id}/end`).send({}).expect(200);
+  return created;
+};
+
+const vote = (sessionId: string, token: string, winnerName: string) =>
+  api().post(`/api/sessions/${sessionId}/vote-winner`).send({ token, winnerName });
+
+describe('challenge voting', () => {
+  beforeEach(() => {
+    texted = [];
+    setSmsSender({
+      send: async (phone, message) => {
+        texted.push({ phone, message });
+      },
+    });
+  });
+
+  afterEach(() => {
+    setSmsSender(null);
+  });
+
+  it('gives each player their own link and only counts votes made with it', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const created = await startAndEndChallenge([ASHA, RAVI, MEERA]);
+    const sessionId = created.body.id;
+
+    // Asha started it and Meera has no phone, so theirs are shown on screen
+    expect(texted.map(sms => sms.phone)).toEqual([ASHA.phone, RAVI.phone]);
+    expect(created.body.voteLinks.map((l: { playerName: string }) => l.playerName)).toEqual(['Asha', 'Meera']);
+    expect(JSON.stringify(created.body)).not.toContain('voteTokenHash');
+    const [ashaToken, meeraToken] = created.body.voteLinks.map((l: { token: string }) => l.token);
+    const raviToken = tokenFrom(texted[1].message);
+
+    await api().post(`/api/sessions/${sessionId}/vote-winner`).send({ voterName: 'Asha', winnerName: 'Asha' }).expect(400);
+    await vote(sessionId, 'not-a-real-token', 'Asha').expect(403);
+
+    const first = await vote(sessionId, raviToken, 'Ravi').expect(200);
+    expect(first.body).toMatchObject({ voter: 'Ravi', allVoted: false, disputed: false });
+    await vote(sessionId, raviToken, 'Ravi').expect(409);
+
+    await vote(sessionId, ashaToken, 'Ravi').expect(200);
+    const last = await vote(sessionId, meeraToken, 'Ravi').expect(200);
+    expect(last.body).toMatchObject({ allVoted: true, winner: 'Ravi' });
+    expect(last.body.challengeData).toMatchObject({ winnerSelectedBy: 'players', disputed: false });
+  });
+
+  it('puts a challenge into dispute when votes disagree and lets staff settle it', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const staffToken = await createAuthToken('staff');
+    const created = await startAndEndChallenge([ASHA, RAVI]);
+    const sessionId = created.body.id;
+
+    await vote(sessionId, tokenFrom(texted[0].message), 'Asha').expect(200);
+    const disagreed = await vote(sessionId, tokenFrom(texted[1].message), 'Ravi').expect(200);
+    expect(disagreed.body).toMatchObject({ allVoted: true, disputed: true });
+    expect(disagreed.body.winner).toBeUndefined();
+
+    const board = await api().get('/api/sessions').set('Authorization', `Bearer ${staffToken}`).expect(200);
+    const listed = board.body.find((s: { id: string }) => s.id === sessionId);
+    expect(listed).toMatchObject({ status: 'ended', challengeData: { disputed: true } });
+
+    const resolved = await api()
+      .post(`/api/sessions/${sessionId}/select-winner`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ winnerName: 'Ravi' })
+      .expect(200);
+    expect(resolved.body.challengeData).toMatchObject({ winner: 'Ravi', winnerSelectedBy: 'admin', disputed: true });
+    expect(resolved.body.challengeData.disputeResolvedAt).toBeDefined();
+  });
+});
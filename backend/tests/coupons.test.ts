@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { expireUnpaidHolds } from '../src/jobs/sessionManager.js';
+import { CouponModel } from '../src/models/Coupon.js';
+import { CouponRedemptionModel } from '../src/models/CouponRedemption.js';
+import { MenuItemModel } from '../src/models/Order.js';
+import { getDefaultBranch } from '../src/lib/branches.js';
+
+const PHONE = '9876543210';
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const createReservation = async (activityId: string, unitId: string, customerPhone = PHONE) => {
+  const response = await api()
+    .post('/api/reservations')
+    .send({
+      activityId,
+      unitId,
+      duration: 60,
+      customerName: 'Test Customer',
+      customerPhone,
+    })
+    .expect(201);
+  return response.body as { id: string; amount: number };
+};
+
+const createCoupon = async (coupon: Record<string, unknown>) => {
+  const adminToken = await createAuthToken('admin');
+  const response = await api()
+    .post('/api/coupons')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send(coupon)
+    .expect(201);
+  return response.body;
+};
+
+describe('coupons', () => {
+  it('takes a percent coupon off a booking and reports gross and net revenue', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    await createCoupon({ code: 'play10', discountType: 'percent', value: 10, activityIds: [activity._id.toString()] });
+    const reservation = await createReservation(activity._id.toString(), units[0]._id.toString());
+
+    const preview = await api()
+      .post('/api/coupons/validate')
+      .send({ code: 'PLAY10', type: 'reservation', entityId: reservation.id })
+      .expect(200);
+    expect(preview.body).toMatchObject({ valid: true, discount: 30, amount: 270 });
+
+    const applied = await api()
+      .post('/api/coupons/apply')
+      .send({ code: 'play10', type: 'reservation', entityId: reservation.id })
+      .expect(200);
+    expect(applied.body.amount).toBe(270);
+
+    await api()
+      .post('/api/coupons/apply')
+      .send({ code: 'PLAY10', type: 'reservation', entityId: reservation.id })
+      .expect(400);
+
+    await payForReservation({ id: reservation.id, amount: 270 });
+
+    const adminToken = await createAuthToken('admin');
+    const revenue = await api()
+      .get('/api/revenue')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(revenue.body.summary).toMatchObject({
+      totalRevenue: 270,
+      grossRevenue: 300,
+      couponDiscountTotal: 30,
+    });
+  });
+
+  it('only discounts order items in the coupon\'s menu categories', async () => {
+    clock.set(WEEKDAY_NOON);
+    const branchId = (await getDefaultBranch())._id;
+    const coffee = await MenuItemModel.create({ branchId, name: 'Cold Coffee', category: 'beverages', price: 120 });
+    const pasta = await MenuItemModel.create({ branchId, name: 'Red Sauce Pasta', category: 'pasta', price: 200 });
+    await createCoupon({ code: 'DRINKS', discountType: 'percent', value: 50, menuCategories: ['beverages'], minSpend: 100 });
+
+    const preview = await api()
+      .post('/api/coupons/validate')
+      .send({
+        code: 'DRINKS',
+        type: 'order',
+        customerPhone: PHONE,
+        items: [
+          { menuItemId: coffee._id.toString(), quantity: 1 },
+          { menuItemId: pasta._id.toString(), quantity: 1 },
+        ],
+      })
+      .expect(200);
+    expect(preview.body).toMatchObject({ eligibleAmount: 120, discount: 60, amount: 260 });
+
+    const order = await api()
+      .post('/api/orders')
+      .send({
+        items: [
+          { menuItemId: coffee._id.toString(), quantity: 1 },
+          { menuItemId: pasta._id.toString(), quantity: 1 },
+        ],
+        customerName: 'Test Customer',
+        customerPhone: PHONE,
+        couponCode: 'drinks',
+      })
+      .expect(201);
+    expect(order.body).toMatchObject({ totalAmount: 260, couponCode: 'DRINKS', couponDiscount: 60 });
+
+    const noDrinks = await api()
+      .post('/api/orders')
+      .send({
+        items: [{ menuItemId: pasta._id.toString(), quantity: 2 }],
+        customerName: 'Test Customer',
+        customerPhone: PHONE,
+        couponCode: 'DRINKS',
+      })
+      .expect(400);
+    expect(noDrinks.body.error).toMatch(/doesn't apply/);
+  });
+
+  it('enforces per-phone and overall limits and frees a use when the hold expires', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({}, 3);
+    await createCoupon({ code: 'ONCE', discountType: 'flat', value: 50, perPhoneLimit: 1, usageLimit: 2 });
+
+    const first = await createReservation(activity._id.toString(), units[0]._id.toString());
+    await api().post('/api/coupons/apply').send({ code: 'ONCE', type: 'reservation', entityId: first.id }).expect(200);
+
+    const second = await createReservation(activity._id.toString(), units[1]._id.toString());
+    const repeat = await api()
+      .post('/api/coupons/apply')
+      .send({ code: 'ONCE', type: 'reservation', entityId: second.id })
+      .expect(400);
+    expect(repeat.body.error).toMatch(/already used/);
+
+    clock.advance(16);
+    await expireUnpaidHolds();
+
+    const coupon = await CouponModel.findOne({ code: 'ONCE' });
+    expect(coupon?.usedCount).toBe(0);
+
+    const retry = await createReservation(activity._id.toString(), units[0]._id.toString());
+    await api().post('/api/coupons/apply').send({ code: 'ONCE', type: 'reservation', entityId: retry.id }).expect(200);
+
+    const other = await createReservation(activity._id.toString(), units[1]._id.toString(), '9000000000');
+    await api().post('/api/coupons/apply').send({ code: 'ONCE', type: 'reservation', entityId: other.id }).expect(200);
+
+    const third = await createReservation(activity._id.toString(), units[2]._id.toString(), '9111111111');
+    const full = await api()
+      .post('/api/coupons/apply')
+      .send({ code: 'ONCE', type: 'reservation', entityId: third.id })
+      .expect(400);
+    expect(full.body.error).toMatch(/fully redeemed/);
+  });
+
+  it('holds a phone to its limit when it applies a coupon at two checkouts at once', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({}, 2);
+    await createCoupon({ code: 'ONCE', discountType: 'flat', value: 50, perPhoneLimit: 1 });
+    const first = await createReservation(activity._id.toString(), units[0]._id.toString());
+    const second = await createReservation(activity._id.toString(), units[1]._id.toString());
+
+    const responses = await Promise.all([first, second].map(reservation =>
+      api().post('/api/coupons/apply').send({ code: 'ONCE', type: 'reservation', entityId: reservation.id })
+    ));
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 400]);
+    expect((await CouponModel.findOne({ code: 'ONCE' }))?.usedCount).toBe(1);
+    expect(await CouponRedemptionModel.countDocuments({ code: 'ONCE', status: 'applied' })).toBe(1);
+  });
+
+  it('refuses coupons outside their validity window', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    await createCoupon({ code: 'EARLYBIRD', discountType: 'flat', value: 50, validUntil: '2026-03-01T00:00:00' });
+    const reservation = await createReservation(activity._id.toString(), units[0]._id.toString());
+
+    const response = await api()
+      .post('/api/coupons/validate')
+      .send({ code: 'EARLYBIRD', type: 'reservation', entityId: reservation.id })
+      .expect(400);
+    expect(response.body.error).toMatch(/expired/);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { api, createActivityWithUnits } from './helpers/fixtures.js';
+import { setSmsSender } from '../src/lib/sms.js';
+import { redisUtils } from '../src/config/redis.js';
+import { SessionModel } from '../src/models/Session.js';
+
+const PHONE = '9876543210';
+
+let sent: { phone: string; message: string }[] = [];
+
+const lastCode = () => sent[sent.length - 1].message.match(/\d{6}/)![0];
+
+const signIn = async (phone = PHONE) => {
+  await api().post('/api/customer-auth/otp').send({ phone }).expect(200);
+  const response = await api()
+    .post('/api/customer-auth/verify')
+    .send({ phone, code: lastCode() })
+    .expect(200);
+  return response.body.token as string;
+};
+
+describe('customer phone login', () => {
+  beforeEach(() => {
+    sent = [];
+    setSmsSender({
+      send: async (phone, message) => {
+        sent.push({ phone, message });
+      },
+    });
+  });
+
+  afterEach(() => {
+    setSmsSender(null);
+  });
+
+  it('texts a code and exchanges it for a customer token', async () => {
+    await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(200);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].phone).toBe(PHONE);
+
+    const response = await api()
+      .post('/api/customer-auth/verify')
+      .send({ phone: PHONE, code: lastCode(), name: 'Asha' })
+      .expect(200);
+
+    expect(response.body.customer.phone).toBe(PHONE);
+    expect(response.body.customer.name).toBe('Asha');
+
+    const me = await api()
+      .get('/api/customer-auth/me')
+      .set('Authorization', `Bearer ${response.body.token}`)
+      .expect(200);
+    expect(me.body.phone).toBe(PHONE);
+  });
+
+  it('rejects a wrong code and does not let a code be reused', async () => {
+    await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(200);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    await api().post('/api/customer-auth/verify').send({ phone: PHONE, code: wrong }).expect(400);
+    await api().post('/api/customer-auth/verify').send({ phone: PHONE, code }).expect(200);
+    await api().post('/api/customer-auth/verify').send({ phone: PHONE, code }).expect(400);
+  });
+
+  it('discards the code once parallel wrong guesses reach the limit', async () => {
+    await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(200);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    const guesses = await Promise.all(
+      Array.from({ length: 8 }, () =>
+        api().post('/api/customer-auth/verify').send({ phone: PHONE, code: wrong })
+      )
+    );
+    expect(guesses.every((response) => response.status === 400)).toBe(true);
+
+    await api().post('/api/customer-auth/verify').send({ phone: PHONE, code }).expect(400);
+  });
+
+  it('caps how many codes one phone can be sent', async () => {
+    for (let i = 0; i < 5; i++) {
+      await redisUtils.releaseLock(`otp:cooldown:${PHONE}`);
+      await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(200);
+    }
+    await redisUtils.releaseLock(`otp:cooldown:${PHONE}`);
+    await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(429);
+    expect(sent).toHaveLength(5);
+  });
+
+  it('throttles repeated code requests', async () => {
+    await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(200);
+    await api().post('/api/customer-auth/otp').send({ phone: PHONE }).expect(429);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('only returns history for the signed-in phone', async () => {
+    const { activity, units } = await createActivityWithUnits();
+    await SessionModel.create({
+      activityId: activity._id,
+      activityType: activity.type,
+      unitId: units[0]._id,
+      startTime: new Date(),
+      endTime: new Date(Date.now() + 60 * 60000),
+      durationMinutes: 60,
+      duration: 60,
+      baseAmount: 300,
+      amount: 300,
+      status: 'completed',
+      customerName: 'Asha',
+      customerPhone: PHONE,
+      paymentStatus: 'paid',
+    });
+
+    await api().get(`/api/sessions/phone/${PHONE}`).expect(401);
+
+    const token = await signIn();
+    const own = await api()
+      .get(`/api/sessions/phone/${PHONE}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(own.body).toHaveLength(1);
+
+    await api()
+      .get('/api/sessions/phone/9123456780')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+    await api()
+      .get('/api/orders/phone/9123456780')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+  });
+});
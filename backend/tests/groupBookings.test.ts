@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits } from './helpers/fixtures.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { clock } from './helpers/clock.js';
+import { SessionModel } from '../src/models/Session.js';
+import { ReservationModel } from '../src/models/Reservation.js';
+import { ActivityUnitModel } from '../src/models/Activity.js';
+
+const PHONE = '9876543210';
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const bookGroup = (units: Array<{ activityId: string; unitId: string }>, startTime?: string) =>
+  api()
+    .post('/api/group-bookings')
+    .send({ units, startTime, duration: 120, customerName: 'Birthday Party', customerPhone: PHONE });
+
+const payForGroup = async (groupId: string, amount: number) => {
+  const order = await api()
+    .post('/api/payments/create-order')
+    .send({ amount, type: 'group', entityId: groupId })
+    .expect(200);
+
+  return api()
+    .post('/api/payments/verify')
+    .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'group', entityId: groupId })
+    .expect(200);
+};
+
+describe('group bookings', () => {
+  it('starts every unit together on one payment and ends them together', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({}, 3);
+    const picks = units.map(unit => ({ activityId: activity._id.toString(), unitId: unit._id.toString() }));
+
+    const group = await bookGroup(picks).expect(201);
+    expect(group.body.status).toBe('pending_payment');
+    expect(group.body.units).toHaveLength(3);
+    expect(group.body.amount).toBe(group.body.units.reduce((sum: number, u: { amount: number }) => sum + u.amount, 0));
+
+    // A payment for some other order doesn't confirm the group
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay('order_elsewhere'), type: 'group', entityId: group.body.id })
+      .expect(400);
+
+    clock.advance(3);
+    const paid = await payForGroup(group.body.id, group.body.amount);
+    expect(paid.body.sessionIds).toHaveLength(3);
+    expect(paid.body.scheduled).toBe(false);
+    expect(fakeRazorpay.orders).toHaveLength(1);
+
+    const sessions = await SessionModel.find({ groupBookingId: group.body.id });
+    expect(sessions.map(s => s.status)).toEqual(['active', 'active', 'active']);
+    expect(new Set(sessions.map(s => s.endTime?.getTime())).size).toBe(1);
+    expect(await ActivityUnitModel.countDocuments({ activityId: activity._id, status: 'occupied' })).toBe(3);
+
+    await api().post(`/api/sessions/${sessions[0]._id}/pause`).send({}).expect(400);
+
+    clock.advance(60);
+    await api().post(`/api/sessions/${sessions[0]._id}/end`).send({}).expect(200);
+
+    const ended = await SessionModel.find({ groupBookingId: group.body.id });
+    expect(ended.map(s => s.status)).toEqual(['ended', 'ended', 'ended']);
+    expect(await ActivityUnitModel.countDocuments({ activityId: activity._id, status: 'available' })).toBe(3);
+  });
+
+  it('books nothing when one of the units is already taken', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({}, 3);
+    const evening = '2026-03-04T18:00:00';
+
+    await api()
+      .post('/api/reservations')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: units[2]._id.toString(),
+        startTime: evening,
+        duration: 60,
+        customerName: 'Someone Else',
+        customerPhone: '9000000000',
+      })
+      .expect(201);
+
+    const picks = units.map(unit => ({ activityId: activity._id.toString(), unitId: unit._id.toString() }));
+    await bookGroup(picks, evening).expect(409);
+
+    expect(await ReservationModel.countDocuments({ groupBookingId: { $exists: true } })).toBe(0);
+  });
+
+  it('schedules an advance group so the sessions share one window', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity: ps5, units: consoles } = await createActivityWithUnits({}, 2);
+    const { activity: snooker, units: tables } = await createActivityWithUnits({ type: 'snooker-standard' }, 1);
+
+    const group = await bookGroup([
+      { activityId: ps5._id.toString(), unitId: consoles[0]._id.toString() },
+      { activityId: ps5._id.toString(), unitId: consoles[1]._id.toString() },
+      { activityId: snooker._id.toString(), unitId: tables[0]._id.toString() },
+    ], '2026-03-04T16:00:00').expect(201);
+
+    const paid = await payForGroup(group.body.id, group.body.amount);
+    expect(paid.body.scheduled).toBe(true);
+
+    const sessions = await SessionModel.find({ groupBookingId: group.body.id });
+    expect(sessions).toHaveLength(3);
+    expect(sessions.every(s => s.status === 'scheduled')).toBe(true);
+    expect(new Set(sessions.map(s => s.startTime.getTime())).size).toBe(1);
+  });
+});
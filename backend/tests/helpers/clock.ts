@@ -0,0 +1,27 @@
+import { vi } from 'vitest';
+
+/**
+ * Controls what `new Date()` and `Date.now()` return inside the app. Timers are left
+ * real (and the fake clock keeps ticking) so mongoose and ioredis-mock behave normally;
+ * the cron jobs are not scheduled in tests and are invoked directly instead.
+ */
+export const clock = {
+  set(date: Date | string): Date {
+    vi.useFakeTimers({ toFake: ['Date'], shouldAdvanceTime: true });
+    vi.setSystemTime(new Date(date));
+    return new Date();
+  },
+
+  advance(minutes: number): Date {
+    vi.setSystemTime(new Date(Date.now() + minutes * 60000));
+    return new Date();
+  },
+
+  now(): Date {
+    return new Date();
+  },
+
+  restore(): void {
+    vi.useRealTimers();
+  },
+};
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { setRedisClient } from '../../src/config/redis.js';
+import { setRazorpayClient } from '../../src/lib/razorpay.js';
+import { fakeRazorpay } from './razorpay.js';
+
+let mongod: MongoMemoryServer | null = null;
+let redis: Redis | null = null;
+
+/**
+ * Boot an in-memory mongod, an ioredis-mock client and the fake Razorpay client.
+ * Nothing here opens a socket to real infrastructure.
+ */
+export const startTestEnvironment = async (): Promise<void> => {
+  mongod = await MongoMemoryServer.create();
+  await mongoose.connect(mongod.getUri());
+
+  redis = new RedisMock() as unknown as Redis;
+  setRedisClient(redis);
+
+  setRazorpayClient(fakeRazorpay.asClient());
+};
+
+/**
+ * Empty every collection and the Redis keyspace between tests. Indexes are kept.
+ */
+export const resetTestEnvironment = async (): Promise<void> => {
+  const collections = await mongoose.connection.db!.collections();
+  for (const collection of collections) {
+    await collection.deleteMany({});
+  }
+
+  if (redis) {
+    await redis.flushall();
+  }
+
+  fakeRazorpay.reset();
+};
+
+export const stopTestEnvironment = async (): Promise<void> => {
+  setRazorpayClient(null);
+  setRedisClient(null);
+  redis?.disconnect();
+  redis = null;
+
+  await mongoose.disconnect();
+  await mongod?.stop();
+  mongod = null;
+};
@@ -0,0 +1,100 @@
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import app from '../../src/app.js';
+import { ActivityModel, ActivityUnitModel, IActivity, IActivityUnit } from '../../src/models/Activity.js';
+import { UserModel, UserRole } from '../../src/models/User.js';
+import { CustomerModel } from '../../src/models/Customer.js';
+import { getDefaultBranch } from '../../src/lib/branches.js';
+import { fakeRazorpay } from './razorpay.js';
+
+export const api = () => request(app);
+
+export const createActivityWithUnits = async (
+  overrides: Partial<Pick<IActivity, 'type' | 'name' | 'pricingType' | 'baseRate' | 'minimumDuration' | 'bufferTime' | 'branchId' | 'capacity'>> = {},
+  unitCount = 1
+): Promise<{ activity: IActivity; units: IActivityUnit[] }> => {
+  const activity = await ActivityModel.create({
+    branchId: (await getDefaultBranch())._id,
+    type: 'playstation',
+    name: 'PlayStation 5',
+    pricingType: 'per-hour',
+    baseRate: 300,
+    minimumDuration: 30,
+    bufferTime: 0,
+    enabled: true,
+    ...overrides,
+  });
+
+  const units = await ActivityUnitModel.create(
+    Array.from({ length: unitCount }, (_, i) => ({
+      activityId: activity._id,
+      branchId: activity.branchId,
+      name: `Station ${i + 1}`,
+      status: 'available',
+    }))
+  );
+
+  return { activity, units };
+};
+
+/**
+ * Create a user and return a bearer token for it. Users without a branch are owners.
+ */
+export const createAuthToken = async (role: UserRole = 'staff', branchId?: string): Promise<string> => {
+  const user = await UserModel.create({
+    username: `${role}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    password: await bcrypt.hash('password', 4),
+    role,
+    name: `Test ${role}`,
+    branchId,
+  });
+
+  return jwt.sign(
+    { userId: user._id.toString(), username: user.username, role: user.role, branchId: user.branchId || null },
+    process.env.JWT_SECRET!,
+    { expiresIn: '1h' }
+  );
+};
+
+/**
+ * Create (or reuse) a customer and return a customer bearer token for it.
+ */
+export const createCustomerToken = async (phone = '9876543210'): Promise<string> => {
+  const customer = await CustomerModel.findOneAndUpdate(
+    { phone },
+    { $setOnInsert: { phone } },
+    { new: true, upsert: true }
+  );
+
+  return jwt.sign(
+    { customerId: customer._id.toString(), phone, role: 'customer' },
+    process.env.JWT_SECRET!,
+    { expiresIn: '1h' }
+  );
+};
+
+/**
+ * Run checkout for a reservation: create the Razorpay order, "pay" it and verify.
+ */
+export const payForReservation = async (reservation: { id: string; amount: number }) => {
+  const orderResponse = await api()
+    .post('/api/payments/create-order')
+    .send({
+      amount: reservation.amount,
+      type: 'reservation',
+      entityId: reservation.id,
+      customerName: 'Test Customer',
+      customerPhone: '9876543210',
+    })
+    .expect(200);
+
+  return api()
+    .post('/api/payments/verify')
+    .send({
+      ...fakeRazorpay.pay(orderResponse.body.orderId),
+      type: 'reservation',
+      entityId: reservation.id,
+    })
+    .expect(200);
+};
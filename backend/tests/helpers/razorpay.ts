@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import type Razorpay from 'razorpay';
+
+interface FakeOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  receipt?: string;
+  notes?: Record<string, string>;
+  status: 'created';
+}
+
+interface FakeRefund {
+  id: string;
+  payment_id: string;
+  amount: number;
+  notes?: Record<string, string>;
+  status: 'processed' | 'pending' | 'failed';
+}
+
+/**
+ * Stand-in for the Razorpay SDK covering the calls the controllers make.
+ * Every call is recorded so tests can assert on what would have reached Razorpay.
+ */
+class FakeRazorpay {
+  orders: FakeOrder[] = [];
+  refunds: FakeRefund[] = [];
+  private sequence = 0;
+  private refundStatus: FakeRefund['status'] = 'processed';
+  private refundError: Error | null = null;
+
+  reset(): void {
+    this.orders = [];
+    this.refunds = [];
+    this.sequence = 0;
+    this.refundStatus = 'processed';
+    this.refundError = null;
+  }
+
+  /** Status Razorpay reports for subsequent refunds (e.g. 'pending' to exercise the webhook). */
+  setRefundStatus(status: FakeRefund['status']): void {
+    this.refundStatus = status;
+  }
+
+  /** Make the next refund call reject, as Razorpay does for over-refunds or settled disputes. */
+  failNextRefund(description = 'The refund amount is invalid'): void {
+    this.refundError = Object.assign(new Error(description), { error: { description } });
+  }
+
+  /** Payment ID plus the signature checkout would hand back for a created order. */
+  pay(orderId: string): { razorpay_order_id: string; razorpay_payment_id: string; razorpay_signature: string } {
+    const paymentId = `pay_test_${++this.sequence}`;
+    const signature = crypto
+      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || '')
+      .update(`${orderId}|${paymentId}`)
+      .digest('hex');
+
+    return {
+      razorpay_order_id: orderId,
+      razorpay_payment_id: paymentId,
+      razorpay_signature: signature,
+    };
+  }
+
+  asClient(): Razorpay {
+    const client = {
+      orders: {
+        create: async (options: Omit<FakeOrder, 'id' | 'status'>) => {
+          const order: FakeOrder = { ...options, id: `order_test_${++this.sequence}`, status: 'created' };
+          this.orders.push(order);
+          return order;
+        },
+      },
+      payments: {
+        refund: async (paymentId: string, options: { amount: number; notes?: Record<string, string> }) => {
+          if (this.refundError) {
+            const error = this.refundError;
+            this.refundError = null;
+            throw error;
+          }
+
+          const refund: FakeRefund = {
+            id: `rfnd_test_${++this.sequence}`,
+            payment_id: paymentId,
+            amount: options.amount,
+            notes: options.notes,
+            status: this.refundStatus,
+          };
+          this.refunds.push(refund);
+          return refund;
+        },
+      },
+    };
+
+    return client as unknown as Razorpay;
+  }
+}
+
+export const fakeRazorpay = new FakeRazorpay();
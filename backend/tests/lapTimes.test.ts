@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, createCustomerToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { autoStartScheduledSessions } from '../src/jobs/sessionManager.js';
+
+const startRace = async (activityId: string, unitId: string, customerName: string, customerPhone: string) => {
+  const response = await api()
+    .post('/api/sessions')
+    .send({ activityId, unitId, customerName, customerPhone, duration: 30 })
+    .expect(201);
+  await autoStartScheduledSessions();
+  return response.body.id as string;
+};
+
+const TELEMETRY_CSV = [
+  'Lap,Lap Time,Track,Car,Valid',
+  '1,1:52.300,Spa,GT3,1',
+  '2,1:49.950,Spa,GT3,0',
+  '3,1:50.400,Spa,GT3,1',
+].join('\n');
+
+describe('lap times', () => {
+  it('keeps manual and imported laps, flags track records and shows them to the customer', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const staffToken = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ type: 'racing', name: 'Sand Crane Racing Track' }, 2);
+    const activityId = activity._id.toString();
+
+    const first = await startRace(activityId, units[0]._id.toString(), 'Asha', '9000000001');
+    const manual = await api()
+      .post(`/api/laps/sessions/${first}`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ track: 'Spa', car: 'GT3', laps: [{ time: '1:51.200' }, { time: 110.8 }] })
+      .expect(201);
+    expect(manual.body.laps.map((l: { lapNumber: number; lapTimeMs: number }) => [l.lapNumber, l.lapTimeMs]))
+      .toEqual([[1, 111200], [2, 110800]]);
+    expect(manual.body.newRecords).toMatchObject([{ driverName: 'Asha', lapTimeMs: 110800 }]);
+
+    await api()
+      .post(`/api/laps/sessions/${first}`)
+      .send({ track: 'Spa', car: 'GT3', laps: [{ time: 100 }] })
+      .expect(401);
+    await api()
+      .post(`/api/laps/sessions/${first}`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ laps: [{ time: 100 }] })
+      .expect(400);
+
+    const second = await startRace(activityId, units[1]._id.toString(), 'Ravi', '9000000002');
+    const imported = await api()
+      .post(`/api/laps/sessions/${second}/import`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ format: 'csv', content: TELEMETRY_CSV })
+      .expect(201);
+    expect(imported.body.laps).toHaveLength(3);
+    // The invalid 1:49.950 doesn't count, so Ravi's 1:50.400 beats Asha's 1:50.800
+    expect(imported.body.newRecords).toMatchObject([{ driverName: 'Ravi', lapTimeMs: 110400 }]);
+    await api()
+      .post(`/api/laps/sessions/${second}/import`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ format: 'csv', content: TELEMETRY_CSV })
+      .expect(409);
+
+    const board = await api().get('/api/laps/leaderboard?track=Spa').expect(200);
+    expect(board.body.entries.map((e: { driverName: string; lapTimeMs: number }) => [e.driverName, e.lapTimeMs]))
+      .toEqual([['Ravi', 110400], ['Asha', 110800]]);
+    const records = await api().get('/api/laps/records').expect(200);
+    expect(records.body).toMatchObject([{ track: 'Spa', car: 'GT3', driverName: 'Ravi', lapTimeMs: 110400, laps: 4 }]);
+
+    const receipt = await api().get(`/api/laps/sessions/${first}`).expect(200);
+    expect(receipt.body.bestLaps).toMatchObject([{ lapTimeMs: 110800, isTrackRecord: false }]);
+
+    const customerToken = await createCustomerToken('9000000002');
+    const history = await api()
+      .get('/api/sessions/phone/9000000002')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(200);
+    expect(history.body[0].laps).toMatchObject({ count: 3, bestLapMs: 110400, track: 'Spa', car: 'GT3' });
+  });
+
+  it('reads JSON exports and only takes laps for racing sessions', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const staffToken = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ type: 'racing', name: 'Sand Crane Racing Track' }, 1);
+    const sessionId = await startRace(activity._id.toString(), units[0]._id.toString(), 'Meera', '9000000003');
+
+    const content = JSON.stringify({
+      track: 'Monza',
+      car: 'F4',
+      laps: [{ lap: 1, lapTimeMs: 98500, driver: 'Kabir' }, { lap: 2, lapTimeMs: 97250 }],
+    });
+    const imported = await api()
+      .post(`/api/laps/sessions/${sessionId}/import`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ format: 'json', content })
+      .expect(201);
+    expect(imported.body.laps.map((l: { driverName: string; track: string }) => [l.driverName, l.track]))
+      .toEqual([['Kabir', 'Monza'], ['Meera', 'Monza']]);
+
+    await api()
+      .post(`/api/laps/sessions/${sessionId}/import`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ format: 'json', content: '{"laps": [{"lap": 3, "time": "fast"}]}', track: 'Monza', car: 'F4' })
+      .expect(400);
+
+    const { activity: snooker, units: tables } = await createActivityWithUnits({ type: 'snooker-standard', name: 'Snooker' }, 1);
+    const frame = await startRace(snooker._id.toString(), tables[0]._id.toString(), 'Meera', '9000000003');
+    await api()
+      .post(`/api/laps/sessions/${frame}`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ track: 'Monza', car: 'F4', laps: [{ time: 95 }] })
+      .expect(400);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, createCustomerToken, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { expireUnpaidHolds } from '../src/jobs/sessionManager.js';
+import { CustomerModel } from '../src/models/Customer.js';
+import { redisUtils } from '../src/config/redis.js';
+
+const PHONE = '9876543210';
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const createReservation = async (activityId: string, unitId: string) => {
+  const response = await api()
+    .post('/api/reservations')
+    .send({
+      activityId,
+      unitId,
+      duration: 60,
+      customerName: 'Test Customer',
+      customerPhone: PHONE,
+    })
+    .expect(201);
+  return response.body as { id: string; amount: number };
+};
+
+describe('loyalty points', () => {
+  it('earns points when a paid session ends and takes them back on refund', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const reservation = await createReservation(activity._id.toString(), units[0]._id.toString());
+    const verify = await payForReservation(reservation);
+    const sessionId = verify.body.sessionId as string;
+
+    await api().post(`/api/sessions/${sessionId}/end`).expect(200);
+
+    // ₹300 at the default 0.05 points per rupee
+    let customer = await CustomerModel.findOne({ phone: PHONE });
+    expect(customer?.loyaltyPoints).toBe(15);
+    expect(customer?.lifetimePoints).toBe(15);
+
+    const staffToken = await createAuthToken('staff');
+    await api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ type: 'session', amount: 100, reasonCode: 'customer_request' })
+      .expect(200);
+
+    customer = await CustomerModel.findOne({ phone: PHONE });
+    expect(customer?.loyaltyPoints).toBe(10);
+
+    const member = await api()
+      .get(`/api/loyalty/members/${PHONE}`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(member.body.balance).toBe(10);
+    expect(member.body.transactions.map((t: { points: number }) => t.points).sort()).toEqual([-5, 15]);
+  });
+
+  it('waits for a sync already under way instead of skipping its own', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const reservation = await createReservation(activity._id.toString(), units[0]._id.toString());
+    const verify = await payForReservation(reservation);
+    const sessionId = verify.body.sessionId as string;
+
+    // Another sync for this session holds the lock while the session ends
+    const lockKey = `loyalty:session:${sessionId}`;
+    await redisUtils.acquireLock(lockKey, '1', 10);
+    setTimeout(() => redisUtils.releaseLock(lockKey), 300);
+
+    await api().post(`/api/sessions/${sessionId}/end`).expect(200);
+    expect((await CustomerModel.findOne({ phone: PHONE }))?.loyaltyPoints).toBe(15);
+  });
+
+  it('applies the tier discount only for the customer signed in with the phone', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({}, 2);
+    await CustomerModel.create({ phone: PHONE, loyaltyPoints: 0, lifetimePoints: 2500 });
+    const token = await createCustomerToken(PHONE);
+
+    const member = await api()
+      .get(`/api/activities/${activity._id}/quote?duration=60&phone=${PHONE}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(member.body.amount).toBe(270);
+    expect(member.body.priceBreakdown.at(-1)).toMatchObject({ amount: -30, discountPercent: 10 });
+
+    // Typing in a member's number neither shows nor borrows their tier
+    const typedIn = await api()
+      .get(`/api/activities/${activity._id}/quote?duration=60&phone=${PHONE}`)
+      .expect(200);
+    expect(typedIn.body.amount).toBe(300);
+    const otherCustomer = await api()
+      .get(`/api/activities/${activity._id}/quote?duration=60&phone=${PHONE}`)
+      .set('Authorization', `Bearer ${await createCustomerToken('9000000000')}`)
+      .expect(200);
+    expect(otherCustomer.body.amount).toBe(300);
+
+    const unsigned = await createReservation(activity._id.toString(), units[0]._id.toString());
+    expect(unsigned.amount).toBe(300);
+
+    const signedIn = await api()
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        activityId: activity._id.toString(),
+        unitId: units[1]._id.toString(),
+        duration: 60,
+        customerName: 'Test Customer',
+        customerPhone: PHONE,
+      })
+      .expect(201);
+    expect(signedIn.body.amount).toBe(270);
+  });
+
+  it('redeems points once per booking and returns them when the hold expires', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const token = await createCustomerToken(PHONE);
+    await CustomerModel.updateOne({ phone: PHONE }, { loyaltyPoints: 100, lifetimePoints: 100 });
+    const reservation = await createReservation(activity._id.toString(), units[0]._id.toString());
+
+    const redeemed = await api()
+      .post('/api/loyalty/redeem')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'reservation', entityId: reservation.id, points: 100 })
+      .expect(200);
+    expect(redeemed.body.amount).toBe(200);
+    expect(redeemed.body.balance).toBe(0);
+
+    await api()
+      .post('/api/loyalty/redeem')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'reservation', entityId: reservation.id, points: 10 })
+      .expect(400);
+
+    clock.advance(16);
+    await expireUnpaidHolds();
+
+    const customer = await CustomerModel.findOne({ phone: PHONE });
+    expect(customer?.loyaltyPoints).toBe(100);
+  });
+
+  it('does not let a customer redeem on someone else\'s booking', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const reservation = await createReservation(activity._id.toString(), units[0]._id.toString());
+    const otherToken = await createCustomerToken('9000000000');
+
+    await api()
+      .post('/api/loyalty/redeem')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ type: 'reservation', entityId: reservation.id, points: 10 })
+      .expect(403);
+  });
+});
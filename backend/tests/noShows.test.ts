@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, createCustomerToken, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { autoStartScheduledSessions, releaseNoShows } from '../src/jobs/sessionManager.js';
+import { SessionModel } from '../src/models/Session.js';
+import { ActivityUnitModel } from '../src/models/Activity.js';
+import { CustomerModel } from '../src/models/Customer.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+const PHONE = '9876543210';
+
+const bookAhead = async (hoursAhead = 3) => {
+  const { activity, units } = await createActivityWithUnits();
+  const start = new Date(Date.now() + hoursAhead * 60 * 60000);
+
+  const reservation = await api()
+    .post('/api/reservations')
+    .send({
+      activityId: activity._id.toString(),
+      unitId: units[0]._id.toString(),
+      startTime: start.toISOString(),
+      duration: 60,
+      customerName: 'Test Customer',
+      customerPhone: PHONE,
+    })
+    .expect(201);
+
+  const verify = await payForReservation(reservation.body);
+  return { activity, unit: units[0], start, reservation: reservation.body, sessionId: verify.body.sessionId as string };
+};
+
+describe('no-shows', () => {
+  it('releases a booked unit nobody checked in for once the grace period ends', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { unit, start, sessionId } = await bookAhead();
+
+    clock.set(start);
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(sessionId))?.status).toBe('active');
+
+    clock.advance(14);
+    await releaseNoShows();
+    expect((await SessionModel.findById(sessionId))?.status).toBe('active');
+
+    clock.advance(2);
+    await releaseNoShows();
+    expect((await SessionModel.findById(sessionId))?.status).toBe('no_show');
+    expect((await ActivityUnitModel.findById(unit._id))?.status).toBe('available');
+    expect((await CustomerModel.findOne({ phone: PHONE }))?.noShowCount).toBe(1);
+  });
+
+  it('keeps a session the customer checked into by scanning the unit', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { unit, start, sessionId } = await bookAhead();
+    const customerToken = await createCustomerToken(PHONE);
+
+    clock.set(new Date(start.getTime() - 45 * 60000));
+    await api()
+      .post('/api/sessions/check-in')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ unitId: unit._id.toString() })
+      .expect(404);
+
+    clock.set(new Date(start.getTime() - 10 * 60000));
+    const checkIn = await api()
+      .post('/api/sessions/check-in')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ unitId: unit._id.toString() })
+      .expect(200);
+    expect(checkIn.body.id).toBe(sessionId);
+
+    clock.set(new Date(start.getTime() + 30 * 60000));
+    await autoStartScheduledSessions();
+    await releaseNoShows();
+    expect((await SessionModel.findById(sessionId))?.status).toBe('active');
+    expect(await CustomerModel.countDocuments({ phone: PHONE, noShowCount: { $gt: 0 } })).toBe(0);
+  });
+
+  it('starts a checked-in session the auto-start job missed', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { start, sessionId } = await bookAhead();
+    const staffToken = await createAuthToken('staff');
+
+    clock.set(new Date(start.getTime() + 10 * 60000));
+    await api()
+      .post(`/api/sessions/${sessionId}/check-in`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({})
+      .expect(200);
+
+    await autoStartScheduledSessions();
+    expect((await SessionModel.findById(sessionId))?.status).toBe('active');
+  });
+
+  it('turns off pay at counter for numbers flagged by an admin', async () => {
+    clock.set(WEEKDAY_NOON);
+    const adminToken = await createAuthToken('admin');
+    const { activity, units } = await createActivityWithUnits();
+
+    const flagged = await api()
+      .put(`/api/customers/${PHONE}/prepayment`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ required: true })
+      .expect(200);
+    expect(flagged.body.prepaymentRequired).toBe(true);
+
+    const reservation = await api()
+      .post('/api/reservations')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: units[0]._id.toString(),
+        duration: 60,
+        customerName: 'Test Customer',
+        customerPhone: PHONE,
+      })
+      .expect(201);
+    expect(reservation.body.prepaymentRequired).toBe(true);
+
+    await api()
+      .post('/api/payments/offline')
+      .send({ type: 'reservation', entityId: reservation.body.id })
+      .expect(403);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, createCustomerToken } from './helpers/fixtures.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { clock } from './helpers/clock.js';
+import { SessionModel } from '../src/models/Session.js';
+import { PackagePurchaseModel } from '../src/models/PackagePurchase.js';
+
+const PHONE = '9876543210';
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+/**
+ * Admin defines a 10-hour pack, the customer buys it and pays through Razorpay.
+ */
+const buyHoursPack = async (activityId: string, customerToken: string) => {
+  const adminToken = await createAuthToken('admin');
+  const pack = await api()
+    .post('/api/packages')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ name: '10 Hours PS5', activityId, kind: 'hours', minutes: 600, price: 2500, validityDays: 30 })
+    .expect(201);
+
+  const purchase = await api()
+    .post(`/api/packages/${pack.body.id}/purchase`)
+    .set('Authorization', `Bearer ${customerToken}`)
+    .send({ customerName: 'Test Customer' })
+    .expect(201);
+  expect(purchase.body.status).toBe('pending_payment');
+
+  const order = await api()
+    .post('/api/payments/create-order')
+    .send({ amount: 2500, type: 'package', entityId: purchase.body.id })
+    .expect(200);
+
+  await api()
+    .post('/api/payments/verify')
+    .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'package', entityId: purchase.body.id })
+    .expect(200);
+
+  return purchase.body.id as string;
+};
+
+const bookFromPack = (activityId: string, unitId: string, packagePurchaseId: string, customerToken?: string) => {
+  const request = api().post('/api/reservations');
+  if (customerToken) {
+    request.set('Authorization', `Bearer ${customerToken}`);
+  }
+  return request.send({
+    activityId,
+    unitId,
+    duration: 60,
+    customerName: 'Test Customer',
+    customerPhone: PHONE,
+    packagePurchaseId,
+  });
+};
+
+describe('prepaid packs', () => {
+  it('books against a pack without a payment and shows the remaining time', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const token = await createCustomerToken(PHONE);
+    const purchaseId = await buyHoursPack(activity._id.toString(), token);
+
+    const wallet = await api().get('/api/packages/wallet').set('Authorization', `Bearer ${token}`).expect(200);
+    expect(wallet.body).toHaveLength(1);
+    expect(wallet.body[0]).toMatchObject({ status: 'active', remainingMinutes: 600 });
+
+    const booking = await bookFromPack(activity._id.toString(), units[0]._id.toString(), purchaseId, token).expect(201);
+    expect(booking.body.status).toBe('payment_confirmed');
+    expect(booking.body.sessionId).toBeDefined();
+
+    const session = await api().get(`/api/sessions/${booking.body.sessionId}`).expect(200);
+    expect(session.body.paymentStatus).toBe('paid');
+    expect(session.body.packagePurchase).toMatchObject({ id: purchaseId, remainingMinutes: 540 });
+    expect(fakeRazorpay.orders).toHaveLength(1);
+  });
+
+  it('only lets the signed-in owner spend a pack', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const token = await createCustomerToken(PHONE);
+    const purchaseId = await buyHoursPack(activity._id.toString(), token);
+
+    await bookFromPack(activity._id.toString(), units[0]._id.toString(), purchaseId).expect(403);
+
+    const otherToken = await createCustomerToken('9000000000');
+    await bookFromPack(activity._id.toString(), units[0]._id.toString(), purchaseId, otherToken).expect(403);
+  });
+
+  it('refunds onto the pack and counts the pack, not the session, as revenue', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const token = await createCustomerToken(PHONE);
+    const purchaseId = await buyHoursPack(activity._id.toString(), token);
+    const booking = await bookFromPack(activity._id.toString(), units[0]._id.toString(), purchaseId, token).expect(201);
+
+    const staffToken = await createAuthToken('staff');
+    await api()
+      .post(`/api/payments/${booking.body.sessionId}/refund`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ type: 'session', amount: 150, reasonCode: 'unit_failure' })
+      .expect(200);
+
+    // Half of the ₹300 hour comes back as half the minutes
+    const session = await SessionModel.findById(booking.body.sessionId);
+    expect(session?.paymentStatus).toBe('partially_refunded');
+    const wallet = await api().get('/api/packages/wallet').set('Authorization', `Bearer ${token}`).expect(200);
+    expect(wallet.body[0].remainingMinutes).toBe(570);
+    expect(fakeRazorpay.refunds).toHaveLength(0);
+
+    const adminToken = await createAuthToken('admin');
+    const revenue = await api()
+      .get('/api/revenue')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(revenue.body.summary).toMatchObject({
+      totalRevenue: 2500,
+      packageRevenue: 2500,
+      sessionRevenue: 0,
+      refundTotal: 0,
+    });
+  });
+
+  it('only activates a pack with the payment taken for it', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity } = await createActivityWithUnits();
+    const token = await createCustomerToken(PHONE);
+    const paidId = await buyHoursPack(activity._id.toString(), token);
+    const paid = await PackagePurchaseModel.findById(paidId);
+
+    // A second purchase that never opened an order can't reuse the first one's payment
+    const unpaid = await api()
+      .post(`/api/packages/${paid!.packageId}/purchase`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ customerName: 'Test Customer' })
+      .expect(201);
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay(paid!.razorpayOrderId!), type: 'package', entityId: unpaid.body.id })
+      .expect(400);
+    expect((await PackagePurchaseModel.findById(unpaid.body.id))?.status).toBe('pending_payment');
+  });
+
+  it('refuses expired packs', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits();
+    const token = await createCustomerToken(PHONE);
+    const purchaseId = await buyHoursPack(activity._id.toString(), token);
+
+    clock.advance(31 * 24 * 60);
+
+    const response = await bookFromPack(activity._id.toString(), units[0]._id.toString(), purchaseId, token).expect(400);
+    expect(response.body.error).toMatch(/expired/);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { autoStartScheduledSessions, autoEndExpiredSessions, escalateUnpaidSessions } from '../src/jobs/sessionManager.js';
+import { SessionModel } from '../src/models/Session.js';
+import { ActivityUnitModel } from '../src/models/Activity.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const startOpenSession = async (activityId: string, unitId: string) => {
+  const response = await api()
+    .post('/api/sessions')
+    .send({
+      activityId,
+      unitId,
+      customerName: 'Regular',
+      customerPhone: '9000000000',
+      billingMode: 'postpaid',
+    })
+    .expect(201);
+  await autoStartScheduledSessions();
+  return response.body.id as string;
+};
+
+describe('postpaid sessions', () => {
+  it('bills actual play time less breaks and keeps the unit until paid', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({ baseRate: 300 }, 1);
+    const sessionId = await startOpenSession(activity._id.toString(), units[0]._id.toString());
+
+    const started = await SessionModel.findById(sessionId);
+    expect(started?.status).toBe('active');
+    expect(started?.endTime).toBeUndefined();
+
+    clock.advance(20);
+    await api().post(`/api/sessions/${sessionId}/pause`).send({}).expect(200);
+    clock.advance(10);
+    await api().post(`/api/sessions/${sessionId}/resume`).send({}).expect(200);
+    clock.advance(30);
+
+    // No end time, so the auto-end job leaves it running
+    await autoEndExpiredSessions();
+    expect((await SessionModel.findById(sessionId))?.status).toBe('active');
+
+    const ended = await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    expect(ended.body).toMatchObject({
+      status: 'awaiting_payment',
+      actualUsageMinutes: 50,
+      billedMinutes: 50,
+      amountDue: 250,
+    });
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('occupied');
+
+    // A player choosing cash only tells staff; the bill stays open until staff collect it
+    const requested = await api()
+      .post('/api/payments/offline')
+      .send({ type: 'session', entityId: sessionId })
+      .expect(200);
+    expect(requested.body.requiresApproval).toBe(true);
+    expect((await SessionModel.findById(sessionId))?.status).toBe('awaiting_payment');
+
+    await api()
+      .post('/api/payments/offline')
+      .set('Authorization', `Bearer ${await createAuthToken('staff')}`)
+      .send({ type: 'session', entityId: sessionId })
+      .expect(200);
+
+    expect((await SessionModel.findById(sessionId))?.status).toBe('ended');
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('available');
+  });
+
+  it('charges the minimum for short games and only takes payment once ended', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({ baseRate: 300, minimumDuration: 30 }, 1);
+    const sessionId = await startOpenSession(activity._id.toString(), units[0]._id.toString());
+
+    await api()
+      .post('/api/payments/offline')
+      .send({ type: 'session', entityId: sessionId })
+      .expect(400);
+
+    clock.advance(10);
+    const ended = await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    expect(ended.body).toMatchObject({ billedMinutes: 30, amountDue: 150 });
+
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(400);
+  });
+
+  it('holds the unit for an unpaid bill until it is due, then hands it to staff to collect', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({ baseRate: 300 }, 1);
+    const sessionId = await startOpenSession(activity._id.toString(), units[0]._id.toString());
+
+    clock.advance(60);
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+
+    // The table can't be booked from under a bill that is still being paid
+    const book = (startTime: string) => api()
+      .post('/api/reservations')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: units[0]._id.toString(),
+        startTime,
+        duration: 60,
+        customerName: 'Next Up',
+        customerPhone: '9000000001',
+      });
+    await book('2026-03-04T13:10:00').expect(409);
+
+    await escalateUnpaidSessions();
+    expect((await SessionModel.findById(sessionId))?.paymentOverdueAt).toBeUndefined();
+
+    // Nobody paid within the 15 minute grace, so staff take over and the unit is free again
+    clock.advance(16);
+    await escalateUnpaidSessions();
+    const overdue = await SessionModel.findById(sessionId);
+    expect(overdue?.status).toBe('awaiting_payment');
+    expect(overdue?.paymentOverdueAt).toBeDefined();
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('available');
+    await book('2026-03-04T13:20:00').expect(201);
+
+    // Collecting it later closes the session without touching the unit
+    await ActivityUnitModel.findByIdAndUpdate(units[0]._id, { status: 'occupied' });
+    await api()
+      .post('/api/payments/offline')
+      .set('Authorization', `Bearer ${await createAuthToken('staff')}`)
+      .send({ type: 'session', entityId: sessionId })
+      .expect(200);
+    expect((await SessionModel.findById(sessionId))?.status).toBe('ended');
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('occupied');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createActivityWithUnits } from './helpers/fixtures.js';
+import { calculateActivityPrice, ruleAppliesAt, PricingRuleInput } from '../src/lib/pricing.js';
+
+const evenings: PricingRuleInput = {
+  name: 'Weekend evenings',
+  daysOfWeek: [5, 6, 0],
+  startTime: '18:00',
+  endTime: '22:00',
+  dateRanges: [],
+  adjustmentType: 'multiplier',
+  multiplier: 2,
+  priority: 1,
+};
+
+const holiday: PricingRuleInput = {
+  name: 'Holi',
+  daysOfWeek: [],
+  startTime: '00:00',
+  endTime: '00:00',
+  dateRanges: [{ start: new Date('2026-03-04T00:00:00+05:30'), end: new Date('2026-03-04T00:00:00+05:30') }],
+  adjustmentType: 'flat_rate',
+  flatRate: 900,
+  priority: 2,
+};
+
+// A server running in UTC still has to price by the business's own clock
+describe('pricing rules on a server outside the business timezone', () => {
+  let serverTimezone: string | undefined;
+
+  beforeEach(() => {
+    serverTimezone = process.env.TZ;
+    process.env.TZ = 'UTC';
+  });
+
+  afterEach(() => {
+    process.env.TZ = serverTimezone;
+  });
+
+  it('reads rule windows and days in business time', () => {
+    // 18:30 on a Friday at the business is 13:00 UTC
+    expect(ruleAppliesAt(evenings, new Date('2026-03-06T18:30:00+05:30'))).toBe(true);
+    expect(ruleAppliesAt(evenings, new Date('2026-03-06T17:30:00+05:30'))).toBe(false);
+    // Just after midnight into Monday is still Sunday evening in UTC
+    expect(ruleAppliesAt(evenings, new Date('2026-03-09T00:30:00+05:30'))).toBe(false);
+  });
+
+  it('reads date ranges as business days', () => {
+    expect(ruleAppliesAt(holiday, new Date('2026-03-04T01:00:00+05:30'))).toBe(true);
+    expect(ruleAppliesAt(holiday, new Date('2026-03-04T23:30:00+05:30'))).toBe(true);
+    expect(ruleAppliesAt(holiday, new Date('2026-03-05T01:00:00+05:30'))).toBe(false);
+  });
+
+  it('splits a booking where a rule starts in business time', async () => {
+    const { activity } = await createActivityWithUnits({ pricingType: 'per-hour', baseRate: 600 });
+
+    const price = calculateActivityPrice(activity, 60, new Date('2026-03-06T17:30:00+05:30'), [evenings]);
+
+    expect(price.lineItems.map(item => [item.label, item.minutes])).toEqual([
+      ['Standard rate', 30],
+      ['Weekend evenings', 30],
+    ]);
+    expect(price.lineItems[1].startTime).toEqual(new Date('2026-03-06T18:00:00+05:30'));
+    expect(price.total).toBe(300 + 600);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { expireQueueClaims } from '../src/jobs/sessionManager.js';
+import { WaitingQueueModel } from '../src/models/WaitingQueue.js';
+import { ReservationModel } from '../src/models/Reservation.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const setUpBusyUnit = async () => {
+  const { activity, units } = await createActivityWithUnits({ minimumDuration: 10 }, 1);
+  await activity.updateOne({ claimWindowMinutes: 3 });
+
+  const session = await api()
+    .post('/api/sessions')
+    .send({
+      activityId: activity._id.toString(),
+      unitId: units[0]._id.toString(),
+      customerName: 'Walk In',
+      customerPhone: '9000000000',
+      duration: 30,
+    })
+    .expect(201);
+
+  return { activity, unit: units[0], sessionId: session.body.id as string };
+};
+
+const joinQueue = async (activityId: string, customerPhone: string, payment: Record<string, string> = {}) => {
+  const response = await api()
+    .post('/api/reservations/join-queue')
+    .send({ activityId, duration: 30, customerName: 'Queued Customer', customerPhone, ...payment })
+    .expect(201);
+  return response.body.reservationId as string;
+};
+
+const queueEntry = (reservationId: string) => WaitingQueueModel.findOne({ reservationId });
+
+describe('queue claims', () => {
+  it('holds a freed unit for the head of the queue until the claim window lapses', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, unit, sessionId } = await setUpBusyUnit();
+    const first = await joinQueue(activity._id.toString(), '9876543210');
+    const second = await joinQueue(activity._id.toString(), '9876543211');
+
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+
+    const called = await queueEntry(first);
+    expect(called?.offeredUnitId?.toString()).toBe(unit._id.toString());
+    expect((await queueEntry(second))?.offeredUnitId).toBeUndefined();
+
+    // Nobody else can walk up and take the held unit
+    await api()
+      .post('/api/sessions')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: unit._id.toString(),
+        customerName: 'Walk In',
+        customerPhone: '9000000001',
+        duration: 30,
+      })
+      .expect(409);
+
+    clock.advance(4);
+    await expireQueueClaims();
+
+    const skipped = await queueEntry(first);
+    expect(skipped?.toObject()).toMatchObject({ status: 'waiting', position: 2, missedClaims: 1 });
+    expect(skipped?.offeredUnitId).toBeUndefined();
+
+    const next = await queueEntry(second);
+    expect(next?.position).toBe(1);
+    expect(next?.offeredUnitId?.toString()).toBe(unit._id.toString());
+  });
+
+  it('only offers a freed unit when the game fits before its next booking', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, unit, sessionId } = await setUpBusyUnit();
+    const advance = await api()
+      .post('/api/reservations')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: unit._id.toString(),
+        startTime: '2026-03-04T13:00:00',
+        duration: 60,
+        customerName: 'Booked Ahead',
+        customerPhone: '9000000009',
+      })
+      .expect(201);
+    await payForReservation(advance.body);
+    const waiting = await joinQueue(activity._id.toString(), '9876543210');
+
+    // The unit reads available at 12:40, but a 30 minute game would run into the 13:00 booking
+    clock.set('2026-03-04T12:40:00');
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    expect((await queueEntry(waiting))?.offeredUnitId).toBeUndefined();
+  });
+
+  it('removes a customer from the queue after missing their turn twice', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, sessionId } = await setUpBusyUnit();
+    const reservationId = await joinQueue(activity._id.toString(), '9876543210');
+
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+
+    clock.advance(4);
+    await expireQueueClaims();
+    expect((await queueEntry(reservationId))?.claimDeadline).toBeDefined();
+
+    clock.advance(4);
+    await expireQueueClaims();
+
+    expect((await queueEntry(reservationId))?.toObject()).toMatchObject({ status: 'expired', refundDue: false });
+    expect((await ReservationModel.findById(reservationId))?.status).toBe('expired');
+  });
+
+  it('keeps an expired entry that paid online on the staff queue until it is refunded', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, sessionId } = await setUpBusyUnit();
+    const reservationId = await joinQueue(activity._id.toString(), '9876543210', {
+      paymentId: 'pay_queue_1',
+      paymentStatus: 'paid',
+    });
+
+    await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    clock.advance(4);
+    await expireQueueClaims();
+    clock.advance(4);
+    await expireQueueClaims();
+
+    const entry = await queueEntry(reservationId);
+    expect(entry?.toObject()).toMatchObject({ status: 'expired', refundDue: true });
+
+    const token = await createAuthToken('staff');
+    const waiting = await api().get('/api/queue/waiting').set('Authorization', `Bearer ${token}`).expect(200);
+    expect(waiting.body).toEqual([expect.objectContaining({ reservationId, status: 'expired', refundDue: true })]);
+
+    await api().post(`/api/queue/waiting/${entry!._id}/refunded`).set('Authorization', `Bearer ${token}`).expect(200);
+    await api().post(`/api/queue/waiting/${entry!._id}/refunded`).set('Authorization', `Bearer ${token}`).expect(404);
+    const after = await api().get('/api/queue/waiting').set('Authorization', `Bearer ${token}`).expect(200);
+    expect(after.body).toHaveLength(0);
+  });
+});
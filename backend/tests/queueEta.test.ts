@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import mongoose from 'mongoose';
+import { api, createActivityWithUnits } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { addToWaitingQueue, estimateQueueWaits } from '../src/lib/queueManager.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const startWalkIn = async (activityId: string, unitId: string, duration: number) => {
+  const response = await api()
+    .post('/api/sessions')
+    .send({
+      activityId,
+      unitId,
+      customerName: 'Walk In',
+      customerPhone: '9000000000',
+      duration,
+    })
+    .expect(201);
+  return response.body.id as string;
+};
+
+const joinQueue = (activityId: string, phone: string, durationMinutes = 60) =>
+  addToWaitingQueue(
+    new mongoose.Types.ObjectId().toString(),
+    activityId,
+    'Test Customer',
+    phone,
+    durationMinutes,
+    300,
+    'offline',
+    'offline'
+  );
+
+describe('queue ETA', () => {
+  it('gives each waiting customer the next unit to come free, plus buffer', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({ minimumDuration: 10, bufferTime: 5 }, 2);
+    const activityId = activity._id.toString();
+    await startWalkIn(activityId, units[0]._id.toString(), 50);
+    await startWalkIn(activityId, units[1]._id.toString(), 20);
+
+    const first = await joinQueue(activityId, '9876543210');
+    const second = await joinQueue(activityId, '9876543211');
+    const third = await joinQueue(activityId, '9876543212');
+
+    const estimates = await estimateQueueWaits(activityId);
+    expect(estimates.get(first._id.toString())?.estimatedWaitMinutes).toBe(25);
+    expect(estimates.get(second._id.toString())?.estimatedWaitMinutes).toBe(55);
+    expect(estimates.get(third._id.toString())?.estimatedWaitMinutes).toBe(90);
+  });
+
+  it('holds the ETA still while the session ahead is paused', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units } = await createActivityWithUnits({ minimumDuration: 10 }, 1);
+    const activityId = activity._id.toString();
+    const sessionId = await startWalkIn(activityId, units[0]._id.toString(), 40);
+    const entry = await joinQueue(activityId, '9876543210');
+
+    clock.advance(10);
+    await api().post(`/api/sessions/${sessionId}/pause`).send({}).expect(200);
+    clock.advance(15);
+
+    const estimates = await estimateQueueWaits(activityId);
+    expect(estimates.get(entry._id.toString())?.estimatedWaitMinutes).toBe(30);
+
+    const status = await api().get(`/api/queue/status/${entry.reservationId.toString()}`).expect(200);
+    expect(status.body).toMatchObject({ inQueue: true, position: 1, estimatedWaitTime: 30 });
+  });
+});
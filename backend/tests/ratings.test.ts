@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+
+const ASHA = { name: 'Asha', phone: '9000000001' };
+const RAVI = { name: 'Ravi', phone: '9000000002' };
+const MEERA = { name: 'Meera', phone: '9000000003' };
+
+const playChallenge = async (
+  activityId: string,
+  players: Array<{ name: string; phone: string }>,
+  winners: string[]
+) => {
+  const staffToken = await createAuthToken('staff');
+  const session = await api()
+    .post('/api/sessions/challenge')
+    .send({ players, activityId, activityType: 'playstation', duration: 60 })
+    .expect(201);
+
+  clock.advance(60);
+  await api().post(`/api/sessions/${session.body.id}/end`).send({}).expect(200);
+  for (const winnerName of winners) {
+    await api()
+      .post(`/api/sessions/${session.body.id}/select-winner`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ winnerName })
+      .expect(200);
+  }
+  clock.advance(10);
+};
+
+const leaderboard = async (period: string) => {
+  const response = await api()
+    .get(`/api/players/leaderboard?activityType=playstation&period=${period}`)
+    .expect(200);
+  return response.body.entries.map((e: { name: string; rating: number; wins: number; ratingChange?: number }) =>
+    [e.name, e.rating, e.wins, e.ratingChange]
+  );
+};
+
+describe('player ratings', () => {
+  it('rates the winner against each loser and keeps head-to-head records', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const { activity } = await createActivityWithUnits({}, 2);
+    const activityId = activity._id.toString();
+
+    await playChallenge(activityId, [ASHA, RAVI], ['Asha']);
+    await playChallenge(activityId, [ASHA, RAVI, MEERA], ['Ravi']);
+
+    expect(await leaderboard('all')).toEqual([
+      ['Ravi', 1218, 1, undefined],
+      ['Asha', 1199, 1, undefined],
+      ['Meera', 1183, 0, undefined],
+    ]);
+
+    const board = await api().get('/api/players/leaderboard?activityType=playstation').expect(200);
+    const asha = await api().get(`/api/players/${board.body.entries[1].playerId}`).expect(200);
+    expect(asha.body.ratings).toMatchObject([{ activityType: 'playstation', rating: 1199, played: 2, wins: 1, losses: 1 }]);
+    // Asha and Meera both lost to Ravi, so they haven't played each other
+    expect(asha.body.headToHead).toEqual([
+      { playerId: board.body.entries[0].playerId, name: 'Ravi', activityType: 'playstation', wins: 1, losses: 1 },
+    ]);
+    expect(asha.body.recentResults.map((r: { won: boolean; ratingChange: number }) => [r.won, r.ratingChange]))
+      .toEqual([[false, -17], [true, 16]]);
+    expect(JSON.stringify(asha.body)).not.toContain(RAVI.phone);
+
+    await api().get('/api/players/leaderboard').expect(400);
+  });
+
+  it('replaces the result when the winner changes and keeps weekly boards to this week', async () => {
+    clock.set('2026-02-25T12:00:00');
+    const { activity } = await createActivityWithUnits({}, 2);
+    const activityId = activity._id.toString();
+    await playChallenge(activityId, [ASHA, RAVI], ['Asha']);
+
+    clock.set('2026-03-04T12:00:00');
+    await playChallenge(activityId, [ASHA, RAVI], ['Asha', 'Ravi']);
+
+    expect(await leaderboard('all')).toEqual([
+      ['Ravi', 1201, 1, undefined],
+      ['Asha', 1199, 1, undefined],
+    ]);
+    expect(await leaderboard('weekly')).toEqual([
+      ['Ravi', 1201, 1, 17],
+      ['Asha', 1199, 0, -17],
+    ]);
+    expect(await leaderboard('monthly')).toEqual(await leaderboard('weekly'));
+  });
+});
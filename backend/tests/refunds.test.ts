@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { api, createActivityWithUnits, createAuthToken, payForReservation } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { SessionModel } from '../src/models/Session.js';
+import { RefundModel } from '../src/models/Refund.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const bookPaidSession = async () => {
+  const { activity, units } = await createActivityWithUnits();
+  const reservation = await api()
+    .post('/api/reservations')
+    .send({
+      activityId: activity._id.toString(),
+      unitId: units[0]._id.toString(),
+      duration: 60,
+      customerName: 'Test Customer',
+      customerPhone: '9876543210',
+    })
+    .expect(201);
+
+  const verify = await payForReservation(reservation.body);
+  return verify.body.sessionId as string;
+};
+
+const sendRefundWebhook = (event: string, refundId: string) => {
+  const body = { event, payload: { payment: { entity: {} }, refund: { entity: { id: refundId } } } };
+  const signature = crypto
+    .createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET || '')
+    .update(JSON.stringify(body))
+    .digest('hex');
+
+  return api().post('/api/payments/webhook').set('X-Razorpay-Signature', signature).send(body);
+};
+
+describe('refunds', () => {
+  it('refunds part of an online payment through Razorpay', async () => {
+    clock.set(WEEKDAY_NOON);
+    const sessionId = await bookPaidSession();
+    const token = await createAuthToken('staff');
+
+    const response = await api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'session', amount: 100, reasonCode: 'unit_failure' })
+      .expect(200);
+
+    expect(response.body.paymentStatus).toBe('partially_refunded');
+    expect(fakeRazorpay.refunds).toHaveLength(1);
+    expect(fakeRazorpay.refunds[0].amount).toBe(10000);
+
+    const session = await SessionModel.findById(sessionId);
+    expect(session?.refundedAmount).toBe(100);
+  });
+
+  it('refuses to refund more than was paid', async () => {
+    clock.set(WEEKDAY_NOON);
+    const sessionId = await bookPaidSession();
+    const token = await createAuthToken('staff');
+
+    await api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'session', amount: 500, reasonCode: 'customer_request' })
+      .expect(400);
+
+    expect(fakeRazorpay.refunds).toHaveLength(0);
+  });
+
+  it('leaves the payment untouched when Razorpay rejects the refund', async () => {
+    clock.set(WEEKDAY_NOON);
+    const sessionId = await bookPaidSession();
+    const token = await createAuthToken('staff');
+    fakeRazorpay.failNextRefund();
+
+    await api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'session', reasonCode: 'session_cancelled' })
+      .expect(502);
+
+    expect((await SessionModel.findById(sessionId))?.paymentStatus).toBe('paid');
+    expect(await RefundModel.countDocuments()).toBe(0);
+  });
+
+  it('never refunds the same payment twice when two refunds race', async () => {
+    clock.set(WEEKDAY_NOON);
+    const sessionId = await bookPaidSession();
+    const token = await createAuthToken('staff');
+
+    const refund = () => api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'session', reasonCode: 'customer_request' });
+    const statuses = (await Promise.all([refund(), refund()])).map(r => r.status).sort();
+
+    expect(statuses[0]).toBe(200);
+    expect([400, 409]).toContain(statuses[1]);
+    expect(fakeRazorpay.refunds).toHaveLength(1);
+  });
+
+  it('puts the payment back when Razorpay reports a pending refund failed', async () => {
+    clock.set(WEEKDAY_NOON);
+    const sessionId = await bookPaidSession();
+    const token = await createAuthToken('staff');
+    fakeRazorpay.setRefundStatus('pending');
+
+    const response = await api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'session', reasonCode: 'session_cancelled' })
+      .expect(200);
+    expect(response.body.paymentStatus).toBe('refunded');
+
+    await sendRefundWebhook('refund.failed', response.body.refunds[0].razorpayRefundId).expect(200);
+
+    const session = await SessionModel.findById(sessionId);
+    expect(session).toMatchObject({ paymentStatus: 'paid', refundedAmount: 0 });
+
+    // With the failed refund out of the way the payment can be refunded again
+    fakeRazorpay.setRefundStatus('processed');
+    await api()
+      .post(`/api/payments/${sessionId}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'session', reasonCode: 'session_cancelled' })
+      .expect(200);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, payForReservation } from './helpers/fixtures.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { clock } from './helpers/clock.js';
+import { SessionModel } from '../src/models/Session.js';
+import { ReservationModel } from '../src/models/Reservation.js';
+import { expireUnpaidHolds } from '../src/jobs/sessionManager.js';
+
+const PHONE = '9876543210';
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+const FIRST_TUESDAY = '2026-03-10T19:00:00';
+
+interface Occurrence {
+  reservationId: string;
+  startTime: string;
+  status: string;
+}
+
+const seriesRequest = (activityId: string, unitIds: string[], extra: Record<string, unknown> = {}) => ({
+  activityId,
+  unitIds,
+  startTime: FIRST_TUESDAY,
+  duration: 120,
+  frequency: 'weekly',
+  occurrences: 4,
+  customerName: 'Tuesday League',
+  customerPhone: PHONE,
+  ...extra,
+});
+
+describe('recurring reservations', () => {
+  it('books every free week and reports the ones that clash', async () => {
+    clock.set(WEEKDAY_NOON);
+    const token = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ type: 'snooker-standard' }, 2);
+    const unitIds = units.map(u => u._id.toString());
+
+    await api()
+      .post('/api/reservations')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: unitIds[1],
+        startTime: '2026-03-17T20:00:00',
+        duration: 60,
+        customerName: 'Someone Else',
+        customerPhone: '9000000000',
+      })
+      .expect(201);
+
+    const preview = await api()
+      .post('/api/reservation-series/preview')
+      .set('Authorization', `Bearer ${token}`)
+      .send(seriesRequest(activity._id.toString(), unitIds))
+      .expect(200);
+    expect(preview.body.occurrences).toHaveLength(4);
+    expect(preview.body.availableCount).toBe(3);
+    expect(preview.body.occurrences[1].conflicts).toEqual([units[1].name]);
+
+    const series = await api()
+      .post('/api/reservation-series')
+      .set('Authorization', `Bearer ${token}`)
+      .send(seriesRequest(activity._id.toString(), unitIds))
+      .expect(201);
+    expect(series.body.status).toBe('active');
+    expect(series.body.skippedOccurrences).toHaveLength(1);
+    expect(new Date(series.body.skippedOccurrences[0].startTime)).toEqual(new Date('2026-03-17T19:00:00'));
+    expect(series.body.occurrences).toHaveLength(6);
+
+    // Each occurrence is paid for like any other reservation
+    const first = await ReservationModel.findById(series.body.occurrences[0].reservationId);
+    await payForReservation({ id: first!._id.toString(), amount: first!.amount });
+    expect(await SessionModel.countDocuments({ reservationId: first!._id, status: 'scheduled' })).toBe(1);
+
+    const cancelled = await api()
+      .post(`/api/reservation-series/${series.body.id}/occurrences/${first!._id}/cancel`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+      .expect(200);
+    const cancelledOccurrence = cancelled.body.occurrences.find((o: Occurrence) => o.reservationId === first!._id.toString());
+    expect(cancelledOccurrence.status).toBe('cancelled');
+    expect(await SessionModel.countDocuments({ reservationId: first!._id, status: 'cancelled' })).toBe(1);
+    expect(cancelled.body.refundedAmount).toBe(first!.amount);
+    expect(fakeRazorpay.refunds.map(r => r.amount)).toEqual([first!.amount * 100]);
+
+    const ended = await api()
+      .post(`/api/reservation-series/${series.body.id}/cancel`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+      .expect(200);
+    expect(ended.body.status).toBe('cancelled');
+    expect(ended.body.cancelledCount).toBe(5);
+    expect(ended.body.refundedAmount).toBe(0);
+    expect(ended.body.occurrences.every((o: Occurrence) => o.status === 'cancelled')).toBe(true);
+  });
+
+  it('schedules every occurrence once an up-front series is paid and refunds them if cancelled', async () => {
+    clock.set(WEEKDAY_NOON);
+    const token = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ type: 'snooker-standard' }, 2);
+
+    const series = await api()
+      .post('/api/reservation-series')
+      .set('Authorization', `Bearer ${token}`)
+      .send(seriesRequest(activity._id.toString(), units.map(u => u._id.toString()), {
+        frequency: 'biweekly',
+        occurrences: undefined,
+        endDate: '2026-04-10T00:00:00',
+        billing: 'upfront',
+      }))
+      .expect(201);
+    expect(series.body.status).toBe('pending_payment');
+    expect(series.body.occurrences).toHaveLength(6);
+
+    // A payment for some other order doesn't book the series
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay('order_elsewhere'), type: 'series', entityId: series.body.id })
+      .expect(400);
+
+    const order = await api()
+      .post('/api/payments/create-order')
+      .send({ amount: series.body.amount, type: 'series', entityId: series.body.id })
+      .expect(200);
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'series', entityId: series.body.id })
+      .expect(200);
+
+    const reservationIds = series.body.occurrences.map((o: Occurrence) => o.reservationId);
+    expect(await SessionModel.countDocuments({ reservationId: { $in: reservationIds }, status: 'scheduled' })).toBe(6);
+
+    // Cancelling refunds each upcoming date's share of the single payment
+    const ended = await api()
+      .post(`/api/reservation-series/${series.body.id}/cancel`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+      .expect(200);
+    expect(ended.body).toMatchObject({ cancelledCount: 6, refundedAmount: series.body.amount, refundFailures: 0 });
+    expect(await SessionModel.countDocuments({ reservationId: { $in: reservationIds }, paymentStatus: 'refunded' })).toBe(6);
+  });
+
+  it('lets an unpaid up-front series lapse', async () => {
+    clock.set(WEEKDAY_NOON);
+    const token = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ type: 'snooker-standard' }, 1);
+
+    const series = await api()
+      .post('/api/reservation-series')
+      .set('Authorization', `Bearer ${token}`)
+      .send(seriesRequest(activity._id.toString(), [units[0]._id.toString()], { billing: 'upfront' }))
+      .expect(201);
+
+    clock.advance(20);
+    await expireUnpaidHolds();
+
+    const lapsed = await api()
+      .get(`/api/reservation-series/${series.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(lapsed.body.status).toBe('expired');
+    expect(lapsed.body.occurrences.every((o: Occurrence) => o.status === 'expired')).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { api, createAuthToken } from './helpers/fixtures.js';
+import { getRedis } from '../src/config/redis.js';
+import { instanceId, runJob, runJobIfLeader, getSchedulerStatus } from '../src/jobs/scheduler.js';
+
+describe('scheduler', () => {
+  it('takes the leader lock and runs jobs when no other instance holds it', async () => {
+    expect(await runJobIfLeader('reservation-expiry')).toBe(true);
+
+    const status = await getSchedulerStatus();
+    expect(status.leaderId).toBe(instanceId);
+    expect(status.isLeader).toBe(true);
+
+    const job = status.jobs.find(j => j.name === 'reservation-expiry');
+    expect(job?.lastRunBy).toBe(instanceId);
+    expect(job?.lastSuccessAt).not.toBeNull();
+  });
+
+  it('skips jobs while another instance is leader', async () => {
+    await getRedis().set('scheduler:leader', 'other-instance', 'EX', 30);
+
+    expect(await runJobIfLeader('auto-start')).toBe(false);
+
+    const status = await getSchedulerStatus();
+    expect(status.isLeader).toBe(false);
+    expect(status.jobs.find(j => j.name === 'auto-start')?.lastRunAt).toBeNull();
+  });
+
+  it('rejects unknown job names', async () => {
+    await expect(runJob('does-not-exist')).rejects.toThrow('Unknown job');
+  });
+
+  it('reports job status to admins only', async () => {
+    await runJob('redis-cleanup');
+
+    const staffToken = await createAuthToken('staff');
+    await api().get('/api/scheduler/status').set('Authorization', `Bearer ${staffToken}`).expect(403);
+
+    const adminToken = await createAuthToken('admin');
+    const response = await api()
+      .get('/api/scheduler/status')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.jobs).toHaveLength(10);
+    expect(response.body.jobs.map((j: { name: string }) => j.name)).toEqual(expect.arrayContaining([
+      'no-show-release',
+      'postpaid-payment-escalation',
+    ]));
+    expect(response.body.jobs.find((j: { name: string }) => j.name === 'redis-cleanup').lastRunAt).not.toBeNull();
+  });
+});
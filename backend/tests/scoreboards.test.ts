@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { SessionModel } from '../src/models/Session.js';
+import { PlayerProfileModel } from '../src/models/PlayerProfile.js';
+
+const PLAYERS = [
+  { name: 'Asha', phone: '9000000001' },
+  { name: 'Ravi', phone: '9000000002' },
+];
+
+// The starter's voting link, which lets them keep score from their phone
+let voteToken = '';
+
+const startSnookerChallenge = async () => {
+  const { activity } = await createActivityWithUnits({ type: 'snooker-standard', name: 'Snooker' }, 1);
+  const response = await api()
+    .post('/api/sessions/challenge')
+    .send({ players: PLAYERS, activityId: activity._id.toString(), activityType: activity.type, duration: 60 })
+    .expect(201);
+  voteToken = response.body.voteLinks[0].token;
+  return response.body.id as string;
+};
+
+const scoring = (path: string) => api().post(path).set('X-Vote-Token', voteToken);
+
+const score = (sessionId: string, type: string, player: string, points: number) =>
+  scoring(`/api/sessions/${sessionId}/scoreboard/events`).send({ type, player, points });
+
+describe('snooker scoreboards', () => {
+  it('scores a best-of-three and makes the match winner the challenge winner', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const sessionId = await startSnookerChallenge();
+
+    await scoring(`/api/sessions/${sessionId}/scoreboard`).send({ bestOf: 2 }).expect(400);
+    await scoring(`/api/sessions/${sessionId}/scoreboard`).send({ bestOf: 3 }).expect(201);
+    await scoring(`/api/sessions/${sessionId}/scoreboard`).send({ bestOf: 3 }).expect(409);
+
+    await score(sessionId, 'break', 'Asha', 45).expect(200);
+    await score(sessionId, 'points', 'Ravi', 7).expect(200);
+    await score(sessionId, 'foul', 'Ravi', 3).expect(400);
+    await score(sessionId, 'points', 'Meera', 1).expect(400);
+    const afterFoul = await score(sessionId, 'foul', 'Ravi', 4).expect(200);
+    expect(afterFoul.body.frames[0]).toMatchObject({ points: [49, 7], highestBreaks: [45, 0], fouls: [0, 1] });
+    await scoring(`/api/sessions/${sessionId}/scoreboard/frames/end`).send({}).expect(200);
+
+    await score(sessionId, 'break', 'Ravi', 60).expect(200);
+    await score(sessionId, 'points', 'Asha', 1).expect(200);
+    const undone = await scoring(`/api/sessions/${sessionId}/scoreboard/undo`).expect(200);
+    expect(undone.body.frames[1].points).toEqual([0, 60]);
+    await scoring(`/api/sessions/${sessionId}/scoreboard/frames/end`).send({}).expect(200);
+
+    await score(sessionId, 'break', 'Asha', 72).expect(200);
+    const decided = await scoring(`/api/sessions/${sessionId}/scoreboard/frames/end`).send({}).expect(200);
+    expect(decided.body).toMatchObject({ framesWon: [2, 1], highestBreaks: [72, 60], winner: 'Asha', challengeWinner: 'Asha' });
+    expect(decided.body.frames).toHaveLength(3);
+
+    await score(sessionId, 'points', 'Ravi', 1).expect(400);
+    expect((await SessionModel.findById(sessionId))?.challengeData?.winner).toBe('Asha');
+    const asha = await PlayerProfileModel.findOne({ phone: PLAYERS[0].phone });
+    expect(asha?.ratings[0]).toMatchObject({ activityType: 'snooker-standard', rating: 1216, wins: 1 });
+
+    clock.advance(60);
+    const ended = await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    expect(ended.body.requiresWinnerSelection).toBeUndefined();
+  });
+
+  it('gives an open-ended match to whoever won more frames when the session ends', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const sessionId = await startSnookerChallenge();
+    await scoring(`/api/sessions/${sessionId}/scoreboard`).send({}).expect(201);
+
+    await score(sessionId, 'break', 'Ravi', 30).expect(200);
+    await scoring(`/api/sessions/${sessionId}/scoreboard/frames/end`).send({}).expect(200);
+    // The frame in play when time runs out doesn't count
+    await score(sessionId, 'break', 'Asha', 50).expect(200);
+    await scoring(`/api/sessions/${sessionId}/scoreboard/frames/end`).send({ winner: 'Meera' }).expect(400);
+
+    clock.advance(60);
+    const ended = await api().post(`/api/sessions/${sessionId}/end`).send({}).expect(200);
+    expect(ended.body.requiresWinnerSelection).toBeUndefined();
+
+    const session = await api().get(`/api/sessions/${sessionId}`).expect(200);
+    expect(session.body.scoreboard).toMatchObject({ framesWon: [0, 1], winner: 'Ravi' });
+    expect((await SessionModel.findById(sessionId))?.challengeData?.winner).toBe('Ravi');
+  });
+
+  it('only lets the players or staff keep score', async () => {
+    clock.set('2026-03-04T12:00:00');
+    const sessionId = await startSnookerChallenge();
+
+    await api().post(`/api/sessions/${sessionId}/scoreboard`).send({}).expect(403);
+    await api().post(`/api/sessions/${sessionId}/scoreboard`).set('X-Vote-Token', 'forged').send({}).expect(403);
+
+    const staffToken = await createAuthToken('staff');
+    await api()
+      .post(`/api/sessions/${sessionId}/scoreboard`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({})
+      .expect(201);
+    await api()
+      .post(`/api/sessions/${sessionId}/scoreboard/frames/end`)
+      .send({ winner: 'Asha' })
+      .expect(403);
+    expect((await SessionModel.findById(sessionId))?.scoreboard?.frames[0].winner).toBeUndefined();
+  });
+
+  it('only scores snooker', async () => {
+    const { activity } = await createActivityWithUnits({}, 1);
+    const session = await api()
+      .post('/api/sessions/challenge')
+      .send({ players: PLAYERS, activityId: activity._id.toString(), activityType: activity.type, duration: 60 })
+      .expect(201);
+
+    voteToken = session.body.voteLinks[0].token;
+    await scoring(`/api/sessions/${session.body.id}/scoreboard`).send({}).expect(400);
+  });
+});
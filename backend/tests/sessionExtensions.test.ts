@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, createCustomerToken } from './helpers/fixtures.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { clock } from './helpers/clock.js';
+import { autoStartScheduledSessions, expireUnpaidHolds } from '../src/jobs/sessionManager.js';
+import { SessionModel } from '../src/models/Session.js';
+import { SessionExtensionModel } from '../src/models/SessionExtension.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+const PHONE = '9876543210';
+
+const startWalkIn = async () => {
+  const { activity, units } = await createActivityWithUnits({}, 2);
+  const response = await api()
+    .post('/api/sessions')
+    .send({
+      activityId: activity._id.toString(),
+      unitId: units[0]._id.toString(),
+      customerName: 'Walk In',
+      customerPhone: PHONE,
+      duration: 30,
+    })
+    .expect(201);
+  await autoStartScheduledSessions();
+  return { activity, units, sessionId: response.body.id as string };
+};
+
+const requestExtension = (sessionId: string, token?: string) => {
+  const request = api().post(`/api/sessions/${sessionId}/extend`);
+  return (token ? request.set('Authorization', `Bearer ${token}`) : request).send({ additionalMinutes: 30 });
+};
+
+describe('session extensions', () => {
+  it('only lets the customer or staff add time', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { sessionId } = await startWalkIn();
+
+    await requestExtension(sessionId).expect(403);
+    await requestExtension(sessionId, await createCustomerToken('9000000009')).expect(403);
+    await requestExtension(sessionId, await createCustomerToken(PHONE)).expect(201);
+    await requestExtension(sessionId, await createAuthToken('staff')).expect(201);
+  });
+
+  it('refuses to apply an extension once its window has been booked', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { activity, units, sessionId } = await startWalkIn();
+
+    const requested = await requestExtension(sessionId, await createCustomerToken(PHONE)).expect(201);
+    const extension = requested.body.extension;
+
+    // The other table is free until someone books it for straight after this session
+    await api()
+      .post('/api/reservations')
+      .send({
+        activityId: activity._id.toString(),
+        unitId: units[1]._id.toString(),
+        startTime: '2026-03-04T12:30:00',
+        duration: 60,
+        customerName: 'Next Up',
+        customerPhone: '9000000001',
+      })
+      .expect(201);
+
+    // Moving the session there leaves the extension's hold on the first table
+    await api()
+      .post(`/api/sessions/${sessionId}/transfer`)
+      .set('Authorization', `Bearer ${await createAuthToken('staff')}`)
+      .send({ unitId: units[1]._id.toString(), reason: 'Cloth torn' })
+      .expect(200);
+
+    const order = await api()
+      .post('/api/payments/create-order')
+      .send({ amount: extension.amount, type: 'extension', entityId: extension.id })
+      .expect(200);
+    const payment = fakeRazorpay.pay(order.body.orderId);
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...payment, type: 'extension', entityId: extension.id })
+      .expect(409);
+
+    const session = await SessionModel.findById(sessionId);
+    expect(session?.endTime).toEqual(new Date('2026-03-04T12:30:00'));
+    expect(session?.extended).toBeFalsy();
+
+    // The money taken for it goes straight back
+    const refunded = await SessionExtensionModel.findById(extension.id);
+    expect(refunded?.status).toBe('refunded');
+    expect(refunded?.paymentId).toBe(payment.razorpay_payment_id);
+    expect(fakeRazorpay.refunds).toEqual([
+      expect.objectContaining({ payment_id: payment.razorpay_payment_id, amount: extension.amount * 100 }),
+    ]);
+  });
+
+  it('refunds a payment that lands after the extension hold expired', async () => {
+    clock.set(WEEKDAY_NOON);
+    const { sessionId } = await startWalkIn();
+
+    const requested = await requestExtension(sessionId, await createCustomerToken(PHONE)).expect(201);
+    const extension = requested.body.extension;
+    const order = await api()
+      .post('/api/payments/create-order')
+      .send({ amount: extension.amount, type: 'extension', entityId: extension.id })
+      .expect(200);
+
+    clock.advance(11);
+    await expireUnpaidHolds();
+
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'extension', entityId: extension.id })
+      .expect(409);
+    expect((await SessionExtensionModel.findById(extension.id))?.status).toBe('refunded');
+    expect(fakeRazorpay.refunds).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { autoStartScheduledSessions } from '../src/jobs/sessionManager.js';
+import { SessionModel } from '../src/models/Session.js';
+import { ActivityUnitModel } from '../src/models/Activity.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+const startWalkIn = async (activityId: string, unitId: string, duration: number) => {
+  const response = await api()
+    .post('/api/sessions')
+    .send({
+      activityId,
+      unitId,
+      customerName: 'Walk In',
+      customerPhone: '9000000000',
+      duration,
+    })
+    .expect(201);
+  await autoStartScheduledSessions();
+  return response.body.id as string;
+};
+
+describe('session transfers', () => {
+  it('moves a running session to a premium table and charges the difference for the time left', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const { activity: standard, units: standardUnits } = await createActivityWithUnits(
+      { type: 'snooker-standard', name: 'Standard Table', baseRate: 300 },
+      1
+    );
+    const { units: premiumUnits } = await createActivityWithUnits(
+      { type: 'snooker-premium', name: 'Premium Table', baseRate: 600 },
+      1
+    );
+
+    const sessionId = await startWalkIn(standard._id.toString(), standardUnits[0]._id.toString(), 60);
+    const before = await SessionModel.findById(sessionId);
+    expect(before?.status).toBe('active');
+
+    clock.advance(20);
+    const response = await api()
+      .post(`/api/sessions/${sessionId}/transfer`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ unitId: premiumUnits[0]._id.toString(), reason: 'Cue tip broke' })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      unitId: premiumUnits[0]._id.toString(),
+      activityType: 'snooker-premium',
+      remainingMinutes: 40,
+      priceDifference: 200,
+      amount: 500,
+    });
+
+    const moved = await SessionModel.findById(sessionId);
+    expect(moved?.status).toBe('active');
+    expect(moved?.endTime?.getTime()).toBe(before?.endTime?.getTime());
+    expect(moved?.transferHistory).toHaveLength(1);
+    expect(moved?.transferHistory[0].fromUnitId.toString()).toBe(standardUnits[0]._id.toString());
+    expect(moved?.transferHistory[0].reason).toBe('Cue tip broke');
+
+    expect((await ActivityUnitModel.findById(standardUnits[0]._id))?.status).toBe('maintenance');
+    expect((await ActivityUnitModel.findById(premiumUnits[0]._id))?.status).toBe('occupied');
+  });
+
+  it('keeps a paused session paused and refuses incompatible or busy units', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ minimumDuration: 10 }, 3);
+    const { units: racingUnits } = await createActivityWithUnits({ type: 'racing', name: 'Racing Sim' }, 1);
+    const activityId = activity._id.toString();
+
+    const sessionId = await startWalkIn(activityId, units[0]._id.toString(), 40);
+    await startWalkIn(activityId, units[1]._id.toString(), 40);
+
+    clock.advance(10);
+    await api().post(`/api/sessions/${sessionId}/pause`).send({}).expect(200);
+
+    await api()
+      .post(`/api/sessions/${sessionId}/transfer`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ unitId: racingUnits[0]._id.toString() })
+      .expect(400);
+
+    await api()
+      .post(`/api/sessions/${sessionId}/transfer`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ unitId: units[1]._id.toString() })
+      .expect(400);
+
+    clock.advance(5);
+    const response = await api()
+      .post(`/api/sessions/${sessionId}/transfer`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ unitId: units[2]._id.toString() })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ status: 'paused', remainingMinutes: 30, priceDifference: 0 });
+    const moved = await SessionModel.findById(sessionId);
+    expect(moved?.pauseHistory).toHaveLength(1);
+    expect((await ActivityUnitModel.findById(units[0]._id))?.status).toBe('maintenance');
+  });
+});
@@ -0,0 +1,23 @@
+import { beforeAll, afterAll, afterEach } from 'vitest';
+import { startTestEnvironment, stopTestEnvironment, resetTestEnvironment } from './helpers/environment.js';
+import { clock } from './helpers/clock.js';
+
+process.env.NODE_ENV = 'test';
+// Fixture times like '2026-03-04T12:00:00' are the business's own local time
+process.env.TZ = 'Asia/Kolkata';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.RAZORPAY_KEY_ID = 'rzp_test_key';
+process.env.RAZORPAY_KEY_SECRET = 'rzp_test_secret';
+
+beforeAll(async () => {
+  await startTestEnvironment();
+});
+
+afterEach(async () => {
+  clock.restore();
+  await resetTestEnvironment();
+});
+
+afterAll(async () => {
+  await stopTestEnvironment();
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken, createCustomerToken } from './helpers/fixtures.js';
+import { clock } from './helpers/clock.js';
+import { setSmsSender } from '../src/lib/sms.js';
+import { sweepSmokingRooms } from '../src/jobs/sessionManager.js';
+
+let texted: Array<{ phone: string; message: string }> = [];
+// The token each phone was handed when it scanned in, as the page keeps it
+let visitTokens: Record<string, string> = {};
+
+const createRoom = (capacity: number) =>
+  createActivityWithUnits({ type: 'smoking-room', name: 'Smoking Room', pricingType: 'per-minute', baseRate: 0, capacity }, 1);
+
+const enter = async (phone: string, name?: string) => {
+  const response = await api()
+    .post('/api/smoking-room/enter')
+    .set('X-Visit-Token', visitTokens[phone] || '')
+    .send({ phone, name, ageConfirmed: true })
+    .expect(201);
+  if (response.body.visitToken) {
+    visitTokens[phone] = response.body.visitToken;
+  }
+  return response;
+};
+
+const exit = (phone: string) =>
+  api().post('/api/smoking-room/exit').set('X-Visit-Token', visitTokens[phone] || '').send({ phone });
+
+const getRoom = (phone: string) =>
+  api().get(`/api/smoking-room?phone=${phone}`).set('X-Visit-Token', visitTokens[phone] || '');
+
+describe('smoking room', () => {
+  beforeEach(() => {
+    texted = [];
+    visitTokens = {};
+    setSmsSender({
+      send: async (phone, message) => {
+        texted.push({ phone, message });
+      },
+    });
+  });
+
+  afterEach(() => {
+    setSmsSender(null);
+  });
+
+  it('admits up to capacity, queues the rest and calls them in as people leave', async () => {
+    clock.set('2026-05-02T21:00:00');
+    await createRoom(2);
+
+    await api().post('/api/smoking-room/enter').send({ phone: '9000000001', ageConfirmed: false }).expect(400);
+
+    expect((await enter('9000000001', 'Asha')).body.visit.status).toBe('inside');
+    expect((await enter('9000000002', 'Ravi')).body.visit.status).toBe('inside');
+    const queued = await enter('9000000003', 'Meera');
+    expect(queued.body).toMatchObject({ occupancy: 2, available: 0, queueLength: 1 });
+    expect(queued.body.visit).toMatchObject({ status: 'waiting', position: 1 });
+
+    // Scanning again while inside changes nothing
+    expect((await enter('9000000001')).body.visit.status).toBe('inside');
+
+    await exit('9000000001').expect(200);
+    expect(texted.map(t => t.phone)).toEqual(['9000000003']);
+    const status = await getRoom('9000000003').expect(200);
+    expect(status.body).toMatchObject({ occupancy: 1, held: 1, available: 0, queueLength: 0 });
+    expect(status.body.visit.status).toBe('called');
+
+    // A newcomer can't take the spot kept for Meera
+    expect((await enter('9000000004', 'Kabir')).body.visit.status).toBe('waiting');
+    expect((await enter('9000000003')).body.visit.status).toBe('inside');
+
+    await exit('9000000005').expect(404);
+
+    const staffToken = await createAuthToken('staff');
+    const occupants = await api()
+      .get('/api/smoking-room/occupants')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(occupants.body.visits.map((v: { customerName: string; status: string }) => [v.customerName, v.status]))
+      .toEqual([['Ravi', 'inside'], ['Meera', 'inside'], ['Kabir', 'waiting']]);
+
+    const ravi = occupants.body.visits[0].id;
+    await api().post(`/api/smoking-room/visits/${ravi}/check-out`).expect(401);
+    await api()
+      .post(`/api/smoking-room/visits/${ravi}/check-out`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(texted.map(t => t.phone)).toEqual(['9000000003', '9000000004']);
+
+    const confirmations = await api()
+      .get('/api/smoking-room/age-confirmations?date=2026-05-02')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(confirmations.body.map((c: { customerPhone: string }) => c.customerPhone).sort())
+      .toEqual(['9000000001', '9000000002', '9000000003', '9000000004']);
+    expect(confirmations.body[0].confirmedAt).toBeDefined();
+  });
+
+  it('moves on from called customers who never scan in and lets out forgotten visitors', async () => {
+    clock.set('2026-05-02T21:00:00');
+    await createRoom(1);
+
+    await enter('9000000001', 'Asha');
+    await enter('9000000002', 'Ravi');
+    await enter('9000000003', 'Meera');
+    await exit('9000000001').expect(200);
+
+    // Ravi's 5 minute claim window runs out, so the spot goes to Meera
+    clock.advance(6);
+    await sweepSmokingRooms();
+    expect((await getRoom('9000000002').expect(200)).body.visit).toBeNull();
+    expect((await enter('9000000003')).body.visit.status).toBe('inside');
+
+    // Meera never scans out
+    clock.advance(31);
+    await sweepSmokingRooms();
+    const status = await getRoom('9000000003').expect(200);
+    expect(status.body).toMatchObject({ occupancy: 0, available: 1 });
+    expect(status.body.visit).toBeNull();
+  });
+
+  it('keeps a visit to the phone that scanned in or the signed-in customer', async () => {
+    clock.set('2026-05-02T21:00:00');
+    await createRoom(1);
+
+    await enter('9000000001', 'Asha');
+    await enter('9000000002', 'Ravi');
+
+    // Someone who only knows Ravi's number can't see his place, take his spot or drop him from the queue
+    expect((await api().get('/api/smoking-room?phone=9000000002').expect(200)).body.visit).toBeNull();
+    await api().post('/api/smoking-room/exit').send({ phone: '9000000001' }).expect(403);
+    await api().post('/api/smoking-room/enter').send({ phone: '9000000002', ageConfirmed: true }).expect(403);
+
+    // Asha signs in on another phone and scans out from there
+    await api()
+      .post('/api/smoking-room/exit')
+      .set('Authorization', `Bearer ${await createCustomerToken('9000000001')}`)
+      .send({ phone: '9000000001' })
+      .expect(200);
+    expect((await getRoom('9000000002').expect(200)).body.visit.status).toBe('called');
+  });
+
+  it('lets only one of two simultaneous scans into the last spot', async () => {
+    clock.set('2026-05-02T21:00:00');
+    await createRoom(1);
+
+    const [first, second] = await Promise.all([enter('9000000001'), enter('9000000002')]);
+    expect([first.body.visit.status, second.body.visit.status].sort()).toEqual(['inside', 'waiting']);
+  });
+});
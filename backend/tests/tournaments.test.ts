@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { api, createActivityWithUnits, createAuthToken } from './helpers/fixtures.js';
+import { fakeRazorpay } from './helpers/razorpay.js';
+import { clock } from './helpers/clock.js';
+import { SessionModel } from '../src/models/Session.js';
+import { setSmsSender } from '../src/lib/sms.js';
+
+const WEEKDAY_NOON = '2026-03-04T12:00:00';
+
+interface BracketMatch {
+  id: string;
+  round: number;
+  position: number;
+  player1?: string;
+  player2?: string;
+  winner?: string;
+  status: string;
+  sessionId?: string;
+}
+
+let texted: Array<{ phone: string; message: string }> = [];
+
+// The token from the last voting link texted to this phone
+const voteToken = (phone: string) => {
+  const message = texted.filter(sms => sms.phone === phone && sms.message.includes('token=')).at(-1)?.message;
+  return message?.match(/token=([\w-]+)/)?.[1];
+};
+
+const register = (tournamentId: string, name: string, phone: string) =>
+  api().post(`/api/tournaments/${tournamentId}/register`).send({ name, phone }).expect(201);
+
+const playMatch = async (tournamentId: string, matchId: string, unitId: string, winnerName: string, staffToken: string) => {
+  const scheduled = await api()
+    .post(`/api/tournaments/${tournamentId}/matches/${matchId}/schedule`)
+    .set('Authorization', `Bearer ${staffToken}`)
+    .send({ unitId })
+    .expect(200);
+
+  clock.advance(30);
+  await api().post(`/api/sessions/${scheduled.body.sessionId}/end`).send({}).expect(200);
+  await api()
+    .post(`/api/sessions/${scheduled.body.sessionId}/select-winner`)
+    .set('Authorization', `Bearer ${staffToken}`)
+    .send({ winnerName })
+    .expect(200);
+  return scheduled.body.sessionId as string;
+};
+
+describe('tournaments', () => {
+  beforeEach(() => {
+    texted = [];
+    setSmsSender({
+      send: async (phone, message) => {
+        texted.push({ phone, message });
+      },
+    });
+  });
+
+  afterEach(() => {
+    setSmsSender(null);
+  });
+
+  it('seeds paid players into a knockout, gives the top seed a bye and advances winners to a champion', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({ type: 'snooker-standard', name: 'Snooker' }, 1);
+    const unitId = units[0]._id.toString();
+
+    const created = await api()
+      .post('/api/tournaments')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({
+        name: 'March Cup',
+        activityId: activity._id.toString(),
+        format: 'single_elimination',
+        entryFee: 100,
+        maxPlayers: 8,
+        startsAt: '2026-03-04T18:00:00',
+      })
+      .expect(201);
+    const tournamentId = created.body.id;
+
+    const asha = await register(tournamentId, 'Asha', '9000000001');
+    const ravi = await register(tournamentId, 'Ravi', '9000000002');
+    const meera = await register(tournamentId, 'Meera', '9000000003');
+    const kabir = await register(tournamentId, 'Kabir', '9000000004');
+    await api().post(`/api/tournaments/${tournamentId}/register`).send({ name: 'asha', phone: '9000000005' }).expect(409);
+
+    const order = await api()
+      .post('/api/payments/create-order')
+      .send({ amount: 100, type: 'tournament_entry', entityId: asha.body.playerId })
+      .expect(200);
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'tournament_entry', entityId: asha.body.playerId })
+      .expect(200);
+
+    // Another entry's order doesn't pay for Kabir, and choosing cash waits for staff
+    await api()
+      .post('/api/payments/verify')
+      .send({ ...fakeRazorpay.pay(order.body.orderId), type: 'tournament_entry', entityId: kabir.body.playerId })
+      .expect(400);
+    const counter = await api()
+      .post('/api/payments/offline')
+      .send({ type: 'tournament_entry', entityId: kabir.body.playerId })
+      .expect(200);
+    expect(counter.body.requiresApproval).toBe(true);
+
+    for (const entry of [ravi, meera]) {
+      await api()
+        .post('/api/payments/offline')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ type: 'tournament_entry', entityId: entry.body.playerId })
+        .expect(200);
+    }
+
+    const started = await api()
+      .post(`/api/tournaments/${tournamentId}/start`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+
+    expect(started.body.status).toBe('in_progress');
+    expect(started.body.playerCount).toBe(3);
+    expect(started.body.players.map((p: { name: string }) => p.name)).toEqual(['Asha', 'Ravi', 'Meera']);
+    const [bye, semi, final] = started.body.matches as BracketMatch[];
+    expect(bye).toMatchObject({ round: 1, player1: 'Asha', status: 'bye', winner: 'Asha' });
+    expect(semi).toMatchObject({ round: 1, player1: 'Ravi', player2: 'Meera', status: 'pending' });
+    expect(final).toMatchObject({ round: 2, player1: 'Asha' });
+
+    const semiSessionId = await playMatch(tournamentId, semi.id, unitId, 'Meera', staffToken);
+    const semiSession = await SessionModel.findById(semiSessionId);
+    expect(semiSession?.isChallengeSession).toBe(true);
+    expect(semiSession?.amount).toBe(0);
+
+    let bracket = await api().get(`/api/tournaments/${tournamentId}`).expect(200);
+    expect(bracket.body.matches[2]).toMatchObject({ player1: 'Asha', player2: 'Meera', status: 'pending' });
+
+    const scheduled = await api()
+      .post(`/api/tournaments/${tournamentId}/matches/${final.id}/schedule`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ unitId })
+      .expect(200);
+    clock.advance(30);
+    await api().post(`/api/sessions/${scheduled.body.sessionId}/end`).send({}).expect(200);
+    for (const phone of ['9000000001', '9000000003']) {
+      await api()
+        .post(`/api/sessions/${scheduled.body.sessionId}/vote-winner`)
+        .send({ token: voteToken(phone), winnerName: 'Meera' })
+        .expect(200);
+    }
+
+    bracket = await api().get(`/api/tournaments/${tournamentId}`).expect(200);
+    expect(bracket.body.status).toBe('completed');
+    expect(bracket.body.winner).toBe('Meera');
+  });
+
+  it('plays everyone against everyone in a round robin and crowns the player with most wins', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({}, 1);
+    const unitId = units[0]._id.toString();
+
+    const created = await api()
+      .post('/api/tournaments')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({
+        name: 'FIFA Night',
+        activityId: activity._id.toString(),
+        format: 'round_robin',
+        maxPlayers: 3,
+        startsAt: '2026-03-04T18:00:00',
+      })
+      .expect(201);
+    const tournamentId = created.body.id;
+
+    const entry = await register(tournamentId, 'Asha', '9000000001');
+    expect(entry.body.paymentStatus).toBe('paid');
+    await register(tournamentId, 'Ravi', '9000000002');
+    await register(tournamentId, 'Meera', '9000000003');
+    await api().post(`/api/tournaments/${tournamentId}/register`).send({ name: 'Kabir', phone: '9000000004' }).expect(400);
+
+    const started = await api()
+      .post(`/api/tournaments/${tournamentId}/start`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    const matches = started.body.matches as BracketMatch[];
+    expect(matches).toHaveLength(3);
+    expect(new Set(matches.map(m => [m.player1, m.player2].sort().join('-'))).size).toBe(3);
+
+    for (const match of matches) {
+      const winner = [match.player1, match.player2].includes('Ravi') ? 'Ravi' : 'Meera';
+      await playMatch(tournamentId, match.id, unitId, winner, staffToken);
+    }
+
+    const bracket = await api().get(`/api/tournaments/${tournamentId}`).expect(200);
+    expect(bracket.body.status).toBe('completed');
+    expect(bracket.body.winner).toBe('Ravi');
+    expect(bracket.body.standings.map((s: { name: string; wins: number }) => [s.name, s.wins]))
+      .toEqual([['Ravi', 2], ['Meera', 1], ['Asha', 0]]);
+  });
+
+  it('lets a match be rescheduled once its session can no longer decide it', async () => {
+    clock.set(WEEKDAY_NOON);
+    const staffToken = await createAuthToken('staff');
+    const { activity, units } = await createActivityWithUnits({}, 3);
+
+    const created = await api()
+      .post('/api/tournaments')
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({
+        name: 'Final Only',
+        activityId: activity._id.toString(),
+        format: 'round_robin',
+        maxPlayers: 2,
+        startsAt: '2026-03-04T18:00:00',
+      })
+      .expect(201);
+    const tournamentId = created.body.id;
+    await register(tournamentId, 'Asha', '9000000001');
+    await register(tournamentId, 'Ravi', '9000000002');
+    const started = await api()
+      .post(`/api/tournaments/${tournamentId}/start`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    const matchId = (started.body.matches as BracketMatch[])[0].id;
+
+    const schedule = (unitIndex = 0) => api()
+      .post(`/api/tournaments/${tournamentId}/matches/${matchId}/schedule`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ unitId: units[unitIndex]._id.toString() });
+    const matchStatus = async () => {
+      const bracket = await api().get(`/api/tournaments/${tournamentId}`).expect(200);
+      return (bracket.body.matches as BracketMatch[])[0];
+    };
+
+    // A deleted session hands the match back
+    const deleted = await schedule().expect(200);
+    await schedule().expect(400);
+    await api()
+      .delete(`/api/sessions/${deleted.body.sessionId}`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .expect(200);
+    expect(await matchStatus()).toMatchObject({ status: 'pending', sessionId: undefined });
+
+    // So does one that ends without a winner
+    const undecided = await schedule(1).expect(200);
+    clock.advance(30);
+    await api().post(`/api/sessions/${undecided.body.sessionId}/end`).send({}).expect(200);
+    expect((await matchStatus()).status).toBe('pending');
+
+    // Once the match is replayed elsewhere, a late result from the old session no longer counts
+    const replay = await schedule(2).expect(200);
+    await api()
+      .post(`/api/sessions/${undecided.body.sessionId}/select-winner`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ winnerName: 'Asha' })
+      .expect(200);
+    expect(await matchStatus()).toMatchObject({ status: 'in_progress', sessionId: replay.body.sessionId });
+
+    clock.advance(30);
+    await api().post(`/api/sessions/${replay.body.sessionId}/end`).send({}).expect(200);
+    await api()
+      .post(`/api/sessions/${replay.body.sessionId}/select-winner`)
+      .set('Authorization', `Bearer ${staffToken}`)
+      .send({ winnerName: 'Ravi' })
+      .expect(200);
+    expect(await matchStatus()).toMatchObject({ status: 'completed', winner: 'Ravi' });
+  });
+});
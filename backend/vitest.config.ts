@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Suites share one in-memory mongod, so run them in a single process
+    pool: 'forks',
+    poolOptions: {
+      forks: { singleFork: true, isolate: false },
+    },
+    testTimeout: 30000,
+    hookTimeout: 120000,
+  },
+});
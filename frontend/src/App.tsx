@@ -9,6 +9,15 @@ import { ThemeToggle } from "@/components/ThemeToggle";
 // Customer Pages
 import Landing from "./pages/Landing";
 import BookActivity from "./pages/BookActivity";
+import GroupBooking from "./pages/GroupBooking";
+import SplitBill from "./pages/SplitBill";
+import Tournaments from "./pages/Tournaments";
+import TournamentBracket from "./pages/TournamentBracket";
+import Leaderboard from "./pages/Leaderboard";
+import LapRecords from "./pages/LapRecords";
+import ChallengeVote from "./pages/ChallengeVote";
+import PlayerProfile from "./pages/PlayerProfile";
+import CheckIn from "./pages/CheckIn";
 import Payment from "./pages/Payment";
 import SessionTimer from "./pages/SessionTimer";
 import ExtendSession from "./pages/ExtendSession";
@@ -31,6 +40,11 @@ import AdminSessions from "./pages/admin/Sessions";
 import SessionHistory from "./pages/admin/SessionHistory";
 import OrderHistory from "./pages/admin/OrderHistory";
 import Revenue from "./pages/admin/Revenue";
+import Loyalty from "./pages/admin/Loyalty";
+import Packages from "./pages/admin/Packages";
+import Coupons from "./pages/admin/Coupons";
+import Recurring from "./pages/admin/Recurring";
+import AdminTournaments from "./pages/admin/Tournaments";
 import Inventory from "./pages/admin/Inventory";
 import Services from "./pages/admin/Services";
 import ApprovalsAndQueue from "./pages/admin/ApprovalsAndQueue";
@@ -51,6 +65,8 @@ const AppContent = () => {
       <Routes>
         <Route path="/" element={<Landing />} />
         <Route path="/book" element={<BookActivity />} />
+        <Route path="/group-booking" element={<GroupBooking />} />
+        <Route path="/check-in" element={<CheckIn />} />
         <Route path="/payment" element={<Payment />} />
         <Route path="/session" element={<SessionTimer />} />
         <Route path="/extend" element={<ExtendSession />} />
@@ -58,6 +74,13 @@ const AppContent = () => {
         <Route path="/checkout" element={<Checkout />} />
         <Route path="/order-confirmation" element={<OrderConfirmation />} />
         <Route path="/receipt" element={<Receipt />} />
+        <Route path="/split/:splitId" element={<SplitBill />} />
+        <Route path="/tournaments" element={<Tournaments />} />
+        <Route path="/tournaments/:id" element={<TournamentBracket />} />
+        <Route path="/leaderboard" element={<Leaderboard />} />
+        <Route path="/lap-records" element={<LapRecords />} />
+        <Route path="/challenge/:id/vote" element={<ChallengeVote />} />
+        <Route path="/players/:id" element={<PlayerProfile />} />
         <Route path="/smoking-room" element={<SmokingRoom />} />
         <Route path="/my-bookings" element={<MyBookings />} />
         <Route path="/view-booking" element={<ViewBooking />} />
@@ -75,6 +98,11 @@ const AppContent = () => {
         <Route path="/admin/session-history" element={<SessionHistory />} />
         <Route path="/admin/order-history" element={<OrderHistory />} />
         <Route path="/admin/revenue" element={<Revenue />} />
+        <Route path="/admin/loyalty" element={<Loyalty />} />
+        <Route path="/admin/packages" element={<Packages />} />
+        <Route path="/admin/coupons" element={<Coupons />} />
+        <Route path="/admin/recurring" element={<Recurring />} />
+        <Route path="/admin/tournaments" element={<AdminTournaments />} />
         <Route path="/admin/inventory" element={<Inventory />} />
         <Route path="/admin/services" element={<Services />} />
         <Route path="/admin/approvals-queue" element={<ApprovalsAndQueue />} />
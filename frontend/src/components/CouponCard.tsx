@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Percent, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { couponsAPI } from '@/lib/api';
+import { formatCurrency, CouponQuote } from '@/lib/types';
+
+interface CouponCardProps {
+  type: 'reservation' | 'order';
+  entityId: string;
+  applied: CouponQuote | null;
+  onApplied: (result: CouponQuote) => void;
+}
+
+export function CouponCard({ type, entityId, applied, onApplied }: CouponCardProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [preview, setPreview] = useState<CouponQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  if (applied) {
+    return (
+      <Card className="glass border-success/40 mb-6">
+        <CardContent className="pt-6 flex items-center gap-3">
+          <Percent className="w-5 h-5 text-success shrink-0" />
+          <p className="text-sm text-foreground">
+            Coupon {applied.code} applied · {formatCurrency(applied.discount)} off
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setChecking(true);
+      setError(null);
+      setPreview(await couponsAPI.validate({ code: code.trim(), type, entityId }));
+    } catch (error) {
+      setPreview(null);
+      setError(error instanceof Error ? error.message : 'This coupon cannot be used.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    try {
+      setChecking(true);
+      const result = await couponsAPI.apply(preview.code, type, entityId);
+      onApplied(result);
+      toast({
+        title: 'Coupon Applied',
+        description: `${formatCurrency(result.discount)} taken off your bill.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could Not Apply Coupon',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Card className="glass mb-6">
+      <CardContent className="pt-6 space-y-3">
+        <form onSubmit={handleCheck} className="flex gap-2">
+          <Input
+            placeholder="Coupon code"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.toUpperCase());
+              setPreview(null);
+              setError(null);
+            }}
+            className="uppercase"
+          />
+          <Button type="submit" variant="outline" disabled={checking || !code.trim()}>
+            {checking && !preview && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+            Check
+          </Button>
+        </form>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        {preview && (
+          <div className="flex items-center gap-3">
+            <Percent className="w-5 h-5 text-primary shrink-0" />
+            <div className="flex-1">
+              <p className="font-medium text-foreground">Save {formatCurrency(preview.discount)}</p>
+              {preview.description && (
+                <p className="text-xs text-muted-foreground">{preview.description}</p>
+              )}
+            </div>
+            <Button onClick={handleApply} disabled={checking}>
+              {checking && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              Apply
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
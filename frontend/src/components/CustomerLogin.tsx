@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Phone, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+
+interface CustomerLoginProps {
+  defaultPhone?: string;
+  defaultName?: string;
+}
+
+export function CustomerLogin({ defaultPhone = '', defaultName }: CustomerLoginProps) {
+  const { toast } = useToast();
+  const { requestOtp, verifyOtp } = useCustomerAuth();
+  const [phone, setPhone] = useState(defaultPhone.replace(/\D/g, '').slice(-10));
+  const [code, setCode] = useState('');
+  const [step, setStep] = useState<'phone' | 'code'>('phone');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isValidPhone = /^\d{10}$/.test(phone);
+
+  const handleSendCode = async () => {
+    if (!isValidPhone) return;
+
+    try {
+      setSubmitting(true);
+      await requestOtp(phone);
+      setCode('');
+      setStep('code');
+      toast({
+        title: 'Code Sent',
+        description: `We sent a 6-digit code to ${phone}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could Not Send Code',
+        description: error instanceof Error ? error.message : 'Please try again in a moment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== 6) return;
+
+    try {
+      setSubmitting(true);
+      await verifyOtp(phone, value, defaultName);
+    } catch (error) {
+      setCode('');
+      toast({
+        title: 'Verification Failed',
+        description: error instanceof Error ? error.message : 'Invalid code. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Phone className="w-5 h-5" />
+          Sign in with your phone
+        </CardTitle>
+        <CardDescription>
+          {step === 'phone'
+            ? 'See all your sessions and orders, on any device.'
+            : `Enter the code sent to ${phone}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'phone' ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="customerPhone">Phone Number</Label>
+              <Input
+                id="customerPhone"
+                type="tel"
+                inputMode="numeric"
+                maxLength={10}
+                placeholder="10-digit mobile number"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value.replace(/\D/g, ''))}
+                onKeyDown={(e) => e.key === 'Enter' && handleSendCode()}
+              />
+            </div>
+            <Button className="w-full" onClick={handleSendCode} disabled={!isValidPhone || submitting}>
+              {submitting && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              Send Code
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={handleVerify}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button className="w-full" onClick={() => handleVerify()} disabled={code.length !== 6 || submitting}>
+              {submitting && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              Verify
+            </Button>
+            <div className="flex justify-between text-sm">
+              <Button variant="link" className="px-0" onClick={() => setStep('phone')} disabled={submitting}>
+                Change number
+              </Button>
+              <Button variant="link" className="px-0" onClick={handleSendCode} disabled={submitting}>
+                Resend code
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { Gift, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+import { loyaltyAPI } from '@/lib/api';
+import { formatCurrency, LoyaltyRedemption, LoyaltySummary } from '@/lib/types';
+
+interface LoyaltyRedeemCardProps {
+  type: 'reservation' | 'order';
+  entityId: string;
+  customerPhone?: string;
+  amount: number;
+  redemption: LoyaltyRedemption | null;
+  onRedeemed: (result: LoyaltyRedemption) => void;
+}
+
+export function LoyaltyRedeemCard({
+  type,
+  entityId,
+  customerPhone,
+  amount,
+  redemption,
+  onRedeemed,
+}: LoyaltyRedeemCardProps) {
+  const { toast } = useToast();
+  const { customer } = useCustomerAuth();
+  const [summary, setSummary] = useState<LoyaltySummary | null>(null);
+  const [redeeming, setRedeeming] = useState(false);
+
+  // Points can only go towards the signed-in customer's own booking
+  const isOwnBooking = !!customer && (customerPhone || '').replace(/\D/g, '') === customer.phone;
+
+  useEffect(() => {
+    if (!isOwnBooking) {
+      setSummary(null);
+      return;
+    }
+
+    let cancelled = false;
+    loyaltyAPI.getMine()
+      .then((data) => {
+        if (!cancelled) setSummary(data);
+      })
+      .catch((error) => {
+        console.error('Error loading loyalty points:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOwnBooking]);
+
+  if (redemption) {
+    return (
+      <Card className="glass border-success/40 mb-6">
+        <CardContent className="pt-6 flex items-center gap-3">
+          <Gift className="w-5 h-5 text-success shrink-0" />
+          <p className="text-sm text-foreground">
+            {redemption.pointsRedeemed} points redeemed · {formatCurrency(redemption.discount)} off
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!summary || summary.balance <= 0) {
+    return null;
+  }
+
+  const maxPoints = Math.floor((amount * summary.maxRedeemFraction) / summary.pointValue);
+  const points = Math.min(summary.balance, maxPoints);
+  if (points <= 0) {
+    return null;
+  }
+
+  const handleRedeem = async () => {
+    try {
+      setRedeeming(true);
+      const result = await loyaltyAPI.redeem(type, entityId, points);
+      onRedeemed(result);
+      toast({
+        title: 'Points Redeemed',
+        description: `${formatCurrency(result.discount)} taken off your bill.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could Not Redeem Points',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <Card className="glass mb-6">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center gap-3">
+          <Gift className="w-5 h-5 text-primary shrink-0" />
+          <div className="flex-1">
+            <p className="font-medium text-foreground">
+              {summary.balance} points · {summary.tierName}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Use {points} points to save {formatCurrency(points * summary.pointValue)}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" className="w-full" onClick={handleRedeem} disabled={redeeming}>
+          {redeeming && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+          Redeem Points
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
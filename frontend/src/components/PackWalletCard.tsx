@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Ticket, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+import { packagesAPI } from '@/lib/api';
+import { formatCurrency, formatDuration, formatPackBalance, Package, PackagePurchase } from '@/lib/types';
+
+const formatPackContents = (pack: Package): string => {
+  return pack.kind === 'hours'
+    ? `${formatDuration(pack.minutes || 0)} of play`
+    : `${formatCurrency(pack.credit || 0)} of credit`;
+};
+
+export function PackWalletCard() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { customer } = useCustomerAuth();
+  const [wallet, setWallet] = useState<PackagePurchase[]>([]);
+  const [packs, setPacks] = useState<Package[]>([]);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!customer) {
+      setWallet([]);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([packagesAPI.getWallet(), packagesAPI.getAll(undefined, true)])
+      .then(([walletData, packData]) => {
+        if (cancelled) return;
+        setWallet(walletData.filter(p => p.status === 'active'));
+        setPacks(packData);
+      })
+      .catch((error) => {
+        console.error('Error loading packs:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customer]);
+
+  if (!customer || (wallet.length === 0 && packs.length === 0)) {
+    return null;
+  }
+
+  const handleBuy = async (pack: Package) => {
+    try {
+      setBuyingId(pack.id);
+      const purchase = await packagesAPI.purchase(pack.id, customer.name);
+      navigate('/payment', {
+        state: {
+          packagePurchaseId: purchase.id,
+          packageName: pack.name,
+          amount: pack.price,
+          bookingRequest: { customerName: customer.name, customerPhone: customer.phone },
+        },
+      });
+    } catch (error) {
+      toast({
+        title: 'Could Not Start Purchase',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBuyingId(null);
+    }
+  };
+
+  return (
+    <Card className="glass mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Ticket className="w-5 h-5 text-primary" />
+          Prepaid Packs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {wallet.map(purchase => (
+          <div key={purchase.id} className="flex items-center justify-between rounded-lg bg-primary/10 p-3">
+            <div>
+              <p className="text-sm font-medium text-foreground">{purchase.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {purchase.activityName} · expires {purchase.expiresAt ? new Date(purchase.expiresAt).toLocaleDateString('en-IN') : '—'}
+              </p>
+            </div>
+            <span className="text-sm font-semibold text-primary">{formatPackBalance(purchase)}</span>
+          </div>
+        ))}
+
+        {packs.map(pack => (
+          <div key={pack.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-foreground">{pack.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatPackContents(pack)} · {pack.activityName} · valid {pack.validityDays} days
+              </p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => handleBuy(pack)} disabled={!!buyingId}>
+              {buyingId === pack.id && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              {formatCurrency(pack.price)}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import { formatCurrency, PriceLineItem } from "@/lib/types";
+
+interface PriceBreakdownLinesProps {
+  lineItems: PriceLineItem[];
+}
+
+const formatTime = (date: string) => {
+  return new Date(date).toLocaleTimeString('en-IN', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+  });
+};
+
+export function PriceBreakdownLines({ lineItems }: PriceBreakdownLinesProps) {
+  return (
+    <div className="space-y-2">
+      {lineItems.map((item) => item.discountPercent ? (
+        <div key={`${item.startTime}-${item.label}`} className="flex justify-between gap-4 text-sm">
+          <p className="text-success">
+            {item.label}
+            <span className="text-muted-foreground"> · {item.discountPercent}% off</span>
+          </p>
+          <span className="text-success shrink-0">−{formatCurrency(Math.abs(item.amount))}</span>
+        </div>
+      ) : (
+        <div key={`${item.startTime}-${item.label}`} className="flex justify-between gap-4 text-sm">
+          <div className="min-w-0">
+            <p className="text-foreground">
+              {item.label}
+              {item.multiplier !== 1 && (
+                <span className="text-muted-foreground"> × {item.multiplier}</span>
+              )}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatTime(item.startTime)} – {formatTime(item.endTime)} · {item.minutes} min
+            </p>
+          </div>
+          <span className="text-foreground shrink-0">{formatCurrency(item.amount)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
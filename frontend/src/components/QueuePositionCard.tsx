@@ -7,6 +7,7 @@ interface QueuePositionCardProps {
   position: number;
   peopleAhead: number;
   estimatedWait: number;
+  estimatedStartTime?: Date;
   service: ServiceType;
   joinedAt: Date;
 }
@@ -15,6 +16,7 @@ export function QueuePositionCard({
   position,
   peopleAhead,
   estimatedWait,
+  estimatedStartTime,
   service,
   joinedAt,
 }: QueuePositionCardProps) {
@@ -52,6 +54,11 @@ export function QueuePositionCard({
         <p className="text-foreground/70 text-sm md:text-base mt-4">
           We'll notify you when it's your turn
         </p>
+        {estimatedStartTime && (
+          <p className="text-muted-foreground text-xs md:text-sm mt-1">
+            Expected around {formatTime(estimatedStartTime)}
+          </p>
+        )}
       </div>
 
       {/* Stats Grid */}
@@ -65,7 +72,7 @@ export function QueuePositionCard({
         <StatBox
           icon={<Clock className="w-4 h-4" />}
           label="Est. wait"
-          value={`${estimatedWait} min`}
+          value={estimatedWait <= 0 ? 'Any moment' : `${estimatedWait} min`}
         />
         <StatBox
           icon={<Gamepad2 className="w-4 h-4" />}
@@ -1,6 +1,7 @@
+import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { CreditCard, X, AlertCircle } from 'lucide-react';
+import { CreditCard, X, AlertCircle, Timer } from 'lucide-react';
 import { formatCurrency } from '@/lib/types';
 
 interface QueuePromptDialogProps {
@@ -12,6 +13,7 @@ interface QueuePromptDialogProps {
   unitName: string;
   amount: number;
   duration: number;
+  claimDeadline?: string;
   loading?: boolean;
 }
 
@@ -24,8 +26,27 @@ export function QueuePromptDialog({
   unitName,
   amount,
   duration,
+  claimDeadline,
   loading = false,
 }: QueuePromptDialogProps) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!open || !claimDeadline) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.floor((new Date(claimDeadline).getTime() - Date.now()) / 1000)));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [open, claimDeadline]);
+
+  const lapsed = secondsLeft === 0;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md">
@@ -61,6 +82,15 @@ export function QueuePromptDialog({
             </div>
           </div>
 
+          {secondsLeft !== null && (
+            <div className={`flex items-center justify-center gap-2 text-sm font-medium ${secondsLeft <= 60 ? 'text-destructive' : 'text-foreground'}`}>
+              <Timer className="w-4 h-4" />
+              {lapsed
+                ? 'Your hold has lapsed. The system is going to the next person.'
+                : `Held for you for ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`}
+            </div>
+          )}
+
           <div className="text-sm text-muted-foreground text-center">
             Please proceed to payment to start your session, or exit the queue.
           </div>
@@ -81,7 +111,7 @@ export function QueuePromptDialog({
             type="button"
             variant="glow"
             onClick={onPay}
-            disabled={loading}
+            disabled={loading || lapsed}
             className="w-full sm:w-auto"
           >
             <CreditCard className="w-4 h-4 mr-2" />
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Flag, Loader2, Trophy, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { sessionsAPI } from '@/lib/api';
+import { ScoreEventType, SnookerScoreboard } from '@/lib/types';
+
+interface SnookerScoreboardCardProps {
+  sessionId: string;
+  scoreboard?: SnookerScoreboard;
+  challengePlayers?: string[]; // challenges score their own players
+  canScore: boolean; // only while the session is running, for its players
+  voteToken?: string; // a challenge player's voting link, which lets them score
+  onChange: (scoreboard: SnookerScoreboard) => void;
+}
+
+const BALLS = [
+  { points: 1, label: 'Red', className: 'bg-red-600 hover:bg-red-700' },
+  { points: 2, label: 'Yellow', className: 'bg-yellow-400 hover:bg-yellow-500 text-black' },
+  { points: 3, label: 'Green', className: 'bg-green-600 hover:bg-green-700' },
+  { points: 4, label: 'Brown', className: 'bg-amber-800 hover:bg-amber-900' },
+  { points: 5, label: 'Blue', className: 'bg-blue-600 hover:bg-blue-700' },
+  { points: 6, label: 'Pink', className: 'bg-pink-400 hover:bg-pink-500 text-black' },
+  { points: 7, label: 'Black', className: 'bg-neutral-900 hover:bg-black' },
+];
+
+const FOUL_POINTS = [4, 5, 6, 7];
+
+export function SnookerScoreboardCard({ sessionId, scoreboard, challengePlayers, canScore, voteToken, onChange }: SnookerScoreboardCardProps) {
+  const { toast } = useToast();
+  const [bestOf, setBestOf] = useState('none');
+  const [sides, setSides] = useState<string[]>(['', '']);
+  const [activePlayer, setActivePlayer] = useState(0);
+  const [breakPoints, setBreakPoints] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<SnookerScoreboard>) => {
+    setBusy(true);
+    try {
+      onChange(await action());
+    } catch (error) {
+      toast({
+        title: 'Score Not Saved',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!scoreboard) {
+    if (!canScore) return null;
+    const needsNames = !challengePlayers;
+    return (
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-base">Keep Score</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {needsNames && (
+            <div className="grid grid-cols-2 gap-2">
+              {sides.map((name, index) => (
+                <Input
+                  key={index}
+                  placeholder={`Player ${index + 1}`}
+                  value={name}
+                  onChange={(e) => setSides((prev) => prev.map((n, i) => (i === index ? e.target.value : n)))}
+                />
+              ))}
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>Match length</Label>
+            <Select value={bestOf} onValueChange={setBestOf}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Play until time is up</SelectItem>
+                {[1, 3, 5, 7].map((frames) => (
+                  <SelectItem key={frames} value={String(frames)}>
+                    Best of {frames}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            className="w-full glass"
+            disabled={busy || (needsNames && sides.some((name) => !name.trim()))}
+            onClick={() => run(() => sessionsAPI.startScoreboard(sessionId, {
+              players: needsNames ? sides.map((name) => name.trim()) : undefined,
+              bestOf: bestOf === 'none' ? undefined : Number(bestOf),
+            }, voteToken))}
+          >
+            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Start Scoring
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const frame = scoreboard.frames[scoreboard.frames.length - 1];
+  const player = scoreboard.players[activePlayer];
+  const scoring = canScore && !scoreboard.winner && !scoreboard.completedAt;
+
+  const addScore = (type: ScoreEventType, points: number) =>
+    run(() => sessionsAPI.addScore(sessionId, { type, player, points }, voteToken));
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center justify-between">
+          <span>Frame {frame.number}</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {scoreboard.bestOf ? `Best of ${scoreboard.bestOf}` : 'Frames'}: {scoreboard.framesWon.join(' – ')}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {scoreboard.winner && (
+          <div className="flex items-center justify-center gap-2 rounded-lg bg-primary/10 border border-primary/20 p-3 font-semibold text-foreground">
+            <Trophy className="w-4 h-4 text-primary" />
+            {scoreboard.winner} wins the match
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {scoreboard.players.map((name, index) => (
+            <button
+              key={name}
+              disabled={!scoring}
+              onClick={() => setActivePlayer(index)}
+              className={`rounded-lg border p-3 text-center transition-colors ${
+                scoring && index === activePlayer ? 'border-primary bg-primary/10' : 'border-border/50'
+              }`}
+            >
+              <p className="text-sm text-muted-foreground">{name}</p>
+              <p className="text-3xl font-bold text-foreground">{frame.points[index]}</p>
+              <p className="text-xs text-muted-foreground">
+                Best break {scoreboard.highestBreaks[index]} · Fouls {frame.fouls[index]}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {scoring && (
+          <>
+            <div className="grid grid-cols-7 gap-1">
+              {BALLS.map((ball) => (
+                <Button
+                  key={ball.points}
+                  size="sm"
+                  title={`${ball.label} (${ball.points})`}
+                  className={`rounded-full text-white ${ball.className}`}
+                  disabled={busy}
+                  onClick={() => addScore('points', ball.points)}
+                >
+                  {ball.points}
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={155}
+                placeholder="Break"
+                value={breakPoints}
+                onChange={(e) => setBreakPoints(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                disabled={busy || !breakPoints}
+                onClick={() => {
+                  addScore('break', Number(breakPoints));
+                  setBreakPoints('');
+                }}
+              >
+                Add Break
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-muted-foreground mr-1">Foul by {player}:</span>
+              {FOUL_POINTS.map((points) => (
+                <Button key={points} size="sm" variant="outline" disabled={busy} onClick={() => addScore('foul', points)}>
+                  {points}
+                </Button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                className="glass"
+                disabled={busy || frame.events.length === 0}
+                onClick={() => run(() => sessionsAPI.undoScore(sessionId, voteToken))}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo
+              </Button>
+              <Button
+                variant="outline"
+                className="glass"
+                disabled={busy}
+                onClick={() => run(() => sessionsAPI.endFrame(
+                  sessionId,
+                  frame.points[0] === frame.points[1] ? player : undefined,
+                  voteToken
+                ))}
+              >
+                <Flag className="w-4 h-4 mr-2" />
+                End Frame
+              </Button>
+            </div>
+          </>
+        )}
+
+        {scoreboard.frames.filter((f) => f.winner).length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            {scoreboard.frames.filter((f) => f.winner).map((f) => (
+              <div key={f.number} className="flex justify-between text-xs text-muted-foreground">
+                <span>Frame {f.number}: {f.points.join(' – ')}</span>
+                <span className="text-foreground">{f.winner}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
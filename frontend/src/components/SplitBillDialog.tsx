@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Copy, Loader2, SplitSquareHorizontal } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { billSplitsAPI } from '@/lib/api';
+import { BillSplit, BillSplitMode, ChallengePlayer, formatCurrency } from '@/lib/types';
+
+interface SplitBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  players: ChallengePlayer[];
+  winner?: string;
+  voteToken?: string; // the starter's voting link, which lets them split the bill
+}
+
+const MODE_LABELS: Record<BillSplitMode, string> = {
+  even: 'Split evenly',
+  custom: 'Custom amounts',
+  loser_pays: 'Loser pays',
+};
+
+export function SplitBillDialog({ open, onOpenChange, sessionId, players, winner, voteToken }: SplitBillDialogProps) {
+  const { toast } = useToast();
+  const [split, setSplit] = useState<BillSplit | null>(null);
+  const [mode, setMode] = useState<BillSplitMode>('even');
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmounts({});
+    billSplitsAPI.getForSession(sessionId)
+      .then((existing) => {
+        setSplit(existing);
+        setMode(existing.mode);
+      })
+      .catch(() => setSplit(null)); // nothing split yet
+  }, [open, sessionId]);
+
+  const somebodyPaid = !!split?.shares.some((share) => share.status !== 'pending');
+
+  const handleSplit = async () => {
+    setLoading(true);
+    try {
+      const created = await billSplitsAPI.create({
+        sessionId,
+        mode,
+        amounts: mode === 'custom'
+          ? players.map((player) => ({ playerName: player.name, amount: Number(amounts[player.name] || 0) }))
+          : undefined,
+      }, voteToken);
+      setSplit(created);
+      toast({
+        title: 'Bill Split',
+        description: 'Each player has their own payment link.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to split the bill',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: 'Link Copied', description: 'Send it to the player to pay their share.' });
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-ios border-primary/30 max-w-lg p-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SplitSquareHorizontal className="w-5 h-5 text-primary" />
+            Split the Bill
+          </DialogTitle>
+          <DialogDescription>
+            Share the game and any unpaid food between the players. Each player pays their own share.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!somebodyPaid && (
+            <>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as BillSplitMode)}>
+                {(Object.keys(MODE_LABELS) as BillSplitMode[]).map((option) => (
+                  <div key={option} className="flex items-center gap-2">
+                    <RadioGroupItem value={option} id={`split-${option}`} disabled={option === 'loser_pays' && !winner} />
+                    <Label htmlFor={`split-${option}`}>
+                      {MODE_LABELS[option]}
+                      {option === 'loser_pays' && !winner && (
+                        <span className="text-xs text-muted-foreground"> (pick a winner first)</span>
+                      )}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              {mode === 'custom' && (
+                <div className="space-y-2">
+                  {players.map((player) => (
+                    <div key={player.name} className="flex items-center gap-2">
+                      <Label className="flex-1">{player.name}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-28"
+                        value={amounts[player.name] || ''}
+                        onChange={(e) => setAmounts((prev) => ({ ...prev, [player.name]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {split && split.status !== 'cancelled' && (
+            <div className="space-y-2 rounded-lg bg-primary/10 border border-primary/20 p-3">
+              <p className="text-sm font-medium text-foreground">
+                {MODE_LABELS[split.mode]} · {formatCurrency(split.totalAmount)}
+                {split.ordersAmount > 0 && (
+                  <span className="text-xs text-muted-foreground"> (incl. {formatCurrency(split.ordersAmount)} food)</span>
+                )}
+              </p>
+              {split.shares.map((share) => (
+                <div key={share.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex-1">{share.playerName}</span>
+                  <span className="font-semibold">{formatCurrency(share.amount)}</span>
+                  {share.status === 'pending' ? (
+                    <Button variant="ghost" size="sm" title="Copy payment link" onClick={() => copyLink(share.paymentLink)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Badge variant="outline" className="bg-success/20 text-success border-success/50">Paid</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Close
+          </Button>
+          {!somebodyPaid && (
+            <Button variant="glow" onClick={handleSplit} disabled={loading}>
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {split ? 'Split Again' : 'Split Bill'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { Copy, Link2, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { ChallengeVoteLink } from '@/lib/types';
+
+interface VoteLinksCardProps {
+  links: ChallengeVoteLink[]; // players who weren't texted their link
+}
+
+export function VoteLinksCard({ links }: VoteLinksCardProps) {
+  const { toast } = useToast();
+
+  if (links.length === 0) return null;
+
+  const handleShare = async (link: ChallengeVoteLink) => {
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: 'Vote for the winner', url: link.link });
+        return;
+      }
+      await navigator.clipboard.writeText(link.link);
+      toast({
+        title: 'Link Copied',
+        description: `Send it to ${link.playerName} so they can vote.`,
+      });
+    } catch (error) {
+      // Closing the share sheet isn't an error worth reporting
+      if (error instanceof Error && error.name === 'AbortError') return;
+      toast({
+        title: 'Could Not Share',
+        description: link.link,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-primary" />
+          Voting Links
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          These players have no phone on the challenge. Each needs their own link to vote for the winner.
+        </p>
+        {links.map((link) => (
+          <div key={link.token} className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-foreground">{link.playerName}</span>
+            <Button variant="outline" size="sm" className="glass" onClick={() => handleShare(link)}>
+              {typeof navigator.share === 'function' ? (
+                <Share2 className="w-4 h-4 mr-2" />
+              ) : (
+                <Copy className="w-4 h-4 mr-2" />
+              )}
+              Send Link
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
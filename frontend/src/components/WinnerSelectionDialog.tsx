@@ -3,7 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Trophy, Users, Loader2 } from 'lucide-react';
+import { Trophy, Users, Loader2, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { sessionsAPI } from '@/lib/api';
 
@@ -12,8 +12,10 @@ interface WinnerSelectionDialogProps {
   onOpenChange: (open: boolean) => void;
   sessionId: string;
   players: Array<{ name: string; phone?: string; hasVoted?: boolean; voteFor?: string }>;
-  currentPlayerName?: string;
+  voterName?: string;
+  voteToken?: string; // from the player's own voting link
   winner?: string;
+  disputed?: boolean;
   onWinnerSelected?: () => void;
   variant?: 'user' | 'admin';
 }
@@ -23,8 +25,10 @@ export function WinnerSelectionDialog({
   onOpenChange,
   sessionId,
   players,
-  currentPlayerName,
+  voterName,
+  voteToken,
   winner,
+  disputed = false,
   onWinnerSelected,
   variant = 'user',
 }: WinnerSelectionDialogProps) {
@@ -50,10 +54,10 @@ export function WinnerSelectionDialog({
       return;
     }
 
-    if (!currentPlayerName && variant === 'user') {
+    if (!voteToken) {
       toast({
-        title: 'Error',
-        description: 'Player name not found.',
+        title: 'Voting Link Needed',
+        description: 'Use the voting link sent to your phone to vote.',
         variant: 'destructive',
       });
       return;
@@ -61,40 +65,38 @@ export function WinnerSelectionDialog({
 
     try {
       setLoading(true);
-      await sessionsAPI.voteWinner(
-        sessionId,
-        selectedWinner,
-        currentPlayerName || 'admin'
-      );
+      const result = await sessionsAPI.voteWinner(sessionId, selectedWinner, voteToken);
 
       toast({
         title: 'Vote Submitted',
         description: `You voted for ${selectedWinner} as the winner!`,
       });
 
-      // Check if all players have voted
-      const updatedVotes = players.map(p => 
-        p.name === currentPlayerName ? { ...p, hasVoted: true, voteFor: selectedWinner } : p
-      );
-      const allVoted = updatedVotes.every(p => p.hasVoted);
-
-      if (allVoted) {
+      if (result.winner) {
         setVotingComplete(true);
         toast({
           title: 'All Votes In!',
-          description: `The winner has been determined: ${selectedWinner}`,
+          description: `The winner has been determined: ${result.winner}`,
         });
         onWinnerSelected?.();
         setTimeout(() => {
           onOpenChange(false);
         }, 2000);
+      } else if (result.disputed) {
+        toast({
+          title: 'Votes Disagree',
+          description: 'Staff will pick the winner.',
+          variant: 'destructive',
+        });
+        onWinnerSelected?.();
+        onOpenChange(false);
       } else {
         onOpenChange(false);
       }
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to submit vote.',
+        description: error instanceof Error ? error.message : 'Failed to submit vote.',
         variant: 'destructive',
       });
     } finally {
@@ -137,8 +139,8 @@ export function WinnerSelectionDialog({
     }
   };
 
-  const hasCurrentPlayerVoted = currentPlayerName 
-    ? players.find(p => p.name === currentPlayerName)?.hasVoted 
+  const hasCurrentPlayerVoted = voterName
+    ? players.find(p => p.name === voterName)?.hasVoted
     : false;
 
   return (
@@ -151,9 +153,13 @@ export function WinnerSelectionDialog({
           </DialogTitle>
           <DialogDescription className="text-muted-foreground">
             {variant === 'admin'
-              ? 'Select who won the challenge. The winner will pay for everyone.'
+              ? disputed
+                ? "The players' votes don't agree. Pick the winner to settle it."
+                : 'Select who won the challenge. The winner will pay for everyone.'
               : votingComplete
               ? `The winner is ${winner}. They will pay for everyone's session.`
+              : disputed
+              ? "Your votes don't agree, so staff will pick the winner."
               : hasCurrentPlayerVoted
               ? 'You have already voted. Waiting for other players...'
               : 'Vote for who won the challenge. The winner will pay for everyone.'}
@@ -191,7 +197,7 @@ export function WinnerSelectionDialog({
                       <RadioGroupItem
                         value={player.name}
                         id={`player-${index}`}
-                        disabled={variant === 'user' && hasCurrentPlayerVoted}
+                        disabled={variant === 'user' && (hasCurrentPlayerVoted || disputed)}
                       />
                       <Label
                         htmlFor={`player-${index}`}
@@ -210,6 +216,15 @@ export function WinnerSelectionDialog({
               </RadioGroup>
             </div>
 
+            {disputed && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3">
+                <p className="text-sm text-foreground">
+                  <AlertTriangle className="w-4 h-4 inline mr-2" />
+                  Disputed: the votes named different winners
+                </p>
+              </div>
+            )}
+
             {variant === 'admin' && (
               <div className="bg-warning/10 border border-warning/20 rounded-lg p-3">
                 <p className="text-sm text-foreground">
@@ -222,7 +237,7 @@ export function WinnerSelectionDialog({
         )}
 
         <DialogFooter>
-          {!votingComplete && !hasCurrentPlayerVoted && variant === 'user' && (
+          {!votingComplete && !hasCurrentPlayerVoted && !disputed && variant === 'user' && (
             <Button
               onClick={handleVote}
               disabled={!selectedWinner || loading}
@@ -251,6 +266,8 @@ export function WinnerSelectionDialog({
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   Selecting Winner...
                 </>
+              ) : disputed ? (
+                'Settle Dispute'
               ) : (
                 'Select Winner'
               )}
@@ -16,7 +16,12 @@ import {
   Gamepad2, 
   Package,
   TrendingUp,
-  UserPlus
+  UserPlus,
+  Gift,
+  Ticket,
+  Percent,
+  Repeat,
+  Trophy
 } from "lucide-react";
 import { useState, useEffect } from "react";
 
@@ -54,6 +59,11 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     { path: "/admin/session-history", label: "Session History", icon: History },
     { path: "/admin/order-history", label: "Order History", icon: ShoppingCart },
     { path: "/admin/revenue", label: "Revenue", icon: TrendingUp },
+    { path: "/admin/loyalty", label: "Loyalty", icon: Gift },
+    { path: "/admin/packages", label: "Packs", icon: Ticket },
+    { path: "/admin/coupons", label: "Coupons", icon: Percent },
+    { path: "/admin/recurring", label: "Recurring", icon: Repeat },
+    { path: "/admin/tournaments", label: "Tournaments", icon: Trophy },
     { path: "/admin/services", label: "Services", icon: Gamepad2 },
     { path: "/admin/inventory", label: "Inventory", icon: Package },
   ];
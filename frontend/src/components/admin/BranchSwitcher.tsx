@@ -0,0 +1,52 @@
+import { useState, useEffect } from "react";
+import { Building2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALL_BRANCHES, authAPI, branchesAPI } from "@/lib/api";
+import { useAdminBranch } from "@/hooks/useAdminBranch";
+import { Branch } from "@/lib/types";
+
+export function BranchSwitcher() {
+  const selected = useAdminBranch();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [isOwner, setIsOwner] = useState(false);
+
+  useEffect(() => {
+    Promise.all([branchesAPI.getAll(), authAPI.getProfile()])
+      .then(([allBranches, profile]) => {
+        setBranches(allBranches);
+        setIsOwner(!profile.branchId);
+      })
+      .catch((error) => console.error('Failed to load branches:', error));
+  }, []);
+
+  if (branches.length === 0) {
+    return null;
+  }
+
+  // Staff tied to a branch can't switch, so just show where they are
+  if (!isOwner) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Building2 className="w-4 h-4" />
+        {branches[0].name}
+      </div>
+    );
+  }
+
+  return (
+    <Select value={selected ?? ALL_BRANCHES} onValueChange={branchesAPI.select}>
+      <SelectTrigger className="w-full md:w-[220px]">
+        <Building2 className="w-4 h-4 mr-2" />
+        <SelectValue placeholder="All branches" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+        {branches.map((branch) => (
+          <SelectItem key={branch.id} value={branch.id}>
+            {branch.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,107 @@
+import { motion } from "framer-motion";
+import { User, Phone, LogOut, Users, CalendarClock, UserCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Session, formatCurrency, formatDuration } from "@/lib/types";
+
+interface GroupSessionCardProps {
+  sessions: Session[]; // every session in the group, sharing one window
+  elapsed: number; // in minutes
+  remaining: number; // in minutes
+  loading?: boolean;
+  onEnd: () => void;
+  onCheckIn?: () => void;
+}
+
+export function GroupSessionCard({ sessions, elapsed, remaining, loading, onEnd, onCheckIn }: GroupSessionCardProps) {
+  const lead = sessions[0];
+  const isScheduled = sessions.every((s) => s.status === 'scheduled');
+  const total = sessions.reduce((sum, s) => sum + (s.amount || 0), 0);
+  const awaitingCheckIn = sessions.some((s) => s.checkInDeadline && !s.checkedInAt);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <Card className="glass-ios border-accent/40">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Group Booking
+            <Badge variant="outline">{sessions.length} units</Badge>
+          </CardTitle>
+          <CardDescription className="mt-1">
+            {sessions.map((s) => `${s.activityName || s.activityId} · ${s.unitName || s.unitId}`).join(', ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <User className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">{lead.customerName}</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Phone className="w-4 h-4 text-muted-foreground" />
+              <a href={`tel:${lead.customerPhone}`} className="text-primary hover:underline">
+                {lead.customerPhone}
+              </a>
+            </div>
+          </div>
+
+          <div className="h-px bg-border/50" />
+
+          {isScheduled ? (
+            <div className="flex items-center gap-2 text-sm">
+              <CalendarClock className="w-4 h-4 text-muted-foreground" />
+              Starts {new Date(lead.startTime).toLocaleString('en-IN')}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground text-xs mb-1">Elapsed</p>
+                <p className="font-semibold text-foreground">{formatDuration(elapsed)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-xs mb-1">Remaining</p>
+                <p className="font-semibold text-primary">{formatDuration(remaining)}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Paid together</span>
+            <span className="font-semibold">{formatCurrency(total)}</span>
+          </div>
+
+          {awaitingCheckIn && onCheckIn && (
+            <Button
+              variant="glow"
+              size="sm"
+              className="w-full"
+              onClick={onCheckIn}
+              disabled={loading}
+            >
+              <UserCheck className="w-4 h-4 mr-2" />
+              Check In Group
+            </Button>
+          )}
+
+          {!isScheduled && (
+            <Button
+              variant="outline-destructive"
+              size="sm"
+              className="w-full"
+              onClick={onEnd}
+              disabled={loading}
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              End All {sessions.length}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FileUp, Timer, Trash2, Trophy } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { lapsAPI } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { LapTime, SessionLaps, formatLapTime } from '@/lib/types';
+
+interface LapEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  customerName: string;
+}
+
+type EntryMode = 'manual' | 'import';
+
+export function LapEntryDialog({ open, onOpenChange, sessionId, customerName }: LapEntryDialogProps) {
+  const { toast } = useToast();
+  const [sessionLaps, setSessionLaps] = useState<SessionLaps | null>(null);
+  const [mode, setMode] = useState<EntryMode>('manual');
+  const [track, setTrack] = useState('');
+  const [car, setCar] = useState('');
+  const [times, setTimes] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadLaps = useCallback(() => {
+    lapsAPI.getSessionLaps(sessionId)
+      .then((data) => {
+        setSessionLaps(data);
+        // Later stints are usually on the same track and car
+        const last = data.laps[data.laps.length - 1];
+        if (last) {
+          setTrack((prev) => prev || last.track);
+          setCar((prev) => prev || last.car);
+        }
+      })
+      .catch((error) => console.error('Failed to load laps:', error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setTimes('');
+    setFile(null);
+    loadLaps();
+  }, [open, loadLaps]);
+
+  const announce = (result: { laps: LapTime[]; newRecords: LapTime[] }) => {
+    const records = result.newRecords.map((lap) => `${lap.track} (${lap.car}) in ${formatLapTime(lap.lapTimeMs)}`);
+    toast({
+      title: records.length ? 'New Track Record!' : 'Laps Saved',
+      description: records.length
+        ? `${result.newRecords[0].driverName} set the record on ${records.join(', ')}.`
+        : `${result.laps.length} lap${result.laps.length === 1 ? '' : 's'} added.`,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      let result: { laps: LapTime[]; newRecords: LapTime[] };
+      if (mode === 'manual') {
+        const laps = times.split(/[\n,]/).map((time) => time.trim()).filter(Boolean).map((time) => ({ time }));
+        result = await lapsAPI.add(sessionId, { track, car, laps });
+      } else {
+        if (!file) return;
+        result = await lapsAPI.import(sessionId, {
+          format: file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+          content: await file.text(),
+          track: track || undefined,
+          car: car || undefined,
+        });
+      }
+      announce(result);
+      setTimes('');
+      setFile(null);
+      loadLaps();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save laps',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (lapId: string) => {
+    try {
+      await lapsAPI.delete(lapId);
+      loadLaps();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete lap',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const recordIds = new Set(sessionLaps?.bestLaps.filter((lap) => lap.isTrackRecord).map((lap) => lap.id));
+  const canSubmit = mode === 'manual' ? Boolean(track && car && times.trim()) : Boolean(file);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-ios border-primary/30 max-w-lg p-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Timer className="w-5 h-5 text-primary" />
+            Lap Times
+          </DialogTitle>
+          <DialogDescription>
+            Record {customerName}&apos;s laps by hand or import the simulator&apos;s telemetry export.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="lap-track">Track</Label>
+                <Input id="lap-track" placeholder="e.g., Spa" value={track} onChange={(e) => setTrack(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lap-car">Car</Label>
+                <Input id="lap-car" placeholder="e.g., GT3" value={car} onChange={(e) => setCar(e.target.value)} />
+              </div>
+            </div>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as EntryMode)}>
+              <TabsList className="w-full">
+                <TabsTrigger value="manual" className="flex-1">Enter Times</TabsTrigger>
+                <TabsTrigger value="import" className="flex-1">Import File</TabsTrigger>
+              </TabsList>
+              <TabsContent value="manual" className="space-y-2">
+                <Label htmlFor="lap-times">Lap times, one per line</Label>
+                <Textarea
+                  id="lap-times"
+                  placeholder={'1:52.300\n1:50.950'}
+                  value={times}
+                  onChange={(e) => setTimes(e.target.value)}
+                  rows={4}
+                  className="resize-none font-mono"
+                />
+              </TabsContent>
+              <TabsContent value="import" className="space-y-2">
+                <Label htmlFor="lap-file">CSV or JSON telemetry export</Label>
+                <Input
+                  id="lap-file"
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Track and car above are only needed if the file doesn&apos;t name them.
+                </p>
+              </TabsContent>
+            </Tabs>
+
+            {sessionLaps && sessionLaps.laps.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {sessionLaps.laps.map((lap) => (
+                  <div key={lap.id} className="flex items-center gap-2 text-sm rounded-lg bg-secondary/30 px-2 py-1">
+                    <span className="w-12 text-muted-foreground">Lap {lap.lapNumber}</span>
+                    <span className="flex-1 text-xs text-muted-foreground truncate">
+                      {lap.driverName} · {lap.track} · {lap.car}
+                    </span>
+                    {recordIds.has(lap.id) && <Trophy className="w-3 h-3 text-primary" />}
+                    <span className={`font-mono ${lap.valid ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                      {formatLapTime(lap.lapTimeMs)}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Delete lap"
+                      onClick={() => handleDelete(lap.id)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Close
+            </Button>
+            <Button type="submit" variant="glow" disabled={loading || !canSubmit}>
+              {mode === 'import' && <FileUp className="w-4 h-4 mr-2" />}
+              {loading ? 'Saving...' : mode === 'manual' ? 'Add Laps' : 'Import Laps'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect } from "react";
+import { UserX } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { customersAPI } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { NoShowRecord } from "@/lib/types";
+
+export function NoShowsCard() {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<NoShowRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    customersAPI.getNoShows()
+      .then(setRecords)
+      .catch((error) => console.error('Failed to load no-shows:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const togglePrepayment = async (record: NoShowRecord, required: boolean) => {
+    setSaving(record.phone);
+    try {
+      const updated = await customersAPI.setPrepaymentRequired(record.phone, required);
+      setRecords((prev) => prev.map((r) => (r.phone === updated.phone ? updated : r)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update prepayment.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <UserX className="w-5 h-5" />
+          No-Shows
+        </CardTitle>
+        <CardDescription>Customers who missed booked slots. Require prepayment to turn off pay at counter.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Customer</TableHead>
+              <TableHead>No-shows</TableHead>
+              <TableHead>Last missed</TableHead>
+              <TableHead>Prepayment</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  {loading ? "Loading no-shows..." : "No missed bookings."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              records.map((record) => (
+                <TableRow key={record.phone}>
+                  <TableCell>
+                    <p className="font-medium">{record.name || "Customer"}</p>
+                    <p className="text-xs text-muted-foreground">{record.phone}</p>
+                  </TableCell>
+                  <TableCell className="font-semibold">{record.noShowCount}</TableCell>
+                  <TableCell>
+                    {record.lastNoShowAt ? new Date(record.lastNoShowAt).toLocaleDateString("en-IN") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={record.prepaymentRequired}
+                      disabled={saving === record.phone}
+                      onCheckedChange={(checked) => togglePrepayment(record, checked)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
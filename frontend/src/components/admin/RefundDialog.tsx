@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { paymentsAPI } from "@/lib/api";
+import { formatCurrency, RefundReasonCode, RefundResult } from "@/lib/types";
+
+const REASON_LABELS: Record<RefundReasonCode, string> = {
+  session_cancelled: 'Session cancelled',
+  unit_failure: 'Equipment / unit failure',
+  order_cancelled: 'Order cancelled',
+  customer_request: 'Customer request',
+  duplicate_payment: 'Duplicate payment',
+  other: 'Other',
+};
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: 'session' | 'order';
+  entityId: string;
+  customerName: string;
+  paidAmount: number;
+  refundedAmount: number;
+  onRefunded: (result: RefundResult) => void;
+}
+
+export function RefundDialog({
+  open,
+  onOpenChange,
+  type,
+  entityId,
+  customerName,
+  paidAmount,
+  refundedAmount,
+  onRefunded,
+}: RefundDialogProps) {
+  const { toast } = useToast();
+  const refundable = Math.max(0, paidAmount - refundedAmount);
+  const [amount, setAmount] = useState('');
+  const [reasonCode, setReasonCode] = useState<RefundReasonCode>(type === 'session' ? 'session_cancelled' : 'order_cancelled');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAmount(String(refundable));
+      setReasonCode(type === 'session' ? 'session_cancelled' : 'order_cancelled');
+      setNotes('');
+    }
+  }, [open, refundable, type]);
+
+  const parsedAmount = Number(amount);
+  const isValidAmount = parsedAmount > 0 && parsedAmount <= refundable;
+
+  const handleSubmit = async () => {
+    if (!isValidAmount) return;
+
+    try {
+      setSubmitting(true);
+      const result = await paymentsAPI.refund(entityId, {
+        type,
+        amount: parsedAmount,
+        reasonCode,
+        notes: notes.trim() || undefined,
+      });
+      toast({
+        title: "Refund Issued",
+        description: `${formatCurrency(result.refundedAmount)} refunded to ${customerName}. ${result.message}`,
+      });
+      onRefunded(result);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Refund Failed",
+        description: error instanceof Error ? error.message : "Failed to issue refund.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund {type === 'session' ? 'Session' : 'Order'}</DialogTitle>
+          <DialogDescription>
+            {customerName} paid {formatCurrency(paidAmount)}
+            {refundedAmount > 0 && `, ${formatCurrency(refundedAmount)} already refunded`}.
+            Online payments are refunded through Razorpay; offline payments are recorded as cash refunds.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refundAmount">Amount (₹) *</Label>
+            <Input
+              id="refundAmount"
+              type="number"
+              min={1}
+              max={refundable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Up to {formatCurrency(refundable)} can be refunded.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundReason">Reason *</Label>
+            <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as RefundReasonCode)}>
+              <SelectTrigger id="refundReason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REASON_LABELS) as RefundReasonCode[]).map((code) => (
+                  <SelectItem key={code} value={code}>{REASON_LABELS[code]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundNotes">Notes</Label>
+            <Textarea
+              id="refundNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional details for the revenue report"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!isValidAmount || submitting}>
+            {submitting && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+            Refund {isValidAmount ? formatCurrency(parsedAmount) : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { Swords } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { activitiesAPI, tournamentsAPI } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { ActivityUnit, Tournament, TournamentMatch } from '@/lib/types';
+
+interface ScheduleMatchDialogProps {
+  tournament: Tournament;
+  match: TournamentMatch | null;
+  onOpenChange: (open: boolean) => void;
+  onScheduled: (tournament: Tournament) => void;
+}
+
+export function ScheduleMatchDialog({ tournament, match, onOpenChange, onScheduled }: ScheduleMatchDialogProps) {
+  const { toast } = useToast();
+  const [units, setUnits] = useState<ActivityUnit[]>([]);
+  const [unitId, setUnitId] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!match) return;
+    setUnitId('');
+    setStartTime('');
+    activitiesAPI.getById(tournament.activityId)
+      .then((activity) => setUnits(activity.units || []))
+      .catch((error) => console.error('Failed to load units:', error));
+  }, [match, tournament.activityId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!match || !unitId) return;
+
+    setLoading(true);
+    try {
+      const updated = await tournamentsAPI.scheduleMatch(tournament.id, match.id, {
+        unitId,
+        startTime: startTime ? new Date(startTime).toISOString() : undefined,
+      });
+      onScheduled(updated);
+      onOpenChange(false);
+      toast({
+        title: startTime ? 'Match Scheduled' : 'Match Started',
+        description: `${match.player1} vs ${match.player2}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to schedule match',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!match} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-ios border-primary/30 max-w-lg p-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Swords className="w-5 h-5 text-primary" />
+            {match?.player1} vs {match?.player2}
+          </DialogTitle>
+          <DialogDescription>
+            The match is played as a free challenge session. Pick the winner on the session to move the bracket on.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unitId} onValueChange={setUnitId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {units
+                    .filter((unit) => unit.status !== 'maintenance')
+                    .map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-start">Start time</Label>
+              <Input
+                id="match-start"
+                type="datetime-local"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to start the match now.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="glow" disabled={loading || !unitId}>
+              {loading ? 'Scheduling...' : startTime ? 'Schedule Match' : 'Start Match'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
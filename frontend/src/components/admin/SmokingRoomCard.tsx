@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Cigarette, Download, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { smokingRoomAPI } from '@/lib/api';
+import { SmokingRoomOccupants, SmokingRoomVisit } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/useWebSocket';
+
+interface SmokingRoomCardProps {
+  branchId: string | null;
+}
+
+const timeOf = (date?: string) =>
+  date ? new Date(date).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' }) : '';
+
+const describe = (visit: SmokingRoomVisit) => {
+  if (visit.status === 'inside') return `In since ${timeOf(visit.enteredAt)}`;
+  if (visit.status === 'called') return `Called, until ${timeOf(visit.claimDeadline)}`;
+  return `#${visit.position} in queue`;
+};
+
+export function SmokingRoomCard({ branchId }: SmokingRoomCardProps) {
+  const { toast } = useToast();
+  const { on, isConnected } = useWebSocket({ namespace: 'admin' });
+  const [room, setRoom] = useState<SmokingRoomOccupants | null>(null);
+
+  const loadRoom = useCallback(() => {
+    smokingRoomAPI.getOccupants()
+      .then(setRoom)
+      // Branches without a smoking room just don't show the card
+      .catch(() => setRoom(null));
+  }, []);
+
+  useEffect(() => {
+    loadRoom();
+  }, [loadRoom, branchId]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    return on('smoking_room_updated', (data: { activityId: string }) => {
+      if (!room || data.activityId === room.activityId) loadRoom();
+    });
+  }, [isConnected, on, loadRoom, room]);
+
+  const handleCheckOut = async (visit: SmokingRoomVisit) => {
+    try {
+      await smokingRoomAPI.checkOut(visit.id);
+      loadRoom();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check out',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Today's 18+ confirmations as a CSV, for the compliance file
+  const handleDownloadLog = async () => {
+    const today = new Date().toLocaleDateString('en-CA');
+    try {
+      const confirmations = await smokingRoomAPI.getAgeConfirmations(today);
+      const rows = [
+        'Confirmed At,Phone,Name,Status',
+        ...confirmations.map((c) =>
+          [new Date(c.confirmedAt).toLocaleString('en-IN'), c.customerPhone, c.customerName || '', c.status]
+            .map((value) => `"${value.replace(/"/g, '""')}"`)
+            .join(',')
+        ),
+      ];
+      const url = window.URL.createObjectURL(new Blob([rows.join('\n')], { type: 'text/csv' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `smoking-room-age-log-${today}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to download the age log',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!room) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: 0.15 }}
+      className="glass rounded-2xl p-4 md:p-5"
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <Cigarette className="w-5 h-5 text-warning" />
+        <h3 className="font-bold text-foreground text-sm md:text-base">{room.name}</h3>
+        <span className="ml-auto text-sm font-semibold text-foreground">
+          {room.occupancy} / {room.capacity}
+        </span>
+      </div>
+      <Progress value={Math.min((room.occupancy / room.capacity) * 100, 100)} className="mb-3" />
+      {room.visits.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Empty</p>
+      ) : (
+        <div className="space-y-1">
+          {room.visits.map((visit) => (
+            <div key={visit.id} className="flex items-center justify-between py-1 border-b border-border/50 last:border-0">
+              <div>
+                <p className="font-medium text-foreground text-sm">{visit.customerName || visit.customerPhone}</p>
+                <p className="text-xs text-muted-foreground">{describe(visit)}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                title={visit.status === 'inside' ? 'Check out' : 'Remove from queue'}
+                onClick={() => handleCheckOut(visit)}
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={handleDownloadLog}
+        className="w-full mt-3 py-2 bg-primary/10 text-primary rounded-xl font-medium text-sm hover:bg-primary/20 transition-colors flex items-center justify-center gap-2"
+      >
+        <Download className="w-4 h-4" />
+        Today&apos;s 18+ Log
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Timer } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { activitiesAPI, sessionsAPI } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Activity } from '@/lib/types';
+
+interface StartOpenSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStarted: () => void;
+}
+
+export function StartOpenSessionDialog({ open, onOpenChange, onStarted }: StartOpenSessionDialogProps) {
+  const { toast } = useToast();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [unitId, setUnitId] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setUnitId('');
+    setCustomerName('');
+    setCustomerPhone('');
+    activitiesAPI.getAll(true)
+      .then(setActivities)
+      .catch((error) => console.error('Failed to load units:', error));
+  }, [open]);
+
+  const options = activities.flatMap((activity) =>
+    activity.units
+      .filter((unit) => unit.status === 'available')
+      .map((unit) => ({ id: unit.id, activityId: activity.id, label: `${activity.name} · ${unit.name}` }))
+  );
+  const selected = options.find((option) => option.id === unitId);
+  const phoneValid = /^\d{10}$/.test(customerPhone);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !customerName.trim() || !phoneValid) return;
+
+    setLoading(true);
+    try {
+      await sessionsAPI.create({
+        activityId: selected.activityId,
+        unitId: selected.id,
+        customerName: customerName.trim(),
+        customerPhone,
+        billingMode: 'postpaid',
+      });
+      onStarted();
+      onOpenChange(false);
+      toast({
+        title: 'Session Started',
+        description: `${selected.label} is running. The bill is worked out when the customer finishes.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start session',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-ios border-primary/30 max-w-lg p-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Timer className="w-5 h-5 text-primary" />
+            Start Open Session
+          </DialogTitle>
+          <DialogDescription>
+            Start a walk-in with no fixed end. The customer pays for the time actually played, at least the activity minimum.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unitId} onValueChange={setUnitId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={options.length ? 'Choose a free unit' : 'No free units'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="open-session-name">Customer Name</Label>
+              <Input
+                id="open-session-name"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="open-session-phone">Phone</Label>
+              <Input
+                id="open-session-phone"
+                inputMode="numeric"
+                maxLength={10}
+                placeholder="10-digit mobile number"
+                value={customerPhone}
+                onChange={(e) => setCustomerPhone(e.target.value.replace(/\D/g, ''))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="glow" disabled={loading || !selected || !customerName.trim() || !phoneValid}>
+              {loading ? 'Starting...' : 'Start Session'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
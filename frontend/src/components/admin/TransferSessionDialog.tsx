@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { activitiesAPI, sessionsAPI } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Activity, ActivityType, SessionTransferResult, formatCurrency } from '@/lib/types';
+
+interface TransferSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  activityType: ActivityType;
+  currentUnitId: string;
+  onTransferred: (result: SessionTransferResult) => void;
+}
+
+// Mirrors the backend: snooker tables can swap between standard and premium
+const isCompatible = (from: ActivityType, to: ActivityType) =>
+  from === to || (from.startsWith('snooker') && to.startsWith('snooker'));
+
+export function TransferSessionDialog({
+  open,
+  onOpenChange,
+  sessionId,
+  activityType,
+  currentUnitId,
+  onTransferred,
+}: TransferSessionDialogProps) {
+  const { toast } = useToast();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [unitId, setUnitId] = useState('');
+  const [reason, setReason] = useState('');
+  const [waiveDifference, setWaiveDifference] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setUnitId('');
+    setReason('');
+    setWaiveDifference(false);
+    activitiesAPI.getAll(true)
+      .then(setActivities)
+      .catch((error) => console.error('Failed to load units:', error));
+  }, [open]);
+
+  const options = activities
+    .filter((activity) => isCompatible(activityType, activity.id))
+    .flatMap((activity) =>
+      activity.units
+        .filter((unit) => unit.status === 'available' && unit.id !== currentUnitId)
+        .map((unit) => ({ id: unit.id, label: `${activity.name} · ${unit.name}`, crossActivity: activity.id !== activityType }))
+    );
+  const selected = options.find((option) => option.id === unitId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unitId) return;
+
+    setLoading(true);
+    try {
+      const result = await sessionsAPI.transfer(sessionId, {
+        unitId,
+        reason: reason || undefined,
+        waiveDifference,
+      });
+      onTransferred(result);
+      onOpenChange(false);
+
+      const settle = result.amountDue > 0
+        ? ` Collect ${formatCurrency(result.amountDue)} at the counter.`
+        : result.amountToRefund > 0
+          ? ` Refund ${formatCurrency(result.amountToRefund)} to the customer.`
+          : '';
+      toast({
+        title: 'Session Moved',
+        description: `Moved to ${selected?.label || 'the new unit'}. The old unit is now under maintenance.${settle}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to move session',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-ios border-primary/30 max-w-lg p-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5 text-primary" />
+            Move Session
+          </DialogTitle>
+          <DialogDescription>
+            Move the customer to another unit without ending the session. The clock and payment carry over.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Move to</Label>
+              <Select value={unitId} onValueChange={setUnitId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={options.length ? 'Choose a free unit' : 'No free units'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-reason">Reason (Optional)</Label>
+              <Textarea
+                id="transfer-reason"
+                placeholder="e.g., Cue tip broke, Controller stopped working"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className="resize-none"
+              />
+            </div>
+            {selected?.crossActivity && (
+              <div className="flex items-center justify-between rounded-lg bg-primary/10 border border-primary/20 p-3">
+                <div>
+                  <p className="text-sm font-medium text-foreground">Waive price difference</p>
+                  <p className="text-xs text-muted-foreground">Keep the original rate for the time left</p>
+                </div>
+                <Switch checked={waiveDifference} onCheckedChange={setWaiveDifference} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="glow" disabled={loading || !unitId}>
+              {loading ? 'Moving...' : 'Move Session'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { ADMIN_BRANCH_EVENT, ADMIN_BRANCH_KEY } from '@/lib/api';
+
+const readBranch = (): string | null => localStorage.getItem(ADMIN_BRANCH_KEY);
+
+/**
+ * The branch picked in the admin branch switcher. Null means the server
+ * default: the staff member's own branch, or all branches for owners.
+ */
+export function useAdminBranch() {
+  const [branchId, setBranchId] = useState<string | null>(readBranch);
+
+  useEffect(() => {
+    const sync = () => setBranchId(readBranch());
+    window.addEventListener(ADMIN_BRANCH_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(ADMIN_BRANCH_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  return branchId;
+}
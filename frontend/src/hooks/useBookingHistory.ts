@@ -1,4 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { sessionsAPI, ordersAPI } from '@/lib/api';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 
 export interface BookingHistoryItem {
   id: string;
@@ -14,37 +16,117 @@ export interface BookingHistoryItem {
   reservationId?: string;
   activityId?: string;
   durationMinutes?: number;
+  // Full record as returned by the server, when the item came from there
+  details?: Record<string, unknown>;
 }
 
+// Bookings made on this device that the server can't list yet (e.g. reservations awaiting payment or approval)
 const STORAGE_KEY = 'a3houseoffriends_booking_history';
 
+const normalizePhone = (phone: string) => (phone || '').replace(/\D/g, '');
+
+const loadLocalHistory = (): BookingHistoryItem[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Error loading booking history:', e);
+    return [];
+  }
+};
+
 export function useBookingHistory() {
-  const [history, setHistory] = useState<BookingHistoryItem[]>([]);
+  const { customer } = useCustomerAuth();
+  const [localHistory, setLocalHistory] = useState<BookingHistoryItem[]>(loadLocalHistory);
+  const [serverHistory, setServerHistory] = useState<BookingHistoryItem[]>([]);
+  const [loading, setLoading] = useState(false);
 
-  useEffect(() => {
-    // Load from localStorage
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error('Error loading booking history:', e);
-      }
+  const refresh = useCallback(async () => {
+    if (!customer) {
+      setServerHistory([]);
+      return;
     }
-  }, []);
 
-  const addBooking = (booking: BookingHistoryItem) => {
-    const updated = [booking, ...history.filter(h => h.id !== booking.id)];
-    setHistory(updated);
+    setLoading(true);
+    try {
+      const [sessions, orders] = await Promise.all([
+        sessionsAPI.getByPhone(customer.phone),
+        ordersAPI.getByPhone(customer.phone),
+      ]);
+
+      setServerHistory([
+        ...sessions.map((s): BookingHistoryItem => ({
+          id: s.id,
+          type: 'session',
+          activityName: s.activityName,
+          activityId: s.activityId,
+          customerName: s.customerName,
+          customerPhone: s.customerPhone,
+          amount: s.amount,
+          status: s.status,
+          createdAt: s.createdAt,
+          sessionId: s.id,
+          reservationId: s.reservationId,
+          durationMinutes: s.duration,
+          details: s,
+        })),
+        ...orders.map((o): BookingHistoryItem => ({
+          id: o.id,
+          type: 'order',
+          customerName: customer.name || '',
+          customerPhone: customer.phone,
+          amount: o.totalAmount,
+          status: o.status,
+          createdAt: o.createdAt,
+          orderId: o.id,
+          details: o,
+        })),
+      ]);
+    } catch (error) {
+      console.error('Error loading booking history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const history = useMemo(() => {
+    const known = new Set<string>();
+    serverHistory.forEach(item => {
+      known.add(item.id);
+      if (item.reservationId) known.add(item.reservationId);
+    });
+
+    const pending = localHistory.filter(item => {
+      if (customer && normalizePhone(item.customerPhone) !== customer.phone) return false;
+      return ![item.id, item.sessionId, item.orderId, item.reservationId].some(id => id && known.has(id));
+    });
+
+    return [...pending, ...serverHistory].sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }, [localHistory, serverHistory, customer]);
+
+  const saveLocal = (updated: BookingHistoryItem[]) => {
+    setLocalHistory(updated);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
   };
 
+  const addBooking = (booking: BookingHistoryItem) => {
+    saveLocal([booking, ...localHistory.filter(h => h.id !== booking.id)]);
+  };
+
   const updateBooking = (id: string, updates: Partial<BookingHistoryItem>) => {
-    const updated = history.map(item =>
+    saveLocal(localHistory.map(item =>
       item.id === id ? { ...item, ...updates } : item
-    );
-    setHistory(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    ));
+    setServerHistory(current => current.map(item =>
+      item.id === id ? { ...item, ...updates } : item
+    ));
   };
 
   const getBooking = (id: string): BookingHistoryItem | undefined => {
@@ -52,18 +134,18 @@ export function useBookingHistory() {
   };
 
   const removeBooking = (id: string) => {
-    const updated = history.filter(item => item.id !== id);
-    setHistory(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    saveLocal(localHistory.filter(item => item.id !== id));
   };
 
   const clearHistory = () => {
-    setHistory([]);
+    setLocalHistory([]);
     localStorage.removeItem(STORAGE_KEY);
   };
 
   return {
     history,
+    loading,
+    refresh,
     addBooking,
     updateBooking,
     getBooking,
@@ -71,4 +153,3 @@ export function useBookingHistory() {
     clearHistory,
   };
 }
-
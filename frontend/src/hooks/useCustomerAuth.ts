@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { customerAuthAPI, CUSTOMER_AUTH_EVENT, CUSTOMER_KEY, CUSTOMER_TOKEN_KEY } from '@/lib/api';
+import { Customer } from '@/lib/types';
+
+const readCustomer = (): Customer | null => {
+  if (!localStorage.getItem(CUSTOMER_TOKEN_KEY)) {
+    return null;
+  }
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOMER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export function useCustomerAuth() {
+  const [customer, setCustomer] = useState<Customer | null>(readCustomer);
+
+  useEffect(() => {
+    const sync = () => setCustomer(readCustomer());
+    window.addEventListener(CUSTOMER_AUTH_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CUSTOMER_AUTH_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  return {
+    customer,
+    isSignedIn: !!customer,
+    requestOtp: customerAuthAPI.requestOtp,
+    verifyOtp: customerAuthAPI.verifyOtp,
+    signOut: customerAuthAPI.logout,
+  };
+}
@@ -35,11 +35,11 @@ export function useTimer(
   useEffect(() => {
     if (!sessionId) return;
 
-    const cleanup = on('timer_update', (data: { session_id: string; elapsed_seconds: number; remaining_seconds: number; new_end_time?: string }) => {
+    const cleanup = on('timer_update', (data: { session_id: string; elapsed_seconds: number; remaining_seconds: number | null; new_end_time?: string }) => {
       if (data.session_id === sessionId) {
         setTimer({
           elapsed: data.elapsed_seconds,
-          remaining: data.remaining_seconds,
+          remaining: data.remaining_seconds ?? 0, // null for open-ended sessions
           isActive: true,
           lastUpdate: Date.now(),
         });
@@ -49,15 +49,16 @@ export function useTimer(
     return cleanup;
   }, [sessionId, on]);
 
-  // Fallback: Calculate timer locally if WebSocket is not connected or no updates received
+  // Fallback: Calculate timer locally if WebSocket is not connected or no updates received.
+  // Without an end time the session is open-ended and only counts up.
   useEffect(() => {
-    if (!startTime || !endTime) return;
+    if (!startTime) return;
 
     // Always run local timer as fallback, WebSocket updates will override it
     const interval = setInterval(() => {
       const now = Date.now();
       const start = new Date(startTime).getTime();
-      const end = new Date(endTime).getTime();
+      const end = endTime ? new Date(endTime).getTime() : Infinity;
       
       // If paused, calculate elapsed time until pause started
       let elapsed: number;
@@ -74,7 +75,9 @@ export function useTimer(
       setTimer(prev => {
         // Calculate remaining time
         let remaining: number;
-        if (isPaused) {
+        if (!endTime) {
+          remaining = 0;
+        } else if (isPaused) {
           // When paused, remaining time stays the same (timer is frozen)
           remaining = prev.remaining || Math.max(0, Math.floor((end - now) / 1000));
         } else {
@@ -90,7 +93,7 @@ export function useTimer(
           return {
             elapsed: prev.elapsed + 1,
             remaining: localRemaining,
-            isActive: localRemaining > 0 && !isPaused,
+            isActive: (!endTime || localRemaining > 0) && !isPaused,
             lastUpdate: prev.lastUpdate, // Keep original WebSocket timestamp
           };
         }
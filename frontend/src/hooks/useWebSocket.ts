@@ -120,6 +120,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
         emit('join_order', { order_id: room.replace('order:', '') });
       } else if (room.startsWith('reservation:')) {
         emit('join_reservation', { reservation_id: room.replace('reservation:', '') });
+      } else if (room.startsWith('tournament:')) {
+        emit('join_tournament', { tournament_id: room.replace('tournament:', '') });
       }
     }
   }, [namespace, emit]);
@@ -1,15 +1,43 @@
+import { getQRContext } from './qr-context';
+import { ActivityAvailability, AgeConfirmation, BillSplit, BillSplitRequest, Branch, ChallengeVoteResult, LapEntry, LapLeaderboard, LapTime, SessionLaps, SmokingRoomOccupants, SmokingRoomState, TrackRecord, Leaderboard, LeaderboardPeriod, PlayerProfile, ScoreEventType, SnookerScoreboard, Tournament, TournamentRegistration, TournamentRequest, Coupon, CouponInput, CouponQuote, Customer, GroupBooking, GroupBookingRequest, LoyaltyMember, NoShowRecord, LoyaltyRedemption, LoyaltySummary, Package, PackagePurchase, SessionExtension, SessionTransferResult, PendingExtensionApproval, PriceQuote, PricingRule, Refund, RefundReasonCode, RefundResult, ReservationSeries, ReservationSeriesRequest, SeriesPreview } from './types';
+
 export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+export const CUSTOMER_TOKEN_KEY = 'customerToken';
+export const CUSTOMER_KEY = 'customer';
+export const CUSTOMER_AUTH_EVENT = 'customer-auth-changed';
+
+export const ADMIN_BRANCH_KEY = 'adminBranch';
+export const ADMIN_BRANCH_EVENT = 'admin-branch-changed';
+export const ALL_BRANCHES = 'all';
+
+// Admin pages use the branch picked in the switcher; customer pages the one on their QR code
+const getBranchHeader = (): HeadersInit => {
+  const branchId = window.location.pathname.startsWith('/admin')
+    ? localStorage.getItem(ADMIN_BRANCH_KEY)
+    : getQRContext().branchId;
+  return branchId ? { 'X-Branch-Id': branchId } : {};
+};
+
+const voteTokenHeaders = (voteToken?: string): HeadersInit =>
+  voteToken ? { 'X-Vote-Token': voteToken } : {};
+
+const visitTokenHeaders = (visitToken?: string): HeadersInit =>
+  visitToken ? { 'X-Visit-Token': visitToken } : {};
+
+// tokenKey picks which stored token to send: staff ('authToken') or customer (CUSTOMER_TOKEN_KEY)
 async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  tokenKey = 'authToken'
 ): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
-  const token = localStorage.getItem('authToken');
+  const token = localStorage.getItem(tokenKey);
 
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     ...(token && { Authorization: `Bearer ${token}` }),
+    ...getBranchHeader(),
     ...options.headers,
   };
 
@@ -33,7 +61,11 @@ async function apiRequest<T>(
     }
 
     if (response.status === 401) {
-      localStorage.removeItem('authToken');
+      localStorage.removeItem(tokenKey);
+      if (tokenKey === CUSTOMER_TOKEN_KEY) {
+        localStorage.removeItem(CUSTOMER_KEY);
+        window.dispatchEvent(new Event(CUSTOMER_AUTH_EVENT));
+      }
       throw new Error(errorMessage || 'Unauthorized. Please sign in again.');
     }
 
@@ -66,6 +98,7 @@ export const authAPI = {
     });
     if (data.token) {
       localStorage.setItem('authToken', data.token);
+      localStorage.removeItem(ADMIN_BRANCH_KEY);
     }
     return data;
   },
@@ -76,6 +109,64 @@ export const authAPI = {
 
   logout: () => {
     localStorage.removeItem('authToken');
+    localStorage.removeItem(ADMIN_BRANCH_KEY);
+  },
+};
+
+export const branchesAPI = {
+  getAll: async () => {
+    return apiRequest<Branch[]>('/branches');
+  },
+
+  create: async (branch: Omit<Branch, 'id'>) => {
+    return apiRequest<Branch>('/branches', {
+      method: 'POST',
+      body: JSON.stringify(branch),
+    });
+  },
+
+  update: async (id: string, branch: Partial<Omit<Branch, 'id' | 'code'>>) => {
+    return apiRequest<Branch>(`/branches/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(branch),
+    });
+  },
+
+  select: (branchId: string) => {
+    localStorage.setItem(ADMIN_BRANCH_KEY, branchId);
+    window.dispatchEvent(new Event(ADMIN_BRANCH_EVENT));
+  },
+};
+
+export const customerAuthAPI = {
+  requestOtp: async (phone: string) => {
+    return apiRequest<{ message: string; expiresIn: number; retryAfter: number }>('/customer-auth/otp', {
+      method: 'POST',
+      body: JSON.stringify({ phone }),
+    });
+  },
+
+  verifyOtp: async (phone: string, code: string, name?: string) => {
+    const data = await apiRequest<{ token: string; customer: Customer }>('/customer-auth/verify', {
+      method: 'POST',
+      body: JSON.stringify({ phone, code, name }),
+    });
+    if (data.token) {
+      localStorage.setItem(CUSTOMER_TOKEN_KEY, data.token);
+      localStorage.setItem(CUSTOMER_KEY, JSON.stringify(data.customer));
+      window.dispatchEvent(new Event(CUSTOMER_AUTH_EVENT));
+    }
+    return data;
+  },
+
+  getMe: async () => {
+    return apiRequest<Customer>('/customer-auth/me', {}, CUSTOMER_TOKEN_KEY);
+  },
+
+  logout: () => {
+    localStorage.removeItem(CUSTOMER_TOKEN_KEY);
+    localStorage.removeItem(CUSTOMER_KEY);
+    window.dispatchEvent(new Event(CUSTOMER_AUTH_EVENT));
   },
 };
 
@@ -87,6 +178,165 @@ export const activitiesAPI = {
   getById: async (id: string) => {
     return apiRequest<any>(`/activities/${id}`);
   },
+
+  getAvailability: async (id: string, date: string, duration?: number) => {
+    const params = new URLSearchParams({ date });
+    if (duration) {
+      params.append('duration', duration.toString());
+    }
+    return apiRequest<ActivityAvailability>(`/activities/${id}/availability?${params.toString()}`);
+  },
+
+  getQuote: async (id: string, duration: number, startTime?: string, phone?: string) => {
+    const params = new URLSearchParams({ duration: duration.toString() });
+    if (startTime) {
+      params.append('startTime', startTime);
+    }
+    if (phone) {
+      params.append('phone', phone);
+    }
+    // The tier discount is only quoted to the customer signed in with that phone
+    return apiRequest<PriceQuote>(`/activities/${id}/quote?${params.toString()}`, {}, phone ? CUSTOMER_TOKEN_KEY : undefined);
+  },
+};
+
+export const pricingRulesAPI = {
+  getAll: async () => {
+    return apiRequest<PricingRule[]>('/pricing-rules');
+  },
+
+  create: async (ruleData: Partial<Omit<PricingRule, 'id' | 'activityIds'>> & { activityIds?: string[] }) => {
+    return apiRequest<PricingRule>('/pricing-rules', {
+      method: 'POST',
+      body: JSON.stringify(ruleData),
+    });
+  },
+
+  update: async (id: string, ruleData: Partial<Omit<PricingRule, 'id' | 'activityIds'>> & { activityIds?: string[] }) => {
+    return apiRequest<PricingRule>(`/pricing-rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(ruleData),
+    });
+  },
+
+  delete: async (id: string) => {
+    return apiRequest<{ message: string }>(`/pricing-rules/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const loyaltyAPI = {
+  getMine: async () => {
+    return apiRequest<LoyaltySummary>('/loyalty/me', {}, CUSTOMER_TOKEN_KEY);
+  },
+
+  redeem: async (type: 'reservation' | 'order', entityId: string, points: number) => {
+    return apiRequest<LoyaltyRedemption>('/loyalty/redeem', {
+      method: 'POST',
+      body: JSON.stringify({ type, entityId, points }),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  getMembers: async (search?: string) => {
+    const params = search ? `?search=${encodeURIComponent(search)}` : '';
+    return apiRequest<LoyaltyMember[]>(`/loyalty/members${params}`);
+  },
+
+  getMember: async (phone: string) => {
+    return apiRequest<LoyaltySummary>(`/loyalty/members/${phone}`);
+  },
+};
+
+export const couponsAPI = {
+  validate: async (data: {
+    code: string;
+    type: 'reservation' | 'order';
+    entityId?: string;
+    customerPhone?: string;
+    items?: { menuItemId: string; quantity: number }[];
+  }) => {
+    return apiRequest<CouponQuote & { valid: boolean }>('/coupons/validate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  apply: async (code: string, type: 'reservation' | 'order', entityId: string) => {
+    return apiRequest<CouponQuote & { success: boolean; message: string }>('/coupons/apply', {
+      method: 'POST',
+      body: JSON.stringify({ code, type, entityId }),
+    });
+  },
+
+  getAll: async () => {
+    return apiRequest<Coupon[]>('/coupons');
+  },
+
+  create: async (couponData: CouponInput) => {
+    return apiRequest<Coupon>('/coupons', {
+      method: 'POST',
+      body: JSON.stringify(couponData),
+    });
+  },
+
+  update: async (id: string, couponData: CouponInput) => {
+    return apiRequest<Coupon>(`/coupons/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(couponData),
+    });
+  },
+
+  delete: async (id: string) => {
+    return apiRequest<{ message: string }>(`/coupons/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const packagesAPI = {
+  getAll: async (activityId?: string, enabledOnly = false) => {
+    const params = new URLSearchParams();
+    if (activityId) params.append('activityId', activityId);
+    if (enabledOnly) params.append('enabled', 'true');
+    const query = params.toString();
+    return apiRequest<Package[]>(`/packages${query ? `?${query}` : ''}`);
+  },
+
+  create: async (packData: Partial<Omit<Package, 'id'>>) => {
+    return apiRequest<Package>('/packages', {
+      method: 'POST',
+      body: JSON.stringify(packData),
+    });
+  },
+
+  update: async (id: string, packData: Partial<Omit<Package, 'id'>>) => {
+    return apiRequest<Package>(`/packages/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(packData),
+    });
+  },
+
+  delete: async (id: string) => {
+    return apiRequest<{ message: string }>(`/packages/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  purchase: async (id: string, customerName?: string) => {
+    return apiRequest<PackagePurchase>(`/packages/${id}/purchase`, {
+      method: 'POST',
+      body: JSON.stringify({ customerName }),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  getWallet: async () => {
+    return apiRequest<PackagePurchase[]>('/packages/wallet', {}, CUSTOMER_TOKEN_KEY);
+  },
+
+  getCustomerWallet: async (phone: string) => {
+    return apiRequest<PackagePurchase[]>(`/packages/wallet/${phone}`);
+  },
 };
 
 export const sessionsAPI = {
@@ -116,10 +366,32 @@ export const sessionsAPI = {
     return apiRequest<{ sessions: any[]; total: number; limit: number; offset: number }>(`/sessions/history?${params.toString()}`);
   },
 
-  extend: async (id: string, additionalMinutes: number) => {
-    return apiRequest<any>(`/sessions/${id}/extend`, {
+  // Staff extend from the desk; players pass `player` to send their own token or a challenge voting link token
+  extend: async (id: string, additionalMinutes: number, player?: { voteToken?: string }) => {
+    return apiRequest<{ extension: SessionExtension; additionalAmount: number }>(`/sessions/${id}/extend`, {
       method: 'POST',
       body: JSON.stringify({ additionalMinutes }),
+      headers: voteTokenHeaders(player?.voteToken),
+    }, player ? CUSTOMER_TOKEN_KEY : undefined);
+  },
+
+  checkIn: async (id: string) => {
+    return apiRequest<{ id: string; status: string; startTime: string; checkedInAt: string }>(`/sessions/${id}/check-in`, {
+      method: 'POST',
+    });
+  },
+
+  checkInAtUnit: async (unitId: string) => {
+    return apiRequest<{ id: string; status: string; startTime: string; endTime: string; checkedInAt: string }>('/sessions/check-in', {
+      method: 'POST',
+      body: JSON.stringify({ unitId }),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  transfer: async (id: string, data: { unitId: string; reason?: string; waiveDifference?: boolean }) => {
+    return apiRequest<SessionTransferResult>(`/sessions/${id}/transfer`, {
+      method: 'POST',
+      body: JSON.stringify(data),
     });
   },
 
@@ -144,7 +416,7 @@ export const sessionsAPI = {
   },
 
   getByPhone: async (phone: string) => {
-    return apiRequest<any[]>(`/sessions/phone/${phone}`);
+    return apiRequest<any[]>(`/sessions/phone/${phone}?limit=50`, {}, CUSTOMER_TOKEN_KEY);
   },
 
   createChallenge: async (challengeData: any) => {
@@ -154,13 +426,45 @@ export const sessionsAPI = {
     });
   },
 
-  voteWinner: async (sessionId: string, winnerName: string, voterName: string) => {
-    return apiRequest<any>(`/sessions/${sessionId}/vote-winner`, {
+  voteWinner: async (sessionId: string, winnerName: string, token: string) => {
+    return apiRequest<ChallengeVoteResult>(`/sessions/${sessionId}/vote-winner`, {
       method: 'POST',
-      body: JSON.stringify({ winnerName, voterName }),
+      body: JSON.stringify({ winnerName, token }),
     });
   },
 
+  // Scoring needs the signed-in customer's token, or a challenge player's voting link token
+  startScoreboard: async (sessionId: string, data: { players?: string[]; bestOf?: number }, voteToken?: string) => {
+    return apiRequest<SnookerScoreboard>(`/sessions/${sessionId}/scoreboard`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      headers: voteTokenHeaders(voteToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  addScore: async (sessionId: string, data: { type: ScoreEventType; player: string; points: number }, voteToken?: string) => {
+    return apiRequest<SnookerScoreboard>(`/sessions/${sessionId}/scoreboard/events`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      headers: voteTokenHeaders(voteToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  undoScore: async (sessionId: string, voteToken?: string) => {
+    return apiRequest<SnookerScoreboard>(`/sessions/${sessionId}/scoreboard/undo`, {
+      method: 'POST',
+      headers: voteTokenHeaders(voteToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  endFrame: async (sessionId: string, winner?: string, voteToken?: string) => {
+    return apiRequest<SnookerScoreboard & { challengeWinner?: string }>(`/sessions/${sessionId}/scoreboard/frames/end`, {
+      method: 'POST',
+      body: JSON.stringify({ winner }),
+      headers: voteTokenHeaders(voteToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
   selectWinner: async (sessionId: string, winnerName: string, selectedBy: 'admin' = 'admin') => {
     return apiRequest<any>(`/sessions/${sessionId}/select-winner`, {
       method: 'POST',
@@ -192,7 +496,7 @@ export const ordersAPI = {
   },
 
   getByPhone: async (phone: string) => {
-    return apiRequest<any[]>(`/orders/phone/${phone}`);
+    return apiRequest<any[]>(`/orders/phone/${phone}?limit=50`, {}, CUSTOMER_TOKEN_KEY);
   },
 
   getAll: async (limit = 100, offset = 0) => {
@@ -247,12 +551,36 @@ export const queueAPI = {
     });
   },
 
+  getPendingExtensionApprovals: async () => {
+    return apiRequest<PendingExtensionApproval[]>('/queue/approvals/extensions');
+  },
+
+  approveExtensionPayment: async (extensionId: string) => {
+    return apiRequest<{ success: boolean; message: string; extensionId: string }>('/queue/approve-extension', {
+      method: 'POST',
+      body: JSON.stringify({ extensionId }),
+    });
+  },
+
+  rejectExtensionPayment: async (extensionId: string) => {
+    return apiRequest<{ success: boolean; message: string; extensionId: string }>('/queue/reject-extension', {
+      method: 'POST',
+      body: JSON.stringify({ extensionId }),
+    });
+  },
+
   // Waiting queue methods
   getWaitingQueue: async (activityId?: string) => {
     const query = activityId ? `?activityId=${activityId}` : '';
     return apiRequest<any[]>(`/queue/waiting${query}`);
   },
 
+  markQueueEntryRefunded: async (id: string) => {
+    return apiRequest<{ success: boolean; message: string; id: string }>(`/queue/waiting/${id}/refunded`, {
+      method: 'POST',
+    });
+  },
+
   processQueue: async (activityId: string) => {
     return apiRequest<any>('/queue/process', {
       method: 'POST',
@@ -305,6 +633,7 @@ export const revenueAPI = {
     const response = await fetch(`${API_BASE_URL}/revenue/export${query ? `?${query}` : ''}`, {
       headers: {
         ...(token && { Authorization: `Bearer ${token}` }),
+        ...getBranchHeader(),
       },
     });
     if (!response.ok) throw new Error('Export failed');
@@ -325,10 +654,11 @@ export const revenueAPI = {
 
 export const reservationsAPI = {
   create: async (reservationData: any) => {
+    // Paying from a pack or getting the member discount needs the signed-in customer's token
     return apiRequest<any>('/reservations', {
       method: 'POST',
       body: JSON.stringify(reservationData),
-    });
+    }, CUSTOMER_TOKEN_KEY);
   },
 
   getById: async (id: string) => {
@@ -354,7 +684,7 @@ export const reservationsAPI = {
     return apiRequest<any>('/reservations/join-queue', {
       method: 'POST',
       body: JSON.stringify(data),
-    });
+    }, CUSTOMER_TOKEN_KEY);
   },
 
   exitQueue: async (reservationId: string) => {
@@ -365,6 +695,224 @@ export const reservationsAPI = {
   },
 };
 
+export const groupBookingsAPI = {
+  create: async (data: GroupBookingRequest) => {
+    return apiRequest<GroupBooking>('/group-bookings', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  getById: async (id: string) => {
+    return apiRequest<GroupBooking>(`/group-bookings/${id}`);
+  },
+};
+
+export const billSplitsAPI = {
+  // Like scoring, splitting needs the signed-in customer's token or a challenge player's voting link token
+  create: async (data: BillSplitRequest, voteToken?: string) => {
+    return apiRequest<BillSplit>('/bill-splits', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      headers: voteTokenHeaders(voteToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  getById: async (id: string) => {
+    return apiRequest<BillSplit>(`/bill-splits/${id}`);
+  },
+
+  getForSession: async (sessionId: string) => {
+    return apiRequest<BillSplit>(`/bill-splits/session/${sessionId}`);
+  },
+};
+
+export const tournamentsAPI = {
+  getAll: async (status?: string) => {
+    const query = status ? `?status=${status}` : '';
+    return apiRequest<Tournament[]>(`/tournaments${query}`);
+  },
+
+  getById: async (id: string) => {
+    return apiRequest<Tournament>(`/tournaments/${id}`);
+  },
+
+  register: async (id: string, data: { name: string; phone: string }) => {
+    return apiRequest<TournamentRegistration>(`/tournaments/${id}/register`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  create: async (data: TournamentRequest) => {
+    return apiRequest<Tournament>('/tournaments', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  start: async (id: string) => {
+    return apiRequest<Tournament>(`/tournaments/${id}/start`, {
+      method: 'POST',
+    });
+  },
+
+  scheduleMatch: async (id: string, matchId: string, data: { unitId: string; startTime?: string }) => {
+    return apiRequest<Tournament & { sessionId: string }>(`/tournaments/${id}/matches/${matchId}/schedule`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  cancel: async (id: string) => {
+    return apiRequest<Tournament>(`/tournaments/${id}/cancel`, {
+      method: 'POST',
+    });
+  },
+};
+
+export const playersAPI = {
+  getLeaderboard: async (activityType: string, period: LeaderboardPeriod = 'all') => {
+    return apiRequest<Leaderboard>(`/players/leaderboard?activityType=${activityType}&period=${period}`);
+  },
+
+  getById: async (id: string) => {
+    return apiRequest<PlayerProfile>(`/players/${id}`);
+  },
+};
+
+export const lapsAPI = {
+  getSessionLaps: async (sessionId: string) => {
+    return apiRequest<SessionLaps>(`/laps/sessions/${sessionId}`);
+  },
+
+  getLeaderboard: async (track: string, car?: string, period: LeaderboardPeriod = 'all') => {
+    const carQuery = car ? `&car=${encodeURIComponent(car)}` : '';
+    return apiRequest<LapLeaderboard>(`/laps/leaderboard?track=${encodeURIComponent(track)}${carQuery}&period=${period}`);
+  },
+
+  getRecords: async () => {
+    return apiRequest<TrackRecord[]>('/laps/records');
+  },
+
+  add: async (sessionId: string, data: { track?: string; car?: string; driverName?: string; laps: LapEntry[] }) => {
+    return apiRequest<{ laps: LapTime[]; newRecords: LapTime[] }>(`/laps/sessions/${sessionId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  import: async (sessionId: string, data: { format: 'csv' | 'json'; content: string; track?: string; car?: string; driverName?: string }) => {
+    return apiRequest<{ laps: LapTime[]; newRecords: LapTime[] }>(`/laps/sessions/${sessionId}/import`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  delete: async (id: string) => {
+    return apiRequest<{ message: string }>(`/laps/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const smokingRoomAPI = {
+  // The visit is only shown, and can only be ended, by the customer or the browser holding its token
+  getStatus: async (phone?: string, visitToken?: string) => {
+    const query = phone ? `?phone=${encodeURIComponent(phone)}` : '';
+    return apiRequest<SmokingRoomState>(`/smoking-room${query}`, {
+      headers: visitTokenHeaders(visitToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  enter: async (data: { phone: string; name?: string; ageConfirmed: true }, visitToken?: string) => {
+    return apiRequest<SmokingRoomState>('/smoking-room/enter', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      headers: visitTokenHeaders(visitToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  exit: async (phone: string, visitToken?: string) => {
+    return apiRequest<SmokingRoomState>('/smoking-room/exit', {
+      method: 'POST',
+      body: JSON.stringify({ phone }),
+      headers: visitTokenHeaders(visitToken),
+    }, CUSTOMER_TOKEN_KEY);
+  },
+
+  getOccupants: async () => {
+    return apiRequest<SmokingRoomOccupants>('/smoking-room/occupants');
+  },
+
+  checkOut: async (visitId: string) => {
+    return apiRequest<SmokingRoomState>(`/smoking-room/visits/${visitId}/check-out`, {
+      method: 'POST',
+    });
+  },
+
+  getAgeConfirmations: async (date: string) => {
+    return apiRequest<AgeConfirmation[]>(`/smoking-room/age-confirmations?date=${date}`);
+  },
+};
+
+export const customersAPI = {
+  getNoShows: async (search?: string) => {
+    const query = search ? `?search=${encodeURIComponent(search)}` : '';
+    return apiRequest<NoShowRecord[]>(`/customers/no-shows${query}`);
+  },
+
+  setPrepaymentRequired: async (phone: string, required: boolean) => {
+    return apiRequest<NoShowRecord>(`/customers/${phone}/prepayment`, {
+      method: 'PUT',
+      body: JSON.stringify({ required }),
+    });
+  },
+};
+
+export const reservationSeriesAPI = {
+  getAll: async (status?: string) => {
+    const query = status ? `?status=${status}` : '';
+    return apiRequest<ReservationSeries[]>(`/reservation-series${query}`);
+  },
+
+  getById: async (id: string) => {
+    return apiRequest<ReservationSeries>(`/reservation-series/${id}`);
+  },
+
+  preview: async (data: ReservationSeriesRequest) => {
+    return apiRequest<SeriesPreview>('/reservation-series/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  create: async (data: ReservationSeriesRequest) => {
+    return apiRequest<ReservationSeries>('/reservation-series', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  markPaid: async (id: string) => {
+    return apiRequest<ReservationSeries>(`/reservation-series/${id}/mark-paid`, {
+      method: 'POST',
+    });
+  },
+
+  cancelOccurrence: async (id: string, reservationId: string) => {
+    return apiRequest<ReservationSeries & { refundedAmount: number; refundFailure?: string }>(`/reservation-series/${id}/occurrences/${reservationId}/cancel`, {
+      method: 'POST',
+    });
+  },
+
+  cancel: async (id: string) => {
+    return apiRequest<ReservationSeries & { cancelledCount: number; refundedAmount: number; refundFailures: number }>(`/reservation-series/${id}/cancel`, {
+      method: 'POST',
+    });
+  },
+};
+
 export const paymentsAPI = {
   createOrder: async (paymentData: any) => {
     return apiRequest<any>('/payments/create-order', {
@@ -386,6 +934,22 @@ export const paymentsAPI = {
       body: JSON.stringify(paymentData),
     });
   },
+
+  refund: async (id: string, refundData: {
+    type: 'session' | 'order';
+    amount?: number;
+    reasonCode: RefundReasonCode;
+    notes?: string;
+  }) => {
+    return apiRequest<RefundResult>(`/payments/${id}/refund`, {
+      method: 'POST',
+      body: JSON.stringify(refundData),
+    });
+  },
+
+  getRefunds: async (id: string, type: 'session' | 'order') => {
+    return apiRequest<Refund[]>(`/payments/${id}/refunds?type=${type}`);
+  },
 };
 
 export const inventoryAPI = {
@@ -481,6 +1045,7 @@ export const inventoryAPI = {
     const response = await fetch(`${API_BASE_URL}/inventory/items/export/csv`, {
       headers: {
         ...(token && { Authorization: `Bearer ${token}` }),
+        ...getBranchHeader(),
       },
     });
     if (!response.ok) throw new Error('Export failed');
@@ -502,6 +1067,7 @@ export const inventoryAPI = {
       method: 'POST',
       headers: {
         ...(token && { Authorization: `Bearer ${token}` }),
+        ...getBranchHeader(),
       },
       body: formData,
     });
@@ -0,0 +1,27 @@
+/**
+ * The phone a customer scanned into the smoking room with, so scanning the
+ * door code again on the way out needs no typing, and the token that proves
+ * this browser is the one that scanned in
+ */
+const SMOKING_ROOM_PHONE_KEY = 'smokingRoomPhone';
+const SMOKING_ROOM_VISIT_TOKEN_KEY = 'smokingRoomVisitToken';
+
+export const storeSmokingRoomPhone = (phone: string): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SMOKING_ROOM_PHONE_KEY, phone);
+};
+
+export const getStoredSmokingRoomPhone = (): string => {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(SMOKING_ROOM_PHONE_KEY) || '';
+};
+
+export const storeSmokingRoomVisitToken = (token: string): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SMOKING_ROOM_VISIT_TOKEN_KEY, token);
+};
+
+export const getStoredSmokingRoomVisitToken = (): string | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  return localStorage.getItem(SMOKING_ROOM_VISIT_TOKEN_KEY) || undefined;
+};
@@ -55,9 +55,10 @@ export const getServiceById = (id: ServiceType): Service => {
 export type ActivityType = 'snooker-standard' | 'snooker-premium' | 'playstation' | 'racing';
 export type PricingType = 'per-minute' | 'per-hour' | 'fixed-duration';
 export type MenuCategory = 'chinese' | 'sandwiches' | 'pasta' | 'beverages';
-export type SessionStatus = 'pending' | 'active' | 'paused' | 'completed' | 'ended' | 'cancelled';
+export type SessionStatus = 'pending' | 'scheduled' | 'active' | 'paused' | 'completed' | 'ended' | 'cancelled' | 'no_show' | 'awaiting_payment';
+export type BillingMode = 'prepaid' | 'postpaid';
 export type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'completed' | 'cancelled';
-export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
 
 export interface QRContext {
   branchId?: string;
@@ -65,6 +66,27 @@ export interface QRContext {
   tableId?: string;
 }
 
+export interface Branch {
+  id: string;
+  code: string; // used as ?branch= on QR codes
+  name: string;
+  address?: string;
+  phone?: string;
+  enabled: boolean;
+}
+
+export interface BranchRevenue {
+  branchId: string;
+  name: string;
+  totalRevenue: number;
+  grossRevenue: number;
+  couponDiscountTotal: number;
+  sessionRevenue: number;
+  orderRevenue: number;
+  packageRevenue: number;
+  refundTotal: number;
+}
+
 export interface ActivityUnit {
   id: string;
   name: string;
@@ -83,7 +105,35 @@ export interface Activity {
   units: ActivityUnit[];
   enabled: boolean;
   bufferTime: number; // in minutes
+  claimWindowMinutes?: number; // how long a called queue customer has to claim a unit
+  noShowGraceMinutes?: number; // how long after the start a booking waits for check-in
+  capacity?: number; // smoking room: how many people may be inside at once
   peakMultiplier?: number;
+  loyaltyPointsPerRupee?: number;
+}
+
+export interface AvailabilitySlot {
+  startTime: string;
+  endTime: string;
+  available: boolean;
+}
+
+export interface UnitAvailability {
+  id: string;
+  name: string;
+  status: 'available' | 'occupied' | 'maintenance';
+  slots: AvailabilitySlot[];
+}
+
+export interface ActivityAvailability {
+  activityId: ActivityType;
+  date: string;
+  duration: number;
+  bufferTime: number;
+  slotMinutes: number;
+  openingTime: string;
+  closingTime: string;
+  units: UnitAvailability[];
 }
 
 export interface MenuItem {
@@ -120,6 +170,25 @@ export interface ChallengeSession {
   totalPlayers: number;
   challengeStartedBy: string;
   challengeStartedByPhone: string;
+  disputed?: boolean; // the votes disagreed, so staff pick the winner
+  disputedAt?: Date;
+  disputeResolvedAt?: Date;
+}
+
+// A player's own voting link, shown on the starter's screen when it wasn't texted
+export interface ChallengeVoteLink {
+  playerName: string;
+  token: string;
+  link: string;
+}
+
+export interface ChallengeVoteResult {
+  id: string;
+  challengeData: ChallengeSession;
+  voter: string;
+  allVoted: boolean;
+  disputed: boolean;
+  winner?: string;
 }
 
 export interface Session {
@@ -129,9 +198,10 @@ export interface Session {
   customerName: string;
   customerPhone: string;
   startTime: Date;
-  endTime: Date;
+  endTime: Date; // unset for open-ended sessions until they end
   duration: number; // in minutes
   status: SessionStatus;
+  billingMode?: BillingMode; // postpaid sessions count up and are billed when they end
   totalAmount: number;
   amount?: number;
   finalAmount?: number;
@@ -140,9 +210,527 @@ export interface Session {
   pauseHistory?: PauseEntry[];
   totalPausedDuration?: number;
   currentPauseStart?: Date;
+  extended?: boolean;
   // Challenge/Friends session
   isChallengeSession?: boolean;
   challengeData?: ChallengeSession;
+  paymentMethod?: 'online' | 'offline' | 'package';
+  packagePurchaseId?: string;
+  packagePurchase?: PackagePurchase | null;
+  activityName?: string;
+  unitName?: string;
+  groupBookingId?: string; // sessions booked together share one window
+  checkInDeadline?: string; // booked slots are released if nobody checks in by then
+  checkedInAt?: string;
+  paymentDueBy?: string; // a billed open-ended session holds its unit for payment until then
+  paymentOverdueAt?: string; // the bill went unpaid past paymentDueBy, so staff collect it at the counter
+  transferHistory?: SessionTransfer[];
+  scoreboard?: SnookerScoreboard; // snooker frame scoring, when the players turned it on
+}
+
+export type ScoreEventType = 'points' | 'break' | 'foul';
+
+export interface ScoreFrame {
+  number: number;
+  points: number[]; // per player, in scoreboard order
+  highestBreaks: number[];
+  fouls: number[];
+  events: Array<{ id: string; type: ScoreEventType; player: string; points: number; createdAt: string }>;
+  winner?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface SnookerScoreboard {
+  players: string[];
+  bestOf?: number;
+  framesWon: number[];
+  highestBreaks: number[];
+  frames: ScoreFrame[]; // the last one is in play until the match is won
+  winner?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface SessionTransfer {
+  fromUnitId: string;
+  toUnitId: string;
+  fromActivityId: string;
+  toActivityId: string;
+  transferredAt: string;
+  remainingMinutes: number;
+  priceDifference: number;
+  reason?: string;
+}
+
+export interface SessionTransferResult {
+  id: string;
+  activityType: ActivityType;
+  unitId: string;
+  status: SessionStatus;
+  amount: number;
+  remainingMinutes: number;
+  priceDifference: number;
+  amountDue: number; // collect at the counter
+  amountToRefund: number;
+  transferHistory: SessionTransfer[];
+}
+
+export type BillSplitMode = 'even' | 'custom' | 'loser_pays';
+
+export interface BillShare {
+  id: string;
+  playerName: string;
+  amount: number;
+  status: 'pending' | 'paid' | 'offline';
+  paidAt?: string;
+  paymentLink: string;
+}
+
+export interface BillSplit {
+  id: string;
+  sessionId: string;
+  orderIds: string[];
+  mode: BillSplitMode;
+  sessionAmount: number;
+  ordersAmount: number; // unpaid food orders folded into the split
+  totalAmount: number;
+  status: 'open' | 'settled' | 'cancelled';
+  settledAt?: string;
+  createdAt: string;
+  shares: BillShare[];
+}
+
+export interface BillSplitRequest {
+  sessionId: string;
+  mode: BillSplitMode;
+  amounts?: Array<{ playerName: string; amount: number }>; // custom splits only
+}
+
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  position: number;
+  player1?: string; // empty until the feeder match is decided
+  player2?: string;
+  winner?: string;
+  status: 'pending' | 'scheduled' | 'in_progress' | 'completed' | 'bye';
+  sessionId?: string;
+  unitId?: string;
+  scheduledAt?: string;
+}
+
+export interface TournamentStanding {
+  playerId: string;
+  name: string;
+  played: number;
+  wins: number;
+  seed: number;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  activityId: ActivityType;
+  format: TournamentFormat;
+  entryFee: number;
+  maxPlayers: number;
+  matchDuration: number;
+  startsAt: string;
+  status: 'registration' | 'in_progress' | 'completed' | 'cancelled';
+  playerCount: number; // paid players
+  players: Array<{ id: string; name: string; paid: boolean; seed?: number }>;
+  rounds: number;
+  matches: TournamentMatch[];
+  standings?: TournamentStanding[]; // round robin only
+  winner?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface TournamentRequest {
+  name: string;
+  activityId: string;
+  format: TournamentFormat;
+  entryFee?: number;
+  maxPlayers: number;
+  matchDuration?: number;
+  startsAt: string;
+}
+
+export interface TournamentRegistration {
+  tournamentId: string;
+  playerId: string;
+  name: string;
+  entryFee: number;
+  paymentStatus: 'pending' | 'paid' | 'offline';
+}
+
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'all';
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  name: string;
+  rating: number;
+  played: number;
+  wins: number;
+  losses: number;
+  ratingChange?: number; // gained in the period; weekly and monthly boards only
+}
+
+export interface Leaderboard {
+  activityType: ActivityType;
+  period: LeaderboardPeriod;
+  entries: LeaderboardEntry[];
+}
+
+export interface LapTime {
+  id: string;
+  sessionId: string;
+  driverName: string;
+  track: string;
+  car: string;
+  lapNumber: number;
+  lapTimeMs: number;
+  valid: boolean; // invalid laps never count towards records
+  source: 'manual' | 'import';
+  setAt: string;
+}
+
+export interface SessionLaps {
+  sessionId: string;
+  laps: LapTime[];
+  bestLaps: Array<LapTime & { isTrackRecord: boolean }>; // one per track and car driven
+}
+
+export interface LapSummary {
+  count: number;
+  bestLapMs?: number;
+  track: string;
+  car: string;
+}
+
+export interface LapLeaderboardEntry {
+  rank: number;
+  driverName: string;
+  car: string;
+  lapTimeMs: number;
+  setAt: string;
+  sessionId: string;
+}
+
+export interface LapLeaderboard {
+  track: string;
+  car?: string;
+  period: LeaderboardPeriod;
+  entries: LapLeaderboardEntry[];
+}
+
+export interface TrackRecord {
+  track: string;
+  car: string;
+  driverName: string;
+  lapTimeMs: number;
+  setAt: string;
+  laps: number; // valid laps driven on this track and car
+}
+
+export interface LapEntry {
+  time: string | number; // seconds or m:ss.sss
+  lapNumber?: number;
+  driverName?: string;
+  valid?: boolean;
+}
+
+export type SmokingRoomVisitStatus = 'waiting' | 'called' | 'inside' | 'left' | 'expired';
+
+export interface SmokingRoomVisit {
+  id: string;
+  customerName?: string;
+  customerPhone: string;
+  status: SmokingRoomVisitStatus;
+  position?: number; // place in the queue while waiting
+  ageConfirmedAt: string;
+  queuedAt?: string;
+  calledAt?: string;
+  claimDeadline?: string; // a called customer must scan in before this
+  enteredAt?: string;
+  exitedAt?: string;
+  exitedBy?: 'customer' | 'staff' | 'auto';
+}
+
+export interface SmokingRoomStatus {
+  activityId: string;
+  branchId: string;
+  name: string;
+  capacity: number;
+  occupancy: number;
+  held: number; // spots kept for called customers
+  available: number;
+  queueLength: number;
+}
+
+export interface SmokingRoomState extends SmokingRoomStatus {
+  visit: SmokingRoomVisit | null;
+  visitToken?: string; // only when scanning in started a new visit
+}
+
+export interface SmokingRoomOccupants extends SmokingRoomStatus {
+  visits: SmokingRoomVisit[];
+}
+
+export interface AgeConfirmation {
+  visitId: string;
+  customerPhone: string;
+  customerName?: string;
+  confirmedAt: string;
+  status: SmokingRoomVisitStatus;
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  ratings: Array<{
+    activityType: ActivityType;
+    rating: number;
+    played: number;
+    wins: number;
+    losses: number;
+    lastPlayedAt?: string;
+  }>;
+  headToHead: Array<{ playerId: string; name: string; activityType: ActivityType; wins: number; losses: number }>;
+  recentResults: Array<{
+    activityType: ActivityType;
+    playedAt: string;
+    won: boolean;
+    ratingChange: number;
+    opponents: string[];
+  }>;
+}
+
+export interface NoShowRecord {
+  phone: string;
+  name?: string;
+  noShowCount: number;
+  lastNoShowAt?: string;
+  prepaymentRequired: boolean;
+}
+
+export interface PriceLineItem {
+  label: string;
+  ruleId?: string;
+  startTime: string;
+  endTime: string;
+  minutes: number;
+  rate: number;
+  multiplier: number;
+  amount: number;
+  discountPercent?: number; // membership discount line, with a negative amount
+}
+
+export interface PriceQuote {
+  activityId: string;
+  duration: number;
+  startTime: string;
+  amount: number;
+  priceBreakdown: PriceLineItem[];
+}
+
+export type PricingAdjustmentType = 'multiplier' | 'flat_rate';
+
+export interface PricingRule {
+  id: string;
+  name: string;
+  activityIds: Array<{ _id: string; name: string; type: string }>;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  dateRanges: Array<{ start: string; end: string; label?: string }>;
+  adjustmentType: PricingAdjustmentType;
+  multiplier?: number;
+  flatRate?: number;
+  priority: number;
+  enabled: boolean;
+}
+
+export interface Customer {
+  id: string;
+  phone: string;
+  name?: string;
+}
+
+export type LoyaltyTier = 'member' | 'silver' | 'gold';
+
+export interface LoyaltyTransaction {
+  id: string;
+  type: 'earn' | 'redeem';
+  points: number;
+  entityType: 'session' | 'order' | 'reservation';
+  entityId: string;
+  description: string;
+  balanceAfter: number;
+  createdAt: string;
+}
+
+export interface LoyaltyMember {
+  phone: string;
+  name?: string;
+  balance: number;
+  lifetimePoints: number;
+  tier: LoyaltyTier;
+  tierName: string;
+  discountPercent: number;
+  nextTier: { tier: LoyaltyTier; name: string; pointsNeeded: number } | null;
+}
+
+export interface LoyaltySummary extends LoyaltyMember {
+  pointValue: number;
+  maxRedeemFraction: number;
+  transactions: LoyaltyTransaction[];
+}
+
+export interface LoyaltyRedemption {
+  success: boolean;
+  message: string;
+  pointsRedeemed: number;
+  discount: number;
+  amount: number;
+  balance: number;
+}
+
+export type PackageKind = 'hours' | 'credit';
+
+export interface Package {
+  id: string;
+  name: string;
+  description?: string;
+  activityId: string;
+  activityName?: string;
+  kind: PackageKind;
+  minutes?: number;
+  credit?: number;
+  price: number;
+  validityDays: number;
+  enabled: boolean;
+}
+
+export interface PackagePurchase {
+  id: string;
+  packageId: string;
+  activityId: string;
+  activityName?: string;
+  name: string;
+  kind: PackageKind;
+  price: number;
+  totalMinutes: number;
+  totalCredit: number;
+  remainingMinutes: number;
+  remainingCredit: number;
+  status: 'pending_payment' | 'active' | 'expired' | 'cancelled';
+  activatedAt?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export type CouponDiscountType = 'percent' | 'flat';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  value: number;
+  maxDiscount?: number;
+  activityIds: { _id: string; name: string; type: string }[];
+  menuCategories: MenuCategory[];
+  minSpend: number;
+  usageLimit?: number;
+  perPhoneLimit?: number;
+  usedCount: number;
+  validFrom?: string;
+  validUntil?: string;
+  enabled: boolean;
+}
+
+// Limits and dates are sent as null to clear them
+export type CouponInput = Omit<
+  Coupon,
+  'id' | 'activityIds' | 'usedCount' | 'maxDiscount' | 'usageLimit' | 'perPhoneLimit' | 'validFrom' | 'validUntil'
+> & {
+  activityIds: string[];
+  maxDiscount: number | null;
+  usageLimit: number | null;
+  perPhoneLimit: number | null;
+  validFrom: string | null;
+  validUntil: string | null;
+};
+
+export interface CouponQuote {
+  code: string;
+  description?: string;
+  eligibleAmount: number;
+  discount: number;
+  amount: number; // what is left to pay
+}
+
+export type RefundReasonCode =
+  | 'session_cancelled'
+  | 'unit_failure'
+  | 'order_cancelled'
+  | 'customer_request'
+  | 'duplicate_payment'
+  | 'other';
+
+export interface Refund {
+  id: string;
+  amount: number;
+  method: 'razorpay' | 'cash';
+  status: 'processed' | 'pending' | 'failed';
+  razorpayRefundId?: string;
+  reasonCode?: RefundReasonCode;
+  notes?: string;
+  refundedByName?: string;
+  createdAt?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  message: string;
+  type: 'session' | 'order';
+  entityId: string;
+  refundedAmount: number;
+  totalRefunded: number;
+  paymentStatus: string;
+  refunds: Refund[];
+}
+
+export type SessionExtensionStatus = 'pending_payment' | 'pending_approval' | 'applied' | 'expired' | 'cancelled';
+
+export interface SessionExtension {
+  id: string;
+  sessionId: string;
+  additionalMinutes: number;
+  amount: number;
+  priceBreakdown?: PriceLineItem[];
+  status: SessionExtensionStatus;
+  expiresAt: string;
+}
+
+export interface PendingExtensionApproval {
+  id: string;
+  sessionId: string;
+  activityId: { _id: string; name: string; type: string } | null;
+  unitId: { _id: string; name: string; status: string } | null;
+  customerName: string;
+  customerPhone: string;
+  amount: number;
+  additionalMinutes: number;
+  startTime: string;
+  endTime: string;
+  createdAt: string;
 }
 
 export interface Order {
@@ -171,6 +759,93 @@ export interface CartItem {
   notes?: string;
 }
 
+export interface GroupBookingUnit {
+  reservationId: string;
+  activityId: ActivityType;
+  activityName: string;
+  unitId: string;
+  unitName: string;
+  amount: number;
+  sessionId?: string;
+  sessionStatus?: SessionStatus;
+}
+
+export interface GroupBooking {
+  id: string;
+  status: 'pending_payment' | 'confirmed' | 'expired' | 'cancelled';
+  customerName: string;
+  customerPhone: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  amount: number;
+  expiresAt: string;
+  isAdvanceBooking: boolean;
+  units: GroupBookingUnit[];
+}
+
+export interface GroupBookingRequest {
+  units: Array<{ activityId: string; unitId: string }>;
+  startTime?: string; // omitted to start as soon as payment clears
+  duration: number;
+  customerName: string;
+  customerPhone: string;
+  qrContext?: QRContext;
+}
+
+export type SeriesFrequency = 'weekly' | 'biweekly';
+export type SeriesBilling = 'per_occurrence' | 'upfront';
+
+export interface SeriesOccurrence {
+  reservationId: string;
+  unitId: string;
+  unitName: string;
+  startTime: string;
+  endTime: string;
+  amount: number;
+  status: string;
+  sessionId?: string;
+}
+
+export interface ReservationSeries {
+  id: string;
+  activityId: string;
+  unitIds: string[];
+  customerName: string;
+  customerPhone: string;
+  frequency: SeriesFrequency;
+  startTime: string;
+  durationMinutes: number;
+  endDate?: string;
+  occurrenceCount?: number;
+  billing: SeriesBilling;
+  amount: number;
+  status: 'pending_payment' | 'active' | 'cancelled' | 'expired';
+  skippedOccurrences: Array<{ startTime: string; reason: string }>;
+  expiresAt?: string;
+  createdAt: string;
+  occurrences?: SeriesOccurrence[];
+}
+
+export interface ReservationSeriesRequest {
+  activityId: string;
+  unitIds: string[];
+  startTime: string; // first occurrence
+  duration: number;
+  frequency: SeriesFrequency;
+  endDate?: string;
+  occurrences?: number;
+  customerName: string;
+  customerPhone: string;
+  billing: SeriesBilling;
+}
+
+export interface SeriesPreview {
+  occurrences: Array<{ startTime: string; endTime: string; available: boolean; conflicts: string[] }>;
+  availableCount: number;
+  maxOccurrences: number;
+}
+
 export interface BookingRequest {
   activityId: ActivityType;
   unitId: string;
@@ -199,3 +874,16 @@ export const formatDuration = (minutes: number): string => {
   }
   return `${hours} hr ${mins} min`;
 };
+
+// 83456 -> "1:23.456"
+export const formatLapTime = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(3).padStart(6, '0');
+  return `${minutes}:${seconds}`;
+};
+
+export const formatPackBalance = (purchase: PackagePurchase): string => {
+  return purchase.kind === 'hours'
+    ? `${formatDuration(purchase.remainingMinutes)} left`
+    : `${formatCurrency(purchase.remainingCredit)} left`;
+};
@@ -0,0 +1,23 @@
+import { ChallengeVoteLink } from './types';
+
+/**
+ * Voting links for a challenge's starter screen. Only the create response
+ * has them, so they're kept for the rest of the browser session.
+ */
+const voteLinksKey = (sessionId: string) => `voteLinks:${sessionId}`;
+
+export const storeVoteLinks = (sessionId: string, links: ChallengeVoteLink[]): void => {
+  if (typeof window === 'undefined') return;
+  sessionStorage.setItem(voteLinksKey(sessionId), JSON.stringify(links));
+};
+
+export const getStoredVoteLinks = (sessionId: string): ChallengeVoteLink[] => {
+  if (typeof window === 'undefined') return [];
+  const stored = sessionStorage.getItem(voteLinksKey(sessionId));
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
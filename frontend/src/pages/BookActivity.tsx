@@ -1,20 +1,26 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Clock, ArrowLeft, ArrowRight, Minus, Plus } from 'lucide-react';
+import { format, addDays, startOfDay } from 'date-fns';
+import { Clock, ArrowLeft, ArrowRight, Minus, Plus, CalendarDays, Zap, Ticket } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Calendar } from '@/components/ui/calendar';
 import { Logo } from '@/components/Logo';
-import { activitiesAPI, reservationsAPI } from '@/lib/api';
-import { ActivityType, QRContext, BookingRequest } from '@/lib/types';
+import { activitiesAPI, packagesAPI, reservationsAPI, sessionsAPI } from '@/lib/api';
+import { ActivityType, QRContext, BookingRequest, ActivityAvailability, PriceQuote, PackagePurchase, formatPackBalance } from '@/lib/types';
 import { formatCurrency, formatDuration } from '@/lib/types';
 import { calculateActivityPrice, isPeakHour } from '@/lib/constants';
 import { useToast } from '@/hooks/use-toast';
 import { useBookingHistory } from '@/hooks/useBookingHistory';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+import { PriceBreakdownLines } from '@/components/PriceBreakdownLines';
+
+const MAX_ADVANCE_DAYS = 30;
 
 export default function BookActivity() {
   const navigate = useNavigate();
@@ -23,6 +29,7 @@ export default function BookActivity() {
   const { toast } = useToast();
   const { addBooking } = useBookingHistory();
   const { emit, on, joinRoom, isConnected } = useWebSocket({ namespace: 'customer' });
+  const { customer } = useCustomerAuth();
   
   const activityId = searchParams.get('activity') as ActivityType | null;
   const qrContext = (location.state?.qrContext || {}) as QRContext;
@@ -34,6 +41,14 @@ export default function BookActivity() {
   const [customerPhone, setCustomerPhone] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [bookingMode, setBookingMode] = useState<'now' | 'later'>('now');
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(startOfDay(new Date()));
+  const [availability, setAvailability] = useState<ActivityAvailability | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<{ unitId: string; unitName: string; startTime: string } | null>(null);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [packs, setPacks] = useState<PackagePurchase[]>([]);
+  const [selectedPackId, setSelectedPackId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!activityId) {
@@ -49,6 +64,81 @@ export default function BookActivity() {
     loadActivity();
   }, [activityId, navigate, toast]);
 
+  useEffect(() => {
+    if (bookingMode !== 'later' || !activity || !selectedDate) return;
+
+    let cancelled = false;
+    setSelectedSlot(null);
+    setLoadingSlots(true);
+
+    activitiesAPI.getAvailability(activity.id, format(selectedDate, 'yyyy-MM-dd'), duration)
+      .then((data) => {
+        if (!cancelled) setAvailability(data);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setAvailability(null);
+          toast({
+            title: 'Could not load slots',
+            description: error.message,
+            variant: 'destructive',
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSlots(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingMode, activity, selectedDate, duration, toast]);
+
+  // Signed-in members see their tier discount once they've typed their own full phone number
+  const normalizedQuotePhone = customerPhone.replace(/\D/g, '');
+  const quotePhone = normalizedQuotePhone.length === 10 ? normalizedQuotePhone : undefined;
+
+  useEffect(() => {
+    if (!activity) return;
+
+    let cancelled = false;
+    activitiesAPI.getQuote(activity.id, duration, selectedSlot?.startTime, quotePhone)
+      .then((data) => {
+        if (!cancelled) setQuote(data);
+      })
+      .catch(() => {
+        // Fall back to the local estimate; the server prices the booking on submit
+        if (!cancelled) setQuote(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activity, duration, selectedSlot, quotePhone]);
+
+  useEffect(() => {
+    if (!activity || !customer) {
+      setPacks([]);
+      setSelectedPackId(null);
+      return;
+    }
+
+    let cancelled = false;
+    packagesAPI.getWallet()
+      .then((data) => {
+        if (!cancelled) {
+          setPacks(data.filter(p => p.status === 'active' && p.activityId === activity.id));
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading packs:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activity, customer]);
+
   const loadActivity = async () => {
     try {
       setLoading(true);
@@ -76,8 +166,12 @@ export default function BookActivity() {
   }
 
   const availableUnits = activity.units?.filter((u: any) => u.status === 'available') || [];
-  const peak = isPeakHour();
-  const price = calculateActivityPrice(activity, duration, peak);
+  const isScheduling = bookingMode === 'later';
+  const peak = isPeakHour(selectedSlot ? new Date(selectedSlot.startTime) : new Date());
+  const price = quote?.amount ?? calculateActivityPrice(activity, duration, peak);
+  const packCovers = (pack: PackagePurchase) =>
+    pack.kind === 'hours' ? pack.remainingMinutes >= duration : pack.remainingCredit >= price;
+  const selectedPack = packs.find(p => p.id === selectedPackId && packCovers(p));
   const canDecrease = duration > activity.minimumDuration;
   const durationStep = activity.pricingType === 'per-hour' ? 30 : 15;
 
@@ -109,9 +203,20 @@ export default function BookActivity() {
       return;
     }
 
-    let unitToBook = selectedUnitId || (availableUnits.length > 0 ? availableUnits[0].id : null);
+    if (isScheduling && !selectedSlot) {
+      toast({
+        title: 'Pick a Slot',
+        description: 'Please choose a date and time slot for your booking.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    let unitToBook = isScheduling
+      ? selectedSlot!.unitId
+      : selectedUnitId || (availableUnits.length > 0 ? availableUnits[0].id : null);
     
-    if (availableUnits.length === 0) {
+    if (!isScheduling && availableUnits.length === 0) {
       try {
         const queueResult = await reservationsAPI.joinQueue({
           activityId: activity.id,
@@ -164,17 +269,54 @@ export default function BookActivity() {
     setIsSubmitting(true);
 
     try {
-      // Create reservation (15-minute hold)
+      // Create reservation (15-minute hold), or a paid booking when it comes out of a pack
       const reservation = await reservationsAPI.create({
         activityId: activity.id,
         unitId: unitToBook,
-        startTime: new Date().toISOString(),
+        startTime: isScheduling ? selectedSlot!.startTime : new Date().toISOString(),
         duration,
         customerName: customerName.trim(),
         customerPhone: customerPhone.replace(/\D/g, ''),
         qrContext,
+        ...(selectedPack && { packagePurchaseId: selectedPack.id }),
       });
 
+      if (selectedPack) {
+        const normalizedPhone = customerPhone.replace(/\D/g, '');
+        addBooking({
+          id: reservation.id,
+          type: 'reservation',
+          activityName: activity.name,
+          customerName: customerName.trim(),
+          customerPhone: normalizedPhone,
+          amount: reservation.amount ?? price,
+          status: reservation.isAdvanceBooking ? 'scheduled' : 'active',
+          createdAt: new Date().toISOString(),
+          reservationId: reservation.id,
+          sessionId: reservation.sessionId,
+          activityId: activity.id,
+          durationMinutes: duration,
+        });
+
+        if (reservation.isAdvanceBooking) {
+          toast({
+            title: 'Slot Booked',
+            description: `Paid from ${selectedPack.name}. See you on ${new Date(reservation.startTime).toLocaleString('en-IN')}.`,
+          });
+          navigate('/my-bookings');
+          return;
+        }
+
+        const session = await sessionsAPI.getById(reservation.sessionId);
+        toast({
+          title: 'Session Started',
+          description: `Paid from ${selectedPack.name}.`,
+        });
+        sessionStorage.setItem('currentSession', JSON.stringify(session));
+        navigate('/session', { state: { session } });
+        return;
+      }
+
       // Track booking in history
       addBooking({
         id: reservation.id,
@@ -209,11 +351,15 @@ export default function BookActivity() {
       navigate('/payment', {
         state: {
           reservationId: reservation.id,
-          amount: price,
+          amount: reservation.amount ?? price,
+          priceBreakdown: reservation.priceBreakdown,
+          prepaymentRequired: reservation.prepaymentRequired,
           activity,
           bookingRequest: {
             activityId: activity.id,
             unitId: unitToBook,
+            startTime: reservation.startTime,
+            isAdvanceBooking: reservation.isAdvanceBooking,
             duration,
             customerName: customerName.trim(),
             customerPhone: customerPhone.replace(/\D/g, ''),
@@ -335,8 +481,116 @@ export default function BookActivity() {
             </CardContent>
           </Card>
 
+          {/* When */}
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg">When</CardTitle>
+              <CardDescription>
+                Play right away or reserve a slot up to {MAX_ADVANCE_DAYS} days ahead
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  type="button"
+                  variant={bookingMode === 'now' ? 'default' : 'outline'}
+                  onClick={() => {
+                    setBookingMode('now');
+                    setSelectedSlot(null);
+                  }}
+                  className="h-auto py-3"
+                >
+                  <Zap className="w-4 h-4 mr-2" />
+                  Now
+                </Button>
+                <Button
+                  type="button"
+                  variant={bookingMode === 'later' ? 'default' : 'outline'}
+                  onClick={() => setBookingMode('later')}
+                  className="h-auto py-3"
+                >
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  Book a Slot
+                </Button>
+              </div>
+
+              {isScheduling && (
+                <>
+                  <div className="flex justify-center">
+                    <Calendar
+                      mode="single"
+                      selected={selectedDate}
+                      onSelect={setSelectedDate}
+                      disabled={[
+                        { before: startOfDay(new Date()) },
+                        { after: addDays(new Date(), MAX_ADVANCE_DAYS) },
+                      ]}
+                      className="rounded-md border"
+                    />
+                  </div>
+
+                  {loadingSlots ? (
+                    <div className="text-center text-sm text-muted-foreground py-4">
+                      Loading available slots...
+                    </div>
+                  ) : availability && availability.units.length > 0 ? (
+                    <div className="space-y-4">
+                      {availability.units.map((unit) => {
+                        const openSlots = unit.slots.filter((slot) => slot.available);
+                        return (
+                          <div key={unit.id} className="space-y-2">
+                            <div className="text-sm font-medium text-foreground">{unit.name}</div>
+                            {openSlots.length === 0 ? (
+                              <div className="text-xs text-muted-foreground">
+                                {unit.status === 'maintenance' ? 'Under maintenance' : 'Fully booked'}
+                              </div>
+                            ) : (
+                              <div className="grid grid-cols-4 gap-2">
+                                {openSlots.map((slot) => {
+                                  const isSelected = selectedSlot?.unitId === unit.id &&
+                                    selectedSlot?.startTime === slot.startTime;
+                                  return (
+                                    <Button
+                                      key={slot.startTime}
+                                      type="button"
+                                      size="sm"
+                                      variant={isSelected ? 'default' : 'outline'}
+                                      onClick={() => setSelectedSlot({
+                                        unitId: unit.id,
+                                        unitName: unit.name,
+                                        startTime: slot.startTime,
+                                      })}
+                                    >
+                                      {format(new Date(slot.startTime), 'HH:mm')}
+                                    </Button>
+                                  );
+                                })}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <div className="text-center text-sm text-muted-foreground py-4">
+                      No slots available on this day
+                    </div>
+                  )}
+
+                  {selectedSlot && (
+                    <div className="text-sm text-center text-muted-foreground">
+                      {selectedSlot.unitName} · {format(new Date(selectedSlot.startTime), 'EEE d MMM, HH:mm')}
+                      {' – '}
+                      {format(new Date(new Date(selectedSlot.startTime).getTime() + duration * 60000), 'HH:mm')}
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Unit Selection (if multiple available) */}
-          {availableUnits.length > 1 && (
+          {!isScheduling && availableUnits.length > 1 && (
             <Card className="glass">
               <CardHeader>
                 <CardTitle className="text-lg">Select Unit</CardTitle>
@@ -359,29 +613,63 @@ export default function BookActivity() {
             </Card>
           )}
 
+          {/* Prepaid packs the signed-in customer can pay with */}
+          {packs.length > 0 && (
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Ticket className="w-5 h-5 text-primary" />
+                  Pay from a Pack
+                </CardTitle>
+                <CardDescription>Use your prepaid time or credit instead of paying now</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {packs.map(pack => (
+                  <Button
+                    key={pack.id}
+                    type="button"
+                    variant={selectedPack?.id === pack.id ? 'default' : 'outline'}
+                    className="w-full justify-between h-auto py-3"
+                    onClick={() => setSelectedPackId(selectedPackId === pack.id ? null : pack.id)}
+                    disabled={!packCovers(pack)}
+                  >
+                    <span>{pack.name}</span>
+                    <span className="text-xs">{packCovers(pack) ? formatPackBalance(pack) : 'Not enough left'}</span>
+                  </Button>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Price Summary */}
           <Card className="glass">
             <CardHeader>
               <CardTitle className="text-lg">Price Summary</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">
-                  {formatDuration(duration)} × {formatCurrency(activity.baseRate)}
-                  {activity.pricingType === 'per-hour' && '/hr'}
-                  {activity.pricingType === 'per-minute' && '/min'}
-                </span>
-                <span className="text-foreground">
-                  {formatCurrency(calculateActivityPrice(activity, duration, false))}
-                </span>
-              </div>
-              {peak && activity.peakMultiplier && (
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Peak hour surcharge</span>
-                  <span className="text-foreground">
-                    +{formatCurrency(price - calculateActivityPrice(activity, duration, false))}
-                  </span>
-                </div>
+              {quote ? (
+                <PriceBreakdownLines lineItems={quote.priceBreakdown} />
+              ) : (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {formatDuration(duration)} × {formatCurrency(activity.baseRate)}
+                      {activity.pricingType === 'per-hour' && '/hr'}
+                      {activity.pricingType === 'per-minute' && '/min'}
+                    </span>
+                    <span className="text-foreground">
+                      {formatCurrency(calculateActivityPrice(activity, duration, false))}
+                    </span>
+                  </div>
+                  {peak && activity.peakMultiplier && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Peak hour surcharge</span>
+                      <span className="text-foreground">
+                        +{formatCurrency(price - calculateActivityPrice(activity, duration, false))}
+                      </span>
+                    </div>
+                  )}
+                </>
               )}
               <Separator />
               <div className="flex justify-between text-lg font-semibold">
@@ -401,11 +689,16 @@ export default function BookActivity() {
           >
             {isSubmitting ? (
               'Processing...'
-            ) : availableUnits.length === 0 ? (
+            ) : !isScheduling && availableUnits.length === 0 ? (
               <>
                 Join Waiting Queue
                 <ArrowRight className="w-4 h-4 ml-2" />
               </>
+            ) : selectedPack ? (
+              <>
+                Book with Pack
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </>
             ) : (
               <>
                 Continue to Payment
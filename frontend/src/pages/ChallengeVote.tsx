@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Loader2, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Logo } from '@/components/Logo';
+import { sessionsAPI } from '@/lib/api';
+import { Session } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/useWebSocket';
+
+export default function ChallengeVote() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { toast } = useToast();
+  const { on, joinRoom, isConnected } = useWebSocket({ namespace: 'customer' });
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedWinner, setSelectedWinner] = useState('');
+  const [votedFor, setVotedFor] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadSession = useCallback(() => {
+    if (!id) return;
+    sessionsAPI.getById(id)
+      .then(setSession)
+      .catch((error) => {
+        toast({
+          title: 'Not Found',
+          description: error instanceof Error ? error.message : 'This challenge could not be found.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [id, toast]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  // Voting opens when the game ends, and the result comes in as others vote
+  useEffect(() => {
+    if (!isConnected || !id) return;
+    joinRoom(`session:${id}`);
+    const cleanups = ['challenge_session_ended', 'winner_voted', 'winner_selected', 'challenge_disputed'].map((event) =>
+      on(event, (data: { session_id: string }) => {
+        if (data.session_id === id) loadSession();
+      })
+    );
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [isConnected, id, joinRoom, on, loadSession]);
+
+  const handleVote = async () => {
+    if (!id || !selectedWinner) return;
+    setSubmitting(true);
+    try {
+      const result = await sessionsAPI.voteWinner(id, selectedWinner, token);
+      setVotedFor(selectedWinner);
+      setSession((prev) => prev ? { ...prev, challengeData: result.challengeData } : prev);
+    } catch (error) {
+      toast({
+        title: 'Vote Not Counted',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen gradient-mesh flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const challenge = session?.challengeData;
+  const votingOpen = session?.status === 'ended' || session?.status === 'completed';
+
+  const renderBody = () => {
+    if (!session || !challenge) {
+      return <p className="text-sm text-muted-foreground text-center">This challenge could not be found.</p>;
+    }
+    if (!token) {
+      return <p className="text-sm text-muted-foreground text-center">This link is missing its voting code. Ask for your link again.</p>;
+    }
+    if (challenge.winner) {
+      return (
+        <div className="text-center space-y-3 py-4">
+          <div className="mx-auto w-16 h-16 rounded-full bg-primary/20 flex items-center justify-center">
+            <Trophy className="w-8 h-8 text-primary" />
+          </div>
+          <p className="text-2xl font-bold text-foreground">{challenge.winner}</p>
+          <p className="text-muted-foreground">is the winner!</p>
+        </div>
+      );
+    }
+    if (challenge.disputed) {
+      return (
+        <div className="flex items-start gap-2 rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-foreground">
+          <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive" />
+          The votes named different winners, so staff will pick the winner.
+        </div>
+      );
+    }
+    if (votedFor) {
+      return (
+        <p className="text-sm text-muted-foreground text-center">
+          Your vote for {votedFor} is in. Waiting for the other players...
+        </p>
+      );
+    }
+    if (!votingOpen) {
+      return <p className="text-sm text-muted-foreground text-center">Voting opens when the game ends.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <RadioGroup value={selectedWinner} onValueChange={setSelectedWinner}>
+          <div className="space-y-2">
+            {challenge.players.map((player, index) => (
+              <div
+                key={player.name}
+                className="flex items-center space-x-2 rounded-lg border border-border p-3 hover:bg-secondary/50"
+              >
+                <RadioGroupItem value={player.name} id={`vote-${index}`} />
+                <Label htmlFor={`vote-${index}`} className="flex-1 cursor-pointer font-medium text-foreground">
+                  {player.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </RadioGroup>
+        <Button variant="glow" className="w-full" disabled={!selectedWinner || submitting} onClick={handleVote}>
+          {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Submit Vote
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <Logo size="lg" className="justify-center" />
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-primary" />
+                Who Won?
+              </CardTitle>
+            </CardHeader>
+            <CardContent>{renderBody()}</CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CustomerLogin } from '@/components/CustomerLogin';
+import { sessionsAPI } from '@/lib/api';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export default function CheckIn() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const { customer } = useCustomerAuth();
+  const unitId = searchParams.get('unit');
+
+  const [checkedIn, setCheckedIn] = useState<{ id: string; startTime: string; endTime: string } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleCheckIn = async () => {
+    if (!unitId) return;
+
+    setIsSubmitting(true);
+    try {
+      setCheckedIn(await sessionsAPI.checkInAtUnit(unitId));
+    } catch (error) {
+      toast({
+        title: 'Check-In Failed',
+        description: error instanceof Error ? error.message : 'Could not check you in. Please ask the staff.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl md:text-2xl font-semibold text-foreground">Check In</h1>
+            <p className="text-sm text-muted-foreground">Let us know you've arrived for your booking</p>
+          </div>
+        </div>
+
+        {!unitId ? (
+          <Card className="glass">
+            <CardContent className="py-8 text-center text-sm text-muted-foreground">
+              Scan the QR code on your table or console to check in.
+            </CardContent>
+          </Card>
+        ) : !customer ? (
+          <CustomerLogin />
+        ) : checkedIn ? (
+          <Card className="glass">
+            <CardContent className="py-8 text-center space-y-3">
+              <CheckCircle className="w-12 h-12 mx-auto text-success" />
+              <p className="text-lg font-semibold text-foreground">You're checked in</p>
+              <p className="text-sm text-muted-foreground">
+                Your session runs {formatTime(checkedIn.startTime)} – {formatTime(checkedIn.endTime)}.
+              </p>
+              <Button onClick={() => navigate('/my-bookings')}>View My Bookings</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <UserCheck className="w-4 h-4" />
+                Arrived?
+              </CardTitle>
+              <CardDescription>
+                Check in within the grace period after your start time, or your slot is released to others.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button size="lg" className="w-full" onClick={handleCheckIn} disabled={isSubmitting}>
+                {isSubmitting ? 'Checking in...' : `Check In as ${customer.phone}`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Minus, Plus } from 'lucide-react';
+import { ArrowLeft, Minus, Plus, Percent } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { CartItem, QRContext } from '@/lib/types';
+import { CartItem, CouponQuote, QRContext } from '@/lib/types';
 import { formatCurrency } from '@/lib/types';
-import { ordersAPI } from '@/lib/api';
+import { couponsAPI, ordersAPI } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { useBookingHistory } from '@/hooks/useBookingHistory';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import Payment from './Payment';
 
@@ -20,19 +21,25 @@ export default function Checkout() {
   const location = useLocation();
   const { toast } = useToast();
   const { addBooking } = useBookingHistory();
+  const { customer } = useCustomerAuth();
   const { emit, on, joinRoom, isConnected } = useWebSocket({ namespace: 'customer' });
 
   const cart = (location.state?.cart || []) as CartItem[];
   const qrContext = (location.state?.qrContext || {}) as QRContext;
   const sessionId = location.state?.sessionId as string | undefined;
 
-  const [customerName, setCustomerName] = useState('');
-  const [customerPhone, setCustomerPhone] = useState('');
+  const [customerName, setCustomerName] = useState(customer?.name || '');
+  const [customerPhone, setCustomerPhone] = useState(customer?.phone || '');
   const [showPayment, setShowPayment] = useState(false);
   const [orderId, setOrderId] = useState<string | null>(null);
+  const [orderAmount, setOrderAmount] = useState<number | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [checkingCoupon, setCheckingCoupon] = useState(false);
 
   const subtotal = cart.reduce((sum, item) => sum + item.menuItem.price * item.quantity, 0);
-  const totalAmount = subtotal;
+  const totalAmount = coupon ? coupon.amount : subtotal;
 
   // Register customer phone and listen for order status updates
   useEffect(() => {
@@ -75,6 +82,33 @@ export default function Checkout() {
     });
   };
 
+  const handleCheckCoupon = async () => {
+    const phone = customerPhone.replace(/\D/g, '');
+    if (!couponCode.trim()) return;
+
+    if (phone.length < 10) {
+      setCouponError('Enter your phone number to use a coupon.');
+      return;
+    }
+
+    try {
+      setCheckingCoupon(true);
+      setCouponError(null);
+      const quote = await couponsAPI.validate({
+        code: couponCode.trim(),
+        type: 'order',
+        customerPhone: phone,
+        items: cart.map(item => ({ menuItemId: item.menuItem.id, quantity: item.quantity })),
+      });
+      setCoupon(quote);
+    } catch (error) {
+      setCoupon(null);
+      setCouponError(error instanceof Error ? error.message : 'This coupon cannot be used.');
+    } finally {
+      setCheckingCoupon(false);
+    }
+  };
+
   const handleProceedToPayment = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -108,6 +142,7 @@ export default function Checkout() {
         customerPhone: customerPhone.replace(/\D/g, ''),
         qrContext,
         sessionId,
+        couponCode: coupon?.code,
       });
 
       // Track order in history
@@ -116,7 +151,7 @@ export default function Checkout() {
         type: 'order',
         customerName: customerName.trim(),
         customerPhone: customerPhone.replace(/\D/g, ''),
-        amount: totalAmount,
+        amount: order.totalAmount,
         status: 'pending',
         createdAt: new Date().toISOString(),
         orderId: order.id,
@@ -132,13 +167,14 @@ export default function Checkout() {
         orderId: order.id,
         customerName: customerName.trim(),
         customerPhone: normalizedPhone,
-        amount: totalAmount,
+        amount: order.totalAmount,
         itemCount: cart.length,
         qrContext,
         timestamp: new Date().toISOString(),
       });
 
       setOrderId(order.id);
+      setOrderAmount(order.totalAmount);
       setShowPayment(true);
     } catch (error: any) {
       toast({
@@ -153,7 +189,7 @@ export default function Checkout() {
     return (
       <Payment
         orderId={orderId}
-        amount={totalAmount}
+        amount={orderAmount ?? totalAmount}
         customerName={customerName}
         customerPhone={customerPhone}
         qrContext={qrContext}
@@ -225,15 +261,60 @@ export default function Checkout() {
                     type="tel"
                     placeholder="10-digit number"
                     value={customerPhone}
-                    onChange={(e) => setCustomerPhone(e.target.value.replace(/\D/g, '').slice(0, 10))}
+                    onChange={(e) => {
+                      setCustomerPhone(e.target.value.replace(/\D/g, '').slice(0, 10));
+                      setCoupon(null);
+                    }}
                     required
                     className="flex-1 h-12"
                   />
                 </div>
+                {customer?.phone === customerPhone && (
+                  <p className="text-xs text-muted-foreground">
+                    You can redeem loyalty points on the next step.
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Coupon */}
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg">Coupon</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Coupon code"
+                  value={couponCode}
+                  onChange={(e) => {
+                    setCouponCode(e.target.value.toUpperCase());
+                    setCoupon(null);
+                    setCouponError(null);
+                  }}
+                  className="h-12 uppercase"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-12"
+                  onClick={handleCheckCoupon}
+                  disabled={checkingCoupon || !couponCode.trim()}
+                >
+                  Apply
+                </Button>
+              </div>
+              {couponError && <p className="text-xs text-destructive">{couponError}</p>}
+              {coupon && (
+                <p className="text-xs text-success flex items-center gap-1">
+                  <Percent className="w-3 h-3" />
+                  {coupon.description || `Coupon ${coupon.code}`} · {formatCurrency(coupon.discount)} off
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Order Summary */}
           <Card className="glass">
             <CardHeader>
@@ -253,6 +334,12 @@ export default function Checkout() {
                 </div>
               ))}
               <Separator />
+              {coupon && (
+                <div className="flex justify-between text-sm text-success">
+                  <span>Coupon ({coupon.code})</span>
+                  <span>-{formatCurrency(coupon.discount)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-lg font-semibold">
                 <span>Total</span>
                 <span>{formatCurrency(totalAmount)}</span>
@@ -6,15 +6,20 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { sessionsAPI, activitiesAPI } from '@/lib/api';
-import { Session, QRContext } from '@/lib/types';
+import { Session, QRContext, PriceQuote } from '@/lib/types';
 import { formatCurrency, formatDuration } from '@/lib/types';
 import { calculateActivityPrice, isPeakHour } from '@/lib/constants';
 import { useToast } from '@/hooks/use-toast';
+import { PriceBreakdownLines } from '@/components/PriceBreakdownLines';
+import { CustomerLogin } from '@/components/CustomerLogin';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+import { getStoredVoteLinks } from '@/lib/vote-links';
 
 export default function ExtendSession() {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
+  const { customer } = useCustomerAuth();
 
   const session = location.state?.session as Session | undefined;
   const qrContext = (location.state?.qrContext || {}) as QRContext;
@@ -23,6 +28,7 @@ export default function ExtendSession() {
   const [extensionMinutes, setExtensionMinutes] = useState(30);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
 
   useEffect(() => {
     if (!session) {
@@ -33,6 +39,23 @@ export default function ExtendSession() {
     loadActivity();
   }, [session, navigate]);
 
+  useEffect(() => {
+    if (!session || !activity) return;
+
+    let cancelled = false;
+    activitiesAPI.getQuote(session.activityId, extensionMinutes, new Date(session.endTime).toISOString())
+      .then((data) => {
+        if (!cancelled) setQuote(data);
+      })
+      .catch(() => {
+        if (!cancelled) setQuote(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session, activity, extensionMinutes]);
+
   const loadActivity = async () => {
     if (!session) return;
 
@@ -60,10 +83,17 @@ export default function ExtendSession() {
     );
   }
 
-  const peak = isPeakHour();
-  const extensionPrice = calculateActivityPrice(activity, extensionMinutes, peak);
+  // Priced from when the extra time starts, matching the server
+  const peak = isPeakHour(new Date(session.endTime));
+  const extensionPrice = quote?.amount ?? calculateActivityPrice(activity, extensionMinutes, peak);
   const durationStep = activity.pricingType === 'per-hour' ? 30 : 15;
 
+  // Only the players can add time: signed in with their phone, or holding the challenge starter's voting link
+  const starterVoteLink = session.isChallengeSession
+    ? getStoredVoteLinks(session.id).find(link => link.playerName === session.challengeData?.challengeStartedBy)
+    : undefined;
+  const canExtend = !!customer || !!starterVoteLink;
+
   const handleDurationChange = (delta: number) => {
     const newDuration = extensionMinutes + delta;
     if (newDuration >= durationStep) {
@@ -75,19 +105,19 @@ export default function ExtendSession() {
     setIsSubmitting(true);
 
     try {
-      await sessionsAPI.extend(session.id, extensionMinutes);
-      
-      // Get updated session
-      const updatedSession = await sessionsAPI.getById(session.id);
-
-      toast({
-        title: 'Session Extended',
-        description: `Added ${formatDuration(extensionMinutes)} to your session.`,
-      });
+      // Holds the extra time on the unit; the session only grows once payment clears
+      const { extension } = await sessionsAPI.extend(session.id, extensionMinutes, { voteToken: starterVoteLink?.token });
 
-      sessionStorage.setItem('currentSession', JSON.stringify(updatedSession));
-      navigate('/session', {
-        state: { session: updatedSession },
+      navigate('/payment', {
+        state: {
+          sessionId: session.id,
+          extensionId: extension.id,
+          amount: extension.amount,
+          priceBreakdown: extension.priceBreakdown,
+          session,
+          activity,
+          qrContext,
+        },
       });
     } catch (error: any) {
       toast({
@@ -181,18 +211,24 @@ export default function ExtendSession() {
               <CardTitle className="text-lg">Price Summary</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">
-                  Extension: {formatDuration(extensionMinutes)}
-                </span>
-                <span className="text-foreground">
-                  {formatCurrency(extensionPrice)}
-                </span>
-              </div>
-              {peak && activity.peakMultiplier && (
-                <div className="text-xs text-muted-foreground">
-                  Peak hour pricing applies
-                </div>
+              {quote ? (
+                <PriceBreakdownLines lineItems={quote.priceBreakdown} />
+              ) : (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      Extension: {formatDuration(extensionMinutes)}
+                    </span>
+                    <span className="text-foreground">
+                      {formatCurrency(extensionPrice)}
+                    </span>
+                  </div>
+                  {peak && activity.peakMultiplier && (
+                    <div className="text-xs text-muted-foreground">
+                      Peak hour pricing applies
+                    </div>
+                  )}
+                </>
               )}
               <Separator />
               <div className="flex justify-between text-lg font-semibold">
@@ -203,15 +239,19 @@ export default function ExtendSession() {
           </Card>
 
           {/* Submit Button */}
-          <Button
-            variant="glow"
-            size="xl"
-            className="w-full"
-            onClick={handleExtend}
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? 'Processing...' : `Extend Session - ${formatCurrency(extensionPrice)}`}
-          </Button>
+          {canExtend ? (
+            <Button
+              variant="glow"
+              size="xl"
+              className="w-full"
+              onClick={handleExtend}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Processing...' : `Pay & Extend - ${formatCurrency(extensionPrice)}`}
+            </Button>
+          ) : (
+            <CustomerLogin defaultPhone={session.customerPhone} defaultName={session.customerName} />
+          )}
         </div>
       </div>
     </div>
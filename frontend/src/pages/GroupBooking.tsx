@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, Minus, Plus, Users, Zap, CalendarDays } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { activitiesAPI, groupBookingsAPI } from '@/lib/api';
+import { Activity, QRContext, formatDuration } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+const DURATION_STEP = 30;
+
+export default function GroupBooking() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const qrContext = (location.state?.qrContext || {}) as QRContext;
+
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [selected, setSelected] = useState<Array<{ activityId: string; unitId: string }>>([]);
+  const [duration, setDuration] = useState(120);
+  const [bookingMode, setBookingMode] = useState<'now' | 'later'>('now');
+  const [startTime, setStartTime] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    activitiesAPI.getAll(true)
+      .then(setActivities)
+      .catch((error) => console.error('Failed to load activities:', error));
+  }, []);
+
+  // The longest minimum among the picked activities applies to the whole group
+  const minimumDuration = Math.max(
+    DURATION_STEP,
+    ...activities
+      .filter((a) => selected.some((s) => s.activityId === a.id))
+      .map((a) => a.minimumDuration)
+  );
+
+  const isSelected = (unitId: string) => selected.some((s) => s.unitId === unitId);
+
+  const toggleUnit = (activityId: string, unitId: string) => {
+    setSelected((prev) =>
+      prev.some((s) => s.unitId === unitId)
+        ? prev.filter((s) => s.unitId !== unitId)
+        : [...prev, { activityId, unitId }]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected.length < 2) {
+      toast({ title: 'Pick at least two units', description: 'A group booking holds several units together.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const group = await groupBookingsAPI.create({
+        units: selected,
+        startTime: bookingMode === 'later' && startTime ? new Date(startTime).toISOString() : undefined,
+        duration: Math.max(duration, minimumDuration),
+        customerName,
+        customerPhone,
+        qrContext,
+      });
+
+      navigate('/payment', {
+        state: {
+          groupBookingId: group.id,
+          groupUnits: group.units,
+          amount: group.amount,
+          bookingRequest: { customerName, customerPhone, duration: group.durationMinutes },
+          qrContext,
+        },
+      });
+    } catch (error) {
+      toast({
+        title: 'Booking Failed',
+        description: error instanceof Error ? error.message : 'Could not hold these units. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl md:text-2xl font-semibold text-foreground">Group Booking</h1>
+            <p className="text-sm text-muted-foreground">
+              Book several stations side by side and pay once
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Pick Units
+              </CardTitle>
+              <CardDescription>{selected.length} selected</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {activities.map((activity) => (
+                <div key={activity.id} className="space-y-2">
+                  <p className="text-sm font-medium">{activity.name}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {activity.units.map((unit) => (
+                      <Button
+                        key={unit.id}
+                        type="button"
+                        size="sm"
+                        variant={isSelected(unit.id) ? 'default' : 'outline'}
+                        disabled={unit.status === 'maintenance' || (bookingMode === 'now' && unit.status !== 'available')}
+                        onClick={() => toggleUnit(activity.id, unit.id)}
+                      >
+                        {unit.name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg">When</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={bookingMode === 'now' ? 'default' : 'outline'}
+                  onClick={() => setBookingMode('now')}
+                >
+                  <Zap className="w-4 h-4 mr-2" />
+                  Start Now
+                </Button>
+                <Button
+                  type="button"
+                  variant={bookingMode === 'later' ? 'default' : 'outline'}
+                  onClick={() => setBookingMode('later')}
+                >
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  Later
+                </Button>
+              </div>
+              {bookingMode === 'later' && (
+                <Input
+                  type="datetime-local"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  required
+                  className="h-12"
+                />
+              )}
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setDuration((d) => Math.max(minimumDuration, d - DURATION_STEP))}
+                  disabled={duration - DURATION_STEP < minimumDuration}
+                >
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <div className="text-3xl font-semibold text-foreground">
+                  {formatDuration(Math.max(duration, minimumDuration))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setDuration((d) => d + DURATION_STEP)}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg">Your Information</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  placeholder="Enter your name"
+                  value={customerName}
+                  onChange={(e) => setCustomerName(e.target.value)}
+                  required
+                  className="h-12"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone Number</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  placeholder="10-digit number"
+                  value={customerPhone}
+                  onChange={(e) => setCustomerPhone(e.target.value.replace(/\D/g, '').slice(0, 10))}
+                  required
+                  className="h-12"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" size="lg" className="w-full" disabled={isSubmitting || selected.length < 2}>
+            {isSubmitting ? 'Holding units...' : `Continue with ${selected.length} units`}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Clock, Users, ArrowRight, Sparkles, History, Search, Gamepad2, Car, CircleDot, UtensilsCrossed } from 'lucide-react';
+import { Clock, Users, ArrowRight, Sparkles, History, Search, Gamepad2, Car, CircleDot, UtensilsCrossed, Trophy, Medal } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Logo } from '@/components/Logo';
 import { activitiesAPI, sessionsAPI } from '@/lib/api';
 import { ActivityType, QRContext } from '@/lib/types';
 import { getQRContext } from '@/lib/qr-context';
+import { storeVoteLinks } from '@/lib/vote-links';
 import { formatCurrency, formatDuration } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { ACTIVITIES, calculateActivityPrice, isPeakHour } from '@/lib/constants';
@@ -169,6 +170,7 @@ export default function Landing() {
 
       // Navigate to session timer
       sessionStorage.setItem('currentSession', JSON.stringify(session));
+      storeVoteLinks(session.id, session.voteLinks || []);
       setChallengeDialogOpen(false);
       navigate('/session', { state: { session } });
     } catch (error: any) {
@@ -237,6 +239,33 @@ export default function Landing() {
                 <Search className="w-4 h-4 mr-2" />
                 View Booking
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/group-booking', { state: { qrContext } })}
+                className="glass"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Group Booking
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/tournaments')}
+                className="glass"
+              >
+                <Trophy className="w-4 h-4 mr-2" />
+                Tournaments
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/leaderboard')}
+                className="glass"
+              >
+                <Medal className="w-4 h-4 mr-2" />
+                Leaderboard
+              </Button>
             </div>
           </header>
 
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Home, Loader2, Medal, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Logo } from '@/components/Logo';
+import { lapsAPI } from '@/lib/api';
+import { LapLeaderboardEntry, LeaderboardPeriod, TrackRecord, formatLapTime } from '@/lib/types';
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  weekly: 'This Week',
+  monthly: 'This Month',
+  all: 'All Time',
+};
+
+const ALL_CARS = 'all';
+
+export default function LapRecords() {
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<TrackRecord[]>([]);
+  const [track, setTrack] = useState('');
+  const [car, setCar] = useState(ALL_CARS);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all');
+  const [entries, setEntries] = useState<LapLeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    lapsAPI.getRecords()
+      .then((data) => {
+        setRecords(data);
+        if (data.length > 0) setTrack(data[0].track);
+        else setLoading(false);
+      })
+      .catch((error) => {
+        console.error('Failed to load track records:', error);
+        setLoading(false);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!track) return;
+    setLoading(true);
+    lapsAPI.getLeaderboard(track, car === ALL_CARS ? undefined : car, period)
+      .then((board) => setEntries(board.entries))
+      .catch((error) => console.error('Failed to load lap leaderboard:', error))
+      .finally(() => setLoading(false));
+  }, [track, car, period]);
+
+  const tracks = [...new Set(records.map((record) => record.track))];
+  const trackRecords = records.filter((record) => record.track === track);
+
+  const handleTrackChange = (value: string) => {
+    setTrack(value);
+    setCar(ALL_CARS);
+  };
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <header className="text-center space-y-3">
+            <Logo size="lg" className="justify-center" />
+            <h1 className="text-2xl font-semibold text-foreground">Lap Records</h1>
+            <p className="text-sm text-muted-foreground">The fastest laps on our racing simulators</p>
+          </header>
+
+          {tracks.length > 0 && (
+            <Tabs value={track} onValueChange={handleTrackChange}>
+              <TabsList className="w-full flex-wrap h-auto">
+                {tracks.map((option) => (
+                  <TabsTrigger key={option} value={option} className="flex-1">
+                    {option}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          )}
+
+          {trackRecords.length > 0 && (
+            <Card className="glass">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Trophy className="w-4 h-4 text-primary" />
+                  Track Records
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {trackRecords.map((record) => (
+                  <button
+                    key={record.car}
+                    className={`w-full flex items-center gap-3 rounded-lg p-2 text-left transition-colors ${car === record.car ? 'bg-primary/10' : 'hover:bg-primary/10'}`}
+                    onClick={() => setCar(car === record.car ? ALL_CARS : record.car)}
+                  >
+                    <span className="flex-1">
+                      <span className="block text-foreground">{record.car}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {record.driverName} · {new Date(record.setAt).toLocaleDateString('en-IN')}
+                      </span>
+                    </span>
+                    <span className="font-mono font-semibold text-foreground">{formatLapTime(record.lapTimeMs)}</span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {tracks.length > 0 && (
+            <Tabs value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+              <TabsList className="w-full">
+                {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map((option) => (
+                  <TabsTrigger key={option} value={option} className="flex-1">
+                    {PERIOD_LABELS[option]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          )}
+
+          <Card className="glass">
+            {car !== ALL_CARS && (
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Best Laps in the {car}</CardTitle>
+              </CardHeader>
+            )}
+            <CardContent className={car !== ALL_CARS ? '' : 'pt-4'}>
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-8">No laps set yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {entries.map((entry) => (
+                    <div key={`${entry.rank}-${entry.sessionId}`} className="flex items-center gap-3 rounded-lg p-2">
+                      <span className="w-6 text-center font-semibold text-muted-foreground">
+                        {entry.rank <= 3 ? <Medal className="w-4 h-4 text-primary mx-auto" /> : entry.rank}
+                      </span>
+                      <span className="flex-1 text-foreground">{entry.driverName}</span>
+                      <span className="text-xs text-muted-foreground">{entry.car}</span>
+                      <span className="w-20 text-right font-mono font-semibold text-foreground">
+                        {formatLapTime(entry.lapTimeMs)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Button variant="outline" className="w-full glass" onClick={() => navigate('/')}>
+            <Home className="w-4 h-4 mr-2" />
+            Return to Home
+          </Button>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
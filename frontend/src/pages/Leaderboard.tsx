@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Home, Loader2, Medal, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Logo } from '@/components/Logo';
+import { activitiesAPI, playersAPI } from '@/lib/api';
+import { Activity, LeaderboardEntry, LeaderboardPeriod } from '@/lib/types';
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  weekly: 'This Week',
+  monthly: 'This Month',
+  all: 'All Time',
+};
+
+export default function Leaderboard() {
+  const navigate = useNavigate();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [activityType, setActivityType] = useState('');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    activitiesAPI.getAll(true)
+      .then((data: Activity[]) => {
+        setActivities(data);
+        if (data.length > 0) setActivityType(data[0].id);
+      })
+      .catch((error) => console.error('Failed to load activities:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!activityType) return;
+    setLoading(true);
+    playersAPI.getLeaderboard(activityType, period)
+      .then((board) => setEntries(board.entries))
+      .catch((error) => console.error('Failed to load leaderboard:', error))
+      .finally(() => setLoading(false));
+  }, [activityType, period]);
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <header className="text-center space-y-3">
+            <Logo size="lg" className="justify-center" />
+            <h1 className="text-2xl font-semibold text-foreground">Leaderboard</h1>
+            <p className="text-sm text-muted-foreground">Win challenges to climb the ratings</p>
+          </header>
+
+          <Tabs value={activityType} onValueChange={setActivityType}>
+            <TabsList className="w-full flex-wrap h-auto">
+              {activities.map((activity) => (
+                <TabsTrigger key={activity.id} value={activity.id} className="flex-1">
+                  {activity.name}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+            <TabsList className="w-full">
+              {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map((option) => (
+                <TabsTrigger key={option} value={option} className="flex-1">
+                  {PERIOD_LABELS[option]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <Card className="glass">
+            <CardContent className="pt-4">
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-8">No challenges played yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {entries.map((entry) => (
+                    <button
+                      key={entry.playerId}
+                      className="w-full flex items-center gap-3 rounded-lg p-2 text-left hover:bg-primary/10 transition-colors"
+                      onClick={() => navigate(`/players/${entry.playerId}`)}
+                    >
+                      <span className="w-6 text-center font-semibold text-muted-foreground">
+                        {entry.rank <= 3 ? <Medal className="w-4 h-4 text-primary mx-auto" /> : entry.rank}
+                      </span>
+                      <span className="flex-1 text-foreground">{entry.name}</span>
+                      <span className="text-xs text-muted-foreground">{entry.wins}W {entry.losses}L</span>
+                      <span className="w-14 text-right font-semibold text-foreground">
+                        {entry.ratingChange !== undefined
+                          ? `${entry.ratingChange > 0 ? '+' : ''}${entry.ratingChange}`
+                          : entry.rating}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Button variant="outline" className="w-full glass" onClick={() => navigate('/lap-records')}>
+            <Timer className="w-4 h-4 mr-2" />
+            Racing Lap Records
+          </Button>
+
+          <Button variant="outline" className="w-full glass" onClick={() => navigate('/')}>
+            <Home className="w-4 h-4 mr-2" />
+            Return to Home
+          </Button>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
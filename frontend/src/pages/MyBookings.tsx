@@ -1,14 +1,17 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, Receipt, Calendar, CheckCircle, XCircle, Trash2, ChefHat, Package } from 'lucide-react';
+import { ArrowLeft, Clock, Receipt, Calendar, CheckCircle, XCircle, Trash2, ChefHat, Package, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Logo } from '@/components/Logo';
+import { CustomerLogin } from '@/components/CustomerLogin';
+import { PackWalletCard } from '@/components/PackWalletCard';
 import { sessionsAPI, ordersAPI } from '@/lib/api';
-import { formatCurrency, formatDuration } from '@/lib/types';
+import { formatCurrency, formatDuration, formatLapTime } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { useBookingHistory, BookingHistoryItem } from '@/hooks/useBookingHistory';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { useConfirmation } from '@/components/ui/confirmation-dialog';
 
@@ -16,7 +19,8 @@ export default function MyBookings() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { confirm, ConfirmationDialog } = useConfirmation();
-  const { history, clearHistory, updateBooking } = useBookingHistory();
+  const { customer, signOut } = useCustomerAuth();
+  const { history, loading: historyLoading, clearHistory, updateBooking } = useBookingHistory();
   const [bookings, setBookings] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const { on, isConnected, emit, joinRoom } = useWebSocket({ namespace: 'customer' });
@@ -28,8 +32,9 @@ export default function MyBookings() {
   useEffect(() => {
     if (!isConnected) return;
 
-    if (history.length > 0 && history[0].customerPhone) {
-      const normalizedPhone = history[0].customerPhone.replace(/\D/g, '');
+    const phone = customer?.phone || history[0]?.customerPhone;
+    if (phone) {
+      const normalizedPhone = phone.replace(/\D/g, '');
       emit('register_customer', { phone: normalizedPhone });
     }
 
@@ -159,7 +164,7 @@ export default function MyBookings() {
       cleanupSession();
       cleanupSessionStarted();
     };
-  }, [isConnected, history, emit, joinRoom, on, updateBooking, toast]);
+  }, [isConnected, history, customer, emit, joinRoom, on, updateBooking, toast]);
 
   const loadBookings = async () => {
     setLoading(true);
@@ -167,6 +172,10 @@ export default function MyBookings() {
       const details = await Promise.all(
         history.map(async (item: BookingHistoryItem) => {
           try {
+            // Items from the server already carry their latest record
+            if (item.details) {
+              return item;
+            }
             if (item.type === 'session' && item.sessionId) {
               const session = await sessionsAPI.getById(item.sessionId);
               
@@ -321,7 +330,7 @@ export default function MyBookings() {
     return statusMap[status] || status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
 
-  if (loading) {
+  if (loading || (historyLoading && bookings.length === 0)) {
     return (
       <div className="min-h-screen gradient-mesh flex items-center justify-center">
         <div className="text-muted-foreground">Loading your bookings...</div>
@@ -353,9 +362,32 @@ export default function MyBookings() {
                 <Logo size="sm" />
               </div>
 
-              {/* Right: Clear button */}
+              {/* Right: Sign out (signed in) or clear local history */}
               <div className="flex items-center flex-shrink-0 w-9">
-                {history.length > 0 && (
+                {customer ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      confirm({
+                        title: "Sign Out?",
+                        description: `You are signed in as ${customer.phone}. Bookings made on this device will still be shown after signing out.`,
+                        confirmText: "Sign Out",
+                        cancelText: "Cancel",
+                        onConfirm: () => {
+                          signOut();
+                          toast({
+                            title: 'Signed Out',
+                            description: 'Sign in again to see your full booking history.',
+                          });
+                        },
+                      });
+                    }}
+                    className="h-9 w-9"
+                  >
+                    <LogOut className="w-5 h-5" />
+                  </Button>
+                ) : history.length > 0 && (
                   <Button
                     variant="ghost"
                     size="icon"
@@ -390,6 +422,15 @@ export default function MyBookings() {
             My Bookings
           </h1>
 
+          {!customer && (
+            <CustomerLogin
+              defaultPhone={history[0]?.customerPhone}
+              defaultName={history[0]?.customerName}
+            />
+          )}
+
+          <PackWalletCard />
+
           {/* Bookings List */}
           {bookings.length > 0 ? (
             <div className="space-y-4">
@@ -461,6 +502,17 @@ export default function MyBookings() {
                             </p>
                           </div>
                         )}
+                        {booking.type === 'session' && booking.details?.laps?.bestLapMs && (
+                          <div>
+                            <p className="text-muted-foreground">Best Lap</p>
+                            <p className="font-medium font-mono">
+                              {formatLapTime(booking.details.laps.bestLapMs)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {booking.details.laps.track} · {booking.details.laps.count} laps
+                            </p>
+                          </div>
+                        )}
                         <div>
                           <p className="text-muted-foreground">ID</p>
                           <p className="font-mono text-xs break-all">
@@ -6,7 +6,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { paymentsAPI, sessionsAPI, ordersAPI, reservationsAPI } from '@/lib/api';
-import { formatCurrency, QRContext } from '@/lib/types';
+import { formatCurrency, QRContext, PriceLineItem, LoyaltyRedemption, CouponQuote, GroupBookingUnit, Session } from '@/lib/types';
+import { PriceBreakdownLines } from '@/components/PriceBreakdownLines';
+import { LoyaltyRedeemCard } from '@/components/LoyaltyRedeemCard';
+import { CouponCard } from '@/components/CouponCard';
 import { useToast } from '@/hooks/use-toast';
 import { useBookingHistory } from '@/hooks/useBookingHistory';
 import { useWebSocket } from '@/hooks/useWebSocket';
@@ -37,6 +40,17 @@ export default function Payment(props?: PaymentProps) {
   const sessionId = props?.sessionId || location.state?.sessionId as string | undefined;
   const orderId = props?.orderId || location.state?.orderId as string | undefined;
   const reservationId = props?.reservationId || location.state?.reservationId as string | undefined;
+  const extensionId = location.state?.extensionId as string | undefined;
+  const packagePurchaseId = location.state?.packagePurchaseId as string | undefined;
+  const packageName = location.state?.packageName as string | undefined;
+  const groupBookingId = location.state?.groupBookingId as string | undefined;
+  const groupUnits = location.state?.groupUnits as GroupBookingUnit[] | undefined;
+  const splitId = location.state?.splitId as string | undefined;
+  const splitShareId = location.state?.splitShareId as string | undefined; // one player's share of a split bill
+  const tournamentId = location.state?.tournamentId as string | undefined;
+  const tournamentPlayerId = location.state?.tournamentPlayerId as string | undefined; // a tournament entry fee
+  const priceBreakdown = location.state?.priceBreakdown as PriceLineItem[] | undefined;
+  const prepaymentRequired = location.state?.prepaymentRequired as boolean | undefined; // repeat no-shows must pay online
   const amount = props?.amount || location.state?.amount as number | undefined;
   const activity = location.state?.activity as any;
   const bookingRequest = location.state?.bookingRequest as any;
@@ -53,10 +67,12 @@ export default function Payment(props?: PaymentProps) {
   const [paymentMethod, setPaymentMethod] = useState<'upi' | 'card' | 'wallet' | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'processing' | 'success' | 'failed'>('idle');
+  const [redemption, setRedemption] = useState<LoyaltyRedemption | null>(null);
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
 
   useEffect(() => {
     const finalAmount = amount || session?.finalAmount || session?.amount;
-    if ((!sessionId && !orderId && !reservationId) || !finalAmount) {
+    if ((!sessionId && !orderId && !reservationId && !packagePurchaseId && !groupBookingId && !tournamentPlayerId) || !finalAmount) {
       if (!isChallengeSession) {
         toast({
           title: 'Invalid Request',
@@ -66,7 +82,7 @@ export default function Payment(props?: PaymentProps) {
         navigate('/');
       }
     }
-  }, [sessionId, orderId, reservationId, amount, session, isChallengeSession, navigate, toast]);
+  }, [sessionId, orderId, reservationId, packagePurchaseId, groupBookingId, tournamentPlayerId, amount, session, isChallengeSession, navigate, toast]);
 
   useEffect(() => {
     const script = document.createElement('script');
@@ -139,16 +155,32 @@ export default function Payment(props?: PaymentProps) {
   }, [isConnected, customerPhone, reservationId, orderId, sessionId, emit, joinRoom, on, toast]);
 
   const finalAmount = amount || session?.finalAmount || session?.amount;
+  const payableAmount = redemption ? redemption.amount : (coupon ? coupon.amount : finalAmount);
   
-  if ((!sessionId && !orderId && !reservationId) || (!finalAmount && !isChallengeSession)) {
+  if ((!sessionId && !orderId && !reservationId && !packagePurchaseId && !groupBookingId && !tournamentPlayerId) || (!finalAmount && !isChallengeSession)) {
     return null;
   }
 
-  const paymentType = orderId ? 'order' : (reservationId ? 'reservation' : 'session');
-  const entityId = orderId || reservationId || sessionId!;
-  const description = isChallengeSession 
-    ? `Challenge Session - ${challengeWinner || 'Winner'} pays for all`
-    : (orderId ? 'Food Order' : (activity?.name || 'Activity Booking'));
+  const paymentType = tournamentPlayerId ? 'tournament_entry' : splitShareId ? 'split_share' : orderId ? 'order' : (reservationId ? 'reservation' : (groupBookingId ? 'group' : (packagePurchaseId ? 'package' : (extensionId ? 'extension' : 'session'))));
+  const entityId = tournamentPlayerId || splitShareId || orderId || reservationId || groupBookingId || packagePurchaseId || extensionId || sessionId!;
+  const description = tournamentPlayerId
+    ? 'Tournament Entry Fee'
+    : splitShareId
+    ? 'Split Bill - Your Share'
+    : isChallengeSession
+      ? `Challenge Session - ${challengeWinner || 'Winner'} pays for all`
+      : (orderId ? 'Food Order' : groupBookingId ? 'Group Booking' : (packagePurchaseId ? (packageName || 'Prepaid Pack') : (extensionId ? `${activity?.name || 'Session'} - Extension` : (activity?.name || 'Activity Booking'))));
+
+  // An open-ended session is over once its bill is paid, so show the receipt
+  const finishOpenSession = (sessionData: Session, message: string) => {
+    toast({ title: 'Session Closed', description: message });
+    sessionStorage.removeItem('currentSession');
+    setTimeout(() => {
+      navigate('/receipt', {
+        state: { session: sessionData },
+      });
+    }, 1500);
+  };
 
   const handleCashPayment = async () => {
     setPaymentMode('cash');
@@ -163,7 +195,25 @@ export default function Payment(props?: PaymentProps) {
 
       setPaymentStatus('success');
 
-      if (orderId) {
+      if (tournamentPlayerId) {
+        toast({
+          title: 'Entry Recorded',
+          description: 'Please pay the entry fee at the counter to confirm your place.',
+        });
+        setTimeout(() => {
+          navigate(`/tournaments/${tournamentId}`);
+        }, 1500);
+      } else if (splitShareId) {
+        toast({
+          title: 'Share Recorded',
+          description: response.settled
+            ? 'Please pay at the counter. That was the last share, so the bill is settled.'
+            : 'Please pay your share at the counter.',
+        });
+        setTimeout(() => {
+          navigate(`/split/${splitId}?share=${splitShareId}`);
+        }, 1500);
+      } else if (orderId) {
         const order = await ordersAPI.getById(orderId);
         
         addBooking({
@@ -201,7 +251,7 @@ export default function Payment(props?: PaymentProps) {
             type: 'reservation',
             customerName: customerName || 'Customer',
             customerPhone: customerPhone || '',
-            amount: amount || 0,
+            amount: payableAmount || 0,
             status: 'pending_approval',
             createdAt: new Date().toISOString(),
             reservationId: reservationId,
@@ -230,7 +280,7 @@ export default function Payment(props?: PaymentProps) {
             type: 'reservation',
             reservationId,
             sessionId: response.sessionId,
-            amount: amount || session.baseAmount || session.amount,
+            amount: payableAmount || session.baseAmount || session.amount,
             paymentMethod: 'offline',
             timestamp: new Date().toISOString(),
           });
@@ -260,6 +310,32 @@ export default function Payment(props?: PaymentProps) {
             });
           }, 1500);
         }
+      } else if (extensionId) {
+        const session = await sessionsAPI.getById(sessionId!);
+        toast({
+          title: 'Payment Recorded',
+          description: 'Please pay at the counter. Your session will be extended once staff approve it.',
+        });
+        sessionStorage.setItem('currentSession', JSON.stringify(session));
+        setTimeout(() => {
+          navigate('/session', {
+            state: { session },
+          });
+        }, 2000);
+      } else if (sessionId && location.state?.openSessionBill) {
+        const session = await sessionsAPI.getById(sessionId);
+        if (response.requiresApproval) {
+          // Staff close the session once they've taken the cash
+          toast({ title: 'Pay at the Counter', description: response.message });
+          sessionStorage.setItem('currentSession', JSON.stringify(session));
+          setTimeout(() => {
+            navigate('/session', {
+              state: { session },
+            });
+          }, 2000);
+          return;
+        }
+        finishOpenSession(session, 'Please pay at the counter. Thanks for playing!');
       } else if (sessionId) {
         const session = await sessionsAPI.getById(sessionId);
         toast({
@@ -294,7 +370,7 @@ export default function Payment(props?: PaymentProps) {
     try {
       // Create Razorpay order
       const paymentOrder = await paymentsAPI.createOrder({
-        amount: finalAmount || amount || 0,
+        amount: payableAmount || amount || 0,
         type: paymentType,
         entityId,
         customerName: customerName || 'Customer',
@@ -326,7 +402,23 @@ export default function Payment(props?: PaymentProps) {
 
             setPaymentStatus('success');
 
-            if (orderId) {
+            if (tournamentPlayerId) {
+              toast({
+                title: 'You\'re In!',
+                description: verifyResult.message,
+              });
+              setTimeout(() => {
+                navigate(`/tournaments/${tournamentId}`);
+              }, 1500);
+            } else if (splitShareId) {
+              toast({
+                title: 'Share Paid',
+                description: verifyResult.message,
+              });
+              setTimeout(() => {
+                navigate(`/split/${splitId}?share=${splitShareId}`);
+              }, 1500);
+            } else if (orderId) {
               // Get updated order
               const order = await ordersAPI.getById(orderId);
               toast({
@@ -347,7 +439,7 @@ export default function Payment(props?: PaymentProps) {
                   type: 'reservation',
                   customerName: customerName || 'Customer',
                   customerPhone: customerPhone || '',
-                  amount: amount || 0,
+                  amount: payableAmount || 0,
                   status: 'payment_confirmed', // Payment successful but waiting for system
                   createdAt: new Date().toISOString(),
                   reservationId: reservationId,
@@ -365,6 +457,31 @@ export default function Payment(props?: PaymentProps) {
                 return;
               }
               
+              if (verifyResult.scheduled) {
+                addBooking({
+                  id: reservationId,
+                  type: 'reservation',
+                  customerName: customerName || 'Customer',
+                  customerPhone: customerPhone || '',
+                  amount: payableAmount || 0,
+                  status: 'scheduled',
+                  createdAt: new Date().toISOString(),
+                  reservationId: reservationId,
+                  sessionId: verifyResult.sessionId,
+                  activityId: activity?.type || activity?.id,
+                  durationMinutes: duration || 0,
+                });
+
+                toast({
+                  title: 'Slot Booked',
+                  description: `Your booking is confirmed for ${new Date(verifyResult.startTime).toLocaleString('en-IN')}.`,
+                });
+                setTimeout(() => {
+                  navigate('/my-bookings');
+                }, 1500);
+                return;
+              }
+
               // Unit is available, session should be started
               // Try to get session from verifyResult or confirm reservation
               let session;
@@ -382,7 +499,7 @@ export default function Payment(props?: PaymentProps) {
                 type: 'reservation',
                 customerName: customerName || 'Customer',
                 customerPhone: customerPhone || '',
-                amount: amount || session.finalAmount || session.amount || 0,
+                amount: payableAmount || session.finalAmount || session.amount || 0,
                 status: 'active',
                 createdAt: new Date().toISOString(),
                 reservationId: reservationId,
@@ -401,6 +518,41 @@ export default function Payment(props?: PaymentProps) {
                   state: { session },
                 });
               }, 1500);
+            } else if (groupBookingId) {
+              toast({
+                title: verifyResult.scheduled ? 'Group Slot Booked' : 'Group Session Started',
+                description: verifyResult.scheduled
+                  ? `All ${groupUnits?.length || ''} units are booked for ${new Date(verifyResult.startTime).toLocaleString('en-IN')}.`
+                  : `All ${groupUnits?.length || ''} units are running. Enjoy!`,
+              });
+              setTimeout(() => {
+                navigate('/my-bookings');
+              }, 1500);
+            } else if (packagePurchaseId) {
+              toast({
+                title: 'Pack Purchased',
+                description: 'Your pack is ready to use for your next booking.',
+              });
+              setTimeout(() => {
+                navigate('/my-bookings');
+              }, 1500);
+            } else if (extensionId) {
+              const sessionData = await sessionsAPI.getById(sessionId!);
+
+              toast({
+                title: 'Session Extended',
+                description: 'Payment successful. Extra time has been added to your session.',
+              });
+
+              sessionStorage.setItem('currentSession', JSON.stringify(sessionData));
+              setTimeout(() => {
+                navigate('/session', {
+                  state: { session: sessionData },
+                });
+              }, 1500);
+            } else if (sessionId && location.state?.openSessionBill) {
+              const sessionData = await sessionsAPI.getById(sessionId);
+              finishOpenSession(sessionData, 'Payment successful. Thanks for playing!');
             } else if (sessionId) {
               // Get updated session
               const sessionData = await sessionsAPI.getById(sessionId);
@@ -586,9 +738,57 @@ export default function Payment(props?: PaymentProps) {
                 <Separator />
               </>
             )}
+            {groupUnits && (
+              <>
+                {groupUnits.map((unit) => (
+                  <div key={unit.reservationId} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{unit.activityName} · {unit.unitName}</span>
+                    <span className="text-foreground">{formatCurrency(unit.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Duration</span>
+                  <span className="text-foreground">{duration} minutes</span>
+                </div>
+                <Separator />
+              </>
+            )}
+            {packagePurchaseId && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Prepaid Pack</span>
+                  <span className="text-foreground">{packageName || 'Pack'}</span>
+                </div>
+                <Separator />
+              </>
+            )}
+            {priceBreakdown && priceBreakdown.length > 0 && (
+              <>
+                <PriceBreakdownLines lineItems={priceBreakdown} />
+                <Separator />
+              </>
+            )}
+            {coupon && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-success">Coupon ({coupon.code})</span>
+                  <span className="text-success">−{formatCurrency(coupon.discount)}</span>
+                </div>
+                <Separator />
+              </>
+            )}
+            {redemption && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-success">Loyalty points ({redemption.pointsRedeemed})</span>
+                  <span className="text-success">−{formatCurrency(redemption.discount)}</span>
+                </div>
+                <Separator />
+              </>
+            )}
             <div className="flex justify-between text-lg font-semibold">
               <span>{isChallengeSession ? 'Total Amount (All Players)' : 'Total Amount'}</span>
-              <span>{formatCurrency(finalAmount || amount || session?.finalAmount || session?.amount || 0)}</span>
+              <span>{formatCurrency(payableAmount || amount || session?.finalAmount || session?.amount || 0)}</span>
             </div>
             {isChallengeSession && challengeWinner && (
               <p className="text-xs text-muted-foreground text-center mt-2">
@@ -598,6 +798,26 @@ export default function Payment(props?: PaymentProps) {
           </CardContent>
         </Card>
 
+        {paymentStatus === 'idle' && !isChallengeSession && reservationId && !redemption && (
+          <CouponCard
+            type="reservation"
+            entityId={reservationId}
+            applied={coupon}
+            onApplied={setCoupon}
+          />
+        )}
+
+        {paymentStatus === 'idle' && !isChallengeSession && (reservationId || orderId) && (
+          <LoyaltyRedeemCard
+            type={orderId ? 'order' : 'reservation'}
+            entityId={(orderId || reservationId)!}
+            customerPhone={customerPhone}
+            amount={coupon?.amount ?? finalAmount ?? 0}
+            redemption={redemption}
+            onRedeemed={setRedemption}
+          />
+        )}
+
         {/* Payment Mode Selection */}
         {paymentStatus === 'idle' && !selectedPaymentMode && (
           <div className="space-y-3">
@@ -605,24 +825,32 @@ export default function Payment(props?: PaymentProps) {
               Select Payment Mode
             </h2>
 
-            <Button
-              variant={paymentMode === 'cash' ? 'default' : 'outline'}
-              size="lg"
-              className="w-full justify-start h-auto py-4 glass"
-              onClick={() => setPaymentMode('cash')}
-              disabled={isProcessing}
-            >
-              <Banknote className="w-5 h-5 mr-3" />
-              <div className="flex-1 text-left">
-                <div className="font-medium">Cash Payment</div>
-                <div className="text-xs text-muted-foreground">
-                  Pay at the counter
+            {!packagePurchaseId && !groupBookingId && !prepaymentRequired && (
+              <Button
+                variant={paymentMode === 'cash' ? 'default' : 'outline'}
+                size="lg"
+                className="w-full justify-start h-auto py-4 glass"
+                onClick={() => setPaymentMode('cash')}
+                disabled={isProcessing}
+              >
+                <Banknote className="w-5 h-5 mr-3" />
+                <div className="flex-1 text-left">
+                  <div className="font-medium">Cash Payment</div>
+                  <div className="text-xs text-muted-foreground">
+                    Pay at the counter
+                  </div>
                 </div>
-              </div>
-              {paymentMode === 'cash' && (
-                <CheckCircle className="w-5 h-5 ml-auto" />
-              )}
-            </Button>
+                {paymentMode === 'cash' && (
+                  <CheckCircle className="w-5 h-5 ml-auto" />
+                )}
+              </Button>
+            )}
+
+            {prepaymentRequired && (
+              <p className="text-xs text-muted-foreground">
+                Pay at counter isn't available for this number because of missed bookings.
+              </p>
+            )}
 
             <Button
               variant={paymentMode === 'online' ? 'default' : 'outline'}
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { playersAPI } from '@/lib/api';
+import { PlayerProfile as PlayerProfileData } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+export default function PlayerProfile() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<PlayerProfileData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    playersAPI.getById(id)
+      .then(setProfile)
+      .catch((error) => {
+        toast({
+          title: 'Not Found',
+          description: error instanceof Error ? error.message : 'This player could not be found.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [id, toast]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen gradient-mesh flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/leaderboard')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-semibold text-foreground">{profile.name}</h1>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {profile.ratings.map((rating) => (
+              <Card key={rating.activityType} className="glass">
+                <CardContent className="pt-4 text-center space-y-1">
+                  <p className="text-xs text-muted-foreground capitalize">{rating.activityType.replace('-', ' ')}</p>
+                  <p className="text-2xl font-bold text-foreground">{rating.rating}</p>
+                  <p className="text-xs text-muted-foreground">{rating.wins}W {rating.losses}L</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {profile.headToHead.length > 0 && (
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle>Head to Head</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {profile.headToHead.map((record) => (
+                  <button
+                    key={`${record.playerId}:${record.activityType}`}
+                    className="w-full flex items-center justify-between text-sm text-left"
+                    onClick={() => navigate(`/players/${record.playerId}`)}
+                  >
+                    <span className="text-foreground">
+                      vs {record.name}
+                      <span className="text-xs text-muted-foreground capitalize"> · {record.activityType.replace('-', ' ')}</span>
+                    </span>
+                    <span className="font-semibold text-foreground">{record.wins} – {record.losses}</span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {profile.recentResults.length > 0 && (
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle>Recent Challenges</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {profile.recentResults.map((result, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                    {result.won ? (
+                      <Badge variant="outline" className="bg-success/20 text-success border-success/50">Won</Badge>
+                    ) : (
+                      <Badge variant="outline">Lost</Badge>
+                    )}
+                    <span className="flex-1 text-foreground">vs {result.opponents.join(', ')}</span>
+                    <span className={result.ratingChange >= 0 ? 'text-success' : 'text-muted-foreground'}>
+                      {result.ratingChange > 0 ? '+' : ''}{result.ratingChange}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
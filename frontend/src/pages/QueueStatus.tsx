@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Clock, Users, ArrowLeft } from 'lucide-react';
@@ -23,6 +23,9 @@ export default function QueueStatus() {
   const activityName = location.state?.activityName || 'Activity';
 
   const [position, setPosition] = useState(initialPosition);
+  const [estimatedWait, setEstimatedWait] = useState<number | null>(null);
+  const [estimatedStart, setEstimatedStart] = useState<Date | null>(null);
+  const lastPosition = useRef(initialPosition);
   const [loading, setLoading] = useState(true);
   const [queuePromptOpen, setQueuePromptOpen] = useState(false);
   const [queuePromptData, setQueuePromptData] = useState<any>(null);
@@ -49,10 +52,17 @@ export default function QueueStatus() {
     const cleanupStatus = on('queue_status', (data: any) => {
       if (data.reservationId === reservationId) {
         setPosition(data.position);
-        toast({
-          title: 'Queue Update',
-          description: data.message,
-        });
+        setEstimatedWait(data.estimatedWaitMinutes ?? null);
+        setEstimatedStart(data.estimatedStartTime ? new Date(data.estimatedStartTime) : null);
+
+        // ETAs are re-sent whenever a session moves; only moving up the queue is worth a toast
+        if (data.position !== lastPosition.current) {
+          lastPosition.current = data.position;
+          toast({
+            title: 'Queue Update',
+            description: data.message,
+          });
+        }
       }
     });
 
@@ -63,11 +73,38 @@ export default function QueueStatus() {
       }
     });
 
+    const cleanupMissed = on('queue_claim_missed', (data: { reservationId: string; message: string }) => {
+      if (data.reservationId === reservationId) {
+        setQueuePromptOpen(false);
+        setQueuePromptData(null);
+        toast({
+          title: 'Turn Missed',
+          description: data.message,
+          variant: 'destructive',
+        });
+      }
+    });
+
+    const cleanupExpired = on('queue_claim_expired', (data: { reservationId: string; message: string }) => {
+      if (data.reservationId === reservationId) {
+        setQueuePromptOpen(false);
+        removeBooking(reservationId);
+        toast({
+          title: 'Removed From Queue',
+          description: data.message,
+          variant: 'destructive',
+        });
+        navigate('/');
+      }
+    });
+
     return () => {
       cleanupStatus();
       cleanupResource();
+      cleanupMissed();
+      cleanupExpired();
     };
-  }, [isConnected, reservationId, on, toast]);
+  }, [isConnected, reservationId, on, toast, removeBooking, navigate]);
 
   useEffect(() => {
     const loadQueueStatus = async () => {
@@ -75,8 +112,11 @@ export default function QueueStatus() {
       
       try {
         const status = await queueAPI.getQueueStatus(reservationId);
-        if (status) {
+        if (status?.inQueue) {
           setPosition(status.position);
+          lastPosition.current = status.position;
+          setEstimatedWait(status.estimatedWaitTime ?? null);
+          setEstimatedStart(status.estimatedStartTime ? new Date(status.estimatedStartTime) : null);
         }
       } catch (error) {
         console.error('Failed to load queue status:', error);
@@ -99,6 +139,7 @@ export default function QueueStatus() {
         state: {
           reservationId,
           amount: queuePromptData.amount,
+          priceBreakdown: reservation.priceBreakdown,
           activity: {
             id: queuePromptData.activityId,
             name: queuePromptData.activityName,
@@ -199,8 +240,19 @@ export default function QueueStatus() {
                   </div>
                   <div className="flex items-center justify-center gap-2 text-muted-foreground">
                     <Clock className="w-4 h-4" />
-                    <span>Estimated wait: {Math.ceil(position * 0.5)} min</span>
+                    <span>
+                      {estimatedWait === null
+                        ? 'Estimated wait: —'
+                        : estimatedWait <= 0
+                          ? 'A system should be free any moment'
+                          : `Estimated wait: ${estimatedWait} min`}
+                    </span>
                   </div>
+                  {estimatedStart && estimatedWait !== null && estimatedWait > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Expected around {estimatedStart.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: true })}
+                    </p>
+                  )}
                 </>
               )}
             </CardContent>
@@ -238,6 +290,7 @@ export default function QueueStatus() {
           unitName={queuePromptData.unitName}
           amount={queuePromptData.amount}
           duration={queuePromptData.duration}
+          claimDeadline={queuePromptData.claimDeadline}
           loading={processing}
         />
       )}
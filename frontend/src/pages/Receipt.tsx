@@ -1,13 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Download, Share2, Receipt as ReceiptIcon, Calendar, Clock, User, Phone, CreditCard, Pause } from 'lucide-react';
+import { ArrowLeft, Download, Share2, Receipt as ReceiptIcon, Calendar, Clock, User, Phone, CreditCard, Pause, Timer, Trophy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Logo } from '@/components/Logo';
-import { sessionsAPI, ordersAPI } from '@/lib/api';
-import { formatCurrency, formatDuration } from '@/lib/types';
+import { sessionsAPI, ordersAPI, lapsAPI } from '@/lib/api';
+import { SessionLaps, formatCurrency, formatDuration, formatLapTime } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 
 export default function Receipt() {
@@ -16,6 +16,7 @@ export default function Receipt() {
   const { toast } = useToast();
   const [receiptData, setReceiptData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionLaps, setSessionLaps] = useState<SessionLaps | null>(null);
   const initializedRef = useRef(false);
   const toastRef = useRef(toast);
   const navigateRef = useRef(navigate);
@@ -111,6 +112,16 @@ export default function Receipt() {
     }, 100);
   }, []); // Empty deps - only run once, refs prevent re-runs
 
+  // Racing sessions carry their lap times on the receipt
+  useEffect(() => {
+    const session = receiptData?.type === 'session' ? receiptData.data : null;
+    const sessionId = session?.id || session?._id;
+    if (!sessionId || !String(session.activityId || '').includes('racing')) return;
+    lapsAPI.getSessionLaps(sessionId)
+      .then(setSessionLaps)
+      .catch(error => console.error('Error loading lap times:', error));
+  }, [receiptData]);
+
   const handleDownload = () => {
     if (!receiptData) return;
 
@@ -144,6 +155,9 @@ export default function Receipt() {
             ${receiptData.type === 'session' ? `
               <div class="row"><strong>Activity:</strong> ${receipt.activityId?.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'N/A'}</div>
               <div class="row"><strong>Duration:</strong> ${formatDuration(receipt.durationMinutes || receipt.duration || 0)}</div>
+              ${sessionLaps?.bestLaps.map(lap => `
+                <div class="row"><strong>Best Lap (${lap.track}, ${lap.car}):</strong> ${formatLapTime(lap.lapTimeMs)}${lap.isTrackRecord ? ' - Track Record' : ''}</div>
+              `).join('') || ''}
             ` : `
               <div class="row"><strong>Items:</strong> ${receipt.items?.length || 0}</div>
             `}
@@ -396,6 +410,44 @@ export default function Receipt() {
                 </div>
               )}
 
+              {/* Lap Times */}
+              {isSession && sessionLaps && sessionLaps.laps.length > 0 && (
+                <div className="mb-6">
+                  <p className="text-sm text-muted-foreground mb-3 flex items-center gap-2">
+                    <Timer className="w-4 h-4" />
+                    Lap Times
+                  </p>
+                  <div className="space-y-2 mb-3">
+                    {sessionLaps.bestLaps.map((lap) => (
+                      <div key={lap.id} className="flex items-center justify-between p-3 bg-primary/10 rounded-lg">
+                        <div>
+                          <p className="text-xs text-muted-foreground">Best lap - {lap.track}, {lap.car}</p>
+                          <p className="text-lg font-bold font-mono">{formatLapTime(lap.lapTimeMs)}</p>
+                        </div>
+                        {lap.isTrackRecord && (
+                          <span className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-success/20 text-success">
+                            <Trophy className="w-3 h-3" />
+                            Track Record
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    {sessionLaps.laps.map((lap) => (
+                      <div key={lap.id} className="flex justify-between text-xs py-1 border-b border-border/50 last:border-0">
+                        <span className="text-muted-foreground">
+                          Lap {lap.lapNumber}{sessionLaps.laps.some(l => l.driverName !== lap.driverName) ? ` - ${lap.driverName}` : ''}
+                        </span>
+                        <span className={`font-mono ${lap.valid ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                          {formatLapTime(lap.lapTimeMs)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Order Details */}
               {!isSession && receipt.items && (
                 <div className="mb-6">
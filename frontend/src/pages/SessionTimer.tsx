@@ -1,16 +1,21 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Clock, Plus, ShoppingCart, Receipt, LogOut, Pause, Users } from 'lucide-react';
+import { Clock, Plus, ShoppingCart, Receipt, LogOut, Pause, Users, SplitSquareHorizontal } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { sessionsAPI } from '@/lib/api';
-import { Session, QRContext } from '@/lib/types';
-import { formatDuration } from '@/lib/types';
+import { Session, QRContext, SnookerScoreboard } from '@/lib/types';
+import { formatDuration, formatPackBalance } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { useTimer } from '@/hooks/useTimer';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 import { WinnerSelectionDialog } from '@/components/WinnerSelectionDialog';
+import { SplitBillDialog } from '@/components/SplitBillDialog';
+import { SnookerScoreboardCard } from '@/components/SnookerScoreboardCard';
+import { VoteLinksCard } from '@/components/VoteLinksCard';
+import { getStoredVoteLinks } from '@/lib/vote-links';
 import { useConfirmation } from '@/components/ui/confirmation-dialog';
 
 export default function SessionTimer() {
@@ -22,6 +27,7 @@ export default function SessionTimer() {
   const [isExtended, setIsExtended] = useState(false);
   const [loading, setLoading] = useState(true);
   const [winnerDialogOpen, setWinnerDialogOpen] = useState(false);
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
   const isEndingRef = useRef(false);
 
   const isPaused = session?.status === 'paused' || !!session?.currentPauseStart;
@@ -40,13 +46,14 @@ export default function SessionTimer() {
   const { elapsed, remaining, isActive, formatTime } = useTimer(
     session?.id || null,
     session?.actualStartTime || session?.startTime,
-    session?.endTime,
+    session?.billingMode === 'postpaid' ? undefined : session?.endTime,
     isPaused,
     session?.currentPauseStart,
     session?.totalPausedDuration
   );
 
   const { on, isConnected, joinRoom, emit } = useWebSocket({ namespace: 'customer' });
+  const { customer } = useCustomerAuth();
 
   useEffect(() => {
     const loadSession = async () => {
@@ -282,6 +289,20 @@ export default function SessionTimer() {
       }
     };
 
+    const handleChallengeDisputed = (data: { session_id: string; message: string }) => {
+      if (data.session_id === session.id) {
+        setSession(prev => prev?.challengeData ? {
+          ...prev,
+          challengeData: { ...prev.challengeData, disputed: true },
+        } : prev);
+        toast({
+          title: 'Votes Disagree',
+          description: data.message,
+          variant: 'destructive',
+        });
+      }
+    };
+
     const handleSessionPaused = (data: any) => {
       if (data.session_id === session.id) {
         setSession(prev => prev ? {
@@ -322,6 +343,47 @@ export default function SessionTimer() {
       }
     };
 
+    const handleSessionExtended = (data: { session_id: string; endTime?: string; duration?: number; additional_minutes?: number }) => {
+      if (data.session_id === session.id) {
+        setSession(prev => prev ? {
+          ...prev,
+          endTime: data.endTime ? new Date(data.endTime) : prev.endTime,
+          duration: data.duration || prev.duration,
+          extended: true,
+        } : null);
+
+        toast({
+          title: 'Session Extended',
+          description: `Added ${data.additional_minutes || 0} minutes to your session.`,
+        });
+      }
+    };
+
+    const handlePaymentDue = (data: { session_id: string; finalAmount: number }) => {
+      if (data.session_id === session.id && !isEndingRef.current) {
+        isEndingRef.current = true;
+        navigate('/payment', {
+          state: { sessionId: session.id, amount: data.finalAmount, qrContext: session.qrContext, openSessionBill: true },
+        });
+      }
+    };
+
+    const handleExtensionRejected = (data: { session_id: string; message?: string }) => {
+      if (data.session_id === session.id) {
+        toast({
+          title: 'Extension Not Approved',
+          description: data.message || 'Your extension request was not approved.',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    const handleScoreboardUpdated = (data: { session_id: string; scoreboard: SnookerScoreboard }) => {
+      if (data.session_id === session.id) {
+        setSession(prev => prev ? { ...prev, scoreboard: data.scoreboard } : null);
+      }
+    };
+
     const cleanupTimer = on('timer_update', handleTimerUpdate);
     const cleanupRemoved = on('queue_removed', handleQueueRemoved);
     const cleanupAssigned = on('queue_assigned', handleQueueAssigned);
@@ -330,6 +392,11 @@ export default function SessionTimer() {
     const cleanupResumed = on('session_resumed', handleSessionResumed);
     const cleanupChallengeEnded = on('challenge_session_ended', handleChallengeSessionEnded);
     const cleanupWinnerSelected = on('winner_selected', handleWinnerSelected);
+    const cleanupDisputed = on('challenge_disputed', handleChallengeDisputed);
+    const cleanupExtended = on('session_extended', handleSessionExtended);
+    const cleanupExtensionRejected = on('extension_rejected', handleExtensionRejected);
+    const cleanupPaymentDue = on('session_payment_due', handlePaymentDue);
+    const cleanupScoreboard = on('scoreboard_updated', handleScoreboardUpdated);
 
     return () => {
       cleanupTimer();
@@ -340,8 +407,13 @@ export default function SessionTimer() {
       cleanupResumed();
       cleanupChallengeEnded();
       cleanupWinnerSelected();
+      cleanupDisputed();
+      cleanupExtended();
+      cleanupExtensionRejected();
+      cleanupPaymentDue();
+      cleanupScoreboard();
     };
-  }, [isConnected, session, on, toast]);
+  }, [isConnected, session, on, toast, navigate]);
 
   const handleSessionEnd = async () => {
     if (isEndingRef.current) return;
@@ -379,6 +451,32 @@ export default function SessionTimer() {
     });
   };
 
+  const handleFinishOpenSession = () => {
+    if (isEndingRef.current || !session) return;
+
+    confirm({
+      title: "Finish and Pay?",
+      description: "The clock stops now and you'll be billed for the time you played, minus breaks.",
+      confirmText: "Finish",
+      cancelText: "Keep Playing",
+      onConfirm: async () => {
+        if (isEndingRef.current) return;
+        isEndingRef.current = true;
+
+        try {
+          const result = await sessionsAPI.end(session.id);
+          navigate('/payment', {
+            state: { sessionId: session.id, amount: result.amountDue, qrContext: session.qrContext, openSessionBill: true },
+          });
+        } catch (error) {
+          console.error('Error ending session:', error);
+          isEndingRef.current = false;
+          throw error;
+        }
+      },
+    });
+  };
+
   const handleEndSession = async () => {
     if (isEndingRef.current) return;
     
@@ -423,8 +521,16 @@ export default function SessionTimer() {
     );
   }
 
-  const isLowTime = remaining < 300; // Less than 5 minutes
-  const timeDisplay = formatTime(remaining);
+  const isOpenEnded = session.billingMode === 'postpaid'; // counts up, billed when finished
+  const voteLinks = session.isChallengeSession ? getStoredVoteLinks(session.id) : [];
+  const starterVoteLink = voteLinks.find(link => link.playerName === session.challengeData?.challengeStartedBy);
+  // Players score with their voting link, or by signing in with the booking's or a player's phone
+  const isPlayer = !!starterVoteLink || (!!customer && [
+    session.customerPhone,
+    ...(session.challengeData?.players.map((p) => p.phone) || []),
+  ].includes(customer.phone));
+  const isLowTime = !isOpenEnded && remaining < 300; // Less than 5 minutes
+  const timeDisplay = formatTime(isOpenEnded ? elapsed : remaining);
 
   return (
     <div className="min-h-screen gradient-mesh flex items-center justify-center p-4">
@@ -480,6 +586,7 @@ export default function SessionTimer() {
 
                 <p className="text-sm text-muted-foreground mb-6">
                   {session.activityId.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  {isOpenEnded && ' · Pay when you finish'}
                 </p>
 
                 {isLowTime && (
@@ -496,18 +603,39 @@ export default function SessionTimer() {
           </Card>
         </motion.div>
 
+        {session.activityId.startsWith('snooker') && (
+          <div className="mb-6">
+            <SnookerScoreboardCard
+              sessionId={session.id}
+              scoreboard={session.scoreboard}
+              challengePlayers={session.challengeData?.players.map((p) => p.name)}
+              canScore={isPlayer && (session.status === 'active' || session.status === 'paused')}
+              voteToken={starterVoteLink?.token}
+              onChange={(scoreboard) => setSession(prev => prev ? { ...prev, scoreboard } : null)}
+            />
+          </div>
+        )}
+
+        {voteLinks.length > 0 && !session.challengeData?.winner && (
+          <div className="mb-6">
+            <VoteLinksCard links={voteLinks.filter(link => link !== starterVoteLink)} />
+          </div>
+        )}
+
         {/* Actions */}
         <div className="space-y-3">
-          <Button
-            variant="glow"
-            size="lg"
-            className="w-full"
-            onClick={handleExtend}
-            disabled={isPaused}
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Extend Session
-          </Button>
+          {!isOpenEnded && (
+            <Button
+              variant="glow"
+              size="lg"
+              className="w-full"
+              onClick={handleExtend}
+              disabled={isPaused}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Extend Session
+            </Button>
+          )}
 
           {isPaused && (
             <div className="glass rounded-2xl p-4 border border-warning/30">
@@ -533,6 +661,18 @@ export default function SessionTimer() {
             Order Food
           </Button>
 
+          {session.isChallengeSession && isPlayer && session.paymentStatus === 'pending' && (
+            <Button
+              variant="outline"
+              size="lg"
+              className="w-full glass"
+              onClick={() => setSplitDialogOpen(true)}
+            >
+              <SplitSquareHorizontal className="w-4 h-4 mr-2" />
+              Split the Bill
+            </Button>
+          )}
+
           <div className="grid grid-cols-2 gap-3">
             <Button
               variant="outline"
@@ -547,10 +687,10 @@ export default function SessionTimer() {
               variant="outline"
               size="lg"
               className="glass"
-              onClick={handleEndSession}
+              onClick={isOpenEnded ? handleFinishOpenSession : handleEndSession}
             >
               <LogOut className="w-4 h-4 mr-2" />
-              End Session
+              {isOpenEnded ? 'Finish & Pay' : 'End Session'}
             </Button>
           </div>
         </div>
@@ -563,6 +703,11 @@ export default function SessionTimer() {
               minute: '2-digit',
             })}
           </p>
+          {session.packagePurchase && (
+            <p className="text-xs text-muted-foreground">
+              Paid from {session.packagePurchase.name} · {formatPackBalance(session.packagePurchase)}
+            </p>
+          )}
           {session.totalPausedDuration && session.totalPausedDuration > 0 && (
             <p className="text-xs text-muted-foreground">
               Total breaks: {formatDuration(session.totalPausedDuration)}
@@ -578,12 +723,24 @@ export default function SessionTimer() {
           onOpenChange={setWinnerDialogOpen}
           sessionId={session.id}
           players={session.challengeData.players || []}
-          currentPlayerName={session.customerName}
+          voterName={starterVoteLink?.playerName}
+          voteToken={starterVoteLink?.token}
           winner={session.challengeData.winner}
+          disputed={session.challengeData.disputed}
           onWinnerSelected={handleDialogWinnerSelected}
           variant="user"
         />
       )}
+      {session?.isChallengeSession && session.challengeData && (
+        <SplitBillDialog
+          open={splitDialogOpen}
+          onOpenChange={setSplitDialogOpen}
+          sessionId={session.id}
+          players={session.challengeData.players || []}
+          winner={session.challengeData.winner}
+          voteToken={starterVoteLink?.token}
+        />
+      )}
       <ConfirmationDialog />
     </div>
   );
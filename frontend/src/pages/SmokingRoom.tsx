@@ -1,8 +1,11 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { AlertTriangle, X } from 'lucide-react';
+import { AlertTriangle, Clock, DoorOpen, Loader2, LogIn, LogOut, Users, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,11 +18,75 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Logo } from '@/components/Logo';
+import { smokingRoomAPI } from '@/lib/api';
+import { SmokingRoomState } from '@/lib/types';
+import {
+  getStoredSmokingRoomPhone,
+  getStoredSmokingRoomVisitToken,
+  storeSmokingRoomPhone,
+  storeSmokingRoomVisitToken,
+} from '@/lib/smoking-room';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
+import { useWebSocket } from '@/hooks/useWebSocket';
 
 export default function SmokingRoom() {
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const { customer } = useCustomerAuth();
+  const { on, emit, joinRoom, isConnected } = useWebSocket({ namespace: 'customer' });
   const [showAgeDialog, setShowAgeDialog] = useState(true);
   const [ageConfirmed, setAgeConfirmed] = useState(false);
+  const [phone, setPhone] = useState(() => getStoredSmokingRoomPhone() || customer?.phone || '');
+  const [name, setName] = useState(customer?.name || '');
+  const [room, setRoom] = useState<SmokingRoomState | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  // Read when the room reloads, so typing a phone doesn't refetch on every key
+  const phoneRef = useRef(phone);
+
+  const validPhone = /^\d{10}$/.test(phone);
+
+  useEffect(() => {
+    phoneRef.current = phone;
+  }, [phone]);
+
+  const loadRoom = useCallback(() => {
+    const current = phoneRef.current;
+    smokingRoomAPI.getStatus(/^\d{10}$/.test(current) ? current : undefined, getStoredSmokingRoomVisitToken())
+      .then(setRoom)
+      .catch((error) => {
+        setUnavailable(true);
+        toast({
+          title: 'Smoking Room Unavailable',
+          description: error instanceof Error ? error.message : 'Please ask our staff for help.',
+          variant: 'destructive',
+        });
+      });
+  }, [toast]);
+
+  useEffect(() => {
+    if (ageConfirmed) loadRoom();
+  }, [ageConfirmed, loadRoom]);
+
+  const visitPhone = room?.visit?.customerPhone;
+
+  // Room updates for everyone, and a nudge for this customer when their spot opens up
+  useEffect(() => {
+    if (!isConnected || !room?.activityId) return;
+    joinRoom(`activity:${room.activityId}`);
+    if (visitPhone) emit('register_customer', { phone: visitPhone });
+
+    const cleanupUpdated = on('smoking_room_updated', () => loadRoom());
+    const cleanupCalled = on('smoking_room_called', (data: { message: string }) => {
+      toast({ title: 'Your Turn!', description: data.message });
+      loadRoom();
+    });
+    return () => {
+      cleanupUpdated();
+      cleanupCalled();
+    };
+  }, [isConnected, room?.activityId, visitPhone, joinRoom, emit, on, loadRoom, toast]);
 
   const handleAgeConfirm = (confirmed: boolean) => {
     setShowAgeDialog(false);
@@ -30,6 +97,38 @@ export default function SmokingRoom() {
     }
   };
 
+  const runAction = async (action: () => Promise<SmokingRoomState>, failure: string) => {
+    setSubmitting(true);
+    try {
+      setRoom(await action());
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnter = () => {
+    storeSmokingRoomPhone(phone);
+    return runAction(async () => {
+      const entered = await smokingRoomAPI.enter(
+        { phone, name: name.trim() || undefined, ageConfirmed: true },
+        getStoredSmokingRoomVisitToken()
+      );
+      if (entered.visitToken) storeSmokingRoomVisitToken(entered.visitToken);
+      return entered;
+    }, 'Could Not Scan In');
+  };
+
+  const handleExit = () => runAction(
+    () => smokingRoomAPI.exit(phone, getStoredSmokingRoomVisitToken()),
+    'Could Not Scan Out'
+  );
+
   if (!ageConfirmed) {
     return (
       <AlertDialog open={showAgeDialog} onOpenChange={() => {}}>
@@ -63,6 +162,90 @@ export default function SmokingRoom() {
     );
   }
 
+  const visit = room?.visit;
+
+  const renderVisit = () => {
+    if (visit?.status === 'inside') {
+      return (
+        <div className="space-y-4">
+          <div className="text-sm text-muted-foreground">
+            <p>You have been granted access to the smoking room.</p>
+            <p className="mt-2">
+              Please follow all safety guidelines and dispose of smoking materials properly. Scan out when you leave.
+            </p>
+          </div>
+          <Button variant="outline" className="w-full" disabled={submitting} onClick={handleExit}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Scan Out
+          </Button>
+        </div>
+      );
+    }
+
+    if (visit?.status === 'called') {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-start gap-2 rounded-lg bg-primary/10 border border-primary/20 p-3 text-sm text-foreground">
+            <DoorOpen className="w-4 h-4 mt-0.5 text-primary" />
+            <span>
+              A spot is kept for you
+              {visit.claimDeadline && ` until ${new Date(visit.claimDeadline).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}.
+              Scan in when you reach the door.
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" disabled={submitting} onClick={handleExit}>
+              Give Up Spot
+            </Button>
+            <Button variant="glow" className="flex-1" disabled={submitting} onClick={handleEnter}>
+              <LogIn className="w-4 h-4 mr-2" />
+              I&apos;m Here
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (visit?.status === 'waiting') {
+      return (
+        <div className="space-y-4">
+          <div className="text-center py-2">
+            <p className="text-4xl font-bold text-primary">#{visit.position}</p>
+            <p className="text-sm text-muted-foreground mt-1">in the queue. We&apos;ll text you when a spot opens up.</p>
+          </div>
+          <Button variant="outline" className="w-full" disabled={submitting} onClick={handleExit}>
+            <X className="w-4 h-4 mr-2" />
+            Leave Queue
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="smoking-phone">Phone Number</Label>
+          <Input
+            id="smoking-phone"
+            type="tel"
+            inputMode="numeric"
+            placeholder="10-digit mobile number"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value.replace(/\D/g, '').slice(0, 10))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="smoking-name">Name (Optional)</Label>
+          <Input id="smoking-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <Button variant="glow" className="w-full" disabled={!validPhone || submitting || !room} onClick={handleEnter}>
+          {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogIn className="w-4 h-4 mr-2" />}
+          {room && room.available === 0 ? 'Join Queue' : 'Scan In'}
+        </Button>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen gradient-mesh">
       <div className="container max-w-lg mx-auto px-4 py-6">
@@ -95,18 +278,43 @@ export default function SmokingRoom() {
             </CardContent>
           </Card>
 
+          {/* Occupancy */}
+          {room && (
+            <Card className="glass">
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    <Users className="w-4 h-4" />
+                    Inside now
+                  </span>
+                  <span className="font-semibold text-foreground">
+                    {room.occupancy} / {room.capacity}
+                  </span>
+                </div>
+                <Progress value={Math.min((room.occupancy / room.capacity) * 100, 100)} />
+                {room.queueLength > 0 && (
+                  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Clock className="w-3 h-3" />
+                    {room.queueLength} waiting
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Access Info */}
           <Card className="glass">
             <CardHeader>
               <CardTitle>Access Information</CardTitle>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="text-sm text-muted-foreground">
-                <p>You have been granted access to the smoking room.</p>
-                <p className="mt-2">
-                  Please follow all safety guidelines and dispose of smoking materials properly.
-                </p>
-              </div>
+            <CardContent>
+              {room ? renderVisit() : unavailable ? (
+                <p className="text-sm text-muted-foreground">The smoking room isn&apos;t open right now. Please ask our staff.</p>
+              ) : (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -126,4 +334,3 @@ export default function SmokingRoom() {
     </div>
   );
 }
-
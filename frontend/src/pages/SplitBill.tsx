@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { CheckCircle, Home, Loader2, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { billSplitsAPI } from '@/lib/api';
+import { BillSplit as BillSplitData, formatCurrency } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+export default function SplitBill() {
+  const navigate = useNavigate();
+  const { splitId } = useParams<{ splitId: string }>();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const shareId = searchParams.get('share');
+  const [split, setSplit] = useState<BillSplitData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!splitId) return;
+    billSplitsAPI.getById(splitId)
+      .then(setSplit)
+      .catch((error) => {
+        toast({
+          title: 'Not Found',
+          description: error instanceof Error ? error.message : 'This split bill could not be found.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [splitId, toast]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen gradient-mesh flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!split) {
+    return null;
+  }
+
+  const myShare = split.shares.find((share) => share.id === shareId);
+  const paidCount = split.shares.filter((share) => share.status !== 'pending').length;
+
+  return (
+    <div className="min-h-screen gradient-mesh flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+        >
+          <Card className="glass-strong border-2">
+            <CardContent className="pt-10 pb-10">
+              <div className="text-center space-y-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-foreground mb-2">
+                    {split.status === 'settled' ? 'Bill Paid!' : 'Split Bill'}
+                  </h2>
+                  <p className="text-muted-foreground">
+                    {formatCurrency(split.totalAmount)} shared between {split.shares.length} players · {paidCount} paid
+                  </p>
+                </div>
+
+                <div className="space-y-2 pt-4 border-t text-left">
+                  {split.shares.map((share) => (
+                    <div
+                      key={share.id}
+                      className={`flex items-center justify-between text-sm rounded-lg p-2 ${share.id === shareId ? 'bg-primary/10' : ''}`}
+                    >
+                      <span className="text-foreground">{share.playerName}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-foreground">{formatCurrency(share.amount)}</span>
+                        {share.status === 'pending' ? (
+                          <Badge variant="outline">Due</Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-success/20 text-success border-success/50">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Paid
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex gap-3 pt-4">
+                  <Button variant="outline" className="flex-1 glass" onClick={() => navigate('/')}>
+                    <Home className="w-4 h-4 mr-2" />
+                    Home
+                  </Button>
+                  {myShare?.status === 'pending' && split.status === 'open' && (
+                    <Button
+                      variant="glow"
+                      className="flex-1"
+                      onClick={() => navigate('/payment', {
+                        state: {
+                          splitId: split.id,
+                          splitShareId: myShare.id,
+                          sessionId: split.sessionId,
+                          amount: myShare.amount,
+                          session: { customerName: myShare.playerName },
+                        },
+                      })}
+                    >
+                      <Wallet className="w-4 h-4 mr-2" />
+                      Pay {formatCurrency(myShare.amount)}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Crown, Loader2, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { tournamentsAPI } from '@/lib/api';
+import { Tournament, TournamentMatch, formatCurrency } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/useWebSocket';
+
+const roundLabel = (tournament: Tournament, round: number) => {
+  if (tournament.format === 'round_robin') return `Round ${round}`;
+  if (round === tournament.rounds) return 'Final';
+  if (round === tournament.rounds - 1) return 'Semi-finals';
+  return `Round ${round}`;
+};
+
+function MatchCard({ match }: { match: TournamentMatch }) {
+  const playerRow = (name?: string) => (
+    <div className={`flex items-center justify-between text-sm ${match.winner && match.winner === name ? 'font-semibold text-success' : 'text-foreground'}`}>
+      <span>{name || (match.status === 'bye' ? 'Bye' : 'TBD')}</span>
+      {match.winner && match.winner === name && <Crown className="w-3 h-3" />}
+    </div>
+  );
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-background/40 p-2 space-y-1">
+      {playerRow(match.player1)}
+      {playerRow(match.player2)}
+      {match.status === 'in_progress' && (
+        <Badge variant="outline" className="text-xs bg-primary/20 text-primary border-primary/50">Playing now</Badge>
+      )}
+      {match.status === 'scheduled' && match.scheduledAt && (
+        <p className="text-xs text-muted-foreground">{new Date(match.scheduledAt).toLocaleTimeString()}</p>
+      )}
+    </div>
+  );
+}
+
+export default function TournamentBracket() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { on, joinRoom, isConnected } = useWebSocket({ namespace: 'customer' });
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [registering, setRegistering] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    tournamentsAPI.getById(id)
+      .then(setTournament)
+      .catch((error) => {
+        toast({
+          title: 'Not Found',
+          description: error instanceof Error ? error.message : 'This tournament could not be found.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [id, toast]);
+
+  // The bracket fills in live as results come in
+  useEffect(() => {
+    if (!isConnected || !id) return;
+    joinRoom(`tournament:${id}`);
+    return on('tournament_updated', (data: Tournament) => {
+      if (data.id === id) {
+        setTournament(data);
+      }
+    });
+  }, [isConnected, id, joinRoom, on]);
+
+  const handleRegister = async () => {
+    if (!tournament) return;
+    setRegistering(true);
+    try {
+      const entry = await tournamentsAPI.register(tournament.id, { name: name.trim(), phone: phone.trim() });
+      if (entry.paymentStatus === 'pending') {
+        navigate('/payment', {
+          state: {
+            tournamentId: tournament.id,
+            tournamentPlayerId: entry.playerId,
+            amount: entry.entryFee,
+            session: { customerName: entry.name, customerPhone: phone.trim() },
+          },
+        });
+        return;
+      }
+      toast({ title: "You're In!", description: `${entry.name} is registered for ${tournament.name}.` });
+      setName('');
+      setPhone('');
+      setTournament(await tournamentsAPI.getById(tournament.id));
+    } catch (error) {
+      toast({
+        title: 'Registration Failed',
+        description: error instanceof Error ? error.message : 'Could not register for this tournament',
+        variant: 'destructive',
+      });
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen gradient-mesh flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return null;
+  }
+
+  const rounds = Array.from({ length: tournament.rounds }, (_, index) => index + 1);
+  const isFull = tournament.playerCount >= tournament.maxPlayers;
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-5xl mx-auto px-4 py-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/tournaments')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">{tournament.name}</h1>
+              <p className="text-sm text-muted-foreground">
+                {tournament.format === 'round_robin' ? 'Round robin' : 'Knockout'} ·{' '}
+                {new Date(tournament.startsAt).toLocaleString()} ·{' '}
+                {tournament.entryFee > 0 ? formatCurrency(tournament.entryFee) : 'Free entry'}
+              </p>
+            </div>
+          </div>
+
+          {tournament.winner && (
+            <Card className="glass-strong border-2 border-primary/50">
+              <CardContent className="pt-6 text-center space-y-2">
+                <Trophy className="w-10 h-10 text-primary mx-auto" />
+                <p className="text-xl font-bold text-foreground">{tournament.winner} wins!</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {tournament.status === 'registration' && (
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle>Enter the Tournament</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {tournament.playerCount}/{tournament.maxPlayers} players confirmed
+                  {tournament.players.length > 0 && `: ${tournament.players.filter((p) => p.paid).map((p) => p.name).join(', ')}`}
+                </p>
+                {isFull ? (
+                  <p className="text-sm text-muted-foreground">This tournament is full.</p>
+                ) : (
+                  <>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="tournament-name">Player name</Label>
+                        <Input id="tournament-name" value={name} onChange={(e) => setName(e.target.value)} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="tournament-phone">Phone</Label>
+                        <Input id="tournament-phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} />
+                      </div>
+                    </div>
+                    <Button
+                      variant="glow"
+                      className="w-full"
+                      onClick={handleRegister}
+                      disabled={registering || !name.trim() || phone.trim().length < 10}
+                    >
+                      {registering && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {tournament.entryFee > 0 ? `Register & Pay ${formatCurrency(tournament.entryFee)}` : 'Register'}
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {tournament.matches.length > 0 && (
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {rounds.map((round) => (
+                <div key={round} className="min-w-[200px] flex-1 space-y-3">
+                  <h3 className="text-sm font-semibold text-muted-foreground">{roundLabel(tournament, round)}</h3>
+                  <div className="flex flex-col justify-around gap-3 h-full">
+                    {tournament.matches
+                      .filter((match) => match.round === round)
+                      .map((match) => (
+                        <MatchCard key={match.id} match={match} />
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {tournament.standings && tournament.standings.length > 0 && (
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle>Standings</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {tournament.standings.map((standing, index) => (
+                  <div key={standing.playerId} className="flex items-center justify-between text-sm">
+                    <span className="text-foreground">{index + 1}. {standing.name}</span>
+                    <span className="text-muted-foreground">
+                      {standing.wins} W · {standing.played - standing.wins} L
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
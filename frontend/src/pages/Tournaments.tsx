@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Calendar, Home, Loader2, Trophy, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Logo } from '@/components/Logo';
+import { tournamentsAPI } from '@/lib/api';
+import { Tournament, formatCurrency } from '@/lib/types';
+
+const STATUS_LABELS: Record<Tournament['status'], string> = {
+  registration: 'Open for entries',
+  in_progress: 'In progress',
+  completed: 'Finished',
+  cancelled: 'Cancelled',
+};
+
+export default function Tournaments() {
+  const navigate = useNavigate();
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    tournamentsAPI.getAll()
+      .then(setTournaments)
+      .catch((error) => console.error('Failed to load tournaments:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen gradient-mesh">
+      <div className="container max-w-lg mx-auto px-4 py-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <header className="text-center space-y-3">
+            <Logo size="lg" className="justify-center" />
+            <h1 className="text-2xl font-semibold text-foreground">Tournaments</h1>
+          </header>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : tournaments.length === 0 ? (
+            <p className="text-center text-muted-foreground">No tournaments right now. Check back soon!</p>
+          ) : (
+            <div className="space-y-3">
+              {tournaments.map((tournament) => (
+                <Card
+                  key={tournament.id}
+                  className="glass cursor-pointer hover:border-primary/50 transition-colors"
+                  onClick={() => navigate(`/tournaments/${tournament.id}`)}
+                >
+                  <CardContent className="pt-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <h2 className="font-semibold text-foreground flex items-center gap-2">
+                        <Trophy className="w-4 h-4 text-primary" />
+                        {tournament.name}
+                      </h2>
+                      <Badge variant="outline">{STATUS_LABELS[tournament.status]}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {new Date(tournament.startsAt).toLocaleString()}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Users className="w-3 h-3" />
+                        {tournament.playerCount}/{tournament.maxPlayers}
+                      </span>
+                      <span>{tournament.entryFee > 0 ? formatCurrency(tournament.entryFee) : 'Free entry'}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Button variant="outline" className="w-full glass" onClick={() => navigate('/')}>
+            <Home className="w-4 h-4 mr-2" />
+            Return to Home
+          </Button>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
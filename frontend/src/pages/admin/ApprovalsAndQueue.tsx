@@ -5,8 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { queueAPI, activitiesAPI } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { CheckCircle, XCircle, Clock, Users, RefreshCw, Play } from "lucide-react";
-import { formatCurrency } from "@/lib/types";
+import { CheckCircle, XCircle, Clock, Users, RefreshCw, Play, TimerReset } from "lucide-react";
+import { formatCurrency, PendingExtensionApproval } from "@/lib/types";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,12 +22,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 export default function ApprovalsAndQueue() {
   const { toast } = useToast();
   const [pendingApprovals, setPendingApprovals] = useState<any[]>([]);
+  const [extensionApprovals, setExtensionApprovals] = useState<PendingExtensionApproval[]>([]);
   const [waitingQueue, setWaitingQueue] = useState<any[]>([]);
   const [activities, setActivities] = useState<any[]>([]);
   const [selectedActivity, setSelectedActivity] = useState<string>("all");
   const [loading, setLoading] = useState(true);
   const [approvingId, setApprovingId] = useState<string | null>(null);
   const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectingExtensionId, setRejectingExtensionId] = useState<string | null>(null);
   const [selectedUnitId, setSelectedUnitId] = useState<string>("");
 
   useEffect(() => {
@@ -39,12 +41,14 @@ export default function ApprovalsAndQueue() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [approvalsData, queueData, activitiesData] = await Promise.all([
+      const [approvalsData, extensionsData, queueData, activitiesData] = await Promise.all([
         queueAPI.getPendingApprovals(),
+        queueAPI.getPendingExtensionApprovals(),
         queueAPI.getWaitingQueue(selectedActivity !== "all" ? selectedActivity : undefined),
         activitiesAPI.getAll(),
       ]);
       setPendingApprovals(approvalsData);
+      setExtensionApprovals(extensionsData);
       setWaitingQueue(queueData);
       setActivities(activitiesData);
     } catch (error: any) {
@@ -99,6 +103,45 @@ export default function ApprovalsAndQueue() {
     }
   };
 
+  const handleApproveExtension = async (extensionId: string) => {
+    try {
+      setApprovingId(extensionId);
+      await queueAPI.approveExtensionPayment(extensionId);
+      toast({
+        title: "Success",
+        description: "Payment approved and session extended.",
+      });
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to approve extension.",
+        variant: "destructive",
+      });
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const handleRejectExtension = async (extensionId: string) => {
+    try {
+      await queueAPI.rejectExtensionPayment(extensionId);
+      toast({
+        title: "Success",
+        description: "Extension rejected.",
+      });
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reject extension.",
+        variant: "destructive",
+      });
+    } finally {
+      setRejectingExtensionId(null);
+    }
+  };
+
   const handleProcessQueue = async (activityId: string) => {
     try {
       await queueAPI.processQueue(activityId);
@@ -116,6 +159,23 @@ export default function ApprovalsAndQueue() {
     }
   };
 
+  const handleMarkRefunded = async (entryId: string) => {
+    try {
+      await queueAPI.markQueueEntryRefunded(entryId);
+      toast({
+        title: "Success",
+        description: "Refund recorded.",
+      });
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record the refund.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleString("en-IN", {
       day: "2-digit",
@@ -241,6 +301,83 @@ export default function ApprovalsAndQueue() {
           </CardContent>
         </Card>
 
+        {/* Pending Extension Approvals */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TimerReset className="w-5 h-5" />
+              Pending Extensions ({extensionApprovals.length})
+            </CardTitle>
+            <CardDescription>
+              Cash payments for session extensions. The session is extended once approved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">Loading...</div>
+            ) : extensionApprovals.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No pending extensions
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {extensionApprovals.map((extension) => (
+                  <Card key={extension.id} className="border-primary/20">
+                    <CardContent className="pt-6">
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-2">
+                            <h3 className="font-semibold text-lg">{extension.customerName}</h3>
+                            <Badge variant="outline">{extension.customerPhone}</Badge>
+                          </div>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-muted-foreground">
+                            <div>
+                              <span className="font-medium">Activity:</span>{" "}
+                              {extension.activityId?.name || "N/A"}
+                              {extension.unitId?.name ? ` (${extension.unitId.name})` : ""}
+                            </div>
+                            <div>
+                              <span className="font-medium">Extra Time:</span>{" "}
+                              {extension.additionalMinutes} min
+                            </div>
+                            <div>
+                              <span className="font-medium">Amount:</span>{" "}
+                              {formatCurrency(extension.amount)}
+                            </div>
+                            <div>
+                              <span className="font-medium">Requested:</span>{" "}
+                              {formatDate(extension.createdAt)}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={() => handleApproveExtension(extension.id)}
+                            disabled={approvingId === extension.id}
+                            size="sm"
+                          >
+                            <CheckCircle className="w-4 h-4 mr-2" />
+                            Approve
+                          </Button>
+                          <Button
+                            onClick={() => setRejectingExtensionId(extension.id)}
+                            disabled={rejectingExtensionId === extension.id}
+                            variant="destructive"
+                            size="sm"
+                          >
+                            <XCircle className="w-4 h-4 mr-2" />
+                            Reject
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Waiting Queue */}
         <Card>
           <CardHeader>
@@ -277,6 +414,16 @@ export default function ApprovalsAndQueue() {
                             >
                               {entry.paymentStatus === "paid" ? "Paid" : "Offline"}
                             </Badge>
+                            {entry.claimDeadline && (
+                              <Badge variant="default">
+                                Called · claim by {new Date(entry.claimDeadline).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+                              </Badge>
+                            )}
+                            {entry.refundDue ? (
+                              <Badge variant="destructive">Expired · refund due</Badge>
+                            ) : entry.missedClaims > 0 && (
+                              <Badge variant="destructive">Missed turn</Badge>
+                            )}
                           </div>
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-muted-foreground">
                             <div>
@@ -297,7 +444,16 @@ export default function ApprovalsAndQueue() {
                             </div>
                           </div>
                         </div>
-                        {entry.activityId && (
+                        {entry.refundDue ? (
+                          <Button
+                            onClick={() => handleMarkRefunded(entry.id)}
+                            size="sm"
+                            variant="outline"
+                          >
+                            <CheckCircle className="w-4 h-4 mr-2" />
+                            Mark Refunded
+                          </Button>
+                        ) : entry.activityId && (
                           <Button
                             onClick={() => handleProcessQueue(entry.activityId._id || entry.activityId.id)}
                             size="sm"
@@ -318,11 +474,12 @@ export default function ApprovalsAndQueue() {
 
         {/* Reject Confirmation Dialog */}
         <AlertDialog 
-          open={!!rejectingId} 
+          open={!!rejectingId || !!rejectingExtensionId} 
           onOpenChange={(open) => {
             // Only close if explicitly closing, prevent flickering
-            if (!open && rejectingId) {
+            if (!open && (rejectingId || rejectingExtensionId)) {
               setRejectingId(null);
+              setRejectingExtensionId(null);
             }
           }}
         >
@@ -334,11 +491,20 @@ export default function ApprovalsAndQueue() {
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => setRejectingId(null)}>Cancel</AlertDialogCancel>
+              <AlertDialogCancel
+                onClick={() => {
+                  setRejectingId(null);
+                  setRejectingExtensionId(null);
+                }}
+              >
+                Cancel
+              </AlertDialogCancel>
               <AlertDialogAction
                 onClick={() => {
                   if (rejectingId) {
                     handleReject(rejectingId);
+                  } else if (rejectingExtensionId) {
+                    handleRejectExtension(rejectingExtensionId);
                   }
                 }}
                 className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
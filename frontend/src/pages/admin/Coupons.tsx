@@ -0,0 +1,487 @@
+import { useState, useEffect } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { activitiesAPI, couponsAPI } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmation } from "@/components/ui/confirmation-dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { formatCurrency, Coupon, CouponDiscountType, CouponInput, MenuCategory } from "@/lib/types";
+
+interface ActivityOption {
+  id: string;
+  name: string;
+}
+
+const MENU_CATEGORIES: { value: MenuCategory; label: string }[] = [
+  { value: "chinese", label: "Chinese" },
+  { value: "sandwiches", label: "Sandwiches" },
+  { value: "pasta", label: "Pasta" },
+  { value: "beverages", label: "Beverages" },
+];
+
+const formatDiscount = (coupon: Coupon) =>
+  coupon.discountType === "percent"
+    ? `${coupon.value}%${coupon.maxDiscount ? ` up to ${formatCurrency(coupon.maxDiscount)}` : ""}`
+    : formatCurrency(coupon.value);
+
+const formatAppliesTo = (coupon: Coupon) => {
+  const names = [
+    ...coupon.activityIds.map((a) => a.name),
+    ...coupon.menuCategories.map((c) => MENU_CATEGORIES.find((m) => m.value === c)?.label || c),
+  ];
+  return names.length > 0 ? names.join(", ") : "Everything";
+};
+
+const formatValidity = (coupon: Coupon) => {
+  const format = (date: string) => new Date(date).toLocaleDateString("en-IN");
+  if (coupon.validFrom && coupon.validUntil) return `${format(coupon.validFrom)} – ${format(coupon.validUntil)}`;
+  if (coupon.validUntil) return `Until ${format(coupon.validUntil)}`;
+  if (coupon.validFrom) return `From ${format(coupon.validFrom)}`;
+  return "Always";
+};
+
+export default function Coupons() {
+  const { toast } = useToast();
+  const { confirm, ConfirmationDialog } = useConfirmation();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [activities, setActivities] = useState<ActivityOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [couponData, activityData] = await Promise.all([
+        couponsAPI.getAll(),
+        activitiesAPI.getAll(),
+      ]);
+      setCoupons(couponData);
+      setActivities(activityData.map((a: ActivityOption) => ({ id: a.id, name: a.name })));
+    } catch (error) {
+      console.error('Failed to load coupons:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load coupons.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (couponData: CouponInput) => {
+    try {
+      if (editingCoupon) {
+        await couponsAPI.update(editingCoupon.id, couponData);
+      } else {
+        await couponsAPI.create(couponData);
+      }
+      toast({
+        title: "Success",
+        description: editingCoupon ? "Coupon updated successfully." : "Coupon created successfully.",
+      });
+      setIsDialogOpen(false);
+      setEditingCoupon(null);
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save coupon.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (coupon: Coupon) => {
+    confirm({
+      title: "Delete Coupon?",
+      description: "Coupons that have been used can only be disabled.",
+      variant: "destructive",
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      onConfirm: async () => {
+        try {
+          await couponsAPI.delete(coupon.id);
+          toast({
+            title: "Success",
+            description: "Coupon deleted successfully.",
+          });
+          loadData();
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to delete coupon.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Coupons</h1>
+            <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+              Promo codes customers can enter at checkout
+            </p>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingCoupon(null);
+              setIsDialogOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Coupon
+          </Button>
+        </div>
+
+        <Card className="glass">
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {coupons.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      {loading ? "Loading coupons..." : "No coupons yet."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  coupons.map((coupon) => (
+                    <TableRow key={coupon.id}>
+                      <TableCell>
+                        <p className="font-medium font-mono">{coupon.code}</p>
+                        {coupon.description && (
+                          <p className="text-xs text-muted-foreground">{coupon.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatDiscount(coupon)}
+                        {coupon.minSpend > 0 && (
+                          <p className="text-xs text-muted-foreground">Min {formatCurrency(coupon.minSpend)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatAppliesTo(coupon)}</TableCell>
+                      <TableCell>
+                        {coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                        {coupon.perPhoneLimit && (
+                          <p className="text-xs text-muted-foreground">{coupon.perPhoneLimit} per customer</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatValidity(coupon)}</TableCell>
+                      <TableCell>
+                        <Badge variant={coupon.enabled ? "default" : "secondary"}>
+                          {coupon.enabled ? "Active" : "Disabled"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingCoupon(coupon);
+                              setIsDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(coupon)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCoupon ? "Edit Coupon" : "Add Coupon"}</DialogTitle>
+            </DialogHeader>
+            <CouponForm
+              coupon={editingCoupon}
+              activities={activities}
+              onSubmit={handleSave}
+              onCancel={() => {
+                setIsDialogOpen(false);
+                setEditingCoupon(null);
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <ConfirmationDialog />
+      </div>
+    </AdminLayout>
+  );
+}
+
+interface CouponFormProps {
+  coupon: Coupon | null;
+  activities: ActivityOption[];
+  onSubmit: (data: CouponInput) => void;
+  onCancel: () => void;
+}
+
+function CouponForm({ coupon, activities, onSubmit, onCancel }: CouponFormProps) {
+  const [formData, setFormData] = useState<CouponInput>({
+    code: coupon?.code || "",
+    description: coupon?.description || "",
+    discountType: coupon?.discountType || "percent",
+    value: coupon?.value ?? 10,
+    maxDiscount: coupon?.maxDiscount ?? null,
+    activityIds: coupon?.activityIds.map((a) => a._id) || [],
+    menuCategories: coupon?.menuCategories || [],
+    minSpend: coupon?.minSpend ?? 0,
+    usageLimit: coupon?.usageLimit ?? null,
+    perPhoneLimit: coupon?.perPhoneLimit ?? null,
+    validFrom: coupon?.validFrom ? coupon.validFrom.slice(0, 10) : null,
+    validUntil: coupon?.validUntil ? coupon.validUntil.slice(0, 10) : null,
+    enabled: coupon?.enabled !== undefined ? coupon.enabled : true,
+  });
+
+  const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+  const toggleActivity = (id: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      activityIds: checked
+        ? [...formData.activityIds, id]
+        : formData.activityIds.filter((activityId) => activityId !== id),
+    });
+  };
+
+  const toggleCategory = (category: MenuCategory, checked: boolean) => {
+    setFormData({
+      ...formData,
+      menuCategories: checked
+        ? [...formData.menuCategories, category]
+        : formData.menuCategories.filter((c) => c !== category),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...formData,
+      maxDiscount: formData.discountType === "percent" ? formData.maxDiscount : null,
+      // Dates are whole days, so the coupon runs to the end of its last day
+      validUntil: formData.validUntil ? `${formData.validUntil}T23:59:59` : null,
+      validFrom: formData.validFrom ? `${formData.validFrom}T00:00:00` : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="couponCode">Code *</Label>
+          <Input
+            id="couponCode"
+            value={formData.code}
+            onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+            placeholder="e.g., WEEKEND20"
+            className="uppercase"
+            disabled={!!coupon}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="couponDescription">Description</Label>
+          <Input
+            id="couponDescription"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Type *</Label>
+          <Select
+            value={formData.discountType}
+            onValueChange={(value) => setFormData({ ...formData, discountType: value as CouponDiscountType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Percent</SelectItem>
+              <SelectItem value="flat">Flat ₹</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="couponValue">{formData.discountType === "percent" ? "Percent *" : "Amount (₹) *"}</Label>
+          <Input
+            id="couponValue"
+            type="number"
+            min="1"
+            max={formData.discountType === "percent" ? "100" : undefined}
+            value={formData.value || ""}
+            onChange={(e) => setFormData({ ...formData, value: Number(e.target.value) })}
+            required
+          />
+        </div>
+        {formData.discountType === "percent" && (
+          <div className="space-y-2">
+            <Label htmlFor="couponMax">Max off (₹)</Label>
+            <Input
+              id="couponMax"
+              type="number"
+              min="1"
+              value={formData.maxDiscount ?? ""}
+              onChange={(e) => setFormData({ ...formData, maxDiscount: optionalNumber(e.target.value) })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Services</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {activities.map((activity) => (
+            <label key={activity.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.activityIds.includes(activity.id)}
+                onCheckedChange={(checked) => toggleActivity(activity.id, checked === true)}
+              />
+              {activity.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Menu Categories</Label>
+        <p className="text-xs text-muted-foreground">Leave services and categories unchecked to apply to everything.</p>
+        <div className="grid grid-cols-2 gap-2">
+          {MENU_CATEGORIES.map((category) => (
+            <label key={category.value} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.menuCategories.includes(category.value)}
+                onCheckedChange={(checked) => toggleCategory(category.value, checked === true)}
+              />
+              {category.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="couponMinSpend">Min spend (₹)</Label>
+          <Input
+            id="couponMinSpend"
+            type="number"
+            min="0"
+            value={formData.minSpend}
+            onChange={(e) => setFormData({ ...formData, minSpend: Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="couponUsageLimit">Total uses</Label>
+          <Input
+            id="couponUsageLimit"
+            type="number"
+            min="1"
+            placeholder="Unlimited"
+            value={formData.usageLimit ?? ""}
+            onChange={(e) => setFormData({ ...formData, usageLimit: optionalNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="couponPerPhone">Per customer</Label>
+          <Input
+            id="couponPerPhone"
+            type="number"
+            min="1"
+            placeholder="Unlimited"
+            value={formData.perPhoneLimit ?? ""}
+            onChange={(e) => setFormData({ ...formData, perPhoneLimit: optionalNumber(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="couponFrom">Valid from</Label>
+          <Input
+            id="couponFrom"
+            type="date"
+            value={formData.validFrom ?? ""}
+            onChange={(e) => setFormData({ ...formData, validFrom: e.target.value || null })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="couponUntil">Valid until</Label>
+          <Input
+            id="couponUntil"
+            type="date"
+            value={formData.validUntil ?? ""}
+            onChange={(e) => setFormData({ ...formData, validUntil: e.target.value || null })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Status</Label>
+        <Select
+          value={formData.enabled ? "enabled" : "disabled"}
+          onValueChange={(value) => setFormData({ ...formData, enabled: value === "enabled" })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="enabled">Active</SelectItem>
+            <SelectItem value="disabled">Disabled</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">{coupon ? "Update Coupon" : "Create Coupon"}</Button>
+      </div>
+    </form>
+  );
+}
@@ -2,12 +2,15 @@ import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { StationCard } from "@/components/admin/StationCard";
+import { BranchSwitcher } from "@/components/admin/BranchSwitcher";
 import { RevenueCard, QueuePreviewCard } from "@/components/admin/StatsCards";
+import { SmokingRoomCard } from "@/components/admin/SmokingRoomCard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { sessionsAPI, activitiesAPI, ordersAPI } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { useWebSocket } from "@/hooks/useWebSocket";
+import { useAdminBranch } from "@/hooks/useAdminBranch";
 import { Activity } from "lucide-react";
 import { calculateRevenueBreakdown, calculateTotalRevenue } from "@/lib/revenue";
 
@@ -18,6 +21,7 @@ export default function AdminDashboard() {
   const [sessions, setSessions] = useState<any[]>([]);
   const [orders, setOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const branchId = useAdminBranch();
 
   const { on, isConnected } = useWebSocket({ namespace: 'admin' });
 
@@ -25,7 +29,7 @@ export default function AdminDashboard() {
     loadData();
     const interval = setInterval(loadData, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [branchId]);
 
   useEffect(() => {
     if (!isConnected) return;
@@ -317,6 +321,9 @@ export default function AdminDashboard() {
             <Activity className="w-5 h-5 text-success" />
             <h2 className="text-lg md:text-xl font-bold text-foreground">Live Stations</h2>
             <span className="w-2 h-2 bg-success rounded-full pulse-glow" />
+            <div className="ml-auto">
+              <BranchSwitcher />
+            </div>
           </motion.div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3 md:gap-4">
@@ -343,6 +350,7 @@ export default function AdminDashboard() {
 
         <div className="space-y-4">
           <RevenueCard total={todayRevenue} breakdown={revenueBreakdown} />
+          <SmokingRoomCard branchId={branchId} />
           
           {pendingOrders.length > 0 && (
             <Card className="glass">
@@ -13,6 +13,8 @@ import { useToast } from "@/hooks/use-toast";
 import { Plus, Search, Package, AlertTriangle, Edit, Trash2, Settings, X as XIcon, Download, Upload, ChevronLeft, ChevronRight, Trash } from "lucide-react";
 import { formatCurrency } from "@/lib/types";
 import { CSVImportDialog } from "@/components/admin/CSVImportDialog";
+import { BranchSwitcher } from "@/components/admin/BranchSwitcher";
+import { useAdminBranch } from "@/hooks/useAdminBranch";
 import { useConfirmation } from "@/components/ui/confirmation-dialog";
 
 export default function Inventory() {
@@ -37,12 +39,13 @@ export default function Inventory() {
     consumables: 0,
     lowStock: 0,
   });
+  const branchId = useAdminBranch();
 
   useEffect(() => {
     setSelectedItems(new Set());
     loadData(1);
     loadStats();
-  }, [selectedCategory, selectedType, lowStockOnly, searchTerm]);
+  }, [selectedCategory, selectedType, lowStockOnly, searchTerm, branchId]);
 
   const loadStats = async () => {
     try {
@@ -226,6 +229,7 @@ export default function Inventory() {
             <p className="text-muted-foreground">Manage all inventory items, equipment, and stock</p>
           </div>
           <div className="flex items-center gap-2">
+            <BranchSwitcher />
             {selectedItems.size > 0 && (
               <Button 
                 variant="destructive" 
@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { NoShowsCard } from "@/components/admin/NoShowsCard";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { loyaltyAPI } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Award, Phone, RefreshCw, Search } from "lucide-react";
+import { LoyaltyMember, LoyaltySummary, LoyaltyTier } from "@/lib/types";
+
+const getTierBadge = (tier: LoyaltyTier, name: string) => {
+  switch (tier) {
+    case 'gold':
+      return <Badge className="bg-warning/20 text-warning border-warning/30">{name}</Badge>;
+    case 'silver':
+      return <Badge className="bg-primary/20 text-primary border-primary/30">{name}</Badge>;
+    default:
+      return <Badge variant="outline">{name}</Badge>;
+  }
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function Loyalty() {
+  const { toast } = useToast();
+  const [members, setMembers] = useState<LoyaltyMember[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<LoyaltySummary | null>(null);
+  const [loadingMember, setLoadingMember] = useState(false);
+
+  useEffect(() => {
+    loadMembers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadMembers = async (query = search) => {
+    try {
+      setLoading(true);
+      setMembers(await loyaltyAPI.getMembers(query.replace(/\D/g, '') || undefined));
+    } catch (error) {
+      console.error('Failed to load loyalty members:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load loyalty members.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openMember = async (phone: string) => {
+    try {
+      setLoadingMember(true);
+      setSelected(await loyaltyAPI.getMember(phone));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load member.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMember(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Loyalty</h1>
+            <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+              Member points balances, tiers and history
+            </p>
+          </div>
+          <form
+            className="flex items-center gap-2 w-full sm:w-auto"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadMembers();
+            }}
+          >
+            <Input
+              type="tel"
+              placeholder="Search by phone"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="sm:w-[200px]"
+            />
+            <Button type="submit" variant="outline" disabled={loading}>
+              {loading ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            </Button>
+          </form>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg">Members</CardTitle>
+              <CardDescription>Sorted by lifetime points</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {members.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  {loading ? 'Loading members...' : 'No members found.'}
+                </p>
+              ) : (
+                members.map((member) => (
+                  <button
+                    key={member.phone}
+                    onClick={() => openMember(member.phone)}
+                    className={`w-full flex items-center justify-between gap-3 rounded-lg border p-3 text-left transition-colors hover:border-primary/50 ${
+                      selected?.phone === member.phone ? 'border-primary/50 bg-primary/5' : 'border-border'
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground truncate">{member.name || 'Customer'}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Phone className="w-3 h-3" /> {member.phone}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {getTierBadge(member.tier, member.tierName)}
+                      <span className="font-semibold text-foreground">{member.balance} pts</span>
+                    </div>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Award className="w-5 h-5" />
+                {selected ? selected.name || selected.phone : 'Member Details'}
+              </CardTitle>
+              {selected && (
+                <CardDescription className="flex items-center gap-2">
+                  {selected.phone} {getTierBadge(selected.tier, selected.tierName)}
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loadingMember ? (
+                <div className="flex justify-center py-6">
+                  <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : !selected ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Select a member to see their points history.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 gap-3 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Balance</p>
+                      <p className="font-semibold text-lg text-primary">{selected.balance}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Lifetime</p>
+                      <p className="font-semibold text-lg">{selected.lifetimePoints}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Discount</p>
+                      <p className="font-semibold text-lg">{selected.discountPercent}%</p>
+                    </div>
+                  </div>
+                  {selected.nextTier && (
+                    <p className="text-xs text-muted-foreground">
+                      {selected.nextTier.pointsNeeded} more lifetime points to reach {selected.nextTier.name}
+                    </p>
+                  )}
+
+                  <div className="space-y-2">
+                    {selected.transactions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No points activity yet.</p>
+                    ) : (
+                      selected.transactions.map((transaction) => (
+                        <div key={transaction.id} className="flex items-center justify-between gap-3 text-sm border-b border-border/50 pb-2">
+                          <div className="min-w-0">
+                            <p className="text-foreground">{transaction.description}</p>
+                            <p className="text-xs text-muted-foreground">{formatDate(transaction.createdAt)}</p>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <p className={transaction.points >= 0 ? 'text-success font-medium' : 'text-destructive font-medium'}>
+                              {transaction.points >= 0 ? '+' : ''}{transaction.points}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{transaction.balanceAfter} pts</p>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <NoShowsCard />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -17,11 +17,13 @@ import {
   Filter,
   ChevronLeft,
   ChevronRight,
-  UtensilsCrossed
+  UtensilsCrossed,
+  Undo2
 } from "lucide-react";
 import { formatCurrency } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefundDialog } from "@/components/admin/RefundDialog";
 
 export default function OrderHistory() {
   const { toast } = useToast();
@@ -31,6 +33,7 @@ export default function OrderHistory() {
   const [offset, setOffset] = useState(0);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [total, setTotal] = useState(0);
+  const [refundOrderId, setRefundOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     loadOrders();
@@ -96,11 +99,17 @@ export default function OrderHistory() {
         return <Badge className="bg-warning/20 text-warning border-warning/30">Pending</Badge>;
       case 'failed':
         return <Badge className="bg-destructive/20 text-destructive border-destructive/30">Failed</Badge>;
+      case 'refunded':
+        return <Badge className="bg-muted text-muted-foreground border-border">Refunded</Badge>;
+      case 'partially_refunded':
+        return <Badge className="bg-warning/20 text-warning border-warning/30">Partially Refunded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
+  const isRefundable = (paymentStatus: string) => ['paid', 'offline', 'partially_refunded'].includes(paymentStatus);
+
   const formatDate = (date: Date) => {
     return date.toLocaleString('en-IN', {
       day: '2-digit',
@@ -111,6 +120,8 @@ export default function OrderHistory() {
     });
   };
 
+  const refundOrder = orders.find((o) => o.id === refundOrderId);
+
   const totalPages = Math.ceil(total / limit);
   const currentPage = Math.floor(offset / limit) + 1;
 
@@ -204,6 +215,11 @@ export default function OrderHistory() {
                             <p className="text-xl sm:text-2xl font-bold text-primary">
                               {formatCurrency(order.totalAmount || 0)}
                             </p>
+                            {order.refundedAmount > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatCurrency(order.refundedAmount)} refunded
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -241,6 +257,20 @@ export default function OrderHistory() {
                           </div>
                         </div>
                       </div>
+
+                      {isRefundable(order.paymentStatus) && (
+                        <div className="mt-4 pt-4 border-t border-border/50">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full"
+                            onClick={() => setRefundOrderId(order.id)}
+                          >
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Refund
+                          </Button>
+                        </div>
+                      )}
                     </CardContent>
                     </Card>
                   </motion.div>
@@ -282,6 +312,19 @@ export default function OrderHistory() {
           </>
         )}
       </div>
+
+      {refundOrder && (
+        <RefundDialog
+          open={!!refundOrder}
+          onOpenChange={(open) => !open && setRefundOrderId(null)}
+          type="order"
+          entityId={refundOrder.id}
+          customerName={refundOrder.customerName}
+          paidAmount={refundOrder.totalAmount || 0}
+          refundedAmount={refundOrder.refundedAmount || 0}
+          onRefunded={() => loadOrders()}
+        />
+      )}
     </AdminLayout>
   );
 }
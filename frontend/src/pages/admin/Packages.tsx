@@ -0,0 +1,449 @@
+import { useState, useEffect } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { activitiesAPI, packagesAPI } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmation } from "@/components/ui/confirmation-dialog";
+import { Edit, Plus, RefreshCw, Search, Ticket, Trash2 } from "lucide-react";
+import { formatCurrency, formatDuration, formatPackBalance, Package, PackageKind, PackagePurchase } from "@/lib/types";
+
+type PackageFormData = Omit<Package, "id" | "activityName">;
+
+interface ActivityOption {
+  id: string;
+  name: string;
+}
+
+export default function Packages() {
+  const { toast } = useToast();
+  const { confirm, ConfirmationDialog } = useConfirmation();
+  const [packs, setPacks] = useState<Package[]>([]);
+  const [activities, setActivities] = useState<ActivityOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPack, setEditingPack] = useState<Package | null>(null);
+  const [walletPhone, setWalletPhone] = useState('');
+  const [wallet, setWallet] = useState<PackagePurchase[] | null>(null);
+  const [loadingWallet, setLoadingWallet] = useState(false);
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [packData, activityData] = await Promise.all([
+        packagesAPI.getAll(),
+        activitiesAPI.getAll(),
+      ]);
+      setPacks(packData);
+      setActivities(activityData.map((a: ActivityOption) => ({ id: a.id, name: a.name })));
+    } catch (error) {
+      console.error('Failed to load packs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load packs.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (packData: PackageFormData) => {
+    try {
+      if (editingPack) {
+        await packagesAPI.update(editingPack.id, packData);
+      } else {
+        await packagesAPI.create(packData);
+      }
+      toast({
+        title: "Success",
+        description: editingPack ? "Pack updated successfully." : "Pack created successfully.",
+      });
+      setIsDialogOpen(false);
+      setEditingPack(null);
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save pack.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (pack: Package) => {
+    confirm({
+      title: "Delete Pack?",
+      description: "Packs that have been sold can only be disabled.",
+      variant: "destructive",
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      onConfirm: async () => {
+        try {
+          await packagesAPI.delete(pack.id);
+          toast({
+            title: "Success",
+            description: "Pack deleted successfully.",
+          });
+          loadData();
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to delete pack.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
+  const lookupWallet = async () => {
+    const phone = walletPhone.replace(/\D/g, '');
+    if (phone.length < 10) return;
+
+    try {
+      setLoadingWallet(true);
+      setWallet(await packagesAPI.getCustomerWallet(phone));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load customer packs.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingWallet(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Prepaid Packs</h1>
+            <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+              Bundles of play time or credit customers buy upfront
+            </p>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingPack(null);
+              setIsDialogOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Pack
+          </Button>
+        </div>
+
+        <Card className="glass">
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Includes</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Valid For</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {packs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      {loading ? "Loading packs..." : "No packs yet."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  packs.map((pack) => (
+                    <TableRow key={pack.id}>
+                      <TableCell className="font-medium">{pack.name}</TableCell>
+                      <TableCell>{pack.activityName || pack.activityId}</TableCell>
+                      <TableCell>
+                        {pack.kind === "hours" ? formatDuration(pack.minutes || 0) : `${formatCurrency(pack.credit || 0)} credit`}
+                      </TableCell>
+                      <TableCell>{formatCurrency(pack.price)}</TableCell>
+                      <TableCell>{pack.validityDays} days</TableCell>
+                      <TableCell>
+                        <Badge variant={pack.enabled ? "default" : "secondary"}>
+                          {pack.enabled ? "On Sale" : "Disabled"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingPack(pack);
+                              setIsDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(pack)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Ticket className="w-5 h-5" />
+              Customer Balances
+            </CardTitle>
+            <CardDescription>Look up the packs a customer has left to use</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                lookupWallet();
+              }}
+            >
+              <Input
+                type="tel"
+                placeholder="Customer phone"
+                value={walletPhone}
+                onChange={(e) => setWalletPhone(e.target.value)}
+                className="sm:w-[200px]"
+              />
+              <Button type="submit" variant="outline" disabled={loadingWallet}>
+                {loadingWallet ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              </Button>
+            </form>
+            {wallet && (
+              wallet.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active packs for this customer.</p>
+              ) : (
+                <div className="space-y-2">
+                  {wallet.map((purchase) => (
+                    <div key={purchase.id} className="flex items-center justify-between gap-3 text-sm border-b border-border/50 pb-2">
+                      <div className="min-w-0">
+                        <p className="text-foreground">{purchase.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {purchase.activityName} · expires {purchase.expiresAt ? new Date(purchase.expiresAt).toLocaleDateString('en-IN') : '—'}
+                        </p>
+                      </div>
+                      {purchase.status === "expired" ? (
+                        <Badge variant="secondary">Expired</Badge>
+                      ) : (
+                        <span className="font-medium text-foreground shrink-0">{formatPackBalance(purchase)}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingPack ? "Edit Pack" : "Add Pack"}</DialogTitle>
+            </DialogHeader>
+            <PackageForm
+              pack={editingPack}
+              activities={activities}
+              onSubmit={handleSave}
+              onCancel={() => {
+                setIsDialogOpen(false);
+                setEditingPack(null);
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <ConfirmationDialog />
+      </div>
+    </AdminLayout>
+  );
+}
+
+interface PackageFormProps {
+  pack: Package | null;
+  activities: ActivityOption[];
+  onSubmit: (data: PackageFormData) => void;
+  onCancel: () => void;
+}
+
+function PackageForm({ pack, activities, onSubmit, onCancel }: PackageFormProps) {
+  const [formData, setFormData] = useState<PackageFormData>({
+    name: pack?.name || "",
+    description: pack?.description || "",
+    activityId: pack?.activityId || activities[0]?.id || "",
+    kind: pack?.kind || "hours",
+    minutes: pack?.minutes ?? 600,
+    credit: pack?.credit ?? 1000,
+    price: pack?.price ?? 0,
+    validityDays: pack?.validityDays ?? 90,
+    enabled: pack?.enabled !== undefined ? pack.enabled : true,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...formData,
+      minutes: formData.kind === "hours" ? formData.minutes : undefined,
+      credit: formData.kind === "credit" ? formData.credit : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="packName">Name *</Label>
+        <Input
+          id="packName"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="e.g., 10 Hours PS5"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="packDescription">Description</Label>
+        <Input
+          id="packDescription"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Service *</Label>
+          <Select
+            value={formData.activityId}
+            onValueChange={(value) => setFormData({ ...formData, activityId: value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select service" />
+            </SelectTrigger>
+            <SelectContent>
+              {activities.map((activity) => (
+                <SelectItem key={activity.id} value={activity.id}>
+                  {activity.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Type *</Label>
+          <Select
+            value={formData.kind}
+            onValueChange={(value) => setFormData({ ...formData, kind: value as PackageKind })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hours">Play time</SelectItem>
+              <SelectItem value="credit">Rupee credit</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {formData.kind === "hours" ? (
+          <div className="space-y-2">
+            <Label htmlFor="packMinutes">Minutes *</Label>
+            <Input
+              id="packMinutes"
+              type="number"
+              min="1"
+              value={formData.minutes ?? ""}
+              onChange={(e) => setFormData({ ...formData, minutes: Number(e.target.value) })}
+              required
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="packCredit">Credit (₹) *</Label>
+            <Input
+              id="packCredit"
+              type="number"
+              min="1"
+              value={formData.credit ?? ""}
+              onChange={(e) => setFormData({ ...formData, credit: Number(e.target.value) })}
+              required
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="packPrice">Price (₹) *</Label>
+          <Input
+            id="packPrice"
+            type="number"
+            min="1"
+            value={formData.price || ""}
+            onChange={(e) => setFormData({ ...formData, price: Number(e.target.value) })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="packValidity">Valid (days) *</Label>
+          <Input
+            id="packValidity"
+            type="number"
+            min="1"
+            value={formData.validityDays}
+            onChange={(e) => setFormData({ ...formData, validityDays: Number(e.target.value) })}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Status</Label>
+        <Select
+          value={formData.enabled ? "enabled" : "disabled"}
+          onValueChange={(value) => setFormData({ ...formData, enabled: value === "enabled" })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="enabled">On sale</SelectItem>
+            <SelectItem value="disabled">Disabled</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">{pack ? "Update Pack" : "Create Pack"}</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,603 @@
+import { useState, useEffect } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { activitiesAPI, reservationSeriesAPI } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmation } from "@/components/ui/confirmation-dialog";
+import { CalendarClock, Eye, Plus, XCircle } from "lucide-react";
+import {
+  formatCurrency,
+  formatDuration,
+  Activity,
+  ReservationSeries,
+  ReservationSeriesRequest,
+  SeriesBilling,
+  SeriesFrequency,
+  SeriesPreview,
+} from "@/lib/types";
+
+const UPCOMING_STATUSES = ["pending_payment", "pending_approval", "payment_confirmed"];
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString("en-IN", { weekday: "short", day: "numeric", month: "short", hour: "numeric", minute: "2-digit" });
+
+const formatSchedule = (series: ReservationSeries) => {
+  const every = series.frequency === "weekly" ? "Every week" : "Every other week";
+  const until = series.endDate
+    ? `until ${new Date(series.endDate).toLocaleDateString("en-IN")}`
+    : `× ${series.occurrenceCount}`;
+  return `${every} from ${formatDateTime(series.startTime)}, ${until}`;
+};
+
+const statusVariant = (status: ReservationSeries["status"]) => {
+  if (status === "active") return "default";
+  if (status === "pending_payment") return "outline";
+  return "secondary";
+};
+
+export default function Recurring() {
+  const { toast } = useToast();
+  const { confirm, ConfirmationDialog } = useConfirmation();
+  const [seriesList, setSeriesList] = useState<ReservationSeries[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [viewing, setViewing] = useState<ReservationSeries | null>(null);
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [seriesData, activityData] = await Promise.all([
+        reservationSeriesAPI.getAll(),
+        activitiesAPI.getAll(true),
+      ]);
+      setSeriesList(seriesData);
+      setActivities(activityData);
+    } catch (error) {
+      console.error('Failed to load recurring bookings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring bookings.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSeries = async (id: string) => {
+    try {
+      setViewing(await reservationSeriesAPI.getById(id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load this series.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreated = (series: ReservationSeries) => {
+    setIsFormOpen(false);
+    toast({
+      title: "Recurring booking created",
+      description: series.skippedOccurrences.length > 0
+        ? `${series.skippedOccurrences.length} date(s) were skipped because they clash with other bookings.`
+        : "Every date was booked.",
+    });
+    setViewing(series);
+    loadData();
+  };
+
+  const handleMarkPaid = async (series: ReservationSeries) => {
+    try {
+      setViewing(await reservationSeriesAPI.markPaid(series.id));
+      toast({ title: "Success", description: "Series marked as paid. Every date is now confirmed." });
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to mark the series as paid.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancelOccurrence = (series: ReservationSeries, reservationId: string) => {
+    confirm({
+      title: "Cancel This Date?",
+      description: "Only this occurrence is cancelled. Anything paid for it is refunded.",
+      variant: "destructive",
+      confirmText: "Cancel Date",
+      cancelText: "Keep",
+      onConfirm: async () => {
+        try {
+          const cancelled = await reservationSeriesAPI.cancelOccurrence(series.id, reservationId);
+          setViewing(cancelled);
+          if (cancelled.refundFailure) {
+            toast({
+              title: "Refund failed",
+              description: `${cancelled.refundFailure}. Retry the refund from the session.`,
+              variant: "destructive",
+            });
+          } else if (cancelled.refundedAmount > 0) {
+            toast({ title: "Date cancelled", description: `₹${cancelled.refundedAmount} refunded.` });
+          }
+          loadData();
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to cancel this date.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
+  const handleCancelSeries = (series: ReservationSeries) => {
+    confirm({
+      title: "Cancel Whole Series?",
+      description: "Every upcoming date in this series is cancelled and refunded. Past dates are kept.",
+      variant: "destructive",
+      confirmText: "Cancel Series",
+      cancelText: "Keep",
+      onConfirm: async () => {
+        try {
+          const cancelled = await reservationSeriesAPI.cancel(series.id);
+          const refunded = cancelled.refundedAmount > 0 ? ` ₹${cancelled.refundedAmount} refunded.` : "";
+          toast({ title: "Series cancelled", description: `${cancelled.cancelledCount} upcoming booking(s) cancelled.${refunded}` });
+          if (cancelled.refundFailures > 0) {
+            toast({
+              title: "Some refunds failed",
+              description: `${cancelled.refundFailures} date(s) couldn't be refunded. Retry from their sessions.`,
+              variant: "destructive",
+            });
+          }
+          setViewing(null);
+          loadData();
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to cancel the series.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
+  const activityName = (id: string) => activities.find((a) => a.id === id)?.name || id;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Recurring Bookings</h1>
+            <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+              Leagues and regulars who book the same slot every week
+            </p>
+          </div>
+          <Button onClick={() => setIsFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Recurring Booking
+          </Button>
+        </div>
+
+        <Card className="glass">
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Billing</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {seriesList.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      {loading ? "Loading recurring bookings..." : "No recurring bookings yet."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  seriesList.map((series) => (
+                    <TableRow key={series.id}>
+                      <TableCell>
+                        <p className="font-medium">{series.customerName}</p>
+                        <p className="text-xs text-muted-foreground">{series.customerPhone}</p>
+                      </TableCell>
+                      <TableCell>
+                        {formatSchedule(series)}
+                        <p className="text-xs text-muted-foreground">{formatDuration(series.durationMinutes)} each</p>
+                      </TableCell>
+                      <TableCell>
+                        {activityName(series.activityId)}
+                        <p className="text-xs text-muted-foreground">{series.unitIds.length} unit(s)</p>
+                      </TableCell>
+                      <TableCell>
+                        {series.billing === "upfront" ? `Up front · ${formatCurrency(series.amount)}` : "Per date"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(series.status)}>{series.status.replace("_", " ")}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => openSeries(series.id)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Recurring Booking</DialogTitle>
+            </DialogHeader>
+            <SeriesForm activities={activities} onCreated={handleCreated} onCancel={() => setIsFormOpen(false)} />
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{viewing?.customerName}</DialogTitle>
+            </DialogHeader>
+            {viewing && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">{formatSchedule(viewing)}</p>
+
+                {viewing.skippedOccurrences.length > 0 && (
+                  <div className="rounded-md border border-destructive/40 p-3 space-y-1">
+                    <p className="text-sm font-medium">Skipped dates</p>
+                    {viewing.skippedOccurrences.map((skipped) => (
+                      <p key={skipped.startTime} className="text-xs text-muted-foreground">
+                        {formatDateTime(skipped.startTime)} — {skipped.reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Unit</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewing.occurrences?.map((occurrence) => (
+                      <TableRow key={occurrence.reservationId}>
+                        <TableCell>{formatDateTime(occurrence.startTime)}</TableCell>
+                        <TableCell>{occurrence.unitName}</TableCell>
+                        <TableCell>{formatCurrency(occurrence.amount)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{occurrence.status.replace("_", " ")}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {UPCOMING_STATUSES.includes(occurrence.status) &&
+                            new Date(occurrence.startTime) > new Date() && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleCancelOccurrence(viewing, occurrence.reservationId)}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="flex justify-end gap-2">
+                  {viewing.status === "pending_payment" && (
+                    <Button onClick={() => handleMarkPaid(viewing)}>
+                      Collected {formatCurrency(viewing.amount)}
+                    </Button>
+                  )}
+                  {viewing.status !== "cancelled" && (
+                    <Button variant="outline-destructive" onClick={() => handleCancelSeries(viewing)}>
+                      Cancel Series
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <ConfirmationDialog />
+      </div>
+    </AdminLayout>
+  );
+}
+
+interface SeriesFormProps {
+  activities: Activity[];
+  onCreated: (series: ReservationSeries) => void;
+  onCancel: () => void;
+}
+
+function SeriesForm({ activities, onCreated, onCancel }: SeriesFormProps) {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<ReservationSeriesRequest>({
+    activityId: activities[0]?.id || "",
+    unitIds: [],
+    startTime: "",
+    duration: 120,
+    frequency: "weekly",
+    occurrences: 8,
+    customerName: "",
+    customerPhone: "",
+    billing: "per_occurrence",
+  });
+  const [endsBy, setEndsBy] = useState<"count" | "date">("count");
+  const [preview, setPreview] = useState<SeriesPreview | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const activity = activities.find((a) => a.id === formData.activityId);
+
+  const update = (changes: Partial<ReservationSeriesRequest>) => {
+    setFormData({ ...formData, ...changes });
+    setPreview(null);
+  };
+
+  const toggleUnit = (id: string, checked: boolean) => {
+    update({
+      unitIds: checked ? [...formData.unitIds, id] : formData.unitIds.filter((unitId) => unitId !== id),
+    });
+  };
+
+  const buildRequest = (): ReservationSeriesRequest => ({
+    ...formData,
+    startTime: new Date(formData.startTime).toISOString(),
+    occurrences: endsBy === "count" ? formData.occurrences : undefined,
+    // The end date is a whole day, so the last occurrence can fall anywhere on it
+    endDate: endsBy === "date" && formData.endDate ? `${formData.endDate}T23:59:59` : undefined,
+  });
+
+  const handlePreview = async () => {
+    try {
+      setIsSubmitting(true);
+      setPreview(await reservationSeriesAPI.preview(buildRequest()));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check these dates.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview) {
+      handlePreview();
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      onCreated(await reservationSeriesAPI.create(buildRequest()));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create the recurring booking.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="seriesName">Customer name *</Label>
+          <Input
+            id="seriesName"
+            value={formData.customerName}
+            onChange={(e) => update({ customerName: e.target.value })}
+            placeholder="e.g., Tuesday League"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="seriesPhone">Phone *</Label>
+          <Input
+            id="seriesPhone"
+            type="tel"
+            value={formData.customerPhone}
+            onChange={(e) => update({ customerPhone: e.target.value.replace(/\D/g, "").slice(0, 10) })}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Service *</Label>
+        <Select value={formData.activityId} onValueChange={(value) => update({ activityId: value, unitIds: [] })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Pick a service" />
+          </SelectTrigger>
+          <SelectContent>
+            {activities.map((a) => (
+              <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {activity && (
+        <div className="space-y-2">
+          <Label>Units *</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {activity.units.map((unit) => (
+              <label key={unit.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData.unitIds.includes(unit.id)}
+                  disabled={unit.status === "maintenance"}
+                  onCheckedChange={(checked) => toggleUnit(unit.id, checked === true)}
+                />
+                {unit.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="seriesStart">First date *</Label>
+          <Input
+            id="seriesStart"
+            type="datetime-local"
+            value={formData.startTime}
+            onChange={(e) => update({ startTime: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="seriesDuration">Minutes *</Label>
+          <Input
+            id="seriesDuration"
+            type="number"
+            min={activity?.minimumDuration || 1}
+            step="15"
+            value={formData.duration}
+            onChange={(e) => update({ duration: Number(e.target.value) })}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Repeats</Label>
+          <Select value={formData.frequency} onValueChange={(value) => update({ frequency: value as SeriesFrequency })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Ends</Label>
+          <Select
+            value={endsBy}
+            onValueChange={(value) => {
+              setEndsBy(value as "count" | "date");
+              setPreview(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">After</SelectItem>
+              <SelectItem value="date">On date</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="seriesEnd">{endsBy === "count" ? "Dates" : "Last day"}</Label>
+          {endsBy === "count" ? (
+            <Input
+              id="seriesEnd"
+              type="number"
+              min="1"
+              max="52"
+              value={formData.occurrences ?? ""}
+              onChange={(e) => update({ occurrences: Number(e.target.value) })}
+              required
+            />
+          ) : (
+            <Input
+              id="seriesEnd"
+              type="date"
+              value={formData.endDate ?? ""}
+              onChange={(e) => update({ endDate: e.target.value })}
+              required
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Billing</Label>
+        <Select value={formData.billing} onValueChange={(value) => update({ billing: value as SeriesBilling })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="per_occurrence">Pay for each date</SelectItem>
+            <SelectItem value="upfront">Pay for the whole series up front</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {preview && (
+        <div className="rounded-md border p-3 space-y-1">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            {preview.availableCount} of {preview.occurrences.length} dates free
+          </p>
+          {preview.occurrences.map((occurrence) => (
+            <p
+              key={occurrence.startTime}
+              className={occurrence.available ? "text-xs text-muted-foreground" : "text-xs text-destructive"}
+            >
+              {formatDateTime(occurrence.startTime)}
+              {!occurrence.available && ` — ${occurrence.conflicts.join(", ")} taken, will be skipped`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting || formData.unitIds.length === 0}>
+          {preview ? `Book ${preview.availableCount} Date(s)` : "Check Dates"}
+        </Button>
+      </div>
+    </form>
+  );
+}
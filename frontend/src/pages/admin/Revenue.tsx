@@ -1,12 +1,15 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { BranchSwitcher } from "@/components/admin/BranchSwitcher";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { revenueAPI } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminBranch } from "@/hooks/useAdminBranch";
+import { BranchRevenue } from "@/lib/types";
 import { TrendingUp, Download, ChevronLeft, ChevronRight, Calendar } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
@@ -15,6 +18,7 @@ export default function Revenue() {
   const { toast } = useToast();
   const [revenueData, setRevenueData] = useState<any[]>([]);
   const [summary, setSummary] = useState<any>({ totalRevenue: 0, sessionRevenue: 0, orderRevenue: 0 });
+  const [byBranch, setByBranch] = useState<BranchRevenue[]>([]);
   const [pagination, setPagination] = useState({ page: 1, limit: 20, total: 0, pages: 0 });
   const [loading, setLoading] = useState(true);
   const [dateFilter, setDateFilter] = useState<'today' | 'week' | 'month' | 'all'>('today');
@@ -22,10 +26,11 @@ export default function Revenue() {
   const [exportStartDate, setExportStartDate] = useState('');
   const [exportEndDate, setExportEndDate] = useState('');
   const [isExporting, setIsExporting] = useState(false);
+  const branchId = useAdminBranch();
 
   useEffect(() => {
     loadData();
-  }, [dateFilter, pagination.page]);
+  }, [dateFilter, pagination.page, branchId]);
 
   const getDateRange = (filter: 'today' | 'week' | 'month' | 'all') => {
     const now = new Date();
@@ -67,6 +72,7 @@ export default function Revenue() {
 
       setRevenueData(data.data || []);
       setSummary(data.summary || {});
+      setByBranch(data.byBranch || []);
       setPagination(data.pagination || pagination);
     } catch (error: any) {
       console.error('Failed to load revenue data:', error);
@@ -159,70 +165,73 @@ export default function Revenue() {
             <TrendingUp className="w-6 h-6 text-primary" />
             <h2 className="text-2xl font-bold text-foreground">Revenue Tracking</h2>
           </div>
-          <Dialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline">
-                <Download className="h-4 w-4 mr-2" />
-                Export CSV
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Export Revenue Data</DialogTitle>
-                <DialogDescription>
-                  Select a date range to export revenue data to CSV format.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 py-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="startDate">Start Date</Label>
-                    <div className="relative">
-                      <Input
-                        id="startDate"
-                        type="date"
-                        value={exportStartDate}
-                        onChange={(e) => setExportStartDate(e.target.value)}
-                        className="date-input-white"
-                      />
-                      <Calendar className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 text-white pointer-events-none" />
+          <div className="flex items-center gap-2">
+            <BranchSwitcher />
+            <Dialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Export Revenue Data</DialogTitle>
+                  <DialogDescription>
+                    Select a date range to export revenue data to CSV format.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="startDate">Start Date</Label>
+                      <div className="relative">
+                        <Input
+                          id="startDate"
+                          type="date"
+                          value={exportStartDate}
+                          onChange={(e) => setExportStartDate(e.target.value)}
+                          className="date-input-white"
+                        />
+                        <Calendar className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 text-white pointer-events-none" />
+                      </div>
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="endDate">End Date</Label>
-                    <div className="relative">
-                      <Input
-                        id="endDate"
-                        type="date"
-                        value={exportEndDate}
-                        onChange={(e) => setExportEndDate(e.target.value)}
-                        className="date-input-white"
-                      />
-                      <Calendar className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 text-white pointer-events-none" />
+                    <div className="space-y-2">
+                      <Label htmlFor="endDate">End Date</Label>
+                      <div className="relative">
+                        <Input
+                          id="endDate"
+                          type="date"
+                          value={exportEndDate}
+                          onChange={(e) => setExportEndDate(e.target.value)}
+                          className="date-input-white"
+                        />
+                        <Calendar className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 text-white pointer-events-none" />
+                      </div>
                     </div>
                   </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsExportDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleExport} disabled={isExporting}>
+                      {isExporting ? (
+                        <>
+                          <Download className="h-4 w-4 mr-2 animate-spin" />
+                          Exporting...
+                        </>
+                      ) : (
+                        <>
+                          <Download className="h-4 w-4 mr-2" />
+                          Export
+                        </>
+                      )}
+                    </Button>
+                  </div>
                 </div>
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsExportDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleExport} disabled={isExporting}>
-                    {isExporting ? (
-                      <>
-                        <Download className="h-4 w-4 mr-2 animate-spin" />
-                        Exporting...
-                      </>
-                    ) : (
-                      <>
-                        <Download className="h-4 w-4 mr-2" />
-                        Export
-                      </>
-                    )}
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <Tabs value={dateFilter} onValueChange={(v) => {
@@ -248,6 +257,16 @@ export default function Revenue() {
                   <p className="text-xs text-muted-foreground mt-1">
                     {dateFilter === 'today' ? 'Today' : dateFilter === 'week' ? 'Last 7 days' : dateFilter === 'month' ? 'Last 30 days' : 'All time'}
                   </p>
+                  {summary.refundTotal > 0 && (
+                    <p className="text-xs text-destructive mt-1">
+                      Net of ₹{summary.refundTotal.toLocaleString()} in refunds
+                    </p>
+                  )}
+                  {summary.couponDiscountTotal > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      ₹{summary.grossRevenue.toLocaleString()} gross, less ₹{summary.couponDiscountTotal.toLocaleString()} in coupons
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -261,6 +280,11 @@ export default function Revenue() {
                   <p className="text-xs text-muted-foreground mt-1">
                     {summary.sessionCount || 0} {summary.sessionCount === 1 ? 'session' : 'sessions'}
                   </p>
+                  {summary.packageRevenue > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      + ₹{summary.packageRevenue.toLocaleString()} from {summary.packageCount} prepaid {summary.packageCount === 1 ? 'pack' : 'packs'}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -278,6 +302,36 @@ export default function Revenue() {
               </Card>
             </div>
 
+            {byBranch.length > 1 && (
+              <Card className="glass mb-6">
+                <CardHeader>
+                  <CardTitle>By Branch</CardTitle>
+                  <CardDescription>Each branch's share of the total</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {byBranch.map((branch) => (
+                      <div
+                        key={branch.branchId}
+                        className="flex items-center justify-between p-3 rounded-lg bg-card/50 border border-border/50"
+                      >
+                        <div className="flex-1">
+                          <div className="font-medium text-foreground">{branch.name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            Sessions ₹{branch.sessionRevenue.toLocaleString()} · Food ₹{branch.orderRevenue.toLocaleString()}
+                            {branch.packageRevenue > 0 && ` · Packs ₹${branch.packageRevenue.toLocaleString()}`}
+                          </div>
+                        </div>
+                        <div className="text-lg font-bold text-primary">
+                          ₹{branch.totalRevenue.toLocaleString()}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
               <Card className="glass">
                 <CardHeader>
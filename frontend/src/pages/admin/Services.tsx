@@ -10,10 +10,11 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { activitiesAPI, inventoryAPI } from "@/lib/api";
+import { Checkbox } from "@/components/ui/checkbox";
+import { activitiesAPI, inventoryAPI, pricingRulesAPI } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, Package, Settings, Link as LinkIcon } from "lucide-react";
-import { formatCurrency } from "@/lib/types";
+import { Plus, Edit, Trash2, Package, Settings, Link as LinkIcon, X } from "lucide-react";
+import { formatCurrency, PricingRule, PricingAdjustmentType } from "@/lib/types";
 import { useConfirmation } from "@/components/ui/confirmation-dialog";
 
 export default function Services() {
@@ -27,6 +28,9 @@ export default function Services() {
   const [editingInstance, setEditingInstance] = useState<any>(null);
   const [selectedService, setSelectedService] = useState<string | null>(null);
   const [equipmentAssignments, setEquipmentAssignments] = useState<any[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
 
   useEffect(() => {
     loadData();
@@ -35,8 +39,12 @@ export default function Services() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const activitiesData = await activitiesAPI.getAll();
+      const [activitiesData, rulesData] = await Promise.all([
+        activitiesAPI.getAll(),
+        pricingRulesAPI.getAll(),
+      ]);
       setActivities(activitiesData || []);
+      setPricingRules(rulesData || []);
     } catch (error: any) {
       console.error("Failed to load services:", error);
       toast({
@@ -176,6 +184,56 @@ export default function Services() {
     });
   };
 
+  const handleSaveRule = async (ruleData: PricingRuleFormData) => {
+    try {
+      if (editingRule) {
+        await pricingRulesAPI.update(editingRule.id, ruleData);
+      } else {
+        await pricingRulesAPI.create(ruleData);
+      }
+      toast({
+        title: "Success",
+        description: editingRule ? "Pricing rule updated successfully." : "Pricing rule created successfully.",
+      });
+      setIsRuleDialogOpen(false);
+      setEditingRule(null);
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save pricing rule.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    confirm({
+      title: "Delete Pricing Rule?",
+      description: "Bookings already priced keep their amount. New bookings will no longer use this rule.",
+      variant: "destructive",
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      onConfirm: async () => {
+        try {
+          await pricingRulesAPI.delete(ruleId);
+          toast({
+            title: "Success",
+            description: "Pricing rule deleted successfully.",
+          });
+          loadData();
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to delete pricing rule.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
   return (
     <AdminLayout>
       <div className="space-y-6">
@@ -332,6 +390,126 @@ export default function Services() {
           </CardContent>
         </Card>
 
+        {/* Pricing Rules */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Pricing Rules</CardTitle>
+                <CardDescription>
+                  Peak hours, holidays and flat rates. The highest priority rule wins when rules overlap.
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingRule(null);
+                  setIsRuleDialogOpen(true);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Adjustment</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pricingRules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No pricing rules. Activities use their base rate with the default weekend peak multiplier.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pricingRules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        {rule.activityIds.length === 0
+                          ? "All services"
+                          : rule.activityIds.map((a) => a.name).join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{describeRuleSchedule(rule)}</div>
+                        {rule.dateRanges.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {rule.dateRanges
+                              .map((r) => r.label || `${r.start.slice(0, 10)} → ${r.end.slice(0, 10)}`)
+                              .join(", ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {rule.adjustmentType === "flat_rate"
+                          ? `${formatCurrency(rule.flatRate || 0)} rate`
+                          : `× ${rule.multiplier}`}
+                      </TableCell>
+                      <TableCell>{rule.priority}</TableCell>
+                      <TableCell>
+                        <Badge variant={rule.enabled ? "default" : "secondary"}>
+                          {rule.enabled ? "Enabled" : "Disabled"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingRule(rule);
+                              setIsRuleDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteRule(rule.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Pricing Rule Dialog */}
+        <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingRule ? "Edit Pricing Rule" : "Add Pricing Rule"}</DialogTitle>
+            </DialogHeader>
+            <PricingRuleForm
+              key={editingRule?.id || "new"}
+              rule={editingRule}
+              activities={activities}
+              onSubmit={handleSaveRule}
+              onCancel={() => {
+                setIsRuleDialogOpen(false);
+                setEditingRule(null);
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+
         {/* Instance Dialog */}
         <Dialog open={isInstanceDialogOpen} onOpenChange={setIsInstanceDialogOpen}>
           <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -372,6 +550,9 @@ function ServiceForm({ service, onSubmit, onCancel }: any) {
     minimumDuration: service?.minimumDuration || 30,
     duration: service?.duration || undefined,
     bufferTime: service?.bufferTime || 5,
+    claimWindowMinutes: service?.claimWindowMinutes || 5,
+    noShowGraceMinutes: service?.noShowGraceMinutes || 15,
+    loyaltyPointsPerRupee: service?.loyaltyPointsPerRupee ?? 0.05,
     enabled: service?.enabled !== undefined ? service.enabled : true,
   });
 
@@ -477,6 +658,48 @@ function ServiceForm({ service, onSubmit, onCancel }: any) {
             required
           />
         </div>
+        <div className="space-y-2">
+          <Label htmlFor="loyaltyPointsPerRupee">Loyalty Points per ₹</Label>
+          <Input
+            id="loyaltyPointsPerRupee"
+            type="number"
+            step="0.01"
+            min="0"
+            value={formData.loyaltyPointsPerRupee}
+            onChange={(e) => setFormData({ ...formData, loyaltyPointsPerRupee: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="claimWindowMinutes">Queue Claim Window (min)</Label>
+        <Input
+          id="claimWindowMinutes"
+          type="number"
+          min="1"
+          value={formData.claimWindowMinutes}
+          onChange={(e) => setFormData({ ...formData, claimWindowMinutes: Number(e.target.value) })}
+        />
+        <p className="text-xs text-muted-foreground">
+          How long a customer called from the waiting queue has to claim a free unit before it goes to the next person
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="noShowGraceMinutes">No-Show Grace Period (min)</Label>
+        <Input
+          id="noShowGraceMinutes"
+          type="number"
+          min="1"
+          value={formData.noShowGraceMinutes}
+          onChange={(e) => setFormData({ ...formData, noShowGraceMinutes: Number(e.target.value) })}
+        />
+        <p className="text-xs text-muted-foreground">
+          How long after the start a booked slot waits for the customer to check in before it is released
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="enabled">Status</Label>
           <Select
@@ -589,3 +812,298 @@ function InstanceForm({ instance, serviceId, equipmentAssignments, onSubmit, onC
     </form>
   );
 }
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function describeRuleSchedule(rule: PricingRule) {
+  const days = rule.daysOfWeek.length === 0 || rule.daysOfWeek.length === 7
+    ? "Every day"
+    : [...rule.daysOfWeek].sort().map((d) => DAY_LABELS[d]).join(", ");
+  const allDay = rule.startTime === rule.endTime;
+  return allDay ? `${days}, all day` : `${days}, ${rule.startTime}–${rule.endTime}`;
+}
+
+interface PricingRuleFormData {
+  name: string;
+  activityIds: string[];
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  dateRanges: Array<{ start: string; end: string; label?: string }>;
+  adjustmentType: PricingAdjustmentType;
+  multiplier?: number;
+  flatRate?: number;
+  priority: number;
+  enabled: boolean;
+}
+
+interface PricingRuleFormProps {
+  rule: PricingRule | null;
+  activities: Array<{ id?: string; _id?: string; name: string }>;
+  onSubmit: (data: PricingRuleFormData) => void;
+  onCancel: () => void;
+}
+
+function PricingRuleForm({ rule, activities, onSubmit, onCancel }: PricingRuleFormProps) {
+  const [formData, setFormData] = useState<PricingRuleFormData>({
+    name: rule?.name || "",
+    activityIds: rule?.activityIds.map((a) => a._id) || [],
+    daysOfWeek: rule?.daysOfWeek || [],
+    startTime: rule?.startTime || "18:00",
+    endTime: rule?.endTime || "22:00",
+    dateRanges: (rule?.dateRanges || []).map((r) => ({
+      start: r.start.slice(0, 10),
+      end: r.end.slice(0, 10),
+      label: r.label,
+    })),
+    adjustmentType: rule?.adjustmentType || "multiplier",
+    multiplier: rule?.multiplier ?? 1.5,
+    flatRate: rule?.flatRate,
+    priority: rule?.priority ?? 0,
+    enabled: rule?.enabled !== undefined ? rule.enabled : true,
+  });
+
+  const toggleDay = (day: number) => {
+    setFormData({
+      ...formData,
+      daysOfWeek: formData.daysOfWeek.includes(day)
+        ? formData.daysOfWeek.filter((d) => d !== day)
+        : [...formData.daysOfWeek, day],
+    });
+  };
+
+  const toggleActivity = (activityId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      activityIds: checked
+        ? [...formData.activityIds, activityId]
+        : formData.activityIds.filter((id) => id !== activityId),
+    });
+  };
+
+  const updateDateRange = (index: number, field: "start" | "end" | "label", value: string) => {
+    const dateRanges = [...formData.dateRanges];
+    dateRanges[index] = { ...dateRanges[index], [field]: value };
+    setFormData({ ...formData, dateRanges });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...formData,
+      multiplier: formData.adjustmentType === "multiplier" ? formData.multiplier : undefined,
+      flatRate: formData.adjustmentType === "flat_rate" ? formData.flatRate : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="ruleName">Name *</Label>
+        <Input
+          id="ruleName"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="e.g., Weekend evenings, Diwali"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Services</Label>
+        <p className="text-xs text-muted-foreground">Leave all unchecked to apply to every service.</p>
+        <div className="grid grid-cols-2 gap-2">
+          {activities.map((activity) => {
+            const id = activity._id || activity.id || "";
+            return (
+              <label key={id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData.activityIds.includes(id)}
+                  onCheckedChange={(checked) => toggleActivity(id, checked === true)}
+                />
+                {activity.name}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Days</Label>
+        <p className="text-xs text-muted-foreground">Leave all unselected to apply every day.</p>
+        <div className="flex flex-wrap gap-2">
+          {DAY_LABELS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={formData.daysOfWeek.includes(day) ? "default" : "outline"}
+              onClick={() => toggleDay(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="ruleStart">From</Label>
+          <Input
+            id="ruleStart"
+            type="time"
+            value={formData.startTime}
+            onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ruleEnd">Until</Label>
+          <Input
+            id="ruleEnd"
+            type="time"
+            value={formData.endTime}
+            onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        An end before the start runs past midnight. Equal times cover the whole day.
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Date Ranges</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setFormData({
+                ...formData,
+                dateRanges: [...formData.dateRanges, { start: "", end: "", label: "" }],
+              })
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Dates
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Optional. Use for holidays and special events.</p>
+        {formData.dateRanges.map((range, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+            <Input
+              type="date"
+              value={range.start}
+              onChange={(e) => updateDateRange(index, "start", e.target.value)}
+              required
+            />
+            <Input
+              type="date"
+              value={range.end}
+              onChange={(e) => updateDateRange(index, "end", e.target.value)}
+              required
+            />
+            <Input
+              value={range.label || ""}
+              onChange={(e) => updateDateRange(index, "label", e.target.value)}
+              placeholder="Label"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                setFormData({
+                  ...formData,
+                  dateRanges: formData.dateRanges.filter((_, i) => i !== index),
+                })
+              }
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="adjustmentType">Adjustment *</Label>
+          <Select
+            value={formData.adjustmentType}
+            onValueChange={(value) => setFormData({ ...formData, adjustmentType: value as PricingAdjustmentType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="multiplier">Multiplier on base rate</SelectItem>
+              <SelectItem value="flat_rate">Flat rate</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {formData.adjustmentType === "multiplier" ? (
+          <div className="space-y-2">
+            <Label htmlFor="multiplier">Multiplier *</Label>
+            <Input
+              id="multiplier"
+              type="number"
+              step="0.05"
+              min="0.05"
+              value={formData.multiplier ?? ""}
+              onChange={(e) => setFormData({ ...formData, multiplier: Number(e.target.value) })}
+              required
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="flatRate">Rate (₹, same unit as base rate) *</Label>
+            <Input
+              id="flatRate"
+              type="number"
+              min="0"
+              value={formData.flatRate ?? ""}
+              onChange={(e) => setFormData({ ...formData, flatRate: Number(e.target.value) })}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="priority">Priority</Label>
+          <Input
+            id="priority"
+            type="number"
+            value={formData.priority}
+            onChange={(e) => setFormData({ ...formData, priority: Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ruleEnabled">Status</Label>
+          <Select
+            value={formData.enabled ? "enabled" : "disabled"}
+            onValueChange={(value) => setFormData({ ...formData, enabled: value === "enabled" })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="enabled">Enabled</SelectItem>
+              <SelectItem value="disabled">Disabled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">Save</Button>
+      </div>
+    </form>
+  );
+}
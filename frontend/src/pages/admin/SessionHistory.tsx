@@ -30,11 +30,13 @@ import {
   Filter,
   ChevronLeft,
   ChevronRight,
-  Trash2
+  Trash2,
+  Undo2
 } from "lucide-react";
 import { formatDuration, formatCurrency } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefundDialog } from "@/components/admin/RefundDialog";
 
 export default function SessionHistory() {
   const { toast } = useToast();
@@ -44,6 +46,7 @@ export default function SessionHistory() {
   const [limit] = useState(20);
   const [offset, setOffset] = useState(0);
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [refundSessionId, setRefundSessionId] = useState<string | null>(null);
 
   const { on, isConnected } = useWebSocket({ namespace: 'admin' });
 
@@ -119,11 +122,17 @@ export default function SessionHistory() {
         return <Badge className="bg-warning/20 text-warning border-warning/30">Pending</Badge>;
       case 'failed':
         return <Badge className="bg-destructive/20 text-destructive border-destructive/30">Failed</Badge>;
+      case 'refunded':
+        return <Badge className="bg-muted text-muted-foreground border-border">Refunded</Badge>;
+      case 'partially_refunded':
+        return <Badge className="bg-warning/20 text-warning border-warning/30">Partially Refunded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
+  const isRefundable = (paymentStatus: string) => ['paid', 'offline', 'partially_refunded'].includes(paymentStatus);
+
   const formatDate = (date: Date) => {
     return date.toLocaleString('en-IN', {
       day: '2-digit',
@@ -166,6 +175,8 @@ export default function SessionHistory() {
     }
   };
 
+  const refundSession = sessions.find((s) => s.id === refundSessionId);
+
   const totalPages = Math.ceil(total / limit);
   const currentPage = Math.floor(offset / limit) + 1;
 
@@ -269,6 +280,11 @@ export default function SessionHistory() {
                                 </p>
                               ) : null;
                             })()}
+                            {session.refundedAmount > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatCurrency(session.refundedAmount)} refunded
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -339,7 +355,18 @@ export default function SessionHistory() {
                         </div>
                       </div>
 
-                      <div className="mt-auto pt-4 border-t border-border/50">
+                      <div className="mt-auto pt-4 border-t border-border/50 space-y-2">
+                        {isRefundable(session.paymentStatus) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full"
+                            onClick={() => setRefundSessionId(session.id)}
+                          >
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Refund
+                          </Button>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -412,6 +439,19 @@ export default function SessionHistory() {
           </>
         )}
       </div>
+
+      {refundSession && (
+        <RefundDialog
+          open={!!refundSession}
+          onOpenChange={(open) => !open && setRefundSessionId(null)}
+          type="session"
+          entityId={refundSession.id}
+          customerName={refundSession.customerName}
+          paidAmount={refundSession.amount || 0}
+          refundedAmount={refundSession.refundedAmount || 0}
+          onRefunded={() => loadSessions()}
+        />
+      )}
     </AdminLayout>
   );
 }
@@ -3,12 +3,16 @@ import { motion } from "framer-motion";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { sessionsAPI } from "@/lib/api";
+import { paymentsAPI, sessionsAPI } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { PauseSessionDialog } from "@/components/PauseSessionDialog";
 import { ResumeSessionDialog } from "@/components/ResumeSessionDialog";
 import { WinnerSelectionDialog } from "@/components/WinnerSelectionDialog";
+import { GroupSessionCard } from "@/components/admin/GroupSessionCard";
+import { TransferSessionDialog } from "@/components/admin/TransferSessionDialog";
+import { StartOpenSessionDialog } from "@/components/admin/StartOpenSessionDialog";
+import { LapEntryDialog } from "@/components/admin/LapEntryDialog";
 import { 
   Clock, 
   User, 
@@ -21,9 +25,13 @@ import {
   CheckCircle,
   XCircle,
   Trophy,
-  Users
+  Users,
+  UserCheck,
+  ArrowRightLeft,
+  Wallet,
+  Timer
 } from "lucide-react";
-import { formatDuration, formatCurrency } from "@/lib/types";
+import { formatDuration, formatCurrency, Session } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
 import { useConfirmation } from "@/components/ui/confirmation-dialog";
 
@@ -36,6 +44,9 @@ export default function AdminSessions() {
   const [pauseDialogOpen, setPauseDialogOpen] = useState(false);
   const [resumeDialogOpen, setResumeDialogOpen] = useState(false);
   const [winnerDialogOpen, setWinnerDialogOpen] = useState(false);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [lapDialogOpen, setLapDialogOpen] = useState(false);
+  const [startOpenDialogOpen, setStartOpenDialogOpen] = useState(false);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [timerData, setTimerData] = useState<Record<string, { elapsed: number; remaining: number }>>({});
   const isEndingRef = useRef<Set<string>>(new Set());
@@ -154,6 +165,21 @@ export default function AdminSessions() {
       });
     };
 
+    const handleCheckedIn = (data: { session_id: string; checked_in_at: string }) => {
+      setSessions(prevSessions =>
+        prevSessions.map(s => (s.id === data.session_id ? { ...s, checkedInAt: data.checked_in_at } : s))
+      );
+    };
+
+    const handleNoShow = (data: { session_id: string }) => {
+      setSessions(prevSessions => prevSessions.filter(s => s.id !== data.session_id));
+    };
+
+    // Moves, open-ended bills and disputed votes change the card, so reload
+    const handleTransferred = () => {
+      loadSessions();
+    };
+
     const handleWinnerSelected = (data: any) => {
       setSessions(prevSessions => 
         prevSessions.map(s => {
@@ -183,6 +209,12 @@ export default function AdminSessions() {
     const cleanupChallengeEnded = on('challenge_session_ended', handleChallengeSessionEnded);
     const cleanupSessionEnded = on('session_ended', handleSessionEnded);
     const cleanupWinnerSelected = on('winner_selected', handleWinnerSelected);
+    const cleanupCheckedIn = on('session_checked_in', handleCheckedIn);
+    const cleanupNoShow = on('session_no_show', handleNoShow);
+    const cleanupTransferred = on('session_transferred', handleTransferred);
+    const cleanupPaymentDue = on('session_payment_due', handleTransferred);
+    const cleanupPaymentOverdue = on('session_payment_overdue', handleTransferred);
+    const cleanupDisputed = on('challenge_disputed', handleTransferred);
 
     return () => {
       cleanupPaused();
@@ -191,6 +223,12 @@ export default function AdminSessions() {
       cleanupChallengeEnded();
       cleanupSessionEnded();
       cleanupWinnerSelected();
+      cleanupCheckedIn();
+      cleanupNoShow();
+      cleanupTransferred();
+      cleanupPaymentDue();
+      cleanupPaymentOverdue();
+      cleanupDisputed();
     };
   }, [isConnected, on]);
 
@@ -263,12 +301,34 @@ export default function AdminSessions() {
     }
   };
 
-  const handleEndSession = async (sessionId: string) => {
+  const handleCheckIn = async (sessionId: string) => {
+    setActionLoading(sessionId);
+    try {
+      await sessionsAPI.checkIn(sessionId);
+      toast({
+        title: "Checked In",
+        description: "The customer's booking will not be released as a no-show.",
+      });
+      await loadSessions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check in.",
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleEndSession = async (sessionId: string, groupSize?: number) => {
     if (isEndingRef.current.has(sessionId)) return;
     
     confirm({
-      title: "End Session?",
-      description: "Are you sure you want to end this session? This action cannot be undone.",
+      title: groupSize ? "End Group Booking?" : "End Session?",
+      description: groupSize
+        ? `This ends all ${groupSize} units in the group. This action cannot be undone.`
+        : "Are you sure you want to end this session? This action cannot be undone.",
       variant: "destructive",
       confirmText: "End Session",
       cancelText: "Cancel",
@@ -278,10 +338,12 @@ export default function AdminSessions() {
         setActionLoading(sessionId);
         
         try {
-          await sessionsAPI.end(sessionId);
+          const result = await sessionsAPI.end(sessionId);
           toast({
             title: "Session Ended",
-            description: "The session has been ended successfully.",
+            description: result.status === 'awaiting_payment'
+              ? `Bill for ${formatDuration(result.billedMinutes)}: ${formatCurrency(result.amountDue)}. Collect payment to free the unit.`
+              : "The session has been ended successfully.",
           });
           await loadSessions();
         } catch (error: any) {
@@ -302,6 +364,34 @@ export default function AdminSessions() {
     });
   };
 
+  const handleCollectPayment = async (sessionId: string, amount: number) => {
+    confirm({
+      title: "Collect Payment?",
+      description: `Mark ${formatCurrency(amount)} as paid at the counter. This closes the session and frees the unit.`,
+      confirmText: "Paid",
+      cancelText: "Cancel",
+      onConfirm: async () => {
+        setActionLoading(sessionId);
+        try {
+          await paymentsAPI.markOffline({ type: 'session', entityId: sessionId });
+          toast({
+            title: "Payment Collected",
+            description: "The session is closed and the unit is free.",
+          });
+          await loadSessions();
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to record payment.",
+            variant: "destructive",
+          });
+        } finally {
+          setActionLoading(null);
+        }
+      },
+    });
+  };
+
   const getElapsedTime = (session: any) => {
     if (timerData[session.id]) {
       return Math.floor(timerData[session.id].elapsed / 60);
@@ -347,6 +437,13 @@ export default function AdminSessions() {
     return session.totalPausedDuration || 0;
   };
 
+  // Sessions from one group booking share a window, so they get a single card
+  const sessionGroups = new Map<string, Session[]>();
+  sessions.filter((s) => s.groupBookingId).forEach((s) => {
+    sessionGroups.set(s.groupBookingId, [...(sessionGroups.get(s.groupBookingId) || []), s]);
+  });
+  const soloSessions = sessions.filter((s) => !s.groupBookingId);
+
   if (loading) {
     return (
       <AdminLayout>
@@ -367,14 +464,20 @@ export default function AdminSessions() {
               Manage all active gaming sessions
             </p>
           </div>
-          <Button
-            variant="outline"
-            onClick={loadSessions}
-            disabled={loading}
-          >
-            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setStartOpenDialogOpen(true)}>
+              <Timer className="w-4 h-4 mr-2" />
+              Open Session
+            </Button>
+            <Button
+              variant="outline"
+              onClick={loadSessions}
+              disabled={loading}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {sessions.length === 0 ? (
@@ -385,12 +488,26 @@ export default function AdminSessions() {
           </Card>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {sessions.map((session) => {
+            {[...sessionGroups.entries()].map(([groupBookingId, groupSessions]) => (
+              <GroupSessionCard
+                key={groupBookingId}
+                sessions={groupSessions}
+                elapsed={getElapsedTime(groupSessions[0])}
+                remaining={getRemainingTime(groupSessions[0])}
+                loading={groupSessions.some((s) => actionLoading === s.id)}
+                onEnd={() => handleEndSession(groupSessions[0].id, groupSessions.length)}
+                onCheckIn={() => handleCheckIn(groupSessions[0].id)}
+              />
+            ))}
+            {soloSessions.map((session) => {
               const isPaused = session.status === 'paused';
               const elapsed = getElapsedTime(session);
               const remaining = getRemainingTime(session);
               const pausedDuration = getPausedDuration(session);
               const isLoading = actionLoading === session.id;
+              const awaitingCheckIn = !!session.checkInDeadline && !session.checkedInAt;
+              const isOpenEnded = session.billingMode === 'postpaid';
+              const awaitingPayment = session.status === 'awaiting_payment';
 
               return (
                 <motion.div
@@ -410,6 +527,26 @@ export default function AdminSessions() {
                                 Paused
                               </Badge>
                             )}
+                            {awaitingPayment && !session.paymentOverdueAt && (
+                              <Badge variant="outline" className="bg-warning/20 text-warning border-warning/50">
+                                <Wallet className="w-3 h-3 mr-1" />
+                                Awaiting Payment
+                              </Badge>
+                            )}
+                            {awaitingPayment && session.paymentOverdueAt && (
+                              <Badge variant="outline" className="bg-destructive/20 text-destructive border-destructive/50">
+                                <Wallet className="w-3 h-3 mr-1" />
+                                Payment Overdue
+                              </Badge>
+                            )}
+                            {isOpenEnded && !awaitingPayment && (
+                              <Badge variant="outline">Open</Badge>
+                            )}
+                            {awaitingCheckIn && (
+                              <Badge variant="outline">
+                                Check in by {new Date(session.checkInDeadline).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })}
+                              </Badge>
+                            )}
                           </CardTitle>
                           <CardDescription className="mt-1">
                             Unit ID: {session.unitId}
@@ -440,10 +577,22 @@ export default function AdminSessions() {
                           <p className="text-muted-foreground text-xs mb-1">Elapsed</p>
                           <p className="font-semibold text-foreground">{formatDuration(elapsed)}</p>
                         </div>
-                        <div>
-                          <p className="text-muted-foreground text-xs mb-1">Remaining</p>
-                          <p className="font-semibold text-primary">{formatDuration(remaining)}</p>
-                        </div>
+                        {awaitingPayment ? (
+                          <div>
+                            <p className="text-muted-foreground text-xs mb-1">Amount Due</p>
+                            <p className="font-semibold text-warning">{formatCurrency(session.finalAmount || 0)}</p>
+                          </div>
+                        ) : isOpenEnded ? (
+                          <div>
+                            <p className="text-muted-foreground text-xs mb-1">Billing</p>
+                            <p className="font-semibold text-primary">Pay at end</p>
+                          </div>
+                        ) : (
+                          <div>
+                            <p className="text-muted-foreground text-xs mb-1">Remaining</p>
+                            <p className="font-semibold text-primary">{formatDuration(remaining)}</p>
+                          </div>
+                        )}
                         {pausedDuration > 0 && (
                           <div className="col-span-2">
                             <p className="text-muted-foreground text-xs mb-1 flex items-center gap-1">
@@ -487,7 +636,11 @@ export default function AdminSessions() {
                                 </p>
                               )}
                               {session.status === 'ended' && !session.challengeData.winner && (
-                                <p className="text-warning">Winner needs to be selected</p>
+                                <p className="text-warning">
+                                  {session.challengeData.disputed
+                                    ? 'Votes disagree: pick the winner to settle the dispute'
+                                    : 'Winner needs to be selected'}
+                                </p>
                               )}
                             </div>
                           </div>
@@ -497,6 +650,18 @@ export default function AdminSessions() {
 
                       {/* Actions */}
                       <div className="flex gap-2 flex-wrap">
+                        {awaitingCheckIn && (
+                          <Button
+                            variant="glow"
+                            size="sm"
+                            className="w-full"
+                            onClick={() => handleCheckIn(session.id)}
+                            disabled={isLoading}
+                          >
+                            <UserCheck className="w-4 h-4 mr-2" />
+                            Check In
+                          </Button>
+                        )}
                         {session.isChallengeSession && session.status === 'ended' && session.challengeData && !session.challengeData.winner && (
                           <Button
                             variant="glow"
@@ -512,7 +677,19 @@ export default function AdminSessions() {
                             Select Winner
                           </Button>
                         )}
-                        {isPaused ? (
+                        {awaitingPayment && (
+                          <Button
+                            variant="glow"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => handleCollectPayment(session.id, session.finalAmount || 0)}
+                            disabled={isLoading}
+                          >
+                            <Wallet className="w-4 h-4 mr-2" />
+                            Collect {formatCurrency(session.finalAmount || 0)}
+                          </Button>
+                        )}
+                        {awaitingPayment ? null : isPaused ? (
                           <Button
                             variant="glow"
                             size="sm"
@@ -541,14 +718,45 @@ export default function AdminSessions() {
                             Pause
                           </Button>
                         )}
-                        <Button
-                          variant="outline-destructive"
-                          size="sm"
-                          onClick={() => handleEndSession(session.id)}
-                          disabled={isLoading}
-                        >
-                          <LogOut className="w-4 h-4" />
-                        </Button>
+                        {!session.isChallengeSession && ['active', 'paused'].includes(session.status) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Move to another unit"
+                            onClick={() => {
+                              setSelectedSession(session.id);
+                              setTransferDialogOpen(true);
+                            }}
+                            disabled={isLoading}
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {session.activityType === 'racing' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Lap times"
+                            onClick={() => {
+                              setSelectedSession(session.id);
+                              setLapDialogOpen(true);
+                            }}
+                            disabled={isLoading}
+                          >
+                            <Timer className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {!awaitingPayment && (
+                          <Button
+                            variant="outline-destructive"
+                            size="sm"
+                            title={isOpenEnded ? "Finish and bill" : "End session"}
+                            onClick={() => handleEndSession(session.id)}
+                            disabled={isLoading}
+                          >
+                            <LogOut className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -617,6 +825,7 @@ export default function AdminSessions() {
             sessionId={selectedSession || ''}
             players={sessions.find((s) => s.id === selectedSession)?.challengeData?.players || []}
             winner={sessions.find((s) => s.id === selectedSession)?.challengeData?.winner}
+            disputed={sessions.find((s) => s.id === selectedSession)?.challengeData?.disputed}
             onWinnerSelected={async () => {
               if (selectedSession) {
                 await loadSessions();
@@ -626,8 +835,41 @@ export default function AdminSessions() {
             }}
             variant="admin"
           />
+          <TransferSessionDialog
+            open={transferDialogOpen && !!selectedSession}
+            onOpenChange={(open) => {
+              setTransferDialogOpen(open);
+              if (!open) {
+                setSelectedSession(null);
+              }
+            }}
+            sessionId={selectedSession}
+            activityType={sessions.find((s) => s.id === selectedSession)?.activityType}
+            currentUnitId={sessions.find((s) => s.id === selectedSession)?.unitId || ''}
+            onTransferred={() => {
+              loadSessions();
+            }}
+          />
+          <LapEntryDialog
+            open={lapDialogOpen && !!selectedSession}
+            onOpenChange={(open) => {
+              setLapDialogOpen(open);
+              if (!open) {
+                setSelectedSession(null);
+              }
+            }}
+            sessionId={selectedSession}
+            customerName={sessions.find((s) => s.id === selectedSession)?.customerName || 'the driver'}
+          />
         </>
       ) : null}
+      <StartOpenSessionDialog
+        open={startOpenDialogOpen}
+        onOpenChange={setStartOpenDialogOpen}
+        onStarted={() => {
+          loadSessions();
+        }}
+      />
       <ConfirmationDialog />
     </AdminLayout>
   );
@@ -0,0 +1,515 @@
+import { useState, useEffect } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ScheduleMatchDialog } from "@/components/admin/ScheduleMatchDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { activitiesAPI, paymentsAPI, tournamentsAPI } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmation } from "@/components/ui/confirmation-dialog";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { ExternalLink, Play, Plus, Trophy, XCircle } from "lucide-react";
+import { formatCurrency, Activity, Tournament, TournamentFormat, TournamentMatch, TournamentRequest } from "@/lib/types";
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Knockout",
+  round_robin: "Round robin",
+};
+
+const getStatusBadge = (status: Tournament["status"]) => {
+  switch (status) {
+    case "registration":
+      return <Badge className="bg-primary/20 text-primary border-primary/30">Registration</Badge>;
+    case "in_progress":
+      return <Badge className="bg-warning/20 text-warning border-warning/30">In Progress</Badge>;
+    case "completed":
+      return <Badge className="bg-success/20 text-success border-success/30">Completed</Badge>;
+    default:
+      return <Badge variant="outline">Cancelled</Badge>;
+  }
+};
+
+export default function Tournaments() {
+  const { toast } = useToast();
+  const { confirm, ConfirmationDialog } = useConfirmation();
+  const { on, isConnected } = useWebSocket({ namespace: "admin" });
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [schedulingMatch, setSchedulingMatch] = useState<TournamentMatch | null>(null);
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    return on("tournament_updated", (data: Tournament) => {
+      setTournaments((prev) => prev.map((tournament) => (tournament.id === data.id ? data : tournament)));
+    });
+  }, [isConnected, on]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [tournamentData, activityData] = await Promise.all([
+        tournamentsAPI.getAll(),
+        activitiesAPI.getAll(true),
+      ]);
+      setTournaments(tournamentData);
+      setActivities(activityData);
+    } catch (error) {
+      console.error('Failed to load tournaments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tournaments.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceTournament = (updated: Tournament) => {
+    setTournaments((prev) => prev.map((tournament) => (tournament.id === updated.id ? updated : tournament)));
+  };
+
+  const handleCreate = async (data: TournamentRequest) => {
+    try {
+      const created = await tournamentsAPI.create(data);
+      toast({
+        title: "Success",
+        description: `${created.name} is open for registration.`,
+      });
+      setIsDialogOpen(false);
+      loadData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create tournament.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStart = async (tournament: Tournament) => {
+    try {
+      replaceTournament(await tournamentsAPI.start(tournament.id));
+      setSelectedId(tournament.id);
+      toast({
+        title: "Bracket Drawn",
+        description: `${tournament.name} has started with ${tournament.playerCount} players.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start tournament.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = (tournament: Tournament) => {
+    confirm({
+      title: "Cancel Tournament?",
+      description: "Players who paid an entry fee will need to be refunded at the counter.",
+      variant: "destructive",
+      confirmText: "Cancel Tournament",
+      cancelText: "Keep",
+      onConfirm: async () => {
+        try {
+          replaceTournament(await tournamentsAPI.cancel(tournament.id));
+          toast({
+            title: "Success",
+            description: "Tournament cancelled.",
+          });
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to cancel tournament.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
+  // Players paying at the counter are only confirmed once staff have the cash
+  const handleCollectEntryFee = (tournament: Tournament, player: Tournament["players"][number]) => {
+    confirm({
+      title: "Collect Entry Fee?",
+      description: `Mark ${formatCurrency(tournament.entryFee)} from ${player.name} as paid at the counter. This confirms their place in the draw.`,
+      confirmText: "Paid",
+      cancelText: "Cancel",
+      onConfirm: async () => {
+        try {
+          await paymentsAPI.markOffline({ type: "tournament_entry", entityId: player.id });
+          replaceTournament(await tournamentsAPI.getById(tournament.id));
+          toast({
+            title: "Entry Fee Collected",
+            description: `${player.name} is in the draw.`,
+          });
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to record the entry fee.",
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+    });
+  };
+
+  const selected = tournaments.find((tournament) => tournament.id === selectedId);
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Tournaments</h1>
+            <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+              Knockout and round-robin events with live brackets
+            </p>
+          </div>
+          <Button onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tournament
+          </Button>
+        </div>
+
+        <Card className="glass">
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Starts</TableHead>
+                  <TableHead>Players</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : tournaments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No tournaments yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  tournaments.map((tournament) => (
+                    <TableRow
+                      key={tournament.id}
+                      className={`cursor-pointer ${tournament.id === selectedId ? "bg-primary/5" : ""}`}
+                      onClick={() => setSelectedId(tournament.id)}
+                    >
+                      <TableCell className="font-medium">{tournament.name}</TableCell>
+                      <TableCell>{FORMAT_LABELS[tournament.format]}</TableCell>
+                      <TableCell>{new Date(tournament.startsAt).toLocaleString("en-IN")}</TableCell>
+                      <TableCell>{tournament.playerCount}/{tournament.maxPlayers}</TableCell>
+                      <TableCell>{tournament.entryFee > 0 ? formatCurrency(tournament.entryFee) : "Free"}</TableCell>
+                      <TableCell>{getStatusBadge(tournament.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                          {tournament.status === "registration" && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Draw the bracket and start"
+                                disabled={tournament.playerCount < 2}
+                                onClick={() => handleStart(tournament)}
+                              >
+                                <Play className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" title="Cancel" onClick={() => handleCancel(tournament)}>
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Open the public bracket"
+                            onClick={() => window.open(`/tournaments/${tournament.id}`, "_blank")}
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {selected && selected.status === "registration" && selected.entryFee > 0 && selected.players.length > 0 && (
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-primary" />
+                {selected.name} sign-ups
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Player</TableHead>
+                    <TableHead>Entry Fee</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.players.map((player) => (
+                    <TableRow key={player.id}>
+                      <TableCell>{player.name}</TableCell>
+                      <TableCell>
+                        {player.paid ? (
+                          <Badge className="bg-success/20 text-success border-success/30">Paid</Badge>
+                        ) : (
+                          <Badge variant="outline">Unpaid</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {!player.paid && (
+                          <Button variant="outline" size="sm" onClick={() => handleCollectEntryFee(selected, player)}>
+                            Cash Received
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {selected && selected.matches.length > 0 && (
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-primary" />
+                {selected.name}
+                {selected.winner && <span className="text-sm font-normal text-muted-foreground">· won by {selected.winner}</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Round</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Winner</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.matches.map((match) => (
+                    <TableRow key={match.id}>
+                      <TableCell>{match.round}</TableCell>
+                      <TableCell>{match.player1 || "TBD"} vs {match.player2 || (match.status === "bye" ? "Bye" : "TBD")}</TableCell>
+                      <TableCell>{match.winner || "-"}</TableCell>
+                      <TableCell className="capitalize">
+                        {match.status.replace("_", " ")}
+                        {match.status === "scheduled" && match.scheduledAt && (
+                          <span className="text-xs text-muted-foreground"> · {new Date(match.scheduledAt).toLocaleTimeString("en-IN")}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {selected.status === "in_progress" && match.status === "pending" && match.player1 && match.player2 && (
+                          <Button variant="outline" size="sm" onClick={() => setSchedulingMatch(match)}>
+                            Schedule
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {selected && (
+          <ScheduleMatchDialog
+            tournament={selected}
+            match={schedulingMatch}
+            onOpenChange={(open) => !open && setSchedulingMatch(null)}
+            onScheduled={replaceTournament}
+          />
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Add Tournament</DialogTitle>
+            </DialogHeader>
+            <TournamentForm
+              activities={activities}
+              onSubmit={handleCreate}
+              onCancel={() => setIsDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <ConfirmationDialog />
+      </div>
+    </AdminLayout>
+  );
+}
+
+interface TournamentFormProps {
+  activities: Activity[];
+  onSubmit: (data: TournamentRequest) => void;
+  onCancel: () => void;
+}
+
+function TournamentForm({ activities, onSubmit, onCancel }: TournamentFormProps) {
+  const [formData, setFormData] = useState<TournamentRequest>({
+    name: "",
+    activityId: activities[0]?.id || "",
+    format: "single_elimination",
+    entryFee: 0,
+    maxPlayers: 8,
+    startsAt: "",
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...formData,
+      startsAt: new Date(formData.startsAt).toISOString(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="tournamentName">Name *</Label>
+        <Input
+          id="tournamentName"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="e.g., Friday Night FIFA Cup"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Game *</Label>
+          <Select value={formData.activityId} onValueChange={(value) => setFormData({ ...formData, activityId: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a game" />
+            </SelectTrigger>
+            <SelectContent>
+              {activities.map((activity) => (
+                <SelectItem key={activity.id} value={activity.id}>
+                  {activity.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Format *</Label>
+          <Select
+            value={formData.format}
+            onValueChange={(value) => setFormData({ ...formData, format: value as TournamentFormat })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMAT_LABELS) as TournamentFormat[]).map((format) => (
+                <SelectItem key={format} value={format}>
+                  {FORMAT_LABELS[format]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tournamentFee">Entry fee (₹)</Label>
+          <Input
+            id="tournamentFee"
+            type="number"
+            min="0"
+            value={formData.entryFee ?? 0}
+            onChange={(e) => setFormData({ ...formData, entryFee: Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tournamentMaxPlayers">Max players *</Label>
+          <Input
+            id="tournamentMaxPlayers"
+            type="number"
+            min="2"
+            max="64"
+            value={formData.maxPlayers}
+            onChange={(e) => setFormData({ ...formData, maxPlayers: Number(e.target.value) })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tournamentMatchDuration">Match (min)</Label>
+          <Input
+            id="tournamentMatchDuration"
+            type="number"
+            min="1"
+            placeholder="Default"
+            value={formData.matchDuration ?? ""}
+            onChange={(e) => setFormData({ ...formData, matchDuration: e.target.value ? Number(e.target.value) : undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tournamentStartsAt">Starts at *</Label>
+        <Input
+          id="tournamentStartsAt"
+          type="datetime-local"
+          value={formData.startsAt}
+          onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+          required
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!formData.activityId}>
+          Create Tournament
+        </Button>
+      </div>
+    </form>
+  );
+}